@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AccessRequestForm from '@/components/AccessRequestForm';
 import { useNotification } from '@/components/Notification';
@@ -44,7 +45,7 @@ export default function AccessPage() {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const { showNotification, NotificationComponent } = useNotification();
 
-  const isCEOOrCTO = user?.role === 'CEO' || user?.role === 'CTO';
+  const canViewAllRequests = !!user && (user.permissions ?? getUserPermissions(user.role)).canViewAllAccessRequests;
 
   const fetchAccessRequests = async () => {
     setLoading(true);
@@ -96,7 +97,7 @@ export default function AccessPage() {
 
   const handleDeleteAccess = async (accessId: string) => {
     try {
-      const response = await fetch(`/api/access?id=${accessId}&deletedBy=system`, {
+      const response = await fetch(`/api/access?id=${accessId}`, {
         method: 'DELETE',
       });
 
@@ -152,7 +153,7 @@ export default function AccessPage() {
         <div className="sm:flex-auto">
           <h1 className="text-2xl font-semibold text-gray-900">Access Management</h1>
           <p className="mt-2 text-sm text-gray-700">
-            {isCEOOrCTO 
+            {canViewAllRequests 
               ? "Manage access requests and permissions for company resources. All requests automatically create approval workflows."
               : "View your access requests and request new permissions for company resources. All requests automatically create approval workflows."
             }
@@ -178,7 +179,7 @@ export default function AccessPage() {
                 <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                 </svg>
-                {isCEOOrCTO ? 'Load All Requests' : 'Load My Requests'}
+                {canViewAllRequests ? 'Load All Requests' : 'Load My Requests'}
               </>
             )}
           </button>
@@ -209,7 +210,7 @@ export default function AccessPage() {
           </svg>
           <h3 className="mt-2 text-sm font-medium text-gray-900">Access requests not loaded</h3>
           <p className="mt-1 text-sm text-gray-500">
-            {isCEOOrCTO 
+            {canViewAllRequests 
               ? 'Click "Load All Requests" to view all company access requests or "Request Access" to submit a new request.'
               : 'Click "Load My Requests" to view your access history or "Request Access" to submit a new request.'
             }
@@ -295,7 +296,7 @@ export default function AccessPage() {
           </svg>
           <h3 className="mt-2 text-sm font-medium text-gray-900">No access requests</h3>
           <p className="mt-1 text-sm text-gray-500">
-            {isCEOOrCTO 
+            {canViewAllRequests 
               ? 'No access requests found in the system. Get started by creating a new access request.'
               : 'You have no access requests yet. Get started by creating a new access request.'
             }
@@ -2,25 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
 import { logCreatedActivity, logStatusChangedActivity, logTimelineActivity } from '@/lib/timeline';
-import { getUserFromToken } from '@/lib/auth';
 import { createOperationalWorkflow } from '@/lib/workflowService';
 import { trackEntityUpdate } from '@/lib/changeTracker';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     // Role-based filtering
     let whereClause = {};
     
-    // CEO and CTO can see all access requests
-    if (currentUser.role === 'CEO' || currentUser.role === 'CTO') {
+    // Employees who can view all access requests see every request
+    if (currentUser.permissions.canViewAllAccessRequests) {
       // No filtering - show all requests
       whereClause = {};
     } else {
@@ -67,9 +59,9 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching access requests:', error);
     return NextResponse.json({ error: 'Failed to fetch access requests' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
     const { 
@@ -80,14 +72,6 @@ export async function POST(request: NextRequest) {
       justification
     } = body;
 
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     // Validate that at least one request type is provided
     if (!resourceId && !hardwareRequest) {
       return NextResponse.json({ 
@@ -312,49 +296,19 @@ export async function POST(request: NextRequest) {
     console.error('Error creating access request:', error);
     return NextResponse.json({ error: 'Failed to create access request' }, { status: 500 });
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+// PUT /api/access - Change an access request's status as the signed-in approver
+export const PUT = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
     const { 
       id, 
       status, 
-      approverId,
       workflowId 
     } = body;
 
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-
-    // Use CEO user if no authenticated user (for automated processes)
-    const ceoUser = await prisma.employee.findFirst({
-      where: { role: 'CEO' },
-      select: { id: true }
-    });
-    
-    if (!ceoUser) {
-      return NextResponse.json({ error: 'CEO user not found' }, { status: 404 });
-    }
-    
-    const finalApproverId = currentUser?.id || approverId || ceoUser.id;
-
-    // Validate that the approverId exists in the database
-    if (finalApproverId) {
-      const approverExists = await prisma.employee.findUnique({
-        where: { id: finalApproverId },
-        select: { id: true }
-      });
-
-      if (!approverExists) {
-        console.error(`Approver with ID ${finalApproverId} not found`);
-        return NextResponse.json({ 
-          error: 'Invalid approver ID',
-          details: `Approver with ID ${finalApproverId} does not exist`
-        }, { status: 400 });
-      }
-    }
+    const finalApproverId = currentUser.id;
 
     // Get the current access request
     const currentAccess = await prisma.access.findUnique({
@@ -444,37 +398,19 @@ export async function PUT(request: NextRequest) {
       details: error.message 
     }, { status: 500 });
   }
-}
+}, 'canApproveAccess');
 
-export async function DELETE(request: NextRequest) {
+// DELETE /api/access?id= - Delete an access request; requesters may delete their own
+export const DELETE = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const deletedByParam = searchParams.get('deletedBy');
 
     if (!id) {
       return NextResponse.json({ error: 'Access request ID is required' }, { status: 400 });
     }
 
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    // Use authenticated user if available, otherwise fall back to CEO
-    const ceoUser = await prisma.employee.findFirst({
-      where: { role: 'CEO' },
-      select: { id: true }
-    });
-    
-    if (!currentUser && !ceoUser) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-    
-    const deletedBy = currentUser?.id || ceoUser?.id;
-    
-    if (!deletedBy) {
-      return NextResponse.json({ error: 'Unable to determine user for deletion' }, { status: 500 });
-    }
+    const deletedBy = currentUser.id;
 
     // Get access request details before deletion for logging
     const accessRequest = await prisma.access.findUnique({
@@ -490,6 +426,10 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Access request not found' }, { status: 404 });
     }
 
+    if (accessRequest.employeeId !== currentUser.id && !currentUser.permissions.canApproveAccess) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
     // Log deletion attempt first
     try {
       await logTimelineActivity({
@@ -614,18 +554,9 @@ export async function DELETE(request: NextRequest) {
       const { searchParams } = new URL(request.url);
       const id = searchParams.get('id');
       
-      // Get the authenticated user for error logging
-      const token = request.cookies.get('auth-token')?.value;
-      const currentUser = token ? await getUserFromToken(token) : null;
-      
-      const ceoUser = await prisma.employee.findFirst({
-        where: { role: 'CEO' },
-        select: { id: true }
-      });
-      
-      const errorLoggedBy = currentUser?.id || ceoUser?.id;
+      const errorLoggedBy = currentUser.id;
       
-      if (errorLoggedBy && id) {
+      if (id) {
         await logTimelineActivity({
           entityType: 'ACCESS',
           entityId: id,
@@ -649,4 +580,4 @@ export async function DELETE(request: NextRequest) {
       details: error.message 
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/auth';
+import { buildSlaClock } from '@/lib/approvalSlaService';
+import { resolveDelegate } from '@/lib/delegationService';
+import { decideWorkflowStage, getDecisionErrorStatus } from '@/lib/workflowService';
 
 const prisma = new PrismaClient();
 
 // POST /api/approvals/resource-assignment - Create approval workflow for resource assignment
 export async function POST(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -83,6 +80,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Route to the approver's delegate while they are away
+    const delegated = approverId ? await resolveDelegate(approverId, 'IT_EQUIPMENT_REQUEST') : null;
+    const delegatedFromId = delegated && delegated.approverId !== user.id ? delegated.delegatedFromId : null;
+    if (delegatedFromId && delegated) {
+      approverId = delegated.approverId;
+    }
+
     // Create approval workflow
     const workflow = await prisma.$transaction(async (tx) => {
       const newWorkflow = await tx.approvalWorkflow.create({
@@ -90,7 +94,9 @@ export async function POST(request: NextRequest) {
           type: 'IT_EQUIPMENT_REQUEST',
           requesterId: user.id,
           approverId,
+          delegatedFromId,
           status: 'PENDING',
+          ...buildSlaClock('IT_EQUIPMENT_REQUEST', urgency),
           resourceId,
           data: {
             employeeId,
@@ -176,13 +182,7 @@ export async function POST(request: NextRequest) {
 // PUT /api/approvals/resource-assignment/[id] - Approve/Reject resource assignment
 export async function PUT(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -197,101 +197,37 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Get workflow details
     const workflow = await prisma.approvalWorkflow.findUnique({
       where: { id: workflowId },
-      include: {
-        requester: {
-          select: { id: true, name: true, email: true }
-        },
-        resource: {
-          select: { id: true, name: true, type: true }
-        }
-      }
+      select: { type: true }
     });
 
     if (!workflow) {
       return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
     }
 
-    if (workflow.status !== 'PENDING') {
-      return NextResponse.json({ error: 'Workflow is not pending' }, { status: 400 });
-    }
-
-    // Check if user is the approver
-    if (workflow.approverId !== user.id) {
-      return NextResponse.json({ error: 'Not authorized to approve this workflow' }, { status: 403 });
+    if (workflow.type !== 'IT_EQUIPMENT_REQUEST') {
+      return NextResponse.json({ error: 'Not a resource assignment workflow' }, { status: 400 });
     }
 
-    const result = await prisma.$transaction(async (tx) => {
-      // Update workflow status
-      const updatedWorkflow = await tx.approvalWorkflow.update({
-        where: { id: workflowId },
-        data: {
-          status: action === 'approve' ? 'APPROVED' : 'REJECTED',
-          comments
-        }
-      });
-
-      // If approved, create the resource assignment
-      let assignment = null;
-      if (action === 'approve') {
-        const workflowData = workflow.data as any;
-        
-        // Create assignment using the assign endpoint logic
-        assignment = await tx.resourceAssignment.create({
-          data: {
-            employeeId: workflowData.employeeId,
-            resourceId: workflowData.resourceId,
-            ...(workflowData.itemId && { itemId: workflowData.itemId }),
-            assignedBy: user.id,
-            status: 'ACTIVE',
-            notes: `Approved via workflow ${workflowId}. ${comments || ''}`
-          }
-        });
-
-        // Update item status if physical resource and itemId provided
-        if (workflowData.itemId) {
-          await tx.resourceItem.update({
-            where: { id: workflowData.itemId },
-            data: { status: 'ASSIGNED' }
-          });
-        }
-      }
-
-      // Log audit trail
-      await tx.auditLog.create({
-        data: {
-          entityType: 'APPROVAL_WORKFLOW',
-          entityId: workflowId,
-          changedById: user.id,
-          fieldChanged: 'status',
-          oldValue: 'PENDING',
-          newValue: action === 'approve' ? 'APPROVED' : 'REJECTED'
-        }
-      });
+    // The final approval creates the assignment through the fulfilment handler
+    const decision = await decideWorkflowStage(
+      workflowId,
+      user.id,
+      action === 'approve' ? 'APPROVED' : 'REJECTED',
+      comments
+    );
 
-      // Log activity timeline
-      await tx.activityTimeline.create({
-        data: {
-          entityType: 'APPROVAL_WORKFLOW',
-          entityId: workflowId,
-          activityType: action === 'approve' ? 'APPROVED' : 'REJECTED',
-          title: `Resource assignment ${action}d`,
-          description: `${workflow.resource?.name} assignment ${action}d for ${workflow.data ? (workflow.data as any).employeeName : 'employee'}`,
-          performedBy: user.id,
-          workflowId,
-          resourceId: workflow.resourceId,
-          metadata: {
-            action,
-            comments,
-            assignmentId: assignment?.id
-          }
-        }
-      });
+    if (!decision.success || !decision.workflow) {
+      return NextResponse.json({ error: decision.error }, { status: getDecisionErrorStatus(decision.errorCode) });
+    }
 
-      return { workflow: updatedWorkflow, assignment };
-    });
+    const fulfilmentResult = decision.workflow.fulfilmentResult as { assignmentId?: string } | null;
+    const result = {
+      workflow: decision.workflow,
+      fulfilment: decision.fulfilment,
+      assignmentId: decision.fulfilment?.status === 'FULFILLED' ? fulfilmentResult?.assignmentId : undefined
+    };
 
     return NextResponse.json(result);
 
@@ -2,18 +2,34 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
 import { logCreatedActivity, logTimelineActivity } from '@/lib/timeline';
+import { isAdmin } from '@/lib/permissions';
+import { withAuth } from '@/lib/routeAuth';
+import { buildSlaClock, withSla } from '@/lib/approvalSlaService';
+import { resolveDelegate } from '@/lib/delegationService';
 
-export async function GET(request: NextRequest) {
+// GET /api/approvals - Paginated workflows; users without canViewAllApprovals only see their own
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const skip = (page - 1) * limit;
 
+    const where = currentUser.permissions.canViewAllApprovals
+      ? {}
+      : {
+          OR: [
+            { requesterId: currentUser.id },
+            { approverId: currentUser.id },
+            { stages: { some: { approverId: currentUser.id } } }
+          ]
+        };
+
     // Get total count for pagination
-    const totalCount = await prisma.approvalWorkflow.count();
+    const totalCount = await prisma.approvalWorkflow.count({ where });
 
     const workflows = await prisma.approvalWorkflow.findMany({
+      where,
       skip,
       take: limit,
       include: {
@@ -33,6 +49,12 @@ export async function GET(request: NextRequest) {
             department: true
           }
         },
+        delegatedFrom: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
         policy: {
           select: {
             id: true,
@@ -50,6 +72,20 @@ export async function GET(request: NextRequest) {
             id: true,
             name: true
           }
+        },
+        stages: {
+          include: {
+            approver: {
+              select: {
+                id: true,
+                name: true,
+                role: true
+              }
+            }
+          },
+          orderBy: {
+            stageNumber: 'asc'
+          }
         }
       },
       orderBy: {
@@ -60,7 +96,7 @@ export async function GET(request: NextRequest) {
     const totalPages = Math.ceil(totalCount / limit);
 
     return NextResponse.json({
-      workflows,
+      workflows: withSla(workflows),
       pagination: {
         currentPage: page,
         totalPages,
@@ -74,9 +110,10 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching approval workflows:', error);
     return NextResponse.json({ error: 'Failed to fetch approval workflows' }, { status: 500 });
   }
-}
+}, { anyOf: ['canViewAllApprovals', 'canViewOwnApprovals'] });
 
-export async function POST(request: NextRequest) {
+// POST /api/approvals - Create a workflow; only approval administrators may file on behalf of someone else
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
     const { 
@@ -90,12 +127,24 @@ export async function POST(request: NextRequest) {
       resourceId
     } = body;
 
+    const requestedFor = requesterId || currentUser.id;
+    if (requestedFor !== currentUser.id && !currentUser.permissions.canViewAllApprovals) {
+      return NextResponse.json({ error: 'You can only create workflows for yourself' }, { status: 403 });
+    }
+
+    // An approver who is away is replaced by their delegate
+    const delegated = approverId ? await resolveDelegate(approverId, type) : null;
+    const assignedApprover = delegated && delegated.approverId !== requestedFor
+      ? delegated
+      : { approverId, delegatedFromId: null };
+
     const workflow = await prisma.approvalWorkflow.create({
       data: {
         type,
-        requesterId,
-        approverId,
+        requesterId: requestedFor,
+        ...assignedApprover,
         status: 'PENDING',
+        ...buildSlaClock(type, data?.priority),
         data,
         comments,
         policyId,
@@ -126,7 +175,7 @@ export async function POST(request: NextRequest) {
     await logAudit({
       entityType: 'APPROVAL_WORKFLOW',
       entityId: workflow.id,
-      changedById: requesterId,
+      changedById: currentUser.id,
       fieldChanged: 'created',
       oldValue: null,
       newValue: JSON.stringify(workflow)
@@ -137,7 +186,7 @@ export async function POST(request: NextRequest) {
       'APPROVAL_WORKFLOW',
       workflow.id,
       `${workflow.type} workflow`,
-      requesterId,
+      currentUser.id,
       {
         type: workflow.type,
         status: workflow.status,
@@ -151,29 +200,19 @@ export async function POST(request: NextRequest) {
     console.error('Error creating approval workflow:', error);
     return NextResponse.json({ error: 'Failed to create approval workflow' }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+// DELETE /api/approvals?id= - Delete a workflow (administrators only)
+export const DELETE = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const deletedByParam = searchParams.get('deletedBy');
 
     if (!id) {
       return NextResponse.json({ error: 'Workflow ID is required' }, { status: 400 });
     }
 
-    // Get CEO user for deletion operations
-    const ceoUser = await prisma.employee.findFirst({
-      where: { role: 'CEO' },
-      select: { id: true }
-    });
-    
-    if (!ceoUser) {
-      return NextResponse.json({ error: 'CEO user not found' }, { status: 500 });
-    }
-    
-    const deletedBy = deletedByParam === 'system' ? ceoUser.id : (deletedByParam || ceoUser.id);
+    const deletedBy = currentUser.id;
 
     // Get workflow details before deletion for logging
     const workflow = await prisma.approvalWorkflow.findUnique({
@@ -272,15 +311,10 @@ export async function DELETE(request: NextRequest) {
     
     // Log failed deletion attempt
     try {
-      const ceoUser = await prisma.employee.findFirst({
-        where: { role: 'CEO' },
-        select: { id: true }
-      });
-      
       const { searchParams } = new URL(request.url);
       const id = searchParams.get('id');
       
-      if (id && ceoUser) {
+      if (id) {
         await logTimelineActivity({
           entityType: 'APPROVAL_WORKFLOW',
           entityId: id,
@@ -293,7 +327,7 @@ export async function DELETE(request: NextRequest) {
             attemptedAt: new Date().toISOString(),
             originalWorkflowId: id
           },
-          performedBy: ceoUser.id
+          performedBy: currentUser.id
           // Don't set workflowId in case the workflow still exists but deletion failed
         });
       }
@@ -306,4 +340,4 @@ export async function DELETE(request: NextRequest) {
       details: error.message 
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, user => isAdmin(user.role));
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuditLogs, getAuditLogsCount } from '@/lib/audit';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+// GET /api/audit - Paginated audit log, optionally filtered by entity
+export const GET = withAuth(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const entityType = searchParams.get('entityType') || undefined;
@@ -23,4 +25,4 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching audit logs:', error);
     return NextResponse.json({ error: 'Failed to fetch audit logs' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canViewAudit');
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { disableTwoFactor, getTwoFactorErrorStatus } from '@/lib/twoFactorService';
+
+// POST /api/auth/2fa/disable - Turn off optional two-factor after verifying a code
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 });
+    }
+
+    const result = await disableTwoFactor(user.id, code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getTwoFactorErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Error disabling two-factor:', error);
+    return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  confirmTwoFactorEnrollment,
+  getTwoFactorErrorStatus,
+  resolveEnrollingEmployeeId
+} from '@/lib/twoFactorService';
+
+// POST /api/auth/2fa/enroll/confirm - Verify the first code and enable two-factor
+export async function POST(request: NextRequest) {
+  try {
+    const { code, challengeToken } = await request.json();
+
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 });
+    }
+
+    const employeeId = await resolveEnrollingEmployeeId(
+      request.cookies.get('auth-token')?.value,
+      challengeToken
+    );
+
+    if (!employeeId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await confirmTwoFactorEnrollment(employeeId, code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getTwoFactorErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes: result.recoveryCodes
+    });
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error);
+    return NextResponse.json({ error: 'Failed to confirm two-factor enrollment' }, { status: 500 });
+  }
+}
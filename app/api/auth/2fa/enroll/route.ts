@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { beginTwoFactorEnrollment, resolveEnrollingEmployeeId } from '@/lib/twoFactorService';
+
+// POST /api/auth/2fa/enroll - Generate a new TOTP secret and provisioning URI
+// Accepts either the auth cookie or a login challenge token for mandatory first-time enrollment
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken } = await request.json().catch(() => ({}));
+    const employeeId = await resolveEnrollingEmployeeId(
+      request.cookies.get('auth-token')?.value,
+      challengeToken
+    );
+
+    if (!employeeId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(employeeId);
+
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error starting two-factor enrollment:', error);
+
+    if (message.includes('already enabled')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (message.includes('not found')) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: 'Failed to start two-factor enrollment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { getTwoFactorErrorStatus, regenerateRecoveryCodes } from '@/lib/twoFactorService';
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code is required' }, { status: 400 });
+    }
+
+    const result = await regenerateRecoveryCodes(user.id, code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getTwoFactorErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { getTwoFactorStatus } from '@/lib/twoFactorService';
+
+// GET /api/auth/2fa - Two-factor status for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await getTwoFactorStatus(user.id);
+
+    if (!status) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    return NextResponse.json({ error: 'Failed to fetch two-factor status' }, { status: 500 });
+  }
+}
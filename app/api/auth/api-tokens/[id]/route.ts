@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { getApiTokenErrorStatus, revokeApiToken } from '@/lib/apiTokenService';
+
+// DELETE /api/auth/api-tokens/[id] - Revoke an API token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await revokeApiToken(id, { id: user.id, role: user.role });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getApiTokenErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return NextResponse.json({ error: 'Failed to revoke API token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getUserFromToken } from '@/lib/auth';
+import {
+  API_TOKEN_SCOPES,
+  canIssueServiceTokens,
+  createApiToken,
+  getApiTokenErrorStatus,
+  listApiTokens
+} from '@/lib/apiTokenService';
+
+// GET /api/auth/api-tokens - List the current user's API tokens and the available scopes
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const canIssueServiceAccountTokens = await canIssueServiceTokens(user);
+
+    const [tokens, serviceAccounts] = await Promise.all([
+      listApiTokens(user.id),
+      canIssueServiceAccountTokens
+        ? prisma.employee.findMany({
+            where: { status: 'ACTIVE', isServiceAccount: true },
+            select: { id: true, name: true, email: true },
+            orderBy: { name: 'asc' }
+          })
+        : Promise.resolve([])
+    ]);
+
+    return NextResponse.json({
+      tokens,
+      scopes: Object.entries(API_TOKEN_SCOPES).map(([scope, description]) => ({ scope, description })),
+      canIssueServiceTokens: canIssueServiceAccountTokens,
+      serviceAccounts
+    });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return NextResponse.json({ error: 'Failed to fetch API tokens' }, { status: 500 });
+  }
+}
+
+// POST /api/auth/api-tokens - Issue a personal or service API token
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, scopes, expiresAt, kind, employeeId } = await request.json();
+
+    const result = await createApiToken(
+      { name, scopes: Array.isArray(scopes) ? scopes : [], expiresAt, kind, employeeId },
+      { id: user.id, name: user.name, role: user.role }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getApiTokenErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ token: result.token, secret: result.secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return NextResponse.json({ error: 'Failed to create API token' }, { status: 500 });
+  }
+}
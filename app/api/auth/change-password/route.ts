@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import { getUserFromToken } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/sessionService';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,10 +31,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let decoded;
-    try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    } catch (error) {
+    const currentUser = await getUserFromToken(token);
+    if (!currentUser) {
       return NextResponse.json(
         { error: 'Invalid token' },
         { status: 401 }
@@ -42,7 +41,8 @@ export async function POST(request: NextRequest) {
 
     // Find user
     const employee = await prisma.employee.findUnique({
-      where: { id: decoded.id }
+      where: { id: currentUser.id },
+      select: { id: true, password: true }
     });
 
     if (!employee || !employee.password) {
@@ -72,6 +72,9 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Sign out every other device; the session making this request stays valid
+    await revokeAllSessions(employee.id, 'password_changed', currentUser.sessionId);
+
     return NextResponse.json(
       { message: 'Password changed successfully' },
       { status: 200 }
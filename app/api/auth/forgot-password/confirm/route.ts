@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmPasswordReset } from '@/lib/passwordResetService';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, newPassword, confirmPassword } = await request.json();
+
+    if (!token || !newPassword) {
+      return NextResponse.json(
+        { error: 'Reset token and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (confirmPassword !== undefined && confirmPassword !== newPassword) {
+      return NextResponse.json(
+        { error: 'Passwords do not match' },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmPasswordReset(token, newPassword);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Password reset successfully. You can now sign in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Password reset confirmation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { claimPasswordResetRequest, requestPasswordReset } from '@/lib/passwordResetService';
+import { getClientIp } from '@/lib/sessionService';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    // Reset links must point at the configured site, never at a Host header the caller controls
+    if (!process.env.APP_URL) {
+      console.error('Password reset requested but APP_URL is not set');
+      return NextResponse.json(
+        { error: 'Password reset is not available. Please contact your administrator.' },
+        { status: 503 }
+      );
+    }
+
+    const ip = getClientIp(request);
+    const limit = await claimPasswordResetRequest(email, ip);
+    if (!limit.allowed) {
+      const retryAfter = limit.retryAfterSeconds || 1;
+      return NextResponse.json(
+        {
+          error: `Too many password reset requests. Please try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+          errorCode: limit.reason,
+          retryAfterSeconds: retryAfter
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+
+    // Look the account up and send the mail after responding, so the response takes as long
+    // whether or not the account exists
+    const baseUrl = process.env.APP_URL;
+    const userAgent = request.headers.get('user-agent');
+    after(async () => {
+      try {
+        await requestPasswordReset(email, { baseUrl, ip, userAgent });
+      } catch (error) {
+        console.error('Password reset request failed:', error);
+      }
+    });
+
+    // Same response whether or not the account exists
+    return NextResponse.json({
+      message: 'If an active account exists for that email, a password reset link has been sent.'
+    });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
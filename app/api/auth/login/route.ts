@@ -1,32 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateUser, generateToken } from '@/lib/auth';
+import { authenticateUser, createSessionToken, generateTwoFactorChallenge, getActiveAuthUser, verifyTwoFactorChallenge, AuthUser } from '@/lib/auth';
 import { logTimelineActivity } from '@/lib/timeline';
+import { getClientInfo } from '@/lib/sessionService';
+import { getTwoFactorStatus, verifyTwoFactorCode } from '@/lib/twoFactorService';
+import { beginLoginAttempt, checkLoginAllowed, recordLoginFailure, recordLoginSuccess, releaseLoginAttempt, LoginThrottleCheck } from '@/lib/loginThrottle';
 import { checkEmployeeOnboardingStatus, assignOnboardingResources } from '@/lib/onboardingResources';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+function tooManyAttempts(check: LoginThrottleCheck) {
+  const retryAfter = check.retryAfterSeconds || 1;
+  const error = check.reason === 'BACKOFF'
+    ? `Too many failed attempts. Please wait ${retryAfter} second(s) before trying again.`
+    : `Too many failed attempts. Sign-in is temporarily locked; try again in ${Math.ceil(retryAfter / 60)} minute(s) or ask an administrator to unlock your account.`;
+
+  return NextResponse.json(
+    { error, errorCode: check.reason, retryAfterSeconds: retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    const { email, password, challengeToken, code } = await request.json();
+    const client = getClientInfo(request);
 
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
-    }
+    let user: AuthUser | null;
+    let twoFactorMethod: string | undefined;
+
+    if (challengeToken) {
+      // Second step: exchange the password challenge plus a TOTP or recovery code for a session
+      if (!code) {
+        return NextResponse.json(
+          { error: 'Verification code is required' },
+          { status: 400 }
+        );
+      }
+
+      const userId = verifyTwoFactorChallenge(challengeToken);
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Your sign-in attempt has expired. Please sign in again.' },
+          { status: 401 }
+        );
+      }
+
+      user = await getActiveAuthUser(userId);
+      if (!user) {
+        return NextResponse.json(
+          { error: 'Account is not active' },
+          { status: 401 }
+        );
+      }
+
+      // Guessing second-factor codes counts towards the same lockout as guessing passwords
+      const throttle = await beginLoginAttempt(user.email, client.ipAddress);
+      if (!throttle.allowed) {
+        return tooManyAttempts(throttle);
+      }
+
+      const verification = await verifyTwoFactorCode(userId, code);
+      if (!verification.success) {
+        await recordLoginFailure(user.email, { ...client, stage: 'two_factor' });
+        return NextResponse.json(
+          { error: verification.error, errorCode: verification.errorCode },
+          { status: 401 }
+        );
+      }
+
+      twoFactorMethod = verification.method;
+      await recordLoginSuccess(user.email, client.ipAddress);
+    } else {
+      if (!email || !password) {
+        return NextResponse.json(
+          { error: 'Email and password are required' },
+          { status: 400 }
+        );
+      }
+
+      const throttle = await beginLoginAttempt(email, client.ipAddress);
+      if (!throttle.allowed) {
+        return tooManyAttempts(throttle);
+      }
+
+      user = await authenticateUser(email, password);
+      
+      if (!user) {
+        const failure = await recordLoginFailure(email, { ...client, stage: 'password' });
+        if (failure.lockedUntil) {
+          return tooManyAttempts(await checkLoginAllowed(email, client.ipAddress));
+        }
+        return NextResponse.json(
+          { error: 'Invalid email or password' },
+          { status: 401 }
+        );
+      }
+
+      // Enrolled users must verify a code; privileged roles must enroll before they get a session
+      const twoFactor = await getTwoFactorStatus(user.id);
+      if (twoFactor && (twoFactor.enabled || twoFactor.required)) {
+        // The account counter is only cleared once the second factor has been verified
+        await releaseLoginAttempt(email, client.ipAddress);
+        return NextResponse.json({
+          twoFactorRequired: true,
+          enrollmentRequired: !twoFactor.enabled,
+          challengeToken: generateTwoFactorChallenge(user.id)
+        });
+      }
 
-    const user = await authenticateUser(email, password);
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
+      await recordLoginSuccess(email, client.ipAddress);
     }
 
-    const token = generateToken(user);
+    const token = await createSessionToken(user, client);
 
     // Log successful login
     try {
@@ -38,8 +124,9 @@ export async function POST(request: NextRequest) {
         description: `${user.name} logged into the system`,
         metadata: {
           loginTime: new Date().toISOString(),
+          twoFactorMethod: twoFactorMethod || null,
           userAgent: request.headers.get('user-agent'),
-          ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+          ip: client.ipAddress || 'unknown'
         },
         performedBy: user.id,
         employeeId: user.id
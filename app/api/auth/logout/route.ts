@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromToken } from '@/lib/auth';
 import { logTimelineActivity } from '@/lib/timeline';
+import { getClientIp, revokeSession } from '@/lib/sessionService';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,6 +11,11 @@ export async function POST(request: NextRequest) {
       const user = await getUserFromToken(token);
       
       if (user) {
+        // Revoke the server-side session so the token cannot be reused
+        if (user.sessionId) {
+          await revokeSession(user.sessionId, 'logout', user.id);
+        }
+
         // Log logout activity
         try {
           await logTimelineActivity({
@@ -21,7 +27,7 @@ export async function POST(request: NextRequest) {
             metadata: {
               logoutTime: new Date().toISOString(),
               userAgent: request.headers.get('user-agent'),
-              ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+              ip: getClientIp(request) || 'unknown'
             },
             performedBy: user.id,
             employeeId: user.id
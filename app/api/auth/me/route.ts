@@ -1,18 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/auth';
+import { getEffectivePermissions } from '@/lib/roleService';
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     
     if (!user) {
       return NextResponse.json(
@@ -27,7 +19,9 @@ export async function GET(request: NextRequest) {
         email: user.email,
         name: user.name,
         role: user.role,
-        department: user.department
+        department: user.department,
+        // Role matrix plus the employee's own grants, so the UI matches what the API enforces
+        permissions: await getEffectivePermissions(user.id, user.role)
       }
     });
   } catch (error) {
@@ -1,28 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import bcrypt from 'bcryptjs';
+import { revokeAllSessions } from '@/lib/sessionService';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-
-    if (!currentUser) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Only CEO and CTO can reset passwords
-    if (currentUser.role !== 'CEO' && currentUser.role !== 'CTO') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions. Only CEO and CTO can reset passwords.' },
-        { status: 403 }
-      );
-    }
-
     const { employeeId, newPassword } = await request.json();
 
     if (!employeeId || !newPassword) {
@@ -61,6 +44,9 @@ export async function POST(request: NextRequest) {
       data: { password: hashedPassword }
     });
 
+    // Existing logins must not survive an administrative reset
+    const revokedSessions = await revokeAllSessions(employeeId, 'password_reset');
+
     // Log the password reset for audit purposes
     await prisma.auditLog.create({
       data: {
@@ -72,6 +58,7 @@ export async function POST(request: NextRequest) {
           resetBy: currentUser.name,
           resetByRole: currentUser.role,
           resetAt: new Date().toISOString(),
+          revokedSessions,
           message: 'Password reset by administrator'
         }),
         changedById: currentUser.id
@@ -90,4 +77,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'canResetPasswords');
\ No newline at end of file
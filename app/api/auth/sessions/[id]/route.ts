@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { revokeSession } from '@/lib/sessionService';
+import { logTimelineActivity } from '@/lib/timeline';
+
+// DELETE /api/auth/sessions/[id] - Revoke one of the current user's sessions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const revoked = await revokeSession(id, 'revoked_by_user', user.id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const isCurrent = id === user.sessionId;
+
+    await logTimelineActivity({
+      entityType: 'EMPLOYEE',
+      entityId: user.id,
+      activityType: 'EMPLOYEE_LOGOUT',
+      title: 'Session revoked',
+      description: `${user.name} revoked ${isCurrent ? 'their current' : 'a'} session`,
+      metadata: {
+        sessionId: id,
+        current: isCurrent
+      },
+      performedBy: user.id,
+      employeeId: user.id
+    });
+
+    const response = NextResponse.json({ success: true, current: isCurrent });
+
+    // Revoking the session in use is the same as logging out
+    if (isCurrent) {
+      response.cookies.set('auth-token', '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 0
+      });
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json({ error: 'Failed to revoke session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromToken } from '@/lib/auth';
+import { getActiveSessions, revokeAllSessions } from '@/lib/sessionService';
+import { logTimelineActivity } from '@/lib/timeline';
+
+// GET /api/auth/sessions - List the current user's active sessions
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sessions = await getActiveSessions(user.id);
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt,
+        current: session.id === user.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/sessions - Sign out of every other device
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+    const user = token ? await getUserFromToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const revoked = await revokeAllSessions(user.id, 'revoked_by_user', user.sessionId);
+
+    await logTimelineActivity({
+      entityType: 'EMPLOYEE',
+      entityId: user.id,
+      activityType: 'EMPLOYEE_LOGOUT',
+      title: 'Signed out of other devices',
+      description: `${user.name} signed out of ${revoked} other session(s)`,
+      metadata: {
+        revokedSessions: revoked,
+        keptSessionId: user.sessionId
+      },
+      performedBy: user.id,
+      employeeId: user.id
+    });
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json({ error: 'Failed to revoke sessions' }, { status: 500 });
+  }
+}
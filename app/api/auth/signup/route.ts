@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { hashPassword, generateToken } from '@/lib/auth';
+import { hashPassword, createSessionToken } from '@/lib/auth';
 import { logTimelineActivity } from '@/lib/timeline';
+import { getClientInfo, getClientIp } from '@/lib/sessionService';
 import { prisma } from '@/lib/prisma';
 
 export async function POST(request: NextRequest) {
@@ -95,7 +96,7 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    const token = generateToken(updatedEmployee);
+    const token = await createSessionToken(updatedEmployee, getClientInfo(request));
 
     // Log account activation
     try {
@@ -112,7 +113,7 @@ export async function POST(request: NextRequest) {
           previousStatus: existingEmployee.status,
           newStatus: 'ACTIVE',
           userAgent: request.headers.get('user-agent'),
-          ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+          ip: getClientIp(request) || 'unknown'
         },
         performedBy: updatedEmployee.id,
         employeeId: updatedEmployee.id
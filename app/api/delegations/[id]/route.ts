@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { getDelegationErrorStatus, revokeDelegation } from '@/lib/delegationService';
+
+// DELETE /api/delegations/[id] - End a delegation early; pending approvals return to the delegator
+// revokeDelegation allows the two parties and approval administrators, so no declared permission
+export const DELETE = withAuth<{ id: string }>(async (_request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const result = await revokeDelegation(id, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getDelegationErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ success: true, rerouted: result.rerouted });
+  } catch (error) {
+    console.error('Error revoking delegation:', error);
+    return NextResponse.json({ error: 'Failed to revoke delegation' }, { status: 500 });
+  }
+});
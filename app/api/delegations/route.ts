@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/routeAuth';
+import { createDelegation, getDelegationErrorStatus, listDelegations } from '@/lib/delegationService';
+
+// GET /api/delegations - Delegations the signed-in user gave or received (?all=true for approval administrators),
+// plus the employees who can be chosen as delegates.
+// No declared permission on these routes: everyone may delegate their own approvals, and
+// delegationService requires canApproveWorkflows to act for anyone else.
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const canManageOthers = currentUser.permissions.canApproveWorkflows;
+    const includeAll = request.nextUrl.searchParams.get('all') === 'true' && canManageOthers;
+
+    const [delegations, employees] = await Promise.all([
+      listDelegations(currentUser.id, includeAll),
+      prisma.employee.findMany({
+        where: { status: 'ACTIVE' },
+        select: { id: true, name: true, email: true, role: true },
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    return NextResponse.json({
+      delegations,
+      employees,
+      workflowTypes: Object.values(WorkflowType),
+      canManageOthers
+    });
+  } catch (error) {
+    console.error('Error fetching delegations:', error);
+    return NextResponse.json({ error: 'Failed to fetch delegations' }, { status: 500 });
+  }
+});
+
+// POST /api/delegations - Register an out-of-office delegate for a date range
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const { delegatorId, delegateId, startsAt, endsAt, workflowTypes, reason } = await request.json();
+
+    const result = await createDelegation(
+      {
+        delegatorId,
+        delegateId,
+        startsAt,
+        endsAt,
+        workflowTypes: Array.isArray(workflowTypes) ? workflowTypes : [],
+        reason
+      },
+      currentUser
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getDelegationErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json({ delegation: result.delegation, rerouted: result.rerouted }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating delegation:', error);
+    return NextResponse.json({ error: 'Failed to create delegation' }, { status: 500 });
+  }
+});
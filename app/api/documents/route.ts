@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
 import { logCreatedActivity, logTimelineActivity, logUpdatedActivity, logStatusChangedActivity } from '@/lib/timeline';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET() {
+// GET /api/documents - List documents
+export const GET = withAuth(async () => {
   try {
     const documents = await prisma.document.findMany({
       include: {
@@ -26,9 +28,10 @@ export async function GET() {
     console.error('Error fetching documents:', error);
     return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 });
   }
-}
+}, 'canViewDocuments');
 
-export async function POST(request: NextRequest) {
+// POST /api/documents - Create a document
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
     const { 
@@ -72,7 +75,7 @@ export async function POST(request: NextRequest) {
     await logAudit({
       entityType: 'DOCUMENT',
       entityId: document.id,
-      changedById: ownerId,
+      changedById: currentUser.id,
       fieldChanged: 'created',
       oldValue: null,
       newValue: JSON.stringify(document)
@@ -83,7 +86,7 @@ export async function POST(request: NextRequest) {
       'DOCUMENT',
       document.id,
       document.title,
-      ownerId,
+      currentUser.id,
       {
         category: document.category,
         status: document.status,
@@ -97,13 +100,14 @@ export async function POST(request: NextRequest) {
     console.error('Error creating document:', error);
     return NextResponse.json({ error: 'Failed to create document' }, { status: 500 });
   }
-}
+}, 'canAddDocument');
 
-export async function PUT(request: NextRequest) {
+// PUT /api/documents?id= - Update a document
+export const PUT = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const updatedBy = searchParams.get('updatedBy') || 'system';
+    const updatedBy = currentUser.id;
 
     if (!id) {
       return NextResponse.json({ error: 'Document ID is required' }, { status: 400 });
@@ -235,13 +239,14 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating document:', error);
     return NextResponse.json({ error: 'Failed to update document' }, { status: 500 });
   }
-}
+}, 'canEditDocument');
 
-export async function DELETE(request: NextRequest) {
+// DELETE /api/documents?id= - Delete a document
+export const DELETE = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const deletedBy = searchParams.get('deletedBy') || 'system';
+    const deletedBy = currentUser.id;
 
     if (!id) {
       return NextResponse.json({ error: 'Document ID is required' }, { status: 400 });
@@ -294,4 +299,4 @@ export async function DELETE(request: NextRequest) {
     console.error('Error deleting document:', error);
     return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canDeleteDocument');
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  getEffectivePermissions,
+  getEmployeePermissionGrants,
+  getRoleErrorStatus,
+  removeEmployeePermissionGrant,
+  setEmployeePermissionGrant
+} from '@/lib/roleService';
+
+// GET /api/employees/[id]/permissions - An employee's grants and resulting permissions
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await params;
+    const employee = await prisma.employee.findUnique({
+      where: { id },
+      select: { id: true, name: true, role: true }
+    });
+
+    if (!employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    const [grants, permissions] = await Promise.all([
+      getEmployeePermissionGrants(id),
+      getEffectivePermissions(id, employee.role)
+    ]);
+
+    return NextResponse.json({ employee, grants, permissions });
+  } catch (error) {
+    console.error('Error fetching employee permissions:', error);
+    return NextResponse.json({ error: 'Failed to fetch employee permissions' }, { status: 500 });
+  }
+}, 'canManageRoles');
+
+// PUT /api/employees/[id]/permissions - Grant or withhold one permission for the employee
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = await setEmployeePermissionGrant(id, body, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getRoleErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating employee permissions:', error);
+    return NextResponse.json({ error: 'Failed to update employee permissions' }, { status: 500 });
+  }
+}, 'canManageRoles');
+
+// DELETE /api/employees/[id]/permissions?permission= - Remove a grant so the role applies again
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const permission = new URL(request.url).searchParams.get('permission');
+
+    if (!permission) {
+      return NextResponse.json({ error: 'Permission is required' }, { status: 400 });
+    }
+
+    const result = await removeEmployeePermissionGrant(id, permission, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getRoleErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing employee permission grant:', error);
+    return NextResponse.json({ error: 'Failed to remove permission grant' }, { status: 500 });
+  }
+}, 'canManageRoles');
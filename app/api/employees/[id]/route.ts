@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { employeeProfileSelect } from '@/lib/employeeLookup';
+import { withAuth } from '@/lib/routeAuth';
 import { trackEntityUpdate } from '@/lib/changeTracker';
+import { revokeAllSessions } from '@/lib/sessionService';
+import { revokeSessionsPendingTwoFactor } from '@/lib/twoFactorService';
+import { roleExists } from '@/lib/roleService';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// Fields employees may change on their own record without canEditEmployee
+const SELF_EDITABLE_FIELDS = ['name', 'phone'];
+
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
+
+    // Everyone may read their own record; anything else needs the directory permission
+    if (id !== currentUser.id && !currentUser.permissions.canViewAllEmployees) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
     const employee = await prisma.employee.findUnique({
       where: { id },
       select: {
@@ -45,33 +55,25 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
     const body = await request.json();
+    const isSelf = currentUser.id === id;
 
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    // Check if user is updating their own profile or has admin permissions
-    if (currentUser.id !== id && !['CEO', 'CTO', 'HR_MANAGER', 'ADMIN'].includes(currentUser.role)) {
+    // Employees may update their own profile fields; everything else is an HR change
+    const hrFields = Object.keys(body).filter(field => !SELF_EDITABLE_FIELDS.includes(field) && body[field] !== undefined);
+    if ((!isSelf || hrFields.length > 0) && !currentUser.permissions.canEditEmployee) {
       return NextResponse.json({ error: 'Not authorized to update this employee' }, { status: 403 });
     }
 
     // Get current employee data for change tracking
     const currentEmployee = await prisma.employee.findUnique({
       where: { id },
-      include: {
+      select: {
+        ...employeeProfileSelect,
         manager: {
           select: {
             id: true,
@@ -87,7 +89,38 @@ export async function PUT(
       return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
     }
 
-    // Update employee
+    const roleChanged = body.role !== undefined && body.role !== currentEmployee.role;
+    if (roleChanged && !currentUser.permissions.canManageRoles) {
+      return NextResponse.json({ error: 'Not authorized to change roles' }, { status: 403 });
+    }
+
+    // Roles are defined by admins, so check the key against the role table
+    if (roleChanged && !(await roleExists(body.role))) {
+      return NextResponse.json({ 
+        error: 'Invalid role', 
+        message: 'The selected role does not exist.',
+        field: 'role',
+        code: 'INVALID_ROLE'
+      }, { status: 400 });
+    }
+
+    if (body.managerId) {
+      const manager = await prisma.employee.findUnique({
+        where: { id: body.managerId },
+        select: { id: true }
+      });
+
+      if (!manager) {
+        return NextResponse.json({ 
+          error: 'Invalid manager', 
+          message: 'The selected manager does not exist.',
+          field: 'managerId',
+          code: 'INVALID_MANAGER'
+        }, { status: 400 });
+      }
+    }
+
+    // Only the fields sent are changed, so a profile edit leaves role, manager and status alone
     const updatedEmployee = await prisma.employee.update({
       where: { id },
       data: {
@@ -95,12 +128,13 @@ export async function PUT(
         email: body.email,
         role: body.role,
         department: body.department,
-        managerId: body.managerId || null,
+        managerId: body.managerId === undefined ? undefined : body.managerId || null,
         status: body.status,
         joiningDate: body.joiningDate ? new Date(body.joiningDate) : undefined,
-        phone: body.phone || null
+        phone: body.phone === undefined ? undefined : body.phone || null
       },
-      include: {
+      select: {
+        ...employeeProfileSelect,
         manager: {
           select: {
             id: true,
@@ -112,6 +146,16 @@ export async function PUT(
       }
     });
 
+    // Deactivated employees are signed out of every device
+    if (currentEmployee.status === 'ACTIVE' && updatedEmployee.status !== 'ACTIVE') {
+      await revokeAllSessions(id, 'employee_deactivated');
+    }
+
+    // A role that needs two-factor takes effect now, not at the next sign-in
+    if (roleChanged) {
+      await revokeSessionsPendingTwoFactor({ id });
+    }
+
     // Track all changes comprehensively
     await trackEntityUpdate(
       'EMPLOYEE',
@@ -127,4 +171,4 @@ export async function PUT(
     console.error('Error updating employee:', error);
     return NextResponse.json({ error: 'Failed to update employee' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getActiveSessions, revokeAllSessions } from '@/lib/sessionService';
+import { logAudit } from '@/lib/audit';
+import { logTimelineActivity } from '@/lib/timeline';
+import { withAuth } from '@/lib/routeAuth';
+
+// GET /api/employees/[id]/sessions - List an employee's active sessions
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    if (currentUser.id !== id && !currentUser.permissions.canManageAccounts) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const sessions = await getActiveSessions(id);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Error fetching employee sessions:', error);
+    return NextResponse.json({ error: 'Failed to fetch employee sessions' }, { status: 500 });
+  }
+});
+
+// DELETE /api/employees/[id]/sessions - Sign the employee out everywhere
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const employee = await prisma.employee.findUnique({
+      where: { id },
+      select: { id: true, name: true }
+    });
+
+    if (!employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+
+    const revoked = await revokeAllSessions(id, 'revoked_by_admin');
+
+    await logAudit({
+      entityType: 'EMPLOYEE',
+      entityId: id,
+      changedById: currentUser.id,
+      fieldChanged: 'sessions_revoked',
+      oldValue: null,
+      newValue: JSON.stringify({
+        revokedSessions: revoked,
+        revokedBy: currentUser.name,
+        revokedAt: new Date().toISOString()
+      })
+    });
+
+    await logTimelineActivity({
+      entityType: 'EMPLOYEE',
+      entityId: id,
+      activityType: 'EMPLOYEE_LOGOUT',
+      title: 'Signed out everywhere',
+      description: `${currentUser.name} signed ${employee.name} out of all devices (${revoked} session(s))`,
+      metadata: {
+        revokedSessions: revoked,
+        revokedBy: currentUser.name,
+        revokedByRole: currentUser.role
+      },
+      performedBy: currentUser.id,
+      employeeId: id
+    });
+
+    return NextResponse.json({ success: true, revoked, employeeName: employee.name });
+  } catch (error) {
+    console.error('Error revoking employee sessions:', error);
+    return NextResponse.json({ error: 'Failed to revoke employee sessions' }, { status: 500 });
+  }
+}, 'canManageAccounts');
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockAccount } from '@/lib/loginThrottle';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/employees/[id]/unlock - Clear a sign-in lockout for an employee
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const result = await unlockAccount(id, { id: currentUser.id, name: currentUser.name });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Employee not found') {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
+    }
+    console.error('Error unlocking account:', error);
+    return NextResponse.json({ error: 'Failed to unlock account' }, { status: 500 });
+  }
+}, 'canManageAccounts');
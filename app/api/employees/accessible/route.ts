@@ -1,20 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { getUserPermissions } from '@/lib/permissions';
+import { getEffectivePermissions } from '@/lib/roleService';
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    const currentUser = await getUserFromToken(token);
+    const currentUser = await getUserFromRequest(request);
     
     if (!currentUser) {
       return NextResponse.json(
@@ -23,7 +14,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const permissions = getUserPermissions(currentUser.role as any);
+    const permissions = await getEffectivePermissions(currentUser.id, currentUser.role);
     
     let employees;
 
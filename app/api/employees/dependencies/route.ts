@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+// GET /api/employees/dependencies?id= - Records that reference an employee, checked before deletion
+export const GET = withAuth(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
@@ -152,4 +154,4 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching employee dependencies:', error);
     return NextResponse.json({ error: 'Failed to fetch employee dependencies' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canDeleteEmployee');
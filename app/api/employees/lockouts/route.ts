@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getLockedAccounts } from '@/lib/loginThrottle';
+import { withAuth } from '@/lib/routeAuth';
+
+// GET /api/employees/lockouts - List employees currently locked out after failed sign-ins
+export const GET = withAuth(async () => {
+  try {
+    const locked = await getLockedAccounts();
+    const employees = locked.length > 0
+      ? await prisma.employee.findMany({
+          where: { email: { in: locked.map(account => account.email) } },
+          select: { id: true, name: true, email: true }
+        })
+      : [];
+
+    // Counters exist for any email that was tried; only report real accounts
+    const lockouts = employees.map(employee => {
+      const account = locked.find(entry => entry.email === employee.email.toLowerCase());
+      return {
+        employeeId: employee.id,
+        name: employee.name,
+        email: employee.email,
+        failures: account?.failures || 0,
+        lockedUntil: account?.lockedUntil
+      };
+    });
+
+    return NextResponse.json({ lockouts });
+  } catch (error) {
+    console.error('Error fetching account lockouts:', error);
+    return NextResponse.json({ error: 'Failed to fetch account lockouts' }, { status: 500 });
+  }
+}, 'canManageAccounts');
@@ -1,18 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { assignOnboardingResources, checkEmployeeOnboardingStatus } from '@/lib/onboardingResources';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     // Check onboarding status for the current user
     const onboardingStatus = await checkEmployeeOnboardingStatus(currentUser.id);
 
@@ -25,26 +17,18 @@ export async function GET(request: NextRequest) {
     console.error('Error checking onboarding status:', error);
     return NextResponse.json({ error: 'Failed to check onboarding status' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const body = await request.json();
     const { employeeId, force = false } = body;
 
     // If no employeeId provided, use current user
     const targetEmployeeId = employeeId || currentUser.id;
 
-    // Only allow CEO/CTO to assign onboarding resources to other employees
-    if (targetEmployeeId !== currentUser.id && currentUser.role !== 'CEO' && currentUser.role !== 'CTO') {
+    // Only employees who can assign resources may onboard someone else
+    if (targetEmployeeId !== currentUser.id && !currentUser.permissions.canAssignResources) {
       return NextResponse.json({ 
         error: 'Insufficient permissions to assign onboarding resources to other employees' 
       }, { status: 403 });
@@ -108,4 +92,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
 import { logTimelineActivity } from '@/lib/timeline';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function POST(request: NextRequest) {
+// POST /api/employees/reassign - Transfer everything one employee owns to another
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
-    const { fromEmployeeId, toEmployeeId, reassignBy = 'system' } = body;
+    const { fromEmployeeId, toEmployeeId } = body;
+    const reassignBy = currentUser.id;
 
     if (!fromEmployeeId || !toEmployeeId) {
       return NextResponse.json({ 
@@ -109,4 +112,4 @@ export async function POST(request: NextRequest) {
     console.error('Error reassigning ownership:', error);
     return NextResponse.json({ error: 'Failed to reassign ownership' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canEditEmployee');
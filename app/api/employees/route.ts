@@ -1,22 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { employeeProfileSelect } from '@/lib/employeeLookup';
 import { logAudit } from '@/lib/audit';
 import { logCreatedActivity, logTimelineActivity, logUpdatedActivity } from '@/lib/timeline';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { formatMultipleChanges } from '@/lib/changeFormatter';
 import { trackEntityUpdate } from '@/lib/changeTracker';
 import { assignOnboardingResources } from '@/lib/onboardingResources';
+import { revokeAllSessions } from '@/lib/sessionService';
+import { revokeSessionsPendingTwoFactor } from '@/lib/twoFactorService';
+import { roleExists } from '@/lib/roleService';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
+    // Everyone may read their own record; anything else needs the directory permission
+    if (id !== currentUser.id && !currentUser.permissions.canViewAllEmployees) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
     // If ID is provided, fetch single employee
     if (id) {
       const employee = await prisma.employee.findUnique({
         where: { id },
-        include: {
+        select: {
+          ...employeeProfileSelect,
           manager: {
             select: {
               id: true,
@@ -53,7 +63,8 @@ export async function GET(request: NextRequest) {
 
     // Get paginated employees
     const employees = await prisma.employee.findMany({
-      include: {
+      select: {
+        ...employeeProfileSelect,
         manager: {
           select: {
             id: true,
@@ -89,9 +100,9 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching employees:', error);
     return NextResponse.json({ error: 'Failed to fetch employees' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
     const { 
@@ -105,12 +116,14 @@ export async function POST(request: NextRequest) {
       phone
     } = body;
 
-    // Get the authenticated user for logging
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    // Roles are defined by admins, so check the key against the role table
+    if (!role || !(await roleExists(role))) {
+      return NextResponse.json({ 
+        error: 'Invalid role', 
+        message: 'The selected role does not exist.',
+        field: 'role',
+        code: 'INVALID_ROLE'
+      }, { status: 400 });
     }
 
     // Validate manager requirement
@@ -154,7 +167,8 @@ export async function POST(request: NextRequest) {
         phone,
         password: null // No password set initially - will be set during signup/activation
       },
-      include: {
+      select: {
+        ...employeeProfileSelect,
         manager: {
           select: {
             id: true,
@@ -294,9 +308,9 @@ export async function POST(request: NextRequest) {
       message: 'An unexpected error occurred while creating the employee. Please try again.'
     }, { status: 500 });
   }
-}
+}, 'canAddEmployee');
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
@@ -307,6 +321,15 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
 
+    if (body.role !== undefined && !(await roleExists(body.role))) {
+      return NextResponse.json({ 
+        error: 'Invalid role', 
+        message: 'The selected role does not exist.',
+        field: 'role',
+        code: 'INVALID_ROLE'
+      }, { status: 400 });
+    }
+
     // Validate manager requirement
     if (body.role !== 'CEO' && !body.managerId) {
       return NextResponse.json({ 
@@ -336,13 +359,24 @@ export async function PUT(request: NextRequest) {
 
     // Get current employee data for change tracking
     const currentEmployee = await prisma.employee.findUnique({
-      where: { id }
+      where: { id },
+      select: employeeProfileSelect
     });
 
     if (!currentEmployee) {
       return NextResponse.json({ error: 'Employee not found' }, { status: 404 });
     }
 
+    const roleChanged = body.role !== undefined && body.role !== currentEmployee.role;
+    if (roleChanged && !currentUser.permissions.canManageRoles) {
+      return NextResponse.json({ error: 'Not authorized to change roles' }, { status: 403 });
+    }
+
+    // Service tokens can act as a service account, so marking one is an account-security change
+    if (body.isServiceAccount !== undefined && !!body.isServiceAccount !== currentEmployee.isServiceAccount && !currentUser.permissions.canManageAccounts) {
+      return NextResponse.json({ error: 'Not authorized to change service accounts' }, { status: 403 });
+    }
+
     // Update employee
     const updatedEmployee = await prisma.employee.update({
       where: { id },
@@ -354,9 +388,11 @@ export async function PUT(request: NextRequest) {
         managerId: body.managerId || null,
         status: body.status,
         joiningDate: body.joiningDate ? new Date(body.joiningDate) : undefined,
-        phone: body.phone || null
+        phone: body.phone || null,
+        isServiceAccount: body.isServiceAccount === undefined ? undefined : !!body.isServiceAccount
       },
-      include: {
+      select: {
+        ...employeeProfileSelect,
         manager: {
           select: {
             id: true,
@@ -368,6 +404,16 @@ export async function PUT(request: NextRequest) {
       }
     });
 
+    // Deactivated employees are signed out of every device
+    if (currentEmployee.status === 'ACTIVE' && updatedEmployee.status !== 'ACTIVE') {
+      await revokeAllSessions(id, 'employee_deactivated');
+    }
+
+    // A role that needs two-factor takes effect now, not at the next sign-in
+    if (roleChanged) {
+      await revokeSessionsPendingTwoFactor({ id });
+    }
+
     // Track all changes comprehensively
     await trackEntityUpdate(
       'EMPLOYEE',
@@ -383,21 +429,12 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating employee:', error);
     return NextResponse.json({ error: 'Failed to update employee' }, { status: 500 });
   }
-}
+}, 'canEditEmployee');
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const deletedBy = searchParams.get('deletedBy') || 'system';
 
     if (!id) {
       return NextResponse.json({ error: 'Employee ID is required' }, { status: 400 });
@@ -529,6 +566,16 @@ export async function DELETE(request: NextRequest) {
         data: { approverId: fallbackUserId }
       });
 
+      // Keep their workflow discussion messages and amendments, attributed to the fallback user
+      await prisma.workflowMessage.updateMany({
+        where: { authorId: id },
+        data: { authorId: fallbackUserId }
+      });
+      await prisma.workflowRevision.updateMany({
+        where: { changedById: id },
+        data: { changedById: fallbackUserId }
+      });
+
       // 5. Update policies owned by this employee
       const policiesUpdated = await prisma.policy.updateMany({
         where: { ownerId: id },
@@ -691,6 +738,16 @@ export async function DELETE(request: NextRequest) {
               data: { changedById: fallbackUserId }
             });
 
+            // Workflow discussion messages and amendments stay too, reassigned like the timeline
+            await tx.workflowMessage.updateMany({
+              where: { authorId: id },
+              data: { authorId: fallbackUserId }
+            });
+            await tx.workflowRevision.updateMany({
+              where: { changedById: id },
+              data: { changedById: fallbackUserId }
+            });
+
             // 3. Update any employees who have this employee as manager (set to null)
             await tx.employee.updateMany({
               where: { managerId: id },
@@ -828,4 +885,4 @@ export async function DELETE(request: NextRequest) {
       errorCode: error.code
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canDeleteEmployee');
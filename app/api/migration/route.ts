@@ -9,7 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { 
   migrateResourcesToNewStructure, 
   getMigrationStatus,
@@ -19,26 +19,8 @@ import {
 /**
  * GET /api/migration - Get migration status
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async () => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Only admins can check migration status
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions' 
-      }, { status: 403 });
-    }
-
     const status = await getMigrationStatus();
     const assignmentValidation = await validateAssignments();
 
@@ -54,31 +36,13 @@ export async function GET(request: NextRequest) {
       error: 'Failed to get migration status' 
     }, { status: 500 });
   }
-}
+}, 'canEditResource');
 
 /**
  * POST /api/migration - Run data migration
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Only admins can run migrations
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions to run migration' 
-      }, { status: 403 });
-    }
-
     const body = await request.json().catch(() => ({}));
     const { dryRun = false } = body;
 
@@ -114,4 +78,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+}, 'canEditResource');
@@ -2,20 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
 import { logCreatedActivity, logFileUploadedActivity, logTimelineActivity, logUpdatedActivity, logStatusChangedActivity } from '@/lib/timeline';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { createPolicyPublishWorkflow } from '@/lib/workflowService';
 import { trackEntityUpdate } from '@/lib/changeTracker';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '12');
@@ -27,8 +19,9 @@ export async function GET(request: NextRequest) {
     // Build where clause based on user role
     let whereClause: any = {};
     
-    // CEO and CTO can see all policies
-    if (currentUser.role === 'CEO' || currentUser.role === 'CTO') {
+    // Policy editors can see all policies
+    const canSeeAllPolicies = currentUser.permissions.canEditPolicy;
+    if (canSeeAllPolicies) {
       // No additional filtering - they can see all policies
       whereClause = {};
     } else {
@@ -52,7 +45,7 @@ export async function GET(request: NextRequest) {
       const existingConditions = [];
       
       // Add role-based conditions
-      if (currentUser.role !== 'CEO' && currentUser.role !== 'CTO') {
+      if (!canSeeAllPolicies) {
         existingConditions.push({ ownerId: currentUser.id });
       }
       
@@ -82,7 +75,7 @@ export async function GET(request: NextRequest) {
       const conditions = [];
       
       // Add role-based conditions
-      if (currentUser.role !== 'CEO' && currentUser.role !== 'CTO') {
+      if (!canSeeAllPolicies) {
         conditions.push({ ownerId: currentUser.id });
       }
       
@@ -141,18 +134,10 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching policies:', error);
     return NextResponse.json({ error: 'Failed to fetch policies' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const body = await request.json();
     const { 
       title, 
@@ -295,18 +280,10 @@ export async function POST(request: NextRequest) {
     console.error('Error creating policy:', error);
     return NextResponse.json({ error: 'Failed to create policy' }, { status: 500 });
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -463,21 +440,12 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating policy:', error);
     return NextResponse.json({ error: 'Failed to update policy' }, { status: 500 });
   }
-}
+}, 'canEditPolicy');
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    // Get the authenticated user
-    const token = request.cookies.get('auth-token')?.value;
-    const currentUser = token ? await getUserFromToken(token) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
-    const deletedBy = searchParams.get('deletedBy') || 'system';
 
     if (!id) {
       return NextResponse.json({ error: 'Policy ID is required' }, { status: 400 });
@@ -541,4 +509,4 @@ export async function DELETE(request: NextRequest) {
     console.error('Error deleting policy:', error);
     return NextResponse.json({ error: 'Failed to delete policy' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canDeletePolicy');
\ No newline at end of file
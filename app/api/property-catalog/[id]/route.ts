@@ -9,35 +9,20 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import {
   getPropertyById,
   updateCustomProperty,
   deleteCustomProperty,
 } from '@/lib/propertyCatalogService';
 
-interface RouteParams {
-  params: Promise<{ id: string }>;
-}
-
 /**
  * GET /api/property-catalog/[id]
  * 
  * Fetches a single property by ID.
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id } = await params;
     const property = await getPropertyById(id);
 
@@ -57,7 +42,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/property-catalog/[id]
@@ -71,27 +56,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * - defaultValue: Optional new default value
  * - resourceTypeId: Optional new resource type association
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to update properties (CEO, CTO, or Admin)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to update properties' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
     const body = await request.json();
     const { label, dataType, description, defaultValue, resourceTypeId } = body;
@@ -147,7 +113,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
 
 /**
  * DELETE /api/property-catalog/[id]
@@ -155,27 +121,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * Deletes a custom property. System properties cannot be deleted.
  * Properties in use by resources cannot be deleted.
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to delete properties (CEO, CTO, or Admin)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to delete properties' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
 
     try {
@@ -212,4 +159,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
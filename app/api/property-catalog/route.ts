@@ -8,7 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { logAudit } from '@/lib/audit';
 import { logTimelineActivity } from '@/lib/timeline';
 import {
@@ -31,26 +31,15 @@ import { CreatePropertyCatalogRequest } from '@/types/resource-structure';
  * - typeId: Optional resource type ID to filter suggestions
  * - seed: If 'true', seeds predefined properties first (admin only)
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const typeId = searchParams.get('typeId');
     const seed = searchParams.get('seed');
 
     // Seed predefined properties if requested (admin only)
     if (seed === 'true') {
-      if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
+      if (!currentUser.permissions.canAddResource) {
         return NextResponse.json(
           { error: 'Insufficient permissions to seed properties' },
           { status: 403 }
@@ -90,7 +79,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/property-catalog
@@ -106,27 +95,8 @@ export async function GET(request: NextRequest) {
  * - defaultValue: Optional default value
  * - resourceTypeId: Optional resource type association
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to create properties (CEO, CTO, or Admin)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to create properties' },
-        { status: 403 }
-      );
-    }
-
     const body = await request.json();
     const { key, label, dataType, description, defaultValue, resourceTypeId } = body;
 
@@ -163,7 +133,7 @@ export async function POST(request: NextRequest) {
       await logAudit({
         entityType: 'RESOURCE',
         entityId: property.id,
-        changedById: user.id,
+        changedById: currentUser.id,
         fieldChanged: 'property_catalog_created',
         oldValue: null,
         newValue: JSON.stringify({
@@ -180,8 +150,8 @@ export async function POST(request: NextRequest) {
         entityId: property.id,
         activityType: 'CREATED',
         title: `Custom property created: ${property.label}`,
-        description: `Custom property "${property.label}" (${property.key}) was added to the property catalog by ${user.name}`,
-        performedBy: user.id,
+        description: `Custom property "${property.label}" (${property.key}) was added to the property catalog by ${currentUser.name}`,
+        performedBy: currentUser.id,
         metadata: {
           entitySubType: 'PROPERTY_CATALOG',
           propertyKey: property.key,
@@ -189,8 +159,8 @@ export async function POST(request: NextRequest) {
           dataType: property.dataType,
           description: property.description,
           resourceTypeId: property.resourceTypeId,
-          createdBy: user.name,
-          createdById: user.id,
+          createdBy: currentUser.name,
+          createdById: currentUser.id,
         },
       });
       
@@ -221,4 +191,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
@@ -6,8 +6,8 @@
  * Requirements: 8.2
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
 import { seedPredefinedProperties } from '@/lib/propertyCatalogService';
 
 /**
@@ -17,27 +17,8 @@ import { seedPredefinedProperties } from '@/lib/propertyCatalogService';
  * Only users with administrative permissions can seed properties.
  * This is idempotent - running it multiple times will update existing properties.
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to seed properties (CEO, CTO, or Admin)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to seed properties' },
-        { status: 403 }
-      );
-    }
-
     await seedPredefinedProperties();
 
     return NextResponse.json({
@@ -52,4 +33,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
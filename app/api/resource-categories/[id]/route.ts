@@ -10,7 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { 
   logResourceCategoryUpdated, 
   logResourceCategoryDeleted,
@@ -22,27 +22,12 @@ import {
   deleteCategory,
 } from '@/lib/resourceCategoryService';
 
-interface RouteParams {
-  params: Promise<{ id: string }>;
-}
-
 /**
  * GET /api/resource-categories/[id]
  * Fetches a single category by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id } = await params;
     const category = await getCategoryById(id);
 
@@ -64,34 +49,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/resource-categories/[id]
  * Updates a category
  * Requirements: 7.3 - Verify administrative permissions
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.3: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to update resource categories' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
     const body = await request.json();
     const { name, description } = body;
@@ -151,7 +117,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
 
 /**
  * DELETE /api/resource-categories/[id]
@@ -159,27 +125,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * Requirements: 2.5 - Prevent deletion if resources are assigned
  * Requirements: 7.3 - Verify administrative permissions
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.3: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to delete resource categories' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
 
     // Get existing category for audit logging
@@ -236,4 +183,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
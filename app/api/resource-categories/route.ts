@@ -9,7 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { logResourceCategoryCreated } from '@/lib/resourceStructureAudit';
 import {
   getAllCategories,
@@ -24,19 +24,8 @@ import {
  * Fetches all categories or categories for a specific type
  * Requirements: 2.2, 2.4 - Display predefined and user-created categories grouped by type
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const resourceTypeId = searchParams.get('resourceTypeId');
     const grouped = searchParams.get('grouped') === 'true';
@@ -84,7 +73,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/resource-categories
@@ -94,27 +83,8 @@ export async function GET(request: NextRequest) {
  * Requirements: 2.6 - Allow multiple categories per resource type
  * Requirements: 7.2 - Verify administrative permissions
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.2: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to create resource categories' },
-        { status: 403 }
-      );
-    }
-
     const body = await request.json();
     const { name, description, resourceTypeId } = body;
 
@@ -174,4 +144,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
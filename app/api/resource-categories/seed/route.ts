@@ -7,8 +7,8 @@
  * This endpoint initializes the predefined system categories for each resource type
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
 import { seedSystemCategories } from '@/lib/resourceCategoryService';
 
 /**
@@ -16,27 +16,8 @@ import { seedSystemCategories } from '@/lib/resourceCategoryService';
  * Seeds predefined system categories
  * Only accessible by administrators
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Only administrators can seed categories
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to seed resource categories' },
-        { status: 403 }
-      );
-    }
-
     await seedSystemCategories();
 
     return NextResponse.json({
@@ -55,4 +36,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
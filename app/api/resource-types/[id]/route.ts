@@ -10,7 +10,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { 
   logResourceTypeUpdated, 
   logResourceTypeDeleted,
@@ -23,27 +23,12 @@ import {
   deleteResourceType,
 } from '@/lib/resourceTypeService';
 
-interface RouteParams {
-  params: Promise<{ id: string }>;
-}
-
 /**
  * GET /api/resource-types/[id]
  * Fetches a single resource type by ID with its categories
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { id } = await params;
     const resourceType = await getResourceTypeWithCategories(id);
 
@@ -65,7 +50,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/resource-types/[id]
@@ -74,27 +59,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * Requirements: 1.4, 2.4 - Prevent removal of default mandatory properties
  * Requirements: 7.3 - Verify administrative permissions
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.3: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to update resource types' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
     const body = await request.json();
     const { name, description, mandatoryProperties } = body;
@@ -161,7 +127,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
 
 /**
  * DELETE /api/resource-types/[id]
@@ -170,27 +136,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * Requirements: 1.5 - Maintain referential integrity
  * Requirements: 7.3 - Verify administrative permissions
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.3: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to delete resource types' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
 
     // Get existing type for audit logging
@@ -246,4 +193,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
+}, 'canEditResource');
@@ -9,7 +9,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { logResourceTypeCreated } from '@/lib/resourceStructureAudit';
 import {
   getAllResourceTypes,
@@ -23,19 +23,8 @@ import {
  * Fetches all resource types (both system and custom)
  * Requirements: 1.1, 1.3 - Display predefined and user-created types
  */
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async () => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     // Requirement 7.4: All authorized users can view types
     const result = await getAllResourceTypes();
 
@@ -50,7 +39,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/resource-types
@@ -59,27 +48,8 @@ export async function GET(request: NextRequest) {
  * Requirements: 3.1, 3.2 - Accept and store mandatoryProperties
  * Requirements: 7.1 - Verify administrative permissions
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Requirement 7.1: Verify administrative permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to create resource types' },
-        { status: 403 }
-      );
-    }
-
     const body = await request.json();
     const { name, description, mandatoryProperties } = body;
 
@@ -155,4 +125,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
@@ -13,8 +13,8 @@
  * Requirements: 1.1, 2.1
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
 import { seedSystemResourceTypes } from '@/lib/resourceTypeService';
 import { DEFAULT_MANDATORY_PROPERTIES } from '@/types/resource-structure';
 
@@ -23,27 +23,8 @@ import { DEFAULT_MANDATORY_PROPERTIES } from '@/types/resource-structure';
  * Seeds predefined system resource types with default mandatory properties
  * Only accessible by administrators
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async () => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Only administrators can seed resource types
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to seed resource types' },
-        { status: 403 }
-      );
-    }
-
     await seedSystemResourceTypes();
 
     return NextResponse.json({
@@ -62,4 +43,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'canAddResource');
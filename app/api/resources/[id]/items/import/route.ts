@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { withAuth } from '@/lib/routeAuth';
+import { importResourceItems } from '@/lib/resourceItemService';
+import { parseSpreadsheet } from '@/lib/spreadsheet';
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+// POST /api/resources/[id]/items/import - Import resource items from a CSV or XLSX file
+// Form data: file, mapping? (JSON object of column header -> property key), dryRun? ("true" only validates)
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const mappingField = formData.get('mapping');
+    const dryRun = formData.get('dryRun') === 'true';
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'A CSV or XLSX file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return NextResponse.json({ error: 'The file must be smaller than 5MB' }, { status: 400 });
+    }
+
+    let mapping: Record<string, string> | undefined;
+    if (typeof mappingField === 'string' && mappingField) {
+      try {
+        mapping = JSON.parse(mappingField);
+      } catch {
+        return NextResponse.json({ error: 'mapping must be a JSON object' }, { status: 400 });
+      }
+      if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping) || Object.values(mapping).some(value => typeof value !== 'string')) {
+        return NextResponse.json({ error: 'mapping must map column headers to property keys' }, { status: 400 });
+      }
+    }
+
+    let rows;
+    try {
+      rows = parseSpreadsheet(Buffer.from(await file.arrayBuffer()));
+    } catch (parseError) {
+      console.error('Error reading import file:', parseError);
+      return NextResponse.json(
+        { error: parseError instanceof Error && parseError.message.startsWith('Invalid XLSX') ? parseError.message : 'The file could not be read as CSV or XLSX' },
+        { status: 400 }
+      );
+    }
+
+    const result = await importResourceItems(id, rows, currentUser.id, { mapping, dryRun, fileName: file.name });
+
+    // Nothing is written unless every row is valid
+    if (!dryRun && !result.applied) {
+      return NextResponse.json(
+        { ...result, error: result.totalRows === 0 ? 'The file has no rows to import' : `${result.invalidRows} of ${result.totalRows} rows are invalid; nothing was imported` },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result, { status: result.applied ? 201 : 200 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error importing resource items:', error);
+
+    if (message.includes('not found')) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    if (message.includes('property schema') ||
+        message.includes('header row') ||
+        message.includes('mapping') ||
+        message.includes('mapped from') ||
+        message.includes('at most')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A serial number in the file was added by someone else during the import; nothing was imported' }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import resource items' },
+      { status: 500 }
+    );
+  }
+}, 'canAddResource');
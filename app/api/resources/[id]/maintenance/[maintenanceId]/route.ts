@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  getMaintenanceForResource,
+  startMaintenance,
+  completeMaintenance,
+  cancelMaintenance
+} from '@/lib/maintenanceService';
+
+// PATCH /api/resources/[id]/maintenance/[maintenanceId] - Start, complete or cancel maintenance work
+// Body: { action: 'start' | 'complete' | 'cancel', cost?, notes?, performedBy?, nextDue?, reason? }
+export const PATCH = withAuth<{ id: string; maintenanceId: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id, maintenanceId } = await params;
+
+    const existing = await getMaintenanceForResource(id, maintenanceId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Maintenance record not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { action, cost, notes, performedBy, nextDue, reason } = body;
+
+    let maintenance;
+    switch (action) {
+      case 'start':
+        maintenance = await startMaintenance(maintenanceId, currentUser.id, performedBy);
+        break;
+      case 'complete':
+        if (cost !== undefined && (typeof cost !== 'number' || cost < 0)) {
+          return NextResponse.json({ error: 'Cost must be a non-negative number' }, { status: 400 });
+        }
+        maintenance = await completeMaintenance(maintenanceId, { cost, notes, performedBy, nextDue }, currentUser.id);
+        break;
+      case 'cancel':
+        maintenance = await cancelMaintenance(maintenanceId, currentUser.id, reason);
+        break;
+      default:
+        return NextResponse.json({ error: 'Invalid action. Must be start, complete or cancel' }, { status: 400 });
+    }
+
+    return NextResponse.json(maintenance);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error updating maintenance record:', error);
+
+    if (message.startsWith('Cannot')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update maintenance record' },
+      { status: 500 }
+    );
+  }
+}, 'canEditResource');
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  getResourceMaintenance,
+  recordMaintenance,
+  scheduleMaintenance,
+  MAINTENANCE_TYPES
+} from '@/lib/maintenanceService';
+
+// GET /api/resources/[id]/maintenance - Upcoming, overdue, in-progress and past maintenance
+// Readable by every employee, like the catalog entry it is shown on
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await params;
+
+    const maintenance = await getResourceMaintenance(id);
+
+    return NextResponse.json(maintenance);
+  } catch (error) {
+    console.error('Error fetching resource maintenance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch resource maintenance' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/resources/[id]/maintenance - Record a maintenance event or schedule one
+// Body: { action: 'record' | 'schedule', type, itemId?, scheduledFor?, performedAt?, cost?, notes?, nextDue?, recurrenceDays? }
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const body = await request.json();
+    const { action = 'schedule', ...maintenanceData } = body;
+
+    if (!maintenanceData.type || !MAINTENANCE_TYPES.includes(maintenanceData.type)) {
+      return NextResponse.json(
+        { error: `Invalid maintenance type. Must be one of: ${MAINTENANCE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (maintenanceData.cost !== undefined && (typeof maintenanceData.cost !== 'number' || maintenanceData.cost < 0)) {
+      return NextResponse.json({ error: 'Cost must be a non-negative number' }, { status: 400 });
+    }
+
+    let maintenance;
+    switch (action) {
+      case 'record':
+        maintenance = await recordMaintenance(id, maintenanceData, currentUser.id);
+        break;
+      case 'schedule':
+        maintenance = await scheduleMaintenance(id, maintenanceData, currentUser.id);
+        break;
+      default:
+        return NextResponse.json({ error: 'Invalid action. Must be record or schedule' }, { status: 400 });
+    }
+
+    return NextResponse.json(maintenance, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error creating maintenance record:', error);
+
+    if (message.includes('not found')) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    if (message.includes('does not belong') ||
+        message.includes('required') ||
+        message.includes('Recurrence interval')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create maintenance record' },
+      { status: 500 }
+    );
+  }
+}, 'canEditResource');
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { cancelReservation, getReservationForResource } from '@/lib/resourceReservationService';
+
+// PATCH /api/resources/[id]/reservations/[reservationId] - Cancel a reservation
+// Body: { action: 'cancel', reason? }
+// Ongoing reservations are ended early and their seat is released. No declared permission,
+// since the people on a reservation may cancel it without canAssignResources.
+export const PATCH = withAuth<{ id: string; reservationId: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id, reservationId } = await params;
+
+    const existing = await getReservationForResource(id, reservationId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 });
+    }
+
+    // Check permissions: the employee, whoever booked it, or someone who can assign resources
+    const isParticipant = existing.employeeId === currentUser.id || existing.reservedById === currentUser.id;
+    if (!isParticipant && !currentUser.permissions.canAssignResources) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { action, reason } = body;
+
+    if (action !== 'cancel') {
+      return NextResponse.json({ error: 'Invalid action. Must be cancel' }, { status: 400 });
+    }
+
+    const result = await cancelReservation(reservationId, currentUser.id, reason);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, errorCode: result.errorCode }, { status: 400 });
+    }
+
+    return NextResponse.json(result.reservation);
+  } catch (error) {
+    console.error('Error updating reservation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update reservation' },
+      { status: 500 }
+    );
+  }
+});
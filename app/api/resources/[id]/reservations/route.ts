@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  createReservation,
+  getResourceReservations,
+  MAX_RESERVATION_DAYS
+} from '@/lib/resourceReservationService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range the calendar may ask for in one request
+const MAX_RANGE_DAYS = 92;
+
+// Any employee may book a shared resource for themselves, so neither method declares a
+// permission; booking for someone else is checked in POST.
+
+// GET /api/resources/[id]/reservations - Reservations overlapping a date range
+// Query: from, to (ISO dates; defaults to the next seven days)
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? new Date(searchParams.get('from') as string) : new Date();
+    const to = searchParams.get('to') ? new Date(searchParams.get('to') as string) : new Date(from.getTime() + 7 * DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json({ error: `Date range can be at most ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    const reservations = await getResourceReservations(id, from, to);
+
+    return NextResponse.json({
+      reservations,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      maxReservationDays: MAX_RESERVATION_DAYS
+    });
+  } catch (error) {
+    console.error('Error fetching resource reservations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch resource reservations' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/resources/[id]/reservations - Book a shared resource for a window
+// Body: { startAt, endAt, employeeId?, notes? } (employeeId defaults to the current user)
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const body = await request.json();
+    const { startAt, endAt, notes } = body;
+    const employeeId = body.employeeId || currentUser.id;
+
+    // Booking for someone else needs permission to assign resources
+    if (employeeId !== currentUser.id && !currentUser.permissions.canAssignResources) {
+      return NextResponse.json({ error: 'Insufficient permissions to reserve for other employees' }, { status: 403 });
+    }
+
+    if (!startAt || !endAt) {
+      return NextResponse.json({ error: 'startAt and endAt are required' }, { status: 400 });
+    }
+
+    const result = await createReservation({
+      resourceId: id,
+      employeeId,
+      startAt: new Date(startAt),
+      endAt: new Date(endAt),
+      notes
+    }, currentUser.id);
+
+    if (!result.success) {
+      const status = result.errorCode === 'RESOURCE_NOT_FOUND' || result.errorCode === 'EMPLOYEE_NOT_FOUND'
+        ? 404
+        : ['RESERVATION_CONFLICT', 'ALREADY_RESERVED', 'ALREADY_ASSIGNED'].includes(result.errorCode || '')
+          ? 409
+          : 400;
+      return NextResponse.json({
+        error: result.error,
+        errorCode: result.errorCode,
+        conflicts: result.conflicts
+      }, { status });
+    }
+
+    return NextResponse.json(result.reservation, { status: 201 });
+  } catch (error) {
+    console.error('Error creating reservation:', error);
+    return NextResponse.json(
+      { error: 'Failed to create reservation' },
+      { status: 500 }
+    );
+  }
+});
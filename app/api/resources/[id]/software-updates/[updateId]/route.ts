@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  getSoftwareUpdateForResource,
+  startSoftwareUpdate,
+  completeSoftwareUpdate,
+  failSoftwareUpdate,
+  rollbackSoftwareUpdate
+} from '@/lib/softwareUpdateService';
+
+// PATCH /api/resources/[id]/software-updates/[updateId] - Move an update through its lifecycle
+// Body: { action: 'start' | 'complete' | 'fail' | 'rollback', reason? }
+export const PATCH = withAuth<{ id: string; updateId: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id, updateId } = await params;
+
+    const existing = await getSoftwareUpdateForResource(id, updateId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Software update not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { action, reason } = body;
+
+    let update;
+    switch (action) {
+      case 'start':
+        update = await startSoftwareUpdate(updateId, currentUser.id);
+        break;
+      case 'complete':
+        update = await completeSoftwareUpdate(updateId, currentUser.id);
+        break;
+      case 'fail':
+        update = await failSoftwareUpdate(updateId, currentUser.id, reason);
+        break;
+      case 'rollback':
+        update = await rollbackSoftwareUpdate(updateId, currentUser.id, reason);
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Must be start, complete, fail or rollback' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json(update);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error updating software update:', error);
+
+    if (message.startsWith('Cannot move')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update software update' },
+      { status: 500 }
+    );
+  }
+}, 'canManageSoftwareUpdates');
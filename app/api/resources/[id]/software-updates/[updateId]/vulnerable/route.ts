@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { getSoftwareUpdateForResource, getVulnerableItems } from '@/lib/softwareUpdateService';
+
+// GET /api/resources/[id]/software-updates/[updateId]/vulnerable
+// Items still below the version shipped by a security update, with their assignees
+export const GET = withAuth<{ id: string; updateId: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const { id, updateId } = await params;
+
+    const update = await getSoftwareUpdateForResource(id, updateId);
+    if (!update) {
+      return NextResponse.json({ error: 'Software update not found' }, { status: 404 });
+    }
+
+    const items = await getVulnerableItems(updateId);
+
+    return NextResponse.json({
+      updateId,
+      toVersion: update.toVersion,
+      status: update.status,
+      vulnerableCount: items.length,
+      items
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error fetching vulnerable items:', error);
+
+    if (message.includes('only available for security updates')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch vulnerable items' },
+      { status: 500 }
+    );
+  }
+}, 'canManageSoftwareUpdates');
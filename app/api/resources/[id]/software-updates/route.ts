@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { getSoftwareUpdates, planSoftwareUpdate, UPDATE_TYPES } from '@/lib/softwareUpdateService';
+
+// GET /api/resources/[id]/software-updates - List updates for a software resource
+// Readable by every employee, like the catalog entry it is shown on
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
+  try {
+    const { id } = await params;
+
+    const updates = await getSoftwareUpdates(id);
+
+    return NextResponse.json(updates);
+  } catch (error) {
+    console.error('Error fetching software updates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch software updates' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/resources/[id]/software-updates - Plan an update
+// Body: { toVersion, updateType, fromVersion?, softwareName?, updateDate?, description?, itemIds? }
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const body = await request.json();
+    const { toVersion, updateType, fromVersion, softwareName, updateDate, description, itemIds } = body;
+
+    if (!toVersion || !updateType) {
+      return NextResponse.json(
+        { error: 'Missing required fields: toVersion, updateType' },
+        { status: 400 }
+      );
+    }
+
+    if (!UPDATE_TYPES.includes(updateType)) {
+      return NextResponse.json(
+        { error: `Invalid update type. Must be one of: ${UPDATE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return NextResponse.json({ error: 'itemIds must be an array' }, { status: 400 });
+    }
+
+    const update = await planSoftwareUpdate(
+      id,
+      { toVersion, updateType, fromVersion, softwareName, updateDate, description, itemIds },
+      currentUser.id
+    );
+
+    return NextResponse.json(update, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error planning software update:', error);
+
+    if (message === 'Resource not found') {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    if (message.includes('only be tracked') || message.includes('do not belong')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to plan software update' },
+      { status: 500 }
+    );
+  }
+}, 'canManageSoftwareUpdates');
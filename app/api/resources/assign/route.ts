@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/auth';
 import { logTimelineActivity } from '@/lib/timeline';
 
 export async function POST(request: NextRequest) {
@@ -9,12 +9,7 @@ export async function POST(request: NextRequest) {
     const { resourceId, employeeId, itemId, notes } = body;
 
     // Get current user from cookie
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
+    const currentUser = await getUserFromRequest(request);
     if (!currentUser) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, AssignmentStatus } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { logTimelineActivity } from '@/lib/timeline';
 import { 
   updateAssignmentStatus, 
   revokeAssignment,
+  updateAssignmentDueDate,
 } from '@/lib/resourceAssignmentService';
 
 const prisma = new PrismaClient();
@@ -12,19 +13,9 @@ const prisma = new PrismaClient();
 /**
  * GET /api/resources/assignments/[id] - Get assignment details
  */
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
     const { id } = await params;
-    
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
     const assignment = await prisma.resourceAssignment.findUnique({
       where: { id },
@@ -64,7 +55,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   } finally {
     await prisma.$disconnect();
   }
-}
+});
 
 /**
  * PUT /api/resources/assignments/[id] - Update assignment status
@@ -73,25 +64,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
  * - return: Return the resource (status -> RETURNED)
  * - revoke: Revoke the assignment (admin only, status -> RETURNED with revoke note)
  * - updateStatus: Direct status update (ACTIVE, RETURNED, LOST, DAMAGED)
+ * - setDueDate: Set, extend or clear the expected return date (dueAt: ISO date or null)
  * 
  * Requirements: 10.4, 10.8
  */
-export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { action, returnReason, notes, status, itemCondition } = body;
-
-    // Get current user from cookie
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { action, returnReason, notes, status, itemCondition, dueAt } = body;
 
     // Get assignment details
     const assignment = await prisma.resourceAssignment.findUnique({
@@ -132,8 +113,8 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         }, { status: 400 });
       }
 
-      // Check permissions - user must be manager/admin or the assigned employee
-      const canReturn = ['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(currentUser.role) ||
+      // Check permissions - user must be able to assign resources or be the assigned employee
+      const canReturn = currentUser.permissions.canAssignResources ||
         currentUser.id === assignment.employeeId;
 
       if (!canReturn) {
@@ -189,7 +170,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     } else if (action === 'revoke') {
       // Revoke action - admin only
       // Requirements: 10.8 - Allow administrators to revoke assignments
-      if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
+      if (!currentUser.permissions.canEditResource) {
         return NextResponse.json({ 
           error: 'Only administrators can revoke assignments' 
         }, { status: 403 });
@@ -237,7 +218,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     } else if (action === 'updateStatus' && status) {
       // Direct status update
       // Requirements: 10.4 - Track assignment status with values: ACTIVE, RETURNED, REVOKED
-      if (!['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(currentUser.role)) {
+      if (!currentUser.permissions.canAssignResources) {
         return NextResponse.json({ 
           error: 'Insufficient permissions to update assignment status' 
         }, { status: 403 });
@@ -262,9 +243,34 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
         assignment: result.assignment
       });
 
+    } else if (action === 'setDueDate') {
+      if (!currentUser.permissions.canAssignResources) {
+        return NextResponse.json({ 
+          error: 'Insufficient permissions to change the due date' 
+        }, { status: 403 });
+      }
+
+      const result = await updateAssignmentDueDate(
+        id,
+        dueAt ? new Date(dueAt) : null,
+        currentUser.id
+      );
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error, code: result.errorCode }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: dueAt
+          ? `${assignment.resource.name} is now due back on ${new Date(dueAt).toLocaleDateString()}`
+          : `Due date removed from ${assignment.resource.name}`,
+        assignment: result.assignment
+      });
+
     } else {
       return NextResponse.json({ 
-        error: 'Invalid action. Supported actions: "return", "revoke", "updateStatus"' 
+        error: 'Invalid action. Supported actions: "return", "revoke", "updateStatus", "setDueDate"' 
       }, { status: 400 });
     }
 
@@ -277,30 +283,12 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
   } finally {
     await prisma.$disconnect();
   }
-}
+});
 
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
 
-    // Get current user from cookie
-    const token = request.cookies.get('auth-token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to delete assignments
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions to delete assignments' 
-      }, { status: 403 });
-    }
-
     // Get assignment details before deletion
     const assignment = await prisma.resourceAssignment.findUnique({
       where: { id },
@@ -394,4 +382,4 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
   } finally {
     await prisma.$disconnect();
   }
-}
+}, 'canEditResource');
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { 
   createAssignment, 
   determineAssignmentType,
@@ -27,26 +27,10 @@ const prisma = new PrismaClient();
  * 
  * Requirements: 2.1, 2.2, 3.1, 3.4, 3.5, 10.1, 10.2, 10.3, 10.4, 10.5, 10.6, 10.7, 10.8
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions - only managers and above can assign resources
-    if (!['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
-
     const body = await request.json();
-    const { employeeId, resourceId, itemId, notes, approvalWorkflowId, assignmentType } = body;
+    const { employeeId, resourceId, itemId, notes, dueAt, approvalWorkflowId, assignmentType } = body;
 
     // Validate required fields
     if (!employeeId || !resourceId) {
@@ -211,9 +195,11 @@ export async function POST(request: NextRequest) {
         employeeId,
         itemId: selectedItemId || undefined,
         assignmentType: resolvedAssignmentType,
-        notes: notes || `Assigned by ${user.name}`,
+        notes: notes || `Assigned by ${currentUser.name}`,
+        // Optional expected return date; createAssignment rejects past or invalid dates
+        dueAt: dueAt ? new Date(dueAt) : undefined,
       },
-      user.id
+      currentUser.id
     );
 
     if (!result.success) {
@@ -240,7 +226,7 @@ export async function POST(request: NextRequest) {
       data: {
         entityType: 'RESOURCE',
         entityId: resourceId,
-        changedById: user.id,
+        changedById: currentUser.id,
         fieldChanged: 'assigned',
         newValue: JSON.stringify({
           assignmentId: result.assignment?.id,
@@ -248,6 +234,7 @@ export async function POST(request: NextRequest) {
           employeeName: employee.name,
           itemId: selectedItemId,
           assignmentType: resolvedAssignmentType,
+          dueAt: result.assignment?.dueAt || null,
         }),
         resourceId,
         assignmentId: result.assignment?.id
@@ -262,7 +249,7 @@ export async function POST(request: NextRequest) {
         activityType: 'ASSIGNED',
         title: `${resource.name} assigned to ${employee.name}`,
         description: getAssignmentDescription(resourceTypeName, resolvedAssignmentType, selectedItemId),
-        performedBy: user.id,
+        performedBy: currentUser.id,
         resourceId,
         assignmentId: result.assignment?.id,
         employeeId,
@@ -272,6 +259,7 @@ export async function POST(request: NextRequest) {
           employeeDepartment: employee.department,
           assignmentType: resolvedAssignmentType,
           itemId: selectedItemId,
+          dueAt: result.assignment?.dueAt || null,
           notes
         }
       }
@@ -292,7 +280,7 @@ export async function POST(request: NextRequest) {
   } finally {
     await prisma.$disconnect();
   }
-}
+}, 'canAssignResources');
 
 /**
  * Helper function to generate assignment description based on type
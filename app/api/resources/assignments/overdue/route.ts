@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { getOverdueAssignments, runAssignmentDueSweep } from '@/lib/assignmentDueService';
+import { ASSIGNMENT_DUE_CONFIG } from '@/lib/config/assignmentDue';
+
+/**
+ * GET /api/resources/assignments/overdue - Active assignments past their due date
+ *
+ * Query parameters:
+ * - dueSoon=true: also list assignments due back in the next few days
+ * - employeeId: only this employee's assignments (needs permission to view all resources)
+ *
+ * Those who can view all resources see every assignment; everyone else sees the ones they
+ * hold and the ones for resources they are custodian of.
+ */
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const canViewAll = currentUser.permissions.canViewAllResources;
+
+    const assignments = await getOverdueAssignments({
+      visibleTo: canViewAll ? null : currentUser.id,
+      employeeId: canViewAll ? searchParams.get('employeeId') : null,
+      dueWithinDays: searchParams.get('dueSoon') === 'true' ? ASSIGNMENT_DUE_CONFIG.dueSoonDays : 0
+    });
+
+    return NextResponse.json({
+      assignments,
+      overdue: assignments.filter(assignment => assignment.overdue).length,
+      dueSoon: assignments.filter(assignment => !assignment.overdue).length
+    });
+
+  } catch (error) {
+    console.error('Error fetching overdue assignments:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch overdue assignments'
+    }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/resources/assignments/overdue - Send due reminders and overdue notices now
+ * (used by the standalone worker)
+ */
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const result = await runAssignmentDueSweep({
+      baseUrl: process.env.APP_URL || request.nextUrl.origin,
+      triggeredBy: currentUser.id
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error running assignment due sweep:', error);
+    return NextResponse.json({
+      error: 'Failed to run assignment due sweep'
+    }, { status: 500 });
+  }
+}, 'canAssignResources');
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { runReservationSweep } from '@/lib/resourceReservationService';
+
+/**
+ * POST /api/resources/assignments/reservations - Start and end due reservations now
+ * (used by the standalone worker)
+ *
+ * Reservations whose window has begun become assignments; ones whose window is over have
+ * their assignment closed.
+ */
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const result = await runReservationSweep({ triggeredBy: currentUser.id });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error running reservation sweep:', error);
+    return NextResponse.json({
+      error: 'Failed to run reservation sweep'
+    }, { status: 500 });
+  }
+}, 'canAssignResources');
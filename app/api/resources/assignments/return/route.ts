@@ -1,23 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, ItemStatus } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 
 const prisma = new PrismaClient();
 
 // POST /api/resources/assignments/return - Return resource assignment
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     const { assignmentId, returnNotes, itemCondition } = body;
 
@@ -52,9 +41,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Assignment is not active' }, { status: 400 });
     }
 
-    // Check permissions - user must be manager/admin or the assigned employee
-    const canReturn = ['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(user.role) ||
-      user.id === assignment.employeeId;
+    // Check permissions - user must be able to assign resources or be the assigned employee
+    const canReturn = currentUser.permissions.canAssignResources ||
+      currentUser.id === assignment.employeeId;
 
     if (!canReturn) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
@@ -118,7 +107,7 @@ export async function POST(request: NextRequest) {
         data: {
           entityType: 'RESOURCE',
           entityId: assignment.resourceId,
-          changedById: user.id,
+          changedById: currentUser.id,
           fieldChanged: 'returned',
           oldValue: 'ACTIVE',
           newValue: updatedAssignment.status,
@@ -137,7 +126,7 @@ export async function POST(request: NextRequest) {
           description: assignment.item 
             ? `Hardware item ${assignment.item.serialNumber || assignment.item.hostname || assignment.item.id} returned in ${itemCondition || 'good'} condition`
             : `Software/Cloud seat returned`,
-          performedBy: user.id,
+          performedBy: currentUser.id,
           resourceId: assignment.resourceId,
           assignmentId,
           employeeId: assignment.employeeId,
@@ -169,4 +158,4 @@ export async function POST(request: NextRequest) {
   } finally {
     await prisma.$disconnect();
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
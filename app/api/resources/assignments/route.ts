@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { getUserFromRequest } from '@/lib/auth';
 import { 
   createAssignment, 
   validateAssignmentRequest,
@@ -30,19 +30,13 @@ const prisma = new PrismaClient();
  */
 export async function POST(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const body = await request.json();
-    const { resourceId, employeeId, itemId, notes, assignmentType } = body;
+    const { resourceId, employeeId, itemId, notes, dueAt, assignmentType } = body;
 
     // Validate required fields
     if (!resourceId || !employeeId) {
@@ -81,6 +75,8 @@ export async function POST(request: NextRequest) {
         itemId: itemId || undefined,
         assignmentType: resolvedAssignmentType,
         notes: notes || `Assigned by ${user.name}`,
+        // Optional expected return date; createAssignment rejects past or invalid dates
+        dueAt: dueAt ? new Date(dueAt) : undefined,
       },
       user.id
     );
@@ -124,13 +120,7 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
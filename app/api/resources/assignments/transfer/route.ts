@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { transferAllAssignments, transferAssignment } from '@/lib/resourceAssignmentService';
+
+/**
+ * POST /api/resources/assignments/transfer - Hand assignments from one employee to another
+ *
+ * Body, one assignment:
+ *   { assignmentId, toEmployeeId, condition?: 'GOOD' | 'DAMAGED', notes?, dueAt? }
+ * Body, everything an employee holds (or the listed assignments):
+ *   { fromEmployeeId, toEmployeeId, assignmentIds?, condition?, conditions?: { [assignmentId]: condition }, notes?, dueAt? }
+ *
+ * The old assignment is closed and the new one opened in one transaction, so the item never
+ * shows as available in between.
+ */
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const body = await request.json();
+    const { assignmentId, fromEmployeeId, toEmployeeId, assignmentIds, condition, conditions, notes, dueAt } = body;
+
+    if (!toEmployeeId || (!assignmentId && !fromEmployeeId)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: toEmployeeId and either assignmentId or fromEmployeeId' },
+        { status: 400 }
+      );
+    }
+
+    if (assignmentIds !== undefined && (!Array.isArray(assignmentIds) || assignmentIds.length === 0)) {
+      return NextResponse.json({ error: 'assignmentIds must be a non-empty array' }, { status: 400 });
+    }
+
+    const transfer = {
+      toEmployeeId,
+      condition,
+      notes,
+      dueAt: dueAt ? new Date(dueAt) : undefined
+    };
+
+    if (assignmentId) {
+      const result = await transferAssignment(assignmentId, transfer, currentUser.id);
+      if (!result.success) {
+        const status = result.errorCode === 'ASSIGNMENT_NOT_FOUND' || result.errorCode === 'EMPLOYEE_NOT_FOUND' ? 404 : 400;
+        return NextResponse.json({ error: result.error, errorCode: result.errorCode }, { status });
+      }
+
+      return NextResponse.json({
+        assignment: result.assignment,
+        previousAssignment: result.previousAssignment
+      }, { status: 201 });
+    }
+
+    if (fromEmployeeId === toEmployeeId) {
+      return NextResponse.json({ error: 'Cannot transfer assignments to the same employee' }, { status: 400 });
+    }
+
+    const result = await transferAllAssignments(fromEmployeeId, {
+      ...transfer,
+      assignmentIds,
+      conditions
+    }, currentUser.id);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error transferring resource assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer resource assignments' },
+      { status: 500 }
+    );
+  }
+}, 'canAssignResources');
@@ -1,26 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 
 const prisma = new PrismaClient();
 
 // GET /api/resources/catalog/[id] - Get specific resource with full details
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
     const resource = await prisma.resource.findUnique({
       where: { id },
@@ -130,30 +117,12 @@ export async function GET(
   } finally {
     await prisma.$disconnect();
   }
-}
+});
 
 // PUT /api/resources/catalog/[id] - Update resource catalog entry
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
 
     const body = await request.json();
     const { name, category, description, custodianId, status, quantity, metadata, selectedProperties } = body;
@@ -251,7 +220,7 @@ export async function PUT(
           data: {
             entityType: 'RESOURCE',
             entityId: id,
-            changedById: user.id,
+            changedById: currentUser.id,
             fieldChanged: change.field,
             oldValue: change.oldValue,
             newValue: change.newValue,
@@ -269,7 +238,7 @@ export async function PUT(
             activityType: 'UPDATED',
             title: `Resource "${resource.name}" updated`,
             description: `Updated ${changes.map(c => c.field).join(', ')}`,
-            performedBy: user.id,
+            performedBy: currentUser.id,
             resourceId: id,
             metadata: {
               changes: changes
@@ -292,30 +261,12 @@ export async function PUT(
   } finally {
     await prisma.$disconnect();
   }
-}
+}, 'canEditResource');
 
 // DELETE /api/resources/catalog/[id] - Delete resource (only if no active assignments)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions
-    if (!['CEO', 'CTO'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
 
     const resource = await prisma.resource.findUnique({
       where: { id },
@@ -378,14 +329,14 @@ export async function DELETE(
               activityType: 'UPDATED',
               title: `Cloud resource unallocated from ${assignment.employee.name}`,
               description: `Cloud seat automatically unallocated due to resource deletion`,
-              performedBy: user.id,
+              performedBy: currentUser.id,
               resourceId: id,
               assignmentId: assignment.id,
               employeeId: assignment.employeeId,
               metadata: {
                 reason: 'resource_deletion',
                 employeeName: assignment.employee.name,
-                unallocatedBy: user.name
+                unallocatedBy: currentUser.name
               }
             }
           });
@@ -469,7 +420,7 @@ export async function DELETE(
         data: {
           entityType: 'RESOURCE',
           entityId: id,
-          changedById: user.id,
+          changedById: currentUser.id,
           fieldChanged: 'deleted',
           oldValue: JSON.stringify({
             name: resource.name,
@@ -490,7 +441,7 @@ export async function DELETE(
           description: resource.type === 'CLOUD' && hasActiveAssignments 
             ? `${resource.type} resource permanently removed from catalog (${resource.assignments.length} allocations automatically unallocated)`
             : `${resource.type} resource permanently removed from catalog`,
-          performedBy: user.id,
+          performedBy: currentUser.id,
           metadata: {
             resourceType: resource.type,
             category: resource.category,
@@ -515,4 +466,4 @@ export async function DELETE(
   } finally {
     await prisma.$disconnect();
   }
-}
\ No newline at end of file
+}, 'canDeleteResource');
\ No newline at end of file
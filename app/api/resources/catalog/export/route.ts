@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  RESOURCE_EXPORT_FORMATS,
+  ResourceExportFormat,
+  prepareResourceExport
+} from '@/lib/resourceExportService';
+import { SpreadsheetCell, streamXlsx, toCsvLine } from '@/lib/spreadsheet';
+
+const CONTENT_TYPES: Record<ResourceExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+async function* csvBody(labels: string[], rows: AsyncIterable<SpreadsheetCell[]>) {
+  // The byte order mark makes Excel read the file as UTF-8
+  yield '\uFEFF' + toCsvLine(labels);
+  for await (const row of rows) {
+    yield toCsvLine(row);
+  }
+}
+
+async function* jsonBody(keys: string[], rows: AsyncIterable<SpreadsheetCell[]>) {
+  yield '[';
+  let first = true;
+  for await (const row of rows) {
+    const record = Object.fromEntries(keys.map((key, index) => [key, row[index]]));
+    yield (first ? '\n' : ',\n') + JSON.stringify(record);
+    first = false;
+  }
+  yield '\n]\n';
+}
+
+// Pull-based stream, so rows are only read from the database as fast as the client downloads
+function toReadableStream(body: AsyncGenerator<string | Buffer>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await body.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value));
+        }
+      } catch (error) {
+        console.error('Error streaming resource export:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await body.return(undefined);
+    }
+  });
+}
+
+// GET /api/resources/catalog/export - Export the asset register as CSV, JSON or XLSX
+// Open to every employee like the catalog list: getCatalogAssigneeScope limits what each caller sees
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv').toLowerCase() as ResourceExportFormat;
+    if (!RESOURCE_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid export format. Use one of: ${RESOURCE_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Same filters and visibility as the catalog list
+    const exported = await prepareResourceExport({
+      type: searchParams.get('type'),
+      category: searchParams.get('category'),
+      status: searchParams.get('status'),
+      search: searchParams.get('search'),
+      assignedTo: searchParams.get('assignedTo')
+    }, currentUser);
+
+    const labels = exported.columns.map(column => column.label);
+    const body = format === 'xlsx'
+      ? streamXlsx(labels, exported.rows, 'Asset register')
+      : format === 'json'
+        ? jsonBody(exported.columns.map(column => column.key), exported.rows)
+        : csvBody(labels, exported.rows);
+
+    const fileName = `asset-register-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new Response(toReadableStream(body), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Error exporting resource catalog:', error);
+
+    if (message.startsWith('Invalid resource')) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to export resource catalog' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,63 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
+import { buildResourceCatalogWhere } from '@/lib/resourceService';
 
 // GET /api/resources/catalog - List all resource catalog entries
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
-    const type = searchParams.get('type') as 'PHYSICAL' | 'SOFTWARE' | 'CLOUD' | null;
-    const category = searchParams.get('category');
-    const status = searchParams.get('status') as 'ACTIVE' | 'RETURNED' | 'LOST' | 'DAMAGED' | null;
-    const search = searchParams.get('search');
-    const assignedTo = searchParams.get('assignedTo'); // Employee filter
-
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {};
-    if (type) where.type = type;
-    if (category) where.category = category;
-    if (status) where.status = status;
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-        { category: { contains: search, mode: 'insensitive' } }
-      ];
-    }
-
-    // Employee filter - only for CEO/CTO users
-    if (assignedTo && ['CEO', 'CTO'].includes(user.role)) {
-      where.assignments = {
-        some: {
-          employeeId: assignedTo,
-          status: 'ACTIVE'
-        }
-      };
-    }
-    // For regular employees, only show resources assigned to them (unless CEO/CTO is filtering by employee)
-    else if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      where.assignments = {
-        some: {
-          employeeId: user.id,
-          status: 'ACTIVE'
-        }
-      };
-    }
+    // Employees only see resources assigned to them unless they can view all resources
+    const where = buildResourceCatalogWhere({
+      type: searchParams.get('type'),
+      category: searchParams.get('category'),
+      status: searchParams.get('status'),
+      search: searchParams.get('search'),
+      assignedTo: searchParams.get('assignedTo')
+    }, currentUser);
 
     const [resources, totalCount] = await Promise.all([
       prisma.resource.findMany({
@@ -128,27 +89,11 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/resources/catalog - Create new resource catalog entry
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to create resources (CEO, CTO, or Admin)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
-
     const body = await request.json();
     const { 
       name, 
@@ -265,7 +210,7 @@ export async function POST(request: NextRequest) {
           data: {
             entityType: 'RESOURCE',
             entityId: newResource.id,
-            changedById: user.id,
+            changedById: currentUser.id,
             fieldChanged: 'created',
             newValue: JSON.stringify({
               name,
@@ -288,7 +233,7 @@ export async function POST(request: NextRequest) {
             activityType: 'CREATED',
             title: `Resource "${name}" created`,
             description: `New ${resourceType.name} resource created${resourceCategory ? ` in ${resourceCategory.name} category` : ''} with ${selectedProperties.length} properties (${allocationType || 'EXCLUSIVE'} allocation)`,
-            performedBy: user.id,
+            performedBy: currentUser.id,
             resourceId: newResource.id,
             metadata: {
               resourceType: resourceType.name,
@@ -368,7 +313,7 @@ export async function POST(request: NextRequest) {
           data: {
             entityType: 'RESOURCE',
             entityId: newResource.id,
-            changedById: user.id,
+            changedById: currentUser.id,
             fieldChanged: 'created',
             newValue: JSON.stringify({
               name,
@@ -391,7 +336,7 @@ export async function POST(request: NextRequest) {
             activityType: 'CREATED',
             title: `Resource "${name}" created`,
             description: `New ${type.toLowerCase()} resource created in ${category || 'general'} category`,
-            performedBy: user.id,
+            performedBy: currentUser.id,
             resourceId: newResource.id,
             metadata: {
               resourceType: type,
@@ -416,4 +361,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'canAddResource');
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { 
   getResourceItemById, 
   updateResourceItem, 
@@ -12,22 +12,9 @@ import { ItemStatus } from '@/types/resource-structure';
 
 // GET /api/resources/items/[id] - Get specific resource item
 // Requirements: 8.8 - Display only properties selected for that resource type
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withAuth<{ id: string }>(async (request: NextRequest, { params }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
 
     // Use the new service to get item with enhanced data
     const item = await getResourceItemById(id);
@@ -47,34 +34,16 @@ export async function GET(
   } finally {
     await prisma.$disconnect();
   }
-}
+});
 
 // PUT /api/resources/items/[id] - Update resource item with property validation
 // Requirements: 15.1 - Allow editing while maintaining locked schema
 // Requirements: 15.2 - Enforce same property keys as first item
 // Requirements: 15.6 - Validate data types and constraints
 // Requirements: 15.7 - Log all edits in audit trail
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
 
     const body = await request.json();
     const { properties, status } = body;
@@ -106,7 +75,7 @@ export async function PUT(
         const updatedItem = await updateResourceItem(
           id,
           { properties, status },
-          user.id
+          currentUser.id
         );
         return NextResponse.json(updatedItem);
       } catch (error: any) {
@@ -124,7 +93,7 @@ export async function PUT(
     // Handle status-only update
     if (status && !properties) {
       try {
-        const updatedItem = await updateItemStatus(id, status as ItemStatus, user.id);
+        const updatedItem = await updateItemStatus(id, status as ItemStatus, currentUser.id);
         return NextResponse.json(updatedItem);
       } catch (error: any) {
         if (error.message.includes('Resource item not found')) {
@@ -203,7 +172,7 @@ export async function PUT(
         const updatedItem = await updateResourceItem(
           id,
           { properties: legacyProperties, status: status || undefined },
-          user.id
+          currentUser.id
         );
         return NextResponse.json(updatedItem);
       } catch (error: any) {
@@ -261,7 +230,7 @@ export async function PUT(
           data: {
             entityType: 'RESOURCE',
             entityId: currentItem.resourceId,
-            changedById: user.id,
+            changedById: currentUser.id,
             fieldChanged: `item_${change.field}`,
             oldValue: change.oldValue,
             newValue: change.newValue,
@@ -278,7 +247,7 @@ export async function PUT(
             activityType: 'UPDATED',
             title: `${currentItem.resource.name} item updated`,
             description: `Resource item ${currentItem.serialNumber || currentItem.hostname || id} updated`,
-            performedBy: user.id,
+            performedBy: currentUser.id,
             resourceId: currentItem.resourceId,
             metadata: {
               itemId: id,
@@ -302,34 +271,16 @@ export async function PUT(
   } finally {
     await prisma.$disconnect();
   }
-}
+}, 'canEditResource');
 
 // DELETE /api/resources/items/[id] - Delete resource item with assignment checks
 // Requirements: 15.3 - Allow deletion when not currently assigned
 // Requirements: 15.4 - Prevent deletion if item has active assignments
 // Requirements: 15.5 - Provide clear error messages when deletion is prevented
 // Requirements: 15.7 - Log deletions in audit trail
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions
-    if (!['CEO', 'CTO'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
 
     // Check if item can be deleted
     const canDelete = await canDeleteItem(id);
@@ -342,7 +293,7 @@ export async function DELETE(
     }
 
     try {
-      await deleteResourceItem(id, user.id);
+      await deleteResourceItem(id, currentUser.id);
       return NextResponse.json({ message: 'Resource item deleted successfully' });
     } catch (error: any) {
       if (error.message.includes('Resource item not found')) {
@@ -369,4 +320,4 @@ export async function DELETE(
   } finally {
     await prisma.$disconnect();
   }
-}
\ No newline at end of file
+}, 'canDeleteResource');
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { prisma } from '@/lib/prisma';
 import { 
   createResourceItem, 
@@ -15,19 +15,8 @@ import {
 
 // GET /api/resources/items - List resource items (hardware and software)
 // Requirements: 8.8 - Display only properties selected for that resource type
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
@@ -125,28 +114,12 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/resources/items - Create new resource item with dynamic properties
 // Requirements: 9.1, 9.2 - Create items as actual instances with property validation
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check permissions
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role)) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
-
     const body = await request.json();
     const { resourceId, properties, status } = body;
 
@@ -220,7 +193,7 @@ export async function POST(request: NextRequest) {
         const item = await createResourceItem(
           resourceId,
           { properties, status },
-          user.id
+          currentUser.id
         );
         return NextResponse.json(item, { status: 201 });
       } catch (error: any) {
@@ -341,7 +314,7 @@ export async function POST(request: NextRequest) {
         const item = await createResourceItem(
           resourceId,
           { properties: legacyProperties, status: status || 'AVAILABLE' },
-          user.id
+          currentUser.id
         );
         return NextResponse.json(item, { status: 201 });
       } catch (error: any) {
@@ -397,7 +370,7 @@ export async function POST(request: NextRequest) {
         data: {
           entityType: 'RESOURCE',
           entityId: resourceId,
-          changedById: user.id,
+          changedById: currentUser.id,
           fieldChanged: 'item_created',
           newValue: JSON.stringify({
             itemId: newItem.id,
@@ -415,7 +388,7 @@ export async function POST(request: NextRequest) {
           activityType: 'CREATED',
           title: `New ${resource.name} item added`,
           description: `Resource item ${serialNumber || hostname || 'without serial'} added to inventory`,
-          performedBy: user.id,
+          performedBy: currentUser.id,
           resourceId,
           metadata: {
             itemId: newItem.id,
@@ -438,4 +411,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'canAddResource');
\ No newline at end of file
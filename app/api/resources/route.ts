@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
-import { getUserFromToken } from '@/lib/auth';
+import { withAuth } from '@/lib/routeAuth';
 import { logTimelineActivity } from '@/lib/timeline';
 import { logPropertySchemaSelected } from '@/lib/resourceStructureAudit';
 import { 
@@ -16,19 +16,8 @@ import {
 
 const prisma = new PrismaClient();
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await getUserFromToken(token);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
@@ -72,10 +61,10 @@ export async function GET(request: NextRequest) {
     }
 
     // For regular employees, only show resources assigned to them (EXCEPT for access requests)
-    if (!['CEO', 'CTO', 'ADMIN'].includes(user.role) && !forAccessRequest) {
+    if (!currentUser.permissions.canViewAllResources && !forAccessRequest) {
       whereClause.assignments = {
         some: {
-          employeeId: user.id,
+          employeeId: currentUser.id,
           status: 'ACTIVE'
         }
       };
@@ -143,28 +132,10 @@ export async function GET(request: NextRequest) {
   } finally {
     await prisma.$disconnect();
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to create resources
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions to create resources' 
-      }, { status: 403 });
-    }
-
     const body = await request.json();
     const { 
       name, 
@@ -408,28 +379,10 @@ export async function POST(request: NextRequest) {
   } finally {
     await prisma.$disconnect();
   }
-}
+}, 'canAddResource');
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const token = request.cookies.get('auth-token')?.value;
-    
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const currentUser = await getUserFromToken(token);
-    if (!currentUser) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user has permission to update resources
-    if (!['CEO', 'CTO', 'ADMIN'].includes(currentUser.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions to update resources' 
-      }, { status: 403 });
-    }
-
     const body = await request.json();
     const { 
       id, 
@@ -595,4 +548,4 @@ export async function PUT(request: NextRequest) {
   } finally {
     await prisma.$disconnect();
   }
-}
\ No newline at end of file
+}, 'canEditResource');
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { deleteRole, getRoleErrorStatus, updateRole } from '@/lib/roleService';
+import { revokeSessionsPendingTwoFactor } from '@/lib/twoFactorService';
+
+// PUT /api/roles/[key] - Update a role's attributes and/or its permissions
+export const PUT = withAuth<{ key: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { key } = await params;
+    const body = await request.json();
+    const result = await updateRole(key, body, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getRoleErrorStatus(result.errorCode) });
+    }
+
+    // Admin and executive-tier roles need two-factor, so raising a role signs out its unenrolled holders
+    if (body.tier !== undefined || body.isAdmin !== undefined) {
+      await revokeSessionsPendingTwoFactor({ role: key });
+    }
+
+    return NextResponse.json({ role: result.role });
+  } catch (error) {
+    console.error('Error updating role:', error);
+    return NextResponse.json({ error: 'Failed to update role' }, { status: 500 });
+  }
+}, 'canManageRoles');
+
+// DELETE /api/roles/[key] - Delete a custom role nobody holds
+export const DELETE = withAuth<{ key: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { key } = await params;
+    const result = await deleteRole(key, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getRoleErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting role:', error);
+    return NextResponse.json({ error: 'Failed to delete role' }, { status: 500 });
+  }
+}, 'canManageRoles');
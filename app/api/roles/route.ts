@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import { createRole, getRoleErrorStatus, listRoles, ROLE_TIERS } from '@/lib/roleService';
+import { PERMISSION_GROUPS } from '@/lib/permissions';
+
+// GET /api/roles - Roles with their permissions; any signed-in user may read the matrix
+export const GET = withAuth(async () => {
+  try {
+    const roles = await listRoles();
+
+    return NextResponse.json({
+      roles,
+      tiers: ROLE_TIERS,
+      permissionGroups: PERMISSION_GROUPS
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return NextResponse.json({ error: 'Failed to fetch roles' }, { status: 500 });
+  }
+});
+
+// POST /api/roles - Create a role, optionally copying another role's permissions
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const body = await request.json();
+    const result = await createRole(body, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getRoleErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ role: result.role }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating role:', error);
+    return NextResponse.json({ error: 'Failed to create role' }, { status: 500 });
+  }
+}, 'canManageRoles');
@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getEntityTimeline } from '@/lib/timeline';
+import { canViewEntityTimeline, getEntityTimeline } from '@/lib/timeline';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ entityType: string; id: string }> }
-) {
+// Callers without canViewTimeline can still read their own entities, so no declared permission
+export const GET = withAuth<{ entityType: string; id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { entityType, id } = await params;
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
 
+    if (!(await canViewEntityTimeline(currentUser, entityType.toUpperCase(), id))) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
     const timeline = await getEntityTimeline(entityType.toUpperCase(), id, limit);
 
     return NextResponse.json(timeline);
@@ -17,4 +20,4 @@ export async function GET(
     console.error('Error fetching entity timeline:', error);
     return NextResponse.json({ error: 'Failed to fetch entity timeline' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
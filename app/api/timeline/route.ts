@@ -7,10 +7,14 @@ import {
   getEntityTimelineCount,
   getAllTimelineCount,
   getTimelineByEntityTypeCount,
-  getUserTimelineCount
+  getUserTimelineCount,
+  canViewEntityTimeline
 } from '@/lib/timeline';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+// No declared permission: without canViewTimeline callers may still read their own
+// activities and the entities canViewEntityTimeline allows, so the check is per branch
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const { searchParams } = new URL(request.url);
     const entityType = searchParams.get('entityType');
@@ -20,6 +24,10 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
 
     if (entityType && entityId) {
+      if (!(await canViewEntityTimeline(currentUser, entityType, entityId))) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
       // Get timeline for specific entity
       const activities = await getEntityTimeline(entityType, entityId, limit, page);
       const total = await getEntityTimelineCount(entityType, entityId);
@@ -31,6 +39,10 @@ export async function GET(request: NextRequest) {
         totalPages: Math.ceil(total / limit)
       });
     } else if (userId) {
+      if (userId !== currentUser.id && !currentUser.permissions.canViewTimeline) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
       // Get timeline for specific user
       const activities = await getUserTimeline(userId, limit, page);
       const total = await getUserTimelineCount(userId);
@@ -41,6 +53,8 @@ export async function GET(request: NextRequest) {
         limit,
         totalPages: Math.ceil(total / limit)
       });
+    } else if (!currentUser.permissions.canViewTimeline) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     } else if (entityType) {
       // Get timeline for entity type
       const activities = await getTimelineByEntityType(entityType, limit, page);
@@ -68,4 +82,4 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching timeline:', error);
     return NextResponse.json({ error: 'Failed to fetch timeline' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { uploadFile, validatePolicyFile } from '@/lib/fileUpload';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function POST(request: NextRequest) {
+// Files are written under public/, so the target folder must come from this list
+const UPLOAD_FOLDERS = ['uploads', 'policies', 'documents'];
+
+// POST /api/upload - Store an uploaded policy or document file
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -11,6 +16,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
+    if (!UPLOAD_FOLDERS.includes(folder)) {
+      return NextResponse.json({ error: 'Invalid upload folder' }, { status: 400 });
+    }
+
     // Validate file
     const validation = validatePolicyFile(file);
     if (!validation.valid) {
@@ -28,4 +37,4 @@ export async function POST(request: NextRequest) {
     console.error('File upload error:', error);
     return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { anyOf: ['canAddPolicy', 'canAddDocument'] });
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { amendWorkflow, getWorkflowChangeErrorStatus } from '@/lib/workflowChangeService';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/workflows/[id]/amend - Change the data of a pending request (requester only)
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const { changes, reason } = await request.json();
+
+    const result = await amendWorkflow(id, currentUser, { changes, reason });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowChangeErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ workflow: result.workflow, approvalRestarted: result.approvalRestarted });
+  } catch (error) {
+    console.error('Error amending workflow:', error);
+    return NextResponse.json({ error: 'Failed to amend workflow' }, { status: 500 });
+  }
+});
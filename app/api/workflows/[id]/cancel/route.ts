@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelWorkflow, getWorkflowChangeErrorStatus } from '@/lib/workflowChangeService';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/workflows/[id]/cancel - Withdraw a pending request (requester only)
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    const { reason } = await request.json().catch(() => ({}));
+
+    const result = await cancelWorkflow(id, currentUser, reason);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowChangeErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json(result.workflow);
+  } catch (error) {
+    console.error('Error cancelling workflow:', error);
+    return NextResponse.json({ error: 'Failed to cancel workflow' }, { status: 500 });
+  }
+});
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFulfilmentErrorStatus, retryFulfilment } from '@/lib/fulfilmentService';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/workflows/[id]/fulfil - Retry the fulfilment of an approved workflow
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const result = await retryFulfilment(id, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, status: result.status, attempts: result.attempts },
+        { status: getFulfilmentErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error retrying workflow fulfilment:', error);
+    return NextResponse.json({ error: 'Failed to retry workflow fulfilment' }, { status: 500 });
+  }
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getThreadErrorStatus, getWorkflowThread, postWorkflowMessage } from '@/lib/workflowThreadService';
+import { withAuth } from '@/lib/routeAuth';
+
+// GET /api/workflows/[id]/messages - The workflow's discussion thread, oldest first
+export const GET = withAuth<{ id: string }>(async (_request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const result = await getWorkflowThread(id, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getThreadErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ messages: result.messages, status: result.status });
+  } catch (error) {
+    console.error('Error fetching workflow messages:', error);
+    return NextResponse.json({ error: 'Failed to fetch workflow messages' }, { status: 500 });
+  }
+});
+
+// POST /api/workflows/[id]/messages - Post a message (multipart with "files" for attachments, or JSON)
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+    let body: string | null;
+    let requestInfo: boolean;
+    let files: File[] = [];
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      body = formData.get('body') as string | null;
+      requestInfo = formData.get('requestInfo') === 'true';
+      files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string' && entry.size > 0);
+    } else {
+      const json = await request.json();
+      body = json.body;
+      requestInfo = json.requestInfo === true;
+    }
+
+    const result = await postWorkflowMessage(id, currentUser, { body, requestInfo, files });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getThreadErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ message: result.message, status: result.status }, { status: 201 });
+  } catch (error) {
+    console.error('Error posting workflow message:', error);
+    return NextResponse.json({ error: 'Failed to post workflow message' }, { status: 500 });
+  }
+});
@@ -1,55 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { logAudit } from '@/lib/audit';
+import { decideWorkflowStage, getDecisionErrorStatus } from '@/lib/workflowService';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+// POST /api/workflows/[id]/reject - Reject the current stage as the signed-in approver
+export const POST = withAuth<{ id: string }>(async (request: NextRequest, { params, currentUser }) => {
   try {
     const { id } = await params;
     const body = await request.json();
-    const { approverId, comments } = body;
+    const { comments } = body;
 
-    const workflow = await prisma.approvalWorkflow.update({
-      where: { id },
-      data: {
-        status: 'REJECTED',
-        approverId,
-        comments,
-        updatedAt: new Date()
-      },
-      include: {
-        requester: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        approver: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
-    });
+    const result = await decideWorkflowStage(id, currentUser.id, 'REJECTED', comments);
 
-    // Log audit trail
-    await logAudit({
-      entityType: 'APPROVAL_WORKFLOW',
-      entityId: workflow.id,
-      changedById: approverId,
-      fieldChanged: 'status',
-      oldValue: 'PENDING',
-      newValue: 'REJECTED'
-    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getDecisionErrorStatus(result.errorCode) });
+    }
 
-    return NextResponse.json(workflow);
+    return NextResponse.json(result.workflow);
   } catch (error) {
     console.error('Error rejecting workflow:', error);
     return NextResponse.json({ error: 'Failed to reject workflow' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
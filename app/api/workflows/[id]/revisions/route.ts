@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkflowChangeErrorStatus, listWorkflowRevisions } from '@/lib/workflowChangeService';
+import { withAuth } from '@/lib/routeAuth';
+
+// GET /api/workflows/[id]/revisions - Earlier versions of the workflow's data, newest first
+export const GET = withAuth<{ id: string }>(async (_request: NextRequest, { params, currentUser }) => {
+  try {
+    const { id } = await params;
+
+    const result = await listWorkflowRevisions(id, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowChangeErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json(result.revisions);
+  } catch (error) {
+    console.error('Error fetching workflow revisions:', error);
+    return NextResponse.json({ error: 'Failed to fetch workflow revisions' }, { status: 500 });
+  }
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalyticsInterval, getAnalyticsErrorStatus, getWorkflowAnalytics } from '@/lib/workflowAnalyticsService';
+import { withAuth } from '@/lib/routeAuth';
+
+const INTERVALS: AnalyticsInterval[] = ['day', 'week', 'month'];
+
+// GET /api/workflows/analytics - Cycle times, rejection rates and bottlenecks for a date range
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const interval = searchParams.get('interval');
+
+    if (interval && !INTERVALS.includes(interval as AnalyticsInterval)) {
+      return NextResponse.json({ error: `interval must be one of ${INTERVALS.join(', ')}` }, { status: 400 });
+    }
+
+    const result = await getWorkflowAnalytics({
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      type: searchParams.get('type') || undefined,
+      department: searchParams.get('department') || undefined,
+      interval: (interval as AnalyticsInterval) || undefined
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getAnalyticsErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json(result.analytics);
+  } catch (error) {
+    console.error('Error fetching workflow analytics:', error);
+    return NextResponse.json({ error: 'Failed to fetch workflow analytics' }, { status: 500 });
+  }
+}, 'canViewAllApprovals');
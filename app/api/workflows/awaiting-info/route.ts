@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkflowsAwaitingRequester } from '@/lib/workflowService';
+import { withAuth } from '@/lib/routeAuth';
+
+// GET /api/workflows/awaiting-info - The signed-in user's requests that need more information from them
+export const GET = withAuth(async (_request: NextRequest, { currentUser }) => {
+  try {
+    const workflows = await getWorkflowsAwaitingRequester(currentUser.id);
+
+    return NextResponse.json(workflows);
+  } catch (error) {
+    console.error('Error fetching workflows awaiting information:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workflows awaiting information' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BULK_DECISION_LIMIT, decideWorkflowsInBulk } from '@/lib/workflowService';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/workflows/bulk-decision - Approve or reject many workflows as the signed-in approver.
+// Body: { workflowIds, action: 'approve' | 'reject', comments? }. Each workflow is decided on its own
+// and the response reports the outcome of every item. No permission is declared: like a single decision,
+// each item is checked against the stage's approvers, so a delegate without an approval permission of
+// their own can decide what was delegated to them.
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const body = await request.json();
+    const { workflowIds, action, comments } = body;
+
+    if (!['approve', 'reject'].includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    if (!Array.isArray(workflowIds) || workflowIds.length === 0 || !workflowIds.every(id => typeof id === 'string' && id)) {
+      return NextResponse.json({ error: 'workflowIds must be a non-empty list of workflow IDs' }, { status: 400 });
+    }
+
+    if (workflowIds.length > BULK_DECISION_LIMIT) {
+      return NextResponse.json({ error: `At most ${BULK_DECISION_LIMIT} workflows can be decided at once` }, { status: 400 });
+    }
+
+    if (comments !== undefined && typeof comments !== 'string') {
+      return NextResponse.json({ error: 'comments must be a string' }, { status: 400 });
+    }
+
+    const result = await decideWorkflowsInBulk(
+      workflowIds,
+      { id: currentUser.id, name: currentUser.name },
+      action === 'approve' ? 'APPROVED' : 'REJECTED',
+      comments
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error deciding workflows in bulk:', error);
+    return NextResponse.json({ error: 'Failed to decide workflows' }, { status: 500 });
+  }
+});
@@ -1,54 +1,119 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  createITEquipmentRequest, 
-  createSoftwareLicenseRequest, 
-  createExpenseApprovalRequest, 
-  createHiringRequest 
+import {
+  createITEquipmentRequest,
+  createSoftwareLicenseRequest,
+  createExpenseApprovalRequest,
+  createHiringRequest,
+  createTemplatedRequest
 } from '@/lib/workflowService';
+import { getWorkflowTemplate, validateTemplateSubmission } from '@/lib/workflowTemplateService';
+import { validateWorkflowAttachment } from '@/lib/fileUpload';
+import { withAuth } from '@/lib/routeAuth';
+import { NO_APPROVER_ERROR } from '@/lib/roleAuth';
 
-export async function POST(request: NextRequest) {
+// POST /api/workflows/create - Raise an operational request as the signed-in user.
+// Multipart submissions carry "type", "data" (JSON) and one "attachment:<key>" file per required attachment.
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
-    const body = await request.json();
-    const { type, requesterId, data } = body;
+    let type: string;
+    let data: Record<string, unknown>;
+    const attachments: { key: string; file: File }[] = [];
 
-    if (!type || !requesterId || !data) {
-      return NextResponse.json({ 
-        error: 'Missing required fields: type, requesterId, data' 
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      type = formData.get('type') as string;
+      try {
+        data = JSON.parse((formData.get('data') as string | null) || 'null');
+      } catch {
+        return NextResponse.json({ error: 'data must be valid JSON' }, { status: 400 });
+      }
+      for (const [name, entry] of formData.entries()) {
+        if (name.startsWith('attachment:') && typeof entry !== 'string' && entry.size > 0) {
+          attachments.push({ key: name.slice('attachment:'.length), file: entry });
+        }
+      }
+    } else {
+      const body = await request.json();
+      type = body.type;
+      data = body.data;
+    }
+
+    const requesterId = currentUser.id;
+
+    if (!type || !data) {
+      return NextResponse.json({
+        error: 'Missing required fields: type, data'
       }, { status: 400 });
     }
 
+    // Types with an active template are validated against it; the rest use their bespoke creator
+    const template = await getWorkflowTemplate(type);
+
+    if (template) {
+      for (const { file } of attachments) {
+        const validation = validateWorkflowAttachment(file);
+        if (!validation.valid) {
+          return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+      }
+
+      const { values, fieldErrors } = validateTemplateSubmission(template, data, attachments.map(attachment => attachment.key));
+
+      if (Object.keys(fieldErrors).length > 0) {
+        return NextResponse.json({
+          error: Object.values(fieldErrors).join('; '),
+          fieldErrors
+        }, { status: 400 });
+      }
+
+      const knownKeys = template.requiredAttachments.map(attachment => attachment.key);
+      const workflow = await createTemplatedRequest(
+        template,
+        values,
+        attachments.filter(attachment => knownKeys.includes(attachment.key)),
+        requesterId
+      );
+
+      return NextResponse.json(workflow, { status: 201 });
+    }
+
     let workflow;
 
     switch (type) {
       case 'IT_EQUIPMENT_REQUEST':
         workflow = await createITEquipmentRequest(data, requesterId);
         break;
-      
+
       case 'SOFTWARE_LICENSE_REQUEST':
         workflow = await createSoftwareLicenseRequest(data, requesterId);
         break;
-      
+
       case 'EXPENSE_APPROVAL_REQUEST':
         workflow = await createExpenseApprovalRequest(data, requesterId);
         break;
-      
+
       case 'HIRING_REQUEST':
         workflow = await createHiringRequest(data, requesterId);
         break;
-      
+
       default:
-        return NextResponse.json({ 
-          error: `Unsupported workflow type: ${type}` 
+        return NextResponse.json({
+          error: `Unsupported workflow type: ${type}`
         }, { status: 400 });
     }
 
     return NextResponse.json(workflow, { status: 201 });
 
   } catch (error) {
+    // A level of the approval chain nobody can take: the requester has to hear why
+    if (error instanceof Error && error.message.startsWith(NO_APPROVER_ERROR)) {
+      return NextResponse.json({ error: error.message, errorCode: 'NO_APPROVER' }, { status: 422 });
+    }
+
     console.error('Error creating operational workflow:', error);
     return NextResponse.json(
       { error: 'Failed to create operational workflow' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'canRequestAccess');
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decideWorkflowStage, getDecisionErrorStatus } from '@/lib/workflowService';
+import {
+  claimDecisionLink,
+  getDecisionLinkErrorStatus,
+  previewDecisionLink,
+  releaseDecisionLink
+} from '@/lib/emailApprovalService';
+
+// GET /api/workflows/email-decision?token= - Show what an emailed link would decide, without using it.
+// Mail scanners open links, so nothing is decided until the approver confirms with a POST.
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const result = await previewDecisionLink(token);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: getDecisionLinkErrorStatus(result.errorCode) }
+      );
+    }
+
+    return NextResponse.json(result.preview);
+  } catch (error) {
+    console.error('Error checking email decision link:', error);
+    return NextResponse.json({ error: 'Failed to check decision link' }, { status: 500 });
+  }
+}
+
+// POST /api/workflows/email-decision - Apply the decision of an emailed link as its approver
+export async function POST(request: NextRequest) {
+  try {
+    const { token, comments } = await request.json();
+
+    if (!token) {
+      return NextResponse.json({ error: 'Decision token is required' }, { status: 400 });
+    }
+
+    const link = await claimDecisionLink(token);
+
+    if (!link.success || !link.actionId || !link.workflowId || !link.approverId || !link.decision) {
+      return NextResponse.json(
+        { error: link.error, errorCode: link.errorCode },
+        { status: getDecisionLinkErrorStatus(link.errorCode) }
+      );
+    }
+
+    const trimmed = typeof comments === 'string' ? comments.trim() : '';
+    const result = await decideWorkflowStage(
+      link.workflowId,
+      link.approverId,
+      link.decision,
+      trimmed || `${link.decision === 'APPROVED' ? 'Approved' : 'Rejected'} from email link`
+    );
+
+    if (!result.success) {
+      // An unexpected failure leaves the link usable so the approver can try again
+      if (result.errorCode === 'WORKFLOW_DECISION_FAILED') {
+        await releaseDecisionLink(link.actionId);
+      }
+      return NextResponse.json({ error: result.error }, { status: getDecisionErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({
+      decision: link.decision,
+      completed: result.completed,
+      status: result.workflow?.status,
+      warning: result.warning
+    });
+  } catch (error) {
+    console.error('Error applying email decision:', error);
+    return NextResponse.json({ error: 'Failed to apply decision' }, { status: 500 });
+  }
+}
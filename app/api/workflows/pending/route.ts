@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPendingOperationalWorkflows } from '@/lib/workflowService';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+// GET /api/workflows/pending - Workflows awaiting the signed-in user's decision
+export const GET = withAuth(async (_request: NextRequest, { currentUser }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const approverId = searchParams.get('approverId');
-
-    if (!approverId) {
-      return NextResponse.json({ error: 'Approver ID is required' }, { status: 400 });
-    }
-    
-    const workflows = await getPendingOperationalWorkflows(approverId);
+    const workflows = await getPendingOperationalWorkflows(currentUser.id);
     
     return NextResponse.json(workflows);
 
@@ -21,4 +16,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { logAudit } from '@/lib/audit';
+import { withAuth } from '@/lib/routeAuth';
+import { buildSlaClock } from '@/lib/approvalSlaService';
 
-export async function GET() {
+// GET /api/workflows - All workflows (approval administrators only)
+export const GET = withAuth(async () => {
   try {
     const workflows = await prisma.approvalWorkflow.findMany({
       include: {
@@ -54,18 +57,23 @@ export async function GET() {
     console.error('Error fetching workflows:', error);
     return NextResponse.json({ error: 'Failed to fetch workflows' }, { status: 500 });
   }
-}
+}, 'canViewAllApprovals');
 
-export async function POST(request: NextRequest) {
+// POST /api/workflows - Create a workflow requested by the signed-in user.
+// The workflow skips approver routing, so only approval administrators may create one this way;
+// employees raise requests through /api/workflows/create.
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
   try {
     const body = await request.json();
-    const { type, requesterId, data, policyId, documentId, resourceId } = body;
+    const { type, data, policyId, documentId, resourceId } = body;
+    const requesterId = currentUser.id;
 
     const workflow = await prisma.approvalWorkflow.create({
       data: {
         type,
         requesterId,
         status: 'PENDING',
+        ...buildSlaClock(type, data?.priority),
         data,
         policyId,
         documentId,
@@ -98,4 +106,4 @@ export async function POST(request: NextRequest) {
     console.error('Error creating workflow:', error);
     return NextResponse.json({ error: 'Failed to create workflow' }, { status: 500 });
   }
-}
\ No newline at end of file
+}, 'canApproveWorkflows');
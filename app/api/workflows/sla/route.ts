@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSlaSweep } from '@/lib/approvalSlaService';
+import { reconcileDelegatedApprovals } from '@/lib/delegationService';
+import { withAuth } from '@/lib/routeAuth';
+
+// POST /api/workflows/sla - Run delegation routing and the SLA sweep now (used by the standalone worker)
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const rerouted = await reconcileDelegatedApprovals({ performedBy: currentUser.id });
+    const result = await runSlaSweep({
+      baseUrl: process.env.APP_URL || request.nextUrl.origin,
+      triggeredBy: currentUser.id
+    });
+
+    return NextResponse.json({ ...result, rerouted });
+  } catch (error) {
+    console.error('Error running approval SLA sweep:', error);
+    return NextResponse.json({ error: 'Failed to run approval SLA sweep' }, { status: 500 });
+  }
+}, 'canApproveWorkflows');
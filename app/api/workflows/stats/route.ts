@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getOperationalWorkflowStats } from '@/lib/workflowService';
+import { withAuth } from '@/lib/routeAuth';
 
-export async function GET(request: NextRequest) {
+// GET /api/workflows/stats - Approval statistics for the signed-in user
+export const GET = withAuth(async (_request: NextRequest, { currentUser }) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
-    
-    const stats = await getOperationalWorkflowStats(userId);
+    const stats = await getOperationalWorkflowStats(currentUser.id);
     
     return NextResponse.json(stats);
 
@@ -21,4 +16,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
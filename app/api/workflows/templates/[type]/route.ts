@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  deleteWorkflowTemplate,
+  getWorkflowTemplate,
+  getWorkflowTemplateErrorStatus,
+  updateWorkflowTemplate
+} from '@/lib/workflowTemplateService';
+
+// GET /api/workflows/templates/[type] - The request template for a workflow type
+export const GET = withAuth<{ type: string }>(async (_request: NextRequest, { params, currentUser }) => {
+  try {
+    const { type } = await params;
+    const template = await getWorkflowTemplate(type, currentUser.permissions.canManageWorkflowTemplates);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Workflow template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Error fetching workflow template:', error);
+    return NextResponse.json({ error: 'Failed to fetch workflow template' }, { status: 500 });
+  }
+});
+
+// PUT /api/workflows/templates/[type] - Update a template's form, attachments, routing or priority
+export const PUT = withAuth<{ type: string }>(async (request: NextRequest, { params, currentUser }) => {
+  try {
+    const { type } = await params;
+    const body = await request.json();
+    const result = await updateWorkflowTemplate(type, body, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowTemplateErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ template: result.template });
+  } catch (error) {
+    console.error('Error updating workflow template:', error);
+    return NextResponse.json({ error: 'Failed to update workflow template' }, { status: 500 });
+  }
+}, 'canManageWorkflowTemplates');
+
+// DELETE /api/workflows/templates/[type] - Remove a template
+export const DELETE = withAuth<{ type: string }>(async (_request: NextRequest, { params, currentUser }) => {
+  try {
+    const { type } = await params;
+    const result = await deleteWorkflowTemplate(type, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowTemplateErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting workflow template:', error);
+    return NextResponse.json({ error: 'Failed to delete workflow template' }, { status: 500 });
+  }
+}, 'canManageWorkflowTemplates');
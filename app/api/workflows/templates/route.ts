@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkflowType } from '@prisma/client';
+import { withAuth } from '@/lib/routeAuth';
+import {
+  createWorkflowTemplate,
+  getWorkflowTemplateErrorStatus,
+  listWorkflowTemplates,
+  WORKFLOW_PRIORITIES
+} from '@/lib/workflowTemplateService';
+
+// GET /api/workflows/templates - Active request templates; ?all=true includes inactive ones for template managers
+export const GET = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const includeInactive = request.nextUrl.searchParams.get('all') === 'true' &&
+      currentUser.permissions.canManageWorkflowTemplates;
+
+    const templates = await listWorkflowTemplates(includeInactive);
+
+    return NextResponse.json({
+      templates,
+      priorities: WORKFLOW_PRIORITIES,
+      workflowTypes: Object.values(WorkflowType)
+    });
+  } catch (error) {
+    console.error('Error fetching workflow templates:', error);
+    return NextResponse.json({ error: 'Failed to fetch workflow templates' }, { status: 500 });
+  }
+});
+
+// POST /api/workflows/templates - Define the request template for a workflow type
+export const POST = withAuth(async (request: NextRequest, { currentUser }) => {
+  try {
+    const body = await request.json();
+    const result = await createWorkflowTemplate(body, currentUser);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: getWorkflowTemplateErrorStatus(result.errorCode) });
+    }
+
+    return NextResponse.json({ template: result.template }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating workflow template:', error);
+    return NextResponse.json({ error: 'Failed to create workflow template' }, { status: 500 });
+  }
+}, 'canManageWorkflowTemplates');
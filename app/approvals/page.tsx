@@ -1,13 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Check, X, Trash2 } from 'lucide-react';
+import { Fragment, useState, useEffect } from 'react';
+import { Check, X, Trash2, MessageSquare, Pencil, Ban, ListChecks, BarChart3 } from 'lucide-react';
 import ApprovalWorkflowForm from '@/components/ApprovalWorkflowForm';
 import Pagination from '@/components/Pagination';
+import SlaBadge from '@/components/SlaBadge';
+import WorkflowThread from '@/components/WorkflowThread';
+import AmendWorkflowModal from '@/components/AmendWorkflowModal';
+import BulkApprovalPanel from '@/components/BulkApprovalPanel';
+import WorkflowAnalyticsPanel from '@/components/WorkflowAnalyticsPanel';
+import FulfilmentBadge, { FulfilmentStatus } from '@/components/FulfilmentBadge';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useAuth } from '@/contexts/AuthContext';
+import { APPROVAL_PERMISSIONS, getUserPermissions } from '@/lib/permissions';
 import { useNotification } from '@/components/Notification';
 import { ApprovalStatus, WorkflowType } from '@/types';
+import type { ApprovalSlaSummary } from '@/lib/approvalSlaService';
 
 interface ApprovalWorkflow {
   id: string;
@@ -44,6 +52,32 @@ interface ApprovalWorkflow {
     name: string;
     type: string;
   };
+  currentStage?: number;
+  stages?: {
+    id: string;
+    stageNumber: number;
+    approverRole?: string;
+    decision: ApprovalStatus;
+    decidedAt?: string;
+    comments?: string;
+    completionRule?: 'ALL' | 'ANY' | 'QUORUM';
+    requiredApprovals?: number;
+    approver: {
+      id: string;
+      name: string;
+      role: string;
+    };
+  }[];
+  sla?: ApprovalSlaSummary | null;
+  delegatedFrom?: {
+    id: string;
+    name: string;
+  } | null;
+  fulfilmentStatus?: FulfilmentStatus | null;
+  fulfilmentError?: string | null;
+  fulfilmentAttempts?: number;
+  fulfilledAt?: string | null;
+  version?: number;
 }
 
 interface PaginationData {
@@ -55,6 +89,67 @@ interface PaginationData {
   hasPreviousPage: boolean;
 }
 
+type WorkflowStage = NonNullable<ApprovalWorkflow['stages']>[number];
+
+// "All must approve", "Any 1 of 3", "2 of 3 must approve"
+function describeGroupRule(group: WorkflowStage[]): string {
+  switch (group[0].completionRule) {
+    case 'ANY':
+      return `Any 1 of ${group.length}`;
+    case 'QUORUM':
+      return `${group[0].requiredApprovals} of ${group.length} must approve`;
+    default:
+      return 'All must approve';
+  }
+}
+
+// Approval stages with each approver's decision; members of a parallel stage are listed under it
+function StageList({ stages, currentStage, pending }: { stages: WorkflowStage[]; currentStage?: number; pending: boolean }) {
+  const groups: WorkflowStage[][] = [];
+  stages.forEach(stage => {
+    const group = groups.find(g => g[0].stageNumber === stage.stageNumber);
+    if (group) {
+      group.push(stage);
+    } else {
+      groups.push([stage]);
+    }
+  });
+
+  const renderDecision = (stage: WorkflowStage) => (
+    <>
+      {stage.approver.name}
+      {stage.approverRole ? ` (${stage.approverRole.replace(/_/g, ' ')})` : ''}
+      {' - '}
+      {stage.decision}
+      {stage.decidedAt ? ` ${new Date(stage.decidedAt).toLocaleDateString()}` : ''}
+    </>
+  );
+
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      {groups.length > 1 && (pending ? `Stage ${currentStage} of ${groups.length}` : `${groups.length} stages`)}
+      <div className="mt-1 space-y-0.5">
+        {groups.map(group => group.length === 1 ? (
+          <div key={group[0].id} title={group[0].comments || undefined}>
+            {group[0].stageNumber}. {renderDecision(group[0])}
+          </div>
+        ) : (
+          <div key={group[0].id}>
+            {group[0].stageNumber}. {describeGroupRule(group)} ({group.filter(stage => stage.decision === ApprovalStatus.APPROVED).length} approved)
+            <div className="ml-3">
+              {group.map(stage => (
+                <div key={stage.id} title={stage.comments || undefined}>
+                  {renderDecision(stage)}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export default function ApprovalsPage() {
   const { user } = useAuth();
   const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([]);
@@ -69,10 +164,29 @@ export default function ApprovalsPage() {
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(true);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [amendingWorkflow, setAmendingWorkflow] = useState<ApprovalWorkflow | null>(null);
+  const [cancelConfirm, setCancelConfirm] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [showBulkPanel, setShowBulkPanel] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [hasDelegatedDecisions, setHasDelegatedDecisions] = useState(false);
   const { showNotification, NotificationComponent } = useNotification();
 
-  // Check if user has approval authority
-  const hasApprovalAuthority = user && ['CEO', 'CTO', 'HR', 'MANAGER'].includes(user.role);
+  const canViewAnalytics = !!user && (user.permissions ?? getUserPermissions(user.role)).canViewAllApprovals;
+  const holdsApprovalPermission = !!user && APPROVAL_PERMISSIONS.some(key => (user.permissions ?? getUserPermissions(user.role))[key]);
+  const canBulkDecide = holdsApprovalPermission || hasDelegatedDecisions;
+
+  // Delegates decide on someone else's behalf without an approval permission of their own
+  useEffect(() => {
+    if (!user || holdsApprovalPermission) {
+      return;
+    }
+    fetch('/api/workflows/pending')
+      .then(response => (response.ok ? response.json() : []))
+      .then((pending: unknown[]) => setHasDelegatedDecisions(pending.length > 0))
+      .catch(() => setHasDelegatedDecisions(false));
+  }, [user, holdsApprovalPermission]);
 
   useEffect(() => {
     fetchWorkflows();
@@ -123,7 +237,7 @@ export default function ApprovalsPage() {
 
   const handleDeleteWorkflow = async (id: string) => {
     try {
-      const response = await fetch(`/api/approvals?id=${id}&deletedBy=system`, {
+      const response = await fetch(`/api/approvals?id=${id}`, {
         method: 'DELETE',
       });
 
@@ -163,14 +277,18 @@ export default function ApprovalsPage() {
         },
         body: JSON.stringify({
           action: 'approve',
-          approverId: null, // Let the API use system user
           comments: 'Approved via web interface'
         }),
       });
 
       if (response.ok) {
+        const data = await response.json();
         fetchWorkflows(); // Refresh the list
-        showNotification('success', 'Workflow Approved', 'The approval workflow has been successfully approved');
+        if (data.fulfilment?.status === 'FAILED') {
+          showNotification('warning', 'Approved, Fulfilment Failed', `${data.fulfilment.error || 'The request could not be fulfilled'}. You can retry from the list.`);
+        } else {
+          showNotification('success', 'Workflow Approved', data.fulfilment?.summary || 'The approval workflow has been successfully approved');
+        }
       } else {
         const errorData = await response.json();
         showNotification('error', 'Approval Failed', errorData.error || 'Failed to approve workflow');
@@ -181,6 +299,26 @@ export default function ApprovalsPage() {
     }
   };
 
+  const handleRetryFulfilment = async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/fulfil`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      fetchWorkflows(); // Refresh the list
+
+      if (response.ok) {
+        showNotification('success', 'Request Fulfilled', data.summary || 'The approved request has been fulfilled');
+      } else {
+        showNotification('error', 'Fulfilment Failed', data.error || 'Failed to fulfil the approved request');
+      }
+    } catch (error) {
+      console.error('Error retrying fulfilment:', error);
+      showNotification('error', 'Network Error', 'Unable to retry fulfilment. Please check your connection and try again.');
+    }
+  };
+
   const handleReject = async (workflowId: string) => {
     try {
       const response = await fetch(`/api/approvals/${workflowId}`, {
@@ -190,7 +328,6 @@ export default function ApprovalsPage() {
         },
         body: JSON.stringify({
           action: 'reject',
-          approverId: null, // Let the API use system user
           comments: 'Rejected via web interface'
         }),
       });
@@ -208,10 +345,59 @@ export default function ApprovalsPage() {
     }
   };
 
+  const handleCancelWorkflow = async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: cancelReason }),
+      });
+
+      if (response.ok) {
+        fetchWorkflows(); // Refresh the list
+        setCancelConfirm(null);
+        setCancelReason('');
+        showNotification('success', 'Request Cancelled', 'Your request has been withdrawn and the approver notified');
+      } else {
+        const errorData = await response.json();
+        showNotification('error', 'Cancellation Failed', errorData.error || 'Failed to cancel request');
+      }
+    } catch (error) {
+      console.error('Error cancelling workflow:', error);
+      showNotification('error', 'Network Error', 'Unable to cancel request. Please check your connection and try again.');
+    }
+  };
+
+  const handleAmended = (approvalRestarted: boolean) => {
+    setAmendingWorkflow(null);
+    fetchWorkflows(); // Refresh the list
+    showNotification(
+      'success',
+      'Request Amended',
+      approvalRestarted
+        ? 'The new amount needs a different approval chain, so approval has restarted'
+        : 'The approver has been told about your changes'
+    );
+  };
+
+  const handleBulkDecided = ({ action, succeeded, failed }: { action: 'approve' | 'reject'; succeeded: number; failed: number }) => {
+    fetchWorkflows(); // Refresh the list
+    const verb = action === 'approve' ? 'approved' : 'rejected';
+    if (failed === 0) {
+      showNotification('success', 'Requests Decided', `${succeeded} request${succeeded === 1 ? '' : 's'} ${verb}`);
+    } else {
+      showNotification('warning', 'Some Requests Failed', `${succeeded} ${verb}, ${failed} could not be decided. See the results above the list.`);
+    }
+  };
+
   const getStatusColor = (status: ApprovalStatus) => {
     switch (status) {
       case ApprovalStatus.PENDING:
         return 'bg-yellow-100 text-yellow-800';
+      case ApprovalStatus.NEEDS_INFO:
+        return 'bg-orange-100 text-orange-800';
       case ApprovalStatus.APPROVED:
         return 'bg-green-100 text-green-800';
       case ApprovalStatus.REJECTED:
@@ -225,7 +411,7 @@ export default function ApprovalsPage() {
 
   if (loading) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER']}>
+      <ProtectedRoute requiresPermission="/approvals">
         <div className="min-h-screen flex items-center justify-center">
           <div className="flex flex-col items-center space-y-4">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -237,7 +423,7 @@ export default function ApprovalsPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER']}>
+    <ProtectedRoute requiresPermission="/approvals">
       <div className="min-h-screen bg-gray-50">
         {NotificationComponent}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
@@ -248,7 +434,27 @@ export default function ApprovalsPage() {
               Manage approval processes for policies, documents, assets, and access requests.
             </p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-2">
+            {canViewAnalytics && (
+              <button
+                type="button"
+                onClick={() => setShowAnalytics(!showAnalytics)}
+                className={`inline-flex items-center justify-center rounded-lg border px-4 py-2 text-sm font-medium shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors sm:w-auto ${showAnalytics ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Analytics
+              </button>
+            )}
+            {canBulkDecide && (
+              <button
+                type="button"
+                onClick={() => setShowBulkPanel(!showBulkPanel)}
+                className={`inline-flex items-center justify-center rounded-lg border px-4 py-2 text-sm font-medium shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors sm:w-auto ${showBulkPanel ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                Bulk Decide
+              </button>
+            )}
             <button
               type="button"
               onClick={() => setShowForm(true)}
@@ -262,6 +468,10 @@ export default function ApprovalsPage() {
           </div>
         </div>
 
+        {showAnalytics && <WorkflowAnalyticsPanel />}
+
+        {showBulkPanel && <BulkApprovalPanel onDecided={handleBulkDecided} />}
+
         <div className="mt-8 bg-white shadow-sm rounded-lg overflow-hidden">
           <table className="min-w-full">
             <thead className="bg-gray-50">
@@ -288,7 +498,8 @@ export default function ApprovalsPage() {
             </thead>
             <tbody className="bg-white">
               {workflows.map((workflow, index) => (
-                <tr key={workflow.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                <Fragment key={workflow.id}>
+                <tr className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div className="flex-shrink-0">
@@ -357,6 +568,37 @@ export default function ApprovalsPage() {
                       )}
                       {workflow.status}
                     </span>
+                    {workflow.version && workflow.version > 1 && (
+                      <div className="mt-1 text-xs text-gray-500">v{workflow.version} · amended</div>
+                    )}
+                    {workflow.sla && (
+                      <div className="mt-1">
+                        <SlaBadge sla={workflow.sla} />
+                      </div>
+                    )}
+                    {workflow.fulfilmentStatus && (
+                      <div className="mt-1">
+                        <FulfilmentBadge
+                          status={workflow.fulfilmentStatus}
+                          error={workflow.fulfilmentError}
+                          attempts={workflow.fulfilmentAttempts}
+                          fulfilledAt={workflow.fulfilledAt}
+                          onRetry={() => handleRetryFulfilment(workflow.id)}
+                        />
+                      </div>
+                    )}
+                    {workflow.delegatedFrom && workflow.approver && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {workflow.status === ApprovalStatus.PENDING ? 'With' : 'Decided by'} {workflow.approver.name} on behalf of {workflow.delegatedFrom.name}
+                      </div>
+                    )}
+                    {workflow.stages && workflow.stages.length > 1 && (
+                      <StageList
+                        stages={workflow.stages}
+                        currentStage={workflow.currentStage}
+                        pending={workflow.status === ApprovalStatus.PENDING}
+                      />
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     <div className="flex items-center">
@@ -368,7 +610,7 @@ export default function ApprovalsPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex items-center space-x-2">
-                      {workflow.status === ApprovalStatus.PENDING && (
+                      {(workflow.status === ApprovalStatus.PENDING || workflow.status === ApprovalStatus.NEEDS_INFO) && (
                         <>
                           {/* Approve Workflow */}
                           <div className="relative group">
@@ -398,6 +640,49 @@ export default function ApprovalsPage() {
                         </>
                       )}
 
+                      {workflow.requester.id === user?.id && (workflow.status === ApprovalStatus.PENDING || workflow.status === ApprovalStatus.NEEDS_INFO) && (
+                        <>
+                          {/* Amend Request */}
+                          <div className="relative group">
+                            <button
+                              onClick={() => setAmendingWorkflow(workflow)}
+                              className="inline-flex items-center justify-center w-8 h-8 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded-full transition-colors"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-900 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                              Amend Request
+                            </div>
+                          </div>
+
+                          {/* Cancel Request */}
+                          <div className="relative group">
+                            <button
+                              onClick={() => setCancelConfirm(workflow.id)}
+                              className="inline-flex items-center justify-center w-8 h-8 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                            >
+                              <Ban size={16} />
+                            </button>
+                            <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-900 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                              Cancel Request
+                            </div>
+                          </div>
+                        </>
+                      )}
+
+                      {/* Discussion */}
+                      <div className="relative group">
+                        <button
+                          onClick={() => setOpenThreadId(openThreadId === workflow.id ? null : workflow.id)}
+                          className={`inline-flex items-center justify-center w-8 h-8 rounded-full transition-colors ${workflow.status === ApprovalStatus.NEEDS_INFO ? 'text-orange-600 hover:text-orange-900 hover:bg-orange-50' : 'text-blue-600 hover:text-blue-900 hover:bg-blue-50'}`}
+                        >
+                          <MessageSquare size={16} />
+                        </button>
+                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-900 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                          {openThreadId === workflow.id ? 'Hide Discussion' : 'Discussion'}
+                        </div>
+                      </div>
+
                       {/* Delete Workflow */}
                       <div className="relative group">
                         <button
@@ -413,6 +698,19 @@ export default function ApprovalsPage() {
                     </div>
                   </td>
                 </tr>
+                {openThreadId === workflow.id && (
+                  <tr className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                    <td colSpan={6} className="px-6 pb-6">
+                      <WorkflowThread
+                        workflowId={workflow.id}
+                        isRequester={workflow.requester.id === user?.id}
+                        canRequestInfo={workflow.approver?.id === user?.id || workflow.delegatedFrom?.id === user?.id}
+                        onStatusChange={() => fetchWorkflows()}
+                      />
+                    </td>
+                  </tr>
+                )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -487,6 +785,51 @@ export default function ApprovalsPage() {
         </div>
       )}
 
+      {/* Cancel Request Confirmation Modal */}
+      {cancelConfirm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <h3 className="text-lg font-medium text-gray-900">Cancel Request</h3>
+              <div className="mt-2 px-7 py-3">
+                <p className="text-sm text-gray-500">
+                  Withdraw this request? The approver will be told it no longer needs a decision.
+                </p>
+                <input
+                  type="text"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  className="mt-3 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-center space-x-4 mt-4">
+                <button
+                  onClick={() => { setCancelConfirm(null); setCancelReason(''); }}
+                  className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400"
+                >
+                  Keep Request
+                </button>
+                <button
+                  onClick={() => handleCancelWorkflow(cancelConfirm)}
+                  className="px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700"
+                >
+                  Cancel Request
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {amendingWorkflow && (
+        <AmendWorkflowModal
+          workflow={amendingWorkflow}
+          onAmended={handleAmended}
+          onCancel={() => setAmendingWorkflow(null)}
+        />
+      )}
+
       {showForm && (
         <ApprovalWorkflowForm
           onSubmit={handleCreateWorkflow}
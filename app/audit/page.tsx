@@ -97,6 +97,10 @@ export default function AuditPage() {
         return 'bg-red-100 text-red-800';
       case 'APPROVAL_WORKFLOW':
         return 'bg-indigo-100 text-indigo-800';
+      case 'ROLE':
+        return 'bg-orange-100 text-orange-800';
+      case 'WORKFLOW_TEMPLATE':
+        return 'bg-teal-100 text-teal-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -116,6 +120,10 @@ export default function AuditPage() {
         return 'M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v-2L4.257 9.257a6 6 0 017.743-7.743L15 5v2z';
       case 'APPROVAL_WORKFLOW':
         return 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z';
+      case 'ROLE':
+        return 'M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z';
+      case 'WORKFLOW_TEMPLATE':
+        return 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2';
       default:
         return 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z';
     }
@@ -162,6 +170,10 @@ export default function AuditPage() {
         return ` (Access Request ${shortId})`;
       case 'APPROVAL_WORKFLOW':
         return ` (Workflow ${shortId})`;
+      case 'ROLE':
+        return ` (Role ${entityId})`;
+      case 'WORKFLOW_TEMPLATE':
+        return ` (Template ${entityId})`;
       default:
         return ` (${shortId})`;
     }
@@ -169,7 +181,7 @@ export default function AuditPage() {
 
   if (loading) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR']}>
+      <ProtectedRoute requiresPermission="/audit">
         <div className="min-h-screen flex items-center justify-center">
           <div className="flex flex-col items-center space-y-4">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -181,7 +193,7 @@ export default function AuditPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR']}>
+    <ProtectedRoute requiresPermission="/audit">
       <div className="min-h-screen bg-gray-50">
       {NotificationComponent}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
@@ -255,6 +267,24 @@ export default function AuditPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                     )
+                  },
+                  { 
+                    value: 'ROLE', 
+                    label: 'Role',
+                    icon: (
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                      </svg>
+                    )
+                  },
+                  { 
+                    value: 'WORKFLOW_TEMPLATE', 
+                    label: 'Workflow Template',
+                    icon: (
+                      <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                    )
                   }
                 ]}
                 value={filters.entityType}
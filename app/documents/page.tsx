@@ -69,7 +69,7 @@ export default function DocumentsPage() {
     try {
       if (editingDocument) {
         // Update existing document
-        const response = await fetch(`/api/documents?id=${editingDocument.id}&updatedBy=system`, {
+        const response = await fetch(`/api/documents?id=${editingDocument.id}`, {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
@@ -123,7 +123,7 @@ export default function DocumentsPage() {
 
   const handleDeleteDocument = async (id: string) => {
     try {
-      const response = await fetch(`/api/documents?id=${id}&deletedBy=system`, {
+      const response = await fetch(`/api/documents?id=${id}`, {
         method: 'DELETE',
       });
 
@@ -176,7 +176,7 @@ export default function DocumentsPage() {
 
   if (loading) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+      <ProtectedRoute requiresPermission="/documents">
         <div className="min-h-screen flex items-center justify-center">
           <div className="text-lg">Loading documents...</div>
         </div>
@@ -185,7 +185,7 @@ export default function DocumentsPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+    <ProtectedRoute requiresPermission="/documents">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="sm:flex sm:items-center">
         <div className="sm:flex-auto">
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface DecisionPreview {
+  decision: 'APPROVED' | 'REJECTED';
+  expiresAt: string;
+  approverName: string;
+  workflow: {
+    id: string;
+    type: string;
+    title: string | null;
+    description: string | null;
+    amount: number | null;
+    requesterName: string;
+  };
+}
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+export default function EmailDecisionPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DecisionPreview | null>(null);
+  const [comments, setComments] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ completed: boolean; status?: string } | null>(null);
+
+  useEffect(() => {
+    const value = new URLSearchParams(window.location.search).get('token') || '';
+    setToken(value);
+    if (!value) {
+      setLoading(false);
+      return;
+    }
+
+    // Opening the link only looks the decision up; nothing is recorded until it is confirmed
+    fetch(`/api/workflows/email-decision?token=${encodeURIComponent(value)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (response.ok) {
+          setPreview(data);
+        } else {
+          setError(data.error || 'This link is not valid');
+        }
+      })
+      .catch(() => setError('Network error. Please try again.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+
+    try {
+      const response = await fetch('/api/workflows/email-decision', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, comments: comments || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult({ completed: data.completed, status: data.status });
+      } else {
+        setError(data.error || 'The decision could not be recorded');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const approving = preview?.decision === 'APPROVED';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="absolute inset-0 bg-grid-pattern opacity-5"></div>
+
+      <div className="max-w-md w-full space-y-8 relative z-10">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold text-gray-900">
+            {preview ? (approving ? 'Approve request' : 'Reject request') : 'Email decision'}
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Decide a request for the <span className="font-semibold text-indigo-600">Internal Portal</span> from your inbox
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8 backdrop-blur-sm">
+          {loading ? (
+            <p className="text-center text-gray-600">Checking your link...</p>
+          ) : result ? (
+            <div className="text-center space-y-4">
+              <div className={`mx-auto flex items-center justify-center h-16 w-16 rounded-full ${approving ? 'bg-green-100' : 'bg-red-100'}`}>
+                <svg className={`h-8 w-8 ${approving ? 'text-green-600' : 'text-red-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={approving ? 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z' : 'M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z'} />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900">{approving ? 'Approved' : 'Rejected'}</h3>
+              <p className="text-gray-600">
+                {result.completed
+                  ? `The request is now ${formatLabel(result.status || '').toLowerCase()}.`
+                  : approving
+                    ? 'Your approval was recorded. The request moves on once the rest of its approvers have decided.'
+                    : 'Your rejection was recorded.'}
+              </p>
+              <Link
+                href="/approvals"
+                className="font-semibold text-indigo-600 hover:text-indigo-500 transition-colors duration-200"
+              >
+                Open approvals
+              </Link>
+            </div>
+          ) : !preview ? (
+            <div className="text-center space-y-4">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {token === '' ? 'Decision link missing' : 'This link cannot be used'}
+              </h3>
+              <p className="text-gray-600">
+                {token === '' ? 'This page needs the approve or reject link from your approval email.' : error}
+              </p>
+              <Link
+                href="/approvals"
+                className="font-semibold text-indigo-600 hover:text-indigo-500 transition-colors duration-200"
+              >
+                Decide from the approvals page
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleConfirm}>
+              {error && (
+                <div className="rounded-xl bg-red-50 border border-red-200 p-4 animate-slideDown">
+                  <p className="text-sm font-medium text-red-800">
+                    {error}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <p className="text-lg font-semibold text-gray-900">
+                  {preview.workflow.title || formatLabel(preview.workflow.type)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {formatLabel(preview.workflow.type)} requested by {preview.workflow.requesterName}
+                </p>
+                {preview.workflow.amount !== null && preview.workflow.amount > 0 && (
+                  <p className="text-sm text-gray-900">Amount: ${preview.workflow.amount.toLocaleString()}</p>
+                )}
+                {preview.workflow.description && (
+                  <p className="pt-2 text-sm text-gray-700">{preview.workflow.description}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="comments" className="block text-sm font-semibold text-gray-700">
+                  Comment
+                </label>
+                <textarea
+                  id="comments"
+                  rows={3}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-gray-50 focus:bg-white"
+                  placeholder={approving ? 'Optional' : 'Let the requester know why'}
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className={`w-full flex justify-center py-3 px-4 border border-transparent text-sm font-semibold rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl ${approving ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500' : 'bg-red-600 hover:bg-red-700 focus:ring-red-500'}`}
+              >
+                {submitting ? 'Recording decision...' : `Confirm ${approving ? 'approval' : 'rejection'} as ${preview.approverName}`}
+              </button>
+
+              <p className="text-xs text-center text-gray-500">
+                This link can be used once and expires on {new Date(preview.expiresAt).toLocaleString()}.
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
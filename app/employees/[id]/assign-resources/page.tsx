@@ -273,7 +273,7 @@ export default function AssignResourcesPage() {
 
   if (loading) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+      <ProtectedRoute requiresPermission="/employees">
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
@@ -286,7 +286,7 @@ export default function AssignResourcesPage() {
 
   if (!employee) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+      <ProtectedRoute requiresPermission="/employees">
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
           <div className="text-center">
             <h2 className="text-2xl font-bold text-gray-900">Employee Not Found</h2>
@@ -304,7 +304,7 @@ export default function AssignResourcesPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+    <ProtectedRoute requiresPermission="/employees">
       {NotificationComponent}
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Edit, Eye, Link, KeyRound, Trash2 } from 'lucide-react';
+import { Edit, Eye, Link, KeyRound, Lock, LogOut, Trash2, Unlock } from 'lucide-react';
 import EmployeeForm from '@/components/EmployeeForm';
 import EmployeeResources from '@/components/EmployeeResources';
 import ProtectedRoute from '@/components/ProtectedRoute';
@@ -50,6 +50,10 @@ export default function EmployeesPage() {
   const [resetPasswordLoading, setResetPasswordLoading] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [signOutEmployee, setSignOutEmployee] = useState<{ id: string; name: string } | null>(null);
+  const [signOutLoading, setSignOutLoading] = useState(false);
+  const [lockouts, setLockouts] = useState<Record<string, string>>({});
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
   const { showNotification, NotificationComponent } = useNotification();
   
   // Pagination state
@@ -61,6 +65,10 @@ export default function EmployeesPage() {
     fetchEmployees();
   }, [currentPage, itemsPerPage]);
 
+  useEffect(() => {
+    fetchLockouts();
+  }, []);
+
   const fetchEmployees = async () => {
     try {
       const response = await fetch(`/api/employees?page=${currentPage}&limit=${itemsPerPage}`);
@@ -76,6 +84,46 @@ export default function EmployeesPage() {
     }
   };
 
+  const fetchLockouts = async () => {
+    try {
+      const response = await fetch('/api/employees/lockouts');
+      if (response.ok) {
+        const data = await response.json();
+        const lockedUntilById: Record<string, string> = {};
+        for (const lockout of data.lockouts || []) {
+          lockedUntilById[lockout.employeeId] = lockout.lockedUntil;
+        }
+        setLockouts(lockedUntilById);
+      }
+    } catch (error) {
+      console.error('Error fetching account lockouts:', error);
+    }
+  };
+
+  const handleUnlockAccount = async (employee: { id: string; name: string }) => {
+    setUnlockingId(employee.id);
+
+    try {
+      const response = await fetch(`/api/employees/${employee.id}/unlock`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Account Unlocked', `${employee.name} can sign in again.`);
+        await fetchLockouts();
+      } else {
+        showNotification('error', 'Unlock Failed', data.error || 'Failed to unlock account');
+      }
+    } catch (error) {
+      console.error('Error unlocking account:', error);
+      showNotification('error', 'Network Error', 'Unable to unlock account. Please try again.');
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
   };
@@ -94,7 +142,7 @@ export default function EmployeesPage() {
     try {
       if (editingEmployee) {
         // Update existing employee
-        const response = await fetch(`/api/employees?id=${editingEmployee.id}&updatedBy=system`, {
+        const response = await fetch(`/api/employees?id=${editingEmployee.id}`, {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
@@ -200,8 +248,7 @@ export default function EmployeesPage() {
         },
         body: JSON.stringify({
           fromEmployeeId,
-          toEmployeeId: selectedEmployee.id,
-          reassignBy: 'system'
+          toEmployeeId: selectedEmployee.id
         }),
       });
 
@@ -220,6 +267,60 @@ export default function EmployeesPage() {
     }
   };
 
+  const handleTransferAssets = async (fromEmployeeId: string) => {
+    const availableEmployees = employees.filter(emp => emp.id !== fromEmployeeId);
+
+    if (availableEmployees.length === 0) {
+      showNotification('warning', 'No Employees Available', 'No other employees available to transfer assets to');
+      return;
+    }
+
+    const employeeOptions = availableEmployees.map(emp => `${emp.name} (${emp.email})`).join('\n');
+    const selectedName = prompt(`Select employee to transfer all assigned resources to:\n\n${employeeOptions}\n\nEnter the full name:`);
+
+    if (!selectedName) return;
+
+    const selectedEmployee = availableEmployees.find(emp => emp.name === selectedName);
+    if (!selectedEmployee) {
+      showNotification('error', 'Employee Not Found', 'Employee not found. Please enter the exact name.');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/resources/assignments/transfer', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          fromEmployeeId,
+          toEmployeeId: selectedEmployee.id
+        }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.failed > 0) {
+          const failures = (result.results as { success: boolean; resourceName: string; error?: string }[])
+            .filter(item => !item.success)
+            .map(item => `${item.resourceName}: ${item.error}`)
+            .join('; ');
+          showNotification('warning', 'Some Assets Not Transferred', `Transferred ${result.succeeded} to ${selectedEmployee.name}. ${result.failed} failed: ${failures}`);
+        } else {
+          showNotification('success', 'Assets Transferred', `Transferred ${result.succeeded} assigned resources to ${selectedEmployee.name}`);
+        }
+        // Refresh dependencies
+        handleViewDependencies(fromEmployeeId);
+      } else {
+        const errorData = await response.json();
+        showNotification('error', 'Transfer Failed', errorData.error || 'Failed to transfer assets');
+      }
+    } catch (error) {
+      console.error('Error transferring assets:', error);
+      showNotification('error', 'Network Error', 'Unable to transfer assets. Please try again.');
+    }
+  };
+
   const handleViewDependencies = async (id: string) => {
     try {
       const response = await fetch(`/api/employees/dependencies?id=${id}`);
@@ -238,7 +339,7 @@ export default function EmployeesPage() {
 
   const handleDeleteEmployee = async (id: string) => {
     try {
-      const response = await fetch(`/api/employees?id=${id}&deletedBy=system`, {
+      const response = await fetch(`/api/employees?id=${id}`, {
         method: 'DELETE',
       });
 
@@ -280,6 +381,32 @@ export default function EmployeesPage() {
     }
   };
 
+  const handleSignOutEverywhere = async () => {
+    if (!signOutEmployee) return;
+
+    setSignOutLoading(true);
+
+    try {
+      const response = await fetch(`/api/employees/${signOutEmployee.id}/sessions`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Signed Out', `${signOutEmployee.name} has been signed out of ${data.revoked} session(s).`);
+        setSignOutEmployee(null);
+      } else {
+        showNotification('error', 'Sign Out Failed', data.error || 'Failed to sign employee out');
+      }
+    } catch (error) {
+      console.error('Error signing employee out:', error);
+      showNotification('error', 'Network Error', 'Unable to sign employee out. Please try again.');
+    } finally {
+      setSignOutLoading(false);
+    }
+  };
+
   const handleResetPassword = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -374,7 +501,7 @@ export default function EmployeesPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO']}>
+    <ProtectedRoute requiresPermission="/employees">
       {NotificationComponent}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="sm:flex sm:items-center">
@@ -493,6 +620,15 @@ export default function EmployeesPage() {
                           )}
                           {employee.status}
                         </span>
+                        {lockouts[employee.id] && (
+                          <span
+                            title={`Locked until ${new Date(lockouts[employee.id]).toLocaleTimeString()}`}
+                            className="ml-2 inline-flex items-center px-2.5 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800"
+                          >
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {employee.phone ? (
@@ -568,6 +704,35 @@ export default function EmployeesPage() {
                             </div>
                           </div>
 
+                          {/* Sign Out Everywhere */}
+                          <div className="relative group">
+                            <button 
+                              onClick={() => setSignOutEmployee({ id: employee.id, name: employee.name })}
+                              className="inline-flex items-center justify-center w-8 h-8 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                            >
+                              <LogOut size={16} />
+                            </button>
+                            <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-900 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                              Sign Out Everywhere
+                            </div>
+                          </div>
+
+                          {/* Unlock Account - Only shown while a sign-in lockout is active */}
+                          {lockouts[employee.id] && (
+                            <div className="relative group">
+                              <button 
+                                onClick={() => handleUnlockAccount({ id: employee.id, name: employee.name })}
+                                disabled={unlockingId === employee.id}
+                                className="inline-flex items-center justify-center w-8 h-8 text-amber-600 hover:text-amber-900 hover:bg-amber-50 rounded-full transition-colors disabled:opacity-50"
+                              >
+                                <Unlock size={16} />
+                              </button>
+                              <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-900 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                                Unlock Account
+                              </div>
+                            </div>
+                          )}
+
                           {/* Delete Employee - Hidden for CEO */}
                           {employee.role !== 'CEO' && (
                             <div className="relative group">
@@ -672,6 +837,40 @@ export default function EmployeesPage() {
         </div>
       )}
 
+      {/* Sign Out Everywhere Confirmation Modal */}
+      {signOutEmployee && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-40">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-gray-100">
+                <LogOut className="h-6 w-6 text-gray-700" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mt-2">Sign Out Everywhere</h3>
+              <div className="mt-2 px-7 py-3">
+                <p className="text-sm text-gray-500">
+                  {signOutEmployee.name} will be signed out of every device and will need to log in again.
+                </p>
+              </div>
+              <div className="flex justify-center space-x-4 mt-4">
+                <button
+                  onClick={() => setSignOutEmployee(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400 cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSignOutEverywhere}
+                  disabled={signOutLoading}
+                  className="px-4 py-2 bg-gray-800 text-white text-sm font-medium rounded-md hover:bg-gray-900 cursor-pointer disabled:opacity-50"
+                >
+                  {signOutLoading ? 'Signing out...' : 'Sign Out'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Dependencies Modal */}
       {viewingDependencies && dependencies && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -689,6 +888,15 @@ export default function EmployeesPage() {
                       Reassign Ownership
                     </button>
                   )}
+                  {dependencies.assignedResources?.length > 0 && (
+                    <button
+                      onClick={() => handleTransferAssets(viewingDependencies)}
+                      className="px-3 py-1 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-700"
+                      title="Hands every resource assigned to this employee to another employee, keeping each item assigned throughout."
+                    >
+                      Transfer Assets
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setViewingDependencies(null);
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import ApprovalDashboard from '@/components/ApprovalDashboard';
+import OverdueAssignmentsWidget from '@/components/OverdueAssignmentsWidget';
 import { getUserPermissions } from '@/lib/permissions';
 
 interface DashboardStats {
@@ -27,7 +28,7 @@ export default function Home() {
   const [loading, setLoading] = useState(true);
   const [showApprovalDashboard, setShowApprovalDashboard] = useState(false);
 
-  const permissions = user ? getUserPermissions(user.role as any) : null;
+  const permissions = user ? user.permissions ?? getUserPermissions(user.role) : null;
 
   useEffect(() => {
     if (user) {
@@ -37,20 +38,14 @@ export default function Home() {
 
   const fetchDashboardStats = async () => {
     try {
-      // For CEO/CTO, fetch all data. For others, fetch user-specific data
-      const isCeoOrCto = user?.role === 'CEO' || user?.role === 'CTO';
-      
+      // Each figure is company-wide when the user may see everything of that kind, otherwise their own
       const [employeesRes, accessRes, approvalsRes, policiesRes, timelineRes] = await Promise.all([
-        // Employees - only CEO/CTO see all employees
-        isCeoOrCto ? fetch('/api/employees').catch(() => null) : Promise.resolve(null),
-        // Access requests - show user's own requests for non-CEO/CTO
+        permissions?.canViewAllEmployees ? fetch('/api/employees').catch(() => null) : Promise.resolve(null),
+        // Access requests and approvals come back filtered to what the user may see
         fetch('/api/access').catch(() => null),
-        // Approvals - show user's own approval requests for non-CEO/CTO
         fetch('/api/approvals').catch(() => null),
-        // Policies - already filtered by role in the API
         fetch('/api/policies').catch(() => null),
-        // Timeline - show user's activities for non-CEO/CTO
-        isCeoOrCto 
+        permissions?.canViewTimeline
           ? fetch('/api/timeline?limit=10').catch(() => null)
           : fetch(`/api/timeline?limit=10&userId=${user?.id}`).catch(() => null)
       ]);
@@ -68,28 +63,20 @@ export default function Home() {
       const policies = policiesData.policies || policiesData || [];
       const timeline = timelineData.activities || timelineData || [];
 
-      if (isCeoOrCto) {
-        // CEO/CTO see system-wide statistics
-        setStats({
-          totalEmployees: employees.length || 0,
-          pendingAccessRequests: accessRequests.filter((req: any) => req.status === 'REQUESTED').length || 0,
-          pendingApprovals: approvals.filter((app: any) => app.status === 'PENDING').length || 0,
-          activePolicies: policies.filter((pol: any) => pol.status === 'PUBLISHED').length || 0,
-          recentActivities: timeline.length || 0
-        });
-      } else {
-        // Regular employees see their own statistics
-        const userAccessRequests = accessRequests.filter((req: any) => req.requesterId === user?.id);
-        const userApprovals = approvals.filter((app: any) => app.requesterId === user?.id);
-        
-        setStats({
-          totalEmployees: 0, // Not shown for regular employees
-          pendingAccessRequests: userAccessRequests.filter((req: any) => req.status === 'REQUESTED').length || 0,
-          pendingApprovals: userApprovals.filter((app: any) => app.status === 'PENDING').length || 0,
-          activePolicies: policies.length || 0, // User's own policies (already filtered by API)
-          recentActivities: timeline.length || 0
-        });
-      }
+      const visibleAccessRequests = permissions?.canViewAllAccessRequests
+        ? accessRequests
+        : accessRequests.filter((req: any) => req.requesterId === user?.id);
+      const visibleApprovals = permissions?.canViewAllApprovals
+        ? approvals
+        : approvals.filter((app: any) => app.requesterId === user?.id);
+
+      setStats({
+        totalEmployees: employees.length || 0,
+        pendingAccessRequests: visibleAccessRequests.filter((req: any) => req.status === 'REQUESTED').length || 0,
+        pendingApprovals: visibleApprovals.filter((app: any) => app.status === 'PENDING').length || 0,
+        activePolicies: policies.filter((pol: any) => pol.status === 'PUBLISHED').length || 0,
+        recentActivities: timeline.length || 0
+      });
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
     } finally {
@@ -112,8 +99,8 @@ export default function Home() {
 
           {/* Stats Overview */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
-            {/* Employees - Only show for CEO/CTO */}
-            {(user?.role === 'CEO' || user?.role === 'CTO') && (
+            {/* Employees - only for those who can see everyone */}
+            {permissions?.canViewAllEmployees && (
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="flex items-center">
                   <div className="flex-shrink-0">
@@ -142,7 +129,7 @@ export default function Home() {
                 </div>
                 <div className="ml-3">
                   <p className="text-sm font-medium text-gray-500">
-                    {(user?.role === 'CEO' || user?.role === 'CTO') ? 'Pending Access Requests' : 'My Pending Requests'}
+                    {permissions?.canViewAllAccessRequests ? 'Pending Access Requests' : 'My Pending Requests'}
                   </p>
                   <p className="text-2xl font-semibold text-gray-900">{loading ? '...' : stats.pendingAccessRequests}</p>
                 </div>
@@ -160,14 +147,14 @@ export default function Home() {
                 </div>
                 <div className="ml-3">
                   <p className="text-sm font-medium text-gray-500">
-                    {(user?.role === 'CEO' || user?.role === 'CTO') ? 'Pending Approvals' : 'My Pending Approvals'}
+                    {permissions?.canViewAllApprovals ? 'Pending Approvals' : 'My Pending Approvals'}
                   </p>
                   <p className="text-2xl font-semibold text-gray-900">{loading ? '...' : stats.pendingApprovals}</p>
                 </div>
               </div>
             </div>
 
-           {(user?.role === 'CEO' || user?.role === 'CTO') && (<div className="bg-white rounded-lg shadow p-4">
+           {permissions?.canEditPolicy && (<div className="bg-white rounded-lg shadow p-4">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
                   <div className="w-8 h-8 bg-green-500 rounded-md flex items-center justify-center">
@@ -198,7 +185,7 @@ export default function Home() {
                   </div>
                   <div className="ml-3">
                     <p className="text-sm font-medium text-gray-500">
-                      {(user?.role === 'CEO' || user?.role === 'CTO') ? 'Recent Activities' : 'My Recent Activities'}
+                      {permissions?.canViewTimeline ? 'Recent Activities' : 'My Recent Activities'}
                     </p>
                     <p className="text-2xl font-semibold text-gray-900">{loading ? '...' : stats.recentActivities}</p>
                   </div>
@@ -207,6 +194,9 @@ export default function Home() {
             )}
           </div>
 
+          {/* Overdue and soon-due loans */}
+          {user && <OverdueAssignmentsWidget currentUserId={user.id} />}
+
           {/* Approval Dashboard Toggle */}
           {permissions?.canApproveWorkflows && (
             <div className="mb-8 bg-white rounded-lg shadow p-6">
@@ -214,7 +204,7 @@ export default function Home() {
                 <div>
                   <h2 className="text-lg font-medium text-gray-900">Approval Management Dashboard</h2>
                   <p className="text-sm text-gray-600">
-                    Role-based approval system where CTO and CEO can approve requests, others can submit requests
+                    Review and decide the requests waiting on your approval
                   </p>
                 </div>
                 <button
@@ -236,7 +226,7 @@ export default function Home() {
 
           {/* Main Navigation Cards */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {/* Employee Management - Only CEO/CTO */}
+            {/* Employee Management - only for those who can see everyone */}
             {permissions?.canViewAllEmployees && (
               <div className="bg-white rounded-lg shadow p-6">
                 <div className="flex items-center">
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { 
   Eye, 
@@ -56,6 +57,9 @@ interface Policy {
 
 export default function PoliciesPage() {
   const { user } = useAuth();
+  // Policy editors see every policy; everyone else sees their own
+  const canSeeAllPolicies = !!user && (user.permissions ?? getUserPermissions(user.role)).canEditPolicy;
+  const canDeletePolicies = !!user && (user.permissions ?? getUserPermissions(user.role)).canDeletePolicy;
   const [policies, setPolicies] = useState<Policy[]>([]);
   const [employees, setEmployees] = useState<Array<{ id: string; name: string; email: string; department: string }>>([]);
   const [showForm, setShowForm] = useState(false);
@@ -272,7 +276,7 @@ export default function PoliciesPage() {
 
   const handleDeletePolicy = async (id: string) => {
     try {
-      const response = await fetch(`/api/policies?id=${id}&deletedBy=system`, {
+      const response = await fetch(`/api/policies?id=${id}`, {
         method: 'DELETE',
       });
 
@@ -362,7 +366,7 @@ export default function PoliciesPage() {
 
   if (loading) {
     return (
-      <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+      <ProtectedRoute requiresPermission="/policies">
         <div className="min-h-screen flex items-center justify-center bg-gray-50">
           <div className="flex flex-col items-center space-y-4">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
@@ -374,7 +378,7 @@ export default function PoliciesPage() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+    <ProtectedRoute requiresPermission="/policies">
       <div className="min-h-screen bg-gray-50">
       {NotificationComponent}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -389,9 +393,9 @@ export default function PoliciesPage() {
                 Policy Management
               </h1>
               <p className="mt-2 text-gray-600">
-                {user && (user.role === 'CEO' || user.role === 'CTO') 
+                {canSeeAllPolicies 
                   ? 'Create, manage, and publish company policies across different categories.'
-                  : 'Create and manage your own policies. CEO and CTO can view all policies.'
+                  : 'Create and manage your own policies. Policy editors can view all policies.'
                 }
               </p>
             </div>
@@ -673,8 +677,8 @@ export default function PoliciesPage() {
                     Version {policy.version} • by {policy.owner?.name || 'Unknown'}
                   </p>
                   
-                  {/* Show ownership indicator for non-CEO/CTO users */}
-                  {user && user.role !== 'CEO' && user.role !== 'CTO' && policy.owner?.id === user.id && (
+                  {/* Show ownership indicator for users who only see their own policies */}
+                  {user && !canSeeAllPolicies && policy.owner?.id === user.id && (
                     <div className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-50 text-emerald-700 rounded-full text-xs font-medium border border-emerald-200">
                       <CheckCircle className="h-3 w-3" />
                       Your Policy
@@ -795,8 +799,8 @@ export default function PoliciesPage() {
                     Updated {new Date(policy.updatedAt).toLocaleDateString()}
                   </div>
                   <div className="flex items-center gap-2">
-                    {/* Only CEO and CTO can view policy details */}
-                    {user && (user.role === 'CEO' || user.role === 'CTO') && (
+                    {/* Only policy editors can view policy details */}
+                    {canSeeAllPolicies && (
                       <button
                         onClick={() => setSelectedPolicy(policy)}
                         className="inline-flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
@@ -806,7 +810,7 @@ export default function PoliciesPage() {
                       </button>
                     )}
                     
-                    {(policy.status === "IN_PROGRESS" || policy.status === "DRAFT" || policy.status === "REVIEW") && (
+                    {canSeeAllPolicies && (policy.status === "IN_PROGRESS" || policy.status === "DRAFT" || policy.status === "REVIEW") && (
                       <button
                         onClick={() => handleEditPolicy(policy)}
                         className="inline-flex items-center gap-1 text-sm font-medium text-emerald-600 hover:text-emerald-700 transition-colors"
@@ -817,7 +821,7 @@ export default function PoliciesPage() {
                     )}
                     
                     {/* Only allow deletion of DRAFT, IN_PROGRESS, and REJECTED policies */}
-                    {['DRAFT', 'IN_PROGRESS', 'REJECTED'].includes(policy.status) && (
+                    {canDeletePolicies && ['DRAFT', 'IN_PROGRESS', 'REJECTED'].includes(policy.status) && (
                       <button
                         onClick={() => setDeleteConfirm(policy.id)}
                         className="inline-flex items-center gap-1 text-sm font-medium text-red-600 hover:text-red-700 transition-colors"
@@ -855,7 +859,7 @@ export default function PoliciesPage() {
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">
               {activeFiltersCount > 0 ? 'No policies match your filters' : 
-                (user && (user.role === 'CEO' || user.role === 'CTO') 
+                (canSeeAllPolicies 
                   ? 'No policies in the system'
                   : 'No policies created by you'
                 )
@@ -864,7 +868,7 @@ export default function PoliciesPage() {
             <p className="text-gray-500 mb-6 max-w-md mx-auto">
               {activeFiltersCount > 0
                 ? 'Try adjusting your search terms or filters to find what you\'re looking for.'
-                : (user && (user.role === 'CEO' || user.role === 'CTO') 
+                : (canSeeAllPolicies 
                     ? 'Get started by creating the first company policy.'
                     : 'Get started by creating your first policy.'
                   )
@@ -1,9 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useNotification } from '@/components/Notification';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ApiTokenSettings from '@/components/ApiTokenSettings';
+import ApprovalDelegationSettings from '@/components/ApprovalDelegationSettings';
+
+interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
 
 export default function ProfilePage() {
   const { user, checkAuth } = useAuth();
@@ -23,26 +35,67 @@ export default function ProfilePage() {
   const [passwordLoading, setPasswordLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('profile');
   const [userDetails, setUserDetails] = useState<any>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
 
-  useEffect(() => {
-    if (user) {
-      setFormData(prev => ({
-        ...prev,
-        name: user.name,
-        email: user.email,
-        phone: ''
-      }));
-      fetchUserDetails();
+  const fetchSessions = useCallback(async () => {
+    setSessionsLoading(true);
+    try {
+      const response = await fetch('/api/auth/sessions');
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions);
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      showNotification('error', 'Load Failed', 'Unable to load active sessions');
+    } finally {
+      setSessionsLoading(false);
     }
-  }, [user]);
+  }, [showNotification]);
 
-  const fetchUserDetails = async () => {
+  const handleRevokeSession = async (sessionId: string) => {
     try {
-      const response = await fetch('/api/employees');
+      const response = await fetch(`/api/auth/sessions/${sessionId}`, { method: 'DELETE' });
+      const data = await response.json();
+
       if (response.ok) {
-        const data = await response.json();
-        const employees = data.employees || data;
-        const currentUser = Array.isArray(employees) ? employees.find((emp: any) => emp.id === user?.id) : null;
+        showNotification('success', 'Session Revoked', 'The device has been signed out');
+        await fetchSessions();
+      } else {
+        showNotification('error', 'Revoke Failed', data.error || 'Failed to revoke session');
+      }
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      showNotification('error', 'Network Error', 'Unable to revoke session. Please try again.');
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Signed Out', `Signed out of ${data.revoked} other session(s)`);
+        await fetchSessions();
+      } else {
+        showNotification('error', 'Sign Out Failed', data.error || 'Failed to sign out other sessions');
+      }
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      showNotification('error', 'Network Error', 'Unable to sign out other sessions. Please try again.');
+    }
+  };
+
+  const userId = user?.id;
+
+  const fetchUserDetails = useCallback(async () => {
+    try {
+      if (!userId) return;
+      const response = await fetch(`/api/employees?id=${userId}`);
+      if (response.ok) {
+        const currentUser = await response.json();
         if (currentUser) {
           setUserDetails(currentUser);
           setFormData(prev => ({
@@ -55,7 +108,25 @@ export default function ProfilePage() {
       console.error('Error fetching user details:', error);
       showNotification('error', 'Load Failed', 'Unable to load profile details');
     }
-  };
+  }, [userId, showNotification]);
+
+  useEffect(() => {
+    if (user) {
+      setFormData(prev => ({
+        ...prev,
+        name: user.name,
+        email: user.email,
+        phone: ''
+      }));
+      fetchUserDetails();
+    }
+  }, [user, fetchUserDetails]);
+
+  useEffect(() => {
+    if (user && activeTab === 'password') {
+      fetchSessions();
+    }
+  }, [user, activeTab, fetchSessions]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -249,6 +320,36 @@ export default function ProfilePage() {
                     <span>Security</span>
                   </div>
                 </button>
+                <button
+                  onClick={() => setActiveTab('api-tokens')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'api-tokens'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                    </svg>
+                    <span>API Tokens</span>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setActiveTab('out-of-office')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'out-of-office'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                    <span>Out of Office</span>
+                  </div>
+                </button>
               </nav>
             </div>
 
@@ -526,8 +627,70 @@ export default function ProfilePage() {
                       </button>
                     </div>
                   </form>
+
+                  <TwoFactorSettings />
+
+                  {/* Active Sessions */}
+                  <div className="pt-6 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-4">
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">Active Sessions</h3>
+                        <p className="text-sm text-gray-600">
+                          Devices currently signed in to your account. Revoke any you don&apos;t recognise.
+                        </p>
+                      </div>
+                      {sessions.some(session => !session.current) && (
+                        <button
+                          type="button"
+                          onClick={handleRevokeOtherSessions}
+                          className="px-3 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                        >
+                          Sign out other devices
+                        </button>
+                      )}
+                    </div>
+
+                    {sessionsLoading ? (
+                      <p className="text-sm text-gray-500">Loading sessions...</p>
+                    ) : sessions.length === 0 ? (
+                      <p className="text-sm text-gray-500">No active sessions found.</p>
+                    ) : (
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {sessions.map(session => (
+                          <li key={session.id} className="flex items-center justify-between px-4 py-3">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900 truncate">
+                                {session.userAgent || 'Unknown device'}
+                                {session.current && (
+                                  <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                    This device
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {session.ipAddress || 'Unknown IP'} · Signed in {new Date(session.createdAt).toLocaleString()} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                              </p>
+                            </div>
+                            {!session.current && (
+                              <button
+                                type="button"
+                                onClick={() => handleRevokeSession(session.id)}
+                                className="ml-4 text-sm font-medium text-red-600 hover:text-red-800"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                 </div>
               )}
+
+              {activeTab === 'api-tokens' && <ApiTokenSettings />}
+
+              {activeTab === 'out-of-office' && <ApprovalDelegationSettings />}
             </div>
           </div>
         </div>
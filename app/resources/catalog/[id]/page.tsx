@@ -3,12 +3,15 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useNotification } from '@/components/Notification';
 import ResourceItemsList from '@/components/ResourceItemsList';
 import ResourceAssignmentsList from '@/components/ResourceAssignmentsList';
 import ResourceItemForm from '@/components/ResourceItemForm';
+import ResourceItemImportModal from '@/components/ResourceItemImportModal';
 import ResourceAssignmentForm from '@/components/ResourceAssignmentForm';
+import ResourceReservationCalendar from '@/components/ResourceReservationCalendar';
 
 import { AllocationType } from '@/types/resource-structure';
 
@@ -83,10 +86,12 @@ export default function ResourceDetailPage() {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
   const [showItemForm, setShowItemForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
   const [showAssignmentForm, setShowAssignmentForm] = useState(false);
 
-  const canManageResources = user ? ['CEO', 'CTO', 'ADMIN'].includes(user.role) : false;
-  const canAssignResources = user ? ['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(user.role) : false;
+  const permissions = user ? (user.permissions ?? getUserPermissions(user.role)) : null;
+  const canManageResources = !!permissions?.canEditResource;
+  const canAssignResources = !!permissions?.canAssignResources;
 
   // Assignment availability logic
   const getAssignmentAvailability = () => {
@@ -242,6 +247,11 @@ export default function ResourceDetailPage() {
     fetchResourceDetail();
   };
 
+  const handleImportItems = (created: number) => {
+    showNotification('success', 'Items Imported', `${created} ${created === 1 ? 'item was' : 'items were'} added to ${resource?.name}`);
+    fetchResourceDetail();
+  };
+
   const handleCreateAssignment = async () => {
     // Component handles the API call, we just need to refresh
     fetchResourceDetail();
@@ -418,6 +428,15 @@ export default function ResourceDetailPage() {
                     {normalizeType(getDisplayTypeName(resource)) === 'SOFTWARE' ? 'Add License' : 'Add Item'}
                   </button>
                 )}
+
+                {canManageResources && normalizeType(getDisplayTypeName(resource)) !== 'CLOUD' && resource.allocationType !== 'SHARED' && (resource.propertySchema?.length || 0) > 0 && (
+                  <button
+                    onClick={() => setShowImportForm(true)}
+                    className="px-4 py-2 text-sm font-medium text-green-700 bg-white border border-green-600 rounded-lg hover:bg-green-50"
+                  >
+                    Import from File
+                  </button>
+                )}
                 
                 {/* Delete Button for Cloud Resources */}
                 {canManageResources && normalizeType(getDisplayTypeName(resource)) === 'CLOUD' && (
@@ -630,6 +649,20 @@ export default function ResourceDetailPage() {
                 >
                   {normalizeType(getDisplayTypeName(resource)) === 'SOFTWARE' ? 'Assignments' : normalizeType(getDisplayTypeName(resource)) === 'PHYSICAL' ? 'Assignments' : 'Seats'} ({resource.assignments.length})
                 </button>
+
+                {/* Reservations tab - SHARED allocation resources can be booked ahead */}
+                {resource.allocationType === 'SHARED' && (
+                  <button
+                    onClick={() => setActiveTab('reservations')}
+                    className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                      activeTab === 'reservations'
+                        ? 'border-indigo-500 text-indigo-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    Reservations
+                  </button>
+                )}
                 
                 <button
                   onClick={() => setActiveTab('audit')}
@@ -715,6 +748,16 @@ export default function ResourceDetailPage() {
                 />
               )}
 
+              {activeTab === 'reservations' && resource.allocationType === 'SHARED' && user && (
+                <ResourceReservationCalendar
+                  resourceId={resource.id}
+                  quantity={resource.quantity}
+                  currentUserId={user.id}
+                  canBookForOthers={canAssignResources}
+                  onReservationChange={fetchResourceDetail}
+                />
+              )}
+
               {activeTab === 'audit' && (
                 <div className="space-y-4">
                   {resource.auditLogs.map((log, index) => (
@@ -755,6 +798,16 @@ export default function ResourceDetailPage() {
         />
       )}
 
+      {showImportForm && (
+        <ResourceItemImportModal
+          resourceId={resource.id}
+          resourceName={resource.name}
+          propertySchema={resource.propertySchema || []}
+          onImported={handleImportItems}
+          onClose={() => setShowImportForm(false)}
+        />
+      )}
+
       {showAssignmentForm && (
         <ResourceAssignmentForm
           resourceId={resource.id}
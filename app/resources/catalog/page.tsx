@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useNotification } from '@/components/Notification';
 import ElegantSearch from '@/components/ElegantSearch';
@@ -68,6 +69,7 @@ export default function ResourceCatalogPage() {
   const [showWizard, setShowWizard] = useState(false);
   const [showTypeManager, setShowTypeManager] = useState(false);
   const [editingResource, setEditingResource] = useState<ResourceCatalog | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   
   // Filters
   const [searchQuery, setSearchQuery] = useState('');
@@ -85,14 +87,16 @@ export default function ResourceCatalogPage() {
     hasPreviousPage: false
   });
 
-  const canManageResources = user && ['CEO', 'CTO', 'ADMIN'].includes(user.role);
-  const canViewEmployeeFilter = user && ['CEO', 'CTO'].includes(user.role);
+  const permissions = user ? (user.permissions ?? getUserPermissions(user.role)) : null;
+  const canManageResources = !!permissions?.canEditResource;
+  const canDeleteResources = !!permissions?.canDeleteResource;
+  const canViewEmployeeFilter = !!permissions?.canViewAllEmployees;
 
   useEffect(() => {
     if (user) {
       fetchResources(true); // Initial load
       if (canViewEmployeeFilter) {
-        fetchEmployees(); // Only fetch employees for CEO/CTO
+        fetchEmployees(); // Only fetch employees for those who can see them all
       }
     }
   }, [user, canViewEmployeeFilter]); // Add canViewEmployeeFilter dependency
@@ -157,6 +161,18 @@ export default function ResourceCatalogPage() {
     }
   };
 
+  // Exports use the filters currently applied to the list
+  const getExportUrl = (format: 'csv' | 'json' | 'xlsx') => {
+    const params = new URLSearchParams({
+      format,
+      ...(searchQuery && { search: searchQuery }),
+      ...(selectedType && { type: selectedType }),
+      ...(selectedStatus && { status: selectedStatus }),
+      ...(selectedEmployee && { assignedTo: selectedEmployee })
+    });
+    return `/api/resources/catalog/export?${params}`;
+  };
+
   const handleCreateResource = async (resourceData: any) => {
     try {
       const response = await fetch('/api/resources/catalog', {
@@ -282,29 +298,60 @@ export default function ResourceCatalogPage() {
                   Manage your organization's resource catalog and inventory
                 </p>
               </div>
-              {canManageResources && (
-                <div className="flex items-center space-x-3">
+              <div className="flex items-center space-x-3">
+                <div className="relative">
                   <button
-                    onClick={() => setShowTypeManager(true)}
-                    className="inline-flex items-center px-4 py-2 text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    className="inline-flex items-center px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                   >
                     <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                     </svg>
-                    Manage Types
-                  </button>
-                  <button
-                    onClick={() => setShowWizard(true)}
-                    className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-                  >
-                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                    Add Resource
+                    Export
                   </button>
+                  {showExportMenu && (
+                    <div className="absolute right-0 mt-2 w-44 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+                      {([
+                        { format: 'csv', label: 'CSV' },
+                        { format: 'xlsx', label: 'Excel (.xlsx)' },
+                        { format: 'json', label: 'JSON' }
+                      ] as const).map(option => (
+                        <a
+                          key={option.format}
+                          href={getExportUrl(option.format)}
+                          onClick={() => setShowExportMenu(false)}
+                          className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          {option.label}
+                        </a>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              )}
+                {canManageResources && (
+                  <>
+                    <button
+                      onClick={() => setShowTypeManager(true)}
+                      className="inline-flex items-center px-4 py-2 text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors"
+                    >
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Manage Types
+                    </button>
+                    <button
+                      onClick={() => setShowWizard(true)}
+                      className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      Add Resource
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
           </div>
 
@@ -333,7 +380,7 @@ export default function ResourceCatalogPage() {
               />
             </div>
             
-            {/* Employee Filter - Only visible to CEO/CTO */}
+            {/* Employee Filter - Only visible to those who can view all employees */}
             {canViewEmployeeFilter && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -469,7 +516,7 @@ export default function ResourceCatalogPage() {
                       setEditingResource(resource);
                       setShowForm(true);
                     } : undefined}
-                    onDelete={canManageResources ? handleDeleteResource : undefined}
+                    onDelete={canDeleteResources ? handleDeleteResource : undefined}
                     onViewDetails={(id: string) => router.push(`/resources/catalog/${id}`)}
                   />
                 ))}
@@ -0,0 +1,427 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import ElegantSelect from '@/components/ElegantSelect';
+import EmployeePermissionGrants from '@/components/EmployeePermissionGrants';
+import { useNotification } from '@/components/Notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { PermissionKey, RoleDefinitionSnapshot, RoleTier, setRoleRegistry } from '@/lib/permissions';
+
+interface RoleRow extends RoleDefinitionSnapshot {
+  employeeCount: number;
+}
+
+interface PermissionGroup {
+  label: string;
+  permissions: { key: PermissionKey; label: string }[];
+}
+
+const TIER_LABELS: Record<RoleTier, string> = {
+  EXECUTIVE: 'Executive',
+  DEPARTMENT_HEAD: 'Department head',
+  OPERATIONAL_MANAGER: 'Operational manager',
+  STAFF: 'Staff'
+};
+
+const emptyRoleForm = {
+  key: '',
+  name: '',
+  description: '',
+  tier: 'STAFF' as RoleTier,
+  copyFrom: ''
+};
+
+export default function RolesPage() {
+  const { checkAuth } = useAuth();
+  const { showNotification, NotificationComponent } = useNotification();
+  const [roles, setRoles] = useState<RoleRow[]>([]);
+  const [permissionGroups, setPermissionGroups] = useState<PermissionGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState<string>('');
+  const [draft, setDraft] = useState<RoleRow | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [roleForm, setRoleForm] = useState(emptyRoleForm);
+
+  const fetchRoles = useCallback(async (selectKey?: string) => {
+    try {
+      const response = await fetch('/api/roles');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: RoleRow[] = data.roles || [];
+        setRoles(loaded);
+        setPermissionGroups(data.permissionGroups || []);
+        setRoleRegistry(loaded);
+
+        const key = selectKey ?? (loaded[0]?.key || '');
+        setSelectedKey(key);
+        setDraft(loaded.find(role => role.key === key) || null);
+      } else {
+        showNotification('error', 'Fetch Failed', 'Failed to load roles. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      showNotification('error', 'Network Error', 'Unable to load roles. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [showNotification]);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const selectRole = (key: string) => {
+    setSelectedKey(key);
+    setDraft(roles.find(role => role.key === key) || null);
+  };
+
+  const togglePermission = (permission: PermissionKey) => {
+    if (!draft) return;
+    const permissions = draft.permissions.includes(permission)
+      ? draft.permissions.filter(p => p !== permission)
+      : [...draft.permissions, permission];
+    setDraft({ ...draft, permissions });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/roles/${draft.key}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          tier: draft.tier,
+          isAdmin: draft.isAdmin,
+          approvalLimit: draft.approvalLimit,
+          permissions: draft.permissions
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Role Saved', `${draft.name} was updated.`);
+        await fetchRoles(draft.key);
+        // The signed-in user's own permissions may have changed
+        await checkAuth();
+      } else {
+        showNotification('error', 'Save Failed', data.error || 'Failed to save role.');
+      }
+    } catch (error) {
+      console.error('Error saving role:', error);
+      showNotification('error', 'Network Error', 'Unable to save role. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/roles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: roleForm.key,
+          name: roleForm.name,
+          description: roleForm.description || null,
+          tier: roleForm.tier,
+          copyFrom: roleForm.copyFrom || undefined
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Role Created', `${data.role.name} is now available when assigning employees.`);
+        setShowCreate(false);
+        setRoleForm(emptyRoleForm);
+        await fetchRoles(data.role.key);
+      } else {
+        showNotification('error', 'Create Failed', data.error || 'Failed to create role.');
+      }
+    } catch (error) {
+      console.error('Error creating role:', error);
+      showNotification('error', 'Network Error', 'Unable to create role. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleRow) => {
+    if (!confirm(`Delete the ${role.name} role? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/roles/${role.key}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Role Deleted', `${role.name} was deleted.`);
+        await fetchRoles('');
+      } else {
+        showNotification('error', 'Delete Failed', data.error || 'Failed to delete role.');
+      }
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      showNotification('error', 'Network Error', 'Unable to delete role. Please try again.');
+    }
+  };
+
+  const savedRole = roles.find(role => role.key === selectedKey);
+  const isDirty = !!draft && !!savedRole && JSON.stringify(draft) !== JSON.stringify(savedRole);
+
+  return (
+    <ProtectedRoute requiresPermission="/roles">
+      <div className="min-h-screen bg-gray-50">
+      {NotificationComponent}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Roles &amp; Permissions</h1>
+            <p className="mt-2 text-sm sm:text-base text-gray-600">
+              Define roles, decide what each role may do, and grant individual employees exceptions. Every change is recorded in the audit log.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <button
+              onClick={() => setShowCreate(!showCreate)}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Role
+            </button>
+          </div>
+        </div>
+
+        {showCreate && (
+          <form onSubmit={handleCreate} className="mt-6 bg-white shadow-sm rounded-lg p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Key *</label>
+              <input
+                type="text"
+                required
+                value={roleForm.key}
+                onChange={(e) => setRoleForm({ ...roleForm, key: e.target.value.toUpperCase().replace(/\s+/g, '_') })}
+                placeholder="IT_OPS_LEAD"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono"
+              />
+              <p className="mt-1 text-xs text-gray-500">Stored on employees; cannot be changed later.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name *</label>
+              <input
+                type="text"
+                required
+                value={roleForm.name}
+                onChange={(e) => setRoleForm({ ...roleForm, name: e.target.value })}
+                placeholder="IT Ops Lead"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Tier</label>
+              <ElegantSelect
+                options={(Object.keys(TIER_LABELS) as RoleTier[]).map(tier => ({ value: tier, label: TIER_LABELS[tier] }))}
+                value={roleForm.tier}
+                onChange={(value) => setRoleForm({ ...roleForm, tier: value as RoleTier })}
+                className="w-full"
+                size="md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Copy permissions from</label>
+              <ElegantSelect
+                options={roles.map(role => ({ value: role.key, label: role.name }))}
+                value={roleForm.copyFrom}
+                onChange={(value) => setRoleForm({ ...roleForm, copyFrom: value })}
+                placeholder="Start with no permissions"
+                showClearButton={true}
+                searchable={true}
+                className="w-full"
+                size="md"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <input
+                type="text"
+                value={roleForm.description}
+                onChange={(e) => setRoleForm({ ...roleForm, description: e.target.value })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => { setShowCreate(false); setRoleForm(emptyRoleForm); }}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create Role
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="mt-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Role list */}
+            <div className="bg-white shadow-sm rounded-lg divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+              {roles.map(role => (
+                <button
+                  key={role.key}
+                  onClick={() => selectRole(role.key)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${role.key === selectedKey ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{role.name}</span>
+                    {role.isAdmin && <ShieldCheck className="h-4 w-4 text-blue-600" />}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {TIER_LABELS[role.tier]} • {role.employeeCount} employee{role.employeeCount === 1 ? '' : 's'} • {role.permissions.length} permissions
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Role editor */}
+            {draft && (
+              <div className="lg:col-span-2 bg-white shadow-sm rounded-lg p-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{savedRole?.name}</h2>
+                    <p className="text-xs font-mono text-gray-500">{draft.key}{draft.isSystem ? ' • built-in' : ''}</p>
+                  </div>
+                  {!draft.isSystem && (
+                    <button
+                      onClick={() => handleDelete(draft)}
+                      disabled={draft.employeeCount > 0}
+                      title={draft.employeeCount > 0 ? 'Reassign employees before deleting this role' : 'Delete role'}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-red-600 hover:text-red-800 disabled:opacity-40"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </button>
+                  )}
+                </div>
+
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Name</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Tier</label>
+                    <ElegantSelect
+                      options={(Object.keys(TIER_LABELS) as RoleTier[]).map(tier => ({ value: tier, label: TIER_LABELS[tier] }))}
+                      value={draft.tier}
+                      onChange={(value) => setDraft({ ...draft, tier: value as RoleTier })}
+                      className="w-full"
+                      size="md"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Financial approval limit</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.approvalLimit ?? ''}
+                      onChange={(e) => setDraft({ ...draft, approvalLimit: e.target.value === '' ? null : Number(e.target.value) })}
+                      placeholder="No limit"
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <label className="inline-flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.isAdmin}
+                        onChange={(e) => setDraft({ ...draft, isAdmin: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                      />
+                      Administrator (requires two-factor authentication)
+                    </label>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">Description</label>
+                    <input
+                      type="text"
+                      value={draft.description ?? ''}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {permissionGroups.map(group => (
+                    <fieldset key={group.label}>
+                      <legend className="text-sm font-medium text-gray-900">{group.label}</legend>
+                      <div className="mt-2 space-y-1">
+                        {group.permissions.map(permission => (
+                          <label key={permission.key} className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={draft.permissions.includes(permission.key)}
+                              onChange={() => togglePermission(permission.key)}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                            />
+                            {permission.label}
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  ))}
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    onClick={() => selectRole(draft.key)}
+                    disabled={!isDirty || saving}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={!isDirty || saving}
+                    className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Changes'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!loading && (
+          <EmployeePermissionGrants permissionGroups={permissionGroups} />
+        )}
+      </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
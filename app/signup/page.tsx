@@ -279,6 +279,15 @@ export default function SignupPage() {
                 Sign in here
               </Link>
             </p>
+            <p className="mt-2 text-sm text-gray-600">
+              Forgot the password you set?{' '}
+              <Link 
+                href="/login?forgot=1" 
+                className="font-semibold text-green-600 hover:text-green-500 transition-colors duration-200"
+              >
+                Reset it
+              </Link>
+            </p>
           </div>
         </div>
 
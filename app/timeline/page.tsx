@@ -36,7 +36,7 @@ export default function TimelinePage() {
   ];
 
   return (
-    <ProtectedRoute requiredRoles={['CEO', 'CTO', 'HR', 'MANAGER', 'HR_MANAGER', 'ENGINEERING_MANAGER']}>
+    <ProtectedRoute requiresPermission="/timeline">
       <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
         <div className="sm:flex sm:items-center sm:justify-between">
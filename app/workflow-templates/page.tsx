@@ -0,0 +1,529 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import ElegantSelect from '@/components/ElegantSelect';
+import { useNotification } from '@/components/Notification';
+import type {
+  TemplateOptionsSource,
+  WorkflowRoutingRule,
+  WorkflowTemplateAttachment,
+  WorkflowTemplateDefinition,
+  WorkflowTemplateField
+} from '@/lib/workflowTemplateService';
+import type { PropertyDataType } from '@/types/resource-structure';
+
+const DATA_TYPES: PropertyDataType[] = ['STRING', 'NUMBER', 'BOOLEAN', 'DATE'];
+
+const OPTION_SOURCE_LABELS: Record<TemplateOptionsSource, string> = {
+  DEPARTMENTS: 'Company departments',
+  EXPENSE_CATEGORIES: 'Expense categories'
+};
+
+const formatType = (type: string) => type.replace(/_REQUEST$/, '').replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const inputClass = 'block w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm';
+
+export default function WorkflowTemplatesPage() {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [templates, setTemplates] = useState<WorkflowTemplateDefinition[]>([]);
+  const [workflowTypes, setWorkflowTypes] = useState<string[]>([]);
+  const [priorities, setPriorities] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedType, setSelectedType] = useState<string>('');
+  const [draft, setDraft] = useState<WorkflowTemplateDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newType, setNewType] = useState('');
+
+  const fetchTemplates = useCallback(async (selectType?: string) => {
+    try {
+      const response = await fetch('/api/workflows/templates?all=true');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: WorkflowTemplateDefinition[] = data.templates || [];
+        setTemplates(loaded);
+        setWorkflowTypes(data.workflowTypes || []);
+        setPriorities(data.priorities || []);
+
+        const type = selectType ?? (loaded[0]?.workflowType || '');
+        setSelectedType(type);
+        setDraft(loaded.find(template => template.workflowType === type) || null);
+        setIsNew(false);
+      } else {
+        showNotification('error', 'Fetch Failed', 'Failed to load workflow templates. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error fetching workflow templates:', error);
+      showNotification('error', 'Network Error', 'Unable to load workflow templates. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [showNotification]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const selectTemplate = (type: string) => {
+    setSelectedType(type);
+    setDraft(templates.find(template => template.workflowType === type) || null);
+    setIsNew(false);
+  };
+
+  const startNewTemplate = () => {
+    if (!newType) return;
+    setSelectedType(newType);
+    setIsNew(true);
+    setDraft({
+      workflowType: newType as WorkflowTemplateDefinition['workflowType'],
+      name: formatType(newType),
+      description: null,
+      icon: null,
+      titleTemplate: null,
+      fields: [{ key: 'justification', label: 'Business Justification', dataType: 'STRING', required: true, multiline: true }],
+      requiredAttachments: [],
+      routingRules: [],
+      defaultPriority: 'MEDIUM',
+      isActive: true
+    });
+    setNewType('');
+  };
+
+  const updateField = (index: number, changes: Partial<WorkflowTemplateField>) => {
+    if (!draft) return;
+    setDraft({ ...draft, fields: draft.fields.map((field, i) => i === index ? { ...field, ...changes } : field) });
+  };
+
+  const updateAttachment = (index: number, changes: Partial<WorkflowTemplateAttachment>) => {
+    if (!draft) return;
+    setDraft({ ...draft, requiredAttachments: draft.requiredAttachments.map((attachment, i) => i === index ? { ...attachment, ...changes } : attachment) });
+  };
+
+  const updateRule = (index: number, changes: Partial<WorkflowRoutingRule>) => {
+    if (!draft) return;
+    setDraft({ ...draft, routingRules: draft.routingRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const { workflowType, ...template } = draft;
+      const response = await fetch(isNew ? '/api/workflows/templates' : `/api/workflows/templates/${workflowType}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew ? draft : template)
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Template Saved', `${draft.name} was saved.`);
+        await fetchTemplates(workflowType);
+      } else {
+        showNotification('error', 'Save Failed', data.error || 'Failed to save template.');
+      }
+    } catch (error) {
+      console.error('Error saving workflow template:', error);
+      showNotification('error', 'Network Error', 'Unable to save template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || !confirm(`Delete the ${draft.name} template? Employees will no longer be able to raise this request from the dashboard.`)) return;
+    try {
+      const response = await fetch(`/api/workflows/templates/${draft.workflowType}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Template Deleted', `${draft.name} was deleted.`);
+        await fetchTemplates('');
+      } else {
+        showNotification('error', 'Delete Failed', data.error || 'Failed to delete template.');
+      }
+    } catch (error) {
+      console.error('Error deleting workflow template:', error);
+      showNotification('error', 'Network Error', 'Unable to delete template. Please try again.');
+    }
+  };
+
+  const unusedTypes = workflowTypes.filter(type => !templates.some(template => template.workflowType === type));
+
+  return (
+    <ProtectedRoute requiresPermission="/workflow-templates">
+      <div className="min-h-screen bg-gray-50">
+      {NotificationComponent}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Workflow Templates</h1>
+            <p className="mt-2 text-sm sm:text-base text-gray-600">
+              Define the request form, required attachments and approval routing for each workflow type. Every change is recorded in the audit log.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-2">
+            <div className="w-56">
+              <ElegantSelect
+                options={unusedTypes.map(type => ({ value: type, label: formatType(type) }))}
+                value={newType}
+                onChange={setNewType}
+                placeholder="Workflow type"
+                searchable={true}
+                className="w-full"
+                size="md"
+              />
+            </div>
+            <button
+              onClick={startNewTemplate}
+              disabled={!newType}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="mt-12 flex justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Template list */}
+            <div className="bg-white shadow-sm rounded-lg divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+              {templates.map(template => (
+                <button
+                  key={template.workflowType}
+                  onClick={() => selectTemplate(template.workflowType)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${template.workflowType === selectedType ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{template.icon} {template.name}</span>
+                    {!template.isActive && <span className="text-xs text-gray-500">inactive</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {template.fields.length} fields • {template.requiredAttachments.length} attachments • {template.routingRules.length} routing rules
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Template editor */}
+            {draft && (
+              <div className="lg:col-span-2 bg-white shadow-sm rounded-lg p-6 space-y-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{draft.name || formatType(draft.workflowType)}</h2>
+                    <p className="text-xs font-mono text-gray-500">{draft.workflowType}{isNew ? ' • new' : ''}</p>
+                  </div>
+                  {!isNew && (
+                    <button
+                      onClick={handleDelete}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Name</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className={`mt-1 ${inputClass}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Icon</label>
+                    <input
+                      type="text"
+                      value={draft.icon ?? ''}
+                      onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                      placeholder="e.g. ✈️"
+                      className={`mt-1 ${inputClass}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Request title</label>
+                    <input
+                      type="text"
+                      value={draft.titleTemplate ?? ''}
+                      onChange={(e) => setDraft({ ...draft, titleTemplate: e.target.value })}
+                      placeholder="Travel to {destination}"
+                      className={`mt-1 ${inputClass}`}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Use {'{fieldKey}'} to insert a field value.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Default priority</label>
+                    <ElegantSelect
+                      options={priorities.map(priority => ({ value: priority, label: priority }))}
+                      value={draft.defaultPriority}
+                      onChange={(value) => setDraft({ ...draft, defaultPriority: value as WorkflowTemplateDefinition['defaultPriority'] })}
+                      className="w-full"
+                      size="md"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">Description</label>
+                    <input
+                      type="text"
+                      value={draft.description ?? ''}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      className={`mt-1 ${inputClass}`}
+                    />
+                  </div>
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.isActive}
+                      onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    Employees can raise this request
+                  </label>
+                </div>
+
+                {/* Fields */}
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-900">Form fields</legend>
+                  <p className="text-xs text-gray-500">A NUMBER field with the key <span className="font-mono">amount</span> is the request amount used for routing.</p>
+                  <div className="mt-2 space-y-2">
+                    {draft.fields.map((field, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <input
+                          type="text"
+                          value={field.key}
+                          onChange={(e) => updateField(index, { key: e.target.value })}
+                          placeholder="key"
+                          className={`col-span-2 font-mono ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={field.label}
+                          onChange={(e) => updateField(index, { label: e.target.value })}
+                          placeholder="Label"
+                          className={`col-span-3 ${inputClass}`}
+                        />
+                        <select
+                          value={field.dataType}
+                          onChange={(e) => updateField(index, { dataType: e.target.value as PropertyDataType, options: undefined, optionsSource: undefined, multiline: undefined })}
+                          className={`col-span-2 ${inputClass}`}
+                        >
+                          {DATA_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        {field.dataType === 'STRING' ? (
+                          <div className="col-span-3 flex gap-1">
+                            <select
+                              value={field.optionsSource ?? ''}
+                              onChange={(e) => updateField(index, { optionsSource: (e.target.value || undefined) as TemplateOptionsSource | undefined, options: undefined })}
+                              className={inputClass}
+                              title="Allowed values"
+                            >
+                              <option value="">Free text / list</option>
+                              {(Object.keys(OPTION_SOURCE_LABELS) as TemplateOptionsSource[]).map(source => (
+                                <option key={source} value={source}>{OPTION_SOURCE_LABELS[source]}</option>
+                              ))}
+                            </select>
+                            {!field.optionsSource && (
+                              <input
+                                type="text"
+                                value={(field.options || []).join(', ')}
+                                onChange={(e) => updateField(index, { options: e.target.value ? splitList(e.target.value) : undefined })}
+                                placeholder="a, b, c"
+                                title="Allowed values, comma separated"
+                                className={inputClass}
+                              />
+                            )}
+                          </div>
+                        ) : field.dataType === 'NUMBER' ? (
+                          <div className="col-span-3 flex gap-1">
+                            <input
+                              type="number"
+                              value={field.min ?? ''}
+                              onChange={(e) => updateField(index, { min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                              placeholder="min"
+                              className={inputClass}
+                            />
+                            <input
+                              type="number"
+                              value={field.max ?? ''}
+                              onChange={(e) => updateField(index, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                              placeholder="max"
+                              className={inputClass}
+                            />
+                          </div>
+                        ) : (
+                          <div className="col-span-3" />
+                        )}
+                        <label className="col-span-1 inline-flex items-center text-xs text-gray-700" title="Required">
+                          <input
+                            type="checkbox"
+                            checked={!!field.required}
+                            onChange={(e) => updateField(index, { required: e.target.checked })}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-1"
+                          />
+                          Req.
+                        </label>
+                        <button
+                          onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                          className="col-span-1 text-gray-400 hover:text-red-600"
+                          title="Remove field"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setDraft({ ...draft, fields: [...draft.fields, { key: '', label: '', dataType: 'STRING' }] })}
+                    className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add field
+                  </button>
+                </fieldset>
+
+                {/* Required attachments */}
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-900">Required attachments</legend>
+                  <div className="mt-2 space-y-2">
+                    {draft.requiredAttachments.map((attachment, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <input
+                          type="text"
+                          value={attachment.key}
+                          onChange={(e) => updateAttachment(index, { key: e.target.value })}
+                          placeholder="key"
+                          className={`col-span-3 font-mono ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={attachment.label}
+                          onChange={(e) => updateAttachment(index, { label: e.target.value })}
+                          placeholder="Label, e.g. Itinerary or quote"
+                          className={`col-span-8 ${inputClass}`}
+                        />
+                        <button
+                          onClick={() => setDraft({ ...draft, requiredAttachments: draft.requiredAttachments.filter((_, i) => i !== index) })}
+                          className="col-span-1 text-gray-400 hover:text-red-600"
+                          title="Remove attachment"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setDraft({ ...draft, requiredAttachments: [...draft.requiredAttachments, { key: '', label: '' }] })}
+                    className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add attachment
+                  </button>
+                </fieldset>
+
+                {/* Routing rules */}
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-900">Routing rules</legend>
+                  <p className="text-xs text-gray-500">
+                    The first rule that matches the amount and the requester&apos;s department applies. Its roles each approve in turn; with no roles the built-in routing is used. No match also uses the built-in routing.
+                  </p>
+                  <div className="mt-2 space-y-2">
+                    {draft.routingRules.map((rule, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <input
+                          type="number"
+                          value={rule.minAmount ?? ''}
+                          onChange={(e) => updateRule(index, { minAmount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          placeholder="Above"
+                          title="Amounts above"
+                          className={`col-span-2 ${inputClass}`}
+                        />
+                        <input
+                          type="number"
+                          value={rule.maxAmount ?? ''}
+                          onChange={(e) => updateRule(index, { maxAmount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          placeholder="Up to"
+                          title="Amounts up to"
+                          className={`col-span-2 ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={(rule.departments || []).join(', ')}
+                          onChange={(e) => updateRule(index, { departments: e.target.value ? splitList(e.target.value) : undefined })}
+                          placeholder="Any department"
+                          title="Requester departments, comma separated"
+                          className={`col-span-3 ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={(rule.approverRoles || []).join(', ')}
+                          onChange={(e) => updateRule(index, { approverRoles: e.target.value ? splitList(e.target.value) : undefined })}
+                          placeholder="Built-in routing"
+                          title="Approver role keys in order, comma separated"
+                          className={`col-span-3 font-mono ${inputClass}`}
+                        />
+                        <select
+                          value={rule.priority ?? ''}
+                          onChange={(e) => updateRule(index, { priority: (e.target.value || undefined) as WorkflowRoutingRule['priority'] })}
+                          className={`col-span-1 ${inputClass}`}
+                          title="Priority"
+                        >
+                          <option value="">—</option>
+                          {priorities.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                        </select>
+                        <button
+                          onClick={() => setDraft({ ...draft, routingRules: draft.routingRules.filter((_, i) => i !== index) })}
+                          className="col-span-1 text-gray-400 hover:text-red-600"
+                          title="Remove rule"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setDraft({ ...draft, routingRules: [...draft.routingRules, {}] })}
+                    className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add rule
+                  </button>
+                </fieldset>
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => isNew ? fetchTemplates('') : selectTemplate(draft.workflowType)}
+                    disabled={saving}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : isNew ? 'Create Template' : 'Save Changes'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
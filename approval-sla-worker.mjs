@@ -0,0 +1,88 @@
+// Standalone approval SLA worker: asks the portal to run its SLA sweep, the due date
+// sweep for time-bound resource assignments and the reservation sweep, on an interval.
+// This is the default way to run the sweeps; the in-server scheduler only starts with
+// APPROVAL_SLA_SCHEDULER=on and suits a single instance that never sleeps.
+// The token's account needs Approve any workflow for the SLA sweep and Assign and return
+// resources for the assignment and reservation sweeps.
+import 'dotenv/config';
+
+const baseUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const token = process.env.APPROVAL_SLA_WORKER_TOKEN;
+const intervalMinutes = parseInt(process.env.APPROVAL_SLA_INTERVAL_MINUTES || '5');
+const runOnce = process.argv.includes('--once');
+
+async function post(path) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  const body = await response.json().catch(() => ({}));
+  return { response, body };
+}
+
+async function sweep() {
+  let ok = true;
+
+  try {
+    const { response, body } = await post('/api/workflows/sla');
+    if (!response.ok) {
+      console.error(`SLA sweep failed (${response.status}): ${body.error || response.statusText}`);
+      ok = false;
+    } else {
+      console.log(`${new Date().toISOString()} SLA sweep: ${body.rerouted} delegated, ${body.initialized} clocks started, ${body.reminded} reminded, ${body.breached} breached, ${body.escalated} escalated`);
+    }
+  } catch (error) {
+    console.error('SLA sweep request failed:', error.message);
+    ok = false;
+  }
+
+  try {
+    const { response, body } = await post('/api/resources/assignments/overdue');
+    if (!response.ok) {
+      console.error(`Assignment due sweep failed (${response.status}): ${body.error || response.statusText}`);
+      ok = false;
+    } else {
+      console.log(`${new Date().toISOString()} Assignment due sweep: ${body.reminded} reminded, ${body.overdue} overdue, ${body.revoked} revoked`);
+    }
+  } catch (error) {
+    console.error('Assignment due sweep request failed:', error.message);
+    ok = false;
+  }
+
+  try {
+    const { response, body } = await post('/api/resources/assignments/reservations');
+    if (!response.ok) {
+      console.error(`Reservation sweep failed (${response.status}): ${body.error || response.statusText}`);
+      ok = false;
+    } else {
+      console.log(`${new Date().toISOString()} Reservation sweep: ${body.started} started, ${body.failed} failed, ${body.ended} ended`);
+    }
+  } catch (error) {
+    console.error('Reservation sweep request failed:', error.message);
+    ok = false;
+  }
+
+  return ok;
+}
+
+async function main() {
+  if (!token) {
+    console.error('Set APPROVAL_SLA_WORKER_TOKEN to an API token with the workflows:write and assignments:write scopes');
+    process.exit(1);
+  }
+
+  if (runOnce) {
+    process.exit((await sweep()) ? 0 : 1);
+  }
+
+  console.log(`Running the approval SLA, assignment due and reservation sweeps against ${baseUrl} every ${intervalMinutes} minutes`);
+
+  // The next sweep is only scheduled once this one has finished, so a slow sweep never overlaps the next
+  const loop = async () => {
+    await sweep();
+    setTimeout(loop, intervalMinutes * 60 * 1000);
+  };
+  await loop();
+}
+
+main();
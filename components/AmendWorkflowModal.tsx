@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+
+interface AmendWorkflowModalProps {
+  workflow: {
+    id: string;
+    data: {
+      title?: string;
+      description?: string;
+      amount?: number;
+      justification?: string;
+    } | null;
+  };
+  onAmended: (approvalRestarted: boolean) => void;
+  onCancel: () => void;
+}
+
+// Requester edits a pending request; only the fields that changed are sent
+export default function AmendWorkflowModal({ workflow, onAmended, onCancel }: AmendWorkflowModalProps) {
+  const [title, setTitle] = useState<string>(workflow.data?.title || '');
+  const [description, setDescription] = useState<string>(workflow.data?.description || '');
+  const [amount, setAmount] = useState<string>(workflow.data?.amount !== undefined ? String(workflow.data.amount) : '');
+  const [justification, setJustification] = useState<string>(workflow.data?.justification || '');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasAmount = workflow.data?.amount !== undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const changes: Record<string, unknown> = {};
+    if (title !== (workflow.data?.title || '')) changes.title = title;
+    if (description !== (workflow.data?.description || '')) changes.description = description;
+    if (justification !== (workflow.data?.justification || '')) changes.justification = justification;
+    if (hasAmount && Number(amount) !== Number(workflow.data?.amount)) changes.amount = Number(amount);
+
+    if (Object.keys(changes).length === 0) {
+      setError('Nothing has changed');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/workflows/${workflow.id}/amend`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ changes, reason }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        onAmended(Boolean(data.approvalRestarted));
+      } else {
+        setError(data.error || 'Failed to amend request');
+      }
+    } catch (error) {
+      console.error('Error amending workflow:', error);
+      setError('Unable to amend request. Please check your connection and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900">Amend Request</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          The approver is told what changed. A new amount that needs a different approval chain restarts the approval.
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {hasAmount && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Amount</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Justification</label>
+            <textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              rows={2}
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reason for the change</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+              className="mt-1 block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-300 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-400"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, KeySquare, Plus } from 'lucide-react';
+import { useNotification } from '@/components/Notification';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  kind: 'PERSONAL' | 'SERVICE';
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  employee: { id: string; name: string; email: string };
+  createdBy: { id: string; name: string } | null;
+}
+
+interface ScopeOption {
+  scope: string;
+  description: string;
+}
+
+interface ServiceAccount {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const emptyForm = {
+  name: '',
+  kind: 'PERSONAL' as 'PERSONAL' | 'SERVICE',
+  employeeId: '',
+  expiresAt: '',
+  scopes: [] as string[]
+};
+
+function getTokenState(token: ApiToken): { label: string; className: string } {
+  if (token.revokedAt) {
+    return { label: 'Revoked', className: 'bg-gray-100 text-gray-600' };
+  }
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'bg-amber-100 text-amber-800' };
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+}
+
+export default function ApiTokenSettings() {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopeOptions, setScopeOptions] = useState<ScopeOption[]>([]);
+  const [serviceAccounts, setServiceAccounts] = useState<ServiceAccount[]>([]);
+  const [canIssueServiceTokens, setCanIssueServiceTokens] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/auth/api-tokens');
+      if (response.ok) {
+        const data = await response.json();
+        setTokens(data.tokens || []);
+        setScopeOptions(data.scopes || []);
+        setServiceAccounts(data.serviceAccounts || []);
+        setCanIssueServiceTokens(!!data.canIssueServiceTokens);
+      }
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setForm(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(existing => existing !== scope)
+        : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleCreateToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await fetch('/api/auth/api-tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          kind: form.kind,
+          employeeId: form.kind === 'SERVICE' ? form.employeeId : undefined,
+          scopes: form.scopes,
+          // Tokens expire at the end of the chosen day
+          expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setNewSecret(data.secret);
+        setShowForm(false);
+        setForm(emptyForm);
+        await fetchTokens();
+      } else {
+        showNotification('error', 'Token Not Created', data.error || 'Failed to create API token');
+      }
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      showNotification('error', 'Network Error', 'Unable to create API token. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    try {
+      const response = await fetch(`/api/auth/api-tokens/${token.id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Token Revoked', `"${token.name}" can no longer be used`);
+        await fetchTokens();
+      } else {
+        showNotification('error', 'Revoke Failed', data.error || 'Failed to revoke API token');
+      }
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      showNotification('error', 'Network Error', 'Unable to revoke API token. Please try again.');
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      showNotification('success', 'Copied', 'Token copied to clipboard');
+    } catch {
+      showNotification('error', 'Copy Failed', 'Select the token and copy it manually');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {NotificationComponent}
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <KeySquare className="h-5 w-5 mr-2 text-gray-500" />
+            API Tokens
+          </h3>
+          <p className="text-sm text-gray-600">
+            Tokens let scripts call the API with <code className="text-xs bg-gray-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code>, limited to the scopes you choose.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => {
+              setShowForm(true);
+              setNewSecret(null);
+            }}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New token
+          </button>
+        )}
+      </div>
+
+      {newSecret && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-amber-900 mb-1">Copy your new token</h4>
+          <p className="text-xs text-amber-800 mb-3">It will not be shown again. Store it somewhere safe.</p>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 text-sm font-mono text-gray-800 bg-white border border-amber-200 rounded px-3 py-2 break-all">
+              {newSecret}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopySecret}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-amber-900 border border-amber-300 rounded-lg hover:bg-amber-100 transition-colors"
+            >
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewSecret(null)}
+            className="mt-3 text-sm font-medium text-amber-900 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreateToken} className="space-y-4 bg-gray-50 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Asset sync script"
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Expires on <span className="text-gray-400">(within a year)</span>
+              </label>
+              <input
+                type="date"
+                required
+                value={form.expiresAt}
+                min={new Date().toISOString().split('T')[0]}
+                max={new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]}
+                onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          {canIssueServiceTokens && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => setForm(prev => ({ ...prev, kind: e.target.value as 'PERSONAL' | 'SERVICE' }))}
+                  className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="PERSONAL">Personal (acts as you)</option>
+                  <option value="SERVICE">Service (acts as a service account)</option>
+                </select>
+              </div>
+              {form.kind === 'SERVICE' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Service account</label>
+                  <select
+                    required
+                    value={form.employeeId}
+                    onChange={(e) => setForm(prev => ({ ...prev, employeeId: e.target.value }))}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">{serviceAccounts.length > 0 ? 'Select an account' : 'No accounts are marked as service accounts'}</option>
+                    {serviceAccounts.map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({account.email})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Scopes</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {scopeOptions.map(option => (
+                <label key={option.scope} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.scopes.includes(option.scope)}
+                    onChange={() => toggleScope(option.scope)}
+                    className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>
+                    <span className="font-mono text-gray-900">{option.scope}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={submitting || form.scopes.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {submitting ? 'Creating...' : 'Create token'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyForm);
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">You have no API tokens.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {tokens.map(token => {
+            const state = getTokenState(token);
+            return (
+              <li key={token.id} className="flex items-start justify-between px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {token.name}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${state.className}`}>
+                      {state.label}
+                    </span>
+                    {token.kind === 'SERVICE' && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                        Service · {token.employee.name}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs font-mono text-gray-500">{token.prefix}… · {token.scopes.join(', ')}</p>
+                  <p className="text-xs text-gray-500">
+                    Created {new Date(token.createdAt).toLocaleDateString()}
+                    {token.createdBy && token.createdBy.id !== token.employee.id && ` by ${token.createdBy.name}`}
+                    {' · '}
+                    {token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'Never expires'}
+                    {' · '}
+                    {token.lastUsedAt
+                      ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevokeToken(token)}
+                    className="ml-4 text-sm font-medium text-red-600 hover:text-red-800"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ import { useState, useEffect } from 'react';
 import { canApproveOperationalLevel, canApproveExecutiveLevel, canApproveDepartmentLevel } from '@/lib/roleAuthClient';
 import { useNotification } from './Notification';
 import OperationalRequestForm from './OperationalRequestForm';
+import SlaBadge from './SlaBadge';
+import WorkflowThread from './WorkflowThread';
+import type { ApprovalSlaSummary } from '@/lib/approvalSlaService';
+import type { WorkflowTemplateDefinition } from '@/lib/workflowTemplateService';
 
 interface WorkflowItem {
   id: string;
@@ -19,6 +23,10 @@ interface WorkflowItem {
     department: string;
   };
   data: any;
+  currentStage?: number;
+  totalStages?: number;
+  sla?: ApprovalSlaSummary | null;
+  delegatedFrom?: { id: string; name: string } | null;
 }
 
 interface WorkflowStats {
@@ -36,6 +44,8 @@ interface ApprovalDashboardProps {
 export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardProps) {
   const { showNotification } = useNotification();
   const [pendingWorkflows, setPendingWorkflows] = useState<WorkflowItem[]>([]);
+  const [awaitingInfoWorkflows, setAwaitingInfoWorkflows] = useState<WorkflowItem[]>([]);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
   const [stats, setStats] = useState<WorkflowStats>({
     pendingApprovals: 0,
     approvedRequests: 0,
@@ -46,6 +56,7 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
   const [userRole, setUserRole] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [showRequestForm, setShowRequestForm] = useState<string | null>(null);
+  const [requestTemplates, setRequestTemplates] = useState<WorkflowTemplateDefinition[]>([]);
 
   const canApproveRequests = (role: string): boolean => {
     return canApproveOperationalLevel(role) || canApproveExecutiveLevel(role) || canApproveDepartmentLevel(role);
@@ -65,15 +76,28 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
 
         // Fetch pending workflows if user can approve
         if (canApproveRequests(userData.role)) {
-          const workflowsResponse = await fetch(`/api/workflows/pending?approverId=${currentUserId}`);
+          const workflowsResponse = await fetch('/api/workflows/pending');
           if (workflowsResponse.ok) {
             const workflows = await workflowsResponse.json();
             setPendingWorkflows(workflows);
           }
         }
 
+        // Requests an approver sent back to this user for more information
+        const awaitingInfoResponse = await fetch('/api/workflows/awaiting-info');
+        if (awaitingInfoResponse.ok) {
+          setAwaitingInfoWorkflows(await awaitingInfoResponse.json());
+        }
+
+        // Request types employees can raise, one per active template
+        const templatesResponse = await fetch('/api/workflows/templates');
+        if (templatesResponse.ok) {
+          const templatesData = await templatesResponse.json();
+          setRequestTemplates(templatesData.templates);
+        }
+
         // Fetch workflow statistics
-        const statsResponse = await fetch(`/api/workflows/stats?userId=${currentUserId}`);
+        const statsResponse = await fetch('/api/workflows/stats');
         if (statsResponse.ok) {
           const statsData = await statsResponse.json();
           setStats(statsData);
@@ -93,14 +117,18 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'approve',
-          approverId: currentUserId,
           comments: 'Approved via dashboard'
         })
       });
 
       if (response.ok) {
+        const data = await response.json();
         fetchDashboardData(); // Refresh data
-        showNotification('success', 'Request Approved', 'The request has been successfully approved.');
+        if (data.fulfilment?.status === 'FAILED') {
+          showNotification('warning', 'Approved, Fulfilment Failed', `${data.fulfilment.error || 'The request could not be fulfilled'}. It can be retried from the approvals page.`);
+        } else {
+          showNotification('success', 'Request Approved', data.fulfilment?.summary || 'The request has been successfully approved.');
+        }
       } else {
         const error = await response.json();
         showNotification('error', 'Approval Failed', error.error || 'Failed to approve request');
@@ -121,7 +149,6 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'reject',
-          approverId: currentUserId,
           comments: reason
         })
       });
@@ -259,6 +286,40 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
         </div>
       </div>
 
+      {/* Requests sent back to the user for more information */}
+      {awaitingInfoWorkflows.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+              Waiting on Your Reply ({awaitingInfoWorkflows.length})
+            </h3>
+            <div className="space-y-4">
+              {awaitingInfoWorkflows.map((workflow) => (
+                <div key={workflow.id} className="border border-yellow-200 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <span className="text-lg">{getWorkflowTypeIcon(workflow.type)}</span>
+                    <h4 className="text-sm font-medium text-gray-900">
+                      {workflow.displayTitle}
+                    </h4>
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                      Needs info
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {workflow.displayDescription}
+                  </p>
+                  <WorkflowThread
+                    workflowId={workflow.id}
+                    isRequester
+                    onStatusChange={() => fetchDashboardData()}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Pending Approvals */}
       {canApproveRequests(userRole) && (
         <div className="bg-white shadow rounded-lg">
@@ -286,6 +347,7 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
                           <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getPriorityColor(workflow.priority)}`}>
                             {workflow.priority}
                           </span>
+                          <SlaBadge sla={workflow.sla} />
                         </div>
                         <p className="text-sm text-gray-600 mb-2">
                           {workflow.displayDescription}
@@ -295,9 +357,21 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
                           <span>Department: {workflow.requester.department}</span>
                           <span>Role: {workflow.requester.role}</span>
                           <span>Date: {new Date(workflow.createdAt).toLocaleDateString()}</span>
+                          {workflow.totalStages && workflow.totalStages > 1 && (
+                            <span>Stage {workflow.currentStage} of {workflow.totalStages}</span>
+                          )}
+                          {workflow.delegatedFrom && (
+                            <span>On behalf of: {workflow.delegatedFrom.name}</span>
+                          )}
                         </div>
                       </div>
                       <div className="flex space-x-2 ml-4">
+                        <button
+                          onClick={() => setOpenThreadId(openThreadId === workflow.id ? null : workflow.id)}
+                          className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          {openThreadId === workflow.id ? 'Hide discussion' : 'Discuss'}
+                        </button>
                         <button
                           onClick={() => handleApprove(workflow.id)}
                           className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded text-white bg-green-600 hover:bg-green-700"
@@ -312,6 +386,15 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
                         </button>
                       </div>
                     </div>
+                    {openThreadId === workflow.id && (
+                      <div className="mt-4 pt-4 border-t border-gray-200">
+                        <WorkflowThread
+                          workflowId={workflow.id}
+                          canRequestInfo
+                          onStatusChange={() => fetchDashboardData()}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -328,34 +411,17 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
               Submit Operational Requests
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              <button 
-                onClick={() => setShowRequestForm('IT_EQUIPMENT')}
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
-              >
-                <span className="text-2xl mb-2">💻</span>
-                <span className="text-sm font-medium">IT Equipment</span>
-              </button>
-              <button 
-                onClick={() => setShowRequestForm('SOFTWARE_LICENSE')}
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
-              >
-                <span className="text-2xl mb-2">📦</span>
-                <span className="text-sm font-medium">Software License</span>
-              </button>
-              <button 
-                onClick={() => setShowRequestForm('EXPENSE_APPROVAL')}
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
-              >
-                <span className="text-2xl mb-2">💰</span>
-                <span className="text-sm font-medium">Expense Approval</span>
-              </button>
-              <button 
-                onClick={() => setShowRequestForm('HIRING')}
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
-              >
-                <span className="text-2xl mb-2">👤</span>
-                <span className="text-sm font-medium">New Hire</span>
-              </button>
+              {requestTemplates.map(template => (
+                <button
+                  key={template.workflowType}
+                  onClick={() => setShowRequestForm(template.workflowType)}
+                  title={template.description || undefined}
+                  className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                >
+                  <span className="text-2xl mb-2">{template.icon || '📝'}</span>
+                  <span className="text-sm font-medium">{template.name}</span>
+                </button>
+              ))}
             </div>
             <div className="mt-4 pt-4 border-t border-gray-200">
               <p className="text-sm text-gray-600">
@@ -369,8 +435,7 @@ export default function ApprovalDashboard({ currentUserId }: ApprovalDashboardPr
       {/* Operational Request Form Modal */}
       {showRequestForm && (
         <OperationalRequestForm
-          currentUserId={currentUserId}
-          requestType={showRequestForm as any}
+          workflowType={showRequestForm}
           onClose={() => setShowRequestForm(null)}
           onSuccess={() => {
             fetchDashboardData(); // Refresh dashboard data
@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarOff, Plus } from 'lucide-react';
+import { useNotification } from '@/components/Notification';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface Delegation {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  workflowTypes: string[];
+  reason: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  delegator: { id: string; name: string; email: string };
+  delegate: { id: string; name: string; email: string };
+  createdBy: { id: string; name: string } | null;
+}
+
+interface EmployeeOption {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+const emptyForm = {
+  delegatorId: '',
+  delegateId: '',
+  startsAt: '',
+  endsAt: '',
+  workflowTypes: [] as string[],
+  reason: ''
+};
+
+function getDelegationState(delegation: Delegation): { label: string; className: string } {
+  const now = new Date();
+  if (delegation.revokedAt) {
+    return { label: 'Revoked', className: 'bg-gray-100 text-gray-600' };
+  }
+  if (new Date(delegation.endsAt) <= now) {
+    return { label: 'Ended', className: 'bg-gray-100 text-gray-600' };
+  }
+  if (new Date(delegation.startsAt) > now) {
+    return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+}
+
+const formatType = (type: string) => type.replace(/_REQUEST$/, '').replace(/_/g, ' ').toLowerCase();
+
+export default function ApprovalDelegationSettings() {
+  const { user } = useAuth();
+  const { showNotification, NotificationComponent } = useNotification();
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [workflowTypes, setWorkflowTypes] = useState<string[]>([]);
+  const [canManageOthers, setCanManageOthers] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, []);
+
+  const fetchDelegations = async () => {
+    try {
+      const response = await fetch('/api/delegations');
+      if (response.ok) {
+        const data = await response.json();
+        setDelegations(data.delegations || []);
+        setEmployees(data.employees || []);
+        setWorkflowTypes(data.workflowTypes || []);
+        setCanManageOthers(!!data.canManageOthers);
+      }
+    } catch (error) {
+      console.error('Error fetching delegations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleWorkflowType = (type: string) => {
+    setForm(prev => ({
+      ...prev,
+      workflowTypes: prev.workflowTypes.includes(type)
+        ? prev.workflowTypes.filter(existing => existing !== type)
+        : [...prev.workflowTypes, type]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await fetch('/api/delegations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          delegatorId: form.delegatorId || undefined,
+          delegateId: form.delegateId,
+          // The range covers whole days: from the start of the first to the end of the last
+          startsAt: new Date(`${form.startsAt}T00:00:00`).toISOString(),
+          endsAt: new Date(`${form.endsAt}T23:59:59`).toISOString(),
+          workflowTypes: form.workflowTypes,
+          reason: form.reason || null
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification(
+          'success',
+          'Delegate Registered',
+          data.rerouted ? `${data.rerouted} pending approval(s) were handed over.` : 'Approvals will be routed to your delegate during this period.'
+        );
+        setShowForm(false);
+        setForm(emptyForm);
+        await fetchDelegations();
+      } else {
+        showNotification('error', 'Delegation Not Saved', data.error || 'Failed to register delegate');
+      }
+    } catch (error) {
+      console.error('Error creating delegation:', error);
+      showNotification('error', 'Network Error', 'Unable to register delegate. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (delegation: Delegation) => {
+    try {
+      const response = await fetch(`/api/delegations/${delegation.id}`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification(
+          'success',
+          'Delegation Ended',
+          data.rerouted ? `${data.rerouted} pending approval(s) returned to ${delegation.delegator.name}.` : `${delegation.delegate.name} no longer approves on ${delegation.delegator.name}'s behalf.`
+        );
+        await fetchDelegations();
+      } else {
+        showNotification('error', 'Revoke Failed', data.error || 'Failed to end delegation');
+      }
+    } catch (error) {
+      console.error('Error revoking delegation:', error);
+      showNotification('error', 'Network Error', 'Unable to end delegation. Please try again.');
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const delegatorId = form.delegatorId || user?.id;
+
+  return (
+    <div className="space-y-6">
+      {NotificationComponent}
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <CalendarOff className="h-5 w-5 mr-2 text-gray-500" />
+            Out of Office
+          </h3>
+          <p className="text-sm text-gray-600">
+            While you are away, new and pending approvals are routed to your delegate. Their decisions are recorded as made on your behalf.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New delegation
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="space-y-4 bg-gray-50 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {canManageOthers && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Approvals of</label>
+                <select
+                  value={form.delegatorId}
+                  onChange={(e) => setForm(prev => ({ ...prev, delegatorId: e.target.value }))}
+                  className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Me</option>
+                  {employees.filter(employee => employee.id !== user?.id).map(employee => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.name} ({employee.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delegate</label>
+              <select
+                required
+                value={form.delegateId}
+                onChange={(e) => setForm(prev => ({ ...prev, delegateId: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Select a colleague</option>
+                {employees.filter(employee => employee.id !== delegatorId).map(employee => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.name} ({employee.role.replace(/_/g, ' ')})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                required
+                min={today}
+                value={form.startsAt}
+                onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+              <input
+                type="date"
+                required
+                min={form.startsAt || today}
+                value={form.endsAt}
+                onChange={(e) => setForm(prev => ({ ...prev, endsAt: e.target.value }))}
+                className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason <span className="text-gray-400">(optional)</span></label>
+            <input
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="e.g. Annual leave"
+              className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Workflow types <span className="text-gray-400">(none selected means all)</span>
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {workflowTypes.map(type => (
+                <label key={type} className="flex items-center space-x-2 text-sm capitalize">
+                  <input
+                    type="checkbox"
+                    checked={form.workflowTypes.includes(type)}
+                    onChange={() => toggleWorkflowType(type)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>{formatType(type)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={submitting || !form.delegateId}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {submitting ? 'Saving...' : 'Save delegation'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyForm);
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading delegations...</p>
+      ) : delegations.length === 0 ? (
+        <p className="text-sm text-gray-500">No delegations. Your approvals come to you.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {delegations.map(delegation => {
+            const state = getDelegationState(delegation);
+            const isMine = delegation.delegator.id === user?.id;
+            return (
+              <li key={delegation.id} className="flex items-start justify-between px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {isMine
+                      ? `${delegation.delegate.name} approves for you`
+                      : delegation.delegate.id === user?.id
+                        ? `You approve for ${delegation.delegator.name}`
+                        : `${delegation.delegate.name} approves for ${delegation.delegator.name}`}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${state.className}`}>
+                      {state.label}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(delegation.startsAt).toLocaleDateString()} – {new Date(delegation.endsAt).toLocaleDateString()}
+                    {' · '}
+                    {delegation.workflowTypes.length ? delegation.workflowTypes.map(formatType).join(', ') : 'All workflow types'}
+                    {delegation.reason && ` · ${delegation.reason}`}
+                    {delegation.createdBy && delegation.createdBy.id !== delegation.delegator.id && ` · Set up by ${delegation.createdBy.name}`}
+                  </p>
+                </div>
+                {!delegation.revokedAt && new Date(delegation.endsAt) > new Date() && (isMine || canManageOthers || delegation.createdBy?.id === user?.id) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(delegation)}
+                    className="ml-4 text-sm font-medium text-red-600 hover:text-red-800"
+                  >
+                    End
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
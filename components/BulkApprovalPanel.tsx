@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import type { BulkDecisionItemResult } from '@/lib/workflowService';
+
+interface PendingWorkflow {
+  id: string;
+  type: string;
+  displayTitle: string;
+  amount: number;
+  priority: string;
+  operationalCategory: string;
+  createdAt: string;
+  requester: {
+    name: string;
+    department: string;
+  };
+}
+
+interface BulkApprovalPanelProps {
+  onDecided: (summary: { action: 'approve' | 'reject'; succeeded: number; failed: number }) => void;
+}
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+// Multi-select list of the workflows awaiting the signed-in approver, decided in one call
+export default function BulkApprovalPanel({ onDecided }: BulkApprovalPanelProps) {
+  const [workflows, setWorkflows] = useState<PendingWorkflow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comments, setComments] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<Record<string, BulkDecisionItemResult>>({});
+  const [decidedTitles, setDecidedTitles] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchPending();
+  }, []);
+
+  const fetchPending = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/workflows/pending');
+      if (response.ok) {
+        const data: PendingWorkflow[] = await response.json();
+        setWorkflows(data);
+        setSelected(prev => new Set(Array.from(prev).filter(id => data.some(workflow => workflow.id === id))));
+      }
+    } catch (error) {
+      console.error('Error fetching pending workflows:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const categories = Array.from(new Set(workflows.map(workflow => workflow.operationalCategory))).sort();
+
+  const visible = workflows.filter(workflow =>
+    (!category || workflow.operationalCategory === category) &&
+    (minAmount === '' || workflow.amount >= Number(minAmount)) &&
+    (maxAmount === '' || workflow.amount <= Number(maxAmount))
+  );
+
+  const allVisibleSelected = visible.length > 0 && visible.every(workflow => selected.has(workflow.id));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visible.forEach(workflow => allVisibleSelected ? next.delete(workflow.id) : next.add(workflow.id));
+      return next;
+    });
+  };
+
+  const handleDecide = async (action: 'approve' | 'reject') => {
+    // Only decide what the current filters show, so hidden selections are never acted on by accident
+    const workflowIds = visible.filter(workflow => selected.has(workflow.id)).map(workflow => workflow.id);
+    if (workflowIds.length === 0) return;
+    if (action === 'reject' && !confirm(`Reject ${workflowIds.length} request${workflowIds.length === 1 ? '' : 's'}?`)) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/workflows/bulk-decision', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workflowIds, action, comments: comments || undefined }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResults(Object.fromEntries((data.results as BulkDecisionItemResult[]).map(item => [item.workflowId, item])));
+        setDecidedTitles(Object.fromEntries(workflows.filter(workflow => workflowIds.includes(workflow.id)).map(workflow => [workflow.id, workflow.displayTitle])));
+        setSelected(new Set());
+        setComments('');
+        onDecided({ action, succeeded: data.succeeded, failed: data.failed });
+        await fetchPending();
+      } else {
+        alert(data.error || 'Failed to decide the selected requests');
+      }
+    } catch (error) {
+      console.error('Error deciding workflows in bulk:', error);
+      alert('Unable to decide the selected requests. Please check your connection and try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectedVisible = visible.filter(workflow => selected.has(workflow.id)).length;
+  const resultEntries = Object.values(results);
+
+  return (
+    <div className="mt-8 bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Awaiting your decision</h2>
+        <div className="mt-3 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Category</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+            >
+              <option value="">All categories</option>
+              {categories.map(value => (
+                <option key={value} value={value}>{formatLabel(value)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Amount from</label>
+            <input
+              type="number"
+              min="0"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+              className="mt-1 w-28 border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Amount up to</label>
+            <input
+              type="number"
+              min="0"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              className="mt-1 w-28 border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-xs font-medium text-gray-500">Comment for all selected</label>
+            <input
+              type="text"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Optional"
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+            />
+          </div>
+          <button
+            onClick={() => handleDecide('approve')}
+            disabled={submitting || selectedVisible === 0}
+            className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Approve {selectedVisible || ''}
+          </button>
+          <button
+            onClick={() => handleDecide('reject')}
+            disabled={submitting || selectedVisible === 0}
+            className="inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Reject {selectedVisible || ''}
+          </button>
+        </div>
+      </div>
+
+      {resultEntries.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-700">
+              {resultEntries.filter(item => item.success).length} of {resultEntries.length} decided
+            </span>
+            <button onClick={() => setResults({})} className="text-xs text-gray-500 hover:text-gray-700">Dismiss</button>
+          </div>
+          <ul className="mt-1 space-y-0.5">
+            {resultEntries.map(item => (
+              <li key={item.workflowId} className={item.success ? (item.warning ? 'text-yellow-700' : 'text-green-700') : 'text-red-700'}>
+                {item.success ? '✓' : '✗'} {decidedTitles[item.workflowId] || item.workflowId}
+                {item.success
+                  ? ` - ${item.completed ? formatLabel(item.status || '') : 'forwarded to the next approver'}${item.warning ? ` (${item.warning})` : ''}`
+                  : ` - ${item.error}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="px-6 py-6 text-sm text-gray-500">Loading pending requests...</div>
+      ) : visible.length === 0 ? (
+        <div className="px-6 py-6 text-sm text-gray-500">
+          {workflows.length === 0 ? 'Nothing is waiting for your decision.' : 'No pending requests match these filters.'}
+        </div>
+      ) : (
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-2 text-left">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={toggleAllVisible}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  title="Select all shown"
+                />
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Request</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requester</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map(workflow => (
+              <tr key={workflow.id} className={selected.has(workflow.id) ? 'bg-blue-50' : ''}>
+                <td className="px-6 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(workflow.id)}
+                    onChange={() => toggle(workflow.id)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{workflow.displayTitle}</td>
+                <td className="px-3 py-2 text-sm text-gray-500">{workflow.requester.name}</td>
+                <td className="px-3 py-2 text-sm text-gray-500">{formatLabel(workflow.operationalCategory)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900 text-right">${workflow.amount.toLocaleString()}</td>
+                <td className="px-3 py-2 text-sm text-gray-500">{formatLabel(workflow.priority)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,15 @@
 import { useState, useEffect } from 'react';
 import { Role } from '@/types';
 import ElegantSelect from '@/components/ElegantSelect';
+import { getUserPermissions, listRoleDefinitions, RoleTier } from '@/lib/permissions';
+import { useAuth } from '@/contexts/AuthContext';
+
+const ROLE_TIER_LABELS: Record<RoleTier, string> = {
+  EXECUTIVE: 'Executive',
+  DEPARTMENT_HEAD: 'Management',
+  OPERATIONAL_MANAGER: 'Operations',
+  STAFF: 'Staff'
+};
 
 interface EmployeeFormProps {
   onSubmit: (data: any) => void;
@@ -14,6 +23,8 @@ interface EmployeeFormProps {
 }
 
 export default function EmployeeForm({ onSubmit, onCancel, employees, editingEmployee, isEditing = false, submitting = false }: EmployeeFormProps) {
+  const { user } = useAuth();
+  const canManageAccounts = !!user && (user.permissions ?? getUserPermissions(user.role)).canManageAccounts;
   const [formData, setFormData] = useState({
     name: editingEmployee?.name || '',
     email: editingEmployee?.email || '',
@@ -21,7 +32,8 @@ export default function EmployeeForm({ onSubmit, onCancel, employees, editingEmp
     department: editingEmployee?.department || '',
     managerId: editingEmployee?.managerId || '',
     joiningDate: editingEmployee?.joiningDate ? new Date(editingEmployee.joiningDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-    phone: editingEmployee?.phone || ''
+    phone: editingEmployee?.phone || '',
+    isServiceAccount: !!editingEmployee?.isServiceAccount
   });
 
   const [emailError, setEmailError] = useState('');
@@ -107,16 +119,16 @@ export default function EmployeeForm({ onSubmit, onCancel, employees, editingEmp
     emp.id !== editingEmployee?.id // Don't allow self as manager
   );
 
-  // Group roles by category for better UX
-  const roleCategories = {
-    'Executive': [Role.CEO, Role.CTO],
-    'Management': [Role.ENGINEERING_MANAGER, Role.PRODUCT_MANAGER, Role.SALES_MANAGER, Role.HR_MANAGER],
-    'Development': [Role.FRONTEND_DEVELOPER, Role.BACKEND_DEVELOPER, Role.FULLSTACK_DEVELOPER, Role.DEVOPS_ENGINEER, Role.QA_ENGINEER],
-    'Technical': [Role.UI_UX_DESIGNER, Role.SYSTEM_ADMINISTRATOR, Role.SECURITY_ENGINEER],
-    'Business': [Role.SALES_REPRESENTATIVE, Role.BUSINESS_ANALYST, Role.MARKETING_SPECIALIST, Role.ACCOUNTANT],
-    'Entry Level': [Role.INTERN, Role.JUNIOR_DEVELOPER, Role.TRAINEE],
-    'General': [Role.ADMIN, Role.EMPLOYEE]
-  };
+  // Group roles by tier for better UX; roles come from the registry loaded at sign-in
+  const roleDefinitions = listRoleDefinitions();
+  const roleCategories = (Object.keys(ROLE_TIER_LABELS) as RoleTier[])
+    .map(tier => ({
+      category: ROLE_TIER_LABELS[tier],
+      roles: roleDefinitions
+        .filter(role => role.tier === tier)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(group => group.roles.length > 0);
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -207,12 +219,12 @@ export default function EmployeeForm({ onSubmit, onCancel, employees, editingEmp
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Role *</label>
                   <ElegantSelect
-                    options={Object.entries(roleCategories).flatMap(([category, roles]) => [
+                    options={roleCategories.flatMap(({ category, roles }) => [
                       { value: `category-${category}`, label: category, disabled: true },
                       ...roles.map(role => ({
-                        value: role,
-                        label: role.replace(/_/g, ' '),
-                        description: category
+                        value: role.key,
+                        label: role.name,
+                        description: role.description || category
                       }))
                     ])}
                     value={formData.role}
@@ -289,6 +301,21 @@ export default function EmployeeForm({ onSubmit, onCancel, employees, editingEmp
                 </div>
               </div>
 
+              {isEditing && canManageAccounts && (
+                <label className="mt-4 flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.isServiceAccount}
+                    onChange={(e) => setFormData({ ...formData, isServiceAccount: e.target.checked })}
+                    className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Service account</span>
+                    <span className="block text-xs text-gray-500">Administrators can issue service API tokens that act as this account</span>
+                  </span>
+                </label>
+              )}
+
               {/* Information Notice for New Employees */}
               {!isEditing && (
                 <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3">
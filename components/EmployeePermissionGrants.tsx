@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { UserCog, X } from 'lucide-react';
+import ElegantSelect from '@/components/ElegantSelect';
+import { useNotification } from '@/components/Notification';
+import { getRoleLabel, PermissionKey } from '@/lib/permissions';
+
+interface PermissionGroup {
+  label: string;
+  permissions: { key: PermissionKey; label: string }[];
+}
+
+interface EmployeeOption {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface PermissionGrant {
+  id: string;
+  permission: string;
+  granted: boolean;
+  reason: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  grantedBy: { id: string; name: string } | null;
+}
+
+interface EmployeePermissionGrantsProps {
+  permissionGroups: PermissionGroup[];
+}
+
+const emptyGrantForm = {
+  permission: '',
+  granted: 'true',
+  reason: '',
+  expiresAt: ''
+};
+
+export default function EmployeePermissionGrants({ permissionGroups }: EmployeePermissionGrantsProps) {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [employeeId, setEmployeeId] = useState('');
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+  const [form, setForm] = useState(emptyGrantForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const permissionLabels: Record<string, string> = Object.fromEntries(
+    permissionGroups.flatMap(group => group.permissions.map(p => [p.key, p.label]))
+  );
+
+  useEffect(() => {
+    fetchEmployees();
+  }, []);
+
+  useEffect(() => {
+    if (employeeId) {
+      fetchGrants(employeeId);
+    } else {
+      setGrants([]);
+    }
+  }, [employeeId]);
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await fetch('/api/employees/accessible');
+      if (response.ok) {
+        setEmployees(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const fetchGrants = async (id: string) => {
+    try {
+      const response = await fetch(`/api/employees/${id}/permissions`);
+      if (response.ok) {
+        const data = await response.json();
+        setGrants(data.grants || []);
+      }
+    } catch (error) {
+      console.error('Error fetching permission grants:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!employeeId || !form.permission) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/employees/${employeeId}/permissions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          permission: form.permission,
+          granted: form.granted === 'true',
+          reason: form.reason || null,
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null
+        })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Permission Updated', `${permissionLabels[form.permission] || form.permission} was ${form.granted === 'true' ? 'granted' : 'withheld'}.`);
+        setForm(emptyGrantForm);
+        await fetchGrants(employeeId);
+      } else {
+        showNotification('error', 'Update Failed', data.error || 'Failed to update permission.');
+      }
+    } catch (error) {
+      console.error('Error saving permission grant:', error);
+      showNotification('error', 'Network Error', 'Unable to update permission. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (grant: PermissionGrant) => {
+    try {
+      const response = await fetch(`/api/employees/${employeeId}/permissions?permission=${encodeURIComponent(grant.permission)}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Override Removed', `${permissionLabels[grant.permission] || grant.permission} now follows the employee's role.`);
+        await fetchGrants(employeeId);
+      } else {
+        showNotification('error', 'Remove Failed', data.error || 'Failed to remove override.');
+      }
+    } catch (error) {
+      console.error('Error removing permission grant:', error);
+      showNotification('error', 'Network Error', 'Unable to remove override. Please try again.');
+    }
+  };
+
+  const selectedEmployee = employees.find(employee => employee.id === employeeId);
+
+  return (
+    <div className="mt-8 bg-white shadow-sm rounded-lg p-6">
+      {NotificationComponent}
+      <div className="flex items-center">
+        <UserCog className="h-5 w-5 text-gray-500 mr-2" />
+        <h2 className="text-lg font-semibold text-gray-900">Employee Overrides</h2>
+      </div>
+      <p className="mt-1 text-sm text-gray-600">
+        Grant or withhold a single permission for one employee, regardless of their role.
+      </p>
+
+      <div className="mt-4 max-w-md">
+        <ElegantSelect
+          options={employees.map(employee => ({
+            value: employee.id,
+            label: employee.name,
+            description: `${employee.email} • ${getRoleLabel(employee.role)}`
+          }))}
+          value={employeeId}
+          onChange={setEmployeeId}
+          placeholder="Select an employee"
+          searchable={true}
+          showClearButton={true}
+          className="w-full"
+          size="md"
+        />
+      </div>
+
+      {selectedEmployee && (
+        <>
+          <div className="mt-4">
+            {grants.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No overrides; {selectedEmployee.name} has exactly the permissions of the {getRoleLabel(selectedEmployee.role)} role.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {grants.map(grant => (
+                  <li key={grant.id} className="px-4 py-2 flex items-center justify-between">
+                    <div>
+                      <span className={`inline-flex px-2 py-0.5 mr-2 text-xs font-medium rounded-full ${grant.granted ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                        {grant.granted ? 'Granted' : 'Withheld'}
+                      </span>
+                      <span className="text-sm text-gray-900">{permissionLabels[grant.permission] || grant.permission}</span>
+                      <div className="text-xs text-gray-500">
+                        {grant.reason ? `${grant.reason} • ` : ''}
+                        {grant.expiresAt ? `until ${new Date(grant.expiresAt).toLocaleDateString()}` : 'no expiry'}
+                        {grant.grantedBy ? ` • by ${grant.grantedBy.name}` : ''}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRemove(grant)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove override"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="mt-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Permission</label>
+              <ElegantSelect
+                options={permissionGroups.flatMap(group => [
+                  { value: `group-${group.label}`, label: group.label, disabled: true },
+                  ...group.permissions.map(p => ({ value: p.key, label: p.label, description: group.label }))
+                ])}
+                value={form.permission}
+                onChange={(value) => setForm({ ...form, permission: value })}
+                placeholder="Select a permission"
+                searchable={true}
+                className="w-full"
+                size="md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Effect</label>
+              <ElegantSelect
+                options={[
+                  { value: 'true', label: 'Grant' },
+                  { value: 'false', label: 'Withhold' }
+                ]}
+                value={form.granted}
+                onChange={(value) => setForm({ ...form, granted: value })}
+                className="w-full"
+                size="md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Expires</label>
+              <input
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={submitting || !form.permission}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Override
+            </button>
+            <div className="md:col-span-5">
+              <input
+                type="text"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="Reason (recorded in the audit log)"
+                className="block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, PackageCheck, RotateCcw } from 'lucide-react';
+
+export type FulfilmentStatus = 'PENDING' | 'IN_PROGRESS' | 'FULFILLED' | 'FAILED' | 'SKIPPED';
+
+interface FulfilmentBadgeProps {
+  status?: FulfilmentStatus | null;
+  error?: string | null;
+  attempts?: number;
+  fulfilledAt?: string | null;
+  onRetry?: () => Promise<void>;
+}
+
+// What happened after the final approval: assignment, access grant or publication
+export default function FulfilmentBadge({ status, error, attempts, fulfilledAt, onRetry }: FulfilmentBadgeProps) {
+  const [retrying, setRetrying] = useState(false);
+
+  if (!status) {
+    return null;
+  }
+
+  const handleRetry = async () => {
+    if (!onRetry) {
+      return;
+    }
+    setRetrying(true);
+    try {
+      await onRetry();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  switch (status) {
+    case 'FULFILLED':
+      return (
+        <span
+          title={fulfilledAt ? `Fulfilled ${new Date(fulfilledAt).toLocaleString()}` : undefined}
+          className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800"
+        >
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Fulfilled
+        </span>
+      );
+    case 'SKIPPED':
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+          <PackageCheck className="h-3 w-3 mr-1" />
+          Manual fulfilment
+        </span>
+      );
+    case 'FAILED':
+      return (
+        <span className="inline-flex flex-wrap items-center gap-1">
+          <span
+            title={error || undefined}
+            className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800"
+          >
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Fulfilment failed{attempts && attempts > 1 ? ` ×${attempts}` : ''}
+          </span>
+          {onRetry && (
+            <button
+              type="button"
+              onClick={handleRetry}
+              disabled={retrying}
+              className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              {retrying ? 'Retrying...' : 'Retry fulfilment'}
+            </button>
+          )}
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Fulfilling
+        </span>
+      );
+  }
+}
@@ -4,7 +4,7 @@ import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePathname } from 'next/navigation';
 import { useState, useEffect, useRef } from 'react';
-import { getUserPermissions } from '@/lib/permissions';
+import { getRoleLabel, getUserPermissions } from '@/lib/permissions';
 
 export default function Navigation() {
   const { user, logout } = useAuth();
@@ -28,7 +28,7 @@ export default function Navigation() {
   }, []);
 
   // Don't show navigation on auth pages
-  if (pathname === '/login' || pathname === '/signup') {
+  if (pathname === '/login' || pathname === '/signup' || pathname === '/reset-password' || pathname === '/email-decision') {
     return null;
   }
 
@@ -37,7 +37,7 @@ export default function Navigation() {
     return null;
   }
 
-  const permissions = getUserPermissions(user.role as any);
+  const permissions = user.permissions ?? getUserPermissions(user.role);
 
 
   const handleLogout = async () => {
@@ -118,6 +118,18 @@ export default function Navigation() {
                   Timeline
                 </Link>
               )}
+
+              {permissions.canManageRoles && (
+                <Link href="/roles" className={navLinkClass('/roles')}>
+                  Roles
+                </Link>
+              )}
+
+              {permissions.canManageWorkflowTemplates && (
+                <Link href="/workflow-templates" className={navLinkClass('/workflow-templates')}>
+                  Templates
+                </Link>
+              )}
             </div>
           </div>
 
@@ -156,7 +168,7 @@ export default function Navigation() {
                   </div>
                   <div className="hidden lg:block text-left min-w-0">
                     <div className="text-sm font-medium text-gray-900 truncate">{user.name}</div>
-                    <div className="text-xs text-gray-500 truncate">{user.role.replace(/_/g, ' ')}</div>
+                    <div className="text-xs text-gray-500 truncate">{getRoleLabel(user.role)}</div>
                   </div>
                   <svg className={`h-4 w-4 text-gray-400 transition-transform duration-200 ${showUserMenu ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -171,7 +183,7 @@ export default function Navigation() {
                     <div className="px-4 py-3 border-b border-gray-100">
                       <div className="text-sm font-medium text-gray-900">{user.name}</div>
                       <div className="text-sm text-gray-500">{user.email}</div>
-                      <div className="text-xs text-gray-400 mt-1">{user.role.replace(/_/g, ' ')} • {user.department}</div>
+                      <div className="text-xs text-gray-400 mt-1">{getRoleLabel(user.role)} • {user.department}</div>
                     </div>
                     <Link
                       href="/profile"
@@ -306,6 +318,36 @@ export default function Navigation() {
                 </div>
               </Link>
             )}
+
+            {permissions.canManageRoles && (
+              <Link
+                href="/roles"
+                className={mobileNavLinkClass('/roles')}
+                onClick={() => setShowMobileMenu(false)}
+              >
+                <div className="flex items-center">
+                  <svg className="mr-3 h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                  </svg>
+                  Roles
+                </div>
+              </Link>
+            )}
+
+            {permissions.canManageWorkflowTemplates && (
+              <Link
+                href="/workflow-templates"
+                className={mobileNavLinkClass('/workflow-templates')}
+                onClick={() => setShowMobileMenu(false)}
+              >
+                <div className="flex items-center">
+                  <svg className="mr-3 h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                  </svg>
+                  Workflow Templates
+                </div>
+              </Link>
+            )}
           </div>
         </div>
       )}
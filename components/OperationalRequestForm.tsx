@@ -1,51 +1,77 @@
 'use client';
 
-import { useState } from 'react';
-import { getDepartments, getExpenseCategories } from '@/lib/config/company';
+import { useCallback, useEffect, useState } from 'react';
+import type { WorkflowTemplateDefinition, WorkflowTemplateField } from '@/lib/workflowTemplateService';
 
 interface OperationalRequestFormProps {
-  currentUserId: string;
-  requestType: 'IT_EQUIPMENT' | 'SOFTWARE_LICENSE' | 'EXPENSE_APPROVAL' | 'HIRING';
+  workflowType: string;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export default function OperationalRequestForm({ 
-  currentUserId, 
-  requestType, 
-  onClose, 
-  onSuccess 
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+const formatOption = (option: string) => option.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+// Request form rendered from the workflow type's template
+export default function OperationalRequestForm({
+  workflowType,
+  onClose,
+  onSuccess
 }: OperationalRequestFormProps) {
-  const [formData, setFormData] = useState<any>({});
+  const [template, setTemplate] = useState<WorkflowTemplateDefinition | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<Record<string, unknown>>({});
+  const [files, setFiles] = useState<Record<string, File>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
 
+  const fetchTemplate = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workflows/templates/${workflowType}`);
+      const data = await response.json();
+      if (response.ok) {
+        setTemplate(data.template);
+      } else {
+        setLoadError(data.error || 'This request type is not available');
+      }
+    } catch (error) {
+      console.error('Error fetching workflow template:', error);
+      setLoadError('Unable to load the request form');
+    }
+  }, [workflowType]);
+
+  useEffect(() => {
+    fetchTemplate();
+  }, [fetchTemplate]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setFieldErrors({});
 
     try {
-      const workflowType = `${requestType}_REQUEST`;
-      
+      const body = new FormData();
+      body.append('type', workflowType);
+      body.append('data', JSON.stringify(formData));
+      Object.entries(files).forEach(([key, file]) => body.append(`attachment:${key}`, file));
+
       const response = await fetch('/api/workflows/create', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          type: workflowType,
-          requesterId: currentUserId,
-          data: formData
-        })
+        body
       });
 
       if (response.ok) {
-        const result = await response.json();
         alert('Request submitted successfully!');
         onSuccess();
         onClose();
       } else {
         const error = await response.json();
-        alert(`Failed to submit request: ${error.error}`);
+        if (error.fieldErrors) {
+          setFieldErrors(error.fieldErrors);
+        } else {
+          alert(`Failed to submit request: ${error.error}`);
+        }
       }
     } catch (error) {
       console.error('Error submitting request:', error);
@@ -55,262 +81,133 @@ export default function OperationalRequestForm({
     }
   };
 
-  const renderForm = () => {
-    switch (requestType) {
-      case 'IT_EQUIPMENT':
-        return (
-          <>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Equipment Name
-              </label>
-              <input
-                type="text"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.name || ''}
-                onChange={(e) => setFormData({...formData, name: e.target.value})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Equipment Type
-              </label>
-              <select
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.type || ''}
-                onChange={(e) => setFormData({...formData, type: e.target.value})}
-              >
-                <option value="">Select type</option>
-                <option value="laptop">Laptop</option>
-                <option value="desktop">Desktop</option>
-                <option value="monitor">Monitor</option>
-                <option value="mobile">Mobile Device</option>
-                <option value="other">Other</option>
-              </select>
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Estimated Cost ($)
-              </label>
-              <input
-                type="number"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.cost || ''}
-                onChange={(e) => setFormData({...formData, cost: parseFloat(e.target.value)})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Business Justification
-              </label>
-              <textarea
-                required
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.justification || ''}
-                onChange={(e) => setFormData({...formData, justification: e.target.value})}
-              />
-            </div>
-          </>
-        );
+  const setValue = (key: string, value: unknown) => setFormData(prev => ({ ...prev, [key]: value }));
 
-      case 'SOFTWARE_LICENSE':
+  const renderInput = (field: WorkflowTemplateField) => {
+    const value = formData[field.key];
+
+    switch (field.dataType) {
+      case 'BOOLEAN':
         return (
-          <>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Software Name
-              </label>
-              <input
-                type="text"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.name || ''}
-                onChange={(e) => setFormData({...formData, name: e.target.value})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                License Type
-              </label>
-              <select
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.licenseType || ''}
-                onChange={(e) => setFormData({...formData, licenseType: e.target.value})}
-              >
-                <option value="">Select type</option>
-                <option value="individual">Individual License</option>
-                <option value="team">Team License</option>
-                <option value="enterprise">Enterprise License</option>
-              </select>
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Annual Cost ($)
-              </label>
-              <input
-                type="number"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.cost || ''}
-                onChange={(e) => setFormData({...formData, cost: parseFloat(e.target.value)})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Business Justification
-              </label>
-              <textarea
-                required
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.justification || ''}
-                onChange={(e) => setFormData({...formData, justification: e.target.value})}
-              />
-            </div>
-          </>
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            checked={value === true}
+            onChange={(e) => setValue(field.key, e.target.checked)}
+          />
         );
-
-      case 'EXPENSE_APPROVAL':
+      case 'NUMBER':
         return (
-          <>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Expense Category
-              </label>
-              <select
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.category || ''}
-                onChange={(e) => setFormData({...formData, category: e.target.value})}
-              >
-                <option value="">Select category</option>
-                {getExpenseCategories().map(category => (
-                  <option key={category} value={category}>
-                    {category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Amount ($)
-              </label>
-              <input
-                type="number"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.amount || ''}
-                onChange={(e) => setFormData({...formData, amount: parseFloat(e.target.value)})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Description
-              </label>
-              <textarea
-                required
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.description || ''}
-                onChange={(e) => setFormData({...formData, description: e.target.value})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Business Justification
-              </label>
-              <textarea
-                required
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.justification || ''}
-                onChange={(e) => setFormData({...formData, justification: e.target.value})}
-              />
-            </div>
-          </>
+          <input
+            type="number"
+            required={field.required}
+            min={field.min}
+            max={field.max}
+            step="any"
+            className={inputClass}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+          />
         );
-
-      case 'HIRING':
+      case 'DATE':
         return (
-          <>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Position Title
-              </label>
-              <input
-                type="text"
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.position || ''}
-                onChange={(e) => setFormData({...formData, position: e.target.value})}
-              />
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Department
-              </label>
-              <select
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.department || ''}
-                onChange={(e) => setFormData({...formData, department: e.target.value})}
-              >
-                <option value="">Select department</option>
-                {getDepartments().map(department => (
-                  <option key={department} value={department}>{department}</option>
-                ))}
-              </select>
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Employment Type
-              </label>
-              <select
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.employmentType || ''}
-                onChange={(e) => setFormData({...formData, employmentType: e.target.value})}
-              >
-                <option value="">Select type</option>
-                <option value="full-time">Full-time</option>
-                <option value="part-time">Part-time</option>
-                <option value="contract">Contract</option>
-                <option value="intern">Intern</option>
-              </select>
-            </div>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Business Justification
-              </label>
-              <textarea
-                required
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                value={formData.justification || ''}
-                onChange={(e) => setFormData({...formData, justification: e.target.value})}
-              />
-            </div>
-          </>
+          <input
+            type="date"
+            required={field.required}
+            className={inputClass}
+            value={(value as string) || ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+          />
         );
-
       default:
-        return null;
+        if (field.options && field.options.length > 0) {
+          return (
+            <select
+              required={field.required}
+              className={inputClass}
+              value={(value as string) || ''}
+              onChange={(e) => setValue(field.key, e.target.value)}
+            >
+              <option value="">Select {field.label.toLowerCase()}</option>
+              {field.options.map(option => (
+                <option key={option} value={option}>{formatOption(option)}</option>
+              ))}
+            </select>
+          );
+        }
+        return field.multiline ? (
+          <textarea
+            required={field.required}
+            rows={3}
+            className={inputClass}
+            value={(value as string) || ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+          />
+        ) : (
+          <input
+            type="text"
+            required={field.required}
+            className={inputClass}
+            value={(value as string) || ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+          />
+        );
     }
   };
 
-  const getTitle = () => {
-    switch (requestType) {
-      case 'IT_EQUIPMENT': return 'Request IT Equipment';
-      case 'SOFTWARE_LICENSE': return 'Request Software License';
-      case 'EXPENSE_APPROVAL': return 'Request Expense Approval';
-      case 'HIRING': return 'Request New Hire';
-      default: return 'Submit Request';
+  const renderForm = () => {
+    if (loadError) {
+      return <p className="text-sm text-red-600">{loadError}</p>;
+    }
+    if (!template) {
+      return <p className="text-sm text-gray-500">Loading form...</p>;
     }
+
+    return (
+      <>
+        {template.fields.map(field => (
+          <div key={field.key} className="mb-4">
+            <label className={`text-sm font-medium text-gray-700 mb-2 ${field.dataType === 'BOOLEAN' ? 'flex items-center gap-2' : 'block'}`}>
+              {field.dataType === 'BOOLEAN' && renderInput(field)}
+              {field.label}
+              {field.required && field.dataType !== 'BOOLEAN' && <span className="text-red-500"> *</span>}
+            </label>
+            {field.dataType !== 'BOOLEAN' && renderInput(field)}
+            {field.helpText && <p className="mt-1 text-xs text-gray-500">{field.helpText}</p>}
+            {fieldErrors[field.key] && <p className="mt-1 text-xs text-red-600">{fieldErrors[field.key]}</p>}
+          </div>
+        ))}
+        {template.requiredAttachments.map(attachment => (
+          <div key={attachment.key} className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {attachment.label}<span className="text-red-500"> *</span>
+            </label>
+            <input
+              type="file"
+              required
+              accept=".pdf,.doc,.docx,.xls,.xlsx,.png,.jpg,.jpeg"
+              className="text-sm text-gray-600"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                setFiles(prev => {
+                  const next = { ...prev };
+                  if (file) {
+                    next[attachment.key] = file;
+                  } else {
+                    delete next[attachment.key];
+                  }
+                  return next;
+                });
+              }}
+            />
+            {attachment.description && <p className="mt-1 text-xs text-gray-500">{attachment.description}</p>}
+            {fieldErrors[`attachment:${attachment.key}`] && (
+              <p className="mt-1 text-xs text-red-600">{fieldErrors[`attachment:${attachment.key}`]}</p>
+            )}
+          </div>
+        ))}
+      </>
+    );
   };
 
   return (
@@ -318,7 +215,9 @@ export default function OperationalRequestForm({
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
         <div className="mt-3">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-medium text-gray-900">{getTitle()}</h3>
+            <h3 className="text-lg font-medium text-gray-900">
+              {template ? `${template.icon ? `${template.icon} ` : ''}${template.name}` : 'Submit Request'}
+            </h3>
             <button
               type="button"
               onClick={onClose}
@@ -329,10 +228,11 @@ export default function OperationalRequestForm({
               </svg>
             </button>
           </div>
-          
+          {template?.description && <p className="mb-4 text-sm text-gray-500">{template.description}</p>}
+
           <form onSubmit={handleSubmit}>
             {renderForm()}
-            
+
             <div className="flex justify-end space-x-3 mt-6">
               <button
                 type="button"
@@ -345,7 +245,7 @@ export default function OperationalRequestForm({
               <button
                 type="submit"
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-                disabled={loading}
+                disabled={loading || !template}
               >
                 {loading ? 'Submitting...' : 'Submit Request'}
               </button>
@@ -355,4 +255,4 @@ export default function OperationalRequestForm({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
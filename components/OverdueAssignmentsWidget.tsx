@@ -0,0 +1,73 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { DueAssignment } from '@/lib/assignmentDueService';
+
+// Loans and trials that are overdue or due back soon; hidden when there are none
+export default function OverdueAssignmentsWidget({ currentUserId }: { currentUserId: string }) {
+  const [assignments, setAssignments] = useState<DueAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, []);
+
+  const fetchAssignments = async () => {
+    try {
+      const response = await fetch('/api/resources/assignments/overdue?dueSoon=true');
+      if (response.ok) {
+        const data = await response.json();
+        setAssignments(data.assignments || []);
+      }
+    } catch (error) {
+      console.error('Error fetching overdue assignments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || assignments.length === 0) {
+    return null;
+  }
+
+  const overdueCount = assignments.filter(assignment => assignment.overdue).length;
+
+  return (
+    <div className="mb-8 bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Returns Due</h2>
+          <p className="text-sm text-gray-600">
+            {overdueCount > 0 ? `${overdueCount} overdue` : 'Nothing overdue'}
+            {assignments.length > overdueCount && `, ${assignments.length - overdueCount} due back soon`}
+          </p>
+        </div>
+      </div>
+
+      <ul className="mt-4 divide-y divide-gray-100">
+        {assignments.map(assignment => {
+          const itemLabel = assignment.item?.serialNumber || assignment.item?.hostname;
+          const isMine = assignment.employee.id === currentUserId;
+          return (
+            <li key={assignment.id} className="py-2 flex items-center justify-between text-sm">
+              <div>
+                <Link href={`/resources/catalog/${assignment.resource.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                  {assignment.resource.name}{itemLabel ? ` (${itemLabel})` : ''}
+                </Link>
+                <p className="text-gray-500">
+                  {isMine ? 'Assigned to you' : `${assignment.employee.name} · ${assignment.employee.department}`}
+                </p>
+              </div>
+              <span className={`whitespace-nowrap ${assignment.overdue ? 'text-red-700 font-medium' : 'text-gray-700'}`}>
+                {assignment.overdue
+                  ? (assignment.daysOverdue === 0 ? 'Overdue' : `${assignment.daysOverdue}d overdue`)
+                  : `Due ${new Date(assignment.dueAt).toLocaleDateString()}`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
-import { canAccessPage, getUserPermissions } from '@/lib/permissions';
+import { canAccessPage, getRoleLabel, getUserPermissions } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -70,9 +70,9 @@ export default function ProtectedRoute({ children, requiredRoles, requiresPermis
 
   // Check permission-based access
   if (requiresPermission) {
-    const hasAccess = canAccessPage(user.role as any, requiresPermission);
+    const permissions = user.permissions ?? getUserPermissions(user.role);
+    const hasAccess = canAccessPage(user.role, requiresPermission, permissions);
     if (!hasAccess) {
-      const permissions = getUserPermissions(user.role as any);
       return (
         <div className="min-h-screen flex items-center justify-center">
           <div className="text-center">
@@ -83,10 +83,10 @@ export default function ProtectedRoute({ children, requiredRoles, requiresPermis
             </div>
             <h3 className="mt-2 text-sm font-medium text-gray-900">Limited Access</h3>
             <p className="mt-1 text-sm text-gray-500">
-              Your role ({user.role.replace(/_/g, ' ')}) has limited access to this section.
+              Your role ({getRoleLabel(user.role)}) has limited access to this section.
             </p>
             <p className="mt-1 text-xs text-gray-400">
-              Contact your administrator (CEO/CTO) for additional permissions.
+              Contact your administrator for additional permissions.
             </p>
             <div className="mt-6 space-x-3">
               <button
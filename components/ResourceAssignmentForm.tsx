@@ -47,6 +47,7 @@ export default function ResourceAssignmentForm({
   const [formData, setFormData] = useState({
     employeeId: '',
     itemId: '',
+    dueDate: '',
     notes: ''
   });
   const [loading, setLoading] = useState(false);
@@ -105,7 +106,9 @@ export default function ResourceAssignmentForm({
           employeeId: formData.employeeId,
           // For EXCLUSIVE allocation with items, include itemId; for SHARED, no itemId needed
           ...(!isSharedAllocation && hasItems && formData.itemId && { itemId: formData.itemId }),
-          notes: formData.notes
+          notes: formData.notes,
+          // Due at the end of the chosen day
+          ...(formData.dueDate && { dueAt: new Date(`${formData.dueDate}T23:59:59`).toISOString() })
         })
       });
 
@@ -317,6 +320,20 @@ export default function ResourceAssignmentForm({
             </div>
           )}
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Return by</label>
+            <input
+              type="date"
+              value={formData.dueDate}
+              min={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Optional. For loans and trials: the employee is reminded before this date and the custodian is told if it is missed.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Notes</label>
             <textarea
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import { useNotification } from './Notification';
+import ElegantSelect from './ElegantSelect';
 
 interface Assignment {
   id: string;
@@ -13,6 +15,7 @@ interface Assignment {
     department: string;
   };
   assignedAt: string;
+  dueAt?: string | null;
   status: string;
   notes?: string;
   item?: {
@@ -50,8 +53,15 @@ export default function ResourceAssignmentsList({
     itemCondition: 'GOOD'
   });
   const [processing, setProcessing] = useState<string | null>(null);
+  const [showTransferModal, setShowTransferModal] = useState<Assignment | null>(null);
+  const [transferData, setTransferData] = useState({
+    toEmployeeId: '',
+    condition: 'GOOD',
+    notes: ''
+  });
+  const [employees, setEmployees] = useState<Assignment['employee'][]>([]);
 
-  const canManageAssignments = user ? ['CEO', 'CTO', 'ADMIN', 'ENGINEERING_MANAGER', 'HR_MANAGER'].includes(user.role) : false;
+  const canManageAssignments = !!user && (user.permissions ?? getUserPermissions(user.role)).canAssignResources;
   const handleUnassign = async (assignmentId: string) => {
     if (!canManageAssignments) {
       showNotification('error', 'Access Denied', 'You do not have permission to unassign resources');
@@ -91,6 +101,58 @@ export default function ResourceAssignmentsList({
     }
   };
 
+  const openTransferModal = async (assignment: Assignment) => {
+    setTransferData({ toEmployeeId: '', condition: 'GOOD', notes: '' });
+    setShowTransferModal(assignment);
+
+    if (employees.length === 0) {
+      try {
+        const response = await fetch('/api/employees');
+        if (response.ok) {
+          const data = await response.json();
+          setEmployees(data.employees || []);
+        }
+      } catch (error) {
+        console.error('Error fetching employees:', error);
+      }
+    }
+  };
+
+  const handleTransfer = async (assignment: Assignment) => {
+    setProcessing(assignment.id);
+    try {
+      const response = await fetch('/api/resources/assignments/transfer', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          assignmentId: assignment.id,
+          toEmployeeId: transferData.toEmployeeId,
+          condition: transferData.condition,
+          notes: transferData.notes || undefined
+        }),
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        showNotification('success', 'Resource Transferred', `Transferred from ${assignment.employee.name} to ${result.assignment.employee?.name || 'the new holder'}`);
+        setShowTransferModal(null);
+        if (onAssignmentUpdate) {
+          onAssignmentUpdate();
+        }
+      } else {
+        const error = await response.json();
+        showNotification('error', 'Transfer Failed', error.error || 'Failed to transfer resource');
+      }
+    } catch (error) {
+      console.error('Error transferring resource:', error);
+      showNotification('error', 'Network Error', 'Unable to transfer resource. Please try again.');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   const handleDeleteCloudResource = async (assignmentId: string) => {
     if (!canManageAssignments) {
       showNotification('error', 'Access Denied', 'You do not have permission to manage cloud resources');
@@ -165,28 +227,40 @@ export default function ResourceAssignmentsList({
     } else {
       // Physical and Software resources
       return (
-        <button
-          onClick={() => setShowReturnModal(assignment.id)}
-          disabled={isProcessing}
-          className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200 rounded-md hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isProcessing ? (
-            <>
-              <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-orange-700" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Processing...
-            </>
-          ) : (
-            <>
-              <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
-              </svg>
-              Return
-            </>
-          )}
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => openTransferModal(assignment)}
+            disabled={isProcessing}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+            Transfer
+          </button>
+          <button
+            onClick={() => setShowReturnModal(assignment.id)}
+            disabled={isProcessing}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200 rounded-md hover:bg-orange-100 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? (
+              <>
+                <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-orange-700" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Processing...
+              </>
+            ) : (
+              <>
+                <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+                Return
+              </>
+            )}
+          </button>
+        </div>
       );
     }
   };
@@ -243,6 +317,11 @@ export default function ResourceAssignmentsList({
                       <p className="text-xs text-gray-500 mt-1">
                         Assigned {new Date(assignment.assignedAt).toLocaleDateString()}
                       </p>
+                      {assignment.status === 'ACTIVE' && assignment.dueAt && (
+                        <p className={`text-xs mt-1 ${new Date(assignment.dueAt) <= new Date() ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          {new Date(assignment.dueAt) <= new Date() ? 'Overdue since' : 'Due back'} {new Date(assignment.dueAt).toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                     {getActionButton(assignment)}
                   </div>
@@ -343,6 +422,94 @@ export default function ResourceAssignmentsList({
           </div>
         </div>
       )}
+
+      {/* Transfer Modal - hands the assignment straight to another employee */}
+      {showTransferModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4">
+          <div className="relative w-full max-w-md bg-white rounded-xl shadow-2xl">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 px-6 py-4 rounded-t-xl">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Transfer from {showTransferModal.employee.name}
+                </h3>
+                <button
+                  onClick={() => setShowTransferModal(null)}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                >
+                  <svg className="h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Transfer to <span className="text-red-500">*</span>
+                </label>
+                <ElegantSelect
+                  options={employees
+                    .filter(emp => emp.id !== showTransferModal.employee.id)
+                    .map(emp => ({ value: emp.id, label: `${emp.name} (${emp.department})` }))}
+                  value={transferData.toEmployeeId}
+                  onChange={(value) => setTransferData(prev => ({ ...prev, toEmployeeId: value }))}
+                  placeholder="Select an employee"
+                  searchable
+                />
+              </div>
+
+              {resourceType === 'PHYSICAL' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Handover Condition
+                  </label>
+                  <select
+                    value={transferData.condition}
+                    onChange={(e) => setTransferData(prev => ({ ...prev, condition: e.target.value }))}
+                    className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="GOOD">Good Condition</option>
+                    <option value="DAMAGED">Damaged</option>
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Handover Notes
+                </label>
+                <textarea
+                  value={transferData.notes}
+                  onChange={(e) => setTransferData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={3}
+                  className="block w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-none"
+                  placeholder="Optional notes about the handover..."
+                />
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="bg-gray-50 px-6 py-4 rounded-b-xl flex justify-end space-x-3">
+              <button
+                onClick={() => setShowTransferModal(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleTransfer(showTransferModal)}
+                disabled={!transferData.toEmployeeId || processing === showTransferModal.id}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {processing === showTransferModal.id ? 'Transferring...' : 'Transfer'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }
\ No newline at end of file
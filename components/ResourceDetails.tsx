@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 
 interface ResourceDetailsProps {
   resource: any;
@@ -26,8 +26,49 @@ const normalizeType = (type: string): string => {
   return typeMap[type] || type;
 };
 
+interface MaintenanceEntry {
+  id: string;
+  type: string;
+  status: string;
+  description?: string;
+  scheduledFor?: string;
+  completedAt?: string;
+  cost?: number;
+  recurrenceDays?: number;
+  item?: { id: string; serialNumber?: string; hostname?: string };
+}
+
+interface MaintenanceSummary {
+  upcoming: MaintenanceEntry[];
+  overdue: MaintenanceEntry[];
+  inProgress: MaintenanceEntry[];
+  history: MaintenanceEntry[];
+}
+
 export default function ResourceDetails({ resource, isOpen, onClose }: ResourceDetailsProps) {
   const [activeTab, setActiveTab] = useState('overview');
+  const [maintenance, setMaintenance] = useState<MaintenanceSummary | null>(null);
+  const [maintenanceLoading, setMaintenanceLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !resource?.id || activeTab !== 'maintenance') return;
+
+    const fetchMaintenance = async () => {
+      try {
+        setMaintenanceLoading(true);
+        const response = await fetch(`/api/resources/${resource.id}/maintenance`);
+        if (response.ok) {
+          setMaintenance(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching maintenance:', error);
+      } finally {
+        setMaintenanceLoading(false);
+      }
+    };
+
+    fetchMaintenance();
+  }, [isOpen, resource?.id, activeTab]);
 
   if (!isOpen || !resource) return null;
 
@@ -149,6 +190,21 @@ export default function ResourceDetails({ resource, isOpen, onClose }: ResourceD
             >
               Timeline
             </button>
+            <button
+              onClick={() => setActiveTab('maintenance')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'maintenance'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Maintenance
+              {maintenance && maintenance.overdue.length > 0 && (
+                <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                  {maintenance.overdue.length} overdue
+                </span>
+              )}
+            </button>
           </nav>
         </div>
 
@@ -562,6 +618,69 @@ export default function ResourceDetails({ resource, isOpen, onClose }: ResourceD
               </div>
             </div>
           )}
+
+          {activeTab === 'maintenance' && (
+            <div className="space-y-6">
+              {maintenanceLoading && (
+                <p className="text-sm text-gray-500">Loading maintenance...</p>
+              )}
+
+              {!maintenanceLoading && maintenance && (
+                <>
+                  {[
+                    { title: 'Overdue', entries: maintenance.overdue, dateField: 'scheduledFor', color: 'bg-red-50', badge: 'bg-red-100 text-red-800' },
+                    { title: 'In Progress', entries: maintenance.inProgress, dateField: 'scheduledFor', color: 'bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800' },
+                    { title: 'Upcoming', entries: maintenance.upcoming, dateField: 'scheduledFor', color: 'bg-blue-50', badge: 'bg-blue-100 text-blue-800' },
+                    { title: 'History', entries: maintenance.history, dateField: 'completedAt', color: 'bg-gray-50', badge: 'bg-gray-100 text-gray-800' }
+                  ].map(section => (
+                    <div key={section.title} className={`${section.color} p-4 rounded-lg`}>
+                      <h3 className="text-lg font-medium text-gray-900 mb-4">
+                        {section.title} ({section.entries.length})
+                      </h3>
+                      {section.entries.length === 0 ? (
+                        <p className="text-sm text-gray-500">No {section.title.toLowerCase()} maintenance</p>
+                      ) : (
+                        <div className="space-y-3">
+                          {section.entries.map(entry => {
+                            const date = entry[section.dateField as 'scheduledFor' | 'completedAt'];
+                            return (
+                              <div key={entry.id} className="flex justify-between items-start bg-white p-3 rounded border">
+                                <div>
+                                  <p className="text-sm font-medium text-gray-900">
+                                    {entry.type.replace(/_/g, ' ')}
+                                    {entry.item && (
+                                      <span className="text-gray-500"> • {entry.item.serialNumber || entry.item.hostname || 'Item'}</span>
+                                    )}
+                                  </p>
+                                  {entry.description && (
+                                    <p className="text-sm text-gray-500">{entry.description}</p>
+                                  )}
+                                  {entry.recurrenceDays && (
+                                    <p className="text-xs text-gray-400">Repeats every {entry.recurrenceDays} days</p>
+                                  )}
+                                </div>
+                                <div className="text-right">
+                                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${section.badge}`}>
+                                    {entry.status.replace(/_/g, ' ')}
+                                  </span>
+                                  {date && (
+                                    <p className="text-sm text-gray-500 mt-1">{formatDate(date)}</p>
+                                  )}
+                                  {entry.cost != null && (
+                                    <p className="text-sm text-gray-500">{formatCurrency(entry.cost)}</p>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end mt-6 pt-4 border-t">
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, AlertCircle, CheckCircle, Upload } from 'lucide-react';
+import { PropertyDefinition } from '@/types/resource-structure';
+import type { ResourceItemImportResult } from '@/lib/resourceItemService';
+
+interface ResourceItemImportModalProps {
+  resourceId: string;
+  resourceName: string;
+  propertySchema: PropertyDefinition[];
+  onImported?: (created: number) => void;
+  onClose?: () => void;
+}
+
+/**
+ * ResourceItemImportModal Component
+ *
+ * Imports many items from a CSV or XLSX file. The file is always checked with a dry run
+ * first; columns can be remapped and the import is only offered once every row is valid.
+ */
+export default function ResourceItemImportModal({
+  resourceId,
+  resourceName,
+  propertySchema,
+  onImported,
+  onClose
+}: ResourceItemImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ResourceItemImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const submit = async (dryRun: boolean, selectedFile: File, columnMapping: Record<string, string>) => {
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+    formData.append('dryRun', String(dryRun));
+    if (Object.keys(columnMapping).length > 0) {
+      formData.append('mapping', JSON.stringify(columnMapping));
+    }
+
+    const response = await fetch(`/api/resources/${resourceId}/items/import`, {
+      method: 'POST',
+      body: formData,
+    });
+    const data = await response.json();
+    return { ok: response.ok, data };
+  };
+
+  const checkFile = async (selectedFile: File, columnMapping: Record<string, string>) => {
+    setChecking(true);
+    setError(null);
+    try {
+      const { ok, data } = await submit(true, selectedFile, columnMapping);
+      if (ok) {
+        setResult(data);
+      } else {
+        setResult(null);
+        setError(data.error || 'The file could not be checked');
+      }
+    } catch (err) {
+      console.error('Error checking import file:', err);
+      setError('Unable to check the file. Please check your connection and try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFileChange = (selectedFile: File | null) => {
+    setFile(selectedFile);
+    setMapping({});
+    setResult(null);
+    if (selectedFile) {
+      checkFile(selectedFile, {});
+    }
+  };
+
+  const handleMappingChange = (header: string, propertyKey: string) => {
+    const next = { ...mapping, [header]: propertyKey };
+    setMapping(next);
+    if (file) {
+      checkFile(file, next);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const { ok, data } = await submit(false, file, mapping);
+      if (ok) {
+        onImported?.(data.created);
+        onClose?.();
+      } else {
+        if (data.rows) {
+          setResult(data);
+        }
+        setError(data.error || 'Import failed');
+      }
+    } catch (err) {
+      console.error('Error importing items:', err);
+      setError('Unable to import the file. Please check your connection and try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const invalidRows = result?.rows.filter(row => !row.valid) || [];
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-6 border w-11/12 max-w-4xl shadow-lg rounded-md bg-white max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Import Items</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Add many items to {resourceName} from a CSV or Excel (.xlsx) file. The first row must hold the column names.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 text-red-500 mt-0.5 mr-3 flex-shrink-0" />
+            <div>
+              <p className="text-sm font-medium text-red-800">Error</p>
+              <p className="text-sm text-red-700 mt-1">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block text-sm font-medium text-gray-700 mb-2">File</label>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-gray-700"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              Columns are matched to properties by name: {propertySchema.map(prop => prop.label).join(', ')}
+            </p>
+          </div>
+
+          {checking && (
+            <div className="flex items-center text-sm text-gray-600">
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              Checking rows...
+            </div>
+          )}
+
+          {result && (
+            <>
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="text-lg font-medium text-gray-900 mb-3">Columns</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {result.columns.map(column => (
+                    <div key={column.header} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-700 truncate">{column.header || '(blank header)'}</span>
+                      <select
+                        value={column.propertyKey || ''}
+                        onChange={(e) => handleMappingChange(column.header, e.target.value)}
+                        disabled={checking || importing}
+                        className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      >
+                        <option value="">Ignore</option>
+                        {propertySchema.map(prop => (
+                          <option key={prop.key} value={prop.key}>{prop.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className={`p-4 rounded-lg border ${result.invalidRows === 0 ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
+                <div className="flex items-center text-sm font-medium">
+                  {result.invalidRows === 0 ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 mr-2" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-amber-600 mr-2" />
+                  )}
+                  {result.totalRows === 0
+                    ? 'The file has no rows to import'
+                    : `${result.validRows} of ${result.totalRows} rows are ready to import`}
+                </div>
+                {invalidRows.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm text-amber-800 max-h-60 overflow-y-auto">
+                    {invalidRows.map(row => (
+                      <li key={row.row}>
+                        <span className="font-medium">Row {row.row}:</span> {row.errors.join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!result || result.totalRows === 0 || result.invalidRows > 0 || checking || importing}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {result?.validRows || ''} {result?.validRows === 1 ? 'item' : 'items'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
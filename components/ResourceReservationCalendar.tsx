@@ -0,0 +1,437 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import ElegantSelect from './ElegantSelect';
+import { useNotification } from './Notification';
+
+interface Reservation {
+  id: string;
+  startAt: string;
+  endAt: string;
+  status: 'BOOKED' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'FAILED';
+  notes?: string | null;
+  failureReason?: string | null;
+  employeeId: string;
+  reservedById: string;
+  employee: { id: string; name: string; department: string };
+  reservedBy: { id: string; name: string };
+}
+
+interface Employee {
+  id: string;
+  name: string;
+  department: string;
+  role: string;
+}
+
+interface ResourceReservationCalendarProps {
+  resourceId: string;
+  quantity?: number;
+  currentUserId: string;
+  canBookForOthers: boolean;
+  onReservationChange?: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_STYLES: Record<Reservation['status'], string> = {
+  BOOKED: 'bg-indigo-50 border-indigo-200 text-indigo-900',
+  ACTIVE: 'bg-green-50 border-green-200 text-green-900',
+  COMPLETED: 'bg-gray-50 border-gray-200 text-gray-600',
+  CANCELLED: 'bg-gray-50 border-gray-200 text-gray-400 line-through',
+  FAILED: 'bg-red-50 border-red-200 text-red-800'
+};
+
+// Monday 00:00 of the week containing the date
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// Value for a datetime-local input in the browser's time zone
+const toLocalInput = (date: Date): string =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function ResourceReservationCalendar({
+  resourceId,
+  quantity,
+  currentUserId,
+  canBookForOthers,
+  onReservationChange
+}: ResourceReservationCalendarProps) {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<Reservation[]>([]);
+  const [formData, setFormData] = useState({
+    employeeId: currentUserId,
+    startAt: '',
+    endAt: '',
+    notes: ''
+  });
+
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+  const days = Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + index);
+    return day;
+  });
+
+  useEffect(() => {
+    if (canBookForOthers) {
+      fetchEmployees();
+    }
+  }, [canBookForOthers]);
+
+  const fetchReservations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const to = new Date(weekStart.getTime() + 7 * DAY_MS);
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: to.toISOString() });
+      const response = await fetch(`/api/resources/${resourceId}/reservations?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setReservations(data.reservations || []);
+      }
+    } catch (error) {
+      console.error('Error fetching reservations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [resourceId, weekStart]);
+
+  useEffect(() => {
+    fetchReservations();
+  }, [fetchReservations]);
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await fetch('/api/employees');
+      if (response.ok) {
+        const data = await response.json();
+        setEmployees(data.employees || []);
+      }
+    } catch (error) {
+      console.error('Error fetching employees:', error);
+    }
+  };
+
+  const moveWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(weekStart.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  // Opens the booking form with an hour from 09:00 on the chosen day (or the next full hour today)
+  const openForm = (day: Date) => {
+    const start = new Date(day);
+    start.setHours(9, 0, 0, 0);
+    const now = new Date();
+    if (start < now) {
+      start.setTime(now.getTime());
+      start.setHours(now.getHours() + 1, 0, 0, 0);
+    }
+    setFormData({
+      employeeId: currentUserId,
+      startAt: toLocalInput(start),
+      endAt: toLocalInput(new Date(start.getTime() + 60 * 60 * 1000)),
+      notes: ''
+    });
+    setFormError(null);
+    setConflicts([]);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setFormError(null);
+    setConflicts([]);
+
+    try {
+      const response = await fetch(`/api/resources/${resourceId}/reservations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          employeeId: formData.employeeId,
+          startAt: new Date(formData.startAt).toISOString(),
+          endAt: new Date(formData.endAt).toISOString(),
+          notes: formData.notes || undefined
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setFormError(data.error || 'Failed to create reservation');
+        setConflicts(data.conflicts || []);
+        return;
+      }
+
+      showNotification(
+        'success',
+        'Reservation Created',
+        data.status === 'ACTIVE' ? 'The reservation has started and access has been assigned' : 'The resource has been reserved'
+      );
+      setShowForm(false);
+      fetchReservations();
+      onReservationChange?.();
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      setFormError('Failed to create reservation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (reservation: Reservation) => {
+    const prompt = reservation.status === 'ACTIVE'
+      ? `End ${reservation.employee.name}'s reservation now? Their access will be removed.`
+      : `Cancel ${reservation.employee.name}'s reservation?`;
+    if (!confirm(prompt)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/resources/${resourceId}/reservations/${reservation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' })
+      });
+
+      if (response.ok) {
+        showNotification('success', 'Reservation Cancelled', 'The reservation has been cancelled');
+        fetchReservations();
+        onReservationChange?.();
+      } else {
+        const error = await response.json();
+        showNotification('error', 'Cancel Failed', error.error || 'Failed to cancel reservation');
+      }
+    } catch (error) {
+      console.error('Error cancelling reservation:', error);
+      showNotification('error', 'Cancel Failed', 'Failed to cancel reservation');
+    }
+  };
+
+  const canCancel = (reservation: Reservation) =>
+    (reservation.status === 'BOOKED' || reservation.status === 'ACTIVE') &&
+    (canBookForOthers || reservation.employeeId === currentUserId || reservation.reservedById === currentUserId);
+
+  const employeeOptions = employees.map(emp => ({
+    value: emp.id,
+    label: `${emp.name} (${emp.department})`,
+    description: emp.role
+  }));
+
+  const isToday = (day: Date) => day.toDateString() === new Date().toDateString();
+
+  return (
+    <div className="space-y-4">
+      {NotificationComponent}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            {weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – {new Date(weekEnd.getTime() - DAY_MS).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {quantity === -1
+              ? 'Unlimited seats'
+              : `${quantity || 1} seat${(quantity || 1) !== 1 ? 's' : ''} can be booked at the same time`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => moveWeek(-1)}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={() => setWeekStart(startOfWeek(new Date()))}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            This week
+          </button>
+          <button
+            onClick={() => moveWeek(1)}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Next →
+          </button>
+          <button
+            onClick={() => openForm(weekStart < new Date() ? new Date() : weekStart)}
+            className="px-3 py-1.5 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700"
+          >
+            Reserve
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-lg p-4 space-y-4 bg-gray-50">
+          {canBookForOthers && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reserve for</label>
+              <ElegantSelect
+                options={employeeOptions}
+                value={formData.employeeId}
+                onChange={(value) => setFormData({ ...formData, employeeId: value })}
+                placeholder="Select an employee"
+                searchable
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">From</label>
+              <input
+                type="datetime-local"
+                required
+                value={formData.startAt}
+                onChange={(e) => setFormData({ ...formData, startAt: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Until</label>
+              <input
+                type="datetime-local"
+                required
+                value={formData.endAt}
+                min={formData.startAt}
+                onChange={(e) => setFormData({ ...formData, endAt: e.target.value })}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <input
+              type="text"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="Optional, e.g. what the booking is for"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Access is assigned automatically when the reservation starts and removed when it ends.
+            </p>
+          </div>
+
+          {formError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              <p>{formError}</p>
+              {conflicts.length > 0 && (
+                <ul className="mt-2 list-disc ml-5">
+                  {conflicts.map(conflict => (
+                    <li key={conflict.id}>
+                      {conflict.employee.name}: {new Date(conflict.startAt).toLocaleString()} – {new Date(conflict.endAt).toLocaleString()}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !formData.employeeId || !formData.startAt || !formData.endAt}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? 'Reserving...' : 'Reserve'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className={`grid grid-cols-1 md:grid-cols-7 gap-2 ${loading ? 'opacity-50' : ''}`}>
+        {days.map(day => {
+          const dayEnd = new Date(day.getTime() + DAY_MS);
+          const dayReservations = reservations.filter(reservation =>
+            new Date(reservation.startAt) < dayEnd && new Date(reservation.endAt) > day
+          );
+          const isPast = dayEnd <= new Date();
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={`border rounded-lg min-h-32 p-2 ${isToday(day) ? 'border-indigo-400' : 'border-gray-200'} ${isPast ? 'bg-gray-50' : 'bg-white'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className={`text-xs font-medium ${isToday(day) ? 'text-indigo-600' : 'text-gray-500'}`}>
+                  {day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                </span>
+                {!isPast && (
+                  <button
+                    onClick={() => openForm(day)}
+                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                    title="Reserve on this day"
+                  >
+                    +
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                {dayReservations.map(reservation => {
+                  const start = new Date(reservation.startAt);
+                  const end = new Date(reservation.endAt);
+                  return (
+                    <div
+                      key={reservation.id}
+                      className={`border rounded px-1.5 py-1 text-xs ${STATUS_STYLES[reservation.status]}`}
+                      title={reservation.failureReason || reservation.notes || undefined}
+                    >
+                      <div className="font-medium">
+                        {start < day ? '…' : formatTime(start)} – {end > dayEnd ? '…' : formatTime(end)}
+                      </div>
+                      <div className="truncate">
+                        {reservation.employeeId === currentUserId ? 'You' : reservation.employee.name}
+                      </div>
+                      {reservation.status === 'FAILED' && <div>Could not start</div>}
+                      {canCancel(reservation) && (
+                        <button
+                          onClick={() => handleCancel(reservation)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          {reservation.status === 'ACTIVE' ? 'End now' : 'Cancel'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-500">
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-indigo-100 border border-indigo-200 mr-1"></span>Booked</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-100 border border-green-200 mr-1"></span>In progress</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-gray-100 border border-gray-200 mr-1"></span>Finished</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-red-100 border border-red-200 mr-1"></span>Could not start</span>
+      </div>
+    </div>
+  );
+}
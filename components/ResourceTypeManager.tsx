@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { getUserPermissions } from '@/lib/permissions';
 import { useNotification } from './Notification';
 import ElegantSelect from './ElegantSelect';
 import { 
@@ -89,7 +90,7 @@ export default function ResourceTypeManager({ onClose }: ResourceTypeManagerProp
   const [savingProperty, setSavingProperty] = useState(false);
 
   // Permission check
-  const canManage = user && ['CEO', 'CTO', 'ADMIN'].includes(user.role);
+  const canManage = !!user && (user.permissions ?? getUserPermissions(user.role)).canEditResource;
 
   // Fetch resource types with categories
   const fetchResourceTypes = useCallback(async () => {
@@ -0,0 +1,51 @@
+'use client';
+
+import { AlertTriangle, ArrowUpCircle, Clock } from 'lucide-react';
+import type { ApprovalSlaSummary } from '@/lib/approvalSlaService';
+
+interface SlaBadgeProps {
+  sla?: ApprovalSlaSummary | null;
+}
+
+const formatHours = (hours: number) => {
+  const absolute = Math.abs(hours);
+  if (absolute < 1) {
+    return `${Math.round(absolute * 60)}m`;
+  }
+  return `${Math.round(absolute * 10) / 10}h`;
+};
+
+// Time left on a pending approval's SLA, measured in business hours
+export default function SlaBadge({ sla }: SlaBadgeProps) {
+  if (!sla) {
+    return null;
+  }
+
+  const dueLabel = `Due ${new Date(sla.dueAt).toLocaleString()} (${sla.slaHours} business hour SLA)`;
+  const runningLow = sla.businessHoursRemaining <= sla.slaHours * 0.25;
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      {sla.breached ? (
+        <span title={dueLabel} className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          SLA breached · {formatHours(sla.businessHoursRemaining)} overdue
+        </span>
+      ) : (
+        <span
+          title={dueLabel}
+          className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full ${runningLow ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700'}`}
+        >
+          <Clock className="h-3 w-3 mr-1" />
+          {formatHours(sla.businessHoursRemaining)} left
+        </span>
+      )}
+      {sla.escalationLevel > 0 && (
+        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+          <ArrowUpCircle className="h-3 w-3 mr-1" />
+          Escalated{sla.escalationLevel > 1 ? ` ×${sla.escalationLevel}` : ''}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -111,12 +111,41 @@ export default function Timeline({
         return '🔓';
       case 'SOFTWARE_UPDATED':
         return '🔧';
+      case 'ASSIGNMENT_DUE_REMINDER_SENT':
+        return '⏰';
+      case 'ASSIGNMENT_OVERDUE':
+        return '🚨';
+      case 'RESERVATION_CREATED':
+      case 'RESERVATION_STARTED':
+      case 'RESERVATION_ENDED':
+        return '📅';
+      case 'RESERVATION_CANCELLED':
+      case 'RESERVATION_FAILED':
+        return '🚫';
       case 'POLICY_REVIEWED':
         return '👀';
       case 'EMPLOYEE_HIRED':
         return '👋';
       case 'EMPLOYEE_PROMOTED':
         return '⬆️';
+      case 'SLA_REMINDER_SENT':
+        return '⏰';
+      case 'SLA_BREACHED':
+        return '🚨';
+      case 'WORKFLOW_ESCALATED':
+        return '⏫';
+      case 'WORKFLOW_DELEGATED':
+        return '🤝';
+      case 'FULFILMENT_COMPLETED':
+        return '📦';
+      case 'FULFILMENT_FAILED':
+        return '⚠️';
+      case 'FULFILMENT_SKIPPED':
+        return '📝';
+      case 'WORKFLOW_CANCELLED':
+        return '🚫';
+      case 'WORKFLOW_AMENDED':
+        return '✏️';
       default:
         return '📋';
     }
@@ -146,6 +175,36 @@ export default function Timeline({
         return 'text-gray-600 bg-gray-50';
       case 'FILE_UPLOADED':
         return 'text-orange-600 bg-orange-50';
+      case 'SLA_REMINDER_SENT':
+        return 'text-yellow-600 bg-yellow-50';
+      case 'SLA_BREACHED':
+        return 'text-red-700 bg-red-100';
+      case 'ASSIGNMENT_DUE_REMINDER_SENT':
+        return 'text-yellow-600 bg-yellow-50';
+      case 'ASSIGNMENT_OVERDUE':
+        return 'text-red-700 bg-red-100';
+      case 'RESERVATION_CREATED':
+      case 'RESERVATION_STARTED':
+      case 'RESERVATION_ENDED':
+        return 'text-indigo-600 bg-indigo-50';
+      case 'RESERVATION_CANCELLED':
+        return 'text-gray-600 bg-gray-50';
+      case 'RESERVATION_FAILED':
+        return 'text-red-700 bg-red-100';
+      case 'WORKFLOW_ESCALATED':
+        return 'text-purple-600 bg-purple-50';
+      case 'WORKFLOW_DELEGATED':
+        return 'text-blue-600 bg-blue-50';
+      case 'FULFILMENT_COMPLETED':
+        return 'text-green-600 bg-green-50';
+      case 'FULFILMENT_FAILED':
+        return 'text-red-700 bg-red-100';
+      case 'FULFILMENT_SKIPPED':
+        return 'text-yellow-600 bg-yellow-50';
+      case 'WORKFLOW_CANCELLED':
+        return 'text-gray-700 bg-gray-100';
+      case 'WORKFLOW_AMENDED':
+        return 'text-blue-600 bg-blue-50';
       default:
         return 'text-gray-600 bg-gray-50';
     }
@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string;
+  enrollmentRequired: boolean;
+  onVerify: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+type Step = 'enroll' | 'recovery-codes' | 'verify';
+
+const inputClassName = "block w-full px-3 py-3 border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors duration-200 bg-gray-50 focus:bg-white tracking-widest text-center";
+const primaryButtonClassName = "w-full flex justify-center py-3 px-4 border border-transparent text-sm font-semibold rounded-xl text-white bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-lg";
+
+export default function TwoFactorLoginStep({ challengeToken, enrollmentRequired, onVerify, onCancel }: TwoFactorLoginStepProps) {
+  const [step, setStep] = useState<Step>(enrollmentRequired ? 'enroll' : 'verify');
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const startEnrollment = useCallback(async () => {
+    setError('');
+    try {
+      const response = await fetch('/api/auth/2fa/enroll', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setEnrollment(data);
+      } else {
+        setError(data.error || 'Failed to start two-factor setup');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  }, [challengeToken]);
+
+  useEffect(() => {
+    if (enrollmentRequired) {
+      startEnrollment();
+    }
+  }, [enrollmentRequired, startEnrollment]);
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/2fa/enroll/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setRecoveryCodes(data.recoveryCodes || []);
+        setStep('recovery-codes');
+      } else {
+        setError(data.error || 'Invalid verification code');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await onVerify(code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="flex-shrink-0 w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center">
+          <ShieldCheck className="h-5 w-5 text-indigo-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {step === 'enroll' ? 'Set up two-factor authentication' : step === 'recovery-codes' ? 'Save your recovery codes' : 'Two-factor verification'}
+          </h3>
+          {step === 'enroll' && (
+            <p className="text-sm text-gray-600">Your role requires an authenticator app to sign in.</p>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl bg-red-50 border border-red-200 p-4">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {step === 'enroll' && (
+        <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+          {enrollment ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Scan this QR code with your authenticator app, or enter the key manually, then type the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-44 w-44" />
+              </div>
+              <p className="text-xs text-center font-mono text-gray-700 break-all bg-gray-50 rounded-lg p-2">
+                {enrollment.secret}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 text-center">Generating your key...</p>
+          )}
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            maxLength={6}
+            className={inputClassName}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          />
+          <button type="submit" disabled={loading || !enrollment} className={primaryButtonClassName}>
+            {loading ? 'Verifying...' : 'Enable two-factor'}
+          </button>
+        </form>
+      )}
+
+      {step === 'recovery-codes' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800 bg-gray-50 rounded-lg p-4">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => {
+              setCode('');
+              setStep('verify');
+            }}
+            className={primaryButtonClassName}
+          >
+            I&apos;ve saved these codes
+          </button>
+        </div>
+      )}
+
+      {step === 'verify' && (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes. Each code can only be used once.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+          <input
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            required
+            className={inputClassName}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            value={code}
+            onChange={(e) => setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))}
+          />
+          <button type="submit" disabled={loading} className={primaryButtonClassName}>
+            {loading ? 'Verifying...' : 'Verify and sign in'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(prev => !prev);
+              setCode('');
+              setError('');
+            }}
+            className="w-full text-sm font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            {useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code instead'}
+          </button>
+        </form>
+      )}
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="w-full text-sm text-gray-500 hover:text-gray-700"
+      >
+        Back to sign in
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { useNotification } from '@/components/Notification';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  pendingEnrollment: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+type Action = 'disable' | 'regenerate' | null;
+
+export default function TwoFactorSettings() {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<Action>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/2fa');
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
+  const handleStartEnrollment = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/auth/2fa/enroll', { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEnrollment(data);
+        setRecoveryCodes([]);
+        setCode('');
+      } else {
+        showNotification('error', 'Setup Failed', data.error || 'Failed to start two-factor setup');
+      }
+    } catch (error) {
+      console.error('Error starting two-factor enrollment:', error);
+      showNotification('error', 'Network Error', 'Unable to start two-factor setup. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await fetch('/api/auth/2fa/enroll/confirm', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showNotification('success', 'Two-Factor Enabled', 'Your account now requires a code from your authenticator app');
+        setEnrollment(null);
+        setRecoveryCodes(data.recoveryCodes || []);
+        setCode('');
+        await fetchStatus();
+      } else {
+        showNotification('error', 'Verification Failed', data.error || 'Invalid verification code');
+      }
+    } catch (error) {
+      console.error('Error confirming two-factor enrollment:', error);
+      showNotification('error', 'Network Error', 'Unable to verify code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePendingAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        pendingAction === 'disable' ? '/api/auth/2fa/disable' : '/api/auth/2fa/recovery-codes',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ code }),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        if (pendingAction === 'disable') {
+          showNotification('success', 'Two-Factor Disabled', 'Two-factor authentication has been turned off');
+          setRecoveryCodes([]);
+        } else {
+          showNotification('success', 'Codes Regenerated', 'Your old recovery codes no longer work');
+          setRecoveryCodes(data.recoveryCodes || []);
+        }
+        setPendingAction(null);
+        setCode('');
+        await fetchStatus();
+      } else {
+        showNotification('error', 'Verification Failed', data.error || 'Invalid verification code');
+      }
+    } catch (error) {
+      console.error('Error updating two-factor settings:', error);
+      showNotification('error', 'Network Error', 'Unable to update two-factor settings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="pt-6 border-t border-gray-200">
+      {NotificationComponent}
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            {status.enabled ? (
+              <ShieldCheck className="h-5 w-5 mr-2 text-green-600" />
+            ) : (
+              <ShieldOff className="h-5 w-5 mr-2 text-gray-400" />
+            )}
+            Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-gray-600">
+            {status.enabled
+              ? `Enabled${status.enabledAt ? ` on ${new Date(status.enabledAt).toLocaleDateString()}` : ''} · ${status.recoveryCodesRemaining} recovery code(s) left`
+              : 'Require a code from an authenticator app when you sign in.'}
+          </p>
+          {status.required && (
+            <p className="mt-1 text-xs text-amber-700">Two-factor authentication is mandatory for your role.</p>
+          )}
+        </div>
+
+        {!status.enabled && !enrollment && (
+          <button
+            type="button"
+            onClick={handleStartEnrollment}
+            disabled={loading}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Set up
+          </button>
+        )}
+
+        {status.enabled && !pendingAction && (
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => setPendingAction('regenerate')}
+              className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={() => setPendingAction('disable')}
+                className="px-3 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Disable
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {enrollment && (
+        <form onSubmit={handleConfirmEnrollment} className="space-y-4 bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">
+            Scan the QR code with your authenticator app, or enter the key manually, then enter the 6-digit code to finish.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-6">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-40 w-40" />
+            <p className="mt-2 sm:mt-0 text-xs font-mono text-gray-700 break-all">{enrollment.secret}</p>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              placeholder="123456"
+              className="block w-40 border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {loading ? 'Verifying...' : 'Enable'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEnrollment(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {pendingAction && (
+        <form onSubmit={handlePendingAction} className="space-y-3 bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">
+            {pendingAction === 'disable'
+              ? 'Enter a code from your authenticator app (or a recovery code) to turn off two-factor authentication.'
+              : 'Enter a code from your authenticator app to replace your recovery codes. Existing codes will stop working.'}
+          </p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              className="block w-48 border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={loading}
+              className={`px-4 py-2 text-sm font-medium text-white rounded-lg disabled:opacity-50 transition-colors ${
+                pendingAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {loading ? 'Verifying...' : pendingAction === 'disable' ? 'Disable' : 'Regenerate'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setPendingAction(null);
+                setCode('');
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="mt-4 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-amber-900 mb-2">Save your recovery codes</h4>
+          <p className="text-xs text-amber-800 mb-3">
+            Each code can be used once if you lose your authenticator. They will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm text-gray-800">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes([])}
+            className="mt-3 text-sm font-medium text-amber-900 hover:underline"
+          >
+            I&apos;ve saved these codes
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { DecisionTimeStats, WorkflowAnalytics } from '@/lib/workflowAnalyticsService';
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase());
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10}d` : `${hours}h`;
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Horizontal bars of median time to decision with the p90 shown behind them
+function CycleTimeBars({ rows }: { rows: Array<DecisionTimeStats & { key: string; label: string }> }) {
+  const max = Math.max(...rows.map(row => row.p90Hours ?? row.medianHours ?? 0), 1);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No decisions in this range.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {rows.map(row => (
+        <li key={row.key}>
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="truncate pr-2 text-gray-900">{row.label}</span>
+            <span className="whitespace-nowrap">
+              {formatHours(row.medianHours)} median · {formatHours(row.p90Hours)} p90 · {row.decided} decided · {formatPercent(row.rejectionRate)} rejected
+            </span>
+          </div>
+          <div className="relative mt-1 h-2 rounded bg-gray-100">
+            <div className="absolute inset-y-0 left-0 rounded bg-blue-200" style={{ width: `${((row.p90Hours ?? 0) / max) * 100}%` }} />
+            <div className="absolute inset-y-0 left-0 rounded bg-blue-600" style={{ width: `${((row.medianHours ?? 0) / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Cycle time, rejection rate and bottleneck charts for approval administrators
+export default function WorkflowAnalyticsPanel() {
+  const [analytics, setAnalytics] = useState<WorkflowAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [from, setFrom] = useState(toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [type, setType] = useState('');
+  const [department, setDepartment] = useState('');
+  const [view, setView] = useState<'type' | 'approver' | 'department'>('type');
+  // Filter choices seen so far, kept while a filter narrows the results
+  const [typeOptions, setTypeOptions] = useState<string[]>([]);
+  const [departmentOptions, setDepartmentOptions] = useState<string[]>([]);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59`).toISOString()
+      });
+      if (type) params.set('type', type);
+      if (department) params.set('department', department);
+
+      const response = await fetch(`/api/workflows/analytics?${params}`);
+      const data = await response.json();
+      if (response.ok) {
+        const result: WorkflowAnalytics = data;
+        setAnalytics(result);
+        setTypeOptions(prev => Array.from(new Set([...prev, ...result.byType.map(row => row.type), ...result.oldestPending.map(item => item.type)])).sort());
+        setDepartmentOptions(prev => Array.from(new Set([...prev, ...result.byDepartment.map(row => row.department), ...result.oldestPending.map(item => item.department)])).sort());
+      } else {
+        setError(data.error || 'Failed to load analytics');
+      }
+    } catch (error) {
+      console.error('Error fetching workflow analytics:', error);
+      setError('Unable to load analytics. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, type, department]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const trendMax = Math.max(...(analytics?.trend.map(point => Math.max(point.created, point.decided)) || [0]), 1);
+  const breakdown = !analytics ? [] : view === 'type'
+    ? analytics.byType.map(row => ({ ...row, key: row.type, label: formatLabel(row.type) }))
+    : view === 'approver'
+      ? analytics.byApprover.map(row => ({ ...row, key: row.approverId, label: row.approverName }))
+      : analytics.byDepartment.map(row => ({ ...row, key: row.department, label: row.department }));
+
+  return (
+    <div className="mt-8 bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Cycle times &amp; bottlenecks</h2>
+        <div className="mt-3 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">From</label>
+            <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">To</label>
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Type</label>
+            <select value={type} onChange={(e) => setType(e.target.value)} className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm">
+              <option value="">All types</option>
+              {typeOptions.map(value => <option key={value} value={value}>{formatLabel(value)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Department</label>
+            <select value={department} onChange={(e) => setDepartment(e.target.value)} className="mt-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm">
+              <option value="">All departments</option>
+              {departmentOptions.map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="px-6 py-6 text-sm text-red-700">{error}</div>
+      ) : loading && !analytics ? (
+        <div className="px-6 py-6 text-sm text-gray-500">Loading analytics...</div>
+      ) : analytics && (
+        <div className={`px-6 py-4 space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+            {[
+              { label: 'Created', value: analytics.totals.created },
+              { label: 'Decided', value: analytics.totals.decided },
+              { label: 'Median time to decision', value: formatHours(analytics.totals.medianHours) },
+              { label: 'p90 time to decision', value: formatHours(analytics.totals.p90Hours) },
+              { label: 'Rejection rate', value: formatPercent(analytics.totals.rejectionRate) }
+            ].map(tile => (
+              <div key={tile.label} className="rounded-lg border border-gray-200 px-4 py-3">
+                <div className="text-xs text-gray-500">{tile.label}</div>
+                <div className="mt-1 text-xl font-semibold text-gray-900">{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700">Trend by {analytics.range.interval}</h3>
+            <div className="mt-2 flex items-end gap-1 h-32">
+              {analytics.trend.map(point => (
+                <div
+                  key={point.periodStart}
+                  className="flex-1 flex items-end gap-px h-full"
+                  title={`${new Date(point.periodStart).toLocaleDateString()}: ${point.created} created, ${point.decided} decided, ${formatHours(point.medianHours)} median, ${formatPercent(point.rejectionRate)} rejected`}
+                >
+                  <div className="flex-1 bg-gray-300 rounded-t" style={{ height: `${(point.created / trendMax) * 100}%` }} />
+                  <div className="flex-1 bg-blue-600 rounded-t" style={{ height: `${(point.approved / trendMax) * 100}%` }} />
+                  <div className="flex-1 bg-red-500 rounded-t" style={{ height: `${(point.rejected / trendMax) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-gray-500">
+              <span>{new Date(analytics.range.from).toLocaleDateString()}</span>
+              <span className="space-x-3">
+                <span><span className="inline-block h-2 w-2 bg-gray-300 mr-1" />Created</span>
+                <span><span className="inline-block h-2 w-2 bg-blue-600 mr-1" />Approved</span>
+                <span><span className="inline-block h-2 w-2 bg-red-500 mr-1" />Rejected</span>
+              </span>
+              <span>{new Date(analytics.range.to).toLocaleDateString()}</span>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700">Time to decision, slowest first</h3>
+              <div className="flex rounded-md border border-gray-300 text-xs overflow-hidden">
+                {(['type', 'approver', 'department'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1 ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    By {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="mt-3">
+              <CycleTimeBars rows={breakdown} />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700">Oldest pending ({analytics.totals.pending} pending in total)</h3>
+            {analytics.oldestPending.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">Nothing is pending.</p>
+            ) : (
+              <table className="mt-2 min-w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {analytics.oldestPending.map(item => (
+                    <tr key={item.id}>
+                      <td className="py-1.5 pr-3 text-gray-900">{item.title}</td>
+                      <td className="py-1.5 pr-3 text-gray-500">{item.requesterName} ({item.department})</td>
+                      <td className="py-1.5 pr-3 text-gray-500">{item.approverName || 'Unassigned'}</td>
+                      <td className={`py-1.5 text-right whitespace-nowrap ${item.overdue ? 'text-red-700 font-medium' : 'text-gray-700'}`}>
+                        {formatHours(item.ageHours)} old{item.overdue ? ' · overdue' : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
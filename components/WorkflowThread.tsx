@@ -0,0 +1,216 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { HelpCircle, MessageSquare, Paperclip, Reply } from 'lucide-react';
+import { useNotification } from '@/components/Notification';
+
+interface WorkflowMessage {
+  id: string;
+  kind: 'COMMENT' | 'INFO_REQUESTED' | 'INFO_PROVIDED';
+  body: string;
+  createdAt: string;
+  author: { id: string; name: string; role: string };
+  attachments: {
+    id: string;
+    filePath: string;
+    fileName: string;
+    fileSize: number;
+  }[];
+}
+
+interface WorkflowThreadProps {
+  workflowId: string;
+  isRequester?: boolean;
+  canRequestInfo?: boolean; // viewer is the current approver of a pending workflow
+  onStatusChange?: (status: string) => void;
+}
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+  : `${Math.round(bytes / (1024 * 102.4)) / 10} MB`;
+
+// Conversation between requester and approvers on one approval workflow
+export default function WorkflowThread({ workflowId, isRequester, canRequestInfo, onStatusChange }: WorkflowThreadProps) {
+  const { showNotification, NotificationComponent } = useNotification();
+  const [messages, setMessages] = useState<WorkflowMessage[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [sending, setSending] = useState(false);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/messages`);
+      if (response.ok) {
+        const data = await response.json();
+        setMessages(data.messages || []);
+        setStatus(data.status);
+      }
+    } catch (error) {
+      console.error('Error fetching workflow messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const handleSend = async (requestInfo: boolean) => {
+    if (!body.trim()) {
+      return;
+    }
+    setSending(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('body', body);
+      formData.append('requestInfo', String(requestInfo));
+      files.forEach(file => formData.append('files', file));
+
+      const response = await fetch(`/api/workflows/${workflowId}/messages`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setBody('');
+        setFiles([]);
+        setFileInputKey(key => key + 1);
+        if (data.status !== status) {
+          setStatus(data.status);
+          onStatusChange?.(data.status);
+          showNotification(
+            'success',
+            requestInfo ? 'Sent Back for Information' : 'Reply Sent',
+            requestInfo ? 'The requester has been asked for more information.' : 'The request is back with the approver.'
+          );
+        }
+        await fetchMessages();
+      } else {
+        showNotification('error', 'Message Not Sent', data.error || 'Failed to send message');
+      }
+    } catch (error) {
+      console.error('Error posting workflow message:', error);
+      showNotification('error', 'Network Error', 'Unable to send message. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const getKindStyle = (kind: WorkflowMessage['kind']) => {
+    switch (kind) {
+      case 'INFO_REQUESTED':
+        return { className: 'border-l-4 border-yellow-400 bg-yellow-50', label: 'Asked for more information', icon: <HelpCircle className="h-3 w-3 mr-1" /> };
+      case 'INFO_PROVIDED':
+        return { className: 'border-l-4 border-blue-400 bg-blue-50', label: 'Provided information', icon: <Reply className="h-3 w-3 mr-1" /> };
+      default:
+        return { className: 'bg-gray-50', label: null, icon: null };
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {NotificationComponent}
+      <h4 className="text-sm font-medium text-gray-900 flex items-center">
+        <MessageSquare className="h-4 w-4 mr-1 text-gray-500" />
+        Discussion
+      </h4>
+
+      {loading ? (
+        <p className="text-xs text-gray-500">Loading messages...</p>
+      ) : messages.length === 0 ? (
+        <p className="text-xs text-gray-500">No messages yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {messages.map(message => {
+            const style = getKindStyle(message.kind);
+            return (
+              <li key={message.id} className={`rounded-md px-3 py-2 ${style.className}`}>
+                <div className="flex items-center text-xs text-gray-500">
+                  <span className="font-medium text-gray-800">{message.author.name}</span>
+                  <span className="mx-1">·</span>
+                  <span>{new Date(message.createdAt).toLocaleString()}</span>
+                  {style.label && (
+                    <span className="ml-2 inline-flex items-center font-medium text-gray-700">
+                      {style.icon}
+                      {style.label}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">{message.body}</p>
+                {message.attachments.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {message.attachments.map(attachment => (
+                      <a
+                        key={attachment.id}
+                        href={attachment.filePath}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        <Paperclip className="h-3 w-3 mr-1" />
+                        {attachment.fileName} ({formatSize(attachment.fileSize)})
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isRequester && status === 'NEEDS_INFO' && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 rounded px-2 py-1">
+          The approver needs more information. Your reply sends the request back to them.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          placeholder={isRequester && status === 'NEEDS_INFO' ? 'Answer the approver...' : 'Write a message...'}
+          className="block w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <input
+            key={fileInputKey}
+            type="file"
+            multiple
+            accept=".pdf,.doc,.docx,.xls,.xlsx,.png,.jpg,.jpeg"
+            onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            className="text-xs text-gray-600"
+          />
+          <div className="flex space-x-2">
+            {canRequestInfo && status === 'PENDING' && (
+              <button
+                type="button"
+                onClick={() => handleSend(true)}
+                disabled={sending || !body.trim()}
+                className="px-3 py-1 text-xs font-medium text-yellow-800 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
+              >
+                Ask for more info
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleSend(false)}
+              disabled={sending || !body.trim()}
+              className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : isRequester && status === 'NEEDS_INFO' ? 'Send reply' : 'Send'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
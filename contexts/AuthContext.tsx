@@ -1,7 +1,8 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { setRoleRegistry, UserPermissions } from '@/lib/permissions';
 
 interface User {
   id: string;
@@ -9,12 +10,22 @@ interface User {
   name: string;
   role: string;
   department: string;
+  // Effective permissions from /api/auth/me (role matrix plus personal grants)
+  permissions?: UserPermissions;
+}
+
+// Returned when the password was accepted but a second factor is still needed
+export interface LoginResult {
+  twoFactorRequired?: boolean;
+  enrollmentRequired?: boolean;
+  challengeToken?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   signup: (userData: SignupData) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
@@ -32,16 +43,30 @@ interface SignupData {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Roles are data; load them so the role helpers in lib/permissions know custom roles too
+async function loadRoles() {
+  try {
+    const response = await fetch('/api/roles');
+    if (response.ok) {
+      const data = await response.json();
+      setRoleRegistry(data.roles);
+    }
+  } catch (error) {
+    console.error('Failed to load roles:', error);
+  }
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
-  const checkAuth = async () => {
+  const checkAuth = useCallback(async () => {
     try {
       const response = await fetch('/api/auth/me');
       if (response.ok) {
         const data = await response.json();
+        await loadRoles();
         setUser(data.user);
       } else {
         setUser(null);
@@ -52,7 +77,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   const login = async (email: string, password: string) => {
     const response = await fetch('/api/auth/login', {
@@ -69,7 +94,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       throw new Error(data.error || 'Login failed');
     }
 
-    setUser(data.user);
+    if (data.twoFactorRequired) {
+      return {
+        twoFactorRequired: true,
+        enrollmentRequired: data.enrollmentRequired,
+        challengeToken: data.challengeToken
+      };
+    }
+
+    // Fetch the full profile, including effective permissions, now that the cookie is set
+    await checkAuth();
+    return {};
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Verification failed');
+    }
+
+    await checkAuth();
   };
 
   const signup = async (userData: SignupData) => {
@@ -87,7 +140,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       throw new Error(data.error || 'Signup failed');
     }
 
-    setUser(data.user);
+    await checkAuth();
   };
 
   const logout = async () => {
@@ -106,12 +159,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   useEffect(() => {
     checkAuth();
-  }, []);
+  }, [checkAuth]);
 
   const value = {
     user,
     loading,
     login,
+    completeTwoFactorLogin,
     signup,
     logout,
     checkAuth,
@@ -0,0 +1,9 @@
+// instrumentation.ts
+// Next.js calls register() once when a server instance starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSlaScheduler } = await import('./lib/approvalSlaScheduler');
+    startSlaScheduler();
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getScopesBeyondPermissions, resolveRouteScope } from './apiTokenService';
+import { getUserPermissions } from './permissions';
+
+// resolveRouteScope is pure; keep the module's database client from connecting
+vi.mock('./prisma', () => ({ prisma: {} }));
+
+describe('resolveRouteScope', () => {
+  it('lets any token confirm its identity', () => {
+    expect(resolveRouteScope('/api/auth/me', 'GET')).toEqual({ accepted: true, scope: null });
+  });
+
+  it('refuses tokens on account-security routes', () => {
+    for (const pathname of ['/api/auth/login', '/api/auth/api-tokens', '/api/auth/sessions', '/api/auth/reset-password']) {
+      expect(resolveRouteScope(pathname, 'POST').accepted).toBe(false);
+    }
+  });
+
+  it('refuses tokens on permission grants even for reads', () => {
+    expect(resolveRouteScope('/api/employees/emp-1/permissions', 'GET')).toEqual({ accepted: false, scope: null });
+    expect(resolveRouteScope('/api/employees/emp-1/permissions', 'PUT')).toEqual({ accepted: false, scope: null });
+  });
+
+  it('refuses tokens on account-security routes under employees', () => {
+    expect(resolveRouteScope('/api/employees/emp-1/sessions', 'DELETE').accepted).toBe(false);
+    expect(resolveRouteScope('/api/employees/emp-1/unlock', 'POST').accepted).toBe(false);
+  });
+
+  it('refuses tokens on delegations, which hand approval authority to someone else', () => {
+    expect(resolveRouteScope('/api/delegations', 'POST').accepted).toBe(false);
+    expect(resolveRouteScope('/api/delegations/del-1', 'DELETE').accepted).toBe(false);
+  });
+
+  it('refuses tokens on routes without a scope family', () => {
+    expect(resolveRouteScope('/api/migration', 'POST').accepted).toBe(false);
+  });
+
+  it('requires the read scope for GET and HEAD and the write scope otherwise', () => {
+    expect(resolveRouteScope('/api/employees', 'GET')).toEqual({ accepted: true, scope: 'employees:read' });
+    expect(resolveRouteScope('/api/employees/emp-1', 'HEAD')).toEqual({ accepted: true, scope: 'employees:read' });
+    expect(resolveRouteScope('/api/employees/emp-1', 'PATCH')).toEqual({ accepted: true, scope: 'employees:write' });
+  });
+
+  it('matches the more specific prefix first', () => {
+    expect(resolveRouteScope('/api/resources/assignments/a-1', 'PATCH')).toEqual({ accepted: true, scope: 'assignments:write' });
+    expect(resolveRouteScope('/api/resources/assign', 'POST')).toEqual({ accepted: true, scope: 'assignments:write' });
+    expect(resolveRouteScope('/api/resources/catalog', 'GET')).toEqual({ accepted: true, scope: 'resources:read' });
+  });
+
+  it('matches whole path segments only', () => {
+    expect(resolveRouteScope('/api/resourcesX', 'GET').accepted).toBe(false);
+  });
+
+  it('requires the approve scope for decisions', () => {
+    expect(resolveRouteScope('/api/workflows/wf-1/approve', 'POST')).toEqual({ accepted: true, scope: 'workflows:approve' });
+    expect(resolveRouteScope('/api/workflows/bulk-decision', 'POST')).toEqual({ accepted: true, scope: 'workflows:approve' });
+    expect(resolveRouteScope('/api/approvals/resource-assignment', 'POST')).toEqual({ accepted: true, scope: 'workflows:approve' });
+  });
+
+  it('needs only the workflow scopes to create and read workflows', () => {
+    expect(resolveRouteScope('/api/workflows', 'POST')).toEqual({ accepted: true, scope: 'workflows:write' });
+    expect(resolveRouteScope('/api/approvals/resource-assignment', 'GET')).toEqual({ accepted: true, scope: 'workflows:read' });
+  });
+});
+
+describe('getScopesBeyondPermissions', () => {
+  it('lets an issuer grant the scopes their own permissions cover', () => {
+    expect(getScopesBeyondPermissions(['resources:read', 'assignments:write', 'workflows:approve'], getUserPermissions('CTO'))).toEqual([]);
+  });
+
+  it('refuses scopes beyond the issuer, such as approvals for an administrator who cannot approve', () => {
+    expect(getScopesBeyondPermissions(['resources:write', 'workflows:approve', 'audit:read'], getUserPermissions('ADMIN')))
+      .toEqual(['workflows:approve', 'audit:read']);
+  });
+});
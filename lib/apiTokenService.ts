@@ -0,0 +1,399 @@
+/**
+ * API Token Service
+ * Long-lived bearer credentials for scripts and integrations. A token authenticates as an
+ * employee (its owner) but only for the scopes it was issued with; personal tokens act as
+ * their creator, service tokens are issued by administrators for an account marked as a
+ * service account. Every token expires. Only the SHA-256 hash of the secret is stored.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { getEffectivePermissions } from './roleService';
+import { APPROVAL_PERMISSIONS, PermissionKey, UserPermissions } from './permissions';
+
+export const API_TOKEN_SCOPES = {
+  'resources:read': 'View resources, items, types, categories and the property catalog',
+  'resources:write': 'Create, update and delete resources, items, types, categories and properties',
+  'assignments:read': 'View resource assignments',
+  'assignments:write': 'Assign, return and update resource assignments',
+  'employees:read': 'View employees',
+  'employees:write': 'Create, update and delete employees',
+  'access:read': 'View access grants',
+  'access:write': 'Create and update access grants',
+  'policies:read': 'View policies',
+  'policies:write': 'Create and update policies',
+  'workflows:read': 'View approval workflows',
+  'workflows:write': 'Create approval workflows',
+  'workflows:approve': 'Approve or reject approval workflows',
+  'timeline:read': 'View activity timelines',
+  'audit:read': 'View audit logs'
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+// Permissions (any of) the issuer of a service token must hold to grant each scope, so a
+// service token never reaches further than the administrator who issued it
+const SCOPE_ISSUER_PERMISSIONS: Record<ApiTokenScope, PermissionKey[]> = {
+  'resources:read': ['canViewAllResources'],
+  'resources:write': ['canAddResource', 'canEditResource', 'canDeleteResource'],
+  'assignments:read': ['canViewAllResources'],
+  'assignments:write': ['canAssignResources'],
+  'employees:read': ['canViewAllEmployees'],
+  'employees:write': ['canAddEmployee', 'canEditEmployee', 'canDeleteEmployee'],
+  'access:read': ['canViewAllAccessRequests'],
+  'access:write': ['canApproveAccess'],
+  'policies:read': ['canViewPolicies'],
+  'policies:write': ['canEditPolicy'],
+  'workflows:read': ['canViewAllApprovals'],
+  'workflows:write': ['canApproveWorkflows'],
+  'workflows:approve': APPROVAL_PERMISSIONS,
+  'timeline:read': ['canViewTimeline'],
+  'audit:read': ['canViewAudit']
+};
+
+export const API_TOKEN_MAX_LIFETIME_DAYS = 365;
+
+const TOKEN_MARKER = 'ipt_';
+const PREFIX_LENGTH = 12;
+
+// lastUsedAt is refreshed at most this often to avoid a write on every request
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+/**
+ * Route prefixes and the scope family that guards them; the first match wins, so more
+ * specific prefixes come first. Account-security routes under /api/auth are deliberately
+ * absent: tokens cannot change passwords, 2FA, sessions or mint further tokens. Nor can they
+ * hand approval authority to someone else through /api/delegations.
+ */
+const ROUTE_SCOPES: Array<{ prefix: string; family: string }> = [
+  { prefix: '/api/resources/assignments', family: 'assignments' },
+  { prefix: '/api/resources/assign', family: 'assignments' },
+  { prefix: '/api/approvals', family: 'workflows' },
+  { prefix: '/api/resources', family: 'resources' },
+  { prefix: '/api/resource-types', family: 'resources' },
+  { prefix: '/api/resource-categories', family: 'resources' },
+  { prefix: '/api/property-catalog', family: 'resources' },
+  { prefix: '/api/employees', family: 'employees' },
+  { prefix: '/api/access', family: 'access' },
+  { prefix: '/api/policies', family: 'policies' },
+  { prefix: '/api/workflows', family: 'workflows' },
+  { prefix: '/api/timeline', family: 'timeline' },
+  { prefix: '/api/audit', family: 'audit' }
+];
+
+export interface ApiTokenInput {
+  name: string;
+  scopes: string[];
+  expiresAt?: string | Date | null;
+  kind?: 'PERSONAL' | 'SERVICE';
+  employeeId?: string;
+}
+
+export interface ApiTokenResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface ApiTokenPrincipal {
+  tokenId: string;
+  employeeId: string;
+  scopes: string[];
+}
+
+export function isApiTokenScope(scope: string): scope is ApiTokenScope {
+  return Object.prototype.hasOwnProperty.call(API_TOKEN_SCOPES, scope);
+}
+
+export function hashApiToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function isApiTokenSecret(value: string): boolean {
+  return value.startsWith(TOKEN_MARKER);
+}
+
+/**
+ * Whether a route accepts bearer tokens and, if so, the scope it requires
+ * (null scope: any valid token may call it)
+ */
+export function resolveRouteScope(pathname: string, method: string): { accepted: boolean; scope: ApiTokenScope | null } {
+  // Identity check so scripts can confirm which account a token acts as
+  if (pathname === '/api/auth/me') {
+    return { accepted: true, scope: null };
+  }
+
+  // Permission grants change what any credential can do, and signing an employee out or
+  // unlocking their account is account security, so these need a signed-in admin
+  if (/^\/api\/employees\/[^/]+\/(permissions|sessions|unlock)$/.test(pathname)) {
+    return { accepted: false, scope: null };
+  }
+
+  const route = ROUTE_SCOPES.find(entry => pathname === entry.prefix || pathname.startsWith(`${entry.prefix}/`));
+  if (!route) {
+    return { accepted: false, scope: null };
+  }
+
+  const isRead = method === 'GET' || method === 'HEAD';
+
+  if (
+    route.family === 'workflows' &&
+    !isRead &&
+    (pathname.startsWith('/api/approvals') || /\/(approve|reject|fulfil|bulk-decision|email-decision)(\/|$)/.test(pathname))
+  ) {
+    return { accepted: true, scope: 'workflows:approve' };
+  }
+
+  const scope = `${route.family}:${isRead ? 'read' : 'write'}`;
+  return isApiTokenScope(scope) ? { accepted: true, scope } : { accepted: false, scope: null };
+}
+
+/**
+ * Resolve a bearer secret to the employee it authenticates as, checking expiry,
+ * revocation and that the token carries the scope the route needs
+ */
+export async function authenticateApiToken(
+  secret: string,
+  requiredScope: ApiTokenScope | null,
+  ipAddress?: string | null
+): Promise<ApiTokenPrincipal | null> {
+  if (!isApiTokenSecret(secret)) {
+    return null;
+  }
+
+  const token = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(secret) },
+    include: { employee: { select: { isServiceAccount: true } } }
+  });
+
+  const now = new Date();
+
+  if (!token || token.revokedAt || (token.expiresAt && token.expiresAt <= now)) {
+    return null;
+  }
+
+  // An account that is no longer a service account stops answering to its service tokens
+  if (token.kind === 'SERVICE' && !token.employee.isServiceAccount) {
+    return null;
+  }
+
+  if (requiredScope && !token.scopes.includes(requiredScope)) {
+    return null;
+  }
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS || token.lastUsedIp !== (ipAddress || null)) {
+    await prisma.apiToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress || null }
+    });
+  }
+
+  return {
+    tokenId: token.id,
+    employeeId: token.employeeId,
+    scopes: token.scopes
+  };
+}
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  kind: true,
+  prefix: true,
+  scopes: true,
+  createdAt: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  employee: { select: { id: true, name: true, email: true } },
+  createdBy: { select: { id: true, name: true } }
+} as const;
+
+/**
+ * Issue a token. The plaintext secret is only ever returned from this call.
+ */
+export async function createApiToken(
+  input: ApiTokenInput,
+  creator: { id: string; name: string; role: string }
+): Promise<ApiTokenResult & { secret?: string; token?: unknown }> {
+  const name = input.name?.trim();
+  if (!name) {
+    return { success: false, error: 'Token name is required', errorCode: 'NAME_REQUIRED' };
+  }
+
+  const scopes = Array.from(new Set(input.scopes || []));
+  if (scopes.length === 0) {
+    return { success: false, error: 'Select at least one scope', errorCode: 'SCOPES_REQUIRED' };
+  }
+
+  const unknownScopes = scopes.filter(scope => !isApiTokenScope(scope));
+  if (unknownScopes.length > 0) {
+    return { success: false, error: `Unknown scope(s): ${unknownScopes.join(', ')}`, errorCode: 'INVALID_SCOPE' };
+  }
+
+  if (!input.expiresAt) {
+    return { success: false, error: 'Tokens must have an expiry date', errorCode: 'INVALID_EXPIRY' };
+  }
+
+  const expiresAt = new Date(input.expiresAt);
+  const latest = new Date(Date.now() + API_TOKEN_MAX_LIFETIME_DAYS * 24 * 60 * 60 * 1000);
+  if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+    return { success: false, error: 'Expiry date must be in the future', errorCode: 'INVALID_EXPIRY' };
+  }
+  if (expiresAt > latest) {
+    return { success: false, error: `Tokens can be valid for at most ${API_TOKEN_MAX_LIFETIME_DAYS} days`, errorCode: 'INVALID_EXPIRY' };
+  }
+
+  const kind = input.kind === 'SERVICE' ? 'SERVICE' : 'PERSONAL';
+  let employeeId = creator.id;
+
+  if (kind === 'SERVICE') {
+    const issuerPermissions = await getEffectivePermissions(creator.id, creator.role);
+    if (!issuerPermissions.canIssueServiceTokens) {
+      return { success: false, error: 'Only administrators can issue service tokens', errorCode: 'FORBIDDEN' };
+    }
+
+    const beyondIssuer = getScopesBeyondPermissions(scopes as ApiTokenScope[], issuerPermissions);
+    if (beyondIssuer.length > 0) {
+      return {
+        success: false,
+        error: `You cannot grant scope(s) beyond your own permissions: ${beyondIssuer.join(', ')}`,
+        errorCode: 'SCOPE_NOT_ALLOWED'
+      };
+    }
+
+    const serviceAccount = input.employeeId
+      ? await prisma.employee.findUnique({
+        where: { id: input.employeeId },
+        select: { id: true, status: true, isServiceAccount: true }
+      })
+      : null;
+    if (!serviceAccount || serviceAccount.status !== 'ACTIVE' || !serviceAccount.isServiceAccount) {
+      return { success: false, error: 'Service account not found or not active', errorCode: 'EMPLOYEE_NOT_FOUND' };
+    }
+    employeeId = serviceAccount.id;
+  }
+
+  const secret = `${TOKEN_MARKER}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const token = await prisma.apiToken.create({
+    data: {
+      name,
+      kind,
+      tokenHash: hashApiToken(secret),
+      prefix: secret.slice(0, PREFIX_LENGTH),
+      scopes,
+      employeeId,
+      createdById: creator.id,
+      expiresAt
+    },
+    select: tokenSelect
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: creator.id,
+    fieldChanged: 'api_token_created',
+    oldValue: null,
+    newValue: JSON.stringify({
+      tokenId: token.id,
+      name,
+      kind,
+      scopes,
+      expiresAt: expiresAt.toISOString()
+    })
+  });
+
+  return { success: true, secret, token };
+}
+
+/**
+ * Tokens an employee can see: those that act as them and those they issued
+ */
+export async function listApiTokens(employeeId: string) {
+  return prisma.apiToken.findMany({
+    where: {
+      OR: [{ employeeId }, { createdById: employeeId }]
+    },
+    select: tokenSelect,
+    orderBy: [{ revokedAt: 'asc' }, { createdAt: 'desc' }]
+  });
+}
+
+/**
+ * Revoke a token. Its owner, its issuer or an administrator may revoke it.
+ */
+export async function revokeApiToken(
+  tokenId: string,
+  actor: { id: string; role: string }
+): Promise<ApiTokenResult> {
+  const token = await prisma.apiToken.findUnique({
+    where: { id: tokenId },
+    select: { id: true, name: true, employeeId: true, createdById: true, revokedAt: true }
+  });
+
+  if (!token) {
+    return { success: false, error: 'Token not found', errorCode: 'TOKEN_NOT_FOUND' };
+  }
+
+  const allowed =
+    token.employeeId === actor.id ||
+    token.createdById === actor.id ||
+    (await canIssueServiceTokens(actor));
+
+  if (!allowed) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  if (token.revokedAt) {
+    return { success: true };
+  }
+
+  const revokedAt = new Date();
+  await prisma.apiToken.update({
+    where: { id: token.id },
+    data: { revokedAt }
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: token.employeeId,
+    changedById: actor.id,
+    fieldChanged: 'api_token_revoked',
+    oldValue: JSON.stringify({ tokenId: token.id, name: token.name }),
+    newValue: JSON.stringify({ revokedAt: revokedAt.toISOString() })
+  });
+
+  return { success: true };
+}
+
+/**
+ * Scopes the holder of `permissions` could not grant to a service token
+ */
+export function getScopesBeyondPermissions(scopes: ApiTokenScope[], permissions: UserPermissions): ApiTokenScope[] {
+  return scopes.filter(scope => !SCOPE_ISSUER_PERMISSIONS[scope].some(permission => permissions[permission]));
+}
+
+/**
+ * Whether the employee may issue service tokens on behalf of another account
+ */
+export async function canIssueServiceTokens(employee: { id: string; role: string }): Promise<boolean> {
+  const permissions = await getEffectivePermissions(employee.id, employee.role);
+  return permissions.canIssueServiceTokens;
+}
+
+export function getApiTokenErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'TOKEN_NOT_FOUND':
+    case 'EMPLOYEE_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+    case 'SCOPE_NOT_ALLOWED':
+      return 403;
+    default:
+      return 400;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Approval SLA Scheduler
+ * Runs the background sweeps every few minutes inside the Next.js server process: delegation
+ * routing (delegations that start or end between requests), the SLA sweep, due dates on
+ * time-bound resource assignments, then starting and ending resource reservations. Only
+ * runs with APPROVAL_SLA_SCHEDULER=on: every instance would sweep, so multi-instance
+ * deployments use the standalone worker instead.
+ */
+
+import { runSlaSweep } from './approvalSlaService';
+import { reconcileDelegatedApprovals } from './delegationService';
+import { runAssignmentDueSweep } from './assignmentDueService';
+import { runReservationSweep } from './resourceReservationService';
+
+export const APPROVAL_SLA_INTERVAL_MINUTES = parseInt(process.env.APPROVAL_SLA_INTERVAL_MINUTES || '5');
+
+// Kept on globalThis so hot reloads in development do not start a second loop
+const globalForScheduler = globalThis as unknown as {
+  approvalSlaTimer: ReturnType<typeof setTimeout> | undefined;
+  approvalSlaStarted: boolean | undefined;
+};
+
+export function isSlaSchedulerEnabled(): boolean {
+  return process.env.APPROVAL_SLA_SCHEDULER === 'on' && APPROVAL_SLA_INTERVAL_MINUTES > 0;
+}
+
+// The next sweep is only scheduled once this one has finished, so a slow sweep never overlaps the next
+function scheduleNextTick() {
+  if (!globalForScheduler.approvalSlaStarted) {
+    return;
+  }
+
+  const timer = setTimeout(tick, APPROVAL_SLA_INTERVAL_MINUTES * 60 * 1000);
+  // Never keep the process alive just for the sweep
+  timer.unref?.();
+  globalForScheduler.approvalSlaTimer = timer;
+}
+
+async function tick() {
+  try {
+    const rerouted = await reconcileDelegatedApprovals();
+    const result = await runSlaSweep();
+    if (rerouted || result.reminded || result.breached || result.escalated) {
+      console.log(`Approval sweep: ${rerouted} delegated, ${result.reminded} reminded, ${result.breached} breached, ${result.escalated} escalated`);
+    }
+  } catch (error) {
+    console.error('Approval SLA sweep failed:', error);
+  }
+
+  try {
+    const due = await runAssignmentDueSweep();
+    if (due.reminded || due.overdue || due.revoked) {
+      console.log(`Assignment due sweep: ${due.reminded} reminded, ${due.overdue} overdue, ${due.revoked} revoked`);
+    }
+  } catch (error) {
+    console.error('Assignment due sweep failed:', error);
+  }
+
+  try {
+    const reservations = await runReservationSweep();
+    if (reservations.started || reservations.failed || reservations.ended) {
+      console.log(`Reservation sweep: ${reservations.started} started, ${reservations.failed} failed, ${reservations.ended} ended`);
+    }
+  } catch (error) {
+    console.error('Reservation sweep failed:', error);
+  } finally {
+    scheduleNextTick();
+  }
+}
+
+export function startSlaScheduler() {
+  if (globalForScheduler.approvalSlaStarted || !isSlaSchedulerEnabled()) {
+    return;
+  }
+
+  globalForScheduler.approvalSlaStarted = true;
+  void tick();
+}
+
+export function stopSlaScheduler() {
+  globalForScheduler.approvalSlaStarted = false;
+  if (globalForScheduler.approvalSlaTimer) {
+    clearTimeout(globalForScheduler.approvalSlaTimer);
+    globalForScheduler.approvalSlaTimer = undefined;
+  }
+}
@@ -0,0 +1,566 @@
+/**
+ * Approval SLA Service
+ * Gives each pending approval a deadline measured in business hours. A sweep reminds
+ * approvers shortly before the deadline and, once it passes, records the breach and hands
+ * the workflow to the next role in its approval chain, restarting the clock. Approvers who are
+ * assigned or reminded are emailed approve and reject links for their stage.
+ */
+
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { sendMail } from './mail';
+import { issueDecisionLinks } from './emailApprovalService';
+import { ensureRoleRegistry } from './roleService';
+import { countApprovalStages, getApprovalChain, getChainStepRoles, getExecutiveRoles, getOperationalApproverRoles } from './roleAuth';
+import { APPROVAL_SLA_CONFIG, getSlaHours } from './config/approvalSla';
+import { getCompanyName } from './config/company';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SlaClock {
+  slaStartedAt: Date;
+  slaRemindAt: Date;
+  slaDueAt: Date;
+  slaRemindedAt: null;
+  slaBreachedAt: null;
+}
+
+export interface ApprovalSlaSummary {
+  slaHours: number;
+  startedAt: string;
+  dueAt: string;
+  businessHoursRemaining: number; // negative once overdue
+  breached: boolean;
+  breachedAt: string | null;
+  escalationLevel: number;
+}
+
+export interface SlaSweepOptions {
+  now?: Date;
+  baseUrl?: string | null;
+  triggeredBy?: string | null; // employee who ran the sweep manually, if any
+}
+
+export interface SlaSweepResult {
+  initialized: number;
+  reminded: number;
+  breached: number;
+  escalated: number;
+}
+
+interface SlaWorkflowFields {
+  type: string;
+  status: string;
+  data: unknown;
+  createdAt: Date;
+  slaStartedAt: Date | null;
+  slaDueAt: Date | null;
+  slaBreachedAt: Date | null;
+  escalationLevel: number;
+}
+
+function isWorkingDay(date: Date): boolean {
+  return APPROVAL_SLA_CONFIG.businessHours.workingDays.includes(date.getDay());
+}
+
+function atHour(date: Date, hour: number): Date {
+  const result = new Date(date);
+  result.setHours(hour, 0, 0, 0);
+  return result;
+}
+
+function nextDay(date: Date): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + 1);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * The moment `hours` business hours after `start`
+ */
+export function addBusinessHours(start: Date, hours: number): Date {
+  const { startHour, endHour } = APPROVAL_SLA_CONFIG.businessHours;
+  let remaining = hours * HOUR_MS;
+  let cursor = new Date(start);
+
+  for (;;) {
+    const dayStart = atHour(cursor, startHour);
+    const dayEnd = atHour(cursor, endHour);
+
+    if (!isWorkingDay(cursor) || cursor >= dayEnd) {
+      cursor = nextDay(cursor);
+      continue;
+    }
+    if (cursor < dayStart) {
+      cursor = dayStart;
+    }
+
+    const available = dayEnd.getTime() - cursor.getTime();
+    if (remaining <= available) {
+      return new Date(cursor.getTime() + remaining);
+    }
+    remaining -= available;
+    cursor = nextDay(cursor);
+  }
+}
+
+/**
+ * Business milliseconds between two moments; negative when `to` is before `from`
+ */
+export function businessMsBetween(from: Date, to: Date): number {
+  if (to < from) {
+    return -businessMsBetween(to, from);
+  }
+
+  const { startHour, endHour } = APPROVAL_SLA_CONFIG.businessHours;
+  let total = 0;
+  let cursor = new Date(from);
+
+  while (cursor < to) {
+    if (isWorkingDay(cursor)) {
+      const windowStart = Math.max(cursor.getTime(), atHour(cursor, startHour).getTime());
+      const windowEnd = Math.min(to.getTime(), atHour(cursor, endHour).getTime());
+      if (windowEnd > windowStart) {
+        total += windowEnd - windowStart;
+      }
+    }
+    cursor = nextDay(cursor);
+  }
+
+  return total;
+}
+
+function getWorkflowPriority(data: unknown): string | null {
+  return data && typeof data === 'object' && 'priority' in data ? String((data as { priority: unknown }).priority) : null;
+}
+
+function getWorkflowAmount(data: unknown): number {
+  const amount = data && typeof data === 'object' && 'amount' in data ? Number((data as { amount: unknown }).amount) : 0;
+  return isNaN(amount) ? 0 : amount;
+}
+
+export function getWorkflowTitle(workflow: { type: string; data: unknown }): string {
+  const title = workflow.data && typeof workflow.data === 'object' && 'title' in workflow.data
+    ? (workflow.data as { title: unknown }).title
+    : null;
+  return typeof title === 'string' && title ? title : `${workflow.type.replace(/_/g, ' ').toLowerCase()} request`;
+}
+
+/**
+ * Fields that start a fresh SLA clock for whoever the workflow is now waiting on
+ */
+export function buildSlaClock(workflowType: string, priority: string | null | undefined, startedAt: Date = new Date()): SlaClock {
+  const slaHours = getSlaHours(workflowType, priority);
+  return {
+    slaStartedAt: startedAt,
+    slaRemindAt: addBusinessHours(startedAt, slaHours * APPROVAL_SLA_CONFIG.reminderAtFraction),
+    slaDueAt: addBusinessHours(startedAt, slaHours),
+    slaRemindedAt: null,
+    slaBreachedAt: null
+  };
+}
+
+/**
+ * SLA state of a workflow for display; null once it is no longer pending.
+ * Workflows the sweep has not reached yet are measured from their creation.
+ */
+export function describeSla(workflow: SlaWorkflowFields, now: Date = new Date()): ApprovalSlaSummary | null {
+  if (workflow.status !== 'PENDING') {
+    return null;
+  }
+
+  const slaHours = getSlaHours(workflow.type, getWorkflowPriority(workflow.data));
+  const startedAt = workflow.slaStartedAt || workflow.createdAt;
+  const dueAt = workflow.slaDueAt || addBusinessHours(startedAt, slaHours);
+  const remainingMs = businessMsBetween(now, dueAt);
+
+  return {
+    slaHours,
+    startedAt: startedAt.toISOString(),
+    dueAt: dueAt.toISOString(),
+    businessHoursRemaining: Math.round((remainingMs / HOUR_MS) * 10) / 10,
+    breached: now >= dueAt,
+    breachedAt: workflow.slaBreachedAt ? workflow.slaBreachedAt.toISOString() : null,
+    escalationLevel: workflow.escalationLevel
+  };
+}
+
+/**
+ * Attach an `sla` summary to each workflow in a list
+ */
+export function withSla<T extends SlaWorkflowFields>(workflows: T[], now: Date = new Date()): Array<T & { sla: ApprovalSlaSummary | null }> {
+  return workflows.map(workflow => ({ ...workflow, sla: describeSla(workflow, now) }));
+}
+
+/**
+ * Pick who a breached workflow goes to next: the remaining roles of its approval chain,
+ * then the current approver's manager, then the executives
+ */
+async function findEscalationTarget(workflow: {
+  type: string;
+  data: unknown;
+  requesterId: string;
+  approverId: string | null;
+  approver: { role: string; managerId: string | null } | null;
+  currentStageRole: string | null;
+  otherApproverIds?: string[]; // members of the current parallel group who have not decided yet
+}): Promise<{ id: string; name: string; email: string; role: string } | null> {
+  const amount = getWorkflowAmount(workflow.data);
+  const chain = workflow.currentStageRole
+    ? (await getApprovalChain(workflow.type, amount)).flatMap(getChainStepRoles)
+    : getOperationalApproverRoles(workflow.type, amount);
+
+  const currentRole = workflow.currentStageRole || workflow.approver?.role || null;
+  const position = currentRole ? chain.indexOf(currentRole) : -1;
+  const laterRoles = chain.slice(position + 1).filter(role => role !== currentRole);
+
+  const excluded = [workflow.requesterId, ...(workflow.approverId ? [workflow.approverId] : []), ...(workflow.otherApproverIds || [])];
+  const select = { id: true, name: true, email: true, role: true } as const;
+
+  for (const role of laterRoles) {
+    const candidate = await prisma.employee.findFirst({
+      where: { role, status: 'ACTIVE', id: { notIn: excluded } },
+      orderBy: { createdAt: 'asc' },
+      select
+    });
+    if (candidate) {
+      return candidate;
+    }
+  }
+
+  if (workflow.approver?.managerId && !excluded.includes(workflow.approver.managerId)) {
+    const manager = await prisma.employee.findFirst({
+      where: { id: workflow.approver.managerId, status: 'ACTIVE' },
+      select
+    });
+    if (manager) {
+      return manager;
+    }
+  }
+
+  return prisma.employee.findFirst({
+    where: { role: { in: getExecutiveRoles() }, status: 'ACTIVE', id: { notIn: excluded } },
+    orderBy: [{ roleDefinition: { tier: 'asc' } }, { createdAt: 'asc' }],
+    select
+  });
+}
+
+function approvalsLink(baseUrl?: string | null): string[] {
+  return baseUrl ? ['', `${baseUrl.replace(/\/$/, '')}/approvals`] : [];
+}
+
+/**
+ * Approve and reject links for an approver's current stage, as lines of a plain-text email.
+ * Nothing is added when APP_URL is not set, and a failure to issue links never stops the email.
+ */
+export async function decisionLinkLines(workflowId: string, approverId: string, stageNumber: number): Promise<string[]> {
+  try {
+    const links = await issueDecisionLinks(workflowId, approverId, stageNumber);
+    if (!links) {
+      return [];
+    }
+
+    return [
+      '',
+      `Approve: ${links.approveUrl}`,
+      `Reject: ${links.rejectUrl}`,
+      `These links can be used once and expire on ${links.expiresAt.toLocaleString()}.`
+    ];
+  } catch (error) {
+    console.error('Error issuing email decision links:', error);
+    return [];
+  }
+}
+
+/**
+ * Email approvers that a workflow now waits on them, with links to decide it from their inbox
+ */
+export async function notifyAssignedApprovers(workflowId: string, approverIds: string[]): Promise<number> {
+  const uniqueIds = Array.from(new Set(approverIds));
+  if (uniqueIds.length === 0) {
+    return 0;
+  }
+
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: { requester: { select: { name: true } } }
+  });
+  if (!workflow || (workflow.status !== 'PENDING' && workflow.status !== 'NEEDS_INFO')) {
+    return 0;
+  }
+
+  const approvers = await prisma.employee.findMany({
+    where: { id: { in: uniqueIds }, status: 'ACTIVE' },
+    select: { id: true, name: true, email: true }
+  });
+
+  const title = getWorkflowTitle(workflow);
+  const amount = getWorkflowAmount(workflow.data);
+  let delivered = 0;
+
+  for (const approver of approvers) {
+    const sent = await sendMail({
+      to: approver.email,
+      subject: `Approval needed: ${title}`,
+      text: [
+        `Hi ${approver.name},`,
+        '',
+        `"${title}", requested by ${workflow.requester.name}, is waiting for your decision.`,
+        ...(amount > 0 ? [`Amount: ${amount.toLocaleString()}`] : []),
+        ...(workflow.slaDueAt ? [`Please decide by ${workflow.slaDueAt.toLocaleString()}.`] : []),
+        ...(await decisionLinkLines(workflow.id, approver.id, workflow.currentStage)),
+        ...approvalsLink(process.env.APP_URL),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+    if (sent) {
+      delivered++;
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * One pass over pending workflows: start missing clocks, escalate breaches and send reminders.
+ * Each step claims its workflow with a conditional update, so overlapping sweeps (several
+ * server instances, or the scheduler plus a manual run) never act on a workflow twice.
+ */
+export async function runSlaSweep(options: SlaSweepOptions = {}): Promise<SlaSweepResult> {
+  const now = options.now || new Date();
+  const baseUrl = options.baseUrl ?? process.env.APP_URL ?? null;
+  const result: SlaSweepResult = { initialized: 0, reminded: 0, breached: 0, escalated: 0 };
+
+  await ensureRoleRegistry();
+
+  // Workflows created outside createOperationalWorkflow start their clock at creation
+  const unclocked = await prisma.approvalWorkflow.findMany({
+    where: { status: 'PENDING', slaDueAt: null },
+    select: { id: true, type: true, data: true, createdAt: true }
+  });
+
+  for (const workflow of unclocked) {
+    const clock = buildSlaClock(workflow.type, getWorkflowPriority(workflow.data), workflow.createdAt);
+    const claimed = await prisma.approvalWorkflow.updateMany({
+      where: { id: workflow.id, slaDueAt: null },
+      data: clock
+    });
+    result.initialized += claimed.count;
+  }
+
+  const breached = await prisma.approvalWorkflow.findMany({
+    where: { status: 'PENDING', slaBreachedAt: null, slaDueAt: { lte: now } },
+    include: {
+      requester: { select: { id: true, name: true } },
+      approver: { select: { id: true, name: true, email: true, role: true, managerId: true } },
+      stages: { orderBy: { stageNumber: 'asc' } }
+    }
+  });
+
+  for (const workflow of breached) {
+    const claimed = await prisma.approvalWorkflow.updateMany({
+      where: { id: workflow.id, status: 'PENDING', slaBreachedAt: null, slaDueAt: workflow.slaDueAt },
+      data: { slaBreachedAt: now }
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+    result.breached++;
+
+    // In a parallel group the clock follows the member the workflow points at
+    const group = workflow.stages.filter(s => s.stageNumber === workflow.currentStage);
+    const stage = group.find(s => s.approverId === workflow.approverId) || group[0] || null;
+    const totalStages = countApprovalStages(workflow.stages);
+    const actorId = options.triggeredBy || workflow.approverId || workflow.requesterId;
+    const title = getWorkflowTitle(workflow);
+    const slaHours = getSlaHours(workflow.type, getWorkflowPriority(workflow.data));
+
+    const target = workflow.escalationLevel < APPROVAL_SLA_CONFIG.maxEscalations
+      ? await findEscalationTarget({
+        type: workflow.type,
+        data: workflow.data,
+        requesterId: workflow.requesterId,
+        approverId: workflow.approverId,
+        approver: workflow.approver,
+        currentStageRole: stage?.approverRole || null,
+        otherApproverIds: group.filter(s => s.id !== stage?.id && s.decision === 'PENDING').map(s => s.approverId)
+      })
+      : null;
+
+    const clock = buildSlaClock(workflow.type, getWorkflowPriority(workflow.data), now);
+
+    // The approver may have decided, or the workflow moved on, since it was read
+    const escalatedTo = target && await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "ApprovalWorkflow" WHERE "id" = ${workflow.id} FOR UPDATE`;
+
+      const moved = await tx.approvalWorkflow.updateMany({
+        where: {
+          id: workflow.id,
+          status: 'PENDING',
+          approverId: workflow.approverId,
+          currentStage: workflow.currentStage
+        },
+        data: {
+          ...clock,
+          approverId: target.id,
+          delegatedFromId: null,
+          escalationLevel: { increment: 1 }
+        }
+      });
+      if (moved.count === 0) {
+        return null;
+      }
+
+      if (stage) {
+        await tx.approvalStage.updateMany({
+          where: { id: stage.id, decision: 'PENDING', approverId: stage.approverId },
+          data: { approverId: target.id, delegatedFromId: null }
+        });
+      }
+      return target;
+    });
+
+    await logTimelineActivity({
+      entityType: 'APPROVAL_WORKFLOW',
+      entityId: workflow.id,
+      activityType: 'SLA_BREACHED',
+      title: `Approval SLA breached: ${title}`,
+      description: `${workflow.approver?.name || 'No approver'} did not decide within ${slaHours} business hours${stage ? ` (stage ${stage.stageNumber} of ${totalStages})` : ''}${escalatedTo ? `; escalating to ${escalatedTo.name}` : ''}`,
+      metadata: {
+        workflowType: workflow.type,
+        slaHours,
+        slaStartedAt: workflow.slaStartedAt?.toISOString(),
+        slaDueAt: workflow.slaDueAt?.toISOString(),
+        approverId: workflow.approverId,
+        approverName: workflow.approver?.name,
+        stageNumber: stage?.stageNumber,
+        escalationLevel: workflow.escalationLevel,
+        escalationTargetId: escalatedTo?.id || null,
+        automatic: !options.triggeredBy
+      },
+      performedBy: actorId,
+      workflowId: workflow.id
+    });
+
+    if (!escalatedTo) {
+      continue;
+    }
+    result.escalated++;
+
+    await logAudit({
+      entityType: 'APPROVAL_WORKFLOW',
+      entityId: workflow.id,
+      changedById: actorId,
+      fieldChanged: stage ? `stage_${stage.stageNumber}_approver` : 'approverId',
+      oldValue: workflow.approverId,
+      newValue: target.id
+    });
+
+    await logTimelineActivity({
+      entityType: 'APPROVAL_WORKFLOW',
+      entityId: workflow.id,
+      activityType: 'WORKFLOW_ESCALATED',
+      title: `Escalated to ${target.name}`,
+      description: `${title} requested by ${workflow.requester.name} was escalated from ${workflow.approver?.name || 'an unassigned approver'} to ${target.name} after the approval SLA was breached`,
+      metadata: {
+        workflowType: workflow.type,
+        fromApproverId: workflow.approverId,
+        fromApproverName: workflow.approver?.name,
+        toApproverId: target.id,
+        toApproverName: target.name,
+        toApproverRole: target.role,
+        stageNumber: stage?.stageNumber,
+        escalationLevel: workflow.escalationLevel + 1,
+        slaDueAt: clock.slaDueAt.toISOString(),
+        automatic: !options.triggeredBy
+      },
+      performedBy: actorId,
+      workflowId: workflow.id
+    });
+
+    await sendMail({
+      to: target.email,
+      subject: `Escalated approval: ${title}`,
+      text: [
+        `Hi ${target.name},`,
+        '',
+        `"${title}", requested by ${workflow.requester.name}, has been escalated to you because ${workflow.approver?.name || 'its approver'} did not respond within ${slaHours} business hours.`,
+        `Please approve or reject it by ${clock.slaDueAt.toLocaleString()}.`,
+        ...(await decisionLinkLines(workflow.id, target.id, workflow.currentStage)),
+        ...approvalsLink(baseUrl),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  const dueForReminder = await prisma.approvalWorkflow.findMany({
+    where: {
+      status: 'PENDING',
+      slaRemindedAt: null,
+      slaBreachedAt: null,
+      slaRemindAt: { lte: now },
+      slaDueAt: { gt: now },
+      approverId: { not: null }
+    },
+    include: {
+      requester: { select: { name: true } },
+      approver: { select: { id: true, name: true, email: true, status: true } }
+    }
+  });
+
+  for (const workflow of dueForReminder) {
+    if (!workflow.approver || workflow.approver.status !== 'ACTIVE' || !workflow.slaDueAt) {
+      continue;
+    }
+
+    const claimed = await prisma.approvalWorkflow.updateMany({
+      where: { id: workflow.id, slaRemindedAt: null },
+      data: { slaRemindedAt: now }
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const title = getWorkflowTitle(workflow);
+    const hoursLeft = Math.round((businessMsBetween(now, workflow.slaDueAt) / HOUR_MS) * 10) / 10;
+
+    const delivered = await sendMail({
+      to: workflow.approver.email,
+      subject: `Approval due soon: ${title}`,
+      text: [
+        `Hi ${workflow.approver.name},`,
+        '',
+        `"${title}", requested by ${workflow.requester.name}, is waiting for your decision.`,
+        `It is due by ${workflow.slaDueAt.toLocaleString()} (${hoursLeft} business hours left). After that it will be escalated.`,
+        ...(await decisionLinkLines(workflow.id, workflow.approver.id, workflow.currentStage)),
+        ...approvalsLink(baseUrl),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+    result.reminded++;
+
+    await logTimelineActivity({
+      entityType: 'APPROVAL_WORKFLOW',
+      entityId: workflow.id,
+      activityType: 'SLA_REMINDER_SENT',
+      title: `SLA reminder sent to ${workflow.approver.name}`,
+      description: `${title} is due by ${workflow.slaDueAt.toISOString()}`,
+      metadata: {
+        workflowType: workflow.type,
+        approverId: workflow.approver.id,
+        slaDueAt: workflow.slaDueAt.toISOString(),
+        businessHoursRemaining: hoursLeft,
+        delivered
+      },
+      performedBy: options.triggeredBy || workflow.approver.id,
+      workflowId: workflow.id
+    });
+  }
+
+  return result;
+}
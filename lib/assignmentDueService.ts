@@ -0,0 +1,290 @@
+/**
+ * Assignment Due Service
+ * Tracks time-bound assignments such as loaner laptops and trial licenses. A sweep reminds
+ * the employee shortly before the due date and, once it passes, tells the resource's
+ * custodian. Expired shared and cloud assignments can be revoked automatically instead.
+ */
+
+import { prisma } from './prisma';
+import { logTimelineActivity } from './timeline';
+import { sendMail } from './mail';
+import { revokeAssignment } from './resourceAssignmentService';
+import { ASSIGNMENT_DUE_CONFIG } from './config/assignmentDue';
+import { getCompanyName } from './config/company';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DueAssignment {
+  id: string;
+  assignedAt: string;
+  dueAt: string;
+  overdue: boolean;
+  daysOverdue: number; // negative while the assignment is not yet due
+  employee: { id: string; name: string; email: string; department: string };
+  resource: { id: string; name: string; type: string; allocationType: string };
+  item: { id: string; serialNumber: string | null; hostname: string | null } | null;
+  custodian: { id: string; name: string };
+}
+
+export interface DueAssignmentQuery {
+  now?: Date;
+  // Limit to assignments this employee holds or is custodian for
+  visibleTo?: string | null;
+  employeeId?: string | null;
+  // Also list assignments due back within this many days
+  dueWithinDays?: number;
+  limit?: number;
+}
+
+export interface AssignmentDueSweepOptions {
+  now?: Date;
+  baseUrl?: string | null;
+  triggeredBy?: string | null; // employee who ran the sweep manually, if any
+}
+
+export interface AssignmentDueSweepResult {
+  reminded: number;
+  overdue: number;
+  revoked: number;
+}
+
+function assignmentLabel(assignment: { resource: { name: string }; item: { serialNumber: string | null; hostname: string | null } | null }): string {
+  const itemLabel = assignment.item?.serialNumber || assignment.item?.hostname;
+  return itemLabel ? `${assignment.resource.name} (${itemLabel})` : assignment.resource.name;
+}
+
+function resourceLink(baseUrl: string | null | undefined, resourceId: string): string[] {
+  if (!baseUrl) {
+    return [];
+  }
+  return ['', `View the resource: ${baseUrl.replace(/\/$/, '')}/resources/catalog/${resourceId}`];
+}
+
+/**
+ * Active assignments past their due date, oldest first, optionally with those due soon
+ */
+export async function getOverdueAssignments(query: DueAssignmentQuery = {}): Promise<DueAssignment[]> {
+  const now = query.now || new Date();
+  const until = new Date(now.getTime() + (query.dueWithinDays || 0) * DAY_MS);
+
+  const assignments = await prisma.resourceAssignment.findMany({
+    where: {
+      status: 'ACTIVE',
+      dueAt: { not: null, lte: until },
+      ...(query.employeeId && { employeeId: query.employeeId }),
+      ...(query.visibleTo && {
+        OR: [
+          { employeeId: query.visibleTo },
+          { resource: { custodianId: query.visibleTo } }
+        ]
+      })
+    },
+    include: {
+      employee: { select: { id: true, name: true, email: true, department: true } },
+      resource: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          allocationType: true,
+          custodian: { select: { id: true, name: true } }
+        }
+      },
+      item: { select: { id: true, serialNumber: true, hostname: true } }
+    },
+    orderBy: { dueAt: 'asc' },
+    take: query.limit || 100
+  });
+
+  return assignments.map(assignment => {
+    const dueAt = assignment.dueAt as Date;
+    return {
+      id: assignment.id,
+      assignedAt: assignment.assignedAt.toISOString(),
+      dueAt: dueAt.toISOString(),
+      overdue: dueAt <= now,
+      daysOverdue: Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS),
+      employee: assignment.employee,
+      resource: {
+        id: assignment.resource.id,
+        name: assignment.resource.name,
+        type: assignment.resource.type,
+        allocationType: assignment.resource.allocationType
+      },
+      item: assignment.item,
+      custodian: assignment.resource.custodian
+    };
+  });
+}
+
+/**
+ * One pass over time-bound assignments: remind employees of returns coming up, then deal
+ * with the ones that have expired. Each assignment is claimed with a conditional update, so
+ * overlapping sweeps never notify twice.
+ */
+export async function runAssignmentDueSweep(options: AssignmentDueSweepOptions = {}): Promise<AssignmentDueSweepResult> {
+  const now = options.now || new Date();
+  const baseUrl = options.baseUrl ?? process.env.APP_URL ?? null;
+  const result: AssignmentDueSweepResult = { reminded: 0, overdue: 0, revoked: 0 };
+
+  const dueSoon = await prisma.resourceAssignment.findMany({
+    where: {
+      status: 'ACTIVE',
+      dueReminderSentAt: null,
+      dueAt: { gt: now, lte: new Date(now.getTime() + ASSIGNMENT_DUE_CONFIG.reminderDaysBefore * DAY_MS) }
+    },
+    include: {
+      employee: { select: { id: true, name: true, email: true, status: true } },
+      resource: { select: { id: true, name: true, custodian: { select: { name: true } } } },
+      item: { select: { serialNumber: true, hostname: true } }
+    }
+  });
+
+  for (const assignment of dueSoon) {
+    if (!assignment.dueAt || assignment.employee.status !== 'ACTIVE') {
+      continue;
+    }
+
+    const claimed = await prisma.resourceAssignment.updateMany({
+      where: { id: assignment.id, status: 'ACTIVE', dueReminderSentAt: null, dueAt: assignment.dueAt },
+      data: { dueReminderSentAt: now }
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const label = assignmentLabel(assignment);
+    const delivered = await sendMail({
+      to: assignment.employee.email,
+      subject: `Return due soon: ${label}`,
+      text: [
+        `Hi ${assignment.employee.name},`,
+        '',
+        `${label} is due back on ${assignment.dueAt.toLocaleDateString()}.`,
+        `Please return it to ${assignment.resource.custodian.name} by then, or ask them to extend the loan.`,
+        ...resourceLink(baseUrl, assignment.resource.id),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+    result.reminded++;
+
+    await logTimelineActivity({
+      entityType: 'RESOURCE',
+      entityId: assignment.resource.id,
+      activityType: 'ASSIGNMENT_DUE_REMINDER_SENT',
+      title: `Return reminder sent to ${assignment.employee.name}`,
+      description: `${label} is due back by ${assignment.dueAt.toISOString()}`,
+      metadata: {
+        assignmentId: assignment.id,
+        dueAt: assignment.dueAt.toISOString(),
+        delivered
+      },
+      performedBy: options.triggeredBy || assignment.employee.id,
+      resourceId: assignment.resource.id,
+      employeeId: assignment.employee.id
+    });
+  }
+
+  const expired = await prisma.resourceAssignment.findMany({
+    where: { status: 'ACTIVE', overdueNotifiedAt: null, dueAt: { lte: now } },
+    include: {
+      employee: { select: { id: true, name: true, email: true, status: true } },
+      resource: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          allocationType: true,
+          custodian: { select: { id: true, name: true, email: true, status: true } }
+        }
+      },
+      item: { select: { serialNumber: true, hostname: true } }
+    }
+  });
+
+  for (const assignment of expired) {
+    if (!assignment.dueAt) {
+      continue;
+    }
+
+    const claimed = await prisma.resourceAssignment.updateMany({
+      where: { id: assignment.id, status: 'ACTIVE', overdueNotifiedAt: null, dueAt: assignment.dueAt },
+      data: { overdueNotifiedAt: now }
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const label = assignmentLabel(assignment);
+    const custodian = assignment.resource.custodian;
+    const actorId = options.triggeredBy || custodian.id;
+    const dueDate = assignment.dueAt.toLocaleDateString();
+
+    // Shared and cloud access needs nothing handed back, so it can simply end
+    const autoRevoke = ASSIGNMENT_DUE_CONFIG.autoRevokeShared
+      && (assignment.resource.allocationType === 'SHARED' || assignment.resource.type === 'CLOUD');
+    const revoked = autoRevoke
+      ? (await revokeAssignment(assignment.id, actorId, `Expired on ${dueDate}`)).success
+      : false;
+
+    if (revoked) {
+      result.revoked++;
+      if (assignment.employee.status === 'ACTIVE') {
+        await sendMail({
+          to: assignment.employee.email,
+          subject: `Access ended: ${label}`,
+          text: [
+            `Hi ${assignment.employee.name},`,
+            '',
+            `Your access to ${label} ended on ${dueDate} and has been removed.`,
+            `If you still need it, ask ${custodian.name} for a new assignment.`,
+            '',
+            `${getCompanyName()} portal`
+          ].join('\n')
+        });
+      }
+    } else {
+      result.overdue++;
+      if (custodian.status === 'ACTIVE') {
+        await sendMail({
+          to: custodian.email,
+          subject: `Overdue return: ${label}`,
+          text: [
+            `Hi ${custodian.name},`,
+            '',
+            `${label}, assigned to ${assignment.employee.name}, was due back on ${dueDate} and has not been returned.`,
+            'Please follow up with them, or extend or revoke the assignment.',
+            ...resourceLink(baseUrl, assignment.resource.id),
+            '',
+            `${getCompanyName()} portal`
+          ].join('\n')
+        });
+      }
+    }
+
+    await logTimelineActivity({
+      entityType: 'RESOURCE',
+      entityId: assignment.resource.id,
+      activityType: 'ASSIGNMENT_OVERDUE',
+      title: revoked
+        ? `Expired assignment revoked for ${assignment.employee.name}`
+        : `Overdue return: ${assignment.employee.name}`,
+      description: revoked
+        ? `${label} expired on ${dueDate} and was revoked automatically`
+        : `${label} was due back on ${dueDate}; ${custodian.name} has been notified`,
+      metadata: {
+        assignmentId: assignment.id,
+        dueAt: assignment.dueAt.toISOString(),
+        custodianId: custodian.id,
+        revoked,
+        automatic: !options.triggeredBy
+      },
+      performedBy: actorId,
+      resourceId: assignment.resource.id,
+      employeeId: assignment.employee.id
+    });
+  }
+
+  return result;
+}
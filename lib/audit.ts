@@ -2,7 +2,7 @@
 import { prisma } from "./prisma";
 
 interface AuditLogData {
-  entityType: 'EMPLOYEE' | 'RESOURCE' | 'ACCESS' | 'POLICY' | 'DOCUMENT' | 'APPROVAL_WORKFLOW';
+  entityType: 'EMPLOYEE' | 'RESOURCE' | 'ACCESS' | 'POLICY' | 'DOCUMENT' | 'APPROVAL_WORKFLOW' | 'ROLE' | 'WORKFLOW_TEMPLATE';
   entityId: string;
   changedById: string;
   fieldChanged: string;
@@ -1,9 +1,13 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import type { NextRequest } from 'next/server';
 import { prisma } from './prisma';
+import { createSession, validateSession, getClientInfo, SessionClientInfo } from './sessionService';
+import { authenticateApiToken, resolveRouteScope } from './apiTokenService';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_EXPIRES_IN = '7d';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
 
 export interface AuthUser {
   id: string;
@@ -11,6 +15,10 @@ export interface AuthUser {
   name: string;
   role: string;
   department: string;
+  sessionId?: string;
+  // Set when the request was authenticated with an API token instead of a session
+  apiTokenId?: string;
+  scopes?: string[];
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -22,7 +30,7 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
-export function generateToken(user: AuthUser): string {
+export function generateToken(user: AuthUser, sessionId: string): string {
   return jwt.sign(
     {
       id: user.id,
@@ -32,10 +40,57 @@ export function generateToken(user: AuthUser): string {
       department: user.department
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn: JWT_EXPIRES_IN, jwtid: sessionId }
   );
 }
 
+// Record a server-side session for the user and issue a token bound to it
+export async function createSessionToken(user: AuthUser, client: SessionClientInfo = {}): Promise<string> {
+  const session = await createSession(user.id, client);
+  return generateToken(user, session.id);
+}
+
+// Short-lived proof that the password step passed; exchanged for a session once the second factor is verified
+export function generateTwoFactorChallenge(userId: string): string {
+  return jwt.sign(
+    { id: userId, purpose: 'two_factor' },
+    JWT_SECRET,
+    { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN }
+  );
+}
+
+export function verifyTwoFactorChallenge(challengeToken: string): string | null {
+  try {
+    const decoded = jwt.verify(challengeToken, JWT_SECRET) as jwt.JwtPayload;
+    return decoded.purpose === 'two_factor' && typeof decoded.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Signed approve/reject link for an emailed workflow decision; the jti names the WorkflowEmailAction row
+export function generateWorkflowDecisionToken(actionId: string, decision: 'APPROVED' | 'REJECTED', expiresAt: Date): string {
+  return jwt.sign(
+    { purpose: 'workflow_decision', decision, exp: Math.floor(expiresAt.getTime() / 1000) },
+    JWT_SECRET,
+    { jwtid: actionId }
+  );
+}
+
+// Checks the signature only; expiry is checked against the action row so an expired link can say so
+export function verifyWorkflowDecisionToken(token: string): { actionId: string; decision: 'APPROVED' | 'REJECTED' } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, { ignoreExpiration: true }) as jwt.JwtPayload;
+    if (decoded.purpose !== 'workflow_decision' || typeof decoded.jti !== 'string' ||
+      (decoded.decision !== 'APPROVED' && decoded.decision !== 'REJECTED')) {
+      return null;
+    }
+    return { actionId: decoded.jti, decision: decoded.decision };
+  } catch {
+    return null;
+  }
+}
+
 export function verifyToken(token: string): AuthUser | null {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
@@ -44,7 +99,8 @@ export function verifyToken(token: string): AuthUser | null {
       email: decoded.email,
       name: decoded.name,
       role: decoded.role,
-      department: decoded.department
+      department: decoded.department,
+      sessionId: decoded.jti
     };
   } catch (error) {
     return null;
@@ -144,37 +200,80 @@ export async function createEmployee(userData: {
 
 export async function getUserFromToken(token: string): Promise<AuthUser | null> {
   const decoded = verifyToken(token);
-  if (!decoded) {
+  if (!decoded || !decoded.sessionId) {
     return null;
   }
 
-  // Verify user still exists and is active
+  // Verify the session has not been revoked and the user still exists and is active
   try {
-    const employee = await prisma.employee.findUnique({
-      where: { id: decoded.id },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        department: true,
-        status: true
-      }
-    });
-
-    if (!employee || employee.status !== 'ACTIVE') {
+    if (!(await validateSession(decoded.sessionId, decoded.id))) {
       return null;
     }
 
-    return {
-      id: employee.id,
-      email: employee.email,
-      name: employee.name,
-      role: employee.role,
-      department: employee.department
-    };
+    const user = await getActiveAuthUser(decoded.id);
+    return user ? { ...user, sessionId: decoded.sessionId } : null;
   } catch (error) {
     console.error('Token verification error:', error);
     return null;
   }
+}
+
+// Authenticate a route request from the session cookie or, failing that, an
+// `Authorization: Bearer` API token carrying the scope the route requires
+export async function getUserFromRequest(request: NextRequest): Promise<AuthUser | null> {
+  const cookieToken = request.cookies.get('auth-token')?.value;
+  if (cookieToken) {
+    return getUserFromToken(cookieToken);
+  }
+
+  const authorization = request.headers.get('authorization');
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const route = resolveRouteScope(request.nextUrl.pathname, request.method);
+  if (!route.accepted) {
+    return null;
+  }
+
+  try {
+    const principal = await authenticateApiToken(match[1], route.scope, getClientInfo(request).ipAddress);
+    if (!principal) {
+      return null;
+    }
+
+    const user = await getActiveAuthUser(principal.employeeId);
+    return user ? { ...user, apiTokenId: principal.tokenId, scopes: principal.scopes } : null;
+  } catch (error) {
+    console.error('API token verification error:', error);
+    return null;
+  }
+}
+
+// Load an employee as an AuthUser, or null if they no longer exist or are not active
+export async function getActiveAuthUser(employeeId: string): Promise<AuthUser | null> {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      department: true,
+      status: true
+    }
+  });
+
+  if (!employee || employee.status !== 'ACTIVE') {
+    return null;
+  }
+
+  return {
+    id: employee.id,
+    email: employee.email,
+    name: employee.name,
+    role: employee.role,
+    department: employee.department
+  };
 }
\ No newline at end of file
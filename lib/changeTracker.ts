@@ -2,7 +2,8 @@
 import { prisma } from './prisma';
 import { logAudit } from './audit';
 import { logTimelineActivity } from './timeline';
-import { getUserFromToken } from './auth';
+import type { NextRequest } from 'next/server';
+import { getUserFromRequest } from './auth';
 
 interface ChangeTrackingData {
   entityType: 'EMPLOYEE' | 'RESOURCE' | 'ACCESS' | 'POLICY' | 'DOCUMENT' | 'APPROVAL_WORKFLOW';
@@ -224,12 +225,9 @@ function formatDisplayValue(value: any): string {
 }
 
 // Helper function to get current user from request
-export async function getCurrentUserFromRequest(request: Request): Promise<{ id: string; name: string; role: string } | null> {
+export async function getCurrentUserFromRequest(request: NextRequest): Promise<{ id: string; name: string; role: string } | null> {
   try {
-    const token = request.headers.get('cookie')?.split('auth-token=')[1]?.split(';')[0];
-    if (!token) return null;
-    
-    const user = await getUserFromToken(token);
+    const user = await getUserFromRequest(request);
     return user;
   } catch (error) {
     console.error('Failed to get current user:', error);
@@ -244,7 +242,7 @@ export async function trackEntityUpdate(
   entityName: string,
   oldData: any,
   newData: any,
-  request: Request
+  request: NextRequest
 ) {
   const currentUser = await getCurrentUserFromRequest(request);
   
@@ -0,0 +1,39 @@
+// lib/config/approvalSla.ts
+
+export type WorkflowPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export const APPROVAL_SLA_CONFIG = {
+  // Working hours in the server's local time zone; SLA clocks only run inside them
+  businessHours: {
+    startHour: 9,
+    endHour: 17,
+    workingDays: [1, 2, 3, 4, 5] // Monday to Friday
+  },
+
+  // Business hours an approver has to decide, by workflow priority
+  priorityHours: {
+    URGENT: 4,
+    HIGH: 8,
+    MEDIUM: 16,
+    LOW: 40
+  } as Record<WorkflowPriority, number>,
+
+  // Per workflow type overrides of priorityHours
+  typeOverrides: {
+    ELEVATED_ACCESS_REQUEST: { HIGH: 4 },
+    SYSTEM_ADMIN_REQUEST: { HIGH: 4 },
+    ACCESS_REQUEST: { LOW: 16, MEDIUM: 8 },
+    TRAVEL_REQUEST: { LOW: 16 }
+  } as Record<string, Partial<Record<WorkflowPriority, number>>>,
+
+  // A reminder goes to the approver once this share of the SLA has elapsed
+  reminderAtFraction: 0.75,
+
+  // After this many escalations a breached workflow stays with its last approver
+  maxEscalations: 3
+};
+
+export function getSlaHours(workflowType: string, priority?: string | null): number {
+  const key = (priority && priority in APPROVAL_SLA_CONFIG.priorityHours ? priority : 'MEDIUM') as WorkflowPriority;
+  return APPROVAL_SLA_CONFIG.typeOverrides[workflowType]?.[key] ?? APPROVAL_SLA_CONFIG.priorityHours[key];
+}
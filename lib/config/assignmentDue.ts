@@ -0,0 +1,13 @@
+// lib/config/assignmentDue.ts
+
+export const ASSIGNMENT_DUE_CONFIG = {
+  // Employees are reminded this many days before a time-bound assignment is due back
+  reminderDaysBefore: 3,
+
+  // Assignments due back within this many days are listed on the dashboard as due soon
+  dueSoonDays: 7,
+
+  // Revoke SHARED and cloud assignments automatically once they expire. Physical items have
+  // to be handed back, so for them (and when this is off) the custodian is told instead
+  autoRevokeShared: process.env.ASSIGNMENT_AUTO_REVOKE === 'on'
+};
@@ -0,0 +1,421 @@
+/**
+ * Approval Delegation Service
+ * Out-of-office substitutes for approvers. While a delegation is active, new approvals and
+ * pending ones waiting on the delegator are routed to the delegate; decisions the delegate
+ * takes are recorded as made on the delegator's behalf.
+ */
+
+import { WorkflowType } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { getEffectivePermissions } from './roleService';
+import { buildSlaClock, notifyAssignedApprovers } from './approvalSlaService';
+
+// Delegates can themselves be away; follow at most this many hand-offs
+const MAX_DELEGATION_HOPS = 5;
+
+export interface DelegationInput {
+  delegatorId?: string;
+  delegateId: string;
+  startsAt: string | Date;
+  endsAt: string | Date;
+  workflowTypes?: string[];
+  reason?: string | null;
+}
+
+export interface DelegationResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  delegation?: unknown;
+  rerouted?: number;
+}
+
+export interface DelegatedApprover {
+  approverId: string;
+  delegatedFromId: string | null; // the absent approver, when approverId is standing in
+}
+
+const delegationInclude = {
+  delegator: { select: { id: true, name: true, email: true } },
+  delegate: { select: { id: true, name: true, email: true } },
+  createdBy: { select: { id: true, name: true } }
+} as const;
+
+function isWorkflowType(value: string): value is WorkflowType {
+  return (Object.values(WorkflowType) as string[]).includes(value);
+}
+
+function activeDelegationWhere(at: Date, workflowType?: string) {
+  return {
+    revokedAt: null,
+    startsAt: { lte: at },
+    endsAt: { gt: at },
+    delegate: { status: 'ACTIVE' as const },
+    ...(workflowType && isWorkflowType(workflowType) && {
+      OR: [{ workflowTypes: { isEmpty: true } }, { workflowTypes: { has: workflowType } }]
+    })
+  };
+}
+
+/**
+ * Who should decide an approval addressed to `approverId` right now
+ */
+export async function resolveDelegate(approverId: string, workflowType: string, at: Date = new Date()): Promise<DelegatedApprover> {
+  const visited = new Set([approverId]);
+  let current = approverId;
+
+  for (let hop = 0; hop < MAX_DELEGATION_HOPS; hop++) {
+    const delegation = await prisma.approvalDelegation.findFirst({
+      where: { delegatorId: current, ...activeDelegationWhere(at, workflowType) },
+      orderBy: { createdAt: 'desc' },
+      select: { delegateId: true }
+    });
+
+    // A delegation cycle leaves the approval with the last person before it loops
+    if (!delegation || visited.has(delegation.delegateId)) {
+      break;
+    }
+    visited.add(delegation.delegateId);
+    current = delegation.delegateId;
+  }
+
+  return { approverId: current, delegatedFromId: current === approverId ? null : approverId };
+}
+
+/**
+ * Route the approval of each pending workflow to whoever should hold it now: the delegate
+ * of an absent approver, or back to the approver once their delegation ends or is revoked.
+ * Without `employeeIds` every workflow affected by a current or past delegation is checked.
+ */
+export async function reconcileDelegatedApprovals(options: {
+  employeeIds?: string[];
+  performedBy?: string | null;
+  now?: Date;
+} = {}): Promise<number> {
+  const now = options.now || new Date();
+
+  let employeeIds = options.employeeIds;
+  if (!employeeIds) {
+    const active = await prisma.approvalDelegation.findMany({
+      where: activeDelegationWhere(now),
+      select: { delegatorId: true },
+      distinct: ['delegatorId']
+    });
+    employeeIds = active.map(delegation => delegation.delegatorId);
+  }
+
+  const delegatedFilter = options.employeeIds ? { delegatedFromId: { in: employeeIds } } : { delegatedFromId: { not: null } };
+  const workflows = await prisma.approvalWorkflow.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [
+        { approverId: { in: employeeIds } },
+        delegatedFilter,
+        { stages: { some: { decision: 'PENDING', OR: [{ approverId: { in: employeeIds } }, delegatedFilter] } } }
+      ]
+    },
+    include: {
+      requester: { select: { name: true } },
+      stages: { orderBy: { stageNumber: 'asc' } }
+    }
+  });
+
+  let rerouted = 0;
+
+  for (const workflow of workflows) {
+    // Each undecided member of the current stage holds a seat; stageless workflows have the one
+    const group = workflow.stages.filter(s => s.stageNumber === workflow.currentStage && s.decision === 'PENDING');
+    const seats = group.length > 0
+      ? group.map(stage => ({ stage, approverId: stage.approverId, delegatedFromId: stage.delegatedFromId }))
+      : [{ stage: null, approverId: workflow.approverId, delegatedFromId: workflow.delegatedFromId }];
+
+    for (const seat of seats) {
+      const originalApproverId = seat.delegatedFromId || seat.approverId;
+      if (!originalApproverId) {
+        continue;
+      }
+
+      const target = await resolveDelegate(originalApproverId, workflow.type, now);
+
+      // Nobody approves their own request, even as a delegate
+      if (target.approverId === workflow.requesterId) {
+        target.approverId = originalApproverId;
+        target.delegatedFromId = null;
+      }
+
+      if (target.approverId === seat.approverId && target.delegatedFromId === seat.delegatedFromId) {
+        continue;
+      }
+
+      const stage = seat.stage;
+      // The workflow itself, and its SLA clock, follow the member it points at
+      const isLead = !stage || workflow.approverId === stage.approverId;
+      const priority = (workflow.data as { priority?: string } | null)?.priority;
+
+      await prisma.$transaction(async (tx) => {
+        if (stage) {
+          await tx.approvalStage.update({
+            where: { id: stage.id },
+            data: { approverId: target.approverId, delegatedFromId: target.delegatedFromId }
+          });
+        }
+
+        if (isLead) {
+          await tx.approvalWorkflow.update({
+            where: { id: workflow.id },
+            data: {
+              approverId: target.approverId,
+              delegatedFromId: target.delegatedFromId,
+              ...buildSlaClock(workflow.type, priority, now)
+            }
+          });
+        }
+      });
+      rerouted++;
+
+      const [previous, next, original] = await Promise.all(
+        [seat.approverId, target.approverId, originalApproverId].map(id =>
+          id ? prisma.employee.findUnique({ where: { id }, select: { name: true } }) : null
+        )
+      );
+      const performedBy = options.performedBy || originalApproverId;
+
+      await logAudit({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflow.id,
+        changedById: performedBy,
+        fieldChanged: stage ? `stage_${stage.stageNumber}_approver` : 'approverId',
+        oldValue: seat.approverId,
+        newValue: target.approverId
+      });
+
+      await logTimelineActivity({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflow.id,
+        activityType: 'WORKFLOW_DELEGATED',
+        title: target.delegatedFromId
+          ? `Delegated to ${next?.name} on behalf of ${original?.name}`
+          : `Returned to ${next?.name}`,
+        description: target.delegatedFromId
+          ? `${original?.name} is away; the approval requested by ${workflow.requester.name} now waits on ${next?.name}`
+          : `${original?.name}'s delegation ended; the approval requested by ${workflow.requester.name} moved back from ${previous?.name}`,
+        metadata: {
+          workflowType: workflow.type,
+          stageNumber: stage?.stageNumber,
+          fromApproverId: seat.approverId,
+          toApproverId: target.approverId,
+          onBehalfOfId: target.delegatedFromId
+        },
+        performedBy,
+        workflowId: workflow.id
+      });
+
+      await notifyAssignedApprovers(workflow.id, [target.approverId]);
+    }
+  }
+
+  return rerouted;
+}
+
+/**
+ * Register a delegate for a date range. Employees delegate their own approvals;
+ * approval administrators can also set one up for an absent colleague.
+ */
+export async function createDelegation(
+  input: DelegationInput,
+  actor: { id: string; role: string }
+): Promise<DelegationResult> {
+  const delegatorId = input.delegatorId || actor.id;
+
+  if (delegatorId !== actor.id && !(await getEffectivePermissions(actor.id, actor.role)).canApproveWorkflows) {
+    return { success: false, error: 'You can only delegate your own approvals', errorCode: 'FORBIDDEN' };
+  }
+
+  if (!input.delegateId || input.delegateId === delegatorId) {
+    return { success: false, error: 'Choose someone else as the delegate', errorCode: 'INVALID_DELEGATE' };
+  }
+
+  const startsAt = new Date(input.startsAt);
+  const endsAt = new Date(input.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    return { success: false, error: 'Start and end dates are required', errorCode: 'INVALID_DATES' };
+  }
+  if (endsAt <= startsAt || endsAt <= new Date()) {
+    return { success: false, error: 'The delegation must end after it starts and in the future', errorCode: 'INVALID_DATES' };
+  }
+
+  const workflowTypes = Array.from(new Set(input.workflowTypes || []));
+  const unknownTypes = workflowTypes.filter(type => !isWorkflowType(type));
+  if (unknownTypes.length > 0) {
+    return { success: false, error: `Unknown workflow type(s): ${unknownTypes.join(', ')}`, errorCode: 'INVALID_WORKFLOW_TYPE' };
+  }
+
+  const [delegator, delegate] = await Promise.all([
+    prisma.employee.findUnique({ where: { id: delegatorId }, select: { id: true, name: true } }),
+    prisma.employee.findUnique({ where: { id: input.delegateId }, select: { id: true, name: true, status: true } })
+  ]);
+
+  if (!delegator) {
+    return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+  }
+  if (!delegate || delegate.status !== 'ACTIVE') {
+    return { success: false, error: 'Delegate not found or not active', errorCode: 'INVALID_DELEGATE' };
+  }
+
+  // Two delegations covering the same workflow type at the same time would be ambiguous
+  const overlapping = await prisma.approvalDelegation.findMany({
+    where: { delegatorId, revokedAt: null, startsAt: { lt: endsAt }, endsAt: { gt: startsAt } },
+    select: { workflowTypes: true }
+  });
+  const clashes = overlapping.some(existing =>
+    existing.workflowTypes.length === 0 ||
+    workflowTypes.length === 0 ||
+    existing.workflowTypes.some(type => workflowTypes.includes(type))
+  );
+  if (clashes) {
+    return {
+      success: false,
+      error: 'An existing delegation already covers these workflow types for part of this period',
+      errorCode: 'DELEGATION_OVERLAP'
+    };
+  }
+
+  const delegation = await prisma.approvalDelegation.create({
+    data: {
+      delegatorId,
+      delegateId: delegate.id,
+      startsAt,
+      endsAt,
+      workflowTypes: workflowTypes as WorkflowType[],
+      reason: input.reason?.trim() || null,
+      createdById: actor.id
+    },
+    include: delegationInclude
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: delegatorId,
+    changedById: actor.id,
+    fieldChanged: 'approval_delegation_created',
+    oldValue: null,
+    newValue: JSON.stringify({
+      delegationId: delegation.id,
+      delegateId: delegate.id,
+      delegateName: delegate.name,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      workflowTypes
+    })
+  });
+
+  await logTimelineActivity({
+    entityType: 'EMPLOYEE',
+    entityId: delegatorId,
+    activityType: 'UPDATED',
+    title: 'Approval delegate registered',
+    description: `${delegate.name} approves on behalf of ${delegator.name} from ${startsAt.toLocaleDateString()} to ${endsAt.toLocaleDateString()}${workflowTypes.length ? ` for ${workflowTypes.join(', ')}` : ''}`,
+    metadata: {
+      delegationId: delegation.id,
+      delegateId: delegate.id,
+      workflowTypes,
+      reason: delegation.reason
+    },
+    performedBy: actor.id,
+    employeeId: delegatorId
+  });
+
+  const rerouted = startsAt <= new Date()
+    ? await reconcileDelegatedApprovals({ employeeIds: [delegatorId], performedBy: actor.id })
+    : 0;
+
+  return { success: true, delegation, rerouted };
+}
+
+/**
+ * Delegations an employee gave or received; approval administrators can list everyone's
+ */
+export async function listDelegations(employeeId: string, includeAll = false) {
+  return prisma.approvalDelegation.findMany({
+    where: includeAll ? {} : { OR: [{ delegatorId: employeeId }, { delegateId: employeeId }] },
+    include: delegationInclude,
+    orderBy: [{ revokedAt: 'asc' }, { startsAt: 'desc' }]
+  });
+}
+
+/**
+ * End a delegation early. Pending approvals it routed go back to the delegator.
+ */
+export async function revokeDelegation(
+  delegationId: string,
+  actor: { id: string; role: string }
+): Promise<DelegationResult> {
+  const delegation = await prisma.approvalDelegation.findUnique({
+    where: { id: delegationId },
+    include: delegationInclude
+  });
+
+  if (!delegation) {
+    return { success: false, error: 'Delegation not found', errorCode: 'DELEGATION_NOT_FOUND' };
+  }
+
+  const allowed =
+    delegation.delegatorId === actor.id ||
+    delegation.createdById === actor.id ||
+    (await getEffectivePermissions(actor.id, actor.role)).canApproveWorkflows;
+
+  if (!allowed) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  if (delegation.revokedAt) {
+    return { success: true, delegation };
+  }
+
+  const revokedAt = new Date();
+  const updated = await prisma.approvalDelegation.update({
+    where: { id: delegation.id },
+    data: { revokedAt },
+    include: delegationInclude
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: delegation.delegatorId,
+    changedById: actor.id,
+    fieldChanged: 'approval_delegation_revoked',
+    oldValue: JSON.stringify({ delegationId: delegation.id, delegateId: delegation.delegateId }),
+    newValue: JSON.stringify({ revokedAt: revokedAt.toISOString() })
+  });
+
+  await logTimelineActivity({
+    entityType: 'EMPLOYEE',
+    entityId: delegation.delegatorId,
+    activityType: 'UPDATED',
+    title: 'Approval delegate removed',
+    description: `${delegation.delegate.name} no longer approves on behalf of ${delegation.delegator.name}`,
+    metadata: { delegationId: delegation.id, delegateId: delegation.delegateId },
+    performedBy: actor.id,
+    employeeId: delegation.delegatorId
+  });
+
+  const rerouted = await reconcileDelegatedApprovals({ employeeIds: [delegation.delegatorId], performedBy: actor.id });
+
+  return { success: true, delegation: updated, rerouted };
+}
+
+export function getDelegationErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'DELEGATION_NOT_FOUND':
+    case 'EMPLOYEE_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+      return 403;
+    case 'DELEGATION_OVERLAP':
+      return 409;
+    default:
+      return 400;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Email Approval Service
+ * Signed approve and reject links emailed to approvers. Each pair of links is recorded as a
+ * WorkflowEmailAction, expires after EMAIL_DECISION_TTL_HOURS and can be used once. Opening a
+ * link only previews the decision; it is applied when the approver confirms it.
+ */
+
+import { ApprovalStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateWorkflowDecisionToken, verifyWorkflowDecisionToken } from './auth';
+
+export const EMAIL_DECISION_TTL_HOURS = parseInt(process.env.EMAIL_DECISION_TTL_HOURS || '72');
+
+export interface DecisionLinks {
+  approveUrl: string;
+  rejectUrl: string;
+  expiresAt: Date;
+}
+
+export interface DecisionLinkResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  actionId?: string;
+  decision?: 'APPROVED' | 'REJECTED';
+  workflowId?: string;
+  approverId?: string;
+  preview?: DecisionLinkPreview;
+}
+
+export interface DecisionLinkPreview {
+  decision: 'APPROVED' | 'REJECTED';
+  expiresAt: Date;
+  approverName: string;
+  workflow: {
+    id: string;
+    type: string;
+    status: ApprovalStatus;
+    title: string | null;
+    description: string | null;
+    amount: number | null;
+    requesterName: string;
+  };
+}
+
+/**
+ * Issue a fresh pair of links for the approver's current stage.
+ * Returns null when APP_URL is not configured, since the links would have nowhere to point.
+ */
+export async function issueDecisionLinks(workflowId: string, approverId: string, stageNumber: number): Promise<DecisionLinks | null> {
+  if (!process.env.APP_URL) {
+    return null;
+  }
+
+  const expiresAt = new Date(Date.now() + EMAIL_DECISION_TTL_HOURS * 60 * 60 * 1000);
+  const action = await prisma.workflowEmailAction.create({
+    data: { workflowId, approverId, stageNumber, expiresAt },
+    select: { id: true }
+  });
+
+  const pageUrl = `${process.env.APP_URL.replace(/\/$/, '')}/email-decision?token=`;
+  return {
+    approveUrl: pageUrl + encodeURIComponent(generateWorkflowDecisionToken(action.id, 'APPROVED', expiresAt)),
+    rejectUrl: pageUrl + encodeURIComponent(generateWorkflowDecisionToken(action.id, 'REJECTED', expiresAt)),
+    expiresAt
+  };
+}
+
+// Check a link without using it up
+async function checkDecisionLink(token: string, now: Date): Promise<DecisionLinkResult> {
+  const verified = typeof token === 'string' && token ? verifyWorkflowDecisionToken(token) : null;
+  if (!verified) {
+    return { success: false, error: 'This link is not valid', errorCode: 'INVALID_LINK' };
+  }
+
+  const action = await prisma.workflowEmailAction.findUnique({
+    where: { id: verified.actionId },
+    include: {
+      approver: { select: { name: true } },
+      workflow: {
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          data: true,
+          currentStage: true,
+          approverId: true,
+          delegatedFromId: true,
+          requester: { select: { name: true } },
+          stages: { select: { stageNumber: true, approverId: true, delegatedFromId: true, decision: true } }
+        }
+      }
+    }
+  });
+
+  if (!action) {
+    return { success: false, error: 'This link is not valid', errorCode: 'INVALID_LINK' };
+  }
+
+  if (action.usedAt) {
+    return { success: false, error: 'This link has already been used', errorCode: 'LINK_USED' };
+  }
+
+  if (action.expiresAt <= now) {
+    return { success: false, error: 'This link has expired. Please decide from the approvals page.', errorCode: 'LINK_EXPIRED' };
+  }
+
+  // Links from an earlier stage, or for a workflow that is no longer open, are spent
+  if ((action.workflow.status !== 'PENDING' && action.workflow.status !== 'NEEDS_INFO') || action.workflow.currentStage !== action.stageNumber) {
+    return { success: false, error: 'This request no longer needs this decision', errorCode: 'LINK_SUPERSEDED' };
+  }
+
+  // The approver may have decided from the portal already, or the stage may have been delegated or escalated
+  const isMember = (s: { approverId: string | null; delegatedFromId: string | null }) =>
+    s.approverId === action.approverId || s.delegatedFromId === action.approverId;
+  const group = action.workflow.stages.filter(s => s.stageNumber === action.stageNumber);
+  const awaited = group.length > 0
+    ? group.some(s => s.decision === 'PENDING' && isMember(s))
+    : isMember(action.workflow);
+  if (!awaited) {
+    return { success: false, error: 'This request no longer needs your decision', errorCode: 'LINK_SUPERSEDED' };
+  }
+
+  const data = (action.workflow.data && typeof action.workflow.data === 'object' ? action.workflow.data : {}) as {
+    title?: string;
+    description?: string;
+    amount?: number;
+  };
+
+  return {
+    success: true,
+    actionId: action.id,
+    decision: verified.decision,
+    workflowId: action.workflowId,
+    approverId: action.approverId,
+    preview: {
+      decision: verified.decision,
+      expiresAt: action.expiresAt,
+      approverName: action.approver.name,
+      workflow: {
+        id: action.workflow.id,
+        type: action.workflow.type,
+        status: action.workflow.status,
+        title: data.title || null,
+        description: data.description || null,
+        amount: typeof data.amount === 'number' ? data.amount : null,
+        requesterName: action.workflow.requester.name
+      }
+    }
+  };
+}
+
+export async function previewDecisionLink(token: string): Promise<DecisionLinkResult> {
+  return checkDecisionLink(token, new Date());
+}
+
+/**
+ * Use up a link. Only one caller can claim it, so a double click or a forwarded copy
+ * of the other link of the pair cannot decide twice.
+ */
+export async function claimDecisionLink(token: string): Promise<DecisionLinkResult> {
+  const now = new Date();
+  const checked = await checkDecisionLink(token, now);
+  if (!checked.success || !checked.actionId) {
+    return checked;
+  }
+
+  const claimed = await prisma.workflowEmailAction.updateMany({
+    where: { id: checked.actionId, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now, usedAction: checked.decision }
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, error: 'This link has already been used', errorCode: 'LINK_USED' };
+  }
+
+  return checked;
+}
+
+// Give a claimed link back when the decision could not be recorded, so the approver can try again
+export async function releaseDecisionLink(actionId: string): Promise<void> {
+  await prisma.workflowEmailAction.updateMany({
+    where: { id: actionId },
+    data: { usedAt: null, usedAction: null }
+  });
+}
+
+// Retire a workflow's outstanding links, e.g. once its details have changed
+export async function revokeDecisionLinks(workflowId: string): Promise<void> {
+  const now = new Date();
+  await prisma.workflowEmailAction.updateMany({
+    where: { workflowId, usedAt: null, expiresAt: { gt: now } },
+    data: { expiresAt: now }
+  });
+}
+
+// Map a link error code to an HTTP status for API routes
+export function getDecisionLinkErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'INVALID_LINK':
+      return 404;
+    case 'LINK_USED':
+    case 'LINK_EXPIRED':
+      return 410;
+    case 'LINK_SUPERSEDED':
+      return 409;
+    default:
+      return 400;
+  }
+}
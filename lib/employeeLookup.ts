@@ -1,6 +1,32 @@
 // lib/employeeLookup.ts
+import { Prisma } from '@prisma/client';
 import { prisma } from './prisma';
 
+/**
+ * Employee columns that are safe to return from an API response.
+ * Leaves out the password hash, reset token and two-factor secrets.
+ */
+export const employeeProfileSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  department: true,
+  managerId: true,
+  status: true,
+  joiningDate: true,
+  phone: true,
+  address: true,
+  salary: true,
+  emergencyContact: true,
+  emergencyPhone: true,
+  twoFactorEnabled: true,
+  twoFactorEnabledAt: true,
+  isServiceAccount: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.EmployeeSelect;
+
 // Simple cache without intervals to avoid client-side issues
 const employeeCache = new Map<string, { name: string; email: string; department: string } | null>();
 
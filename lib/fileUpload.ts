@@ -51,4 +51,27 @@ export function validatePolicyFile(file: File): { valid: boolean; error?: string
   }
 
   return { valid: true };
-}
\ No newline at end of file
+}
+
+// Quotes, invoices and screenshots attached to approval workflow messages
+export function validateWorkflowAttachment(file: File): { valid: boolean; error?: string } {
+  const allowedTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'image/png',
+    'image/jpeg'
+  ];
+  if (!allowedTypes.includes(file.type)) {
+    return { valid: false, error: `${file.name}: only PDF, Word, Excel, PNG and JPEG files are allowed` };
+  }
+
+  const maxSize = 10 * 1024 * 1024; // 10MB
+  if (file.size > maxSize) {
+    return { valid: false, error: `${file.name}: file size must be less than 10MB` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,298 @@
+/**
+ * Built-in Fulfilment Handlers
+ * What "done" means for each approved workflow type: equipment and licenses are assigned,
+ * access is granted and policies are published. Handlers must be safe to run again after a
+ * partial failure, so each one first checks whether its work already happened.
+ */
+
+import { WorkflowType } from '@prisma/client';
+import { prisma } from './prisma';
+import { logTimelineActivity } from './timeline';
+import { createAssignment, determineAssignmentType } from './resourceAssignmentService';
+import { getCompanyName } from './config/company';
+import type { FulfilmentContext, FulfilmentHandler, FulfilmentOutcome } from './fulfilmentService';
+
+function readString(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Give an employee an active assignment of a resource, picking a free item for exclusive resources
+async function assignResourceTo(
+  resourceId: string,
+  employeeId: string,
+  context: FulfilmentContext,
+  preferredItemId?: string
+): Promise<FulfilmentOutcome> {
+  const { workflow, performedBy } = context;
+
+  const existing = await prisma.resourceAssignment.findFirst({
+    where: { resourceId, employeeId, status: 'ACTIVE' },
+    include: { resource: { select: { name: true } } }
+  });
+
+  if (existing) {
+    return {
+      status: 'FULFILLED',
+      summary: `${existing.resource.name} is already assigned`,
+      result: { assignmentId: existing.id, resourceId, itemId: existing.itemId }
+    };
+  }
+
+  const resource = await prisma.resource.findUnique({
+    where: { id: resourceId },
+    include: {
+      resourceTypeEntity: true,
+      items: { where: { status: 'AVAILABLE' }, orderBy: { createdAt: 'asc' }, take: 1 }
+    }
+  });
+
+  if (!resource) {
+    throw new Error('The requested resource no longer exists');
+  }
+
+  let itemId = preferredItemId;
+  if (!itemId && resource.allocationType === 'EXCLUSIVE') {
+    if (resource.items.length === 0) {
+      throw new Error(`No available ${resource.name} items to assign`);
+    }
+    itemId = resource.items[0].id;
+  }
+
+  const assignment = await createAssignment({
+    employeeId,
+    resourceId,
+    itemId,
+    assignmentType: determineAssignmentType(resource.resourceTypeEntity?.name || resource.type),
+    notes: `Assigned on approval of workflow ${workflow.id}`
+  }, performedBy);
+
+  if (!assignment.success || !assignment.assignment) {
+    throw new Error(assignment.error || 'Failed to create the resource assignment');
+  }
+
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId }, select: { name: true } });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: resourceId,
+    activityType: 'ASSIGNED',
+    title: `Resource assigned to ${employee?.name || 'employee'}`,
+    description: `${resource.name} (${resource.type}) was assigned to ${employee?.name || 'employee'} on approval of a ${workflow.type} workflow`,
+    metadata: {
+      resourceName: resource.name,
+      resourceType: resource.type,
+      employeeName: employee?.name,
+      employeeId,
+      itemId,
+      assignmentId: assignment.assignment.id,
+      assignmentMethod: 'workflow_fulfilment',
+      workflowId: workflow.id
+    },
+    performedBy,
+    resourceId,
+    employeeId
+  });
+
+  return {
+    status: 'FULFILLED',
+    summary: `${resource.name} assigned to ${employee?.name || 'employee'}`,
+    result: { assignmentId: assignment.assignment.id, resourceId, itemId: itemId || null }
+  };
+}
+
+// IT_EQUIPMENT_REQUEST and SOFTWARE_LICENSE_REQUEST
+const fulfilResourceRequest: FulfilmentHandler = async (context) => {
+  const { workflow, data } = context;
+  const resourceId = readString(data, 'resourceId') || workflow.resourceId;
+
+  // Requests for things not yet in the catalogue have to be procured first
+  if (!resourceId) {
+    return {
+      status: 'SKIPPED',
+      summary: 'No catalogue resource is linked to this request; assign it once it has been procured'
+    };
+  }
+
+  const employeeId = readString(data, 'employeeId') || workflow.requesterId;
+  return assignResourceTo(resourceId, employeeId, context, readString(data, 'itemId'));
+};
+
+// ACCESS_REQUEST
+const fulfilAccessRequest: FulfilmentHandler = async (context) => {
+  const { workflow, data, performedBy } = context;
+  const accessRequestId = readString(data, 'accessRequestId');
+
+  if (!accessRequestId) {
+    return { status: 'SKIPPED', summary: 'No access request is linked to this workflow' };
+  }
+
+  const accessRequest = await prisma.access.findUnique({
+    where: { id: accessRequestId },
+    include: { employee: { select: { id: true, name: true } } }
+  });
+
+  if (!accessRequest) {
+    throw new Error('The access request no longer exists');
+  }
+
+  let resourceId = accessRequest.resourceId;
+  let outcome: FulfilmentOutcome | null = null;
+
+  if (resourceId) {
+    outcome = await assignResourceTo(resourceId, accessRequest.employeeId, context);
+  } else if (accessRequest.hardwareRequest) {
+    // Hardware that is not in the catalogue yet becomes a new physical resource held by the CEO
+    const ceo = await prisma.employee.findFirst({ where: { role: 'CEO' } });
+
+    if (!ceo) {
+      throw new Error('CEO not found for resource custodian assignment');
+    }
+
+    const newResource = await prisma.resource.create({
+      data: {
+        name: accessRequest.hardwareRequest,
+        type: 'PHYSICAL',
+        category: 'Hardware',
+        description: `Hardware requested via access request by ${accessRequest.employee.name}`,
+        owner: getCompanyName(),
+        custodianId: ceo.id,
+        status: 'ACTIVE'
+      }
+    });
+
+    const assignment = await prisma.resourceAssignment.create({
+      data: {
+        resourceId: newResource.id,
+        employeeId: accessRequest.employeeId,
+        assignedBy: performedBy,
+        status: 'ACTIVE',
+        notes: `Assigned on approval of workflow ${workflow.id}`
+      }
+    });
+
+    // Link the request to the new resource so a retry does not create it twice
+    await prisma.access.update({
+      where: { id: accessRequestId },
+      data: { resourceId: newResource.id }
+    });
+    resourceId = newResource.id;
+
+    await logTimelineActivity({
+      entityType: 'RESOURCE',
+      entityId: newResource.id,
+      activityType: 'CREATED',
+      title: 'Hardware resource created and assigned',
+      description: `${newResource.name} was created and assigned to ${accessRequest.employee.name} via approved hardware request`,
+      metadata: {
+        resourceName: newResource.name,
+        resourceType: newResource.type,
+        employeeName: accessRequest.employee.name,
+        employeeId: accessRequest.employeeId,
+        creationMethod: 'hardware_request_approval',
+        accessRequestId,
+        workflowId: workflow.id,
+        originalHardwareRequest: accessRequest.hardwareRequest
+      },
+      performedBy,
+      resourceId: newResource.id
+    });
+
+    outcome = {
+      status: 'FULFILLED',
+      summary: `${newResource.name} created and assigned to ${accessRequest.employee.name}`,
+      result: { assignmentId: assignment.id, resourceId: newResource.id }
+    };
+  }
+
+  if (accessRequest.status !== 'GRANTED') {
+    const now = new Date();
+    await prisma.access.update({
+      where: { id: accessRequestId },
+      data: {
+        status: 'GRANTED',
+        approverId: workflow.approverId,
+        approvedAt: accessRequest.approvedAt || now,
+        grantedAt: now,
+        revokedAt: null
+      }
+    });
+
+    await logTimelineActivity({
+      entityType: 'ACCESS',
+      entityId: accessRequestId,
+      activityType: 'ACCESS_GRANTED',
+      title: 'Access granted',
+      description: `Access request for ${readString(data, 'resourceName') || accessRequest.hardwareRequest || 'resource'} was approved and granted to ${accessRequest.employee.name}`,
+      metadata: {
+        resourceName: readString(data, 'resourceName'),
+        resourceId,
+        previousStatus: accessRequest.status,
+        newStatus: 'GRANTED',
+        workflowId: workflow.id
+      },
+      performedBy,
+      employeeId: accessRequest.employeeId
+    });
+  }
+
+  return {
+    status: 'FULFILLED',
+    summary: outcome ? `Access granted; ${outcome.summary}` : `Access granted to ${accessRequest.employee.name}`,
+    result: { accessRequestId, ...(outcome?.result as Record<string, unknown> | undefined) }
+  };
+};
+
+// POLICY_UPDATE_REQUEST
+const publishPolicy: FulfilmentHandler = async ({ workflow, data, performedBy }) => {
+  const policyId = workflow.policyId || readString(data, 'policyId');
+
+  if (!policyId) {
+    return { status: 'SKIPPED', summary: 'No policy is linked to this workflow' };
+  }
+
+  const policy = await prisma.policy.findUnique({ where: { id: policyId } });
+
+  if (!policy) {
+    throw new Error('The policy no longer exists');
+  }
+
+  if (policy.status === 'PUBLISHED') {
+    return { status: 'FULFILLED', summary: `"${policy.title}" is already published`, result: { policyId } };
+  }
+
+  const now = new Date();
+  await prisma.policy.update({
+    where: { id: policyId },
+    data: {
+      status: 'PUBLISHED',
+      lastReviewDate: now,
+      effectiveDate: policy.effectiveDate || now
+    }
+  });
+
+  await logTimelineActivity({
+    entityType: 'POLICY',
+    entityId: policyId,
+    activityType: 'PUBLISHED',
+    title: 'Policy published',
+    description: `Policy "${policy.title}" was published on approval of its review workflow`,
+    metadata: {
+      policyTitle: policy.title,
+      previousStatus: policy.status,
+      newStatus: 'PUBLISHED',
+      workflowId: workflow.id
+    },
+    performedBy,
+    policyId
+  });
+
+  return { status: 'FULFILLED', summary: `"${policy.title}" published`, result: { policyId } };
+};
+
+export const BUILT_IN_FULFILMENT_HANDLERS: Partial<Record<WorkflowType, FulfilmentHandler>> = {
+  IT_EQUIPMENT_REQUEST: fulfilResourceRequest,
+  SOFTWARE_LICENSE_REQUEST: fulfilResourceRequest,
+  ACCESS_REQUEST: fulfilAccessRequest,
+  POLICY_UPDATE_REQUEST: publishPolicy
+};
@@ -0,0 +1,208 @@
+/**
+ * Workflow Fulfilment Service
+ * Carries out an approved request once its final approval lands, through a handler registered
+ * per workflow type. The outcome is recorded on the workflow; failed fulfilments keep their
+ * error and can be retried without repeating the approval.
+ */
+
+import { ApprovalWorkflow, Prisma, WorkflowType } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { getEffectivePermissions } from './roleService';
+import { BUILT_IN_FULFILMENT_HANDLERS } from './fulfilmentHandlers';
+
+// A fulfilment still IN_PROGRESS after this long is assumed to have died with its process
+const STALE_FULFILMENT_MS = 10 * 60 * 1000;
+
+export interface FulfilmentContext {
+  workflow: ApprovalWorkflow;
+  data: Record<string, unknown>;
+  performedBy: string; // the final approver, or whoever retried
+}
+
+// Handlers throw to report a failure; the message is kept on the workflow for the retry
+export interface FulfilmentOutcome {
+  status: 'FULFILLED' | 'SKIPPED';
+  summary: string;
+  result?: Prisma.InputJsonValue;
+}
+
+export type FulfilmentHandler = (context: FulfilmentContext) => Promise<FulfilmentOutcome>;
+
+export interface FulfilmentRunResult {
+  success: boolean;
+  status?: 'FULFILLED' | 'FAILED' | 'SKIPPED';
+  summary?: string;
+  error?: string;
+  errorCode?: string;
+  attempts?: number;
+}
+
+const handlers = new Map<WorkflowType, FulfilmentHandler>(
+  Object.entries(BUILT_IN_FULFILMENT_HANDLERS) as [WorkflowType, FulfilmentHandler][]
+);
+
+// Replace or add the handler for a workflow type (e.g. from a module that owns that type)
+export function registerFulfilmentHandler(type: WorkflowType, handler: FulfilmentHandler) {
+  handlers.set(type, handler);
+}
+
+export function getFulfilmentHandler(type: WorkflowType): FulfilmentHandler | undefined {
+  return handlers.get(type);
+}
+
+/**
+ * Run the fulfilment handler for an approved workflow. Concurrent calls are safe: the run is
+ * claimed on the workflow row first, and only one caller gets the claim.
+ */
+export async function runFulfilment(workflowId: string, performedBy: string): Promise<FulfilmentRunResult> {
+  const workflow = await prisma.approvalWorkflow.findUnique({ where: { id: workflowId } });
+
+  if (!workflow) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (workflow.status !== 'APPROVED') {
+    return { success: false, error: 'Only approved workflows can be fulfilled', errorCode: 'WORKFLOW_NOT_APPROVED' };
+  }
+
+  const handler = getFulfilmentHandler(workflow.type);
+
+  if (!handler) {
+    // Nothing to do for this type; leave fulfilmentStatus empty so the UI shows no badge
+    return { success: true };
+  }
+
+  const claimed = await prisma.approvalWorkflow.updateMany({
+    where: {
+      id: workflowId,
+      status: 'APPROVED',
+      OR: [
+        { fulfilmentStatus: null },
+        { fulfilmentStatus: { in: ['PENDING', 'FAILED'] } },
+        { fulfilmentStatus: 'IN_PROGRESS', updatedAt: { lt: new Date(Date.now() - STALE_FULFILMENT_MS) } }
+      ]
+    },
+    data: {
+      fulfilmentStatus: 'IN_PROGRESS',
+      fulfilmentAttempts: { increment: 1 },
+      fulfilmentError: null
+    }
+  });
+
+  if (claimed.count === 0) {
+    return {
+      success: false,
+      error: workflow.fulfilmentStatus === 'IN_PROGRESS'
+        ? 'Fulfilment is already running'
+        : 'Fulfilment has already finished for this workflow',
+      errorCode: 'FULFILMENT_NOT_RETRYABLE'
+    };
+  }
+
+  const attempts = workflow.fulfilmentAttempts + 1;
+  const data = workflow.data && typeof workflow.data === 'object' && !Array.isArray(workflow.data)
+    ? workflow.data as Record<string, unknown>
+    : {};
+
+  let outcome: FulfilmentOutcome | null = null;
+  let failure: string | null = null;
+
+  try {
+    outcome = await handler({ workflow, data, performedBy });
+  } catch (error) {
+    console.error(`Fulfilment of workflow ${workflowId} failed:`, error);
+    failure = error instanceof Error ? error.message : 'Fulfilment failed';
+  }
+
+  const status = outcome ? outcome.status : 'FAILED';
+
+  await prisma.approvalWorkflow.update({
+    where: { id: workflowId },
+    data: {
+      fulfilmentStatus: status,
+      fulfilmentError: failure,
+      fulfilmentResult: outcome?.result ?? Prisma.DbNull,
+      fulfilledAt: status === 'FULFILLED' ? new Date() : null
+    }
+  });
+
+  await logAudit({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    changedById: performedBy,
+    fieldChanged: 'fulfilmentStatus',
+    oldValue: workflow.fulfilmentStatus,
+    newValue: status
+  });
+
+  await logTimelineActivity({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    activityType: status === 'FULFILLED' ? 'FULFILMENT_COMPLETED' : status === 'SKIPPED' ? 'FULFILMENT_SKIPPED' : 'FULFILMENT_FAILED',
+    title: status === 'FULFILLED'
+      ? 'Request fulfilled'
+      : status === 'SKIPPED' ? 'Fulfilment needs manual follow-up' : 'Fulfilment failed',
+    description: outcome ? outcome.summary : `${workflow.type} fulfilment failed on attempt ${attempts}: ${failure}`,
+    metadata: {
+      workflowType: workflow.type,
+      attempts,
+      error: failure,
+      result: outcome?.result
+    },
+    performedBy,
+    workflowId
+  });
+
+  return {
+    success: status !== 'FAILED',
+    status,
+    summary: outcome?.summary,
+    error: failure || undefined,
+    errorCode: failure ? 'FULFILMENT_FAILED' : undefined,
+    attempts
+  };
+}
+
+// Retry a failed (or interrupted) fulfilment; open to the final approver and approval administrators
+export async function retryFulfilment(
+  workflowId: string,
+  actor: { id: string; role: string }
+): Promise<FulfilmentRunResult> {
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    select: { approverId: true }
+  });
+
+  if (!workflow) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  const allowed =
+    workflow.approverId === actor.id ||
+    (await getEffectivePermissions(actor.id, actor.role)).canApproveWorkflows;
+
+  if (!allowed) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  return runFulfilment(workflowId, actor.id);
+}
+
+// Map a fulfilment error code to an HTTP status for API routes
+export function getFulfilmentErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'WORKFLOW_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+      return 403;
+    case 'WORKFLOW_NOT_APPROVED':
+    case 'FULFILMENT_NOT_RETRYABLE':
+      return 409;
+    case 'FULFILMENT_FAILED':
+      return 422;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  beginLoginAttempt,
+  createMemoryLoginAttemptStore,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  setLoginAttemptStore
+} from './loginThrottle';
+
+// Locking looks the employee up to log it; no employee means no timeline entry
+vi.mock('./prisma', () => ({
+  prisma: { employee: { findUnique: async () => null } }
+}));
+
+const EMAIL = 'jane@example.com';
+const IP = '203.0.113.7';
+
+async function failAttempt(email = EMAIL, ipAddress: string | null = IP) {
+  const check = await beginLoginAttempt(email, ipAddress);
+  if (check.allowed) {
+    await recordLoginFailure(email, { ipAddress });
+  }
+  return check;
+}
+
+beforeEach(() => {
+  setLoginAttemptStore(createMemoryLoginAttemptStore());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('beginLoginAttempt', () => {
+  it('lets only as many parallel attempts through as the backoff allows', async () => {
+    const checks = await Promise.all(Array.from({ length: 10 }, () => beginLoginAttempt(EMAIL, IP)));
+
+    expect(checks.filter(check => check.allowed)).toHaveLength(2);
+    expect(checks.filter(check => check.reason === 'BACKOFF')).toHaveLength(8);
+  });
+
+  it('stops parallel attempts at the lockout threshold before any of them has failed', async () => {
+    vi.stubEnv('LOGIN_BACKOFF_AFTER_FAILURES', '100');
+
+    const checks = await Promise.all(Array.from({ length: 10 }, () => beginLoginAttempt(EMAIL, IP)));
+
+    expect(checks.filter(check => check.allowed)).toHaveLength(5);
+    expect(checks.filter(check => check.reason === 'ACCOUNT_LOCKED')).toHaveLength(5);
+  });
+
+  it('locks the account once failures reach the threshold', async () => {
+    vi.stubEnv('LOGIN_BACKOFF_AFTER_FAILURES', '100');
+
+    for (let i = 0; i < 4; i++) {
+      await failAttempt();
+    }
+    expect(await beginLoginAttempt(EMAIL, IP)).toEqual({ allowed: true });
+    const failure = await recordLoginFailure(EMAIL, { ipAddress: IP });
+
+    expect(failure.lockedUntil).toBeInstanceOf(Date);
+    expect(await beginLoginAttempt(EMAIL, IP)).toMatchObject({ allowed: false, reason: 'ACCOUNT_LOCKED' });
+  });
+
+  it('locks an address that fails across many accounts', async () => {
+    vi.stubEnv('LOGIN_MAX_IP_FAILURES', '3');
+
+    for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+      await failAttempt(email);
+    }
+
+    expect(await beginLoginAttempt('d@example.com', IP)).toMatchObject({ allowed: false, reason: 'IP_LOCKED' });
+    expect(await beginLoginAttempt('d@example.com', '198.51.100.1')).toEqual({ allowed: true });
+  });
+
+  it('does not count an attempt the account refused against the address', async () => {
+    vi.stubEnv('LOGIN_MAX_IP_FAILURES', '3');
+    await failAttempt();
+    await failAttempt();
+
+    // Both are refused by the account's backoff, so the address has only two failures
+    await beginLoginAttempt(EMAIL, IP);
+    await beginLoginAttempt(EMAIL, IP);
+
+    expect(await beginLoginAttempt('other@example.com', IP)).toEqual({ allowed: true });
+  });
+});
+
+describe('settling an attempt', () => {
+  it('clears the account and hands the attempt back to the address on success', async () => {
+    vi.stubEnv('LOGIN_MAX_IP_FAILURES', '2');
+
+    for (let i = 0; i < 3; i++) {
+      expect(await beginLoginAttempt(EMAIL, IP)).toEqual({ allowed: true });
+      await recordLoginSuccess(EMAIL, IP);
+    }
+  });
+
+  it('keeps earlier failures when an attempt is released for its second factor', async () => {
+    vi.stubEnv('LOGIN_BACKOFF_AFTER_FAILURES', '100');
+    vi.stubEnv('LOGIN_MAX_ACCOUNT_FAILURES', '2');
+    await failAttempt();
+
+    expect(await beginLoginAttempt(EMAIL, IP)).toEqual({ allowed: true });
+    await releaseLoginAttempt(EMAIL, IP);
+
+    expect(await beginLoginAttempt(EMAIL, IP)).toEqual({ allowed: true });
+    const failure = await recordLoginFailure(EMAIL, { ipAddress: IP });
+    expect(failure.lockedUntil).toBeInstanceOf(Date);
+  });
+});
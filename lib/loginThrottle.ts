@@ -0,0 +1,507 @@
+/**
+ * Login Throttle
+ * Tracks failed sign-in attempts per account and per IP address. Repeated failures on an
+ * account trigger exponential backoff and then a temporary lockout; an IP that fails too
+ * often is locked out across all accounts.
+ *
+ * Every attempt is counted as a failure when it starts, in the same atomic step that checks
+ * the limits, and handed back if it succeeds. Checking and counting separately would let a
+ * burst of parallel guesses all pass the check before the first failure was recorded.
+ *
+ * Counters live in a pluggable store: in-memory by default, or the LoginAttempt table
+ * (LOGIN_THROTTLE_STORE=database) so limits hold across several server instances. Other
+ * unauthenticated endpoints, such as forgot-password, keep their request limits in the same store.
+ */
+
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+
+export interface LoginThrottleConfig {
+  maxAccountFailures: number;
+  maxIpFailures: number;
+  lockoutMinutes: number;
+  failureWindowMinutes: number;
+  backoffAfterFailures: number;
+  backoffBaseSeconds: number;
+  backoffMaxSeconds: number;
+}
+
+export interface LoginAttemptRecord {
+  failures: number;
+  firstFailureAt: Date;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+export interface LoginAttemptStore {
+  name: string;
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  // Judge the current record with `admit` and, if it allows the attempt, count it as a failure
+  // (starting a fresh count when the previous window has lapsed), all as one atomic step
+  claim(
+    key: string,
+    now: Date,
+    windowMs: number,
+    admit: (record: LoginAttemptRecord | null) => LoginThrottleCheck
+  ): Promise<LoginThrottleCheck>;
+  // Hand back one claimed attempt that turned out not to be a failure
+  release(key: string): Promise<void>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+  listLocked(prefix: string, now: Date): Promise<Array<{ key: string; record: LoginAttemptRecord }>>;
+}
+
+export interface LoginThrottleCheck {
+  allowed: boolean;
+  reason?: 'ACCOUNT_LOCKED' | 'IP_LOCKED' | 'BACKOFF' | 'RATE_LIMITED';
+  retryAfterSeconds?: number;
+}
+
+export interface LoginFailureContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  stage?: 'password' | 'two_factor';
+}
+
+const MEMORY_PRUNE_INTERVAL_MS = 60 * 1000;
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getLoginThrottleConfig(): LoginThrottleConfig {
+  return {
+    maxAccountFailures: readNumber('LOGIN_MAX_ACCOUNT_FAILURES', 5),
+    maxIpFailures: readNumber('LOGIN_MAX_IP_FAILURES', 20),
+    lockoutMinutes: readNumber('LOGIN_LOCKOUT_MINUTES', 15),
+    failureWindowMinutes: readNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15),
+    backoffAfterFailures: readNumber('LOGIN_BACKOFF_AFTER_FAILURES', 2),
+    backoffBaseSeconds: readNumber('LOGIN_BACKOFF_BASE_SECONDS', 1),
+    backoffMaxSeconds: readNumber('LOGIN_BACKOFF_MAX_SECONDS', 60)
+  };
+}
+
+/**
+ * Default store; counters are per process and lost on restart
+ */
+export function createMemoryLoginAttemptStore(): LoginAttemptStore {
+  const records = new Map<string, LoginAttemptRecord>();
+  let lastPrunedAt = 0;
+  let longestWindowMs = 0;
+
+  // Forget counters whose window has lapsed and that hold no lock, so spraying from many
+  // addresses or at many accounts cannot grow the map without bound. Limits with different
+  // windows share the map, so only the longest window seen is safe to prune by.
+  const prune = (now: Date, windowMs: number) => {
+    longestWindowMs = Math.max(longestWindowMs, windowMs);
+    if (now.getTime() - lastPrunedAt < MEMORY_PRUNE_INTERVAL_MS) {
+      return;
+    }
+    lastPrunedAt = now.getTime();
+    records.forEach((record, key) => {
+      const lapsed = now.getTime() - record.lastFailureAt.getTime() > longestWindowMs;
+      if (lapsed && (!record.lockedUntil || record.lockedUntil <= now)) {
+        records.delete(key);
+      }
+    });
+  };
+
+  return {
+    name: 'memory',
+    async get(key) {
+      return records.get(key) || null;
+    },
+    // No await between the read and the write, so the event loop keeps this atomic
+    async claim(key, now, windowMs, admit) {
+      prune(now, windowMs);
+      const existing = records.get(key) || null;
+      const check = admit(existing);
+      if (check.allowed) {
+        records.set(
+          key,
+          existing && now.getTime() - existing.firstFailureAt.getTime() <= windowMs
+            ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+            : { failures: 1, firstFailureAt: now, lastFailureAt: now, lockedUntil: null }
+        );
+      }
+      return check;
+    },
+    async release(key) {
+      const existing = records.get(key);
+      if (existing && existing.failures > 0) {
+        records.set(key, { ...existing, failures: existing.failures - 1 });
+      }
+    },
+    async lock(key, until) {
+      const existing = records.get(key);
+      if (existing) {
+        records.set(key, { ...existing, lockedUntil: until });
+      }
+    },
+    async reset(key) {
+      records.delete(key);
+    },
+    async listLocked(prefix, now) {
+      return Array.from(records.entries())
+        .filter(([key, record]) => key.startsWith(prefix) && record.lockedUntil && record.lockedUntil > now)
+        .map(([key, record]) => ({ key, record }));
+    }
+  };
+}
+
+/**
+ * Shared store backed by the LoginAttempt table
+ */
+export function createDatabaseLoginAttemptStore(): LoginAttemptStore {
+  return {
+    name: 'database',
+    async get(key) {
+      return prisma.loginAttempt.findUnique({ where: { key } });
+    },
+    async claim(key, now, windowMs, admit) {
+      return prisma.$transaction(async (tx) => {
+        // Make sure there is a row to lock, then hold it while the attempt is judged and counted
+        await tx.loginAttempt.upsert({
+          where: { key },
+          create: { key, failures: 0, firstFailureAt: now, lastFailureAt: now },
+          update: {}
+        });
+        await tx.$queryRaw`SELECT "key" FROM "LoginAttempt" WHERE "key" = ${key} FOR UPDATE`;
+        const existing = await tx.loginAttempt.findUniqueOrThrow({ where: { key } });
+
+        const check = admit(existing);
+        if (!check.allowed) {
+          return check;
+        }
+
+        await tx.loginAttempt.update({
+          where: { key },
+          data: now.getTime() - existing.firstFailureAt.getTime() <= windowMs
+            ? { failures: { increment: 1 }, lastFailureAt: now }
+            : { failures: 1, firstFailureAt: now, lastFailureAt: now, lockedUntil: null }
+        });
+        return check;
+      });
+    },
+    async release(key) {
+      await prisma.loginAttempt.updateMany({
+        where: { key, failures: { gt: 0 } },
+        data: { failures: { decrement: 1 } }
+      });
+    },
+    async lock(key, until) {
+      await prisma.loginAttempt.updateMany({
+        where: { key },
+        data: { lockedUntil: until }
+      });
+    },
+    async reset(key) {
+      await prisma.loginAttempt.deleteMany({ where: { key } });
+    },
+    async listLocked(prefix, now) {
+      const rows = await prisma.loginAttempt.findMany({
+        where: {
+          key: { startsWith: prefix },
+          lockedUntil: { gt: now }
+        }
+      });
+      return rows.map(({ key, ...record }) => ({ key, record }));
+    }
+  };
+}
+
+const globalForThrottle = globalThis as unknown as {
+  loginAttemptStore: LoginAttemptStore | undefined;
+};
+
+export function getLoginAttemptStore(): LoginAttemptStore {
+  if (!globalForThrottle.loginAttemptStore) {
+    globalForThrottle.loginAttemptStore =
+      (process.env.LOGIN_THROTTLE_STORE || 'memory').toLowerCase() === 'database'
+        ? createDatabaseLoginAttemptStore()
+        : createMemoryLoginAttemptStore();
+  }
+  return globalForThrottle.loginAttemptStore;
+}
+
+export function setLoginAttemptStore(store: LoginAttemptStore | undefined) {
+  globalForThrottle.loginAttemptStore = store;
+}
+
+const ACCOUNT_PREFIX = 'account:';
+const IP_PREFIX = 'ip:';
+
+function accountKey(email: string): string {
+  return `${ACCOUNT_PREFIX}${email.trim().toLowerCase()}`;
+}
+
+function ipKey(ipAddress: string): string {
+  return `${IP_PREFIX}${ipAddress}`;
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+function backoffSeconds(failures: number, config: LoginThrottleConfig): number {
+  if (failures < config.backoffAfterFailures) {
+    return 0;
+  }
+  const exponent = failures - config.backoffAfterFailures;
+  return Math.min(config.backoffBaseSeconds * 2 ** exponent, config.backoffMaxSeconds);
+}
+
+function isLocked(record: LoginAttemptRecord | null, now: Date): record is LoginAttemptRecord & { lockedUntil: Date } {
+  return !!(record?.lockedUntil && record.lockedUntil > now);
+}
+
+function windowLapsed(record: LoginAttemptRecord, now: Date, config: LoginThrottleConfig): boolean {
+  return now.getTime() - record.firstFailureAt.getTime() > config.failureWindowMinutes * 60 * 1000;
+}
+
+function admitIpAttempt(record: LoginAttemptRecord | null, now: Date, config: LoginThrottleConfig): LoginThrottleCheck {
+  if (isLocked(record, now)) {
+    return { allowed: false, reason: 'IP_LOCKED', retryAfterSeconds: secondsUntil(record.lockedUntil, now) };
+  }
+  if (!record || windowLapsed(record, now, config)) {
+    return { allowed: true };
+  }
+
+  // The limit can be reached by attempts still in flight, before any of them has set the lock
+  if (config.maxIpFailures > 0 && record.failures >= config.maxIpFailures) {
+    const until = new Date(record.lastFailureAt.getTime() + config.lockoutMinutes * 60 * 1000);
+    return { allowed: false, reason: 'IP_LOCKED', retryAfterSeconds: secondsUntil(until, now) };
+  }
+
+  return { allowed: true };
+}
+
+function admitAccountAttempt(record: LoginAttemptRecord | null, now: Date, config: LoginThrottleConfig): LoginThrottleCheck {
+  if (isLocked(record, now)) {
+    return { allowed: false, reason: 'ACCOUNT_LOCKED', retryAfterSeconds: secondsUntil(record.lockedUntil, now) };
+  }
+  if (!record || windowLapsed(record, now, config)) {
+    return { allowed: true };
+  }
+
+  if (config.maxAccountFailures > 0 && record.failures >= config.maxAccountFailures) {
+    const until = new Date(record.lastFailureAt.getTime() + config.lockoutMinutes * 60 * 1000);
+    return { allowed: false, reason: 'ACCOUNT_LOCKED', retryAfterSeconds: secondsUntil(until, now) };
+  }
+
+  const delay = backoffSeconds(record.failures, config);
+  const nextAllowedAt = new Date(record.lastFailureAt.getTime() + delay * 1000);
+  if (delay > 0 && nextAllowedAt > now) {
+    return { allowed: false, reason: 'BACKOFF', retryAfterSeconds: secondsUntil(nextAllowedAt, now) };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check whether a sign-in attempt may proceed, without counting it
+ */
+export async function checkLoginAllowed(email: string, ipAddress?: string | null): Promise<LoginThrottleCheck> {
+  const store = getLoginAttemptStore();
+  const config = getLoginThrottleConfig();
+  const now = new Date();
+
+  if (ipAddress) {
+    const ipCheck = admitIpAttempt(await store.get(ipKey(ipAddress)), now, config);
+    if (!ipCheck.allowed) {
+      return ipCheck;
+    }
+  }
+
+  return admitAccountAttempt(await store.get(accountKey(email)), now, config);
+}
+
+/**
+ * Start a sign-in attempt before any password or code is checked. The attempt is counted as a
+ * failure against the IP and the account up front; follow up with recordLoginFailure,
+ * releaseLoginAttempt or recordLoginSuccess once the outcome is known.
+ */
+export async function beginLoginAttempt(email: string, ipAddress?: string | null): Promise<LoginThrottleCheck> {
+  const store = getLoginAttemptStore();
+  const config = getLoginThrottleConfig();
+  const now = new Date();
+  const windowMs = config.failureWindowMinutes * 60 * 1000;
+
+  if (ipAddress) {
+    const ipCheck = await store.claim(ipKey(ipAddress), now, windowMs, record => admitIpAttempt(record, now, config));
+    if (!ipCheck.allowed) {
+      return ipCheck;
+    }
+  }
+
+  const accountCheck = await store.claim(accountKey(email), now, windowMs, record => admitAccountAttempt(record, now, config));
+  if (!accountCheck.allowed && ipAddress) {
+    await store.release(ipKey(ipAddress));
+  }
+
+  return accountCheck;
+}
+
+/**
+ * Settle a failed attempt started with beginLoginAttempt, locking the IP or account once its
+ * threshold is reached. Returns the account lock expiry if the account is now locked.
+ */
+export async function recordLoginFailure(
+  email: string,
+  context: LoginFailureContext = {}
+): Promise<{ lockedUntil: Date | null }> {
+  const store = getLoginAttemptStore();
+  const config = getLoginThrottleConfig();
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + config.lockoutMinutes * 60 * 1000);
+
+  if (context.ipAddress && config.maxIpFailures > 0) {
+    const ipRecord = await store.get(ipKey(context.ipAddress));
+    if (ipRecord && !isLocked(ipRecord, now) && ipRecord.failures >= config.maxIpFailures) {
+      await store.lock(ipKey(context.ipAddress), lockedUntil);
+    }
+  }
+
+  const key = accountKey(email);
+  const accountRecord = await store.get(key);
+
+  // A parallel failure may already have locked the account and logged it
+  if (isLocked(accountRecord, now)) {
+    return { lockedUntil: accountRecord.lockedUntil };
+  }
+  if (!accountRecord || config.maxAccountFailures === 0 || accountRecord.failures < config.maxAccountFailures) {
+    return { lockedUntil: null };
+  }
+
+  await store.lock(key, lockedUntil);
+
+  const employee = await prisma.employee.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true, name: true }
+  });
+
+  if (employee) {
+    await logTimelineActivity({
+      entityType: 'EMPLOYEE',
+      entityId: employee.id,
+      activityType: 'ACCOUNT_LOCKED',
+      title: 'Account locked',
+      description: `${employee.name}'s account was locked for ${config.lockoutMinutes} minutes after ${accountRecord.failures} failed sign-in attempts`,
+      metadata: {
+        failures: accountRecord.failures,
+        lockedUntil: lockedUntil.toISOString(),
+        stage: context.stage || 'password',
+        ip: context.ipAddress || 'unknown',
+        userAgent: context.userAgent
+      },
+      performedBy: employee.id,
+      employeeId: employee.id
+    });
+  }
+
+  return { lockedUntil };
+}
+
+/**
+ * Hand back an attempt that was neither a failure nor a completed sign-in, such as a correct
+ * password that still needs its second factor. Earlier failures on the account stay counted.
+ */
+export async function releaseLoginAttempt(email: string, ipAddress?: string | null): Promise<void> {
+  const store = getLoginAttemptStore();
+  await store.release(accountKey(email));
+  if (ipAddress) {
+    await store.release(ipKey(ipAddress));
+  }
+}
+
+/**
+ * Clear the account's failure count after a successful sign-in.
+ * Only this attempt is handed back to the IP counter, so one valid login cannot mask a
+ * spraying attack.
+ */
+export async function recordLoginSuccess(email: string, ipAddress?: string | null): Promise<void> {
+  const store = getLoginAttemptStore();
+  await store.reset(accountKey(email));
+  if (ipAddress) {
+    await store.release(ipKey(ipAddress));
+  }
+}
+
+/**
+ * Count one request against a fixed-window limit of `max` requests per `windowMinutes`,
+ * refusing it once the limit is reached. A max of 0 disables the limit.
+ */
+export async function claimRequestLimit(key: string, max: number, windowMinutes: number): Promise<LoginThrottleCheck> {
+  if (max === 0) {
+    return { allowed: true };
+  }
+
+  const now = new Date();
+  const windowMs = windowMinutes * 60 * 1000;
+
+  return getLoginAttemptStore().claim(key, now, windowMs, record => {
+    if (!record || now.getTime() - record.firstFailureAt.getTime() > windowMs || record.failures < max) {
+      return { allowed: true };
+    }
+    const resetsAt = new Date(record.firstFailureAt.getTime() + windowMs);
+    return { allowed: false, reason: 'RATE_LIMITED', retryAfterSeconds: secondsUntil(resetsAt, now) };
+  });
+}
+
+/**
+ * Emails of accounts that are currently locked, with their lock expiry
+ */
+export async function getLockedAccounts(): Promise<Array<{ email: string; failures: number; lockedUntil: Date }>> {
+  const locked = await getLoginAttemptStore().listLocked(ACCOUNT_PREFIX, new Date());
+  return locked.map(({ key, record }) => ({
+    email: key.slice(ACCOUNT_PREFIX.length),
+    failures: record.failures,
+    lockedUntil: record.lockedUntil as Date
+  }));
+}
+
+/**
+ * Administrative unlock; clears the account's counters and records who did it
+ */
+export async function unlockAccount(employeeId: string, performedBy: { id: string; name: string }) {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { id: true, name: true, email: true }
+  });
+
+  if (!employee) {
+    throw new Error('Employee not found');
+  }
+
+  const store = getLoginAttemptStore();
+  const key = accountKey(employee.email);
+  const previous = await store.get(key);
+  await store.reset(key);
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    changedById: performedBy.id,
+    fieldChanged: 'account_unlocked',
+    oldValue: previous?.lockedUntil ? JSON.stringify({ lockedUntil: previous.lockedUntil.toISOString(), failures: previous.failures }) : null,
+    newValue: JSON.stringify({ unlockedBy: performedBy.name, unlockedAt: new Date().toISOString() })
+  });
+
+  await logTimelineActivity({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    activityType: 'ACCOUNT_UNLOCKED',
+    title: 'Account unlocked',
+    description: `${performedBy.name} unlocked ${employee.name}'s account`,
+    metadata: {
+      previousFailures: previous?.failures || 0,
+      previousLockedUntil: previous?.lockedUntil?.toISOString() || null
+    },
+    performedBy: performedBy.id,
+    employeeId: employee.id
+  });
+
+  return { employeeName: employee.name, wasLocked: !!(previous?.lockedUntil && previous.lockedUntil > new Date()) };
+}
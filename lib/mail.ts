@@ -0,0 +1,358 @@
+/**
+ * Mail Transport
+ * Pluggable outbound mail delivery. The active transport is chosen from
+ * MAIL_TRANSPORT ("console", "file" or "smtp") and can be replaced at runtime with
+ * setMailTransport() when another provider is wired in. The console transport is only
+ * used in development, since messages such as password resets carry secrets.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+import { COMPANY_CONFIG } from './config/company';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Development transport that prints messages to the server log
+ */
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      [
+        '---------------- outgoing mail ----------------',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '-----------------------------------------------'
+      ].join('\n')
+    );
+  }
+};
+
+/**
+ * Used outside development when no real transport is configured; every send fails
+ */
+export const disabledTransport: MailTransport = {
+  name: 'disabled',
+  async send() {
+    throw new Error('Outgoing mail is not configured; set MAIL_TRANSPORT to "smtp" or "file"');
+  }
+};
+
+/**
+ * Development transport that writes each message to a JSON file in the given directory
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeRecipient}.json`;
+      await fs.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    }
+  };
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered
+  requireTls?: boolean; // refuse to send when the connection cannot be encrypted (default true)
+  user?: string;
+  pass?: string;
+  clientName?: string; // name announced in EHLO
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads SMTP replies off a socket; a reply ends at the line whose code is followed by a space
+function createReplyReader() {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+  let socket: net.Socket | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+        lines = [];
+        const waiter = waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiters.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  const onTimeout = () => onError(new Error('SMTP connection timed out'));
+  const onClose = () => onError(failure || new Error('SMTP connection closed unexpectedly'));
+
+  return {
+    attach(next: net.Socket) {
+      if (socket) {
+        socket.off('data', onData).off('error', onError).off('timeout', onTimeout).off('close', onClose);
+      }
+      socket = next;
+      socket.on('data', onData).on('error', onError).on('timeout', onTimeout).on('close', onClose);
+    },
+    // Stop listening before the socket is handed to TLS or closed
+    detach() {
+      socket?.off('data', onData).off('error', onError).off('timeout', onTimeout).off('close', onClose);
+      socket = null;
+    },
+    next(): Promise<SmtpReply> {
+      const queued = replies.shift();
+      if (queued) {
+        return Promise.resolve(queued);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    }
+  };
+}
+
+function extractAddress(mailbox: string): string {
+  return (mailbox.match(/<([^>]+)>/)?.[1] || mailbox).trim();
+}
+
+// RFC 2047 encoding for header values that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  const canonical = value.replace(/\r?\n/g, '\r\n');
+  return (Buffer.from(canonical, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+// The message as sent after DATA; bodies are base64 so no line can start with a dot
+function buildMimeMessage(message: MailMessage & { from: string }, clientName: string): string {
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${clientName}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+/**
+ * Transport that delivers through an SMTP relay, one connection per message.
+ * Uses STARTTLS when the server offers it and AUTH PLAIN when credentials are set.
+ * Messages carry reset links and decision tokens, so unless requireTls is turned off
+ * nothing is sent over a connection that is not encrypted; credentials never are.
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const clientName = options.clientName || COMPANY_CONFIG.domain || 'localhost';
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const reader = createReplyReader();
+      let socket = await connect(options);
+      socket.setTimeout(options.timeoutMs ?? 30000);
+      reader.attach(socket);
+
+      const command = async (line: string | null, expected: number[]) => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`);
+        }
+        const reply = await reader.next();
+        if (!expected.includes(reply.code)) {
+          const verb = line === null ? 'greeting' : line.startsWith('AUTH') ? 'AUTH' : line.split(/[ :]/)[0];
+          throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text}`);
+        }
+        return reply;
+      };
+
+      try {
+        await command(null, [220]);
+        let ehlo = await command(`EHLO ${clientName}`, [250]);
+        let encrypted = options.secure;
+
+        if (!options.secure && /^STARTTLS$/im.test(ehlo.text)) {
+          await command('STARTTLS', [220]);
+          reader.detach();
+          socket = await upgradeToTls(socket, options.host);
+          socket.setTimeout(options.timeoutMs ?? 30000);
+          reader.attach(socket);
+          ehlo = await command(`EHLO ${clientName}`, [250]);
+          encrypted = true;
+        }
+
+        if (!encrypted && options.requireTls !== false) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send mail in clear text (set SMTP_REQUIRE_TLS="false" to allow it)');
+        }
+
+        if (options.user) {
+          if (!encrypted) {
+            throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in clear text');
+          }
+          const credentials = Buffer.from(`\u0000${options.user}\u0000${options.pass || ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+        await command(`${buildMimeMessage(message, clientName)}\r\n.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        reader.detach();
+        socket.end();
+      }
+    }
+  };
+}
+
+let activeTransport: MailTransport | null = null;
+
+// Logged mail would leak reset links and decision tokens, so it is confined to development
+function getConsoleTransport(): MailTransport {
+  if (process.env.NODE_ENV === 'development') {
+    return consoleTransport;
+  }
+  console.warn('The console mail transport is only available in development; outgoing mail is disabled');
+  return disabledTransport;
+}
+
+function createTransportFromEnv(): MailTransport {
+  switch ((process.env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        console.warn('MAIL_TRANSPORT is "smtp" but SMTP_HOST is not set, falling back to console');
+        return getConsoleTransport();
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || (process.env.SMTP_SECURE === 'true' ? '465' : '587')),
+        secure: process.env.SMTP_SECURE === 'true',
+        requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined
+      });
+    case 'console':
+      return getConsoleTransport();
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console`);
+      return getConsoleTransport();
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+}
+
+export function setMailTransport(transport: MailTransport | null) {
+  activeTransport = transport;
+}
+
+export function getDefaultSender(): string {
+  return process.env.MAIL_FROM || `${COMPANY_CONFIG.name} Portal <no-reply@${COMPANY_CONFIG.domain}>`;
+}
+
+/**
+ * Send a message through the active transport.
+ * Returns false instead of throwing so callers can decide whether delivery failures matter.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const transport = getMailTransport();
+
+  try {
+    await transport.send({ ...message, from: getDefaultSender() });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send mail via ${transport.name} transport:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,554 @@
+/**
+ * Maintenance Service
+ *
+ * Provides operations for resource maintenance tracking:
+ * - Recording maintenance events that have already happened
+ * - Scheduling (optionally recurring) maintenance from a due date
+ * - Moving items to MAINTENANCE while work is open and back once it is closed
+ * - Reporting upcoming and overdue maintenance for a resource
+ */
+
+import { prisma } from './prisma';
+import { Prisma, MaintenanceType, MaintenanceStatus, ItemStatus } from '@prisma/client';
+
+/**
+ * Request to record a maintenance event or schedule a future one
+ */
+export interface CreateMaintenanceRequest {
+  type: MaintenanceType;
+  itemId?: string;
+  description?: string;
+  performedBy?: string;
+  scheduledFor?: string | Date;
+  performedAt?: string | Date;
+  cost?: number;
+  notes?: string;
+  nextDue?: string | Date;
+  recurrenceDays?: number;
+}
+
+/**
+ * Details supplied when closing maintenance work
+ */
+export interface CompleteMaintenanceRequest {
+  cost?: number;
+  notes?: string;
+  performedBy?: string;
+  nextDue?: string | Date;
+}
+
+/**
+ * Maintenance overview for a resource
+ */
+export interface MaintenanceSummary {
+  upcoming: MaintenanceRecord[];
+  overdue: MaintenanceRecord[];
+  inProgress: MaintenanceRecord[];
+  history: MaintenanceRecord[];
+}
+
+const maintenanceInclude = {
+  item: {
+    select: { id: true, serialNumber: true, hostname: true, status: true },
+  },
+} satisfies Prisma.ResourceMaintenanceInclude;
+
+export type MaintenanceRecord = Prisma.ResourceMaintenanceGetPayload<{ include: typeof maintenanceInclude }>;
+
+export const MAINTENANCE_TYPES: MaintenanceType[] = [
+  'ROUTINE',
+  'REPAIR',
+  'UPGRADE',
+  'INSPECTION',
+  'CLEANING',
+  'SOFTWARE_UPDATE',
+  'SECURITY_PATCH',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Item status to restore once maintenance is closed:
+ * items that still have an active assignment go back to ASSIGNED, everything else to AVAILABLE
+ */
+async function getPostMaintenanceItemStatus(
+  tx: Prisma.TransactionClient,
+  itemId: string
+): Promise<ItemStatus> {
+  const activeAssignment = await tx.resourceAssignment.findFirst({
+    where: { itemId, status: 'ACTIVE' },
+    select: { id: true },
+  });
+  return activeAssignment ? 'ASSIGNED' : 'AVAILABLE';
+}
+
+/**
+ * Writes the audit and timeline entries for a maintenance change inside a transaction
+ */
+async function logMaintenanceActivity(
+  tx: Prisma.TransactionClient,
+  maintenance: { id: string; type: MaintenanceType; itemId: string | null },
+  resource: { id: string; name: string },
+  performedById: string,
+  oldStatus: MaintenanceStatus | null,
+  newStatus: MaintenanceStatus,
+  title: string,
+  description: string,
+  metadata: Record<string, unknown> = {}
+) {
+  await tx.auditLog.create({
+    data: {
+      entityType: 'RESOURCE',
+      entityId: resource.id,
+      changedById: performedById,
+      fieldChanged: 'maintenance_status',
+      oldValue: oldStatus,
+      newValue: JSON.stringify({ maintenanceId: maintenance.id, status: newStatus, type: maintenance.type }),
+      resourceId: resource.id,
+    },
+  });
+
+  await tx.activityTimeline.create({
+    data: {
+      entityType: 'RESOURCE',
+      entityId: resource.id,
+      activityType: 'ASSET_MAINTENANCE',
+      title,
+      description,
+      performedBy: performedById,
+      resourceId: resource.id,
+      metadata: {
+        maintenanceId: maintenance.id,
+        maintenanceType: maintenance.type,
+        itemId: maintenance.itemId,
+        oldStatus,
+        newStatus,
+        ...metadata,
+      } as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Validates that an item belongs to the resource it is being maintained under
+ */
+async function assertItemBelongsToResource(itemId: string, resourceId: string) {
+  const item = await prisma.resourceItem.findUnique({
+    where: { id: itemId },
+    select: { resourceId: true },
+  });
+
+  if (!item) {
+    throw new Error('Resource item not found');
+  }
+
+  if (item.resourceId !== resourceId) {
+    throw new Error('Resource item does not belong to this resource');
+  }
+}
+
+/**
+ * Records a maintenance event that has already been performed.
+ * If nextDue (or a recurrence interval) is given, the next occurrence is scheduled.
+ */
+export async function recordMaintenance(
+  resourceId: string,
+  request: CreateMaintenanceRequest,
+  performedById: string
+): Promise<MaintenanceRecord> {
+  const resource = await prisma.resource.findUnique({
+    where: { id: resourceId },
+    select: { id: true, name: true },
+  });
+
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  if (request.itemId) {
+    await assertItemBelongsToResource(request.itemId, resourceId);
+  }
+
+  const performedAt = request.performedAt ? new Date(request.performedAt) : new Date();
+  const nextDue = resolveNextDue(performedAt, request.nextDue, request.recurrenceDays);
+
+  return prisma.$transaction(async (tx) => {
+    const maintenance = await tx.resourceMaintenance.create({
+      data: {
+        resourceId,
+        itemId: request.itemId || null,
+        type: request.type,
+        status: 'COMPLETED',
+        description: request.description || null,
+        performedBy: request.performedBy || null,
+        performedAt,
+        completedAt: performedAt,
+        cost: request.cost ?? null,
+        notes: request.notes || null,
+        nextDue,
+        recurrenceDays: request.recurrenceDays ?? null,
+      },
+      include: maintenanceInclude,
+    });
+
+    await logMaintenanceActivity(
+      tx,
+      maintenance,
+      resource,
+      performedById,
+      null,
+      'COMPLETED',
+      `${formatMaintenanceType(maintenance.type)} recorded for ${resource.name}`,
+      `${formatMaintenanceType(maintenance.type)} performed on ${performedAt.toLocaleDateString()}${request.cost ? ` (cost ${request.cost})` : ''}`,
+      { cost: request.cost, nextDue }
+    );
+
+    if (nextDue) {
+      await scheduleNextOccurrence(tx, maintenance, resource, nextDue, performedById);
+    }
+
+    return maintenance;
+  });
+}
+
+/**
+ * Schedules maintenance for a future date
+ */
+export async function scheduleMaintenance(
+  resourceId: string,
+  request: CreateMaintenanceRequest,
+  scheduledById: string
+): Promise<MaintenanceRecord> {
+  const resource = await prisma.resource.findUnique({
+    where: { id: resourceId },
+    select: { id: true, name: true },
+  });
+
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  const scheduledFor = request.scheduledFor || request.nextDue;
+  if (!scheduledFor) {
+    throw new Error('A scheduled date is required');
+  }
+
+  if (request.itemId) {
+    await assertItemBelongsToResource(request.itemId, resourceId);
+  }
+
+  if (request.recurrenceDays !== undefined && request.recurrenceDays <= 0) {
+    throw new Error('Recurrence interval must be a positive number of days');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const maintenance = await tx.resourceMaintenance.create({
+      data: {
+        resourceId,
+        itemId: request.itemId || null,
+        type: request.type,
+        status: 'SCHEDULED',
+        description: request.description || null,
+        performedBy: request.performedBy || null,
+        scheduledFor: new Date(scheduledFor),
+        nextDue: new Date(scheduledFor),
+        notes: request.notes || null,
+        recurrenceDays: request.recurrenceDays ?? null,
+      },
+      include: maintenanceInclude,
+    });
+
+    await logMaintenanceActivity(
+      tx,
+      maintenance,
+      resource,
+      scheduledById,
+      null,
+      'SCHEDULED',
+      `${formatMaintenanceType(maintenance.type)} scheduled for ${resource.name}`,
+      `${formatMaintenanceType(maintenance.type)} scheduled for ${new Date(scheduledFor).toLocaleDateString()}${request.recurrenceDays ? `, repeating every ${request.recurrenceDays} days` : ''}`,
+      { scheduledFor, recurrenceDays: request.recurrenceDays }
+    );
+
+    return maintenance;
+  });
+}
+
+/**
+ * Starts scheduled maintenance work. The item (if any) moves to MAINTENANCE.
+ */
+export async function startMaintenance(
+  maintenanceId: string,
+  startedById: string,
+  performedBy?: string
+): Promise<MaintenanceRecord> {
+  const current = await prisma.resourceMaintenance.findUnique({
+    where: { id: maintenanceId },
+    include: { resource: { select: { id: true, name: true } } },
+  });
+
+  if (!current) {
+    throw new Error('Maintenance record not found');
+  }
+
+  if (current.status !== 'SCHEDULED') {
+    throw new Error(`Cannot start maintenance that is ${current.status.toLowerCase().replace('_', ' ')}`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const maintenance = await tx.resourceMaintenance.update({
+      where: { id: maintenanceId },
+      data: {
+        status: 'IN_PROGRESS',
+        performedAt: new Date(),
+        performedBy: performedBy || current.performedBy,
+      },
+      include: maintenanceInclude,
+    });
+
+    if (current.itemId) {
+      await tx.resourceItem.update({
+        where: { id: current.itemId },
+        data: { status: 'MAINTENANCE' },
+      });
+    }
+
+    await logMaintenanceActivity(
+      tx,
+      maintenance,
+      current.resource,
+      startedById,
+      current.status,
+      'IN_PROGRESS',
+      `${formatMaintenanceType(maintenance.type)} started for ${current.resource.name}`,
+      `Maintenance work started${current.itemId ? ' and item moved to MAINTENANCE' : ''}`
+    );
+
+    return maintenance;
+  });
+}
+
+/**
+ * Closes maintenance work. The item returns to service and, for recurring
+ * maintenance, the next occurrence is scheduled from nextDue.
+ */
+export async function completeMaintenance(
+  maintenanceId: string,
+  request: CompleteMaintenanceRequest,
+  completedById: string
+): Promise<MaintenanceRecord> {
+  const current = await prisma.resourceMaintenance.findUnique({
+    where: { id: maintenanceId },
+    include: { resource: { select: { id: true, name: true } } },
+  });
+
+  if (!current) {
+    throw new Error('Maintenance record not found');
+  }
+
+  if (current.status !== 'SCHEDULED' && current.status !== 'IN_PROGRESS') {
+    throw new Error(`Cannot complete maintenance that is ${current.status.toLowerCase()}`);
+  }
+
+  const completedAt = new Date();
+  const nextDue = resolveNextDue(completedAt, request.nextDue, current.recurrenceDays ?? undefined);
+
+  return prisma.$transaction(async (tx) => {
+    const maintenance = await tx.resourceMaintenance.update({
+      where: { id: maintenanceId },
+      data: {
+        status: 'COMPLETED',
+        performedAt: current.performedAt || completedAt,
+        completedAt,
+        cost: request.cost ?? current.cost,
+        notes: request.notes ?? current.notes,
+        performedBy: request.performedBy || current.performedBy,
+        nextDue,
+      },
+      include: maintenanceInclude,
+    });
+
+    if (current.itemId) {
+      await tx.resourceItem.update({
+        where: { id: current.itemId },
+        data: { status: await getPostMaintenanceItemStatus(tx, current.itemId) },
+      });
+    }
+
+    await logMaintenanceActivity(
+      tx,
+      maintenance,
+      current.resource,
+      completedById,
+      current.status,
+      'COMPLETED',
+      `${formatMaintenanceType(maintenance.type)} completed for ${current.resource.name}`,
+      `Maintenance work closed${current.itemId ? ' and item returned to service' : ''}${maintenance.cost ? ` (cost ${maintenance.cost})` : ''}`,
+      { cost: maintenance.cost, nextDue }
+    );
+
+    if (nextDue) {
+      await scheduleNextOccurrence(tx, maintenance, current.resource, nextDue, completedById);
+    }
+
+    return maintenance;
+  });
+}
+
+/**
+ * Cancels scheduled or in-progress maintenance, returning the item to service
+ */
+export async function cancelMaintenance(
+  maintenanceId: string,
+  cancelledById: string,
+  reason?: string
+): Promise<MaintenanceRecord> {
+  const current = await prisma.resourceMaintenance.findUnique({
+    where: { id: maintenanceId },
+    include: { resource: { select: { id: true, name: true } } },
+  });
+
+  if (!current) {
+    throw new Error('Maintenance record not found');
+  }
+
+  if (current.status !== 'SCHEDULED' && current.status !== 'IN_PROGRESS') {
+    throw new Error(`Cannot cancel maintenance that is ${current.status.toLowerCase()}`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const maintenance = await tx.resourceMaintenance.update({
+      where: { id: maintenanceId },
+      data: {
+        status: 'CANCELLED',
+        notes: reason ? `${current.notes ? `${current.notes}\n` : ''}Cancelled: ${reason}` : current.notes,
+      },
+      include: maintenanceInclude,
+    });
+
+    if (current.status === 'IN_PROGRESS' && current.itemId) {
+      await tx.resourceItem.update({
+        where: { id: current.itemId },
+        data: { status: await getPostMaintenanceItemStatus(tx, current.itemId) },
+      });
+    }
+
+    await logMaintenanceActivity(
+      tx,
+      maintenance,
+      current.resource,
+      cancelledById,
+      current.status,
+      'CANCELLED',
+      `${formatMaintenanceType(maintenance.type)} cancelled for ${current.resource.name}`,
+      `Maintenance cancelled${reason ? `: ${reason}` : ''}`,
+      { reason }
+    );
+
+    return maintenance;
+  });
+}
+
+/**
+ * Returns upcoming, overdue, in-progress and completed maintenance for a resource
+ */
+export async function getResourceMaintenance(resourceId: string): Promise<MaintenanceSummary> {
+  const records = await prisma.resourceMaintenance.findMany({
+    where: { resourceId },
+    include: maintenanceInclude,
+    orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'desc' }],
+  });
+
+  const now = new Date();
+
+  return {
+    upcoming: records.filter(r => r.status === 'SCHEDULED' && (!r.scheduledFor || r.scheduledFor >= now)),
+    overdue: records.filter(r => r.status === 'SCHEDULED' && r.scheduledFor !== null && r.scheduledFor < now),
+    inProgress: records.filter(r => r.status === 'IN_PROGRESS'),
+    history: records
+      .filter(r => r.status === 'COMPLETED' || r.status === 'CANCELLED')
+      .sort((a, b) => (b.completedAt || b.createdAt).getTime() - (a.completedAt || a.createdAt).getTime()),
+  };
+}
+
+/**
+ * Returns all scheduled maintenance that is past its due date across resources
+ */
+export async function getOverdueMaintenance(): Promise<MaintenanceRecord[]> {
+  return prisma.resourceMaintenance.findMany({
+    where: {
+      status: 'SCHEDULED',
+      scheduledFor: { lt: new Date() },
+    },
+    include: maintenanceInclude,
+    orderBy: { scheduledFor: 'asc' },
+  });
+}
+
+/**
+ * Gets a maintenance record, ensuring it belongs to the given resource
+ */
+export async function getMaintenanceForResource(
+  resourceId: string,
+  maintenanceId: string
+): Promise<MaintenanceRecord | null> {
+  return prisma.resourceMaintenance.findFirst({
+    where: { id: maintenanceId, resourceId },
+    include: maintenanceInclude,
+  });
+}
+
+/**
+ * Creates the next SCHEDULED occurrence for recurring maintenance
+ */
+async function scheduleNextOccurrence(
+  tx: Prisma.TransactionClient,
+  previous: { type: MaintenanceType; itemId: string | null; description: string | null; recurrenceDays: number | null; performedBy: string | null },
+  resource: { id: string; name: string },
+  nextDue: Date,
+  scheduledById: string
+) {
+  const next = await tx.resourceMaintenance.create({
+    data: {
+      resourceId: resource.id,
+      itemId: previous.itemId,
+      type: previous.type,
+      status: 'SCHEDULED',
+      description: previous.description,
+      performedBy: previous.performedBy,
+      scheduledFor: nextDue,
+      nextDue,
+      recurrenceDays: previous.recurrenceDays,
+    },
+  });
+
+  await logMaintenanceActivity(
+    tx,
+    next,
+    resource,
+    scheduledById,
+    null,
+    'SCHEDULED',
+    `Next ${formatMaintenanceType(next.type).toLowerCase()} scheduled for ${resource.name}`,
+    `Follow-up maintenance scheduled for ${nextDue.toLocaleDateString()}`,
+    { scheduledFor: nextDue, recurrenceDays: previous.recurrenceDays }
+  );
+}
+
+/**
+ * Next due date: an explicit nextDue wins, otherwise it is derived from the recurrence interval
+ */
+function resolveNextDue(from: Date, nextDue?: string | Date | null, recurrenceDays?: number): Date | null {
+  if (nextDue) {
+    return new Date(nextDue);
+  }
+  if (recurrenceDays && recurrenceDays > 0) {
+    return new Date(from.getTime() + recurrenceDays * DAY_MS);
+  }
+  return null;
+}
+
+function formatMaintenanceType(type: MaintenanceType): string {
+  const label = type.replace(/_/g, ' ').toLowerCase();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryLoginAttemptStore, setLoginAttemptStore } from './loginThrottle';
+import {
+  claimPasswordResetRequest,
+  confirmPasswordReset,
+  hashResetToken,
+  PASSWORD_RESET_MAX_PER_EMAIL,
+  PASSWORD_RESET_MAX_PER_IP,
+  requestPasswordReset
+} from './passwordResetService';
+
+interface EmployeeRow {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  password: string | null;
+  resetToken: string | null;
+  resetTokenExpiry: Date | null;
+}
+
+type ResetWhere = { id?: string; resetToken: string; resetTokenExpiry: { gt: Date }; status?: string };
+
+const db = vi.hoisted(() => ({
+  employees: [] as EmployeeRow[],
+  mail: [] as { to: string; text: string }[]
+}));
+
+function matchesReset(employee: EmployeeRow, where: ResetWhere) {
+  return (!where.id || employee.id === where.id)
+    && (!where.status || employee.status === where.status)
+    && employee.resetToken === where.resetToken
+    && !!employee.resetTokenExpiry && employee.resetTokenExpiry > where.resetTokenExpiry.gt;
+}
+
+// An in-memory employee table, enough for issuing and consuming reset tokens
+vi.mock('./prisma', () => ({
+  prisma: {
+    employee: {
+      findUnique: async ({ where }: { where: { email: string } }) =>
+        db.employees.find(employee => employee.email === where.email) || null,
+      findFirst: async ({ where }: { where: ResetWhere }) =>
+        db.employees.find(employee => matchesReset(employee, where)) || null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<EmployeeRow> }) => {
+        const employee = db.employees.find(row => row.id === where.id)!;
+        return Object.assign(employee, data);
+      },
+      updateMany: async ({ where, data }: { where: ResetWhere; data: Partial<EmployeeRow> }) => {
+        const matches = db.employees.filter(employee => matchesReset(employee, where));
+        matches.forEach(employee => Object.assign(employee, data));
+        return { count: matches.length };
+      }
+    }
+  }
+}));
+vi.mock('./auth', () => ({ hashPassword: async (password: string) => `hashed:${password}` }));
+vi.mock('./audit', () => ({ logAudit: async () => undefined }));
+vi.mock('./timeline', () => ({ logTimelineActivity: async () => undefined }));
+vi.mock('./sessionService', () => ({ revokeAllSessions: async () => 1 }));
+vi.mock('./mail', () => ({
+  sendMail: async (message: { to: string; text: string }) => {
+    db.mail.push(message);
+    return true;
+  }
+}));
+
+const CONTEXT = { baseUrl: 'https://portal.example.com/' };
+
+function resetTokenFromMail(): string {
+  const link = db.mail[db.mail.length - 1].text.match(/reset-password\?token=(\S+)/);
+  return decodeURIComponent(link![1]);
+}
+
+beforeEach(() => {
+  setLoginAttemptStore(createMemoryLoginAttemptStore());
+  db.mail = [];
+  db.employees = [{
+    id: 'emp-1',
+    name: 'Jane',
+    email: 'jane@example.com',
+    status: 'ACTIVE',
+    password: 'hashed:old-password',
+    resetToken: null,
+    resetTokenExpiry: null
+  }];
+});
+
+describe('claimPasswordResetRequest', () => {
+  it('limits requests for one email whether or not the account exists', async () => {
+    for (const email of ['jane@example.com', 'nobody@example.com']) {
+      for (let i = 0; i < PASSWORD_RESET_MAX_PER_EMAIL; i++) {
+        expect(await claimPasswordResetRequest(email, null)).toEqual({ allowed: true });
+      }
+      expect(await claimPasswordResetRequest(email.toUpperCase(), null)).toMatchObject({ allowed: false, reason: 'RATE_LIMITED' });
+    }
+  });
+
+  it('limits requests from one address across emails', async () => {
+    for (let i = 0; i < PASSWORD_RESET_MAX_PER_IP; i++) {
+      expect((await claimPasswordResetRequest(`user${i}@example.com`, '203.0.113.7')).allowed).toBe(true);
+    }
+
+    expect((await claimPasswordResetRequest('another@example.com', '203.0.113.7')).allowed).toBe(false);
+    expect((await claimPasswordResetRequest('another@example.com', '198.51.100.1')).allowed).toBe(true);
+  });
+});
+
+describe('requestPasswordReset', () => {
+  it('mails a link whose token is stored only as a hash', async () => {
+    await requestPasswordReset('Jane@Example.com ', CONTEXT);
+
+    const token = resetTokenFromMail();
+    expect(db.mail[0].text).toContain('https://portal.example.com/reset-password?token=');
+    expect(db.employees[0].resetToken).toBe(hashResetToken(token));
+    expect(db.employees[0].resetToken).not.toBe(token);
+  });
+
+  it('sends nothing for unknown or inactive accounts', async () => {
+    db.employees[0].status = 'INACTIVE';
+
+    await requestPasswordReset('jane@example.com', CONTEXT);
+    await requestPasswordReset('nobody@example.com', CONTEXT);
+
+    expect(db.mail).toHaveLength(0);
+    expect(db.employees[0].resetToken).toBeNull();
+  });
+});
+
+describe('confirmPasswordReset', () => {
+  it('sets the new password and consumes the token', async () => {
+    await requestPasswordReset('jane@example.com', CONTEXT);
+    const token = resetTokenFromMail();
+
+    expect(await confirmPasswordReset(token, 'new-password')).toEqual({ success: true });
+    expect(db.employees[0].password).toBe('hashed:new-password');
+    expect(db.employees[0].resetToken).toBeNull();
+
+    expect(await confirmPasswordReset(token, 'another-password')).toMatchObject({ success: false, errorCode: 'INVALID_TOKEN' });
+  });
+
+  it('invalidates an earlier link when a new one is issued', async () => {
+    await requestPasswordReset('jane@example.com', CONTEXT);
+    const first = resetTokenFromMail();
+    await requestPasswordReset('jane@example.com', CONTEXT);
+
+    expect(await confirmPasswordReset(first, 'new-password')).toMatchObject({ success: false, errorCode: 'INVALID_TOKEN' });
+  });
+
+  it('refuses expired tokens and weak passwords', async () => {
+    await requestPasswordReset('jane@example.com', CONTEXT);
+    const token = resetTokenFromMail();
+
+    expect(await confirmPasswordReset(token, 'short')).toMatchObject({ success: false, errorCode: 'WEAK_PASSWORD' });
+
+    db.employees[0].resetTokenExpiry = new Date(Date.now() - 1000);
+    expect(await confirmPasswordReset(token, 'new-password')).toMatchObject({ success: false, errorCode: 'INVALID_TOKEN' });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Password Reset Service
+ * Self-service forgot-password flow. Tokens are random, single-use and time-limited;
+ * only their SHA-256 hash is stored on the employee record.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { hashPassword } from './auth';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { sendMail } from './mail';
+import { revokeAllSessions } from './sessionService';
+import { getCompanyName } from './config/company';
+import { claimRequestLimit, getLoginAttemptStore, LoginThrottleCheck } from './loginThrottle';
+
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Reset requests allowed per hour for one email address and for one client address
+export const PASSWORD_RESET_MAX_PER_EMAIL = parseInt(process.env.PASSWORD_RESET_MAX_PER_EMAIL || '3');
+export const PASSWORD_RESET_MAX_PER_IP = parseInt(process.env.PASSWORD_RESET_MAX_PER_IP || '10');
+const PASSWORD_RESET_LIMIT_WINDOW_MINUTES = 60;
+
+export interface PasswordResetRequestContext {
+  baseUrl: string;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export interface PasswordResetResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Count a reset request against the per-address and per-email limits, which share the
+ * sign-in throttle's store. Requests count whether or not the account exists, so being
+ * limited reveals nothing about it.
+ */
+export async function claimPasswordResetRequest(email: string, ip?: string | null): Promise<LoginThrottleCheck> {
+  const ipKey = ip ? `password-reset:ip:${ip}` : null;
+
+  if (ipKey) {
+    const ipCheck = await claimRequestLimit(ipKey, PASSWORD_RESET_MAX_PER_IP, PASSWORD_RESET_LIMIT_WINDOW_MINUTES);
+    if (!ipCheck.allowed) {
+      return ipCheck;
+    }
+  }
+
+  const emailCheck = await claimRequestLimit(
+    `password-reset:email:${email.trim().toLowerCase()}`,
+    PASSWORD_RESET_MAX_PER_EMAIL,
+    PASSWORD_RESET_LIMIT_WINDOW_MINUTES
+  );
+  if (!emailCheck.allowed && ipKey) {
+    await getLoginAttemptStore().release(ipKey);
+  }
+
+  return emailCheck;
+}
+
+/**
+ * Issue a reset token and email the reset link.
+ * Resolves silently for unknown, inactive or not-yet-activated accounts so the
+ * endpoint cannot be used to discover which emails exist.
+ */
+export async function requestPasswordReset(
+  email: string,
+  context: PasswordResetRequestContext
+): Promise<void> {
+  const employee = await prisma.employee.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true, name: true, email: true, status: true, password: true }
+  });
+
+  if (!employee || employee.status !== 'ACTIVE' || !employee.password) {
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  // Overwriting any earlier hash invalidates previously issued links
+  await prisma.employee.update({
+    where: { id: employee.id },
+    data: {
+      resetToken: hashResetToken(token),
+      resetTokenExpiry: expiresAt
+    }
+  });
+
+  const resetUrl = `${context.baseUrl.replace(/\/$/, '')}/reset-password?token=${encodeURIComponent(token)}`;
+
+  const delivered = await sendMail({
+    to: employee.email,
+    subject: `Reset your ${getCompanyName()} portal password`,
+    text: [
+      `Hi ${employee.name},`,
+      '',
+      'We received a request to reset the password for your account.',
+      `Use the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.`,
+      '',
+      resetUrl,
+      '',
+      'If you did not request this, you can ignore this email and your password will stay the same.'
+    ].join('\n')
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    changedById: employee.id,
+    fieldChanged: 'password_reset_requested',
+    oldValue: null,
+    newValue: JSON.stringify({
+      expiresAt: expiresAt.toISOString(),
+      delivered,
+      ip: context.ip || 'unknown'
+    })
+  });
+
+  await logTimelineActivity({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    activityType: 'UPDATED',
+    title: 'Password reset requested',
+    description: `A password reset link was sent to ${employee.email}`,
+    metadata: {
+      expiresAt: expiresAt.toISOString(),
+      delivered,
+      ip: context.ip || 'unknown',
+      userAgent: context.userAgent
+    },
+    performedBy: employee.id,
+    employeeId: employee.id
+  });
+}
+
+/**
+ * Consume a reset token and set the new password
+ */
+export async function confirmPasswordReset(
+  token: string,
+  newPassword: string
+): Promise<PasswordResetResult> {
+  if (!token) {
+    return { success: false, error: 'Reset token is required', errorCode: 'TOKEN_REQUIRED' };
+  }
+
+  if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+    return {
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      errorCode: 'WEAK_PASSWORD'
+    };
+  }
+
+  const tokenHash = hashResetToken(token);
+  const now = new Date();
+
+  const employee = await prisma.employee.findFirst({
+    where: {
+      resetToken: tokenHash,
+      resetTokenExpiry: { gt: now },
+      status: 'ACTIVE'
+    },
+    select: { id: true, name: true }
+  });
+
+  if (!employee) {
+    return {
+      success: false,
+      error: 'This reset link is invalid or has expired. Please request a new one.',
+      errorCode: 'INVALID_TOKEN'
+    };
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  // Conditional update so two concurrent submissions cannot both consume the token
+  const consumed = await prisma.employee.updateMany({
+    where: {
+      id: employee.id,
+      resetToken: tokenHash,
+      resetTokenExpiry: { gt: now }
+    },
+    data: {
+      password: hashedPassword,
+      resetToken: null,
+      resetTokenExpiry: null
+    }
+  });
+
+  if (consumed.count === 0) {
+    return {
+      success: false,
+      error: 'This reset link is invalid or has expired. Please request a new one.',
+      errorCode: 'INVALID_TOKEN'
+    };
+  }
+
+  const revokedSessions = await revokeAllSessions(employee.id, 'password_reset');
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    changedById: employee.id,
+    fieldChanged: 'password_reset_self_service',
+    oldValue: null,
+    newValue: JSON.stringify({
+      resetAt: now.toISOString(),
+      revokedSessions,
+      message: 'Password reset via emailed link'
+    })
+  });
+
+  await logTimelineActivity({
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    activityType: 'UPDATED',
+    title: 'Password reset',
+    description: `${employee.name} reset their password using a reset link`,
+    metadata: {
+      resetAt: now.toISOString(),
+      method: 'self_service',
+      revokedSessions
+    },
+    performedBy: employee.id,
+    employeeId: employee.id
+  });
+
+  return { success: true };
+}
@@ -1,20 +1,14 @@
 // Role-based permission system
-export type UserRole = 'CEO' | 'CTO' | 'CFO' | 'COO' | 'ENGINEERING_MANAGER' | 'PRODUCT_MANAGER' | 'SALES_MANAGER' | 'HR_MANAGER' | 'MARKETING_MANAGER' | 'FRONTEND_DEVELOPER' | 'BACKEND_DEVELOPER' | 'FULLSTACK_DEVELOPER' | 'MOBILE_DEVELOPER' | 'DEVOPS_ENGINEER' | 'QA_ENGINEER' | 'DATA_SCIENTIST' | 'UI_UX_DESIGNER' | 'SYSTEM_ADMINISTRATOR' | 'SECURITY_ENGINEER' | 'SALES_REPRESENTATIVE' | 'BUSINESS_ANALYST' | 'MARKETING_SPECIALIST' | 'HR_SPECIALIST' | 'ACCOUNTANT' | 'INTERN' | 'JUNIOR_DEVELOPER' | 'TRAINEE' | 'ADMIN' | 'EMPLOYEE';
+//
+// Roles and the permission matrix are stored in the database (RoleDefinition / RolePermission)
+// and edited by admins on the /roles page. This module is client-safe: it reads from an
+// in-memory registry that lib/roleService.ts refreshes on the server and AuthContext fills
+// from /api/roles in the browser. Until then the built-in defaults below apply.
 
-// Admin roles with full access
-export const ADMIN_ROLES: UserRole[] = ['CEO', 'CTO'];
+// Role keys are data, so any string stored in RoleDefinition.key is a valid role
+export type UserRole = string;
 
-// Manager roles with some administrative access
-export const MANAGER_ROLES: UserRole[] = ['CEO', 'CTO', 'CFO', 'COO', 'ENGINEERING_MANAGER', 'PRODUCT_MANAGER', 'SALES_MANAGER', 'HR_MANAGER', 'MARKETING_MANAGER'];
-
-// Regular employee roles
-export const EMPLOYEE_ROLES: UserRole[] = [
-  'FRONTEND_DEVELOPER', 'BACKEND_DEVELOPER', 'FULLSTACK_DEVELOPER', 'MOBILE_DEVELOPER',
-  'DEVOPS_ENGINEER', 'QA_ENGINEER', 'DATA_SCIENTIST', 'UI_UX_DESIGNER',
-  'SYSTEM_ADMINISTRATOR', 'SECURITY_ENGINEER', 'SALES_REPRESENTATIVE',
-  'BUSINESS_ANALYST', 'MARKETING_SPECIALIST', 'HR_SPECIALIST', 'ACCOUNTANT',
-  'INTERN', 'JUNIOR_DEVELOPER', 'TRAINEE', 'ADMIN', 'EMPLOYEE'
-];
+export type RoleTier = 'EXECUTIVE' | 'DEPARTMENT_HEAD' | 'OPERATIONAL_MANAGER' | 'STAFF';
 
 export interface UserPermissions {
   // Employee Management
@@ -24,108 +18,313 @@ export interface UserPermissions {
   canDeleteEmployee: boolean;
   canViewOwnProfile: boolean;
   canEditOwnProfile: boolean;
-  
+
   // Resource Management
   canViewAllResources: boolean;
   canViewOwnResources: boolean;
   canAddResource: boolean;
   canEditResource: boolean;
   canDeleteResource: boolean;
-  
+  canAssignResources: boolean;
+  canManageSoftwareUpdates: boolean;
+
   // Access Management
   canRequestAccess: boolean;
   canApproveAccess: boolean;
   canViewAllAccessRequests: boolean;
   canViewOwnAccessRequests: boolean;
-  
+
   // Policy Management
   canViewPolicies: boolean;
   canAddPolicy: boolean;
   canEditPolicy: boolean;
   canDeletePolicy: boolean;
-  
+
   // Document Management
   canViewDocuments: boolean;
   canAddDocument: boolean;
   canEditDocument: boolean;
   canDeleteDocument: boolean;
-  
+
   // Approval Workflows
   canViewAllApprovals: boolean;
   canViewOwnApprovals: boolean;
   canApproveWorkflows: boolean;
-  
+  canApproveITRequests: boolean;
+  canApproveFinancialRequests: boolean;
+  canApproveHRRequests: boolean;
+  canApproveSecurityRequests: boolean;
+
   // Audit & Timeline
   canViewAudit: boolean;
   canViewTimeline: boolean;
+
+  // Administration
+  canManageRoles: boolean;
+  canManageAccounts: boolean;
+  canResetPasswords: boolean;
+  canIssueServiceTokens: boolean;
+  canManageWorkflowTemplates: boolean;
+}
+
+export type PermissionKey = keyof UserPermissions;
+
+// Permission keys grouped for the matrix editor, in display order
+export const PERMISSION_GROUPS: { label: string; permissions: { key: PermissionKey; label: string }[] }[] = [
+  {
+    label: 'Employees',
+    permissions: [
+      { key: 'canViewAllEmployees', label: 'View all employees' },
+      { key: 'canAddEmployee', label: 'Add employees' },
+      { key: 'canEditEmployee', label: 'Edit employees' },
+      { key: 'canDeleteEmployee', label: 'Delete employees' },
+      { key: 'canViewOwnProfile', label: 'View own profile' },
+      { key: 'canEditOwnProfile', label: 'Edit own profile' }
+    ]
+  },
+  {
+    label: 'Resources',
+    permissions: [
+      { key: 'canViewAllResources', label: 'View all resources' },
+      { key: 'canViewOwnResources', label: 'View own resources' },
+      { key: 'canAddResource', label: 'Add resources' },
+      { key: 'canEditResource', label: 'Edit resources' },
+      { key: 'canDeleteResource', label: 'Delete resources' },
+      { key: 'canAssignResources', label: 'Assign and return resources' },
+      { key: 'canManageSoftwareUpdates', label: 'Plan and track software updates' }
+    ]
+  },
+  {
+    label: 'Access',
+    permissions: [
+      { key: 'canRequestAccess', label: 'Request access' },
+      { key: 'canApproveAccess', label: 'Approve access' },
+      { key: 'canViewAllAccessRequests', label: 'View all access requests' },
+      { key: 'canViewOwnAccessRequests', label: 'View own access requests' }
+    ]
+  },
+  {
+    label: 'Policies',
+    permissions: [
+      { key: 'canViewPolicies', label: 'View policies' },
+      { key: 'canAddPolicy', label: 'Add policies' },
+      { key: 'canEditPolicy', label: 'Edit policies' },
+      { key: 'canDeletePolicy', label: 'Delete policies' }
+    ]
+  },
+  {
+    label: 'Documents',
+    permissions: [
+      { key: 'canViewDocuments', label: 'View documents' },
+      { key: 'canAddDocument', label: 'Add documents' },
+      { key: 'canEditDocument', label: 'Edit documents' },
+      { key: 'canDeleteDocument', label: 'Delete documents' }
+    ]
+  },
+  {
+    label: 'Approvals',
+    permissions: [
+      { key: 'canViewAllApprovals', label: 'View all approvals' },
+      { key: 'canViewOwnApprovals', label: 'View own approvals' },
+      { key: 'canApproveWorkflows', label: 'Approve any workflow' },
+      { key: 'canApproveITRequests', label: 'Approve IT requests' },
+      { key: 'canApproveFinancialRequests', label: 'Approve financial requests' },
+      { key: 'canApproveHRRequests', label: 'Approve HR requests' },
+      { key: 'canApproveSecurityRequests', label: 'Approve security requests' }
+    ]
+  },
+  {
+    label: 'Audit & Timeline',
+    permissions: [
+      { key: 'canViewAudit', label: 'View audit log' },
+      { key: 'canViewTimeline', label: 'View timeline' }
+    ]
+  },
+  {
+    label: 'Administration',
+    permissions: [
+      { key: 'canManageRoles', label: 'Manage roles and permissions' },
+      { key: 'canManageAccounts', label: 'Unlock accounts and end sessions' },
+      { key: 'canResetPasswords', label: "Reset other employees' passwords" },
+      { key: 'canIssueServiceTokens', label: 'Issue service API tokens' },
+      { key: 'canManageWorkflowTemplates', label: 'Manage workflow templates' }
+    ]
+  }
+];
+
+export const PERMISSION_KEYS: PermissionKey[] = PERMISSION_GROUPS.flatMap(group => group.permissions.map(p => p.key));
+
+export function isPermissionKey(value: string): value is PermissionKey {
+  return (PERMISSION_KEYS as string[]).includes(value);
+}
+
+export interface RoleDefinitionSnapshot {
+  key: string;
+  name: string;
+  description: string | null;
+  tier: RoleTier;
+  isAdmin: boolean;
+  approvalLimit: number | null;
+  isSystem: boolean;
+  permissions: PermissionKey[];
+}
+
+// Per-employee override of a single permission
+export interface PermissionGrant {
+  permission: string;
+  granted: boolean;
 }
 
-export function getUserPermissions(role: UserRole): UserPermissions {
-  const isAdmin = ADMIN_ROLES.includes(role);
-  const isManager = MANAGER_ROLES.includes(role);
-  
+// Granted to every built-in role
+const BASELINE_PERMISSIONS: PermissionKey[] = [
+  'canViewOwnProfile', 'canEditOwnProfile', 'canViewOwnResources', 'canRequestAccess',
+  'canViewOwnAccessRequests', 'canViewPolicies', 'canAddPolicy', 'canViewDocuments', 'canViewOwnApprovals'
+];
+
+// Everything the former hard-coded matrix reserved for CEO/CTO
+const ADMIN_PERMISSIONS: PermissionKey[] = [
+  'canViewAllEmployees', 'canAddEmployee', 'canEditEmployee', 'canDeleteEmployee',
+  'canViewAllResources', 'canAddResource', 'canEditResource', 'canDeleteResource', 'canAssignResources',
+  'canManageSoftwareUpdates', 'canApproveAccess', 'canViewAllAccessRequests', 'canEditPolicy', 'canDeletePolicy',
+  'canEditDocument', 'canDeleteDocument', 'canViewAllApprovals', 'canApproveWorkflows',
+  'canViewAudit', 'canViewTimeline', 'canManageRoles', 'canResetPasswords'
+];
+
+// Any of these lets someone act on approvals in bulk or by bearer token
+export const APPROVAL_PERMISSIONS: PermissionKey[] = [
+  'canApproveWorkflows', 'canApproveAccess', 'canApproveITRequests', 'canApproveFinancialRequests',
+  'canApproveHRRequests', 'canApproveSecurityRequests'
+];
+
+function defaultRole(
+  key: string,
+  tier: RoleTier,
+  approvalLimit: number | null,
+  extraPermissions: PermissionKey[] = [],
+  isAdmin = false
+): RoleDefinitionSnapshot {
+  const permissions = [...BASELINE_PERMISSIONS, ...(isAdmin ? ADMIN_PERMISSIONS : []), ...extraPermissions];
+  // Managers and above can add documents
+  if (tier === 'EXECUTIVE' || tier === 'DEPARTMENT_HEAD') {
+    permissions.push('canAddDocument');
+  }
   return {
-    // Employee Management - Only CEO/CTO can manage employees
-    canViewAllEmployees: isAdmin,
-    canAddEmployee: isAdmin,
-    canEditEmployee: isAdmin,
-    canDeleteEmployee: isAdmin,
-    canViewOwnProfile: true, // Everyone can view their own profile
-    canEditOwnProfile: true, // Everyone can edit their own profile
-    
-    // Resource Management - Only CEO/CTO can manage resources
-    canViewAllResources: isAdmin,
-    canViewOwnResources: true, // Everyone can view their assigned resources
-    canAddResource: isAdmin,
-    canEditResource: isAdmin,
-    canDeleteResource: isAdmin,
-    
-    // Access Management - Everyone can request, only CEO/CTO can approve
-    canRequestAccess: true, // Everyone can request access
-    canApproveAccess: isAdmin,
-    canViewAllAccessRequests: isAdmin,
-    canViewOwnAccessRequests: true,
-    
-    // Policy Management - Everyone can add policies, only CEO/CTO can edit/delete
-    canViewPolicies: true,
-    canAddPolicy: true, // Everyone can add policies
-    canEditPolicy: isAdmin,
-    canDeletePolicy: isAdmin,
-    
-    // Document Management - Limited access for regular employees
-    canViewDocuments: true,
-    canAddDocument: isManager, // Managers and above can add documents
-    canEditDocument: isAdmin,
-    canDeleteDocument: isAdmin,
-    
-    // Approval Workflows - Only CEO/CTO can approve
-    canViewAllApprovals: isAdmin,
-    canViewOwnApprovals: true,
-    canApproveWorkflows: isAdmin,
-    
-    // Audit & Timeline - Only CEO/CTO can view
-    canViewAudit: isAdmin,
-    canViewTimeline: isAdmin,
+    key,
+    name: key.split('_').map(word => word.length <= 3 ? word : word.charAt(0) + word.slice(1).toLowerCase()).join(' '),
+    description: null,
+    tier,
+    isAdmin,
+    approvalLimit,
+    isSystem: true,
+    permissions: Array.from(new Set(permissions))
   };
 }
 
+// Built-in roles, seeded by the add_role_definitions migration and used until the registry is loaded
+export const DEFAULT_ROLE_DEFINITIONS: RoleDefinitionSnapshot[] = [
+  defaultRole('CEO', 'EXECUTIVE', null, ['canApproveFinancialRequests', 'canApproveHRRequests', 'canManageAccounts', 'canIssueServiceTokens', 'canManageWorkflowTemplates'], true),
+  defaultRole('CTO', 'EXECUTIVE', 25000, ['canApproveITRequests', 'canApproveSecurityRequests', 'canManageAccounts', 'canIssueServiceTokens', 'canManageWorkflowTemplates'], true),
+  defaultRole('CFO', 'EXECUTIVE', 50000, ['canApproveFinancialRequests']),
+  defaultRole('COO', 'EXECUTIVE', 1000),
+  defaultRole('ENGINEERING_MANAGER', 'DEPARTMENT_HEAD', 10000, ['canApproveITRequests', 'canAssignResources']),
+  defaultRole('PRODUCT_MANAGER', 'DEPARTMENT_HEAD', 1000),
+  defaultRole('SALES_MANAGER', 'DEPARTMENT_HEAD', 10000),
+  defaultRole('HR_MANAGER', 'DEPARTMENT_HEAD', 5000, ['canApproveHRRequests', 'canManageAccounts', 'canEditEmployee', 'canAssignResources']),
+  defaultRole('MARKETING_MANAGER', 'DEPARTMENT_HEAD', 10000),
+  defaultRole('FRONTEND_DEVELOPER', 'STAFF', 1000),
+  defaultRole('BACKEND_DEVELOPER', 'STAFF', 1000),
+  defaultRole('FULLSTACK_DEVELOPER', 'STAFF', 1000),
+  defaultRole('MOBILE_DEVELOPER', 'STAFF', 1000),
+  defaultRole('DEVOPS_ENGINEER', 'STAFF', 1000),
+  defaultRole('QA_ENGINEER', 'STAFF', 1000),
+  defaultRole('DATA_SCIENTIST', 'STAFF', 1000),
+  defaultRole('UI_UX_DESIGNER', 'STAFF', 1000),
+  defaultRole('SYSTEM_ADMINISTRATOR', 'OPERATIONAL_MANAGER', 1000, ['canApproveITRequests', 'canManageSoftwareUpdates']),
+  defaultRole('SECURITY_ENGINEER', 'OPERATIONAL_MANAGER', 1000, ['canApproveSecurityRequests', 'canManageSoftwareUpdates']),
+  defaultRole('SALES_REPRESENTATIVE', 'STAFF', 1000),
+  defaultRole('BUSINESS_ANALYST', 'STAFF', 1000),
+  defaultRole('MARKETING_SPECIALIST', 'STAFF', 1000),
+  defaultRole('HR_SPECIALIST', 'STAFF', 1000),
+  defaultRole('ACCOUNTANT', 'STAFF', 1000),
+  defaultRole('INTERN', 'STAFF', 1000),
+  defaultRole('JUNIOR_DEVELOPER', 'STAFF', 1000),
+  defaultRole('TRAINEE', 'STAFF', 1000),
+  defaultRole('ADMIN', 'STAFF', 1000, [
+    'canManageAccounts', 'canIssueServiceTokens', 'canManageWorkflowTemplates', 'canEditEmployee',
+    'canViewAllResources', 'canAddResource', 'canEditResource', 'canAssignResources', 'canManageSoftwareUpdates'
+  ]),
+  defaultRole('EMPLOYEE', 'STAFF', 1000)
+];
+
+// Kept on globalThis so every route bundle in a dev server shares one registry
+const globalForRoles = globalThis as unknown as {
+  roleRegistry?: Map<string, RoleDefinitionSnapshot>;
+};
+
+function getRegistry(): Map<string, RoleDefinitionSnapshot> {
+  if (!globalForRoles.roleRegistry) {
+    globalForRoles.roleRegistry = new Map(DEFAULT_ROLE_DEFINITIONS.map(role => [role.key, role]));
+  }
+  return globalForRoles.roleRegistry;
+}
+
+// Replace the registry with the roles loaded from the database (or /api/roles on the client)
+export function setRoleRegistry(roles: RoleDefinitionSnapshot[]): void {
+  globalForRoles.roleRegistry = new Map(roles.map(role => [role.key, role]));
+}
+
+export function getRoleDefinition(role: UserRole): RoleDefinitionSnapshot | undefined {
+  return getRegistry().get(role);
+}
+
+export function listRoleDefinitions(): RoleDefinitionSnapshot[] {
+  return Array.from(getRegistry().values());
+}
+
+export function getRolesByTier(...tiers: RoleTier[]): UserRole[] {
+  return listRoleDefinitions().filter(role => tiers.includes(role.tier)).map(role => role.key);
+}
+
+export function getRolesWithPermission(permission: PermissionKey): UserRole[] {
+  return listRoleDefinitions().filter(role => role.permissions.includes(permission)).map(role => role.key);
+}
+
+// Unknown roles get no permissions; grants are applied on top of the role's matrix row
+export function getUserPermissions(role: UserRole, grants: PermissionGrant[] = []): UserPermissions {
+  const granted = new Set<string>(getRoleDefinition(role)?.permissions ?? []);
+
+  for (const grant of grants) {
+    if (grant.granted) {
+      granted.add(grant.permission);
+    } else {
+      granted.delete(grant.permission);
+    }
+  }
+
+  return Object.fromEntries(PERMISSION_KEYS.map(key => [key, granted.has(key)])) as unknown as UserPermissions;
+}
+
 export function hasPermission(userRole: UserRole, permission: keyof UserPermissions): boolean {
   const permissions = getUserPermissions(userRole);
   return permissions[permission];
 }
 
 export function isAdmin(role: UserRole): boolean {
-  return ADMIN_ROLES.includes(role);
+  return getRoleDefinition(role)?.isAdmin ?? false;
 }
 
 export function isManager(role: UserRole): boolean {
-  return MANAGER_ROLES.includes(role);
+  const tier = getRoleDefinition(role)?.tier;
+  return tier === 'EXECUTIVE' || tier === 'DEPARTMENT_HEAD';
 }
 
-// Helper function to check if user can access a specific page
-export function canAccessPage(userRole: UserRole, page: string): boolean {
-  const permissions = getUserPermissions(userRole);
-  
+export function getRoleLabel(role: UserRole): string {
+  return getRoleDefinition(role)?.name ?? role.replace(/_/g, ' ');
+}
+
+// Helper function to check if user can access a specific page.
+// Pass the user's effective permissions when they may differ from their role's defaults.
+export function canAccessPage(userRole: UserRole, page: string, permissions: UserPermissions = getUserPermissions(userRole)): boolean {
   switch (page) {
     case '/employees':
       return permissions.canViewAllEmployees;
@@ -143,9 +342,13 @@ export function canAccessPage(userRole: UserRole, page: string): boolean {
       return permissions.canViewAudit;
     case '/timeline':
       return permissions.canViewTimeline;
+    case '/roles':
+      return permissions.canManageRoles;
+    case '/workflow-templates':
+      return permissions.canManageWorkflowTemplates;
     case '/profile':
       return permissions.canViewOwnProfile;
     default:
       return true; // Allow access to dashboard and other general pages
   }
-}
\ No newline at end of file
+}
@@ -10,13 +10,23 @@
  * - Software: Supports both individual and pooled assignment models
  * - Cloud: Shared assignment (multiple users can access the same resource)
  * 
+ * Assignments can carry an optional due date (loaners, trial licenses); see assignmentDueService
+ * for the reminders and overdue handling.
+ *
+ * An active assignment can be transferred to another employee in one step, so the item never
+ * shows as AVAILABLE between the old holder and the new one.
+ *
  * Requirements: 2.1, 2.2, 3.1, 3.4, 3.5, 10.1, 10.2, 10.3, 10.4, 10.5, 10.6, 10.7, 10.8, 11.3
  */
 
+import { randomUUID } from 'crypto';
 import { PrismaClient, AssignmentStatus } from '@prisma/client';
 import { 
   CreateAssignmentRequest,
   UpdateAssignmentRequest,
+  TransferAssignmentRequest,
+  BulkTransferRequest,
+  HandoverCondition,
   ResourceAssignment,
   AssignmentType,
   AllocationType,
@@ -47,6 +57,31 @@ export interface AssignmentResult {
   errorCode?: string;
 }
 
+/**
+ * Assignment transfer result: the new assignment, plus the one that was closed
+ */
+export interface TransferResult extends AssignmentResult {
+  previousAssignment?: ResourceAssignment;
+}
+
+/**
+ * Result of transferring several assignments; each one succeeds or fails on its own
+ */
+export interface BulkTransferResult {
+  results: {
+    assignmentId: string;
+    resourceName: string;
+    success: boolean;
+    assignment?: ResourceAssignment;
+    error?: string;
+    errorCode?: string;
+  }[];
+  succeeded: number;
+  failed: number;
+}
+
+export const HANDOVER_CONDITIONS: HandoverCondition[] = ['GOOD', 'DAMAGED'];
+
 /**
  * Determines the appropriate assignment type based on resource type
  * Requirements: 10.1, 10.2, 10.3
@@ -463,6 +498,14 @@ export async function createAssignment(
     };
   }
 
+  if (request.dueAt && (isNaN(request.dueAt.getTime()) || request.dueAt <= new Date())) {
+    return {
+      success: false,
+      error: 'Due date must be in the future',
+      errorCode: 'INVALID_DUE_DATE',
+    };
+  }
+
   const assignmentType = validation.suggestedAssignmentType || request.assignmentType || 'INDIVIDUAL';
 
   try {
@@ -478,6 +521,7 @@ export async function createAssignment(
           status: 'ACTIVE',
           assignmentType: assignmentType,
           notes: request.notes || null,
+          dueAt: request.dueAt || null,
         },
         include: {
           employee: {
@@ -683,6 +727,367 @@ export async function revokeAssignment(
   );
 }
 
+/**
+ * Sets, moves or clears the expected return date of an active assignment. Reminders and
+ * overdue notices start over for the new date.
+ */
+export async function updateAssignmentDueDate(
+  assignmentId: string,
+  dueAt: Date | null,
+  updatedById: string
+): Promise<AssignmentResult> {
+  if (dueAt && (isNaN(dueAt.getTime()) || dueAt <= new Date())) {
+    return { success: false, error: 'Due date must be in the future', errorCode: 'INVALID_DUE_DATE' };
+  }
+
+  try {
+    const existing = await prisma.resourceAssignment.findUnique({
+      where: { id: assignmentId },
+      include: {
+        resource: { select: { name: true } },
+        employee: { select: { name: true } },
+      },
+    });
+
+    if (!existing) {
+      return { success: false, error: 'Assignment not found', errorCode: 'ASSIGNMENT_NOT_FOUND' };
+    }
+
+    if (existing.status !== 'ACTIVE') {
+      return { success: false, error: 'Only active assignments have a due date', errorCode: 'ASSIGNMENT_NOT_ACTIVE' };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedAssignment = await tx.resourceAssignment.update({
+        where: { id: assignmentId },
+        data: {
+          dueAt,
+          dueReminderSentAt: null,
+          overdueNotifiedAt: null,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          entityType: 'RESOURCE',
+          entityId: existing.resourceId,
+          changedById: updatedById,
+          fieldChanged: 'assignmentDueAt',
+          oldValue: existing.dueAt?.toISOString() || null,
+          newValue: dueAt?.toISOString() || null,
+          resourceId: existing.resourceId,
+          assignmentId: assignmentId,
+        },
+      });
+
+      await tx.activityTimeline.create({
+        data: {
+          entityType: 'RESOURCE',
+          entityId: existing.resourceId,
+          activityType: 'UPDATED',
+          title: dueAt ? `Assignment due date set to ${dueAt.toLocaleDateString()}` : 'Assignment due date removed',
+          description: `${existing.resource.name} assignment for ${existing.employee.name} ${dueAt ? `is now due back on ${dueAt.toLocaleDateString()}` : 'no longer has a due date'}`,
+          performedBy: updatedById,
+          resourceId: existing.resourceId,
+          assignmentId: assignmentId,
+          employeeId: existing.employeeId,
+          metadata: {
+            previousDueAt: existing.dueAt?.toISOString() || null,
+            dueAt: dueAt?.toISOString() || null,
+          },
+        },
+      });
+
+      return updatedAssignment;
+    });
+
+    return {
+      success: true,
+      assignment: mapPrismaToAssignment(result),
+    };
+  } catch (error) {
+    console.error('Error updating assignment due date:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update due date',
+      errorCode: 'UPDATE_FAILED',
+    };
+  }
+}
+
+/**
+ * Transfers an active assignment to another employee in one transaction: the old assignment
+ * is closed and a new one is opened for the same item, which stays ASSIGNED throughout. The
+ * handover condition and notes are recorded on both, and the two timeline entries share a
+ * transferId.
+ */
+export async function transferAssignment(
+  assignmentId: string,
+  request: TransferAssignmentRequest,
+  transferredById: string
+): Promise<TransferResult> {
+  const condition = request.condition || 'GOOD';
+  if (!HANDOVER_CONDITIONS.includes(condition)) {
+    return {
+      success: false,
+      error: `Invalid handover condition. Must be one of: ${HANDOVER_CONDITIONS.join(', ')}`,
+      errorCode: 'INVALID_CONDITION',
+    };
+  }
+
+  if (request.dueAt && (isNaN(request.dueAt.getTime()) || request.dueAt <= new Date())) {
+    return { success: false, error: 'Due date must be in the future', errorCode: 'INVALID_DUE_DATE' };
+  }
+
+  try {
+    const existing = await prisma.resourceAssignment.findUnique({
+      where: { id: assignmentId },
+      include: {
+        resource: { select: { id: true, name: true } },
+        employee: { select: { id: true, name: true } },
+        item: { select: { id: true, serialNumber: true, hostname: true } },
+        reservation: { select: { id: true } },
+      },
+    });
+
+    if (!existing) {
+      return { success: false, error: 'Assignment not found', errorCode: 'ASSIGNMENT_NOT_FOUND' };
+    }
+
+    if (existing.status !== 'ACTIVE') {
+      return { success: false, error: 'Only active assignments can be transferred', errorCode: 'ASSIGNMENT_NOT_ACTIVE' };
+    }
+
+    // A reservation's access ends with its window; the new holder should book their own
+    if (existing.reservation) {
+      return { success: false, error: 'Assignments started from a reservation cannot be transferred', errorCode: 'RESERVED_ASSIGNMENT' };
+    }
+
+    if (existing.employeeId === request.toEmployeeId) {
+      return { success: false, error: 'The assignment already belongs to this employee', errorCode: 'SAME_EMPLOYEE' };
+    }
+
+    const toEmployee = await prisma.employee.findUnique({
+      where: { id: request.toEmployeeId },
+      select: { id: true, name: true, status: true },
+    });
+
+    if (!toEmployee) {
+      return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+    }
+
+    if (toEmployee.status !== 'ACTIVE') {
+      return { success: false, error: 'Assignments can only be transferred to active employees', errorCode: 'EMPLOYEE_INACTIVE' };
+    }
+
+    // Seats without an item: the new holder must not have one already
+    if (!existing.itemId) {
+      const duplicate = await prisma.resourceAssignment.findFirst({
+        where: { resourceId: existing.resourceId, employeeId: toEmployee.id, status: 'ACTIVE' },
+        select: { id: true },
+      });
+      if (duplicate) {
+        return { success: false, error: 'Employee already has access to this resource', errorCode: 'ALREADY_ASSIGNED' };
+      }
+    }
+
+    const transferId = randomUUID();
+    const transferredAt = new Date();
+    const itemLabel = existing.item
+      ? existing.item.serialNumber || existing.item.hostname || existing.item.id
+      : null;
+    const handover = `${condition.toLowerCase()} condition${request.notes ? `: ${request.notes}` : ''}`;
+
+    const assignmentInclude = {
+      employee: {
+        select: { id: true, name: true, email: true, department: true },
+      },
+      resource: {
+        select: { id: true, name: true, type: true, category: true, allocationType: true },
+      },
+      item: {
+        select: { id: true, serialNumber: true, hostname: true, licenseKey: true },
+      },
+    };
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Close the old assignment only while it is still active, so two transfers (or a
+      // transfer and a return) cannot both win
+      const closed = await tx.resourceAssignment.updateMany({
+        where: { id: assignmentId, status: 'ACTIVE' },
+        data: {
+          status: 'RETURNED',
+          returnedAt: transferredAt,
+          notes: `${existing.notes || ''}\n\nTransferred to ${toEmployee.name} in ${handover}`.trim(),
+        },
+      });
+      if (closed.count === 0) {
+        return null;
+      }
+
+      const previousAssignment = await tx.resourceAssignment.findUniqueOrThrow({
+        where: { id: assignmentId },
+        include: assignmentInclude,
+      });
+
+      // Same item, so it stays ASSIGNED and is never free for someone else to take
+      const assignment = await tx.resourceAssignment.create({
+        data: {
+          employeeId: toEmployee.id,
+          resourceId: existing.resourceId,
+          itemId: existing.itemId,
+          assignedBy: transferredById,
+          status: 'ACTIVE',
+          assignmentType: existing.assignmentType,
+          notes: `Transferred from ${existing.employee.name} in ${handover}`,
+          dueAt: request.dueAt || null,
+        },
+        include: assignmentInclude,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          entityType: 'RESOURCE',
+          entityId: existing.resourceId,
+          changedById: transferredById,
+          fieldChanged: 'transferred',
+          oldValue: JSON.stringify({ assignmentId, employeeId: existing.employeeId, employeeName: existing.employee.name }),
+          newValue: JSON.stringify({
+            assignmentId: assignment.id,
+            employeeId: toEmployee.id,
+            employeeName: toEmployee.name,
+            itemId: existing.itemId,
+            condition,
+            notes: request.notes || null,
+          }),
+          resourceId: existing.resourceId,
+          assignmentId: assignment.id,
+        },
+      });
+
+      const metadata = {
+        transferId,
+        itemId: existing.itemId,
+        condition,
+        notes: request.notes || null,
+        fromEmployeeId: existing.employeeId,
+        toEmployeeId: toEmployee.id,
+        previousAssignmentId: assignmentId,
+        newAssignmentId: assignment.id,
+      };
+
+      await tx.activityTimeline.create({
+        data: {
+          entityType: 'RESOURCE',
+          entityId: existing.resourceId,
+          activityType: 'ASSET_UNASSIGNED',
+          title: `${existing.resource.name} handed over by ${existing.employee.name}`,
+          description: itemLabel
+            ? `Item ${itemLabel} transferred to ${toEmployee.name} in ${condition.toLowerCase()} condition`
+            : `Seat transferred to ${toEmployee.name}`,
+          performedBy: transferredById,
+          resourceId: existing.resourceId,
+          assignmentId: assignmentId,
+          employeeId: existing.employeeId,
+          metadata,
+        },
+      });
+
+      await tx.activityTimeline.create({
+        data: {
+          entityType: 'RESOURCE',
+          entityId: existing.resourceId,
+          activityType: 'ASSIGNED',
+          title: `${existing.resource.name} transferred to ${toEmployee.name}`,
+          description: itemLabel
+            ? `Item ${itemLabel} received from ${existing.employee.name} in ${condition.toLowerCase()} condition`
+            : `Seat received from ${existing.employee.name}`,
+          performedBy: transferredById,
+          resourceId: existing.resourceId,
+          assignmentId: assignment.id,
+          employeeId: toEmployee.id,
+          metadata: { ...metadata, dueAt: request.dueAt?.toISOString() || null },
+        },
+      });
+
+      return { previousAssignment, assignment };
+    });
+
+    if (!result) {
+      return { success: false, error: 'Only active assignments can be transferred', errorCode: 'ASSIGNMENT_NOT_ACTIVE' };
+    }
+
+    return {
+      success: true,
+      assignment: mapPrismaToAssignment(result.assignment),
+      previousAssignment: mapPrismaToAssignment(result.previousAssignment),
+    };
+  } catch (error) {
+    console.error('Error transferring assignment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to transfer assignment',
+      errorCode: 'TRANSFER_FAILED',
+    };
+  }
+}
+
+/**
+ * Transfers everything an employee holds (or the listed assignments) to another employee,
+ * for example from a leaver to their replacement. Each assignment moves in its own
+ * transaction, so one that fails does not hold up the rest.
+ */
+export async function transferAllAssignments(
+  fromEmployeeId: string,
+  request: BulkTransferRequest,
+  transferredById: string
+): Promise<BulkTransferResult> {
+  const held = await prisma.resourceAssignment.findMany({
+    where: {
+      employeeId: fromEmployeeId,
+      status: 'ACTIVE',
+      ...(request.assignmentIds && { id: { in: request.assignmentIds } }),
+    },
+    include: { resource: { select: { name: true } } },
+    orderBy: { assignedAt: 'asc' },
+  });
+
+  const results: BulkTransferResult['results'] = [];
+  for (const assignment of held) {
+    const outcome = await transferAssignment(assignment.id, {
+      toEmployeeId: request.toEmployeeId,
+      condition: request.conditions?.[assignment.id] || request.condition,
+      notes: request.notes,
+      dueAt: request.dueAt,
+    }, transferredById);
+
+    results.push({
+      assignmentId: assignment.id,
+      resourceName: assignment.resource.name,
+      success: outcome.success,
+      assignment: outcome.assignment,
+      error: outcome.error,
+      errorCode: outcome.errorCode,
+    });
+  }
+
+  // Listed assignments the employee does not (or no longer) hold
+  for (const assignmentId of request.assignmentIds || []) {
+    if (!held.some(assignment => assignment.id === assignmentId)) {
+      results.push({
+        assignmentId,
+        resourceName: '',
+        success: false,
+        error: 'Not an active assignment of this employee',
+        errorCode: 'ASSIGNMENT_NOT_ACTIVE',
+      });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
 /**
  * Gets all users assigned to a shared cloud resource
  * Requirements: 10.7 - Maintain a list of all users with access to the shared resource
@@ -895,6 +1300,7 @@ function mapPrismaToAssignment(assignment: any): ResourceAssignment {
     assignmentType: assignment.assignmentType,
     assignedAt: assignment.assignedAt,
     returnedAt: assignment.returnedAt ?? undefined,
+    dueAt: assignment.dueAt ?? undefined,
     notes: assignment.notes ?? undefined,
   };
 }
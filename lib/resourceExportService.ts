@@ -0,0 +1,217 @@
+/**
+ * Resource Export Service
+ *
+ * Builds the asset register export: one row per resource item, plus one row for each
+ * resource without items (shared and cloud resources). Dynamic item properties are
+ * flattened into columns from each resource's property schema, and the current assignee
+ * comes from the active assignment. Rows are read page by page so exports of any size
+ * stream without holding the register in memory.
+ */
+
+import { ResourceStatus, ResourceType } from '@prisma/client';
+import { prisma } from './prisma';
+import { PropertyDefinition } from '../types/resource-structure';
+import { mergePropertiesWithLegacy } from './backwardCompatibility';
+import {
+  CatalogViewer,
+  ResourceCatalogFilters,
+  buildResourceCatalogWhere,
+  getCatalogAssigneeScope
+} from './resourceService';
+import { SpreadsheetCell } from './spreadsheet';
+
+export const RESOURCE_EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+export type ResourceExportFormat = typeof RESOURCE_EXPORT_FORMATS[number];
+
+// Items read per query while streaming
+const EXPORT_PAGE_SIZE = 500;
+
+export interface ResourceExportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ResourceExport {
+  columns: ResourceExportColumn[];
+  resourceCount: number;
+  rows: AsyncGenerator<SpreadsheetCell[]>;
+}
+
+const BASE_COLUMNS: ResourceExportColumn[] = [
+  { key: 'resourceId', label: 'Resource ID' },
+  { key: 'resourceName', label: 'Resource' },
+  { key: 'resourceType', label: 'Type' },
+  { key: 'category', label: 'Category' },
+  { key: 'allocationType', label: 'Allocation' },
+  { key: 'resourceStatus', label: 'Resource Status' },
+  { key: 'custodian', label: 'Custodian' },
+  { key: 'itemId', label: 'Item ID' },
+  { key: 'itemStatus', label: 'Item Status' },
+  { key: 'assigneeName', label: 'Assigned To' },
+  { key: 'assigneeEmail', label: 'Assignee Email' },
+  { key: 'assigneeDepartment', label: 'Assignee Department' },
+  { key: 'assignedAt', label: 'Assigned At' },
+  { key: 'itemCreatedAt', label: 'Item Created' }
+];
+
+type ExportAssignment = {
+  assignedAt: Date;
+  employee: { name: string; email: string; department: string };
+};
+
+function toCell(value: unknown): SpreadsheetCell {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+// Assignee columns; shared resources list every active assignee
+function assigneeCells(assignments: ExportAssignment[]): SpreadsheetCell[] {
+  if (assignments.length === 0) {
+    return [null, null, null, null];
+  }
+  return [
+    assignments.map(a => a.employee.name).join('; '),
+    assignments.map(a => a.employee.email).join('; '),
+    Array.from(new Set(assignments.map(a => a.employee.department))).join('; '),
+    assignments.length === 1 ? assignments[0].assignedAt.toISOString() : null
+  ];
+}
+
+/**
+ * Prepares an export of the resources matching the catalog filters. Filters are checked
+ * and the columns worked out before any row is read, so problems surface before streaming.
+ */
+export async function prepareResourceExport(
+  filters: ResourceCatalogFilters,
+  user: CatalogViewer
+): Promise<ResourceExport> {
+  if (filters.type && !Object.values(ResourceType).includes(filters.type as ResourceType)) {
+    throw new Error(`Invalid resource type: ${filters.type}`);
+  }
+  if (filters.status && !Object.values(ResourceStatus).includes(filters.status as ResourceStatus)) {
+    throw new Error(`Invalid resource status: ${filters.status}`);
+  }
+
+  const where = buildResourceCatalogWhere(filters, user);
+  const assigneeId = getCatalogAssigneeScope(filters, user);
+
+  // Resources are few next to their items, so their details are kept for the whole export
+  const resources = await prisma.resource.findMany({
+    where,
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      category: true,
+      allocationType: true,
+      status: true,
+      propertySchema: true,
+      custodian: { select: { name: true } },
+      resourceTypeEntity: { select: { name: true } },
+      resourceCategory: { select: { name: true } },
+      _count: { select: { items: true } }
+    },
+    orderBy: [{ name: 'asc' }, { id: 'asc' }]
+  });
+
+  // One column per property key across the exported resources, in first-seen order
+  const propertyColumns = new Map<string, ResourceExportColumn>();
+  for (const resource of resources) {
+    const schema = (resource.propertySchema as unknown as PropertyDefinition[]) || [];
+    for (const property of schema) {
+      if (!propertyColumns.has(property.key)) {
+        propertyColumns.set(property.key, { key: `properties.${property.key}`, label: property.label || property.key });
+      }
+    }
+  }
+  const propertyKeys = Array.from(propertyColumns.keys());
+
+  async function* rows(): AsyncGenerator<SpreadsheetCell[]> {
+    for (const resource of resources) {
+      const resourceCells: SpreadsheetCell[] = [
+        resource.id,
+        resource.name,
+        resource.resourceTypeEntity?.name || resource.type,
+        resource.resourceCategory?.name || resource.category,
+        resource.allocationType,
+        resource.status,
+        resource.custodian.name
+      ];
+
+      if (resource._count.items === 0) {
+        const assignments = await prisma.resourceAssignment.findMany({
+          where: {
+            resourceId: resource.id,
+            status: 'ACTIVE',
+            ...(assigneeId && { employeeId: assigneeId })
+          },
+          select: {
+            assignedAt: true,
+            employee: { select: { name: true, email: true, department: true } }
+          },
+          orderBy: { assignedAt: 'asc' }
+        });
+
+        yield [
+          ...resourceCells,
+          null,
+          null,
+          ...assigneeCells(assignments),
+          null,
+          ...propertyKeys.map(() => null)
+        ];
+        continue;
+      }
+
+      let cursor: string | undefined;
+      while (true) {
+        const items = await prisma.resourceItem.findMany({
+          where: {
+            resourceId: resource.id,
+            ...(assigneeId && { assignments: { some: { employeeId: assigneeId, status: 'ACTIVE' } } })
+          },
+          include: {
+            assignments: {
+              where: { status: 'ACTIVE' },
+              select: {
+                assignedAt: true,
+                employee: { select: { name: true, email: true, department: true } }
+              },
+              orderBy: { assignedAt: 'desc' },
+              take: 1
+            }
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: EXPORT_PAGE_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 })
+        });
+
+        for (const item of items) {
+          // Items created before property schemas keep their values in the legacy columns
+          const properties = mergePropertiesWithLegacy((item.properties as Record<string, unknown>) || {}, item);
+          yield [
+            ...resourceCells,
+            item.id,
+            item.status,
+            ...assigneeCells(item.assignments),
+            item.createdAt.toISOString(),
+            ...propertyKeys.map(key => toCell(properties[key]))
+          ];
+        }
+
+        if (items.length < EXPORT_PAGE_SIZE) {
+          break;
+        }
+        cursor = items[items.length - 1].id;
+      }
+    }
+  }
+
+  return {
+    columns: [...BASE_COLUMNS, ...propertyColumns.values()],
+    resourceCount: resources.length,
+    rows: rows()
+  };
+}
@@ -5,6 +5,7 @@
  * - Creating items with property validation against locked schemas
  * - Editing items while maintaining schema consistency
  * - Deleting items with assignment constraint checks
+ * - Bulk importing items from a spreadsheet, with a dry run that reports per-row errors
  * - Backward compatibility with legacy data formats
  * 
  * Requirements: 9.1, 9.2, 15.1, 15.2, 15.6, 15.7, 11.2, 5.4, 5.5
@@ -24,6 +25,7 @@ import {
 } from '../types/resource-structure';
 import { lockResourceSchema, getResourcePropertySchema, validatePropertiesAgainstSchema } from './resourceService';
 import { logPropertySchemaLocked } from './resourceStructureAudit';
+import { SpreadsheetRows } from './spreadsheet';
 import {
   convertLegacyFieldsToProperties,
   mergePropertiesWithLegacy,
@@ -235,6 +237,296 @@ export async function createResourceItem(
   return mapPrismaToEnhancedResourceItem(item);
 }
 
+// ============================================
+// Bulk Import
+// ============================================
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ResourceItemImportOptions {
+  mapping?: Record<string, string>; // column header -> property key; "" ignores the column
+  dryRun?: boolean;
+  fileName?: string;
+}
+
+export interface ResourceItemImportColumn {
+  header: string;
+  propertyKey: string | null;
+}
+
+export interface ResourceItemImportRow {
+  row: number; // spreadsheet row number, the header being row 1
+  valid: boolean;
+  errors: string[];
+  properties: Record<string, unknown>;
+  itemId?: string;
+}
+
+export interface ResourceItemImportResult {
+  dryRun: boolean;
+  applied: boolean; // false when a dry run, or when any row is invalid
+  columns: ResourceItemImportColumn[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  created: number;
+  rows: ResourceItemImportRow[];
+}
+
+// "Serial No." and "serial_no" both become "serialno"
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Spreadsheet cells are text; convert one to the property's data type
+function coerceCellValue(cell: string, property: PropertyDefinition): { value?: unknown; error?: string } {
+  const text = cell.trim();
+
+  switch (property.dataType) {
+    case 'NUMBER': {
+      const value = Number(text.replace(/\s/g, ''));
+      return isNaN(value) ? { error: `${property.label}: "${text}" is not a number` } : { value };
+    }
+    case 'BOOLEAN': {
+      const normalized = text.toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(normalized)) return { value: true };
+      if (['false', 'no', 'n', '0'].includes(normalized)) return { value: false };
+      return { error: `${property.label}: "${text}" is not yes/no` };
+    }
+    case 'DATE': {
+      // XLSX stores dates as days since 1899-12-30
+      if (/^\d+(\.\d+)?$/.test(text)) {
+        const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 24 * 60 * 60 * 1000);
+        return { value: date.toISOString().slice(0, 10) };
+      }
+      if (/^\d{4}-\d{2}-\d{2}/.test(text) && !isNaN(Date.parse(text.slice(0, 10)))) {
+        return { value: text.slice(0, 10) };
+      }
+      const parsed = new Date(text);
+      if (isNaN(parsed.getTime())) {
+        return { error: `${property.label}: "${text}" is not a date` };
+      }
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return { value: `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}` };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Imports resource items from spreadsheet rows, the first row being the header.
+ * Columns are matched to the resource's property schema by key or label unless mapped
+ * explicitly. Every row is validated like a single item; serial numbers must be unique
+ * within the file and against existing items. A dry run only reports the per-row results.
+ * Otherwise all rows are created in one transaction (or none, if any row is invalid),
+ * the schema is locked and a single summarized audit entry records the whole import.
+ */
+export async function importResourceItems(
+  resourceId: string,
+  table: SpreadsheetRows,
+  importedById: string,
+  options: ResourceItemImportOptions = {}
+): Promise<ResourceItemImportResult> {
+  const resource = await prisma.resource.findUnique({
+    where: { id: resourceId },
+    include: {
+      resourceTypeEntity: { select: { mandatoryProperties: true } },
+    },
+  });
+
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  const propertySchema = (resource.propertySchema as unknown as PropertyDefinition[]) || [];
+  if (propertySchema.length === 0) {
+    throw new Error('Resource has no property schema to import into');
+  }
+
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(header => header.trim());
+  if (headers.every(header => header === '')) {
+    throw new Error('The spreadsheet has no header row');
+  }
+
+  // Resolve each column to a property key
+  const mapping = options.mapping || {};
+  const columns: ResourceItemImportColumn[] = headers.map(header => {
+    if (header in mapping) {
+      const key = mapping[header];
+      if (key && !propertySchema.some(p => p.key === key)) {
+        throw new Error(`Unknown property "${key}" in column mapping`);
+      }
+      return { header, propertyKey: key || null };
+    }
+    const normalized = normalizeHeader(header);
+    const match = normalized
+      ? propertySchema.find(p => normalizeHeader(p.key) === normalized || normalizeHeader(p.label) === normalized)
+      : undefined;
+    return { header, propertyKey: match?.key || null };
+  });
+
+  const mappedKeys = columns.map(column => column.propertyKey).filter((key): key is string => !!key);
+  const repeatedKey = mappedKeys.find((key, index) => mappedKeys.indexOf(key) !== index);
+  if (repeatedKey) {
+    throw new Error(`Property "${repeatedKey}" is mapped from more than one column`);
+  }
+
+  const mandatoryKeys = (resource.resourceTypeEntity?.mandatoryProperties as string[]) || [];
+  const rows: ResourceItemImportRow[] = [];
+
+  dataRows.forEach((cells, index) => {
+    if (cells.every(cell => !cell || cell.trim() === '')) {
+      return;
+    }
+
+    const properties: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    columns.forEach((column, columnIndex) => {
+      const cell = cells[columnIndex];
+      const property = propertySchema.find(p => p.key === column.propertyKey);
+      if (!property || cell === undefined || cell.trim() === '') {
+        return;
+      }
+      const coerced = coerceCellValue(cell, property);
+      if (coerced.error) {
+        errors.push(coerced.error);
+      } else {
+        properties[property.key] = coerced.value;
+      }
+    });
+
+    const schemaValidation = validatePropertiesAgainstSchema(properties, propertySchema);
+    if (schemaValidation.missingKeys.length > 0) {
+      errors.push(`Missing required properties: ${schemaValidation.missingKeys.join(', ')}`);
+    }
+    errors.push(...schemaValidation.typeErrors.map(e => e.message));
+
+    const mandatoryValidation = validateMandatoryProperties(properties, mandatoryKeys);
+    const alreadyReported = new Set(schemaValidation.missingKeys);
+    errors.push(...mandatoryValidation.missingProperties
+      .filter(key => !alreadyReported.has(key))
+      .map(key => `Missing mandatory property: ${key}`));
+
+    rows.push({ row: index + 2, valid: errors.length === 0, errors, properties });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`An import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  // Serial numbers are unique across all items
+  const serialRows = new Map<string, ResourceItemImportRow[]>();
+  for (const row of rows) {
+    const serial = row.properties.serialNumber;
+    if (typeof serial === 'string' && serial) {
+      serialRows.set(serial, [...(serialRows.get(serial) || []), row]);
+    }
+  }
+
+  const existing = serialRows.size > 0
+    ? await prisma.resourceItem.findMany({
+      where: { serialNumber: { in: Array.from(serialRows.keys()) } },
+      select: { serialNumber: true },
+    })
+    : [];
+  const existingSerials = new Set(existing.map(item => item.serialNumber));
+
+  serialRows.forEach((matching, serial) => {
+    for (const row of matching) {
+      if (existingSerials.has(serial)) {
+        row.errors.push(`Serial number "${serial}" already exists`);
+      }
+      if (matching.length > 1) {
+        row.errors.push(`Serial number "${serial}" is repeated on rows ${matching.map(r => r.row).join(', ')}`);
+      }
+      row.valid = row.errors.length === 0;
+    }
+  });
+
+  const validRows = rows.filter(row => row.valid).length;
+  const result: ResourceItemImportResult = {
+    dryRun: !!options.dryRun,
+    applied: false,
+    columns,
+    totalRows: rows.length,
+    validRows,
+    invalidRows: rows.length - validRows,
+    created: 0,
+    rows,
+  };
+
+  if (options.dryRun || rows.length === 0 || validRows < rows.length) {
+    return result;
+  }
+
+  const wasLocked = resource.schemaLocked;
+
+  const itemIds = await prisma.$transaction(async (tx) => {
+    const ids: string[] = [];
+
+    for (const row of rows) {
+      const item = await tx.resourceItem.create({
+        data: {
+          resourceId,
+          status: 'AVAILABLE',
+          properties: JSON.parse(JSON.stringify(row.properties)),
+          ...extractLegacyFields(row.properties),
+        },
+        select: { id: true },
+      });
+      ids.push(item.id);
+    }
+
+    await lockResourceSchema(resourceId, tx);
+
+    await tx.auditLog.create({
+      data: {
+        entityType: 'RESOURCE',
+        entityId: resourceId,
+        changedById: importedById,
+        fieldChanged: 'items_imported',
+        newValue: JSON.stringify({
+          count: ids.length,
+          fileName: options.fileName,
+          itemIds: ids,
+          serialNumbers: Array.from(serialRows.keys()),
+          columns: columns.filter(column => column.propertyKey),
+          schemaLockedByImport: !wasLocked,
+        }),
+        resourceId,
+      },
+    });
+
+    await tx.activityTimeline.create({
+      data: {
+        entityType: 'RESOURCE',
+        entityId: resourceId,
+        activityType: 'CREATED',
+        title: `${ids.length} ${resource.name} items imported`,
+        description: `Resource items imported${options.fileName ? ` from ${options.fileName}` : ''}`,
+        performedBy: importedById,
+        resourceId,
+        metadata: JSON.parse(JSON.stringify({
+          count: ids.length,
+          fileName: options.fileName,
+          itemIds: ids,
+        })),
+      },
+    });
+
+    return ids;
+  }, { timeout: 60000 });
+
+  rows.forEach((row, index) => {
+    row.itemId = itemIds[index];
+  });
+
+  return { ...result, applied: true, created: itemIds.length };
+}
+
 /**
  * Gets a resource item by ID
  */
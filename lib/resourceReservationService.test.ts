@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { peakOverlap } from './resourceReservationService';
+
+// peakOverlap is pure; keep the module's database client from connecting
+vi.mock('./prisma', () => ({ prisma: {} }));
+
+const at = (hour: number) => new Date(Date.UTC(2026, 0, 5, hour));
+const booking = (start: number, end: number) => ({ startAt: at(start), endAt: at(end) });
+
+describe('peakOverlap', () => {
+  it('is zero without reservations', () => {
+    expect(peakOverlap([], at(9), at(17))).toBe(0);
+  });
+
+  it('does not count back-to-back bookings as overlapping', () => {
+    expect(peakOverlap([booking(9, 11), booking(11, 13)], at(9), at(17))).toBe(1);
+  });
+
+  it('counts only the moments that overlap at once, not every booking in the window', () => {
+    // 9-12 and 13-16 never meet; 10-14 overlaps each of them in turn
+    expect(peakOverlap([booking(9, 12), booking(13, 16), booking(10, 14)], at(9), at(17))).toBe(2);
+  });
+
+  it('counts every booking when they all share a moment', () => {
+    expect(peakOverlap([booking(8, 12), booking(10, 14), booking(11, 18)], at(9), at(17))).toBe(3);
+  });
+
+  it('counts a booking that spans the whole window against each booking inside it', () => {
+    expect(peakOverlap([booking(8, 20), booking(9, 11), booking(11, 13)], at(9), at(17))).toBe(2);
+  });
+});
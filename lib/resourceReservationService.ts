@@ -0,0 +1,553 @@
+/**
+ * Resource Reservation Service
+ * Books SHARED resources such as meeting-room kits, test devices and demo accounts for a
+ * future window. A booking must fit next to the other reservations and open assignments
+ * within the resource's seats. When the window starts a sweep turns the booking into a
+ * ResourceAssignment, and when it ends the assignment is closed again.
+ */
+
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { logTimelineActivity } from './timeline';
+import { sendMail } from './mail';
+import { createAssignment, getSharedResourceCapacity, revokeAssignment } from './resourceAssignmentService';
+import { getCompanyName } from './config/company';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest window a single reservation may cover
+export const MAX_RESERVATION_DAYS = 30;
+
+// Reservations in these states hold a seat for their window
+const HOLDING_STATUSES: ReservationStatus[] = ['BOOKED', 'ACTIVE'];
+
+const reservationInclude = {
+  employee: { select: { id: true, name: true, email: true, department: true, status: true } },
+  reservedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ResourceReservationInclude;
+
+export type ReservationRecord = Prisma.ResourceReservationGetPayload<{ include: typeof reservationInclude }>;
+
+/**
+ * Request to book a shared resource for a window
+ */
+export interface CreateReservationRequest {
+  resourceId: string;
+  employeeId: string;
+  startAt: Date;
+  endAt: Date;
+  notes?: string;
+}
+
+export interface ReservationResult {
+  success: boolean;
+  reservation?: ReservationRecord;
+  error?: string;
+  errorCode?: string;
+  // Bookings overlapping the requested window when it does not fit
+  conflicts?: ReservationRecord[];
+}
+
+export interface ReservationSweepOptions {
+  now?: Date;
+  triggeredBy?: string | null; // employee who ran the sweep manually, if any
+}
+
+export interface ReservationSweepResult {
+  started: number;
+  failed: number;
+  ended: number;
+}
+
+type ReservationConflict = Required<Pick<ReservationResult, 'error' | 'errorCode'>> & Pick<ReservationResult, 'conflicts'>;
+
+/**
+ * Most reservations overlapping at any one moment of [startAt, endAt)
+ */
+export function peakOverlap(reservations: { startAt: Date; endAt: Date }[], startAt: Date, endAt: Date): number {
+  const events: [number, number][] = [];
+  for (const reservation of reservations) {
+    events.push([Math.max(reservation.startAt.getTime(), startAt.getTime()), 1]);
+    events.push([Math.min(reservation.endAt.getTime(), endAt.getTime()), -1]);
+  }
+
+  // Ends sort before starts at the same instant, so back-to-back bookings do not overlap
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Checks a requested window against overlapping reservations and open assignments.
+ * Assignments that were not started from a reservation hold their seat until they are
+ * returned (or their due date), so they count against the whole window.
+ */
+async function findReservationConflict(
+  client: Prisma.TransactionClient,
+  request: CreateReservationRequest,
+  capacity: { maxCapacity: number; isUnlimited: boolean }
+): Promise<ReservationConflict | null> {
+  const overlapping = await client.resourceReservation.findMany({
+    where: {
+      resourceId: request.resourceId,
+      status: { in: HOLDING_STATUSES },
+      startAt: { lt: request.endAt },
+      endAt: { gt: request.startAt },
+    },
+    include: reservationInclude,
+    orderBy: { startAt: 'asc' },
+  });
+
+  const ownReservations = overlapping.filter(reservation => reservation.employeeId === request.employeeId);
+  if (ownReservations.length > 0) {
+    return {
+      error: 'This employee already has a reservation for this resource in that window',
+      errorCode: 'ALREADY_RESERVED',
+      conflicts: ownReservations,
+    };
+  }
+
+  const openAssignments = await client.resourceAssignment.findMany({
+    where: {
+      resourceId: request.resourceId,
+      status: 'ACTIVE',
+      reservation: { is: null },
+      OR: [{ dueAt: null }, { dueAt: { gt: request.startAt } }],
+    },
+    select: { employeeId: true },
+  });
+
+  if (openAssignments.some(assignment => assignment.employeeId === request.employeeId)) {
+    return {
+      error: 'Employee already has access to this shared resource',
+      errorCode: 'ALREADY_ASSIGNED',
+    };
+  }
+
+  if (capacity.isUnlimited) {
+    return null;
+  }
+
+  const seatsTaken = openAssignments.length + peakOverlap(overlapping, request.startAt, request.endAt);
+  if (seatsTaken >= capacity.maxCapacity) {
+    return {
+      error: capacity.maxCapacity === 1
+        ? 'This resource is already booked for part of that window'
+        : `All ${capacity.maxCapacity} seats are taken for part of that window`,
+      errorCode: 'RESERVATION_CONFLICT',
+      conflicts: overlapping,
+    };
+  }
+
+  return null;
+}
+
+function formatWindow(reservation: { startAt: Date; endAt: Date }): string {
+  return `${reservation.startAt.toLocaleString()} – ${reservation.endAt.toLocaleString()}`;
+}
+
+/**
+ * Books a shared resource for an employee. Windows that have already started are turned
+ * into an assignment straight away.
+ */
+export async function createReservation(
+  request: CreateReservationRequest,
+  reservedById: string
+): Promise<ReservationResult> {
+  const now = new Date();
+
+  if (isNaN(request.startAt.getTime()) || isNaN(request.endAt.getTime())) {
+    return { success: false, error: 'Valid start and end times are required', errorCode: 'INVALID_WINDOW' };
+  }
+  if (request.endAt <= request.startAt) {
+    return { success: false, error: 'The reservation must end after it starts', errorCode: 'INVALID_WINDOW' };
+  }
+  if (request.endAt <= now) {
+    return { success: false, error: 'The reservation window has already passed', errorCode: 'INVALID_WINDOW' };
+  }
+  if (request.endAt.getTime() - request.startAt.getTime() > MAX_RESERVATION_DAYS * DAY_MS) {
+    return {
+      success: false,
+      error: `Reservations can be at most ${MAX_RESERVATION_DAYS} days long`,
+      errorCode: 'INVALID_WINDOW',
+    };
+  }
+
+  const resource = await prisma.resource.findUnique({
+    where: { id: request.resourceId },
+    select: { id: true, name: true, status: true, allocationType: true },
+  });
+  if (!resource) {
+    return { success: false, error: 'Resource not found', errorCode: 'RESOURCE_NOT_FOUND' };
+  }
+  if (resource.allocationType !== 'SHARED') {
+    return { success: false, error: 'Only shared resources can be reserved', errorCode: 'NOT_RESERVABLE' };
+  }
+  if (resource.status !== 'ACTIVE') {
+    return { success: false, error: 'This resource is not available for reservations', errorCode: 'NOT_RESERVABLE' };
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { id: request.employeeId },
+    select: { id: true, name: true, status: true },
+  });
+  if (!employee) {
+    return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+  }
+  if (employee.status !== 'ACTIVE') {
+    return { success: false, error: 'Reservations can only be made for active employees', errorCode: 'EMPLOYEE_INACTIVE' };
+  }
+
+  try {
+    const capacity = await getSharedResourceCapacity(request.resourceId);
+
+    const outcome = await prisma.$transaction(async (tx): Promise<ReservationResult> => {
+      // Lock the resource row so two bookings for the same window cannot both pass the check
+      await tx.$queryRaw`SELECT "id" FROM "Resource" WHERE "id" = ${request.resourceId} FOR UPDATE`;
+
+      const conflict = await findReservationConflict(tx, request, capacity);
+      if (conflict) {
+        return { success: false, ...conflict };
+      }
+
+      const reservation = await tx.resourceReservation.create({
+        data: {
+          resourceId: request.resourceId,
+          employeeId: request.employeeId,
+          reservedById,
+          startAt: request.startAt,
+          endAt: request.endAt,
+          notes: request.notes || null,
+        },
+        include: reservationInclude,
+      });
+
+      return { success: true, reservation };
+    });
+
+    if (!outcome.success || !outcome.reservation) {
+      return outcome;
+    }
+
+    await logTimelineActivity({
+      entityType: 'RESOURCE',
+      entityId: resource.id,
+      activityType: 'RESERVATION_CREATED',
+      title: `${resource.name} reserved for ${employee.name}`,
+      description: formatWindow(outcome.reservation),
+      metadata: {
+        reservationId: outcome.reservation.id,
+        startAt: outcome.reservation.startAt.toISOString(),
+        endAt: outcome.reservation.endAt.toISOString(),
+        notes: request.notes || null,
+      },
+      performedBy: reservedById,
+      resourceId: resource.id,
+      employeeId: employee.id,
+    });
+
+    if (outcome.reservation.startAt <= now) {
+      await startReservation(outcome.reservation.id, now, reservedById);
+      const started = await prisma.resourceReservation.findUnique({
+        where: { id: outcome.reservation.id },
+        include: reservationInclude,
+      });
+      return { success: true, reservation: started ?? outcome.reservation };
+    }
+
+    return outcome;
+  } catch (error) {
+    console.error('Error creating reservation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create reservation',
+      errorCode: 'RESERVATION_CREATION_FAILED',
+    };
+  }
+}
+
+/**
+ * Cancels an upcoming reservation, or ends an ongoing one early and releases its seat
+ */
+export async function cancelReservation(
+  reservationId: string,
+  cancelledById: string,
+  reason?: string
+): Promise<ReservationResult> {
+  const existing = await prisma.resourceReservation.findUnique({
+    where: { id: reservationId },
+    include: { ...reservationInclude, resource: { select: { id: true, name: true } } },
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Reservation not found', errorCode: 'RESERVATION_NOT_FOUND' };
+  }
+
+  const claimed = await prisma.resourceReservation.updateMany({
+    where: { id: reservationId, status: { in: HOLDING_STATUSES } },
+    data: { status: 'CANCELLED', cancelledAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return {
+      success: false,
+      error: 'Only upcoming or ongoing reservations can be cancelled',
+      errorCode: 'RESERVATION_NOT_CANCELLABLE',
+    };
+  }
+
+  if (existing.status === 'ACTIVE' && existing.assignmentId) {
+    await revokeAssignment(existing.assignmentId, cancelledById, reason || 'Reservation cancelled');
+  }
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: existing.resource.id,
+    activityType: 'RESERVATION_CANCELLED',
+    title: `Reservation cancelled for ${existing.employee.name}`,
+    description: reason ? `${formatWindow(existing)}: ${reason}` : formatWindow(existing),
+    metadata: {
+      reservationId,
+      assignmentId: existing.assignmentId,
+      wasActive: existing.status === 'ACTIVE',
+      reason: reason || null,
+    },
+    performedBy: cancelledById,
+    resourceId: existing.resource.id,
+    employeeId: existing.employee.id,
+  });
+
+  const reservation = await prisma.resourceReservation.findUnique({
+    where: { id: reservationId },
+    include: reservationInclude,
+  });
+
+  return { success: true, reservation: reservation ?? undefined };
+}
+
+/**
+ * Reservations of a resource overlapping [from, to), cancelled ones left out
+ */
+export async function getResourceReservations(
+  resourceId: string,
+  from: Date,
+  to: Date
+): Promise<ReservationRecord[]> {
+  return prisma.resourceReservation.findMany({
+    where: {
+      resourceId,
+      status: { not: 'CANCELLED' },
+      startAt: { lt: to },
+      endAt: { gt: from },
+    },
+    include: reservationInclude,
+    orderBy: { startAt: 'asc' },
+  });
+}
+
+/**
+ * Gets a reservation, checking it belongs to the given resource
+ */
+export async function getReservationForResource(
+  resourceId: string,
+  reservationId: string
+): Promise<ReservationRecord | null> {
+  return prisma.resourceReservation.findFirst({
+    where: { id: reservationId, resourceId },
+    include: reservationInclude,
+  });
+}
+
+/**
+ * Turns a booked reservation into an assignment. The reservation is claimed first, so a
+ * booking is never started twice by overlapping sweeps.
+ */
+async function startReservation(
+  reservationId: string,
+  now: Date,
+  triggeredBy?: string | null
+): Promise<'started' | 'failed' | 'skipped'> {
+  const claimed = await prisma.resourceReservation.updateMany({
+    where: { id: reservationId, status: 'BOOKED' },
+    data: { status: 'ACTIVE' },
+  });
+  if (claimed.count === 0) {
+    return 'skipped';
+  }
+
+  const reservation = await prisma.resourceReservation.findUnique({
+    where: { id: reservationId },
+    include: {
+      ...reservationInclude,
+      resource: { select: { id: true, name: true, custodian: { select: { name: true } } } },
+    },
+  });
+  if (!reservation) {
+    return 'skipped';
+  }
+
+  const actorId = triggeredBy || reservation.reservedById;
+
+  let failureReason: string | null = null;
+  if (reservation.endAt <= now) {
+    failureReason = 'The reservation window ended before it could start';
+  } else if (reservation.employee.status !== 'ACTIVE') {
+    failureReason = 'The employee is no longer active';
+  } else {
+    const result = await createAssignment({
+      employeeId: reservation.employeeId,
+      resourceId: reservation.resourceId,
+      assignmentType: 'SHARED',
+      notes: reservation.notes || `Reserved until ${reservation.endAt.toLocaleString()}`,
+    }, reservation.reservedById);
+
+    if (result.success && result.assignment) {
+      await prisma.resourceReservation.update({
+        where: { id: reservationId },
+        data: { assignmentId: result.assignment.id },
+      });
+
+      await logTimelineActivity({
+        entityType: 'RESOURCE',
+        entityId: reservation.resource.id,
+        activityType: 'RESERVATION_STARTED',
+        title: `${reservation.resource.name} assigned to ${reservation.employee.name} for their reservation`,
+        description: `Access ends ${reservation.endAt.toLocaleString()}`,
+        metadata: {
+          reservationId,
+          assignmentId: result.assignment.id,
+          endAt: reservation.endAt.toISOString(),
+        },
+        performedBy: actorId,
+        resourceId: reservation.resource.id,
+        employeeId: reservation.employee.id,
+      });
+
+      return 'started';
+    }
+
+    failureReason = result.error || 'The assignment could not be created';
+  }
+
+  await prisma.resourceReservation.update({
+    where: { id: reservationId },
+    data: { status: 'FAILED', failureReason },
+  });
+
+  const recipients = [reservation.employee, reservation.reservedBy]
+    .filter((person, index, all) => all.findIndex(other => other.id === person.id) === index);
+  for (const recipient of recipients) {
+    await sendMail({
+      to: recipient.email,
+      subject: `Reservation could not start: ${reservation.resource.name}`,
+      text: [
+        `Hi ${recipient.name},`,
+        '',
+        `The reservation of ${reservation.resource.name} for ${reservation.employee.name} (${formatWindow(reservation)}) could not be started:`,
+        failureReason,
+        '',
+        `Please contact ${reservation.resource.custodian.name} if you still need it.`,
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: reservation.resource.id,
+    activityType: 'RESERVATION_FAILED',
+    title: `Reservation for ${reservation.employee.name} could not start`,
+    description: failureReason,
+    metadata: { reservationId, startAt: reservation.startAt.toISOString() },
+    performedBy: actorId,
+    resourceId: reservation.resource.id,
+    employeeId: reservation.employee.id,
+  });
+
+  return 'failed';
+}
+
+/**
+ * One pass over reservations: close the ones whose window is over or whose assignment was
+ * already returned, then start the ones whose window has begun. Closing first frees the
+ * seat for a booking that starts the moment the previous one ends.
+ */
+export async function runReservationSweep(options: ReservationSweepOptions = {}): Promise<ReservationSweepResult> {
+  const now = options.now || new Date();
+  const result: ReservationSweepResult = { started: 0, failed: 0, ended: 0 };
+
+  const finished = await prisma.resourceReservation.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: [
+        { endAt: { lte: now } },
+        { assignment: { is: null } },
+        { assignment: { is: { status: { not: 'ACTIVE' } } } },
+      ],
+    },
+    include: {
+      employee: { select: { id: true, name: true } },
+      resource: { select: { id: true, name: true } },
+      assignment: { select: { id: true, status: true } },
+    },
+  });
+
+  for (const reservation of finished) {
+    const claimed = await prisma.resourceReservation.updateMany({
+      where: { id: reservation.id, status: 'ACTIVE' },
+      data: { status: 'COMPLETED' },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const actorId = options.triggeredBy || reservation.reservedById;
+    const returnedEarly = reservation.assignment?.status !== 'ACTIVE';
+    if (!returnedEarly && reservation.assignment) {
+      await revokeAssignment(reservation.assignment.id, actorId, `Reservation ended ${reservation.endAt.toLocaleString()}`);
+    }
+    result.ended++;
+
+    await logTimelineActivity({
+      entityType: 'RESOURCE',
+      entityId: reservation.resource.id,
+      activityType: 'RESERVATION_ENDED',
+      title: `Reservation ended for ${reservation.employee.name}`,
+      description: returnedEarly
+        ? `${reservation.resource.name} was returned before the reservation ended`
+        : `Access to ${reservation.resource.name} was removed at the end of the reservation`,
+      metadata: {
+        reservationId: reservation.id,
+        assignmentId: reservation.assignment?.id || null,
+        endAt: reservation.endAt.toISOString(),
+        returnedEarly,
+      },
+      performedBy: actorId,
+      resourceId: reservation.resource.id,
+      employeeId: reservation.employee.id,
+    });
+  }
+
+  const due = await prisma.resourceReservation.findMany({
+    where: { status: 'BOOKED', startAt: { lte: now } },
+    select: { id: true },
+    orderBy: { startAt: 'asc' },
+  });
+
+  for (const { id } of due) {
+    const outcome = await startReservation(id, now, options.triggeredBy);
+    if (outcome === 'started') {
+      result.started++;
+    } else if (outcome === 'failed') {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -10,7 +10,9 @@
  * Requirements: 8.1, 8.4, 8.5, 8.6, 8.7, 8.8, 4.4, 5.4, 5.5
  */
 
+import { Prisma, ResourceStatus, ResourceType } from '@prisma/client';
 import { prisma } from './prisma';
+import { UserPermissions } from './permissions';
 import { 
   PropertyDefinition,
   PropertyDataType,
@@ -205,6 +207,67 @@ export async function getResources(options: {
   };
 }
 
+export interface ResourceCatalogFilters {
+  type?: string | null;
+  category?: string | null;
+  status?: string | null;
+  search?: string | null;
+  assignedTo?: string | null;
+}
+
+// Who is browsing the catalog, with the permissions that decide what they see
+export interface CatalogViewer {
+  id: string;
+  permissions: Pick<UserPermissions, 'canViewAllResources' | 'canViewAllEmployees'>;
+}
+
+/**
+ * Employee whose active assignments a catalog query is limited to: the requested employee
+ * for those who can view all resources and employees, the user themselves without
+ * permission to view all resources, otherwise nobody
+ */
+export function getCatalogAssigneeScope(
+  filters: ResourceCatalogFilters,
+  user: CatalogViewer
+): string | null {
+  if (!user.permissions.canViewAllResources) {
+    return user.id;
+  }
+  return filters.assignedTo && user.permissions.canViewAllEmployees ? filters.assignedTo : null;
+}
+
+/**
+ * Builds the resource filter shared by the catalog list and its exports
+ */
+export function buildResourceCatalogWhere(
+  filters: ResourceCatalogFilters,
+  user: CatalogViewer
+): Prisma.ResourceWhereInput {
+  const where: Prisma.ResourceWhereInput = {};
+  if (filters.type) where.type = filters.type as ResourceType;
+  if (filters.category) where.category = filters.category;
+  if (filters.status) where.status = filters.status as ResourceStatus;
+  if (filters.search) {
+    where.OR = [
+      { name: { contains: filters.search, mode: 'insensitive' } },
+      { description: { contains: filters.search, mode: 'insensitive' } },
+      { category: { contains: filters.search, mode: 'insensitive' } }
+    ];
+  }
+
+  const assigneeId = getCatalogAssigneeScope(filters, user);
+  if (assigneeId) {
+    where.assignments = {
+      some: {
+        employeeId: assigneeId,
+        status: 'ACTIVE'
+      }
+    };
+  }
+
+  return where;
+}
+
 /**
  * Updates a resource
  * Note: resourceTypeId and propertySchema cannot be changed after creation
@@ -273,9 +336,13 @@ export async function updateResource(
 /**
  * Locks the property schema for a resource
  * Requirements: 8.5 - Lock the property schema when the first resource item is created
+ * Pass a transaction client to lock it as part of a larger write.
  */
-export async function lockResourceSchema(resourceId: string): Promise<void> {
-  const resource = await prisma.resource.findUnique({
+export async function lockResourceSchema(
+  resourceId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const resource = await client.resource.findUnique({
     where: { id: resourceId },
   });
 
@@ -288,7 +355,7 @@ export async function lockResourceSchema(resourceId: string): Promise<void> {
     return;
   }
 
-  await prisma.resource.update({
+  await client.resource.update({
     where: { id: resourceId },
     data: { schemaLocked: true },
   });
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getGroupRequiredApprovals, resolveApprovalStages } from './roleAuth';
+
+const db = vi.hoisted(() => ({ employees: [] as { id: string; role: string; status: string }[] }));
+
+// An in-memory employee table, enough for approver lookups
+vi.mock('./prisma', () => ({
+  prisma: {
+    employee: {
+      findFirst: async ({ where }: { where: { role: string; status: string; id: { notIn: string[] } } }) => {
+        const match = db.employees.find(employee =>
+          employee.role === where.role && employee.status === where.status && !where.id.notIn.includes(employee.id));
+        return match ? { id: match.id } : null;
+      }
+    }
+  }
+}));
+vi.mock('./workflowTemplateService', () => ({ getTemplateRouting: async () => null }));
+
+const FINANCE = ['CFO', 'COO', 'ACCOUNTANT'];
+
+describe('getGroupRequiredApprovals', () => {
+  describe('ALL', () => {
+    it('needs every member to approve', () => {
+      expect(getGroupRequiredApprovals({ roles: ['CTO', 'SECURITY_ENGINEER'], rule: 'ALL' }, ['CTO', 'SECURITY_ENGINEER'])).toBe(2);
+    });
+
+    it('fails when a role has no available approver instead of lowering the bar', () => {
+      expect(() => getGroupRequiredApprovals({ roles: ['CTO', 'SECURITY_ENGINEER'], rule: 'ALL' }, ['CTO']))
+        .toThrow(/SECURITY_ENGINEER/);
+    });
+  });
+
+  describe('ANY', () => {
+    it('needs a single approval however many members resolved', () => {
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'ANY' }, FINANCE)).toBe(1);
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'ANY' }, ['COO'])).toBe(1);
+    });
+
+    it('fails when no role has an available approver', () => {
+      expect(() => getGroupRequiredApprovals({ roles: FINANCE, rule: 'ANY' }, [])).toThrow(/needs 1 approvers/);
+    });
+  });
+
+  describe('QUORUM', () => {
+    it('needs the configured number of approvals', () => {
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'QUORUM', required: 2 }, FINANCE)).toBe(2);
+    });
+
+    it('still meets its quorum when some roles are missing', () => {
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'QUORUM', required: 2 }, ['CFO', 'ACCOUNTANT'])).toBe(2);
+    });
+
+    it('fails when too few roles resolved to reach the quorum', () => {
+      expect(() => getGroupRequiredApprovals({ roles: FINANCE, rule: 'QUORUM', required: 2 }, ['CFO']))
+        .toThrow(/needs 2 approvers: only 1.*none for COO, ACCOUNTANT/);
+    });
+
+    it('needs at least one approval when no quorum is configured', () => {
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'QUORUM' }, FINANCE)).toBe(1);
+      expect(getGroupRequiredApprovals({ roles: FINANCE, rule: 'QUORUM', required: 0 }, FINANCE)).toBe(1);
+    });
+  });
+});
+
+describe('resolveApprovalStages', () => {
+  beforeEach(() => {
+    db.employees = [
+      { id: 'sysadmin', role: 'SYSTEM_ADMINISTRATOR', status: 'ACTIVE' },
+      { id: 'eng-manager', role: 'ENGINEERING_MANAGER', status: 'ACTIVE' },
+      { id: 'cto', role: 'CTO', status: 'ACTIVE' },
+      { id: 'developer', role: 'BACKEND_DEVELOPER', status: 'ACTIVE' }
+    ];
+  });
+
+  it('plans one stage per level of the chain for high-value hardware', async () => {
+    const stages = await resolveApprovalStages('IT_EQUIPMENT_REQUEST', 5000, 'developer');
+    expect(stages.map(stage => [stage.stageNumber, stage.approverId])).toEqual([
+      [1, 'sysadmin'],
+      [2, 'eng-manager'],
+      [3, 'cto']
+    ]);
+  });
+
+  it('fails instead of skipping a level nobody holds', async () => {
+    db.employees = db.employees.filter(employee => employee.role !== 'CTO');
+    await expect(resolveApprovalStages('IT_EQUIPMENT_REQUEST', 5000, 'developer'))
+      .rejects.toThrow(/No available approver other than the requester holds the CTO role required at stage 3/);
+  });
+
+  it('fails instead of skipping a level only the requester holds', async () => {
+    await expect(resolveApprovalStages('IT_EQUIPMENT_REQUEST', 5000, 'sysadmin'))
+      .rejects.toThrow(/SYSTEM_ADMINISTRATOR role required at stage 1/);
+  });
+
+  it('does not count inactive holders', async () => {
+    db.employees = db.employees.map(employee => employee.role === 'ENGINEERING_MANAGER' ? { ...employee, status: 'INACTIVE' } : employee);
+    await expect(resolveApprovalStages('IT_EQUIPMENT_REQUEST', 5000, 'developer')).rejects.toThrow(/ENGINEERING_MANAGER/);
+  });
+});
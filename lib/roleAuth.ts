@@ -1,5 +1,33 @@
 // lib/roleAuth.ts
 import { prisma } from './prisma';
+import { getRolesWithPermission } from './permissions';
+import { ensureRoleRegistry } from './roleService';
+import { getTemplateRouting } from './workflowTemplateService';
+import {
+  getAllManagerRoles,
+  getDepartmentHeadRoles,
+  canApproveExecutiveLevel,
+  canApproveITRequests,
+  canApproveFinancialRequests,
+  canApproveHRRequests,
+  canApproveSecurityRequests,
+  getFinancialApprovalLimit
+} from './roleAuthClient';
+
+// Tier and capability checks are shared with the client; they read the role registry
+export {
+  getExecutiveRoles,
+  getDepartmentHeadRoles,
+  getAllManagerRoles,
+  canApproveExecutiveLevel,
+  canApproveDepartmentLevel,
+  canApproveOperationalLevel,
+  canApproveITRequests,
+  canApproveFinancialRequests,
+  canApproveHRRequests,
+  canApproveSecurityRequests,
+  getFinancialApprovalLimit
+} from './roleAuthClient';
 
 export interface UserContext {
   id: string;
@@ -9,111 +37,88 @@ export interface UserContext {
   department: string;
 }
 
-// Define operational approval hierarchy
-export const EXECUTIVE_ROLES = ['CEO', 'CTO', 'CFO', 'COO'];
-export const DEPARTMENT_HEAD_ROLES = ['ENGINEERING_MANAGER', 'PRODUCT_MANAGER', 'SALES_MANAGER', 'HR_MANAGER', 'MARKETING_MANAGER'];
-export const OPERATIONAL_MANAGER_ROLES = ['SYSTEM_ADMINISTRATOR', 'SECURITY_ENGINEER'];
-export const ALL_MANAGER_ROLES = [...EXECUTIVE_ROLES, ...DEPARTMENT_HEAD_ROLES, ...OPERATIONAL_MANAGER_ROLES];
-
-// Operational approval functions
-export function canApproveExecutiveLevel(role: string): boolean {
-  return EXECUTIVE_ROLES.includes(role);
+// Amounts above which a workflow type needs more senior approval, lowest first.
+// Both the single approver and the multi-stage chain are chosen by the band an amount falls in.
+export const APPROVAL_AMOUNT_THRESHOLDS: Record<string, number[]> = {
+  IT_EQUIPMENT_REQUEST: [500, 2000],
+  SOFTWARE_LICENSE_REQUEST: [500, 2000],
+  CLOUD_SERVICE_REQUEST: [500, 2000],
+  EXPENSE_APPROVAL_REQUEST: [1000, 5000],
+  BUDGET_REQUEST: [1000, 5000],
+  VENDOR_CONTRACT_REQUEST: [10000]
+};
+
+// 0 for amounts up to the first threshold, 1 above it, and so on
+export function getApprovalAmountBand(workflowType: string, amount: number = 0): number {
+  return (APPROVAL_AMOUNT_THRESHOLDS[workflowType] || []).filter(threshold => amount > threshold).length;
 }
 
-export function canApproveDepartmentLevel(role: string): boolean {
-  return [...EXECUTIVE_ROLES, ...DEPARTMENT_HEAD_ROLES].includes(role);
-}
+// Get the candidate approver roles for a single-stage operational workflow.
+// Call ensureRoleRegistry() first so roles added by admins are considered.
+export function getOperationalApproverRoles(workflowType: string, amount: number = 0): string[] {
+  const band = getApprovalAmountBand(workflowType, amount);
 
-export function canApproveOperationalLevel(role: string): boolean {
-  return ALL_MANAGER_ROLES.includes(role);
-}
+  switch (workflowType) {
+    case 'IT_EQUIPMENT_REQUEST':
+    case 'SOFTWARE_LICENSE_REQUEST':
+    case 'CLOUD_SERVICE_REQUEST':
+      if (band >= 2) {
+        return ['CTO']; // High-value IT purchases
+      } else if (band === 1) {
+        return ['ENGINEERING_MANAGER', 'CTO']; // Medium-value purchases
+      }
+      return getRolesWithPermission('canApproveITRequests'); // Low-value purchases
 
-export function canApproveITRequests(role: string): boolean {
-  return ['CTO', 'SYSTEM_ADMINISTRATOR', 'ENGINEERING_MANAGER'].includes(role);
-}
+    case 'ACCESS_REQUEST':
+      return ['ENGINEERING_MANAGER', 'SYSTEM_ADMINISTRATOR', 'CTO', 'CEO'];
 
-export function canApproveFinancialRequests(role: string): boolean {
-  return ['CEO', 'CFO'].includes(role);
-}
+    case 'ELEVATED_ACCESS_REQUEST':
+    case 'SYSTEM_ADMIN_REQUEST':
+      return getRolesWithPermission('canApproveSecurityRequests');
 
-export function canApproveHRRequests(role: string): boolean {
-  return ['CEO', 'HR_MANAGER'].includes(role);
-}
+    case 'POLICY_UPDATE_REQUEST':
+    case 'PROCEDURE_CHANGE_REQUEST':
+      return ['HR_MANAGER', 'CEO', 'CTO', 'ADMIN']; // Added CTO and ADMIN as fallbacks
+
+    case 'EXPENSE_APPROVAL_REQUEST':
+    case 'BUDGET_REQUEST':
+      if (band >= 2) {
+        return getRolesWithPermission('canApproveFinancialRequests'); // High-value expenses
+      } else if (band === 1) {
+        return ['ENGINEERING_MANAGER', 'SALES_MANAGER', 'MARKETING_MANAGER', 'CTO', 'CEO']; // Department heads
+      }
+      return [...getAllManagerRoles(), 'CTO', 'CEO']; // Any manager
+
+    case 'HIRING_REQUEST':
+    case 'ROLE_CHANGE_REQUEST':
+      return getRolesWithPermission('canApproveHRRequests');
+
+    case 'VENDOR_CONTRACT_REQUEST':
+      if (band >= 1) {
+        return ['CEO']; // Major contracts
+      }
+      return getRolesWithPermission('canApproveFinancialRequests'); // Standard contracts
 
-export function canApproveSecurityRequests(role: string): boolean {
-  return ['CTO', 'SECURITY_ENGINEER'].includes(role);
+    default:
+      return [...getDepartmentHeadRoles(), 'CTO', 'CEO']; // Default to department heads + executives
+  }
 }
 
 // Get appropriate approver based on operational workflow type and amount
 export async function getOperationalApprover(workflowType: string, amount: number = 0, requesterId: string): Promise<string | null> {
   try {
-    let approverRoles: string[] = [];
-
-    // Determine approver roles based on workflow type and amount
-    switch (workflowType) {
-      case 'IT_EQUIPMENT_REQUEST':
-      case 'SOFTWARE_LICENSE_REQUEST':
-      case 'CLOUD_SERVICE_REQUEST':
-        if (amount > 2000) {
-          approverRoles = ['CTO']; // High-value IT purchases
-        } else if (amount > 500) {
-          approverRoles = ['ENGINEERING_MANAGER', 'CTO']; // Medium-value purchases
-        } else {
-          approverRoles = ['SYSTEM_ADMINISTRATOR', 'ENGINEERING_MANAGER', 'CTO']; // Low-value purchases
-        }
-        break;
-
-      case 'ACCESS_REQUEST':
-        approverRoles = ['ENGINEERING_MANAGER', 'SYSTEM_ADMINISTRATOR', 'CTO', 'CEO'];
-        break;
-
-      case 'ELEVATED_ACCESS_REQUEST':
-      case 'SYSTEM_ADMIN_REQUEST':
-        approverRoles = ['CTO', 'SECURITY_ENGINEER'];
-        break;
-
-      case 'POLICY_UPDATE_REQUEST':
-      case 'PROCEDURE_CHANGE_REQUEST':
-        approverRoles = ['HR_MANAGER', 'CEO', 'CTO', 'ADMIN']; // Added CTO and ADMIN as fallbacks
-        break;
-
-      case 'EXPENSE_APPROVAL_REQUEST':
-      case 'BUDGET_REQUEST':
-        if (amount > 5000) {
-          approverRoles = ['CFO', 'CEO']; // High-value expenses
-        } else if (amount > 1000) {
-          approverRoles = ['ENGINEERING_MANAGER', 'SALES_MANAGER', 'MARKETING_MANAGER', 'CTO', 'CEO']; // Department heads
-        } else {
-          approverRoles = [...ALL_MANAGER_ROLES, 'CTO', 'CEO']; // Any manager
-        }
-        break;
-
-      case 'HIRING_REQUEST':
-      case 'ROLE_CHANGE_REQUEST':
-        approverRoles = ['HR_MANAGER', 'CEO'];
-        break;
-
-      case 'VENDOR_CONTRACT_REQUEST':
-        if (amount > 10000) {
-          approverRoles = ['CEO']; // Major contracts
-        } else {
-          approverRoles = ['CFO', 'CEO']; // Standard contracts
-        }
-        break;
-
-      default:
-        approverRoles = [...DEPARTMENT_HEAD_ROLES, 'CTO', 'CEO']; // Default to department heads + executives
-    }
+    await ensureRoleRegistry();
+    const approverRoles = getOperationalApproverRoles(workflowType, amount);
 
     // Find available approver (excluding requester)
     let approvers = await prisma.employee.findMany({
       where: {
-        role: { in: approverRoles as any },
+        role: { in: approverRoles },
         status: 'ACTIVE',
         id: { not: requesterId }
       },
       orderBy: [
-        { role: 'asc' }, // Prefer higher roles
+        { roleDefinition: { tier: 'asc' } }, // Prefer higher roles
         { createdAt: 'asc' }
       ],
       take: 1
@@ -123,7 +128,7 @@ export async function getOperationalApprover(workflowType: string, amount: numbe
     if (approvers.length === 0 && workflowType === 'POLICY_UPDATE_REQUEST') {
       approvers = await prisma.employee.findMany({
         where: {
-          role: { in: approverRoles as any },
+          role: { in: approverRoles },
           status: 'ACTIVE',
           id: requesterId // Allow the requester to approve their own policy
         },
@@ -151,6 +156,7 @@ export async function checkOperationalPermission(userId: string, action: string,
     }
 
     const amount = context?.amount || 0;
+    await ensureRoleRegistry();
 
     switch (action) {
       case 'approve_it_requests':
@@ -174,20 +180,6 @@ export async function checkOperationalPermission(userId: string, action: string,
   }
 }
 
-// Get financial approval limits by role
-function getFinancialApprovalLimit(role: string): number {
-  switch (role) {
-    case 'CEO': return Infinity;
-    case 'CFO': return 50000;
-    case 'CTO': return 25000;
-    case 'ENGINEERING_MANAGER': return 10000;
-    case 'SALES_MANAGER': return 10000;
-    case 'MARKETING_MANAGER': return 10000;
-    case 'HR_MANAGER': return 5000;
-    default: return 1000;
-  }
-}
-
 // Get operational user context with department info
 export async function getOperationalUserContext(userId: string): Promise<UserContext | null> {
   try {
@@ -220,15 +212,58 @@ export async function getOperationalUserContext(userId: string): Promise<UserCon
   }
 }
 
-// Get approval chain for complex workflows
-export async function getApprovalChain(workflowType: string, amount: number = 0): Promise<string[]> {
-  const chain: string[] = [];
+// How many members of a parallel approver group must approve before the workflow moves on
+export type ApprovalCompletionRule = 'ALL' | 'ANY' | 'QUORUM';
+
+// Roles that decide one stage together, one approver per listed role
+export interface ParallelApprovalGroup {
+  roles: string[];
+  rule: ApprovalCompletionRule;
+  required?: number; // QUORUM: approvals needed
+  vetoOnRejection?: boolean; // defaults to true; otherwise the group only fails once it can no longer reach its rule
+}
+
+// One stage of an approval chain: a single role, or a group deciding in parallel
+export type ApprovalChainStep = string | ParallelApprovalGroup;
+
+export function getChainStepRoles(step: ApprovalChainStep): string[] {
+  return typeof step === 'string' ? [step] : step.roles;
+}
+
+// Chains that cannot be staffed throw errors starting with this, so routes can show the reason
+export const NO_APPROVER_ERROR = 'No available approver';
+
+// Approvals a parallel group needs, given the roles that resolved to an active approver.
+// Throws when the group cannot meet its rule instead of quietly lowering the bar.
+export function getGroupRequiredApprovals(group: ParallelApprovalGroup, resolvedRoles: string[]): number {
+  const missing = group.roles.filter(role => !resolvedRoles.includes(role));
+
+  if (group.rule === 'ALL') {
+    if (missing.length > 0) {
+      throw new Error(`${NO_APPROVER_ERROR} holds the ${missing.join(', ')} role required by an approval group where all must approve`);
+    }
+    return resolvedRoles.length;
+  }
+
+  const required = group.rule === 'ANY' ? 1 : Math.max(group.required || 1, 1);
+  if (resolvedRoles.length < required) {
+    throw new Error(`${NO_APPROVER_ERROR} for an approval group that needs ${required} approvers: only ${resolvedRoles.length} of its roles have an available holder${missing.length > 0 ? ` (none for ${missing.join(', ')})` : ''}`);
+  }
+  return required;
+}
+
+// Get approval chain for complex workflows.
+// Returns the ordered stages that must sign off; an empty chain means the workflow
+// is decided by a single approver from getOperationalApproverRoles.
+export async function getApprovalChain(workflowType: string, amount: number = 0): Promise<ApprovalChainStep[]> {
+  const chain: ApprovalChainStep[] = [];
+  const band = getApprovalAmountBand(workflowType, amount);
 
   switch (workflowType) {
     case 'IT_EQUIPMENT_REQUEST':
-      if (amount > 2000) {
+      if (band >= 2) {
         chain.push('SYSTEM_ADMINISTRATOR', 'ENGINEERING_MANAGER', 'CTO');
-      } else if (amount > 500) {
+      } else if (band === 1) {
         chain.push('SYSTEM_ADMINISTRATOR', 'ENGINEERING_MANAGER');
       } else {
         chain.push('SYSTEM_ADMINISTRATOR');
@@ -240,18 +275,98 @@ export async function getApprovalChain(workflowType: string, amount: number = 0)
       break;
 
     case 'VENDOR_CONTRACT_REQUEST':
-      if (amount > 10000) {
-        chain.push('CFO', 'CEO');
+      if (band >= 1) {
+        // Large contracts need two of the three finance approvers before the CEO signs
+        chain.push({ roles: ['CFO', 'COO', 'ACCOUNTANT'], rule: 'QUORUM', required: 2 }, 'CEO');
       } else {
         chain.push('CFO');
       }
       break;
 
-    default:
-      // Single approver for most workflows
-      const approver = await getOperationalApprover(workflowType, amount, '');
-      if (approver) chain.push(approver);
+    case 'ELEVATED_ACCESS_REQUEST':
+      chain.push({ roles: ['CTO', 'SECURITY_ENGINEER'], rule: 'ALL' });
+      break;
   }
 
   return chain;
-}
\ No newline at end of file
+}
+
+export interface ApprovalStagePlan {
+  stageNumber: number;
+  approverRole: string | null;
+  approverId: string;
+  completionRule: ApprovalCompletionRule;
+  requiredApprovals: number;
+  vetoOnRejection: boolean;
+}
+
+// Number of distinct stages in a workflow; the members of a parallel group share one stage
+export function countApprovalStages(stages: { stageNumber: number }[]): number {
+  return new Set(stages.map(stage => stage.stageNumber)).size;
+}
+
+// Resolve the approval chain to concrete approvers, one per role. A matching routing rule of
+// the workflow type's template replaces the built-in chain.
+// Every level of the chain must be staffed: a single role with no active holder other than the
+// requester, or a group that cannot meet its rule, fails the request rather than letting it through
+// with fewer reviews than policy requires. Types without a chain go to a single operational approver.
+export async function resolveApprovalStages(workflowType: string, amount: number = 0, requesterId: string): Promise<ApprovalStagePlan[]> {
+  const templateRouting = await getTemplateRouting(workflowType, amount, requesterId);
+  const chain: ApprovalChainStep[] = templateRouting?.approverRoles?.length
+    ? templateRouting.approverRoles
+    : await getApprovalChain(workflowType, amount);
+  const stages: ApprovalStagePlan[] = [];
+  const usedApproverIds: string[] = [];
+  let stageNumber = 0;
+
+  for (const step of chain) {
+    const members: { role: string; approverId: string }[] = [];
+
+    for (const role of getChainStepRoles(step)) {
+      const approver = await prisma.employee.findFirst({
+        where: {
+          role,
+          status: 'ACTIVE',
+          id: { notIn: [requesterId, ...usedApproverIds] }
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true }
+      });
+
+      if (approver) {
+        usedApproverIds.push(approver.id);
+        members.push({ role, approverId: approver.id });
+      }
+    }
+
+    stageNumber++;
+
+    const group = typeof step === 'string' ? null : step;
+    if (!group && members.length === 0) {
+      throw new Error(`${NO_APPROVER_ERROR} other than the requester holds the ${step} role required at stage ${stageNumber} of this request's approval chain`);
+    }
+    const requiredApprovals = group
+      ? getGroupRequiredApprovals(group, members.map(member => member.role))
+      : members.length;
+
+    for (const member of members) {
+      stages.push({
+        stageNumber,
+        approverRole: member.role,
+        approverId: member.approverId,
+        completionRule: group?.rule || 'ALL',
+        requiredApprovals,
+        vetoOnRejection: group?.vetoOnRejection ?? true
+      });
+    }
+  }
+
+  if (stages.length === 0) {
+    const approverId = await getOperationalApprover(workflowType, amount, requesterId);
+    if (approverId) {
+      stages.push({ stageNumber: 1, approverRole: null, approverId, completionRule: 'ALL', requiredApprovals: 1, vetoOnRejection: true });
+    }
+  }
+
+  return stages;
+}
@@ -1,52 +1,57 @@
 // lib/roleAuthClient.ts - Client-safe role authorization functions
+// Role tiers, approval capabilities and limits come from the role registry in lib/permissions.ts
 
-// Define operational approval hierarchy
-export const EXECUTIVE_ROLES = ['CEO', 'CTO', 'CFO', 'COO'];
-export const DEPARTMENT_HEAD_ROLES = ['ENGINEERING_MANAGER', 'PRODUCT_MANAGER', 'SALES_MANAGER', 'HR_MANAGER', 'MARKETING_MANAGER'];
-export const OPERATIONAL_MANAGER_ROLES = ['SYSTEM_ADMINISTRATOR', 'SECURITY_ENGINEER'];
-export const ALL_MANAGER_ROLES = [...EXECUTIVE_ROLES, ...DEPARTMENT_HEAD_ROLES, ...OPERATIONAL_MANAGER_ROLES];
+import { getRoleDefinition, getRolesByTier, getUserPermissions } from './permissions';
+
+// Operational approval hierarchy
+export function getExecutiveRoles(): string[] {
+  return getRolesByTier('EXECUTIVE');
+}
+
+export function getDepartmentHeadRoles(): string[] {
+  return getRolesByTier('DEPARTMENT_HEAD');
+}
+
+export function getAllManagerRoles(): string[] {
+  return getRolesByTier('EXECUTIVE', 'DEPARTMENT_HEAD', 'OPERATIONAL_MANAGER');
+}
 
 // Operational approval functions (client-safe)
 export function canApproveExecutiveLevel(role: string): boolean {
-  return EXECUTIVE_ROLES.includes(role);
+  return getExecutiveRoles().includes(role);
 }
 
 export function canApproveDepartmentLevel(role: string): boolean {
-  return [...EXECUTIVE_ROLES, ...DEPARTMENT_HEAD_ROLES].includes(role);
+  return getRolesByTier('EXECUTIVE', 'DEPARTMENT_HEAD').includes(role);
 }
 
 export function canApproveOperationalLevel(role: string): boolean {
-  return ALL_MANAGER_ROLES.includes(role);
+  return getAllManagerRoles().includes(role);
 }
 
 export function canApproveITRequests(role: string): boolean {
-  return ['CTO', 'SYSTEM_ADMINISTRATOR', 'ENGINEERING_MANAGER'].includes(role);
+  return getUserPermissions(role).canApproveITRequests;
 }
 
 export function canApproveFinancialRequests(role: string): boolean {
-  return ['CEO', 'CFO'].includes(role);
+  return getUserPermissions(role).canApproveFinancialRequests;
 }
 
 export function canApproveHRRequests(role: string): boolean {
-  return ['CEO', 'HR_MANAGER'].includes(role);
+  return getUserPermissions(role).canApproveHRRequests;
 }
 
 export function canApproveSecurityRequests(role: string): boolean {
-  return ['CTO', 'SECURITY_ENGINEER'].includes(role);
+  return getUserPermissions(role).canApproveSecurityRequests;
 }
 
-// Get financial approval limits by role (client-safe)
+// Get financial approval limits by role (client-safe); a role without a limit may approve any amount
 export function getFinancialApprovalLimit(role: string): number {
-  switch (role) {
-    case 'CEO': return Infinity;
-    case 'CFO': return 50000;
-    case 'CTO': return 25000;
-    case 'ENGINEERING_MANAGER': return 10000;
-    case 'SALES_MANAGER': return 10000;
-    case 'MARKETING_MANAGER': return 10000;
-    case 'HR_MANAGER': return 5000;
-    default: return 1000;
+  const definition = getRoleDefinition(role);
+  if (!definition) {
+    return 0;
   }
+  return definition.approvalLimit ?? Infinity;
 }
 
 // Get approval chain for complex workflows (client-safe)
@@ -88,4 +93,4 @@ export function getApprovalChainRoles(workflowType: string, amount: number = 0):
   }
 
   return chain;
-}
\ No newline at end of file
+}
@@ -0,0 +1,550 @@
+/**
+ * Role Service
+ * Roles, the role × permission matrix and per-employee permission grants, stored in the
+ * database and edited by admins. Every change is written to the audit log. The sync helpers
+ * in lib/permissions.ts read a registry snapshot that this service keeps fresh.
+ */
+
+import { Prisma, RoleTier } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import {
+  getUserPermissions,
+  isPermissionKey,
+  PermissionKey,
+  RoleDefinitionSnapshot,
+  setRoleRegistry,
+  UserPermissions
+} from './permissions';
+
+export const ROLE_TIERS: RoleTier[] = ['EXECUTIVE', 'DEPARTMENT_HEAD', 'OPERATIONAL_MANAGER', 'STAFF'];
+
+// How long a loaded registry is trusted before it is read again; changes made through
+// this service refresh it immediately
+const ROLE_REGISTRY_TTL_MS = 30 * 1000;
+
+const ROLE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{1,49}$/;
+
+const globalForRoleService = globalThis as unknown as {
+  roleRegistryLoadedAt?: number;
+  roleRegistryLoading?: Promise<void>;
+};
+
+export interface RoleInput {
+  key?: string;
+  name?: string;
+  description?: string | null;
+  tier?: string;
+  isAdmin?: boolean;
+  approvalLimit?: number | null;
+  permissions?: string[];
+  copyFrom?: string;
+}
+
+export interface PermissionGrantInput {
+  permission: string;
+  granted: boolean;
+  reason?: string | null;
+  expiresAt?: string | Date | null;
+}
+
+export interface RoleResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+type Actor = { id: string };
+
+function toSnapshot(role: Prisma.RoleDefinitionGetPayload<{ include: { permissions: true } }>): RoleDefinitionSnapshot {
+  return {
+    key: role.key,
+    name: role.name,
+    description: role.description,
+    tier: role.tier,
+    isAdmin: role.isAdmin,
+    approvalLimit: role.approvalLimit,
+    isSystem: role.isSystem,
+    permissions: role.permissions.map(p => p.permission).filter(isPermissionKey)
+  };
+}
+
+async function loadRoleRegistry(): Promise<void> {
+  const roles = await prisma.roleDefinition.findMany({
+    include: { permissions: true },
+    orderBy: { key: 'asc' }
+  });
+
+  // An unmigrated database keeps the built-in defaults
+  if (roles.length > 0) {
+    setRoleRegistry(roles.map(toSnapshot));
+  }
+  globalForRoleService.roleRegistryLoadedAt = Date.now();
+}
+
+/**
+ * Make sure the registry behind lib/permissions.ts reflects the database.
+ * Call before using the sync permission helpers on the server.
+ */
+export async function ensureRoleRegistry(force = false): Promise<void> {
+  const loadedAt = globalForRoleService.roleRegistryLoadedAt;
+  if (!force && loadedAt && Date.now() - loadedAt < ROLE_REGISTRY_TTL_MS) {
+    return;
+  }
+
+  if (!globalForRoleService.roleRegistryLoading) {
+    globalForRoleService.roleRegistryLoading = loadRoleRegistry()
+      .catch(error => {
+        console.error('Failed to load role registry:', error);
+      })
+      .finally(() => {
+        globalForRoleService.roleRegistryLoading = undefined;
+      });
+  }
+  await globalForRoleService.roleRegistryLoading;
+}
+
+function activeGrantFilter(): Prisma.EmployeePermissionGrantWhereInput {
+  return { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] };
+}
+
+export async function getEmployeePermissionGrants(employeeId: string) {
+  return prisma.employeePermissionGrant.findMany({
+    where: { employeeId, ...activeGrantFilter() },
+    include: { grantedBy: { select: { id: true, name: true } } },
+    orderBy: { permission: 'asc' }
+  });
+}
+
+/**
+ * Permissions an employee actually has: their role's row of the matrix plus any
+ * unexpired per-employee grants
+ */
+export async function getEffectivePermissions(employeeId: string, role: string): Promise<UserPermissions> {
+  await ensureRoleRegistry();
+  const grants = await prisma.employeePermissionGrant.findMany({
+    where: { employeeId, ...activeGrantFilter() },
+    select: { permission: true, granted: true }
+  });
+  return getUserPermissions(role, grants);
+}
+
+export async function roleExists(key: string): Promise<boolean> {
+  const role = await prisma.roleDefinition.findUnique({ where: { key }, select: { key: true } });
+  return !!role;
+}
+
+export async function listRoles() {
+  const roles = await prisma.roleDefinition.findMany({
+    include: {
+      permissions: true,
+      _count: { select: { employees: true } }
+    },
+    orderBy: [{ tier: 'asc' }, { name: 'asc' }]
+  });
+
+  return roles.map(role => ({ ...toSnapshot(role), employeeCount: role._count.employees }));
+}
+
+function validateRoleFields(input: RoleInput): RoleResult | null {
+  if (input.name !== undefined && !input.name.trim()) {
+    return { success: false, error: 'Role name is required', errorCode: 'NAME_REQUIRED' };
+  }
+  if (input.tier !== undefined && !ROLE_TIERS.includes(input.tier as RoleTier)) {
+    return { success: false, error: `Tier must be one of ${ROLE_TIERS.join(', ')}`, errorCode: 'INVALID_TIER' };
+  }
+  if (input.approvalLimit !== undefined && input.approvalLimit !== null &&
+      (typeof input.approvalLimit !== 'number' || isNaN(input.approvalLimit) || input.approvalLimit < 0)) {
+    return { success: false, error: 'Approval limit must be a non-negative number', errorCode: 'INVALID_LIMIT' };
+  }
+  if (input.permissions !== undefined) {
+    const unknown = input.permissions.filter(permission => !isPermissionKey(permission));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown permission(s): ${unknown.join(', ')}`, errorCode: 'INVALID_PERMISSION' };
+    }
+  }
+  return null;
+}
+
+/**
+ * True when at least one active employee would still be able to manage roles if the
+ * given role held `rolePermissions` (or, for a grant change, if `employeeId` lost their grant)
+ */
+async function roleManagementRemains(change: { roleKey?: string; rolePermissions?: string[]; revokedGrantEmployeeId?: string }): Promise<boolean> {
+  const managerRoles = await prisma.rolePermission.findMany({
+    where: { permission: 'canManageRoles' },
+    select: { roleKey: true }
+  });
+
+  let roleKeys = managerRoles.map(r => r.roleKey);
+  if (change.roleKey) {
+    roleKeys = roleKeys.filter(key => key !== change.roleKey);
+    if (change.rolePermissions?.includes('canManageRoles')) {
+      roleKeys.push(change.roleKey);
+    }
+  }
+
+  const count = await prisma.employee.count({
+    where: {
+      status: 'ACTIVE',
+      OR: [
+        { role: { in: roleKeys } },
+        {
+          permissionGrants: {
+            some: {
+              permission: 'canManageRoles',
+              granted: true,
+              ...activeGrantFilter(),
+              ...(change.revokedGrantEmployeeId ? { employeeId: { not: change.revokedGrantEmployeeId } } : {})
+            }
+          }
+        }
+      ]
+    }
+  });
+
+  return count > 0;
+}
+
+export async function createRole(input: RoleInput, actor: Actor): Promise<RoleResult & { role?: RoleDefinitionSnapshot }> {
+  const key = (input.key || '').trim().toUpperCase();
+  const name = (input.name || '').trim();
+
+  if (!ROLE_KEY_PATTERN.test(key)) {
+    return {
+      success: false,
+      error: 'Role key must start with a letter and contain only A-Z, 0-9 and underscores',
+      errorCode: 'INVALID_KEY'
+    };
+  }
+  if (!name) {
+    return { success: false, error: 'Role name is required', errorCode: 'NAME_REQUIRED' };
+  }
+
+  const invalid = validateRoleFields(input);
+  if (invalid) {
+    return invalid;
+  }
+
+  if (await roleExists(key)) {
+    return { success: false, error: `Role ${key} already exists`, errorCode: 'ROLE_EXISTS' };
+  }
+
+  let permissions = input.permissions || [];
+  if (input.copyFrom) {
+    const source = await prisma.roleDefinition.findUnique({
+      where: { key: input.copyFrom },
+      include: { permissions: true }
+    });
+    if (!source) {
+      return { success: false, error: 'Role to copy permissions from not found', errorCode: 'ROLE_NOT_FOUND' };
+    }
+    permissions = source.permissions.map(p => p.permission);
+  }
+  permissions = Array.from(new Set(permissions));
+
+  const role = await prisma.roleDefinition.create({
+    data: {
+      key,
+      name,
+      description: input.description?.trim() || null,
+      tier: (input.tier as RoleTier) || 'STAFF',
+      isAdmin: input.isAdmin ?? false,
+      approvalLimit: input.approvalLimit ?? null,
+      permissions: {
+        create: permissions.map(permission => ({ permission }))
+      }
+    },
+    include: { permissions: true }
+  });
+
+  await logAudit({
+    entityType: 'ROLE',
+    entityId: key,
+    changedById: actor.id,
+    fieldChanged: 'role_created',
+    oldValue: null,
+    newValue: JSON.stringify({
+      name: role.name,
+      tier: role.tier,
+      isAdmin: role.isAdmin,
+      approvalLimit: role.approvalLimit,
+      permissions
+    })
+  });
+
+  await ensureRoleRegistry(true);
+  return { success: true, role: toSnapshot(role) };
+}
+
+/**
+ * Update a role's attributes and/or its row of the permission matrix.
+ * Each changed attribute and each granted or removed permission is audited separately.
+ */
+export async function updateRole(key: string, input: RoleInput, actor: Actor): Promise<RoleResult & { role?: RoleDefinitionSnapshot }> {
+  const existing = await prisma.roleDefinition.findUnique({
+    where: { key },
+    include: { permissions: true }
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Role not found', errorCode: 'ROLE_NOT_FOUND' };
+  }
+
+  const invalid = validateRoleFields(input);
+  if (invalid) {
+    return invalid;
+  }
+
+  const currentPermissions = existing.permissions.map(p => p.permission);
+  const nextPermissions = input.permissions ? Array.from(new Set(input.permissions)) : currentPermissions;
+  const added = nextPermissions.filter(p => !currentPermissions.includes(p));
+  const removed = currentPermissions.filter(p => !nextPermissions.includes(p));
+
+  if (removed.includes('canManageRoles') && !(await roleManagementRemains({ roleKey: key, rolePermissions: nextPermissions }))) {
+    return {
+      success: false,
+      error: 'At least one active employee must keep permission to manage roles',
+      errorCode: 'LAST_ROLE_MANAGER'
+    };
+  }
+
+  const fieldChanges: Array<{ field: string; oldValue: unknown; newValue: unknown }> = [];
+  const data: Prisma.RoleDefinitionUpdateInput = {};
+
+  if (input.name !== undefined && input.name.trim() !== existing.name) {
+    data.name = input.name.trim();
+    fieldChanges.push({ field: 'name', oldValue: existing.name, newValue: data.name });
+  }
+  if (input.description !== undefined && (input.description?.trim() || null) !== existing.description) {
+    data.description = input.description?.trim() || null;
+    fieldChanges.push({ field: 'description', oldValue: existing.description, newValue: data.description });
+  }
+  if (input.tier !== undefined && input.tier !== existing.tier) {
+    data.tier = input.tier as RoleTier;
+    fieldChanges.push({ field: 'tier', oldValue: existing.tier, newValue: input.tier });
+  }
+  if (input.isAdmin !== undefined && input.isAdmin !== existing.isAdmin) {
+    data.isAdmin = input.isAdmin;
+    fieldChanges.push({ field: 'isAdmin', oldValue: existing.isAdmin, newValue: input.isAdmin });
+  }
+  if (input.approvalLimit !== undefined && input.approvalLimit !== existing.approvalLimit) {
+    data.approvalLimit = input.approvalLimit;
+    fieldChanges.push({ field: 'approvalLimit', oldValue: existing.approvalLimit, newValue: input.approvalLimit });
+  }
+
+  const role = await prisma.$transaction(async (tx) => {
+    if (removed.length > 0) {
+      await tx.rolePermission.deleteMany({ where: { roleKey: key, permission: { in: removed } } });
+    }
+    if (added.length > 0) {
+      await tx.rolePermission.createMany({ data: added.map(permission => ({ roleKey: key, permission })) });
+    }
+    return tx.roleDefinition.update({
+      where: { key },
+      data,
+      include: { permissions: true }
+    });
+  });
+
+  for (const change of fieldChanges) {
+    await logAudit({
+      entityType: 'ROLE',
+      entityId: key,
+      changedById: actor.id,
+      fieldChanged: change.field,
+      oldValue: change.oldValue === null || change.oldValue === undefined ? null : String(change.oldValue),
+      newValue: change.newValue === null || change.newValue === undefined ? null : String(change.newValue)
+    });
+  }
+  for (const permission of added) {
+    await logAudit({
+      entityType: 'ROLE',
+      entityId: key,
+      changedById: actor.id,
+      fieldChanged: `permission:${permission}`,
+      oldValue: 'denied',
+      newValue: 'granted'
+    });
+  }
+  for (const permission of removed) {
+    await logAudit({
+      entityType: 'ROLE',
+      entityId: key,
+      changedById: actor.id,
+      fieldChanged: `permission:${permission}`,
+      oldValue: 'granted',
+      newValue: 'denied'
+    });
+  }
+
+  await ensureRoleRegistry(true);
+  return { success: true, role: toSnapshot(role) };
+}
+
+/**
+ * Delete a custom role. Built-in roles and roles still held by employees are kept.
+ */
+export async function deleteRole(key: string, actor: Actor): Promise<RoleResult> {
+  const existing = await prisma.roleDefinition.findUnique({
+    where: { key },
+    include: { permissions: true, _count: { select: { employees: true } } }
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Role not found', errorCode: 'ROLE_NOT_FOUND' };
+  }
+  if (existing.isSystem) {
+    return { success: false, error: 'Built-in roles cannot be deleted', errorCode: 'SYSTEM_ROLE' };
+  }
+  if (existing._count.employees > 0) {
+    return {
+      success: false,
+      error: `${existing._count.employees} employee(s) still hold this role; reassign them first`,
+      errorCode: 'ROLE_IN_USE'
+    };
+  }
+
+  await prisma.roleDefinition.delete({ where: { key } });
+
+  await logAudit({
+    entityType: 'ROLE',
+    entityId: key,
+    changedById: actor.id,
+    fieldChanged: 'role_deleted',
+    oldValue: JSON.stringify({
+      name: existing.name,
+      tier: existing.tier,
+      permissions: existing.permissions.map(p => p.permission)
+    }),
+    newValue: null
+  });
+
+  await ensureRoleRegistry(true);
+  return { success: true };
+}
+
+/**
+ * Grant or withhold one permission for a single employee, replacing any earlier grant
+ * for the same permission
+ */
+export async function setEmployeePermissionGrant(
+  employeeId: string,
+  input: PermissionGrantInput,
+  actor: Actor
+): Promise<RoleResult> {
+  if (!isPermissionKey(input.permission)) {
+    return { success: false, error: `Unknown permission: ${input.permission}`, errorCode: 'INVALID_PERMISSION' };
+  }
+
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId }, select: { id: true } });
+  if (!employee) {
+    return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+  }
+
+  let expiresAt: Date | null = null;
+  if (input.expiresAt) {
+    expiresAt = new Date(input.expiresAt);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      return { success: false, error: 'Expiry date must be in the future', errorCode: 'INVALID_EXPIRY' };
+    }
+  }
+
+  const granted = input.granted !== false;
+  const permission: PermissionKey = input.permission;
+
+  if (!granted && permission === 'canManageRoles' && !(await roleManagementRemains({ revokedGrantEmployeeId: employeeId }))) {
+    return {
+      success: false,
+      error: 'At least one active employee must keep permission to manage roles',
+      errorCode: 'LAST_ROLE_MANAGER'
+    };
+  }
+
+  const previous = await prisma.employeePermissionGrant.findUnique({
+    where: { employeeId_permission: { employeeId, permission } }
+  });
+
+  await prisma.employeePermissionGrant.upsert({
+    where: { employeeId_permission: { employeeId, permission } },
+    create: {
+      employeeId,
+      permission,
+      granted,
+      reason: input.reason?.trim() || null,
+      expiresAt,
+      grantedById: actor.id
+    },
+    update: {
+      granted,
+      reason: input.reason?.trim() || null,
+      expiresAt,
+      grantedById: actor.id
+    }
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: actor.id,
+    fieldChanged: `permission_grant:${permission}`,
+    oldValue: previous ? (previous.granted ? 'granted' : 'withheld') : null,
+    newValue: JSON.stringify({
+      granted,
+      reason: input.reason?.trim() || null,
+      expiresAt: expiresAt?.toISOString() || null
+    })
+  });
+
+  return { success: true };
+}
+
+/**
+ * Remove an employee's override so the permission follows their role again
+ */
+export async function removeEmployeePermissionGrant(employeeId: string, permission: string, actor: Actor): Promise<RoleResult> {
+  const existing = await prisma.employeePermissionGrant.findUnique({
+    where: { employeeId_permission: { employeeId, permission } }
+  });
+
+  if (!existing) {
+    return { success: false, error: 'Permission grant not found', errorCode: 'GRANT_NOT_FOUND' };
+  }
+
+  if (existing.granted && permission === 'canManageRoles' && !(await roleManagementRemains({ revokedGrantEmployeeId: employeeId }))) {
+    return {
+      success: false,
+      error: 'At least one active employee must keep permission to manage roles',
+      errorCode: 'LAST_ROLE_MANAGER'
+    };
+  }
+
+  await prisma.employeePermissionGrant.delete({ where: { id: existing.id } });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: actor.id,
+    fieldChanged: `permission_grant:${permission}`,
+    oldValue: existing.granted ? 'granted' : 'withheld',
+    newValue: null
+  });
+
+  return { success: true };
+}
+
+export function getRoleErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'ROLE_NOT_FOUND':
+    case 'EMPLOYEE_NOT_FOUND':
+    case 'GRANT_NOT_FOUND':
+      return 404;
+    case 'ROLE_EXISTS':
+    case 'ROLE_IN_USE':
+    case 'SYSTEM_ROLE':
+    case 'LAST_ROLE_MANAGER':
+      return 409;
+    default:
+      return 400;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Route Authorization
+ * Wraps API route handlers so authentication and permission checks live in one place.
+ * The caller is resolved from the session cookie or an API token, their UserPermissions
+ * come from the role matrix and their own grants, and the handler only runs if the permission the
+ * route declares is granted. Handlers receive the caller as a typed `currentUser` and
+ * must use it, never an identity taken from the request, when recording who acted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthUser, getUserFromRequest } from './auth';
+import { UserPermissions, UserRole } from './permissions';
+import { getEffectivePermissions } from './roleService';
+
+export type PermissionKey = keyof UserPermissions;
+
+export interface CurrentUser extends AuthUser {
+  role: UserRole;
+  permissions: UserPermissions;
+}
+
+/**
+ * What a route requires beyond being signed in: a single permission, any of several,
+ * or a predicate for rules that depend on more than the role
+ */
+export type RoutePermission =
+  | PermissionKey
+  | { anyOf: PermissionKey[] }
+  | ((user: CurrentUser) => boolean);
+
+export interface RouteContext<Params = Record<string, string>> {
+  params: Promise<Params>;
+}
+
+export type AuthorizedRouteHandler<Params> = (
+  request: NextRequest,
+  context: RouteContext<Params> & { currentUser: CurrentUser }
+) => Promise<Response>;
+
+export async function resolveCurrentUser(user: AuthUser): Promise<CurrentUser> {
+  return { ...user, role: user.role, permissions: await getEffectivePermissions(user.id, user.role) };
+}
+
+export function isAuthorized(user: CurrentUser, permission?: RoutePermission): boolean {
+  if (!permission) {
+    return true;
+  }
+  if (typeof permission === 'function') {
+    return permission(user);
+  }
+  if (typeof permission === 'string') {
+    return user.permissions[permission];
+  }
+  return permission.anyOf.some(key => user.permissions[key]);
+}
+
+/**
+ * Authenticate the request and enforce `permission` before calling `handler`.
+ * Responds 401 when there is no valid credential and 403 when the permission is missing.
+ */
+export function withAuth<Params = Record<string, string>>(
+  handler: AuthorizedRouteHandler<Params>,
+  permission?: RoutePermission
+) {
+  return async (request: NextRequest, context: RouteContext<Params>): Promise<Response> => {
+    const user = await getUserFromRequest(request);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const currentUser = await resolveCurrentUser(user);
+
+    if (!isAuthorized(currentUser, permission)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    return handler(request, { ...context, currentUser });
+  };
+}
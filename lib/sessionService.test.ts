@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getClientIp } from './sessionService';
+
+// getClientIp only reads headers; keep the module's database client from connecting
+vi.mock('./prisma', () => ({ prisma: {} }));
+
+function requestWith(headers: Record<string, string>) {
+  return new Request('http://localhost/api/auth/login', { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getClientIp', () => {
+  it('uses the address the server recorded when no proxy is trusted', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(requestWith({}))).toBeNull();
+  });
+
+  it('takes the entry appended by the outermost trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+
+    const request = requestWith({ 'x-forwarded-for': '10.9.9.9, 203.0.113.7, 10.0.0.2' });
+    expect(getClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP behind a single proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+
+    expect(getClientIp(requestWith({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+});
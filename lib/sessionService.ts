@@ -0,0 +1,164 @@
+/**
+ * Session Service
+ * Server-side store for issued auth tokens. Every JWT carries a session id (jti);
+ * a token is only honoured while its session row exists, is unexpired and unrevoked.
+ */
+
+import { prisma } from './prisma';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// lastSeenAt is refreshed at most this often to avoid a write on every request
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'revoked_by_user'
+  | 'revoked_by_admin'
+  | 'password_reset'
+  | 'password_changed'
+  | 'employee_deactivated'
+  | 'two_factor_required';
+
+/**
+ * Client address as seen by the outermost trusted proxy. When TRUSTED_PROXY_COUNT says how many
+ * proxies sit in front of the app, each appends the address it received from, so the entry that
+ * many places from the end of X-Forwarded-For is the one no client can forge.
+ *
+ * With no trusted proxy the app is reached directly. Route handlers cannot see the socket, but
+ * the Next.js server records its remote address as X-Forwarded-For when the request carries
+ * none, so the last entry is used. A client can still send the header itself, which is why
+ * per-IP limits are only dependable behind a proxy.
+ */
+export function getClientIp(request: Request): string | null {
+  const parsed = parseInt(process.env.TRUSTED_PROXY_COUNT || '0');
+  const trustedProxies = Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length === 0) {
+    return trustedProxies === 1 ? request.headers.get('x-real-ip') : null;
+  }
+
+  return forwarded[Math.max(forwarded.length - Math.max(trustedProxies, 1), 0)];
+}
+
+export function getClientInfo(request: Request): SessionClientInfo {
+  return {
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIp(request)
+  };
+}
+
+/**
+ * Create a session row for a freshly authenticated employee
+ */
+export async function createSession(employeeId: string, client: SessionClientInfo = {}) {
+  return prisma.session.create({
+    data: {
+      employeeId,
+      userAgent: client.userAgent || null,
+      ipAddress: client.ipAddress || null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+    }
+  });
+}
+
+/**
+ * Check that a session is live for the given employee and record activity on it
+ */
+export async function validateSession(sessionId: string, employeeId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId }
+  });
+
+  const now = new Date();
+
+  if (!session || session.employeeId !== employeeId || session.revokedAt || session.expiresAt <= now) {
+    return false;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS) {
+    try {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: now }
+      });
+    } catch (error) {
+      console.error('Failed to update session last seen time:', error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * List an employee's sessions that can still be used, most recently active first
+ */
+export async function getActiveSessions(employeeId: string) {
+  return prisma.session.findMany({
+    where: {
+      employeeId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    orderBy: { lastSeenAt: 'desc' }
+  });
+}
+
+/**
+ * Revoke a single session. When employeeId is given the session must belong to that employee.
+ * Returns false if no matching live session was found.
+ */
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevocationReason,
+  employeeId?: string
+): Promise<boolean> {
+  const result = await prisma.session.updateMany({
+    where: {
+      id: sessionId,
+      revokedAt: null,
+      ...(employeeId && { employeeId })
+    },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Revoke every live session of an employee, optionally keeping one (e.g. the caller's own)
+ * Returns the number of sessions revoked.
+ */
+export async function revokeAllSessions(
+  employeeId: string,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      employeeId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+
+  return result.count;
+}
@@ -0,0 +1,422 @@
+/**
+ * Software Update Service
+ *
+ * Tracks version updates and patches rolled out against a software Resource:
+ * - Planning an update (fromVersion -> toVersion) for all or selected items
+ * - Start / complete / fail / roll back transitions
+ * - Bumping softwareVersion on the affected ResourceItems on completion
+ * - Reporting items still on a vulnerable version after a security update
+ */
+
+import { prisma } from './prisma';
+import { Prisma, UpdateStatus, UpdateType } from '@prisma/client';
+import { logTimelineActivity } from './timeline';
+
+/**
+ * Request to plan a software update
+ */
+export interface PlanSoftwareUpdateRequest {
+  toVersion: string;
+  fromVersion?: string;
+  updateType: UpdateType;
+  softwareName?: string;
+  updateDate?: string | Date;
+  description?: string;
+  itemIds?: string[];
+}
+
+/**
+ * An item that has not yet reached the version shipped by an update
+ */
+export interface VulnerableItem {
+  itemId: string;
+  hostname: string | null;
+  serialNumber: string | null;
+  softwareVersion: string | null;
+  assignedTo: { id: string; name: string; email: string; department: string }[];
+}
+
+export const UPDATE_TYPES: UpdateType[] = [
+  'SECURITY_UPDATE',
+  'FEATURE_UPDATE',
+  'BUG_FIX',
+  'MAJOR_VERSION',
+  'MINOR_VERSION',
+  'PATCH',
+];
+
+// Allowed status transitions for an update
+const ALLOWED_TRANSITIONS: Record<UpdateStatus, UpdateStatus[]> = {
+  PENDING: ['IN_PROGRESS', 'COMPLETED', 'FAILED'],
+  IN_PROGRESS: ['COMPLETED', 'FAILED'],
+  COMPLETED: ['ROLLBACK'],
+  FAILED: ['IN_PROGRESS'],
+  ROLLBACK: [],
+};
+
+/**
+ * Compares dotted version strings numerically (e.g. 1.10.0 > 1.9.3).
+ * Non-numeric segments are compared as strings.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.replace(/^v/i, '').split(/[.-]/);
+  const partsB = b.replace(/^v/i, '').split(/[.-]/);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const segA = partsA[i] ?? '0';
+    const segB = partsB[i] ?? '0';
+    const numA = Number(segA);
+    const numB = Number(segB);
+
+    if (!isNaN(numA) && !isNaN(numB)) {
+      if (numA !== numB) return numA < numB ? -1 : 1;
+    } else if (segA !== segB) {
+      return segA < segB ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Ensures the resource exists and is a software resource
+ */
+async function getSoftwareResource(resourceId: string) {
+  const resource = await prisma.resource.findUnique({
+    where: { id: resourceId },
+    include: { resourceTypeEntity: { select: { name: true } } },
+  });
+
+  if (!resource) {
+    throw new Error('Resource not found');
+  }
+
+  const typeName = (resource.resourceTypeEntity?.name || resource.type).toUpperCase();
+  if (typeName !== 'SOFTWARE') {
+    throw new Error('Software updates can only be tracked for software resources');
+  }
+
+  return resource;
+}
+
+async function getUpdateForTransition(updateId: string, nextStatus: UpdateStatus) {
+  const update = await prisma.softwareUpdate.findUnique({
+    where: { id: updateId },
+    include: { resource: { select: { id: true, name: true } } },
+  });
+
+  if (!update) {
+    throw new Error('Software update not found');
+  }
+
+  if (!ALLOWED_TRANSITIONS[update.status].includes(nextStatus)) {
+    throw new Error(`Cannot move software update from ${update.status} to ${nextStatus}`);
+  }
+
+  return update;
+}
+
+/**
+ * Plans a software update against a resource
+ */
+export async function planSoftwareUpdate(
+  resourceId: string,
+  request: PlanSoftwareUpdateRequest,
+  plannedById: string
+) {
+  const resource = await getSoftwareResource(resourceId);
+
+  const itemIds = request.itemIds || [];
+  if (itemIds.length > 0) {
+    const matchingItems = await prisma.resourceItem.count({
+      where: { id: { in: itemIds }, resourceId },
+    });
+    if (matchingItems !== itemIds.length) {
+      throw new Error('One or more items do not belong to this resource');
+    }
+  }
+
+  const update = await prisma.softwareUpdate.create({
+    data: {
+      resourceId,
+      softwareName: request.softwareName || resource.name,
+      fromVersion: request.fromVersion || null,
+      toVersion: request.toVersion,
+      updateType: request.updateType,
+      updateDate: request.updateDate ? new Date(request.updateDate) : new Date(),
+      description: request.description || null,
+      status: 'PENDING',
+      targetItemIds: itemIds,
+      createdById: plannedById,
+    },
+  });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: resourceId,
+    activityType: 'SOFTWARE_UPDATED',
+    title: `${update.updateType.replace(/_/g, ' ')} planned for ${resource.name}`,
+    description: `Update ${update.fromVersion ? `from ${update.fromVersion} ` : ''}to ${update.toVersion} planned for ${itemIds.length > 0 ? `${itemIds.length} item(s)` : 'all items'}`,
+    metadata: {
+      softwareUpdateId: update.id,
+      updateType: update.updateType,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      status: update.status,
+      targetItemIds: itemIds,
+    },
+    performedBy: plannedById,
+    resourceId,
+  });
+
+  return update;
+}
+
+/**
+ * Marks an update as being rolled out
+ */
+export async function startSoftwareUpdate(updateId: string, startedById: string) {
+  const current = await getUpdateForTransition(updateId, 'IN_PROGRESS');
+
+  const update = await prisma.softwareUpdate.update({
+    where: { id: updateId },
+    data: { status: 'IN_PROGRESS', startedAt: new Date(), failureReason: null },
+  });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: current.resourceId,
+    activityType: 'SOFTWARE_UPDATED',
+    title: `Update to ${update.toVersion} started for ${current.resource.name}`,
+    description: `Rollout of ${update.softwareName} ${update.toVersion} is in progress`,
+    metadata: {
+      softwareUpdateId: update.id,
+      updateType: update.updateType,
+      oldStatus: current.status,
+      newStatus: update.status,
+    },
+    performedBy: startedById,
+    resourceId: current.resourceId,
+  });
+
+  return update;
+}
+
+/**
+ * Completes an update and bumps softwareVersion on the affected items.
+ * Targets the explicit item list if one was given, otherwise every item of the
+ * resource that is on fromVersion (or every item when no fromVersion is set).
+ */
+export async function completeSoftwareUpdate(updateId: string, completedById: string) {
+  const current = await getUpdateForTransition(updateId, 'COMPLETED');
+
+  const where: Prisma.ResourceItemWhereInput = { resourceId: current.resourceId };
+  if (current.targetItemIds.length > 0) {
+    where.id = { in: current.targetItemIds };
+  } else if (current.fromVersion) {
+    where.OR = [{ softwareVersion: current.fromVersion }, { softwareVersion: null }];
+  }
+
+  const { update, updatedItemIds } = await prisma.$transaction(async (tx) => {
+    const items = await tx.resourceItem.findMany({
+      where,
+      select: { id: true, softwareVersion: true, properties: true },
+    });
+
+    const previousVersions: Record<string, string | null> = {};
+    for (const item of items) {
+      previousVersions[item.id] = item.softwareVersion;
+
+      const properties = (item.properties || {}) as Record<string, unknown>;
+      await tx.resourceItem.update({
+        where: { id: item.id },
+        data: {
+          softwareVersion: current.toVersion,
+          // Keep the dynamic property in sync when the resource schema tracks it
+          ...('softwareVersion' in properties && {
+            properties: { ...properties, softwareVersion: current.toVersion } as Prisma.InputJsonValue,
+          }),
+        },
+      });
+    }
+
+    const update = await tx.softwareUpdate.update({
+      where: { id: updateId },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        startedAt: current.startedAt || new Date(),
+        previousVersions,
+      },
+    });
+
+    return { update, updatedItemIds: items.map(item => item.id) };
+  });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: current.resourceId,
+    activityType: 'SOFTWARE_UPDATED',
+    title: `${current.resource.name} updated to ${update.toVersion}`,
+    description: `${update.updateType.replace(/_/g, ' ')} completed on ${updatedItemIds.length} item(s)`,
+    metadata: {
+      softwareUpdateId: update.id,
+      updateType: update.updateType,
+      fromVersion: update.fromVersion,
+      toVersion: update.toVersion,
+      oldStatus: current.status,
+      newStatus: update.status,
+      updatedItemIds,
+    },
+    performedBy: completedById,
+    resourceId: current.resourceId,
+  });
+
+  return { ...update, updatedItemCount: updatedItemIds.length };
+}
+
+/**
+ * Marks an update as failed; item versions are left unchanged
+ */
+export async function failSoftwareUpdate(updateId: string, failedById: string, reason?: string) {
+  const current = await getUpdateForTransition(updateId, 'FAILED');
+
+  const update = await prisma.softwareUpdate.update({
+    where: { id: updateId },
+    data: { status: 'FAILED', failureReason: reason || null },
+  });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: current.resourceId,
+    activityType: 'SOFTWARE_UPDATED',
+    title: `Update to ${update.toVersion} failed for ${current.resource.name}`,
+    description: reason ? `Update failed: ${reason}` : 'Update failed',
+    metadata: {
+      softwareUpdateId: update.id,
+      updateType: update.updateType,
+      oldStatus: current.status,
+      newStatus: update.status,
+      failureReason: reason,
+    },
+    performedBy: failedById,
+    resourceId: current.resourceId,
+  });
+
+  return update;
+}
+
+/**
+ * Rolls back a completed update, restoring each item's previous softwareVersion
+ */
+export async function rollbackSoftwareUpdate(updateId: string, rolledBackById: string, reason?: string) {
+  const current = await getUpdateForTransition(updateId, 'ROLLBACK');
+  const previousVersions = (current.previousVersions || {}) as Record<string, string | null>;
+
+  const update = await prisma.$transaction(async (tx) => {
+    for (const [itemId, version] of Object.entries(previousVersions)) {
+      const item = await tx.resourceItem.findUnique({
+        where: { id: itemId },
+        select: { softwareVersion: true, properties: true },
+      });
+
+      // Skip items deleted or updated again since this rollout
+      if (!item || item.softwareVersion !== current.toVersion) continue;
+
+      const properties = (item.properties || {}) as Record<string, unknown>;
+      await tx.resourceItem.update({
+        where: { id: itemId },
+        data: {
+          softwareVersion: version,
+          ...('softwareVersion' in properties && {
+            properties: { ...properties, softwareVersion: version } as Prisma.InputJsonValue,
+          }),
+        },
+      });
+    }
+
+    return tx.softwareUpdate.update({
+      where: { id: updateId },
+      data: { status: 'ROLLBACK', failureReason: reason || current.failureReason },
+    });
+  });
+
+  await logTimelineActivity({
+    entityType: 'RESOURCE',
+    entityId: current.resourceId,
+    activityType: 'SOFTWARE_UPDATED',
+    title: `Update to ${update.toVersion} rolled back for ${current.resource.name}`,
+    description: `${Object.keys(previousVersions).length} item(s) restored to their previous version${reason ? `: ${reason}` : ''}`,
+    metadata: {
+      softwareUpdateId: update.id,
+      updateType: update.updateType,
+      oldStatus: current.status,
+      newStatus: update.status,
+      restoredVersions: previousVersions,
+      reason,
+    },
+    performedBy: rolledBackById,
+    resourceId: current.resourceId,
+  });
+
+  return update;
+}
+
+/**
+ * Lists updates for a resource, newest first
+ */
+export async function getSoftwareUpdates(resourceId: string) {
+  return prisma.softwareUpdate.findMany({
+    where: { resourceId },
+    orderBy: { updateDate: 'desc' },
+  });
+}
+
+export async function getSoftwareUpdateForResource(resourceId: string, updateId: string) {
+  return prisma.softwareUpdate.findFirst({
+    where: { id: updateId, resourceId },
+  });
+}
+
+/**
+ * Lists items of the resource still below the version shipped by a security update,
+ * with their current assignees so security can follow up per machine
+ */
+export async function getVulnerableItems(updateId: string): Promise<VulnerableItem[]> {
+  const update = await prisma.softwareUpdate.findUnique({ where: { id: updateId } });
+
+  if (!update) {
+    throw new Error('Software update not found');
+  }
+
+  if (update.updateType !== 'SECURITY_UPDATE') {
+    throw new Error('Vulnerability reports are only available for security updates');
+  }
+
+  const items = await prisma.resourceItem.findMany({
+    where: { resourceId: update.resourceId },
+    select: {
+      id: true,
+      hostname: true,
+      serialNumber: true,
+      softwareVersion: true,
+      assignments: {
+        where: { status: 'ACTIVE' },
+        select: {
+          employee: { select: { id: true, name: true, email: true, department: true } },
+        },
+      },
+    },
+  });
+
+  return items
+    .filter(item => !item.softwareVersion || compareVersions(item.softwareVersion, update.toVersion) < 0)
+    .map(item => ({
+      itemId: item.id,
+      hostname: item.hostname,
+      serialNumber: item.serialNumber,
+      softwareVersion: item.softwareVersion,
+      assignedTo: item.assignments.map(assignment => assignment.employee),
+    }));
+}
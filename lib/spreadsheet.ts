@@ -0,0 +1,460 @@
+/**
+ * Spreadsheet Reader & Writer
+ * Reads the first sheet of a CSV or XLSX upload into rows of cell text. XLSX files are read
+ * directly from their zip container, so only cell values are supported: no formulas are
+ * evaluated and date cells arrive as Excel serial numbers.
+ *
+ * Also writes CSV lines and streams single-sheet XLSX workbooks row by row, so large
+ * exports never need the whole sheet in memory.
+ */
+
+import { constants, deflateRawSync, inflateRawSync } from 'zlib';
+
+// Largest file inside an XLSX we are willing to inflate, to stop zip bombs
+const MAX_XLSX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+export type SpreadsheetRows = string[][];
+
+export type SpreadsheetCell = string | number | boolean | null;
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Files of a zip archive by name, inflated on demand
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  // The end of central directory record sits in the last 64KB + 22 bytes
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Invalid XLSX file: zip directory not found');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid XLSX file: corrupt zip directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      const localNameLength = buffer.readUInt16LE(localOffset + 26);
+      const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(start, start + compressedSize);
+
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_BYTES });
+      }
+      throw new Error(`Invalid XLSX file: unsupported compression method ${method}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_match, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// Text of a shared or inline string, joining rich text runs and skipping phonetic hints
+function readStringItem(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(text.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)).map(match => decodeXml(match[1])).join('');
+}
+
+// "C" -> 2, "AA" -> 26
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export function parseXlsx(buffer: Buffer): SpreadsheetRows {
+  const entries = readZipEntries(buffer);
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? entry().toString('utf8') : null;
+  };
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Invalid XLSX file: workbook not found');
+  }
+
+  // The first sheet in tab order, resolved through the workbook relationships
+  const firstSheet = workbook.match(/<sheet\b([^>]*)\/?>/);
+  const relationId = firstSheet ? getAttribute(firstSheet[1], 'r:id') : null;
+  const relations = read('xl/_rels/workbook.xml.rels') || '';
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  for (const match of relations.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const target = getAttribute(match[1], 'Target');
+    if (relationId && target && getAttribute(match[1], 'Id') === relationId) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new Error('Invalid XLSX file: worksheet not found');
+  }
+
+  const sharedStringsXml = read('xl/sharedStrings.xml') || '';
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)).map(match => readStringItem(match[1]));
+
+  const rows: SpreadsheetRows = [];
+  let nextRow = 0;
+
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = getAttribute(rowMatch[1], 'r');
+    const rowIndex = rowNumber ? parseInt(rowNumber, 10) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = getAttribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = getAttribute(cellMatch[1], 't');
+      const content = cellMatch[2] || '';
+      const raw = content.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+
+      if (type === 's') {
+        value = raw !== undefined ? sharedStrings[parseInt(raw, 10)] ?? '' : '';
+      } else if (type === 'inlineStr') {
+        value = readStringItem(content);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      while (cells.length < column) {
+        cells.push('');
+      }
+      cells[column] = value;
+    }
+
+    while (rows.length < rowIndex) {
+      rows.push([]);
+    }
+    rows[rowIndex] = cells;
+  }
+
+  return rows;
+}
+
+/**
+ * Read an uploaded spreadsheet, telling CSV and XLSX apart by content rather than name
+ */
+export function parseSpreadsheet(buffer: Buffer): SpreadsheetRows {
+  // XLSX files are zip archives, which start with "PK\x03\x04"
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50) {
+    return parseXlsx(buffer);
+  }
+  return parseCsv(buffer.toString('utf8'));
+}
+
+/**
+ * Format one CSV line (with its line break). Text starting with a formula character is
+ * prefixed with an apostrophe so spreadsheet apps do not run it.
+ */
+export function toCsvLine(cells: SpreadsheetCell[]): string {
+  return cells.map(cell => {
+    if (cell === null) return '';
+    let text = String(cell);
+    if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Text is buffered up to this size before it is compressed and sent
+const XLSX_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Streams a zip archive. Entry sizes and checksums are not known up front, so each entry
+ * is followed by a data descriptor, and each text chunk is deflated on its own with a
+ * sync flush so the chunks form one continuous deflate stream.
+ */
+class ZipStream {
+  private offset = 0;
+  private entries: Array<{ name: Buffer; crc: number; compressedSize: number; size: number; offset: number }> = [];
+
+  private track(data: Buffer): Buffer {
+    this.offset += data.length;
+    return data;
+  }
+
+  async *entry(name: string, content: AsyncIterable<string> | Iterable<string>): AsyncGenerator<Buffer> {
+    const fileName = Buffer.from(name, 'utf8');
+    const entry = { name: fileName, crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    // Bit 3: sizes follow in a data descriptor; bit 11: the name is UTF-8
+    header.writeUInt16LE(0x0808, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(0x21, 12); // 1980-01-01, the zip epoch
+    header.writeUInt16LE(fileName.length, 26);
+    yield this.track(Buffer.concat([header, fileName]));
+
+    let pending = '';
+    const flush = (final: boolean) => {
+      const data = Buffer.from(pending, 'utf8');
+      pending = '';
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      const compressed = deflateRawSync(data, { finishFlush: final ? constants.Z_FINISH : constants.Z_SYNC_FLUSH });
+      entry.compressedSize += compressed.length;
+      return this.track(compressed);
+    };
+
+    for await (const text of content) {
+      pending += text;
+      if (pending.length >= XLSX_CHUNK_BYTES) {
+        yield flush(false);
+      }
+    }
+    yield flush(true);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.track(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  finish(): Buffer {
+    const start = this.offset;
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(0x0808, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(0x21, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(start, 16);
+    return this.track(Buffer.concat([directory, end]));
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Strings are written inline rather than to a shared string table, which would have to be
+// complete before the sheet could be written
+function toXlsxRow(cells: SpreadsheetCell[], style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  return '<row>' + cells.map(cell => {
+    if (cell === null || cell === '') {
+      return '<c/>';
+    }
+    if (typeof cell === 'number' && Number.isFinite(cell)) {
+      return `<c${styleAttribute}><v>${cell}</v></c>`;
+    }
+    if (typeof cell === 'boolean') {
+      return `<c t="b"${styleAttribute}><v>${cell ? 1 : 0}</v></c>`;
+    }
+    return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+  }).join('') + '</row>';
+}
+
+const XLSX_PARTS: Record<string, string> = {
+  '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>',
+  '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>',
+  'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '</Relationships>',
+  // Style 1 is the bold header row
+  'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>'
+};
+
+/**
+ * Stream a single-sheet XLSX workbook with a bold, frozen header row
+ */
+export async function* streamXlsx(
+  header: string[],
+  rows: AsyncIterable<SpreadsheetCell[]>,
+  sheetName = 'Sheet1'
+): AsyncGenerator<Buffer> {
+  const zip = new ZipStream();
+
+  for (const [name, xml] of Object.entries(XLSX_PARTS)) {
+    yield* zip.entry(name, [xml]);
+  }
+
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  yield* zip.entry('xl/workbook.xml', [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>'
+  ]);
+
+  async function* sheet() {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + '<sheetData>';
+    yield toXlsxRow(header, 1);
+    for await (const row of rows) {
+      yield toXlsxRow(row);
+    }
+    yield '</sheetData></worksheet>';
+  }
+  yield* zip.entry('xl/worksheets/sheet1.xml', sheet());
+
+  yield zip.finish();
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { canViewEntityTimeline } from './timeline';
+
+// One policy owned by jane, enough for the owner check
+vi.mock('./prisma', () => ({
+  prisma: {
+    policy: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        where.id === 'policy-1' ? { ownerId: 'jane' } : null
+    }
+  }
+}));
+
+const employee = { id: 'jane', permissions: { canViewTimeline: false, canEditPolicy: false } };
+
+describe('canViewEntityTimeline', () => {
+  it('limits employees without timeline access to their own record', async () => {
+    expect(await canViewEntityTimeline(employee, 'EMPLOYEE', 'jane')).toBe(true);
+    expect(await canViewEntityTimeline(employee, 'EMPLOYEE', 'john')).toBe(false);
+    expect(await canViewEntityTimeline(employee, 'RESOURCE', 'resource-1')).toBe(false);
+  });
+
+  it('shows policy timelines to their owner and to policy editors', async () => {
+    const editor = { id: 'john', permissions: { canViewTimeline: false, canEditPolicy: true } };
+
+    expect(await canViewEntityTimeline(employee, 'POLICY', 'policy-1')).toBe(true);
+    expect(await canViewEntityTimeline({ ...employee, id: 'john' }, 'POLICY', 'policy-1')).toBe(false);
+    expect(await canViewEntityTimeline(employee, 'POLICY', 'missing')).toBe(false);
+    expect(await canViewEntityTimeline(editor, 'POLICY', 'missing')).toBe(true);
+  });
+
+  it('shows every timeline with timeline access', async () => {
+    const auditor = { id: 'john', permissions: { canViewTimeline: true, canEditPolicy: false } };
+
+    expect(await canViewEntityTimeline(auditor, 'EMPLOYEE', 'jane')).toBe(true);
+    expect(await canViewEntityTimeline(auditor, 'RESOURCE', 'resource-1')).toBe(true);
+  });
+});
@@ -1,5 +1,6 @@
 // lib/timeline.ts
 import { prisma } from "./prisma";
+import type { UserPermissions } from "./permissions";
 
 interface TimelineActivityData {
   entityType: 'EMPLOYEE' | 'RESOURCE' | 'ACCESS' | 'POLICY' | 'DOCUMENT' | 'APPROVAL_WORKFLOW';
@@ -42,6 +43,33 @@ export async function logTimelineActivity(data: TimelineActivityData) {
   }
 }
 
+export interface TimelineViewer {
+  id: string;
+  permissions: Pick<UserPermissions, 'canViewTimeline' | 'canEditPolicy'>;
+}
+
+// Without canViewTimeline employees read only their own record and the policies the
+// policies page shows them: timelines carry login IPs, lockouts and session revocations
+export async function canViewEntityTimeline(viewer: TimelineViewer, entityType: string, entityId: string): Promise<boolean> {
+  if (viewer.permissions.canViewTimeline) {
+    return true;
+  }
+
+  if (entityType === 'EMPLOYEE') {
+    return entityId === viewer.id;
+  }
+
+  if (entityType === 'POLICY') {
+    if (viewer.permissions.canEditPolicy) {
+      return true;
+    }
+    const policy = await prisma.policy.findUnique({ where: { id: entityId }, select: { ownerId: true } });
+    return !!policy && policy.ownerId === viewer.id;
+  }
+
+  return false;
+}
+
 export async function getEntityTimeline(entityType: string, entityId: string, limit = 15, page = 1) {
   try {
     const skip = (page - 1) * limit;
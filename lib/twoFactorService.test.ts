@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decryptSecret, encryptSecret, matchTotpStep, revokeSessionsPendingTwoFactor } from './twoFactorService';
+
+const db = vi.hoisted(() => ({
+  employees: [] as { id: string; role: string; twoFactorEnabled: boolean }[],
+  revoked: [] as { employeeId: string; reason: string }[]
+}));
+
+// An in-memory employee table; roles come from the built-in definitions
+vi.mock('./prisma', () => ({
+  prisma: {
+    employee: {
+      findMany: async ({ where }: { where: { id?: string; role?: string; twoFactorEnabled: boolean } }) =>
+        db.employees.filter(employee =>
+          (!where.id || employee.id === where.id) &&
+          (!where.role || employee.role === where.role) &&
+          employee.twoFactorEnabled === where.twoFactorEnabled)
+    }
+  }
+}));
+vi.mock('./roleService', () => ({ ensureRoleRegistry: async () => undefined }));
+vi.mock('./sessionService', () => ({
+  revokeAllSessions: async (employeeId: string, reason: string) => {
+    db.revoked.push({ employeeId, reason });
+    return 1;
+  }
+}));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// RFC 6238 SHA-1 test secret ("12345678901234567890") in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('matchTotpStep', () => {
+  it('accepts the RFC 6238 reference codes at their time step', () => {
+    expect(matchTotpStep(SECRET, '287082', 59_000)).toBe(1);
+    expect(matchTotpStep(SECRET, '081804', 1111111109_000)).toBe(37037036);
+    expect(matchTotpStep(SECRET, '005924', 1234567890_000)).toBe(41152263);
+  });
+
+  it('ignores spaces in the entered code', () => {
+    expect(matchTotpStep(SECRET, '287 082', 59_000)).toBe(1);
+  });
+
+  it('tolerates one step of clock drift either side', () => {
+    expect(matchTotpStep(SECRET, '081804', 1111111109_000 + 30_000)).toBe(37037036);
+    expect(matchTotpStep(SECRET, '081804', 1111111109_000 - 30_000)).toBe(37037036);
+  });
+
+  it('rejects codes outside the drift window', () => {
+    expect(matchTotpStep(SECRET, '081804', 1111111109_000 + 60_000)).toBeNull();
+    expect(matchTotpStep(SECRET, '081804', 1111111109_000 - 60_000)).toBeNull();
+  });
+
+  it('rejects wrong and malformed codes', () => {
+    expect(matchTotpStep(SECRET, '287083', 59_000)).toBeNull();
+    expect(matchTotpStep(SECRET, '28708', 59_000)).toBeNull();
+    expect(matchTotpStep(SECRET, 'abcdef', 59_000)).toBeNull();
+  });
+});
+
+describe('secret encryption', () => {
+  it('round-trips a secret without storing it in the clear', () => {
+    const stored = encryptSecret(SECRET);
+    expect(stored.startsWith('v1:')).toBe(true);
+    expect(stored).not.toContain(SECRET);
+    expect(decryptSecret(stored)).toBe(SECRET);
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptSecret(SECRET)).not.toBe(encryptSecret(SECRET));
+  });
+
+  it('returns secrets stored before encryption unchanged', () => {
+    expect(decryptSecret(SECRET)).toBe(SECRET);
+  });
+
+  it('requires a dedicated key in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('TWO_FACTOR_ENCRYPTION_KEY', '');
+    vi.stubEnv('JWT_SECRET', 'jwt-secret');
+    expect(() => encryptSecret(SECRET)).toThrow(/TWO_FACTOR_ENCRYPTION_KEY/);
+
+    vi.stubEnv('TWO_FACTOR_ENCRYPTION_KEY', 'dedicated-key');
+    expect(decryptSecret(encryptSecret(SECRET))).toBe(SECRET);
+  });
+
+  it('still reads secrets encrypted with the JWT secret before a dedicated key was set', () => {
+    vi.stubEnv('TWO_FACTOR_ENCRYPTION_KEY', '');
+    vi.stubEnv('JWT_SECRET', 'jwt-secret');
+    const legacy = encryptSecret(SECRET);
+
+    vi.stubEnv('TWO_FACTOR_ENCRYPTION_KEY', 'dedicated-key');
+    expect(decryptSecret(legacy)).toBe(SECRET);
+
+    vi.stubEnv('JWT_SECRET', 'rotated-jwt-secret');
+    expect(() => decryptSecret(legacy)).toThrow();
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const [prefix, iv, tag, ciphertext] = encryptSecret(SECRET).split(':');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+    expect(() => decryptSecret([prefix, iv, tag, flipped.toString('base64')].join(':'))).toThrow();
+  });
+});
+
+describe('revokeSessionsPendingTwoFactor', () => {
+  beforeEach(() => {
+    db.revoked = [];
+    db.employees = [
+      { id: 'ceo-unenrolled', role: 'CEO', twoFactorEnabled: false },
+      { id: 'ceo-enrolled', role: 'CEO', twoFactorEnabled: true },
+      { id: 'staff', role: 'EMPLOYEE', twoFactorEnabled: false }
+    ];
+  });
+
+  it('signs out an employee promoted into a role that needs two-factor', async () => {
+    expect(await revokeSessionsPendingTwoFactor({ id: 'ceo-unenrolled' })).toBe(1);
+    expect(db.revoked).toEqual([{ employeeId: 'ceo-unenrolled', reason: 'two_factor_required' }]);
+  });
+
+  it('leaves enrolled employees and roles without the requirement alone', async () => {
+    expect(await revokeSessionsPendingTwoFactor({ id: 'ceo-enrolled' })).toBe(0);
+    expect(await revokeSessionsPendingTwoFactor({ role: 'EMPLOYEE' })).toBe(0);
+    expect(db.revoked).toEqual([]);
+  });
+
+  it('signs out every unenrolled holder of a role', async () => {
+    expect(await revokeSessionsPendingTwoFactor({ role: 'CEO' })).toBe(1);
+    expect(db.revoked.map(entry => entry.employeeId)).toEqual(['ceo-unenrolled']);
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * Two-Factor Authentication Service
+ * RFC 6238 TOTP enrollment and verification plus single-use recovery codes.
+ * Mandatory for admin and executive-tier roles, optional for everyone else.
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { getUserFromToken, verifyTwoFactorChallenge } from './auth';
+import { getRoleDefinition } from './permissions';
+import { ensureRoleRegistry } from './roleService';
+import { getCompanyName } from './config/company';
+import { revokeAllSessions } from './sessionService';
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept one step either side to tolerate clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Secrets are stored as "v1:<iv>:<auth tag>:<ciphertext>" (base64, AES-256-GCM)
+const SECRET_CIPHER_PREFIX = 'v1:';
+// A concurrent recovery-code use can change the list between read and write
+const RECOVERY_CODE_MAX_ATTEMPTS = 3;
+
+export interface TwoFactorResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  pendingEnrollment: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  await ensureRoleRegistry();
+  const definition = getRoleDefinition(role);
+  return !!definition && (definition.isAdmin || definition.tier === 'EXECUTIVE');
+}
+
+/**
+ * Sign out employees who now need two-factor authentication but have not enrolled, so
+ * sessions from before the requirement cannot outlive it; their next sign-in goes through
+ * enrollment. Call after an employee's role changes or a role's tier or admin flag does.
+ */
+export async function revokeSessionsPendingTwoFactor(filter: { id: string } | { role: string }): Promise<number> {
+  const employees = await prisma.employee.findMany({
+    where: { ...filter, twoFactorEnabled: false },
+    select: { id: true, role: true }
+  });
+
+  let revoked = 0;
+  for (const employee of employees) {
+    if (await isTwoFactorRequired(employee.role)) {
+      revoked += await revokeAllSessions(employee.id, 'two_factor_required');
+    }
+  }
+  return revoked;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function currentTimeStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+function deriveSecretKey(keyMaterial: string): Buffer {
+  return crypto.createHash('sha256').update(`two-factor:${keyMaterial}`).digest();
+}
+
+// Key derived from JWT_SECRET, used before a dedicated key was required
+function getLegacySecretEncryptionKey(): Buffer {
+  return deriveSecretKey(process.env.JWT_SECRET || 'your-secret-key-change-in-production');
+}
+
+// A leaked JWT secret must not also expose every authenticator, so production needs its own key
+function getSecretEncryptionKey(): Buffer {
+  if (process.env.TWO_FACTOR_ENCRYPTION_KEY) {
+    return deriveSecretKey(process.env.TWO_FACTOR_ENCRYPTION_KEY);
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY must be set in production');
+  }
+  return getLegacySecretEncryptionKey();
+}
+
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getSecretEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${SECRET_CIPHER_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+function decryptWithKey(key: Buffer, iv: string, tag: string, ciphertext: string): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Decrypt a stored secret. Values written before encryption was introduced are
+ * plain base32 and are returned unchanged; values encrypted before
+ * TWO_FACTOR_ENCRYPTION_KEY was set are still read with the JWT_SECRET key.
+ */
+export function decryptSecret(stored: string): string {
+  if (!stored.startsWith(SECRET_CIPHER_PREFIX)) {
+    return stored;
+  }
+
+  const [iv, tag, ciphertext] = stored.slice(SECRET_CIPHER_PREFIX.length).split(':');
+  try {
+    return decryptWithKey(getSecretEncryptionKey(), iv, tag, ciphertext);
+  } catch (error) {
+    if (!process.env.TWO_FACTOR_ENCRYPTION_KEY || !process.env.JWT_SECRET) {
+      throw error;
+    }
+    return decryptWithKey(getLegacySecretEncryptionKey(), iv, tag, ciphertext);
+  }
+}
+
+/**
+ * Return the time step a code matches within the drift window, or null
+ */
+export function matchTotpStep(secret: string, code: string, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const step = currentTimeStep(now);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = generateHotp(secret, step + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return step + offset;
+    }
+  }
+
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export async function getTwoFactorStatus(employeeId: string): Promise<TwoFactorStatus | null> {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: {
+      role: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorEnabledAt: true,
+      twoFactorRecoveryCodes: true
+    }
+  });
+
+  if (!employee) {
+    return null;
+  }
+
+  return {
+    enabled: employee.twoFactorEnabled,
+    required: await isTwoFactorRequired(employee.role),
+    pendingEnrollment: !employee.twoFactorEnabled && !!employee.twoFactorSecret,
+    enabledAt: employee.twoFactorEnabledAt,
+    recoveryCodesRemaining: employee.twoFactorRecoveryCodes.length
+  };
+}
+
+/**
+ * Start (or restart) enrollment by generating a new secret and its provisioning URI
+ */
+export async function beginTwoFactorEnrollment(employeeId: string): Promise<TwoFactorEnrollment> {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { email: true, twoFactorEnabled: true }
+  });
+
+  if (!employee) {
+    throw new Error('Employee not found');
+  }
+
+  if (employee.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  const issuer = `${getCompanyName()} Portal`;
+  const label = encodeURIComponent(`${issuer}:${employee.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorLastUsedStep: null
+    }
+  });
+
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns the plaintext recovery codes; only their hashes are stored.
+ */
+export async function confirmTwoFactorEnrollment(
+  employeeId: string,
+  code: string
+): Promise<TwoFactorResult & { recoveryCodes?: string[] }> {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true }
+  });
+
+  if (!employee) {
+    return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+  }
+
+  if (employee.twoFactorEnabled) {
+    return { success: false, error: 'Two-factor authentication is already enabled', errorCode: 'ALREADY_ENABLED' };
+  }
+
+  if (!employee.twoFactorSecret) {
+    return { success: false, error: 'Start enrollment before confirming it', errorCode: 'NOT_ENROLLING' };
+  }
+
+  if (matchTotpStep(decryptSecret(employee.twoFactorSecret), code) === null) {
+    return { success: false, error: 'Invalid verification code', errorCode: 'INVALID_CODE' };
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const enabledAt = new Date();
+
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: enabledAt,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode)
+    }
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: employeeId,
+    fieldChanged: 'two_factor_enabled',
+    oldValue: 'false',
+    newValue: JSON.stringify({
+      enabledAt: enabledAt.toISOString(),
+      recoveryCodesIssued: recoveryCodes.length
+    })
+  });
+
+  return { success: true, recoveryCodes };
+}
+
+/**
+ * Verify a login second factor. Accepts a current TOTP code or an unused recovery code.
+ */
+export async function verifyTwoFactorCode(
+  employeeId: string,
+  code: string
+): Promise<TwoFactorResult & { method?: 'totp' | 'recovery_code' }> {
+  for (let attempt = 0; attempt < RECOVERY_CODE_MAX_ATTEMPTS; attempt++) {
+    const employee = await prisma.employee.findUnique({
+      where: { id: employeeId },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+        twoFactorRecoveryCodes: true
+      }
+    });
+
+    if (!employee || !employee.twoFactorEnabled || !employee.twoFactorSecret) {
+      return { success: false, error: 'Two-factor authentication is not enabled', errorCode: 'NOT_ENABLED' };
+    }
+
+    const step = matchTotpStep(decryptSecret(employee.twoFactorSecret), code);
+    if (step !== null) {
+      // Only one request can move the last used step forward past this code
+      const claimed = await prisma.employee.updateMany({
+        where: {
+          id: employeeId,
+          twoFactorEnabled: true,
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }]
+        },
+        data: { twoFactorLastUsedStep: step }
+      });
+
+      if (claimed.count === 0) {
+        return { success: false, error: 'This code has already been used', errorCode: 'CODE_REUSED' };
+      }
+
+      return { success: true, method: 'totp' };
+    }
+
+    const codeHash = hashRecoveryCode(code);
+    if (!employee.twoFactorRecoveryCodes.includes(codeHash)) {
+      return { success: false, error: 'Invalid verification code', errorCode: 'INVALID_CODE' };
+    }
+
+    const remaining = employee.twoFactorRecoveryCodes.filter(hash => hash !== codeHash);
+
+    // Write only if the list is unchanged, so a code cannot be spent twice
+    const claimed = await prisma.employee.updateMany({
+      where: {
+        id: employeeId,
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: { equals: employee.twoFactorRecoveryCodes }
+      },
+      data: { twoFactorRecoveryCodes: remaining }
+    });
+
+    if (claimed.count === 0) {
+      // Another request changed the list; re-read and check the code again
+      continue;
+    }
+
+    await logAudit({
+      entityType: 'EMPLOYEE',
+      entityId: employeeId,
+      changedById: employeeId,
+      fieldChanged: 'two_factor_recovery_code_used',
+      oldValue: String(employee.twoFactorRecoveryCodes.length),
+      newValue: JSON.stringify({
+        usedAt: new Date().toISOString(),
+        recoveryCodesRemaining: remaining.length
+      })
+    });
+
+    return { success: true, method: 'recovery_code' };
+  }
+
+  return { success: false, error: 'Could not verify the code, please try again', errorCode: 'CONFLICT' };
+}
+
+/**
+ * Turn off two-factor authentication. Not allowed for roles where it is mandatory.
+ */
+export async function disableTwoFactor(employeeId: string, code: string): Promise<TwoFactorResult> {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { role: true, twoFactorEnabled: true }
+  });
+
+  if (!employee) {
+    return { success: false, error: 'Employee not found', errorCode: 'EMPLOYEE_NOT_FOUND' };
+  }
+
+  if (await isTwoFactorRequired(employee.role)) {
+    return {
+      success: false,
+      error: 'Two-factor authentication is mandatory for your role',
+      errorCode: 'TWO_FACTOR_REQUIRED'
+    };
+  }
+
+  if (!employee.twoFactorEnabled) {
+    return { success: false, error: 'Two-factor authentication is not enabled', errorCode: 'NOT_ENABLED' };
+  }
+
+  const verification = await verifyTwoFactorCode(employeeId, code);
+  if (!verification.success) {
+    return verification;
+  }
+
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: []
+    }
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: employeeId,
+    fieldChanged: 'two_factor_disabled',
+    oldValue: 'true',
+    newValue: JSON.stringify({
+      disabledAt: new Date().toISOString(),
+      verifiedWith: verification.method
+    })
+  });
+
+  return { success: true };
+}
+
+/**
+ * Replace all recovery codes after verifying a current code
+ */
+export async function regenerateRecoveryCodes(
+  employeeId: string,
+  code: string
+): Promise<TwoFactorResult & { recoveryCodes?: string[] }> {
+  const verification = await verifyTwoFactorCode(employeeId, code);
+  if (!verification.success) {
+    return verification;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+  });
+
+  await logAudit({
+    entityType: 'EMPLOYEE',
+    entityId: employeeId,
+    changedById: employeeId,
+    fieldChanged: 'two_factor_recovery_codes_regenerated',
+    oldValue: null,
+    newValue: JSON.stringify({
+      regeneratedAt: new Date().toISOString(),
+      recoveryCodesIssued: recoveryCodes.length
+    })
+  });
+
+  return { success: true, recoveryCodes };
+}
+
+/**
+ * Work out who is enrolling: a signed-in user, or someone part-way through login
+ * whose role requires enrollment before a session can be issued
+ */
+export async function resolveEnrollingEmployeeId(
+  authToken?: string,
+  challengeToken?: string
+): Promise<string | null> {
+  if (challengeToken) {
+    return verifyTwoFactorChallenge(challengeToken);
+  }
+
+  const user = authToken ? await getUserFromToken(authToken) : null;
+  return user?.id || null;
+}
+
+export function getTwoFactorErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'EMPLOYEE_NOT_FOUND':
+      return 404;
+    case 'TWO_FACTOR_REQUIRED':
+      return 403;
+    default:
+      return 400;
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Workflow Analytics Service
+ * Cycle time and bottleneck figures for approval workflows: median and p90 time to decision
+ * by workflow type, approver and requester department, trends over time, rejection rates and
+ * the oldest pending requests. Computed from ApprovalWorkflow and its timeline entries.
+ */
+
+import { ActivityType, WorkflowType } from '@prisma/client';
+import { prisma } from './prisma';
+import { getWorkflowTitle } from './approvalSlaService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_RANGE_DAYS = 730;
+const OLDEST_PENDING_LIMIT = 10;
+
+// Timeline entries that start, hand over, decide or end a workflow
+const ANALYTICS_ACTIVITY_TYPES: ActivityType[] = [
+  'WORKFLOW_STARTED',
+  'WORKFLOW_COMPLETED',
+  'WORKFLOW_CANCELLED',
+  'WORKFLOW_ESCALATED',
+  'WORKFLOW_DELEGATED',
+  'APPROVED',
+  'REJECTED'
+];
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface WorkflowAnalyticsFilters {
+  from?: Date;
+  to?: Date;
+  type?: string;
+  department?: string; // requester's department
+  interval?: AnalyticsInterval;
+}
+
+export interface DecisionTimeStats {
+  decided: number;
+  approved: number;
+  rejected: number;
+  rejectionRate: number; // 0..1 of decided
+  medianHours: number | null;
+  p90Hours: number | null;
+}
+
+export interface AnalyticsTrendPoint extends DecisionTimeStats {
+  periodStart: string;
+  created: number;
+}
+
+export interface OldestPendingItem {
+  id: string;
+  type: WorkflowType;
+  title: string;
+  requesterName: string;
+  department: string;
+  approverName: string | null;
+  createdAt: string;
+  ageHours: number;
+  slaDueAt: string | null;
+  overdue: boolean;
+}
+
+export interface WorkflowAnalytics {
+  range: { from: string; to: string; interval: AnalyticsInterval };
+  totals: DecisionTimeStats & { created: number; cancelled: number; pending: number };
+  byType: Array<DecisionTimeStats & { type: WorkflowType }>;
+  byApprover: Array<DecisionTimeStats & { approverId: string; approverName: string }>;
+  byDepartment: Array<DecisionTimeStats & { department: string }>;
+  trend: AnalyticsTrendPoint[];
+  oldestPending: OldestPendingItem[];
+}
+
+export interface WorkflowAnalyticsResult {
+  success: boolean;
+  analytics?: WorkflowAnalytics;
+  error?: string;
+  errorCode?: string;
+}
+
+interface Decision {
+  outcome: 'APPROVED' | 'REJECTED';
+  hours: number;
+  at: Date;
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function summarize(decisions: Decision[]): DecisionTimeStats {
+  const hours = decisions.map(decision => decision.hours).sort((a, b) => a - b);
+  const approved = decisions.filter(decision => decision.outcome === 'APPROVED').length;
+  const rejected = decisions.length - approved;
+
+  return {
+    decided: decisions.length,
+    approved,
+    rejected,
+    rejectionRate: decisions.length ? Math.round((rejected / decisions.length) * 1000) / 1000 : 0,
+    medianHours: round(percentile(hours, 50)),
+    p90Hours: round(percentile(hours, 90))
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) || []), item]);
+  }
+  return groups;
+}
+
+// Start of the day, ISO week (Monday) or month containing a date, in UTC
+function periodStart(date: Date, interval: AnalyticsInterval): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function nextPeriod(date: Date, interval: AnalyticsInterval): Date {
+  const next = new Date(date);
+  if (interval === 'day') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (interval === 'week') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+// Daily buckets for up to a month, weekly up to half a year, monthly beyond
+function defaultInterval(from: Date, to: Date): AnalyticsInterval {
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+  return days <= 31 ? 'day' : days <= 183 ? 'week' : 'month';
+}
+
+function metadataOf(entry: { metadata: unknown }): Record<string, unknown> {
+  return entry.metadata && typeof entry.metadata === 'object' ? entry.metadata as Record<string, unknown> : {};
+}
+
+/**
+ * Analytics for workflows created or decided in a date range (default: the last 90 days).
+ *
+ * Time to decision runs from WORKFLOW_STARTED (or creation) to WORKFLOW_COMPLETED. Each
+ * approver is timed from when the request reached them - the start, the previous stage's
+ * decision, or an escalation or delegation to them - until their own stage decision.
+ * The oldest pending requests are listed as of now, whatever the range.
+ */
+export async function getWorkflowAnalytics(filters: WorkflowAnalyticsFilters = {}): Promise<WorkflowAnalyticsResult> {
+  const to = filters.to || new Date();
+  const from = filters.from || new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return { success: false, error: 'The start of the range must be before its end', errorCode: 'INVALID_RANGE' };
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { success: false, error: `The range cannot be longer than ${MAX_RANGE_DAYS} days`, errorCode: 'INVALID_RANGE' };
+  }
+
+  if (filters.type && !(Object.values(WorkflowType) as string[]).includes(filters.type)) {
+    return { success: false, error: `Unknown workflow type ${filters.type}`, errorCode: 'INVALID_TYPE' };
+  }
+
+  const interval = filters.interval || defaultInterval(from, to);
+  const inRange = { gte: from, lte: to };
+  const scope = {
+    ...(filters.type && { type: filters.type as WorkflowType }),
+    ...(filters.department && { requester: { department: filters.department } })
+  };
+
+  try {
+    const workflows = await prisma.approvalWorkflow.findMany({
+      where: {
+        ...scope,
+        OR: [
+          { createdAt: inRange },
+          { timelineActivities: { some: { activityType: { in: ['WORKFLOW_COMPLETED', 'WORKFLOW_CANCELLED', 'APPROVED', 'REJECTED'] }, timestamp: inRange } } }
+        ]
+      },
+      select: {
+        id: true,
+        type: true,
+        createdAt: true,
+        requester: { select: { department: true } },
+        timelineActivities: {
+          where: { entityType: 'APPROVAL_WORKFLOW', activityType: { in: ANALYTICS_ACTIVITY_TYPES } },
+          select: { activityType: true, timestamp: true, performedBy: true, metadata: true },
+          orderBy: { timestamp: 'asc' }
+        }
+      }
+    });
+
+    const workflowDecisions: Array<Decision & { type: WorkflowType; department: string }> = [];
+    const approverDecisions: Array<Decision & { approverId: string }> = [];
+    let cancelled = 0;
+
+    for (const workflow of workflows) {
+      const entries = workflow.timelineActivities;
+      const startedAt = entries.find(entry => entry.activityType === 'WORKFLOW_STARTED')?.timestamp || workflow.createdAt;
+      const completion = entries.find(entry => entry.activityType === 'WORKFLOW_COMPLETED');
+      const cancellation = entries.find(entry => entry.activityType === 'WORKFLOW_CANCELLED');
+
+      if (cancellation && cancellation.timestamp >= from && cancellation.timestamp <= to) {
+        cancelled++;
+      }
+
+      const finalStatus = completion ? metadataOf(completion).finalStatus : null;
+      if (completion && completion.timestamp >= from && completion.timestamp <= to && (finalStatus === 'APPROVED' || finalStatus === 'REJECTED')) {
+        workflowDecisions.push({
+          type: workflow.type,
+          department: workflow.requester.department,
+          outcome: finalStatus,
+          hours: (completion.timestamp.getTime() - startedAt.getTime()) / HOUR_MS,
+          at: completion.timestamp
+        });
+      }
+
+      // Stage decisions time each approver; single-step workflows only record their completion
+      const stageDecisions = entries.filter(entry => entry.activityType === 'APPROVED' || entry.activityType === 'REJECTED');
+      const decisionEntries = stageDecisions.length > 0 ? stageDecisions : completion ? [completion] : [];
+
+      for (const entry of decisionEntries) {
+        if (entry.timestamp < from || entry.timestamp > to) {
+          continue;
+        }
+
+        const metadata = metadataOf(entry);
+        const outcome = entry.activityType === 'WORKFLOW_COMPLETED' ? metadata.finalStatus : entry.activityType;
+        if (outcome !== 'APPROVED' && outcome !== 'REJECTED') {
+          continue;
+        }
+
+        const stageNumber = typeof metadata.stageNumber === 'number' ? metadata.stageNumber : null;
+        let reachedAt = startedAt;
+        for (const earlier of entries) {
+          if (earlier.timestamp > entry.timestamp) {
+            break;
+          }
+          const earlierMetadata = metadataOf(earlier);
+          const earlierStage = typeof earlierMetadata.stageNumber === 'number' ? earlierMetadata.stageNumber : null;
+          const previousStageDecided = (earlier.activityType === 'APPROVED' || earlier.activityType === 'REJECTED') &&
+            stageNumber !== null && earlierStage !== null && earlierStage < stageNumber;
+          const handedToApprover = (earlier.activityType === 'WORKFLOW_ESCALATED' || earlier.activityType === 'WORKFLOW_DELEGATED') &&
+            (earlierMetadata.toApproverId === entry.performedBy);
+          if (previousStageDecided || handedToApprover) {
+            reachedAt = earlier.timestamp;
+          }
+        }
+
+        approverDecisions.push({
+          approverId: entry.performedBy,
+          outcome,
+          hours: (entry.timestamp.getTime() - reachedAt.getTime()) / HOUR_MS,
+          at: entry.timestamp
+        });
+      }
+    }
+
+    const approverIds = Array.from(new Set(approverDecisions.map(decision => decision.approverId)));
+    const [approvers, pending, oldest] = await Promise.all([
+      prisma.employee.findMany({ where: { id: { in: approverIds } }, select: { id: true, name: true } }),
+      prisma.approvalWorkflow.count({ where: { ...scope, status: { in: ['PENDING', 'NEEDS_INFO'] } } }),
+      prisma.approvalWorkflow.findMany({
+        where: { ...scope, status: { in: ['PENDING', 'NEEDS_INFO'] } },
+        orderBy: { createdAt: 'asc' },
+        take: OLDEST_PENDING_LIMIT,
+        select: {
+          id: true,
+          type: true,
+          data: true,
+          createdAt: true,
+          slaDueAt: true,
+          requester: { select: { name: true, department: true } },
+          approver: { select: { name: true } }
+        }
+      })
+    ]);
+    const approverNames = new Map(approvers.map(approver => [approver.id, approver.name]));
+    const now = new Date();
+
+    // Every period in the range is listed, including empty ones, so charts keep their scale
+    const trend: AnalyticsTrendPoint[] = [];
+    for (let start = periodStart(from, interval); start <= to; start = nextPeriod(start, interval)) {
+      const end = nextPeriod(start, interval);
+      trend.push({
+        periodStart: start.toISOString(),
+        created: workflows.filter(workflow => workflow.createdAt >= start && workflow.createdAt < end && workflow.createdAt >= from && workflow.createdAt <= to).length,
+        ...summarize(workflowDecisions.filter(decision => decision.at >= start && decision.at < end))
+      });
+    }
+
+    const bySlowest = <T extends DecisionTimeStats>(a: T, b: T) => (b.medianHours ?? 0) - (a.medianHours ?? 0);
+
+    return {
+      success: true,
+      analytics: {
+        range: { from: from.toISOString(), to: to.toISOString(), interval },
+        totals: {
+          created: workflows.filter(workflow => workflow.createdAt >= from && workflow.createdAt <= to).length,
+          cancelled,
+          pending,
+          ...summarize(workflowDecisions)
+        },
+        byType: Array.from(groupBy(workflowDecisions, decision => decision.type))
+          .map(([type, decisions]) => ({ type: type as WorkflowType, ...summarize(decisions) }))
+          .sort(bySlowest),
+        byApprover: Array.from(groupBy(approverDecisions, decision => decision.approverId))
+          .map(([approverId, decisions]) => ({ approverId, approverName: approverNames.get(approverId) || 'Unknown', ...summarize(decisions) }))
+          .sort(bySlowest),
+        byDepartment: Array.from(groupBy(workflowDecisions, decision => decision.department))
+          .map(([department, decisions]) => ({ department, ...summarize(decisions) }))
+          .sort(bySlowest),
+        trend,
+        oldestPending: oldest.map(workflow => ({
+          id: workflow.id,
+          type: workflow.type,
+          title: getWorkflowTitle(workflow),
+          requesterName: workflow.requester.name,
+          department: workflow.requester.department,
+          approverName: workflow.approver?.name || null,
+          createdAt: workflow.createdAt.toISOString(),
+          ageHours: Math.round(((now.getTime() - workflow.createdAt.getTime()) / HOUR_MS) * 10) / 10,
+          slaDueAt: workflow.slaDueAt ? workflow.slaDueAt.toISOString() : null,
+          overdue: !!workflow.slaDueAt && workflow.slaDueAt <= now
+        }))
+      }
+    };
+  } catch (error) {
+    console.error('Error computing workflow analytics:', error);
+    return { success: false, error: 'Failed to compute workflow analytics', errorCode: 'ANALYTICS_FAILED' };
+  }
+}
+
+// Map an analytics error code to an HTTP status for API routes
+export function getAnalyticsErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'INVALID_RANGE':
+    case 'INVALID_TYPE':
+      return 400;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Workflow Change Service
+ * Lets requesters withdraw or edit a request that is still awaiting approval. Each amendment
+ * keeps the previous data as a revision; an amount that moves the request into a different
+ * approval band restarts the approval chain. Approvers are told when a request changes.
+ */
+
+import { ApprovalStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { ApprovalStagePlan, getApprovalAmountBand, resolveApprovalStages } from './roleAuth';
+import { buildSlaClock, decisionLinkLines, getWorkflowTitle, notifyAssignedApprovers } from './approvalSlaService';
+import { revokeDecisionLinks } from './emailApprovalService';
+import { resolveDelegate } from './delegationService';
+import { getWorkflowParticipation } from './workflowThreadService';
+import { getWorkflowTemplate, hasTemplateRoutingChanged, validateTemplateSubmission } from './workflowTemplateService';
+import { sendMail } from './mail';
+import { getCompanyName } from './config/company';
+
+// Statuses in which the requester may still withdraw or edit a request
+const OPEN_STATUSES: ApprovalStatus[] = ['PENDING', 'NEEDS_INFO'];
+
+// Keys that link the workflow to other records or are set by the system
+const PROTECTED_DATA_KEYS = [
+  'accessRequestId',
+  'policyId',
+  'resourceId',
+  'itemId',
+  'employeeId',
+  'requestedBy',
+  'requestedAt',
+  'requestType',
+  'priority',
+  'autoCreated',
+  'operationalCategory',
+  'createdAt',
+  'attachments'
+];
+
+export interface WorkflowAmendmentInput {
+  changes: Record<string, unknown>; // data fields to set, e.g. { amount: 900, justification: '...' }
+  reason?: string | null;
+}
+
+export interface WorkflowChangeResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  workflow?: unknown;
+  approvalRestarted?: boolean;
+  revisions?: unknown[];
+}
+
+interface DataChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+function asDataObject(data: Prisma.JsonValue): Record<string, unknown> {
+  return data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : {};
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function approvalsLink(): string[] {
+  return process.env.APP_URL ? ['', `${process.env.APP_URL.replace(/\/$/, '')}/approvals`] : [];
+}
+
+// Withdraw a pending request. Only the requester can cancel their own workflow.
+export async function cancelWorkflow(
+  workflowId: string,
+  actor: { id: string; name: string },
+  reason?: string | null
+): Promise<WorkflowChangeResult> {
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: { approver: { select: { id: true, name: true, email: true } } }
+  });
+
+  if (!workflow) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (workflow.requesterId !== actor.id) {
+    return { success: false, error: 'Only the requester can cancel this workflow', errorCode: 'FORBIDDEN' };
+  }
+
+  if (!OPEN_STATUSES.includes(workflow.status)) {
+    return { success: false, error: 'Only pending workflows can be cancelled', errorCode: 'WORKFLOW_NOT_PENDING' };
+  }
+
+  const trimmedReason = reason?.trim() || null;
+  const data = asDataObject(workflow.data);
+
+  const cancelled = await prisma.$transaction(async (tx) => {
+    // A decision landing at the same moment wins; the cancellation then does nothing
+    const moved = await tx.approvalWorkflow.updateMany({
+      where: { id: workflowId, status: { in: OPEN_STATUSES } },
+      data: {
+        status: 'CANCELLED',
+        comments: trimmedReason ? `Cancelled by requester: ${trimmedReason}` : 'Cancelled by requester'
+      }
+    });
+
+    if (moved.count === 0) {
+      return false;
+    }
+
+    await tx.approvalStage.updateMany({
+      where: { workflowId, decision: 'PENDING' },
+      data: { decision: 'CANCELLED' }
+    });
+
+    // The records waiting on this workflow are withdrawn with it
+    if (workflow.type === 'ACCESS_REQUEST' && typeof data.accessRequestId === 'string') {
+      await tx.access.updateMany({
+        where: { id: data.accessRequestId, status: 'REQUESTED' },
+        data: { status: 'REVOKED', revokedAt: new Date() }
+      });
+    }
+
+    if (workflow.type === 'POLICY_UPDATE_REQUEST' && workflow.policyId) {
+      await tx.policy.updateMany({
+        where: { id: workflow.policyId, status: 'REVIEW' },
+        data: { status: 'DRAFT' }
+      });
+    }
+
+    return true;
+  });
+
+  if (!cancelled) {
+    return { success: false, error: 'The workflow was decided before it could be cancelled', errorCode: 'WORKFLOW_NOT_PENDING' };
+  }
+
+  const title = getWorkflowTitle(workflow);
+
+  await logAudit({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    changedById: actor.id,
+    fieldChanged: 'status',
+    oldValue: workflow.status,
+    newValue: 'CANCELLED'
+  });
+
+  await logTimelineActivity({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    activityType: 'WORKFLOW_CANCELLED',
+    title: `Workflow cancelled by ${actor.name}`,
+    description: `${title} was withdrawn by the requester${trimmedReason ? `: ${trimmedReason}` : ''}`,
+    metadata: {
+      workflowType: workflow.type,
+      previousStatus: workflow.status,
+      reason: trimmedReason,
+      approverName: workflow.approver?.name
+    },
+    performedBy: actor.id,
+    workflowId
+  });
+
+  if (workflow.approver && workflow.approver.id !== actor.id) {
+    await sendMail({
+      to: workflow.approver.email,
+      subject: `Request withdrawn: ${title}`,
+      text: [
+        `Hi ${workflow.approver.name},`,
+        '',
+        `${actor.name} has withdrawn "${title}". No decision is needed from you any more.`,
+        ...(trimmedReason ? ['', `Reason: ${trimmedReason}`] : []),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  const updated = await prisma.approvalWorkflow.findUnique({ where: { id: workflowId } });
+  return { success: true, workflow: updated };
+}
+
+/**
+ * Edit a pending request. The previous data is kept as a revision. If the amount moves into
+ * a different approval band (or template routing rule), the approval chain is resolved again
+ * and starts from stage 1.
+ */
+export async function amendWorkflow(
+  workflowId: string,
+  actor: { id: string; name: string },
+  input: WorkflowAmendmentInput
+): Promise<WorkflowChangeResult> {
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: { approver: { select: { id: true, name: true, email: true } } }
+  });
+
+  if (!workflow) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (workflow.requesterId !== actor.id) {
+    return { success: false, error: 'Only the requester can amend this workflow', errorCode: 'FORBIDDEN' };
+  }
+
+  if (!OPEN_STATUSES.includes(workflow.status)) {
+    return { success: false, error: 'Only pending workflows can be amended', errorCode: 'WORKFLOW_NOT_PENDING' };
+  }
+
+  if (!input.changes || typeof input.changes !== 'object' || Array.isArray(input.changes)) {
+    return { success: false, error: 'changes must be an object of fields to update', errorCode: 'VALIDATION_ERROR' };
+  }
+
+  const protectedKeys = Object.keys(input.changes).filter(key => PROTECTED_DATA_KEYS.includes(key));
+  if (protectedKeys.length > 0) {
+    return { success: false, error: `These fields cannot be amended: ${protectedKeys.join(', ')}`, errorCode: 'VALIDATION_ERROR' };
+  }
+
+  if ('amount' in input.changes) {
+    const amount = input.changes.amount;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      return { success: false, error: 'amount must be a non-negative number', errorCode: 'VALIDATION_ERROR' };
+    }
+  }
+
+  const previousData = asDataObject(workflow.data);
+  let requestedChanges = input.changes;
+
+  // Templated requests must still pass their form's checks, exactly as when they were raised
+  const template = await getWorkflowTemplate(workflow.type);
+  if (template) {
+    const attachmentKeys = Object.keys(asDataObject(previousData.attachments as Prisma.JsonValue));
+    const { values, fieldErrors } = validateTemplateSubmission(template, { ...previousData, ...input.changes }, attachmentKeys);
+    if (Object.keys(fieldErrors).length > 0) {
+      return { success: false, error: Object.values(fieldErrors).join('; '), errorCode: 'VALIDATION_ERROR' };
+    }
+
+    // Store the normalised values, e.g. a trimmed string or a date without its time
+    requestedChanges = Object.fromEntries(
+      Object.entries(input.changes).map(([key, value]) => [key, key in values ? values[key] : value])
+    );
+  }
+
+  const changes: DataChange[] = Object.entries(requestedChanges)
+    .filter(([field, value]) => JSON.stringify(previousData[field]) !== JSON.stringify(value))
+    .map(([field, value]) => ({ field, from: previousData[field], to: value }));
+
+  if (changes.length === 0) {
+    return { success: false, error: 'Nothing changed', errorCode: 'NO_CHANGES' };
+  }
+
+  const newData = { ...previousData, ...requestedChanges };
+  const previousAmount = Number(previousData.amount) || 0;
+  const newAmount = Number(newData.amount) || 0;
+  const approvalRestarted = getApprovalAmountBand(workflow.type, previousAmount) !== getApprovalAmountBand(workflow.type, newAmount) ||
+    await hasTemplateRoutingChanged(workflow.type, previousAmount, newAmount, workflow.requesterId);
+  const reason = input.reason?.trim() || null;
+
+  // Different routing means different approvers: plan the chain as if the request were new
+  let stages: (ApprovalStagePlan & { delegatedFromId: string | null })[] = [];
+  if (approvalRestarted) {
+    let plannedStages: ApprovalStagePlan[];
+    try {
+      plannedStages = await resolveApprovalStages(workflow.type, newAmount, workflow.requesterId);
+    } catch (error) {
+      // A parallel group that cannot be staffed for the new amount
+      return { success: false, error: error instanceof Error ? error.message : 'No suitable approver found', errorCode: 'NO_APPROVER' };
+    }
+    if (plannedStages.length === 0) {
+      return { success: false, error: 'No suitable approver found for the amended amount', errorCode: 'NO_APPROVER' };
+    }
+    stages = await Promise.all(plannedStages.map(async stage => {
+      const delegated = await resolveDelegate(stage.approverId, workflow.type);
+      return delegated.approverId === workflow.requesterId
+        ? { ...stage, delegatedFromId: null }
+        : { ...stage, ...delegated };
+    }));
+  }
+
+  const priority = typeof newData.priority === 'string' ? newData.priority : undefined;
+
+  const amended = await prisma.$transaction(async (tx) => {
+    // The version check stops two amendments (or an amendment and a decision) interleaving
+    const moved = await tx.approvalWorkflow.updateMany({
+      where: { id: workflowId, version: workflow.version, status: { in: OPEN_STATUSES } },
+      data: {
+        data: newData as Prisma.InputJsonObject,
+        version: workflow.version + 1,
+        // An amendment answers an outstanding request for more information
+        status: 'PENDING',
+        ...((approvalRestarted || workflow.status === 'NEEDS_INFO') && buildSlaClock(workflow.type, priority)),
+        ...(approvalRestarted && {
+          approverId: stages[0].approverId,
+          delegatedFromId: stages[0].delegatedFromId,
+          currentStage: 1,
+          escalationLevel: 0
+        })
+      }
+    });
+
+    if (moved.count === 0) {
+      return false;
+    }
+
+    if (approvalRestarted) {
+      await tx.approvalStage.deleteMany({ where: { workflowId } });
+      await tx.approvalStage.createMany({
+        data: stages.map(stage => ({
+          workflowId,
+          stageNumber: stage.stageNumber,
+          approverRole: stage.approverRole,
+          approverId: stage.approverId,
+          delegatedFromId: stage.delegatedFromId,
+          completionRule: stage.completionRule,
+          requiredApprovals: stage.requiredApprovals,
+          vetoOnRejection: stage.vetoOnRejection
+        }))
+      });
+    }
+
+    await tx.workflowRevision.create({
+      data: {
+        workflowId,
+        version: workflow.version,
+        data: previousData as Prisma.InputJsonObject,
+        changedById: actor.id,
+        reason,
+        approvalRestarted
+      }
+    });
+
+    return true;
+  });
+
+  if (!amended) {
+    return { success: false, error: 'The workflow changed while you were editing; reload and try again', errorCode: 'WORKFLOW_STATE_CHANGED' };
+  }
+
+  const updated = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      approver: { select: { id: true, name: true, email: true } },
+      stages: {
+        include: { approver: { select: { id: true, name: true, role: true } } },
+        orderBy: { stageNumber: 'asc' }
+      }
+    }
+  });
+
+  const title = getWorkflowTitle({ type: workflow.type, data: newData });
+  const changeLines = changes.map(change => `- ${change.field}: ${describeValue(change.from)} → ${describeValue(change.to)}`);
+
+  await logAudit({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    changedById: actor.id,
+    fieldChanged: 'data',
+    oldValue: JSON.stringify(previousData),
+    newValue: JSON.stringify(newData)
+  });
+
+  await logTimelineActivity({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    activityType: 'WORKFLOW_AMENDED',
+    title: `Request amended by ${actor.name}${approvalRestarted ? '; approval restarted' : ''}`,
+    description: `${title} changed to version ${workflow.version + 1}: ${changes.map(change => change.field).join(', ')}${reason ? `. Reason: ${reason}` : ''}`,
+    metadata: {
+      workflowType: workflow.type,
+      version: workflow.version + 1,
+      changes,
+      reason,
+      approvalRestarted,
+      previousApproverId: workflow.approverId,
+      approverId: updated?.approverId
+    },
+    performedBy: actor.id,
+    workflowId
+  });
+
+  // Links already emailed describe the old version, so they stop working and fresh ones go out
+  await revokeDecisionLinks(workflowId);
+
+  // Whoever has the request now is told what changed; a replaced approver is told it moved on
+  const currentApprover = updated?.approver;
+  if (currentApprover && currentApprover.id !== actor.id) {
+    await sendMail({
+      to: currentApprover.email,
+      subject: `Request changed: ${title}`,
+      text: [
+        `Hi ${currentApprover.name},`,
+        '',
+        approvalRestarted && currentApprover.id !== workflow.approverId
+          ? `${actor.name} amended "${title}" and it now needs your approval.`
+          : `${actor.name} amended "${title}", which is waiting for your decision. Please review the changes:`,
+        '',
+        ...changeLines,
+        ...(reason ? ['', `Reason: ${reason}`] : []),
+        ...(updated ? await decisionLinkLines(workflowId, currentApprover.id, updated.currentStage) : []),
+        ...approvalsLink(),
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  if (approvalRestarted && workflow.approver && workflow.approver.id !== currentApprover?.id && workflow.approver.id !== actor.id) {
+    await sendMail({
+      to: workflow.approver.email,
+      subject: `Request rerouted: ${title}`,
+      text: [
+        `Hi ${workflow.approver.name},`,
+        '',
+        `${actor.name} amended "${title}" and the new amount needs a different approval chain, so it no longer needs your decision.`,
+        '',
+        ...changeLines,
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  // Other undecided members of a parallel group get new links too
+  if (updated) {
+    await notifyAssignedApprovers(workflowId, updated.stages
+      .filter(stage => stage.stageNumber === updated.currentStage && stage.decision === 'PENDING' && stage.approverId !== currentApprover?.id)
+      .map(stage => stage.approverId));
+  }
+
+  return { success: true, workflow: updated, approvalRestarted };
+}
+
+// Earlier versions of a workflow's data, newest first
+export async function listWorkflowRevisions(
+  workflowId: string,
+  actor: { id: string; role: string }
+): Promise<WorkflowChangeResult> {
+  const participation = await getWorkflowParticipation(workflowId, actor);
+
+  if (!participation) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (!participation.canView) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  const revisions = await prisma.workflowRevision.findMany({
+    where: { workflowId },
+    include: { changedBy: { select: { id: true, name: true } } },
+    orderBy: { version: 'desc' }
+  });
+
+  return { success: true, revisions };
+}
+
+// Map a change error code to an HTTP status for API routes
+export function getWorkflowChangeErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'WORKFLOW_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+      return 403;
+    case 'WORKFLOW_NOT_PENDING':
+    case 'WORKFLOW_STATE_CHANGED':
+      return 409;
+    case 'NO_APPROVER':
+      return 422;
+    default:
+      return 400;
+  }
+}
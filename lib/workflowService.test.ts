@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { decideWorkflowsInBulk } from './workflowService';
+
+interface StageRow {
+  id: string;
+  workflowId: string;
+  stageNumber: number;
+  approverId: string;
+  delegatedFromId: string | null;
+  decision: string;
+  approverRole: string | null;
+  completionRule: string;
+  requiredApprovals: number;
+  vetoOnRejection: boolean;
+}
+
+interface WorkflowRow {
+  id: string;
+  type: string;
+  status: string;
+  requesterId: string;
+  approverId: string;
+  delegatedFromId: string | null;
+  currentStage: number;
+  data: Record<string, unknown>;
+  policyId: string | null;
+}
+
+type StageWhere = { id?: string; workflowId?: string; decision?: string; stageNumber?: number | { gte: number } };
+
+const db = vi.hoisted(() => ({
+  employees: [] as { id: string; name: string; role: string; status: string }[],
+  workflows: [] as WorkflowRow[],
+  stages: [] as StageRow[]
+}));
+
+function withStages(workflow: WorkflowRow) {
+  return {
+    ...workflow,
+    requester: { name: 'Requester' },
+    stages: db.stages.filter(stage => stage.workflowId === workflow.id).sort((a, b) => a.stageNumber - b.stageNumber)
+  };
+}
+
+function matchesStage(stage: StageRow, where: StageWhere) {
+  const stageNumber = where.stageNumber;
+  return (!where.id || stage.id === where.id)
+    && (!where.workflowId || stage.workflowId === where.workflowId)
+    && (!where.decision || stage.decision === where.decision)
+    && (stageNumber === undefined
+      || (typeof stageNumber === 'number' ? stage.stageNumber === stageNumber : stage.stageNumber >= stageNumber.gte));
+}
+
+// In-memory employees, workflows and stages, enough to record stage decisions
+vi.mock('./prisma', () => {
+  const client = {
+    $queryRaw: async () => [],
+    employee: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        db.employees.find(employee => employee.id === where.id) || null
+    },
+    approvalWorkflow: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const workflow = db.workflows.find(row => row.id === where.id);
+        return workflow ? withStages(workflow) : null;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<WorkflowRow> }) => {
+        const workflow = db.workflows.find(row => row.id === where.id)!;
+        const { status, approverId, delegatedFromId, currentStage } = data;
+        const changes = Object.entries({ status, approverId, delegatedFromId, currentStage }).filter(([, value]) => value !== undefined);
+        Object.assign(workflow, Object.fromEntries(changes));
+        return withStages(workflow);
+      }
+    },
+    approvalStage: {
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StageRow> }) =>
+        Object.assign(db.stages.find(stage => stage.id === where.id)!, data),
+      updateMany: async ({ where, data }: { where: StageWhere; data: Partial<StageRow> }) => {
+        const matches = db.stages.filter(stage => matchesStage(stage, where));
+        matches.forEach(stage => Object.assign(stage, data));
+        return { count: matches.length };
+      }
+    }
+  };
+  return { prisma: { ...client, $transaction: async (run: (tx: typeof client) => unknown) => run(client) } };
+});
+vi.mock('./roleService', () => ({ getEffectivePermissions: async () => ({ canApproveWorkflows: false }) }));
+vi.mock('./audit', () => ({ logAudit: async () => undefined }));
+vi.mock('./timeline', () => ({
+  logCreatedActivity: async () => undefined,
+  logStatusChangedActivity: async () => undefined,
+  logTimelineActivity: async () => undefined
+}));
+vi.mock('./approvalSlaService', () => ({
+  buildSlaClock: () => ({}),
+  notifyAssignedApprovers: async () => undefined,
+  withSla: <T>(workflows: T) => workflows
+}));
+vi.mock('./delegationService', () => ({
+  resolveDelegate: async (approverId: string) => ({ approverId, delegatedFromId: null })
+}));
+vi.mock('./fulfilmentService', () => ({ runFulfilment: async () => ({}) }));
+vi.mock('./workflowTemplateService', () => ({ buildTemplateTitle: () => '', getTemplateRouting: async () => null }));
+vi.mock('./fileUpload', () => ({ uploadFile: async () => null }));
+
+function stage(workflowId: string, stageNumber: number, approverId: string, delegatedFromId: string | null = null): StageRow {
+  return {
+    id: `${workflowId}-${stageNumber}-${approverId}`,
+    workflowId,
+    stageNumber,
+    approverId,
+    delegatedFromId,
+    decision: 'PENDING',
+    approverRole: null,
+    completionRule: 'ALL',
+    requiredApprovals: 1,
+    vetoOnRejection: true
+  };
+}
+
+function workflow(id: string, approverId: string, delegatedFromId: string | null = null): WorkflowRow {
+  return {
+    id,
+    type: 'IT_EQUIPMENT',
+    status: 'PENDING',
+    requesterId: 'requester',
+    approverId,
+    delegatedFromId,
+    currentStage: 1,
+    data: {},
+    policyId: null
+  };
+}
+
+beforeEach(() => {
+  db.employees = [
+    { id: 'manager', name: 'Manager', role: 'MANAGER', status: 'ACTIVE' },
+    { id: 'delegate', name: 'Delegate', role: 'EMPLOYEE', status: 'ACTIVE' },
+    { id: 'cto', name: 'CTO', role: 'CTO', status: 'ACTIVE' },
+    { id: 'leaver', name: 'Leaver', role: 'MANAGER', status: 'INACTIVE' }
+  ];
+  // wf-delegated waits on the delegate for the manager; wf-other waits on someone else
+  db.workflows = [workflow('wf-delegated', 'delegate', 'manager'), workflow('wf-other', 'cto')];
+  db.stages = [
+    stage('wf-delegated', 1, 'delegate', 'manager'),
+    stage('wf-delegated', 2, 'cto'),
+    stage('wf-other', 1, 'cto')
+  ];
+});
+
+describe('decideWorkflowsInBulk', () => {
+  it('lets a delegate decide the stages delegated to them and refuses the rest', async () => {
+    const result = await decideWorkflowsInBulk(['wf-delegated', 'wf-other'], { id: 'delegate', name: 'Delegate' }, 'APPROVED');
+
+    expect(result.succeeded).toBe(1);
+    expect(result.results[0]).toMatchObject({ workflowId: 'wf-delegated', success: true, status: 'PENDING', completed: false });
+    expect(result.results[1]).toMatchObject({ workflowId: 'wf-other', success: false, errorCode: 'NOT_STAGE_APPROVER', httpStatus: 403 });
+
+    expect(db.stages[0]).toMatchObject({ decision: 'APPROVED', approverId: 'delegate', delegatedFromId: 'manager' });
+    expect(db.workflows[0]).toMatchObject({ currentStage: 2, approverId: 'cto' });
+    expect(db.stages[2].decision).toBe('PENDING');
+  });
+
+  it('still lets the approver who delegated decide their own stage', async () => {
+    const result = await decideWorkflowsInBulk(['wf-delegated'], { id: 'manager', name: 'Manager' }, 'REJECTED');
+
+    expect(result.results[0]).toMatchObject({ success: true, status: 'REJECTED', completed: true });
+    expect(db.stages.filter(row => row.workflowId === 'wf-delegated').map(row => row.decision)).toEqual(['REJECTED', 'CANCELLED']);
+  });
+
+  it('refuses a stage that was already decided', async () => {
+    await decideWorkflowsInBulk(['wf-delegated'], { id: 'delegate', name: 'Delegate' }, 'APPROVED');
+    db.workflows[0].currentStage = 1;
+
+    const result = await decideWorkflowsInBulk(['wf-delegated'], { id: 'delegate', name: 'Delegate' }, 'APPROVED');
+    expect(result.results[0]).toMatchObject({ success: false, errorCode: 'STAGE_ALREADY_DECIDED', httpStatus: 409 });
+  });
+
+  it('refuses approvers who are no longer active', async () => {
+    db.stages[2].approverId = 'leaver';
+
+    const result = await decideWorkflowsInBulk(['wf-other'], { id: 'leaver', name: 'Leaver' }, 'APPROVED');
+    expect(result.results[0]).toMatchObject({ success: false, errorCode: 'APPROVER_INACTIVE', httpStatus: 403 });
+  });
+
+  it('decides each workflow once however often it is listed', async () => {
+    const result = await decideWorkflowsInBulk(['wf-other', 'wf-other'], { id: 'cto', name: 'CTO' }, 'APPROVED');
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0]).toMatchObject({ success: true, status: 'APPROVED', completed: true });
+  });
+});
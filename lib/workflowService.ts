@@ -1,13 +1,20 @@
 // lib/workflowService.ts
+import { Prisma, WorkflowType } from '@prisma/client';
 import { prisma } from './prisma';
-import { getOperationalApprover } from './roleAuth';
-import { logCreatedActivity, logTimelineActivity } from './timeline';
+import { countApprovalStages, resolveApprovalStages } from './roleAuth';
+import { logCreatedActivity, logStatusChangedActivity, logTimelineActivity } from './timeline';
 import { logAudit } from './audit';
+import { getEffectivePermissions } from './roleService';
+import { buildSlaClock, notifyAssignedApprovers, withSla } from './approvalSlaService';
+import { resolveDelegate } from './delegationService';
+import { FulfilmentRunResult, runFulfilment } from './fulfilmentService';
+import { buildTemplateTitle, getTemplateRouting, WorkflowTemplateDefinition } from './workflowTemplateService';
+import { uploadFile } from './fileUpload';
 
 export interface OperationalWorkflowRequest {
   type: string;
   requesterId: string;
-  data: any;
+  data: Prisma.InputJsonObject;
   title: string;
   description: string;
   amount?: number;
@@ -18,13 +25,21 @@ export interface OperationalWorkflowRequest {
 export async function createOperationalWorkflow(request: OperationalWorkflowRequest) {
   try {
 
-    // Get appropriate approver based on operational rules
-    const approverId = await getOperationalApprover(request.type, request.amount || 0, request.requesterId);
+    // Resolve the ordered approval chain based on operational rules
+    const plannedStages = await resolveApprovalStages(request.type, request.amount || 0, request.requesterId);
     
-    if (!approverId) {
+    if (plannedStages.length === 0) {
       throw new Error('No suitable approver found for this operational workflow');
     }
 
+    // Approvers who are away hand their stage to their delegate, unless that is the requester
+    const stages = await Promise.all(plannedStages.map(async stage => {
+      const delegated = await resolveDelegate(stage.approverId, request.type);
+      return delegated.approverId === request.requesterId
+        ? { ...stage, delegatedFromId: null }
+        : { ...stage, ...delegated };
+    }));
+
     // Get requester details
     const requester = await prisma.employee.findUnique({
       where: { id: request.requesterId },
@@ -35,29 +50,50 @@ export async function createOperationalWorkflow(request: OperationalWorkflowRequ
       throw new Error('Requester not found');
     }
 
+    const priority = request.priority || getOperationalPriority(request.type, request.amount);
+
     // Create the workflow
     const workflow = await prisma.approvalWorkflow.create({
       data: {
-        type: request.type as any,
+        type: request.type as WorkflowType,
         requesterId: request.requesterId,
-        approverId: approverId,
+        approverId: stages[0].approverId,
+        delegatedFromId: stages[0].delegatedFromId,
+        currentStage: 1,
         status: 'PENDING',
+        ...buildSlaClock(request.type, priority),
         data: {
           ...request.data,
           title: request.title,
           description: request.description,
           amount: request.amount || 0,
-          priority: request.priority || getOperationalPriority(request.type, request.amount),
+          priority,
           autoCreated: true,
           operationalCategory: getOperationalCategory(request.type),
           createdAt: new Date().toISOString()
         },
         comments: `Operational workflow created for ${request.type.replace('_', ' ').toLowerCase()}`,
-        ...(request.relatedEntityId && getEntityRelation(request.type, request.relatedEntityId))
+        ...(request.relatedEntityId && getEntityRelation(request.type, request.relatedEntityId)),
+        stages: {
+          create: stages.map(stage => ({
+            stageNumber: stage.stageNumber,
+            approverRole: stage.approverRole,
+            approverId: stage.approverId,
+            delegatedFromId: stage.delegatedFromId,
+            completionRule: stage.completionRule,
+            requiredApprovals: stage.requiredApprovals,
+            vetoOnRejection: stage.vetoOnRejection
+          }))
+        }
       },
       include: {
         requester: { select: { name: true, role: true, department: true } },
-        approver: { select: { name: true, role: true, department: true } }
+        approver: { select: { name: true, role: true, department: true } },
+        delegatedFrom: { select: { name: true } },
+        stages: {
+          include: { approver: { select: { name: true, role: true } } },
+          orderBy: { stageNumber: 'asc' }
+        }
       }
     });
 
@@ -72,7 +108,8 @@ export async function createOperationalWorkflow(request: OperationalWorkflowRequ
         type: workflow.type,
         status: workflow.status,
         operationalWorkflow: true,
-        amount: request.amount
+        amount: request.amount,
+        approvalStages: countApprovalStages(workflow.stages)
       })
     });
 
@@ -101,7 +138,7 @@ export async function createOperationalWorkflow(request: OperationalWorkflowRequ
       entityId: workflow.id,
       activityType: 'WORKFLOW_STARTED',
       title: `${request.title} - Operational Approval Required`,
-      description: `${getOperationalDescription(workflow.type)} workflow created by ${workflow.requester.name} (${workflow.requester.department}) and assigned to ${workflow.approver?.name}`,
+      description: `${getOperationalDescription(workflow.type)} workflow created by ${workflow.requester.name} (${workflow.requester.department}) and assigned to ${workflow.approver?.name}${workflow.delegatedFrom ? ` on behalf of ${workflow.delegatedFrom.name}` : ''}${describeFirstStage(workflow.stages)}`,
       metadata: {
         workflowType: workflow.type,
         operationalCategory: getOperationalCategory(workflow.type),
@@ -109,15 +146,25 @@ export async function createOperationalWorkflow(request: OperationalWorkflowRequ
         requesterRole: workflow.requester.role,
         requesterDepartment: workflow.requester.department,
         approverName: workflow.approver?.name,
+        onBehalfOfName: workflow.delegatedFrom?.name,
         amount: request.amount,
         priority: request.priority,
         businessJustification: request.data.justification,
-        operationalWorkflow: true
+        operationalWorkflow: true,
+        approvalChain: workflow.stages.map(stage => ({
+          stageNumber: stage.stageNumber,
+          approverRole: stage.approverRole,
+          approverName: stage.approver.name,
+          completionRule: stage.completionRule,
+          requiredApprovals: stage.requiredApprovals
+        }))
       },
       performedBy: request.requesterId,
       workflowId: workflow.id
     });
 
+    await notifyAssignedApprovers(workflow.id, workflow.stages.filter(stage => stage.stageNumber === 1).map(stage => stage.approverId));
+
     return workflow;
 
   } catch (error) {
@@ -126,6 +173,29 @@ export async function createOperationalWorkflow(request: OperationalWorkflowRequ
   }
 }
 
+// "all 2 must approve", "any 1 of 3 can approve", "2 of 3 must approve"
+function describeGroupRule(group: { completionRule: string; requiredApprovals: number }[]): string {
+  const rule = group[0];
+  switch (rule.completionRule) {
+    case 'ANY':
+      return `any 1 of ${group.length} can approve`;
+    case 'QUORUM':
+      return `${rule.requiredApprovals} of ${group.length} must approve`;
+    default:
+      return `all ${group.length} must approve`;
+  }
+}
+
+// Suffix for the "assigned to" line of a new workflow: the rest of a parallel first stage and the stage count
+function describeFirstStage(stages: { stageNumber: number; completionRule: string; requiredApprovals: number; approver: { name: string } }[]): string {
+  const group = stages.filter(stage => stage.stageNumber === 1);
+  const totalStages = countApprovalStages(stages);
+  const together = group.length > 1
+    ? ` together with ${group.slice(1).map(stage => stage.approver.name).join(', ')} (${describeGroupRule(group)})`
+    : '';
+  return `${together}${totalStages > 1 ? ` (stage 1 of ${totalStages})` : ''}`;
+}
+
 // Helper function to get operational category
 function getOperationalCategory(workflowType: string): string {
   if (workflowType.includes('IT_') || workflowType.includes('SOFTWARE_') || workflowType.includes('CLOUD_')) {
@@ -276,63 +346,800 @@ export async function createPolicyPublishWorkflow(policyId: string, requesterId:
   });
 }
 
+/**
+ * Raise a request from its workflow type's template. The values have already been validated
+ * against the template; the uploaded attachments open the workflow's discussion thread.
+ */
+export async function createTemplatedRequest(
+  template: WorkflowTemplateDefinition,
+  values: Record<string, unknown>,
+  attachments: { key: string; file: File }[],
+  requesterId: string
+) {
+  const amount = typeof values.amount === 'number' ? values.amount : 0;
+  const routing = await getTemplateRouting(template.workflowType, amount, requesterId);
+  const title = buildTemplateTitle(template, values);
+  const uploads = await Promise.all(attachments.map(async ({ key, file }) => ({
+    key,
+    upload: await uploadFile(file, 'workflow-attachments')
+  })));
+
+  const workflow = await createOperationalWorkflow({
+    type: template.workflowType,
+    requesterId,
+    data: {
+      ...values,
+      requestType: template.workflowType.replace(/_REQUEST$/, '').toLowerCase(),
+      ...(uploads.length > 0 && {
+        attachments: Object.fromEntries(uploads.map(({ key, upload }) => [key, upload.fileName]))
+      })
+    },
+    title,
+    description: typeof values.description === 'string'
+      ? values.description
+      : typeof values.justification === 'string' ? values.justification : title,
+    amount,
+    priority: routing?.priority || template.defaultPriority
+  });
+
+  if (uploads.length > 0) {
+    const labels = new Map(template.requiredAttachments.map(attachment => [attachment.key, attachment.label]));
+    await prisma.workflowMessage.create({
+      data: {
+        workflowId: workflow.id,
+        authorId: requesterId,
+        kind: 'COMMENT',
+        body: uploads.map(({ key, upload }) => `${labels.get(key) || key}: ${upload.fileName}`).join('\n'),
+        attachments: { create: uploads.map(({ upload }) => upload) }
+      }
+    });
+  }
+
+  return workflow;
+}
+
+const decidedWorkflowInclude = {
+  requester: { select: { id: true, name: true, email: true, department: true } },
+  approver: { select: { id: true, name: true, email: true, department: true } },
+  stages: {
+    include: { approver: { select: { id: true, name: true, role: true } } },
+    orderBy: { stageNumber: 'asc' }
+  }
+} satisfies Prisma.ApprovalWorkflowInclude;
+
+export interface WorkflowDecisionResult {
+  success: boolean;
+  workflow?: Prisma.ApprovalWorkflowGetPayload<{ include: typeof decidedWorkflowInclude }>;
+  completed?: boolean; // true once the decision closes the whole workflow
+  fulfilment?: FulfilmentRunResult; // set when the final approval ran the type's fulfilment handler
+  warning?: string; // the decision stands but updating the related record failed
+  error?: string;
+  errorCode?: string;
+}
+
+// What decideWorkflowStage recorded under the workflow lock, for the audit trail and notifications
+interface RecordedStageDecision {
+  workflow: Prisma.ApprovalWorkflowGetPayload<{ include: { requester: { select: { name: true } }; stages: true } }>;
+  updatedWorkflow: NonNullable<WorkflowDecisionResult['workflow']>;
+  approverName: string;
+  onBehalfOf: { id: string; name: string } | null;
+  stage: Prisma.ApprovalStageGetPayload<object> | undefined;
+  isGroup: boolean;
+  totalStages: number;
+  approvals: number;
+  requiredApprovals: number;
+  stageOutcome: 'APPROVED' | 'REJECTED' | null;
+  completed: boolean;
+  nextApproverIds: string[];
+  nextStageNumber?: number;
+  decisionComments: string;
+}
+
+// Record an approver's decision on the current stage of a workflow.
+// A stage is one approver, or a parallel group whose completion rule (all, any, or N of M)
+// decides when it is approved. Once a stage is approved the workflow advances to the next one;
+// only the last stage sets the workflow to APPROVED. A rejection rejects the workflow and cancels
+// the remaining decisions, unless the group has no veto and can still reach its rule.
+// The final approval runs the workflow type's fulfilment handler; a failed fulfilment is recorded
+// on the workflow for a retry and does not undo the approval. A final rejection is reflected on
+// the record the workflow was raised for. Only active employees can decide.
+export async function decideWorkflowStage(
+  workflowId: string,
+  approverId: string,
+  decision: 'APPROVED' | 'REJECTED',
+  comments?: string
+): Promise<WorkflowDecisionResult> {
+  try {
+    const approver = await prisma.employee.findUnique({
+      where: { id: approverId },
+      select: { id: true, name: true, role: true, status: true }
+    });
+    const canApproveAnyWorkflow = approver
+      ? (await getEffectivePermissions(approver.id, approver.role)).canApproveWorkflows
+      : false;
+
+    const outcome = await prisma.$transaction(async (tx): Promise<WorkflowDecisionResult & { recorded?: RecordedStageDecision }> => {
+      // Lock the workflow row so concurrent decisions on a group are counted one at a time
+      await tx.$queryRaw`SELECT "id" FROM "ApprovalWorkflow" WHERE "id" = ${workflowId} FOR UPDATE`;
+
+      const workflow = await tx.approvalWorkflow.findUnique({
+        where: { id: workflowId },
+        include: {
+          requester: { select: { name: true } },
+          stages: { orderBy: { stageNumber: 'asc' } }
+        }
+      });
+
+      if (!workflow) {
+        return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+      }
+
+      // An approver who asked for more information can still decide without waiting for the reply
+      if (workflow.status !== 'PENDING' && workflow.status !== 'NEEDS_INFO') {
+        return { success: false, error: 'Workflow is not pending', errorCode: 'WORKFLOW_NOT_PENDING' };
+      }
+
+      if (!approver) {
+        return { success: false, error: 'Approver not found', errorCode: 'APPROVER_NOT_FOUND' };
+      }
+
+      // Emailed links and API tokens can outlive an approver's employment
+      if (approver.status !== 'ACTIVE') {
+        return { success: false, error: 'Only active employees can decide workflows', errorCode: 'APPROVER_INACTIVE' };
+      }
+
+      // Workflows created before approval stages existed are decided in one step
+      const group = workflow.stages.filter(s => s.stageNumber === workflow.currentStage);
+      const totalStages = countApprovalStages(workflow.stages);
+      const isMember = (s: { approverId: string; delegatedFromId: string | null }) =>
+        s.approverId === approverId || s.delegatedFromId === approverId;
+
+      // An approver who is back before their delegation ends can still decide their own stage
+      const stage = group.find(s => s.decision === 'PENDING' && isMember(s));
+
+      if (group.length > 0 && !stage) {
+        const alreadyDecided = group.some(s => s.decision !== 'PENDING' && isMember(s));
+        return {
+          success: false,
+          error: alreadyDecided
+            ? `You have already decided stage ${workflow.currentStage} of ${totalStages}`
+            : `Stage ${workflow.currentStage} of ${totalStages} is awaiting a different approver`,
+          errorCode: alreadyDecided ? 'STAGE_ALREADY_DECIDED' : 'NOT_STAGE_APPROVER'
+        };
+      }
+
+      // Single-stage workflows go to their assigned approver; approval administrators can step in
+      if (!stage && workflow.approverId !== approverId && workflow.delegatedFromId !== approverId && !canApproveAnyWorkflow) {
+        return {
+          success: false,
+          error: 'This workflow is awaiting a different approver',
+          errorCode: 'NOT_STAGE_APPROVER'
+        };
+      }
+
+      const delegatedFromId = stage ? stage.delegatedFromId : workflow.delegatedFromId;
+      const onBehalfOf = delegatedFromId && delegatedFromId !== approverId
+        ? await tx.employee.findUnique({ where: { id: delegatedFromId }, select: { id: true, name: true } })
+        : null;
+
+      // Where the stage stands once this decision is counted
+      const othersPending = group.filter(s => s.id !== stage?.id && s.decision === 'PENDING');
+      const approvals = group.filter(s => s.decision === 'APPROVED').length + (decision === 'APPROVED' ? 1 : 0);
+      const requiredApprovals = stage ? stage.requiredApprovals : 1;
+      const canStillPass = approvals + othersPending.length >= requiredApprovals;
+      let stageOutcome: 'APPROVED' | 'REJECTED' | null = null;
+      if (!stage) {
+        stageOutcome = decision;
+      } else if (approvals >= requiredApprovals) {
+        stageOutcome = 'APPROVED';
+      } else if ((decision === 'REJECTED' && stage.vetoOnRejection) || !canStillPass) {
+        stageOutcome = 'REJECTED';
+      }
+
+      const nextGroup = stage && stageOutcome === 'APPROVED'
+        ? workflow.stages.filter(s => s.stageNumber === stage.stageNumber + 1)
+        : [];
+      const completed = stageOutcome !== null && nextGroup.length === 0;
+
+      // The next stage goes to its approvers' delegates if they are away by now
+      const nextApprovers = await Promise.all(nextGroup.map(async next => {
+        const original = next.delegatedFromId || next.approverId;
+        const delegated = await resolveDelegate(original, workflow.type);
+        return {
+          stage: next,
+          ...(delegated.approverId === workflow.requesterId ? { approverId: original, delegatedFromId: null } : delegated)
+        };
+      }));
+
+      // While a group is still open the workflow points at a member who has not decided yet
+      const stillWaitingOn = stageOutcome === null && stage && (workflow.approverId === stage.approverId || workflow.approverId === approverId)
+        ? othersPending[0]
+        : undefined;
+
+      // A group still deciding keeps waiting on the requester if someone asked for more information
+      const newStatus = completed && stageOutcome
+        ? stageOutcome
+        : workflow.status === 'NEEDS_INFO' && !stageOutcome ? 'NEEDS_INFO' : 'PENDING';
+      const decisionComments = comments || `${decision === 'APPROVED' ? 'Approved' : 'Rejected'} via web interface`;
+
+      if (stage) {
+        // Only a stage that is still pending can take this decision
+        const claimed = await tx.approvalStage.updateMany({
+          where: { id: stage.id, decision: 'PENDING' },
+          data: {
+            decision,
+            decidedAt: new Date(),
+            comments: decisionComments,
+            approverId,
+            delegatedFromId: onBehalfOf?.id || null
+          }
+        });
+
+        if (claimed.count === 0) {
+          return {
+            success: false,
+            error: `You have already decided stage ${stage.stageNumber} of ${totalStages}`,
+            errorCode: 'STAGE_ALREADY_DECIDED'
+          };
+        }
+
+        for (const next of nextApprovers) {
+          if (next.approverId !== next.stage.approverId) {
+            await tx.approvalStage.update({
+              where: { id: next.stage.id },
+              data: { approverId: next.approverId, delegatedFromId: next.delegatedFromId }
+            });
+          }
+        }
+
+        // A decided stage no longer needs its other members; a rejection also ends the later stages
+        if (stageOutcome) {
+          await tx.approvalStage.updateMany({
+            where: {
+              workflowId,
+              decision: 'PENDING',
+              stageNumber: stageOutcome === 'REJECTED' ? { gte: stage.stageNumber } : stage.stageNumber
+            },
+            data: { decision: 'CANCELLED' }
+          });
+        }
+      }
+
+      const lead = nextApprovers[0];
+
+      const updatedWorkflow = await tx.approvalWorkflow.update({
+        where: { id: workflowId },
+        data: {
+          status: newStatus,
+          ...(lead
+            ? { approverId: lead.approverId, delegatedFromId: lead.delegatedFromId }
+            : stillWaitingOn
+              ? { approverId: stillWaitingOn.approverId, delegatedFromId: stillWaitingOn.delegatedFromId }
+              : stageOutcome
+                ? { approverId, delegatedFromId: onBehalfOf?.id || null }
+                : {}),
+          currentStage: lead ? lead.stage.stageNumber : workflow.currentStage,
+          comments: decisionComments,
+          // Amendments prepared against the undecided workflow must not apply on top of this decision
+          version: { increment: 1 },
+          // The next stage's approvers get a full SLA of their own
+          ...(lead && buildSlaClock(workflow.type, (workflow.data as { priority?: string } | null)?.priority))
+        },
+        include: decidedWorkflowInclude
+      });
+
+      return {
+        success: true,
+        recorded: {
+          workflow,
+          updatedWorkflow,
+          approverName: approver.name,
+          onBehalfOf,
+          stage,
+          isGroup: group.length > 1,
+          totalStages,
+          approvals,
+          requiredApprovals,
+          stageOutcome,
+          completed,
+          nextApproverIds: nextApprovers.map(next => next.approverId),
+          nextStageNumber: lead?.stage.stageNumber,
+          decisionComments
+        }
+      };
+    });
+
+    if (!outcome.success || !outcome.recorded) {
+      return outcome;
+    }
+
+    const {
+      workflow,
+      updatedWorkflow,
+      approverName,
+      onBehalfOf,
+      stage,
+      isGroup,
+      totalStages,
+      approvals,
+      requiredApprovals,
+      stageOutcome,
+      completed,
+      nextApproverIds,
+      nextStageNumber,
+      decisionComments
+    } = outcome.recorded;
+    const decidedBy = onBehalfOf ? `${approverName} on behalf of ${onBehalfOf.name}` : approverName;
+
+    const stageLabel = stage ? `stage ${stage.stageNumber} of ${totalStages}` : 'single stage';
+
+    if (onBehalfOf) {
+      await logAudit({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflowId,
+        changedById: approverId,
+        fieldChanged: stage ? `stage_${stage.stageNumber}_decided_by` : 'decided_by',
+        oldValue: null,
+        newValue: `${decision === 'APPROVED' ? 'Approved' : 'Rejected'} by ${approverName} on behalf of ${onBehalfOf.name}`
+      });
+    }
+
+    if (stage) {
+      // Parallel stages record each member's decision under its role
+      await logAudit({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflowId,
+        changedById: approverId,
+        fieldChanged: isGroup && stage.approverRole
+          ? `stage_${stage.stageNumber}_${stage.approverRole.toLowerCase()}_decision`
+          : `stage_${stage.stageNumber}_decision`,
+        oldValue: 'PENDING',
+        newValue: decision
+      });
+
+      const progress = isGroup
+        ? `; ${approvals} of ${requiredApprovals} required approvals${stageOutcome ? `, stage ${stageOutcome === 'APPROVED' ? 'approved' : 'rejected'}` : ''}`
+        : '';
+
+      await logTimelineActivity({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflowId,
+        activityType: decision,
+        title: `${decision === 'APPROVED' ? 'Approved' : 'Rejected'} ${stageLabel}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+        description: `${decidedBy} ${decision === 'APPROVED' ? 'approved' : 'rejected'} ${stageLabel} of ${workflow.type} workflow requested by ${workflow.requester.name}${progress}${nextStageNumber ? `; forwarded to stage ${nextStageNumber}` : ''}`,
+        metadata: {
+          workflowType: workflow.type,
+          stageNumber: stage.stageNumber,
+          totalStages,
+          approverRole: stage.approverRole,
+          approverName,
+          onBehalfOfId: onBehalfOf?.id,
+          onBehalfOfName: onBehalfOf?.name,
+          comments: decisionComments,
+          completionRule: stage.completionRule,
+          approvals,
+          requiredApprovals,
+          stageOutcome,
+          nextApproverIds
+        },
+        performedBy: approverId,
+        workflowId
+      });
+    }
+
+    if (completed && stageOutcome) {
+      const finalStatus = stageOutcome;
+
+      await logAudit({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflowId,
+        changedById: approverId,
+        fieldChanged: 'status',
+        oldValue: workflow.status,
+        newValue: finalStatus
+      });
+
+      await logStatusChangedActivity(
+        'APPROVAL_WORKFLOW',
+        workflowId,
+        `${workflow.type} workflow`,
+        approverId,
+        workflow.status,
+        finalStatus,
+        {
+          workflowType: workflow.type,
+          requesterName: workflow.requester.name,
+          comments: decisionComments,
+          action: finalStatus === 'APPROVED' ? 'approve' : 'reject'
+        }
+      );
+
+      await logTimelineActivity({
+        entityType: 'APPROVAL_WORKFLOW',
+        entityId: workflowId,
+        activityType: 'WORKFLOW_COMPLETED',
+        title: `Workflow ${finalStatus === 'APPROVED' ? 'approved' : 'rejected'}`,
+        description: `${workflow.type} workflow requested by ${workflow.requester.name} was ${finalStatus === 'APPROVED' ? 'approved' : 'rejected'} by ${decidedBy}`,
+        metadata: {
+          workflowType: workflow.type,
+          finalStatus,
+          requesterName: workflow.requester.name,
+          approverName,
+          onBehalfOfName: onBehalfOf?.name,
+          approverComments: decisionComments,
+          totalStages
+        },
+        performedBy: approverId,
+        workflowId
+      });
+    }
+
+    if (nextApproverIds.length > 0) {
+      await notifyAssignedApprovers(workflowId, nextApproverIds);
+    }
+
+    if (completed && stageOutcome === 'REJECTED') {
+      const related = await applyRejectionToRelatedRecord(workflow, { id: approverId, name: approverName }, decisionComments);
+      return { success: true, workflow: updatedWorkflow, completed, ...(!related.success && { warning: related.error }) };
+    }
+
+    if (completed && stageOutcome === 'APPROVED') {
+      const fulfilment = await runFulfilment(workflowId, approverId);
+      const fulfilled = fulfilment.status
+        ? await prisma.approvalWorkflow.findUnique({
+          where: { id: workflowId },
+          include: decidedWorkflowInclude
+        })
+        : null;
+
+      return { success: true, workflow: fulfilled || updatedWorkflow, completed, fulfilment };
+    }
+
+    return { success: true, workflow: updatedWorkflow, completed };
+  } catch (error) {
+    console.error('Error recording workflow decision:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record workflow decision',
+      errorCode: 'WORKFLOW_DECISION_FAILED'
+    };
+  }
+}
+
+// Map a decision error code to an HTTP status for API routes
+export function getDecisionErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'WORKFLOW_NOT_FOUND':
+    case 'APPROVER_NOT_FOUND':
+      return 404;
+    case 'NOT_STAGE_APPROVER':
+    case 'APPROVER_INACTIVE':
+      return 403;
+    case 'WORKFLOW_NOT_PENDING':
+      return 400;
+    case 'STAGE_ALREADY_DECIDED':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// Whether a workflow waits on this employee: its assigned approver, or an undecided member of its current parallel group
+function isAwaitingDecisionFrom(
+  workflow: { approverId: string | null; currentStage: number; stages: { stageNumber: number; approverId: string; decision: string }[] },
+  employeeId: string
+): boolean {
+  return workflow.approverId === employeeId || workflow.stages.some(stage =>
+    stage.stageNumber === workflow.currentStage && stage.approverId === employeeId && stage.decision === 'PENDING'
+  );
+}
+
+// A final rejection is reflected on the record the workflow was raised for: a linked access
+// request is revoked and a policy under review is marked rejected
+async function applyRejectionToRelatedRecord(
+  workflow: { id: string; type: string; data: Prisma.JsonValue; policyId: string | null },
+  approver: { id: string; name: string },
+  comments?: string
+): Promise<{ success: boolean; error?: string }> {
+  const workflowData = (workflow.data && typeof workflow.data === 'object' ? workflow.data : {}) as {
+    accessRequestId?: string;
+    resourceName?: string;
+  };
+
+  if (workflow.type === 'ACCESS_REQUEST' && workflowData.accessRequestId) {
+    try {
+      await prisma.access.update({
+        where: { id: workflowData.accessRequestId },
+        data: {
+          status: 'REVOKED',
+          approverId: approver.id,
+          approvedAt: null,
+          revokedAt: new Date()
+        }
+      });
+    } catch (error) {
+      console.error('Failed to update access request:', error);
+      return { success: false, error: 'Failed to update access request' };
+    }
+
+    try {
+      await logTimelineActivity({
+        entityType: 'ACCESS',
+        entityId: workflowData.accessRequestId,
+        activityType: 'REJECTED',
+        title: 'Access request rejected',
+        description: `Access request for ${workflowData.resourceName || 'resource'} was rejected by approver`,
+        metadata: {
+          resourceName: workflowData.resourceName,
+          approverComments: comments,
+          workflowId: workflow.id,
+          resourceAssigned: false
+        },
+        performedBy: approver.id
+      });
+    } catch (timelineError) {
+      console.error('Failed to log timeline activity for access request:', timelineError);
+    }
+  }
+
+  if (workflow.type === 'POLICY_UPDATE_REQUEST' && workflow.policyId) {
+    let policyTitle: string;
+    try {
+      const updatedPolicy = await prisma.policy.update({
+        where: { id: workflow.policyId },
+        data: {
+          status: 'REJECTED',
+          lastReviewDate: new Date() // Update last review date
+        }
+      });
+      policyTitle = updatedPolicy.title;
+    } catch (error) {
+      console.error('Failed to update policy status:', error);
+      return { success: false, error: 'Failed to update policy status' };
+    }
+
+    try {
+      await logTimelineActivity({
+        entityType: 'POLICY',
+        entityId: workflow.policyId,
+        activityType: 'REJECTED',
+        title: 'Policy rejected',
+        description: `Policy "${policyTitle}" was rejected by ${approver.name}`,
+        metadata: {
+          policyTitle,
+          previousStatus: 'REVIEW',
+          newStatus: 'REJECTED',
+          approverComments: comments,
+          workflowId: workflow.id,
+          approverName: approver.name
+        },
+        performedBy: approver.id,
+        policyId: workflow.policyId
+      });
+    } catch (timelineError) {
+      console.error('Failed to log timeline activity for policy:', timelineError);
+    }
+  }
+
+  return { success: true };
+}
+
+export const BULK_DECISION_LIMIT = 100;
+
+export interface BulkDecisionItemResult {
+  workflowId: string;
+  success: boolean;
+  status?: string; // the workflow's status after the decision
+  completed?: boolean;
+  fulfilment?: FulfilmentRunResult;
+  warning?: string; // the decision stands but a follow-up step failed
+  error?: string;
+  errorCode?: string;
+  httpStatus?: number;
+}
+
+export interface BulkDecisionResult {
+  results: BulkDecisionItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// Decide many workflows at once. Each one is validated and recorded on its own through
+// decideWorkflowStage, so a failure never affects the others and every item gets its own
+// audit and timeline entries.
+export async function decideWorkflowsInBulk(
+  workflowIds: string[],
+  approver: { id: string; name: string },
+  decision: 'APPROVED' | 'REJECTED',
+  comments?: string
+): Promise<BulkDecisionResult> {
+  const decisionComments = comments?.trim() || `${decision === 'APPROVED' ? 'Approved' : 'Rejected'} in bulk`;
+  const results: BulkDecisionItemResult[] = [];
+
+  for (const workflowId of Array.from(new Set(workflowIds))) {
+    const result = await decideWorkflowStage(workflowId, approver.id, decision, decisionComments);
+
+    if (!result.success || !result.workflow) {
+      results.push({
+        workflowId,
+        success: false,
+        error: result.error,
+        errorCode: result.errorCode,
+        httpStatus: getDecisionErrorStatus(result.errorCode)
+      });
+      continue;
+    }
+
+    const item: BulkDecisionItemResult = {
+      workflowId,
+      success: true,
+      status: result.workflow.status,
+      completed: result.completed,
+      fulfilment: result.fulfilment
+    };
+
+    if (result.warning) {
+      item.warning = result.warning;
+    } else if (result.fulfilment?.status === 'FAILED') {
+      item.warning = result.fulfilment.error || 'The request could not be fulfilled';
+    }
+
+    results.push(item);
+  }
+
+  const succeeded = results.filter(item => item.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
+
 // Get pending operational workflows for approver with operational context
 export async function getPendingOperationalWorkflows(approverId: string) {
   try {
-    const workflows = await prisma.approvalWorkflow.findMany({
+    const candidates = await prisma.approvalWorkflow.findMany({
       where: {
-        approverId: approverId,
-        status: 'PENDING'
+        status: 'PENDING',
+        OR: [
+          { approverId },
+          { stages: { some: { approverId, decision: 'PENDING' } } }
+        ]
       },
       include: {
         requester: { select: { name: true, role: true, department: true } },
         policy: { select: { title: true, category: true } },
-        resource: { select: { name: true, type: true } }
+        resource: { select: { name: true, type: true } },
+        delegatedFrom: { select: { id: true, name: true } },
+        stages: {
+          include: { approver: { select: { name: true, role: true } } },
+          orderBy: { stageNumber: 'asc' }
+        }
       },
       orderBy: [
         { createdAt: 'desc' }
       ]
     });
 
-    return workflows.map((workflow: any) => ({
-      ...workflow,
-      priority: workflow.data?.priority || getOperationalPriority(workflow.type, workflow.data?.amount),
-      operationalCategory: getOperationalCategory(workflow.type),
-      displayTitle: workflow.data?.title || `${workflow.type.replace('_', ' ')} Request`,
-      displayDescription: workflow.data?.description || workflow.comments,
-      amount: workflow.data?.amount || 0,
-      businessJustification: workflow.data?.businessJustification || 'No justification provided'
-    }));
+    const workflows = candidates.filter(workflow => isAwaitingDecisionFrom(workflow, approverId));
+
+    return withOperationalContext(withSla(workflows));
   } catch (error) {
     console.error('Error fetching pending operational workflows:', error);
     return [];
   }
 }
 
-// Get operational workflow statistics
+// Get the requester's workflows that an approver sent back for more information
+export async function getWorkflowsAwaitingRequester(requesterId: string) {
+  try {
+    const workflows = await prisma.approvalWorkflow.findMany({
+      where: {
+        requesterId,
+        status: 'NEEDS_INFO'
+      },
+      include: {
+        requester: { select: { name: true, role: true, department: true } },
+        approver: { select: { id: true, name: true } },
+        policy: { select: { title: true, category: true } },
+        resource: { select: { name: true, type: true } },
+        stages: {
+          include: { approver: { select: { name: true, role: true } } },
+          orderBy: { stageNumber: 'asc' }
+        }
+      },
+      orderBy: [
+        { updatedAt: 'desc' }
+      ]
+    });
+
+    return withOperationalContext(workflows);
+  } catch (error) {
+    console.error('Error fetching workflows awaiting requester:', error);
+    return [];
+  }
+}
+
+// Request data fields the approval dashboard reads
+interface OperationalDisplayData {
+  priority?: string;
+  title?: string;
+  description?: string;
+  amount?: number;
+  businessJustification?: string;
+}
+
+// Display fields the approval dashboard shows for operational workflows
+function withOperationalContext<T extends {
+  type: string;
+  data: Prisma.JsonValue;
+  comments: string | null;
+  stages: { stageNumber: number }[];
+}>(workflows: T[]) {
+  return workflows.map(workflow => {
+    const data = (workflow.data && typeof workflow.data === 'object' ? workflow.data : {}) as OperationalDisplayData;
+    return {
+      ...workflow,
+      priority: data.priority || getOperationalPriority(workflow.type, data.amount),
+      operationalCategory: getOperationalCategory(workflow.type),
+      displayTitle: data.title || `${workflow.type.replace('_', ' ')} Request`,
+      displayDescription: data.description || workflow.comments,
+      amount: data.amount || 0,
+      businessJustification: data.businessJustification || 'No justification provided',
+      totalStages: countApprovalStages(workflow.stages) || 1
+    };
+  });
+}
+
+// Get operational workflow statistics.
+// Approvals count this employee's own decisions, so every member of a parallel group is credited;
+// workflows from before approval stages existed count by their assigned approver.
 export async function getOperationalWorkflowStats(userId: string) {
   try {
-    const [pending, approved, rejected, myRequests, byCategory] = await Promise.all([
-      prisma.approvalWorkflow.count({
-        where: { approverId: userId, status: 'PENDING' }
+    const [pendingCandidates, stageDecisions, legacyDecisions, myRequests, byCategory] = await Promise.all([
+      prisma.approvalWorkflow.findMany({
+        where: {
+          status: 'PENDING',
+          OR: [
+            { approverId: userId },
+            { stages: { some: { approverId: userId, decision: 'PENDING' } } }
+          ]
+        },
+        select: {
+          approverId: true,
+          currentStage: true,
+          stages: { select: { stageNumber: true, approverId: true, decision: true } }
+        }
       }),
-      prisma.approvalWorkflow.count({
-        where: { approverId: userId, status: 'APPROVED' }
+      prisma.approvalStage.groupBy({
+        by: ['decision'],
+        where: { approverId: userId, decision: { in: ['APPROVED', 'REJECTED'] } },
+        _count: { decision: true }
       }),
-      prisma.approvalWorkflow.count({
-        where: { approverId: userId, status: 'REJECTED' }
+      prisma.approvalWorkflow.groupBy({
+        by: ['status'],
+        where: { approverId: userId, status: { in: ['APPROVED', 'REJECTED'] }, stages: { none: {} } },
+        _count: { status: true }
       }),
       prisma.approvalWorkflow.count({
         where: { requesterId: userId }
       }),
       prisma.approvalWorkflow.groupBy({
         by: ['type'],
-        where: { approverId: userId },
+        where: {
+          OR: [
+            { approverId: userId },
+            { stages: { some: { approverId: userId } } }
+          ]
+        },
         _count: { type: true }
       })
     ]);
 
-    const categoryStats = byCategory.reduce((acc: Record<string, number>, item: any) => {
+    const pending = pendingCandidates.filter(workflow => isAwaitingDecisionFrom(workflow, userId)).length;
+    const countDecisions = (outcome: 'APPROVED' | 'REJECTED') =>
+      (stageDecisions.find(item => item.decision === outcome)?._count.decision || 0) +
+      (legacyDecisions.find(item => item.status === outcome)?._count.status || 0);
+    const approved = countDecisions('APPROVED');
+    const rejected = countDecisions('REJECTED');
+
+    const categoryStats = byCategory.reduce((acc: Record<string, number>, item) => {
       const category = getOperationalCategory(item.type);
       acc[category] = (acc[category] || 0) + item._count.type;
       return acc;
@@ -0,0 +1,548 @@
+/**
+ * Workflow Template Service
+ * Admin-defined request forms for workflow types: the fields a requester fills in (typed with
+ * the resource property vocabulary), the attachments they must upload, routing rules by amount
+ * or department, and the default priority. Submissions are validated against the template.
+ */
+
+import { WorkflowTemplate, WorkflowType } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { getDepartments, getExpenseCategories } from './config/company';
+import { PropertyDataType } from '../types/resource-structure';
+
+export const WORKFLOW_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const;
+export type WorkflowPriority = typeof WORKFLOW_PRIORITIES[number];
+
+const FIELD_DATA_TYPES: PropertyDataType[] = ['STRING', 'NUMBER', 'BOOLEAN', 'DATE'];
+
+// Option lists that come from the company configuration rather than the template
+const OPTION_SOURCES = {
+  DEPARTMENTS: getDepartments,
+  EXPENSE_CATEGORIES: getExpenseCategories
+};
+export type TemplateOptionsSource = keyof typeof OPTION_SOURCES;
+
+const FIELD_KEY_PATTERN = /^[a-z][a-zA-Z0-9_]{0,49}$/;
+
+// Workflow data keys written by the system or linking other records; a form field cannot use them
+const RESERVED_FIELD_KEYS = [
+  'title', 'priority', 'requestType', 'attachments', 'autoCreated',
+  'operationalCategory', 'createdAt', 'accessRequestId', 'policyId', 'resourceId',
+  'itemId', 'employeeId', 'requestedBy', 'requestedAt'
+];
+
+export interface WorkflowTemplateField {
+  key: string; // key in the workflow data; a NUMBER field called "amount" is the request amount
+  label: string;
+  dataType: PropertyDataType;
+  required?: boolean;
+  helpText?: string;
+  multiline?: boolean; // STRING: render as a text area
+  options?: string[]; // STRING: allowed values, rendered as a select
+  optionsSource?: TemplateOptionsSource; // STRING: allowed values from the company configuration
+  min?: number; // NUMBER
+  max?: number; // NUMBER
+}
+
+export interface WorkflowTemplateAttachment {
+  key: string;
+  label: string;
+  description?: string;
+}
+
+// Rules are tried in order and the first one whose conditions all hold applies
+export interface WorkflowRoutingRule {
+  minAmount?: number; // amounts above this
+  maxAmount?: number; // amounts up to and including this
+  departments?: string[]; // the requester's department
+  approverRoles?: string[]; // one approval stage per role; empty keeps the built-in routing
+  priority?: WorkflowPriority;
+}
+
+export interface WorkflowTemplateDefinition {
+  workflowType: WorkflowType;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  titleTemplate: string | null;
+  fields: WorkflowTemplateField[];
+  requiredAttachments: WorkflowTemplateAttachment[];
+  routingRules: WorkflowRoutingRule[];
+  defaultPriority: WorkflowPriority;
+  isActive: boolean;
+}
+
+export interface WorkflowTemplateInput {
+  workflowType?: string;
+  name?: string;
+  description?: string | null;
+  icon?: string | null;
+  titleTemplate?: string | null;
+  fields?: WorkflowTemplateField[];
+  requiredAttachments?: WorkflowTemplateAttachment[];
+  routingRules?: WorkflowRoutingRule[];
+  defaultPriority?: string;
+  isActive?: boolean;
+}
+
+export interface WorkflowTemplateResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  template?: WorkflowTemplateDefinition;
+}
+
+export interface TemplateSubmissionCheck {
+  values: Record<string, unknown>;
+  fieldErrors: Record<string, string>;
+}
+
+type Actor = { id: string };
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value as T[] : [];
+}
+
+// Fields sourced from the configuration carry the current option list for the form
+function withResolvedOptions(field: WorkflowTemplateField): WorkflowTemplateField {
+  return field.optionsSource && OPTION_SOURCES[field.optionsSource]
+    ? { ...field, options: OPTION_SOURCES[field.optionsSource]() }
+    : field;
+}
+
+function toDefinition(template: WorkflowTemplate): WorkflowTemplateDefinition {
+  return {
+    workflowType: template.workflowType,
+    name: template.name,
+    description: template.description,
+    icon: template.icon,
+    titleTemplate: template.titleTemplate,
+    fields: asArray<WorkflowTemplateField>(template.fields).map(withResolvedOptions),
+    requiredAttachments: asArray<WorkflowTemplateAttachment>(template.requiredAttachments),
+    routingRules: asArray<WorkflowRoutingRule>(template.routingRules),
+    defaultPriority: (WORKFLOW_PRIORITIES as readonly string[]).includes(template.defaultPriority)
+      ? template.defaultPriority as WorkflowPriority
+      : 'MEDIUM',
+    isActive: template.isActive
+  };
+}
+
+// What is stored: configuration-sourced options are looked up again on every read
+function toStoredFields(fields: WorkflowTemplateField[]): WorkflowTemplateField[] {
+  return fields.map(field => {
+    const stored: WorkflowTemplateField = { ...field };
+    if (stored.optionsSource) {
+      delete stored.options;
+    }
+    return stored;
+  });
+}
+
+function isWorkflowType(value: string): value is WorkflowType {
+  return (Object.values(WorkflowType) as string[]).includes(value);
+}
+
+export async function listWorkflowTemplates(includeInactive = false): Promise<WorkflowTemplateDefinition[]> {
+  const templates = await prisma.workflowTemplate.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    orderBy: { name: 'asc' }
+  });
+  return templates.map(toDefinition);
+}
+
+export async function getWorkflowTemplate(workflowType: string, includeInactive = false): Promise<WorkflowTemplateDefinition | null> {
+  if (!isWorkflowType(workflowType)) {
+    return null;
+  }
+  const template = await prisma.workflowTemplate.findUnique({ where: { workflowType } });
+  if (!template || (!includeInactive && !template.isActive)) {
+    return null;
+  }
+  return toDefinition(template);
+}
+
+function invalid(error: string): WorkflowTemplateResult {
+  return { success: false, error, errorCode: 'INVALID_TEMPLATE' };
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isStringList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim()));
+}
+
+async function validateTemplateInput(input: WorkflowTemplateInput): Promise<WorkflowTemplateResult | null> {
+  if (input.name !== undefined && !input.name?.trim()) {
+    return invalid('Template name is required');
+  }
+
+  if (input.defaultPriority !== undefined && !(WORKFLOW_PRIORITIES as readonly string[]).includes(input.defaultPriority)) {
+    return invalid(`Default priority must be one of ${WORKFLOW_PRIORITIES.join(', ')}`);
+  }
+
+  if (input.fields !== undefined) {
+    if (!Array.isArray(input.fields) || input.fields.length === 0) {
+      return invalid('A template needs at least one field');
+    }
+    const keys = new Set<string>();
+    for (const field of input.fields) {
+      if (!field || !FIELD_KEY_PATTERN.test(field.key || '')) {
+        return invalid(`Field key "${field?.key ?? ''}" must start with a lowercase letter and contain only letters, digits and underscores`);
+      }
+      if (RESERVED_FIELD_KEYS.includes(field.key)) {
+        return invalid(`Field key "${field.key}" is reserved`);
+      }
+      if (keys.has(field.key)) {
+        return invalid(`Field key "${field.key}" is used more than once`);
+      }
+      keys.add(field.key);
+      if (!field.label?.trim()) {
+        return invalid(`Field "${field.key}" needs a label`);
+      }
+      if (!FIELD_DATA_TYPES.includes(field.dataType)) {
+        return invalid(`Field "${field.key}" must have a data type of ${FIELD_DATA_TYPES.join(', ')}`);
+      }
+      if (field.key === 'amount' && field.dataType !== 'NUMBER') {
+        return invalid('The "amount" field must be a NUMBER');
+      }
+      if ((field.options !== undefined || field.optionsSource !== undefined || field.multiline) && field.dataType !== 'STRING') {
+        return invalid(`Only STRING fields can have options or span multiple lines ("${field.key}")`);
+      }
+      if (!isStringList(field.options)) {
+        return invalid(`Options of field "${field.key}" must be a list of non-empty strings`);
+      }
+      if (field.optionsSource !== undefined && !(field.optionsSource in OPTION_SOURCES)) {
+        return invalid(`Options source of field "${field.key}" must be one of ${Object.keys(OPTION_SOURCES).join(', ')}`);
+      }
+      if (!isOptionalNumber(field.min) || !isOptionalNumber(field.max)) {
+        return invalid(`Minimum and maximum of field "${field.key}" must be numbers`);
+      }
+    }
+  }
+
+  if (input.requiredAttachments !== undefined) {
+    if (!Array.isArray(input.requiredAttachments)) {
+      return invalid('Required attachments must be a list');
+    }
+    const keys = new Set<string>();
+    for (const attachment of input.requiredAttachments) {
+      if (!attachment || !FIELD_KEY_PATTERN.test(attachment.key || '') || keys.has(attachment.key)) {
+        return invalid(`Attachment key "${attachment?.key ?? ''}" must be unique, start with a lowercase letter and contain only letters, digits and underscores`);
+      }
+      keys.add(attachment.key);
+      if (!attachment.label?.trim()) {
+        return invalid(`Attachment "${attachment.key}" needs a label`);
+      }
+    }
+  }
+
+  if (input.routingRules !== undefined) {
+    if (!Array.isArray(input.routingRules)) {
+      return invalid('Routing rules must be a list');
+    }
+    const roleKeys = new Set((await prisma.roleDefinition.findMany({ select: { key: true } })).map(role => role.key));
+    for (const [index, rule] of input.routingRules.entries()) {
+      const label = `Routing rule ${index + 1}`;
+      if (!rule || typeof rule !== 'object') {
+        return invalid(`${label} must be an object`);
+      }
+      if (!isOptionalNumber(rule.minAmount) || !isOptionalNumber(rule.maxAmount)) {
+        return invalid(`${label}: amounts must be numbers`);
+      }
+      if (!isStringList(rule.departments) || !isStringList(rule.approverRoles)) {
+        return invalid(`${label}: departments and approver roles must be lists of names`);
+      }
+      const unknownRoles = (rule.approverRoles || []).filter(role => !roleKeys.has(role));
+      if (unknownRoles.length > 0) {
+        return invalid(`${label}: unknown role(s) ${unknownRoles.join(', ')}`);
+      }
+      if (rule.priority !== undefined && !WORKFLOW_PRIORITIES.includes(rule.priority)) {
+        return invalid(`${label}: priority must be one of ${WORKFLOW_PRIORITIES.join(', ')}`);
+      }
+    }
+  }
+
+  return null;
+}
+
+export async function createWorkflowTemplate(input: WorkflowTemplateInput, actor: Actor): Promise<WorkflowTemplateResult> {
+  const workflowType = (input.workflowType || '').trim();
+
+  if (!isWorkflowType(workflowType)) {
+    return { success: false, error: 'Unknown workflow type', errorCode: 'INVALID_WORKFLOW_TYPE' };
+  }
+  if (!input.name?.trim()) {
+    return invalid('Template name is required');
+  }
+  if (input.fields === undefined) {
+    return invalid('A template needs at least one field');
+  }
+
+  const validation = await validateTemplateInput(input);
+  if (validation) {
+    return validation;
+  }
+
+  if (await prisma.workflowTemplate.findUnique({ where: { workflowType }, select: { workflowType: true } })) {
+    return { success: false, error: `A template for ${workflowType} already exists`, errorCode: 'TEMPLATE_EXISTS' };
+  }
+
+  const template = await prisma.workflowTemplate.create({
+    data: {
+      workflowType,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      icon: input.icon?.trim() || null,
+      titleTemplate: input.titleTemplate?.trim() || null,
+      fields: toStoredFields(input.fields) as object[],
+      requiredAttachments: (input.requiredAttachments || []) as object[],
+      routingRules: (input.routingRules || []) as object[],
+      defaultPriority: input.defaultPriority || 'MEDIUM',
+      isActive: input.isActive ?? true
+    }
+  });
+
+  await logAudit({
+    entityType: 'WORKFLOW_TEMPLATE',
+    entityId: workflowType,
+    changedById: actor.id,
+    fieldChanged: 'template_created',
+    oldValue: null,
+    newValue: JSON.stringify({
+      name: template.name,
+      fields: input.fields.map(field => field.key),
+      requiredAttachments: (input.requiredAttachments || []).map(attachment => attachment.key),
+      routingRules: input.routingRules?.length || 0,
+      defaultPriority: template.defaultPriority
+    })
+  });
+
+  return { success: true, template: toDefinition(template) };
+}
+
+// Update a template; each changed attribute is audited separately
+export async function updateWorkflowTemplate(workflowType: string, input: WorkflowTemplateInput, actor: Actor): Promise<WorkflowTemplateResult> {
+  const existing = isWorkflowType(workflowType)
+    ? await prisma.workflowTemplate.findUnique({ where: { workflowType } })
+    : null;
+
+  if (!existing) {
+    return { success: false, error: 'Workflow template not found', errorCode: 'TEMPLATE_NOT_FOUND' };
+  }
+
+  const validation = await validateTemplateInput(input);
+  if (validation) {
+    return validation;
+  }
+
+  const next = {
+    name: input.name !== undefined ? input.name.trim() : existing.name,
+    description: input.description !== undefined ? input.description?.trim() || null : existing.description,
+    icon: input.icon !== undefined ? input.icon?.trim() || null : existing.icon,
+    titleTemplate: input.titleTemplate !== undefined ? input.titleTemplate?.trim() || null : existing.titleTemplate,
+    fields: input.fields !== undefined ? toStoredFields(input.fields) : existing.fields,
+    requiredAttachments: input.requiredAttachments ?? existing.requiredAttachments,
+    routingRules: input.routingRules ?? existing.routingRules,
+    defaultPriority: input.defaultPriority ?? existing.defaultPriority,
+    isActive: input.isActive ?? existing.isActive
+  };
+
+  const changes = (Object.keys(next) as (keyof typeof next)[])
+    .filter(field => JSON.stringify(next[field]) !== JSON.stringify(existing[field]));
+
+  if (changes.length === 0) {
+    return { success: true, template: toDefinition(existing) };
+  }
+
+  const template = await prisma.workflowTemplate.update({
+    where: { workflowType: existing.workflowType },
+    data: {
+      ...next,
+      fields: next.fields as object[],
+      requiredAttachments: next.requiredAttachments as object[],
+      routingRules: next.routingRules as object[]
+    }
+  });
+
+  for (const field of changes) {
+    const format = (value: unknown) => value === null || value === undefined
+      ? null
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    await logAudit({
+      entityType: 'WORKFLOW_TEMPLATE',
+      entityId: existing.workflowType,
+      changedById: actor.id,
+      fieldChanged: field,
+      oldValue: format(existing[field]),
+      newValue: format(next[field])
+    });
+  }
+
+  return { success: true, template: toDefinition(template) };
+}
+
+// Remove a template; workflows already raised from it keep their data
+export async function deleteWorkflowTemplate(workflowType: string, actor: Actor): Promise<WorkflowTemplateResult> {
+  const existing = isWorkflowType(workflowType)
+    ? await prisma.workflowTemplate.findUnique({ where: { workflowType } })
+    : null;
+
+  if (!existing) {
+    return { success: false, error: 'Workflow template not found', errorCode: 'TEMPLATE_NOT_FOUND' };
+  }
+
+  await prisma.workflowTemplate.delete({ where: { workflowType: existing.workflowType } });
+
+  await logAudit({
+    entityType: 'WORKFLOW_TEMPLATE',
+    entityId: existing.workflowType,
+    changedById: actor.id,
+    fieldChanged: 'template_deleted',
+    oldValue: JSON.stringify({ name: existing.name, fields: existing.fields, routingRules: existing.routingRules }),
+    newValue: null
+  });
+
+  return { success: true };
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+}
+
+/**
+ * Check a submission against the template's fields and required attachments. Values are
+ * coerced to their field's data type; keys the template does not define are dropped.
+ */
+export function validateTemplateSubmission(
+  template: WorkflowTemplateDefinition,
+  data: Record<string, unknown>,
+  attachmentKeys: string[] = []
+): TemplateSubmissionCheck {
+  const values: Record<string, unknown> = {};
+  const fieldErrors: Record<string, string> = {};
+
+  for (const field of template.fields) {
+    const raw = data[field.key];
+
+    if (isBlank(raw)) {
+      if (field.dataType === 'BOOLEAN') {
+        values[field.key] = false;
+      } else if (field.required) {
+        fieldErrors[field.key] = `${field.label} is required`;
+      }
+      continue;
+    }
+
+    switch (field.dataType) {
+      case 'STRING': {
+        const value = String(raw).trim();
+        if (field.options && field.options.length > 0 && !field.options.includes(value)) {
+          fieldErrors[field.key] = `${field.label} must be one of ${field.options.join(', ')}`;
+        } else {
+          values[field.key] = value;
+        }
+        break;
+      }
+      case 'NUMBER': {
+        const value = typeof raw === 'number' ? raw : Number(raw);
+        if (!Number.isFinite(value)) {
+          fieldErrors[field.key] = `${field.label} must be a number`;
+        } else if (field.min !== undefined && field.min !== null && value < field.min) {
+          fieldErrors[field.key] = `${field.label} must be at least ${field.min}`;
+        } else if (field.max !== undefined && field.max !== null && value > field.max) {
+          fieldErrors[field.key] = `${field.label} must be at most ${field.max}`;
+        } else {
+          values[field.key] = value;
+        }
+        break;
+      }
+      case 'BOOLEAN':
+        values[field.key] = raw === true || raw === 'true' || raw === 'on';
+        break;
+      case 'DATE': {
+        const value = new Date(String(raw));
+        if (isNaN(value.getTime())) {
+          fieldErrors[field.key] = `${field.label} must be a date`;
+        } else {
+          values[field.key] = value.toISOString().slice(0, 10);
+        }
+        break;
+      }
+    }
+  }
+
+  for (const attachment of template.requiredAttachments) {
+    if (!attachmentKeys.includes(attachment.key)) {
+      fieldErrors[`attachment:${attachment.key}`] = `${attachment.label} must be attached`;
+    }
+  }
+
+  return { values, fieldErrors };
+}
+
+// Title for a workflow raised from a template, e.g. "Travel to {destination}" -> "Travel to Berlin"
+export function buildTemplateTitle(template: WorkflowTemplateDefinition, values: Record<string, unknown>): string {
+  if (!template.titleTemplate) {
+    return template.name;
+  }
+  return template.titleTemplate.replace(/\{(\w+)\}/g, (_match, key: string) => {
+    const value = values[key];
+    return value === undefined || value === null || value === '' ? '' : String(value).replace(/_/g, ' ');
+  }).replace(/\s*\(\s*\)/g, '').trim() || template.name;
+}
+
+function matchRoutingRule(rules: WorkflowRoutingRule[], amount: number, department: string | null): number {
+  return rules.findIndex(rule =>
+    (rule.minAmount === undefined || rule.minAmount === null || amount > rule.minAmount) &&
+    (rule.maxAmount === undefined || rule.maxAmount === null || amount <= rule.maxAmount) &&
+    (!rule.departments?.length || (department !== null && rule.departments.includes(department)))
+  );
+}
+
+async function getRequesterDepartment(rules: WorkflowRoutingRule[], requesterId: string): Promise<string | null> {
+  if (!rules.some(rule => rule.departments?.length)) {
+    return null;
+  }
+  const requester = await prisma.employee.findUnique({ where: { id: requesterId }, select: { department: true } });
+  return requester?.department ?? null;
+}
+
+/**
+ * The routing rule of the workflow type's active template that applies to this request,
+ * or null when there is no template or no rule matches (the built-in routing then applies)
+ */
+export async function getTemplateRouting(workflowType: string, amount: number, requesterId: string): Promise<WorkflowRoutingRule | null> {
+  const template = await getWorkflowTemplate(workflowType);
+  if (!template || template.routingRules.length === 0) {
+    return null;
+  }
+  const department = await getRequesterDepartment(template.routingRules, requesterId);
+  const index = matchRoutingRule(template.routingRules, amount, department);
+  return index >= 0 ? template.routingRules[index] : null;
+}
+
+// Whether a new amount moves a request to a different routing rule of its template
+export async function hasTemplateRoutingChanged(workflowType: string, previousAmount: number, newAmount: number, requesterId: string): Promise<boolean> {
+  const template = await getWorkflowTemplate(workflowType);
+  if (!template || template.routingRules.length === 0) {
+    return false;
+  }
+  const department = await getRequesterDepartment(template.routingRules, requesterId);
+  return matchRoutingRule(template.routingRules, previousAmount, department) !==
+    matchRoutingRule(template.routingRules, newAmount, department);
+}
+
+// Map a template error code to an HTTP status for API routes
+export function getWorkflowTemplateErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'TEMPLATE_NOT_FOUND':
+      return 404;
+    case 'TEMPLATE_EXISTS':
+      return 409;
+    default:
+      return 400;
+  }
+}
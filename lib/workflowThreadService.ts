@@ -0,0 +1,266 @@
+/**
+ * Workflow Thread Service
+ * Discussion threads on approval workflows. An approver can send a pending request back to the
+ * requester as "needs more info"; the requester's reply returns it to the approver with a fresh
+ * SLA clock. Messages can carry attachments and are all logged to the workflow timeline.
+ */
+
+import { ApprovalStatus, Prisma, WorkflowMessageKind } from '@prisma/client';
+import { prisma } from './prisma';
+import { logAudit } from './audit';
+import { logTimelineActivity } from './timeline';
+import { getEffectivePermissions } from './roleService';
+import { buildSlaClock, getWorkflowTitle } from './approvalSlaService';
+import { uploadFile, validateWorkflowAttachment } from './fileUpload';
+import { sendMail } from './mail';
+import { getCompanyName } from './config/company';
+
+const ATTACHMENT_FOLDER = 'workflow-attachments';
+const MAX_MESSAGE_LENGTH = 5000;
+const MAX_ATTACHMENTS = 5;
+
+export interface WorkflowMessageInput {
+  body?: string | null;
+  requestInfo?: boolean; // approver sends the workflow back to the requester
+  files?: File[];
+}
+
+export interface WorkflowThreadResult {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  messages?: unknown[];
+  message?: unknown;
+  status?: ApprovalStatus;
+}
+
+const messageInclude = {
+  author: { select: { id: true, name: true, role: true } },
+  attachments: { orderBy: { createdAt: 'asc' } }
+} satisfies Prisma.WorkflowMessageInclude;
+
+// Who the actor is on this workflow; approval administrators can join any thread
+export async function getWorkflowParticipation(workflowId: string, actor: { id: string; role: string }) {
+  const workflow = await prisma.approvalWorkflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      requester: { select: { id: true, name: true, email: true } },
+      approver: { select: { id: true, name: true, email: true } },
+      stages: { select: { stageNumber: true, approverId: true, delegatedFromId: true, decision: true } }
+    }
+  });
+
+  if (!workflow) {
+    return null;
+  }
+
+  const permissions = await getEffectivePermissions(actor.id, actor.role);
+  const isRequester = workflow.requesterId === actor.id;
+  // Every undecided member of a parallel stage is a current approver
+  const isCurrentApprover = workflow.approverId === actor.id || workflow.delegatedFromId === actor.id ||
+    workflow.stages.some(stage => stage.stageNumber === workflow.currentStage && stage.decision === 'PENDING' &&
+      (stage.approverId === actor.id || stage.delegatedFromId === actor.id));
+  const isStageApprover = workflow.stages.some(stage => stage.approverId === actor.id || stage.delegatedFromId === actor.id);
+
+  return {
+    workflow,
+    isRequester,
+    isCurrentApprover: isCurrentApprover || permissions.canApproveWorkflows,
+    canPost: isRequester || isCurrentApprover || isStageApprover || permissions.canApproveWorkflows,
+    canView: isRequester || isCurrentApprover || isStageApprover || permissions.canApproveWorkflows || permissions.canViewAllApprovals
+  };
+}
+
+export async function getWorkflowThread(
+  workflowId: string,
+  actor: { id: string; role: string }
+): Promise<WorkflowThreadResult> {
+  const participation = await getWorkflowParticipation(workflowId, actor);
+
+  if (!participation) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (!participation.canView) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  const messages = await prisma.workflowMessage.findMany({
+    where: { workflowId },
+    include: messageInclude,
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return { success: true, messages, status: participation.workflow.status };
+}
+
+/**
+ * Add a message to a workflow's thread. A requester replying while the workflow needs more
+ * info answers the request and hands the workflow back to its approver.
+ */
+export async function postWorkflowMessage(
+  workflowId: string,
+  actor: { id: string; role: string; name: string },
+  input: WorkflowMessageInput
+): Promise<WorkflowThreadResult> {
+  const body = (input.body || '').trim();
+  const files = input.files || [];
+
+  if (!body) {
+    return { success: false, error: 'Message text is required', errorCode: 'VALIDATION_ERROR' };
+  }
+
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    return { success: false, error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`, errorCode: 'VALIDATION_ERROR' };
+  }
+
+  if (files.length > MAX_ATTACHMENTS) {
+    return { success: false, error: `Attach at most ${MAX_ATTACHMENTS} files per message`, errorCode: 'VALIDATION_ERROR' };
+  }
+
+  for (const file of files) {
+    const validation = validateWorkflowAttachment(file);
+    if (!validation.valid) {
+      return { success: false, error: validation.error, errorCode: 'VALIDATION_ERROR' };
+    }
+  }
+
+  const participation = await getWorkflowParticipation(workflowId, actor);
+
+  if (!participation) {
+    return { success: false, error: 'Workflow not found', errorCode: 'WORKFLOW_NOT_FOUND' };
+  }
+
+  if (!participation.canPost) {
+    return { success: false, error: 'Insufficient permissions', errorCode: 'FORBIDDEN' };
+  }
+
+  const { workflow } = participation;
+  let kind: WorkflowMessageKind = 'COMMENT';
+  let newStatus: ApprovalStatus | null = null;
+
+  if (input.requestInfo) {
+    if (!participation.isCurrentApprover || workflow.requesterId === actor.id) {
+      return { success: false, error: 'Only the current approver can ask for more information', errorCode: 'FORBIDDEN' };
+    }
+    if (workflow.status !== 'PENDING') {
+      return { success: false, error: 'Only pending workflows can be sent back for more information', errorCode: 'WORKFLOW_NOT_PENDING' };
+    }
+    kind = 'INFO_REQUESTED';
+    newStatus = 'NEEDS_INFO';
+  } else if (participation.isRequester && workflow.status === 'NEEDS_INFO') {
+    kind = 'INFO_PROVIDED';
+    newStatus = 'PENDING';
+  }
+
+  // Files are stored only once the message is known to be accepted
+  const uploads = await Promise.all(files.map(file => uploadFile(file, ATTACHMENT_FOLDER)));
+
+  let message;
+  try {
+    message = await prisma.$transaction(async (tx) => {
+      if (newStatus) {
+        const moved = await tx.approvalWorkflow.updateMany({
+          where: { id: workflowId, status: workflow.status },
+          data: {
+            status: newStatus,
+            // The approver's clock restarts once they have what they asked for
+            ...(newStatus === 'PENDING' && buildSlaClock(workflow.type, (workflow.data as { priority?: string } | null)?.priority))
+          }
+        });
+        if (moved.count === 0) {
+          throw new Error('WORKFLOW_STATE_CHANGED');
+        }
+      }
+
+      return tx.workflowMessage.create({
+        data: {
+          workflowId,
+          authorId: actor.id,
+          kind,
+          body,
+          attachments: { create: uploads }
+        },
+        include: messageInclude
+      });
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'WORKFLOW_STATE_CHANGED') {
+      return { success: false, error: 'The workflow changed while you were writing; reload and try again', errorCode: 'WORKFLOW_STATE_CHANGED' };
+    }
+    throw error;
+  }
+
+  const title = getWorkflowTitle(workflow);
+
+  if (newStatus) {
+    await logAudit({
+      entityType: 'APPROVAL_WORKFLOW',
+      entityId: workflowId,
+      changedById: actor.id,
+      fieldChanged: 'status',
+      oldValue: workflow.status,
+      newValue: newStatus
+    });
+  }
+
+  await logTimelineActivity({
+    entityType: 'APPROVAL_WORKFLOW',
+    entityId: workflowId,
+    activityType: 'COMMENT_ADDED',
+    title: kind === 'INFO_REQUESTED'
+      ? `${actor.name} asked for more information`
+      : kind === 'INFO_PROVIDED' ? `${actor.name} provided more information` : `${actor.name} commented`,
+    description: body.length > 200 ? `${body.slice(0, 197)}...` : body,
+    metadata: {
+      workflowType: workflow.type,
+      messageId: message.id,
+      kind,
+      attachments: uploads.map(upload => upload.fileName),
+      previousStatus: newStatus ? workflow.status : undefined,
+      newStatus: newStatus || undefined
+    },
+    performedBy: actor.id,
+    workflowId
+  });
+
+  // The other side is told when the ball is in their court
+  const recipient = kind === 'INFO_REQUESTED' ? workflow.requester : kind === 'INFO_PROVIDED' ? workflow.approver : null;
+  if (recipient && recipient.id !== actor.id) {
+    const link = process.env.APP_URL ? ['', `${process.env.APP_URL.replace(/\/$/, '')}/approvals`] : [];
+    await sendMail({
+      to: recipient.email,
+      subject: kind === 'INFO_REQUESTED' ? `More information needed: ${title}` : `More information provided: ${title}`,
+      text: [
+        `Hi ${recipient.name},`,
+        '',
+        kind === 'INFO_REQUESTED'
+          ? `${actor.name} needs more information before deciding on "${title}":`
+          : `${actor.name} answered your question on "${title}":`,
+        '',
+        body,
+        ...(uploads.length ? ['', `Attachments: ${uploads.map(upload => upload.fileName).join(', ')}`] : []),
+        ...link,
+        '',
+        `${getCompanyName()} portal`
+      ].join('\n')
+    });
+  }
+
+  return { success: true, message, status: newStatus || workflow.status };
+}
+
+// Map a thread error code to an HTTP status for API routes
+export function getThreadErrorStatus(errorCode?: string): number {
+  switch (errorCode) {
+    case 'WORKFLOW_NOT_FOUND':
+      return 404;
+    case 'FORBIDDEN':
+      return 403;
+    case 'WORKFLOW_NOT_PENDING':
+    case 'WORKFLOW_STATE_CHANGED':
+      return 409;
+    default:
+      return 400;
+  }
+}
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "ApprovalWorkflow" ADD COLUMN     "currentStage" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "ApprovalStage" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "stageNumber" INTEGER NOT NULL,
+    "approverRole" TEXT,
+    "approverId" TEXT NOT NULL,
+    "decision" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "decidedAt" TIMESTAMP(3),
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApprovalStage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalStage_workflowId_stageNumber_key" ON "ApprovalStage"("workflowId", "stageNumber");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStage" ADD CONSTRAINT "ApprovalStage_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStage" ADD CONSTRAINT "ApprovalStage_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
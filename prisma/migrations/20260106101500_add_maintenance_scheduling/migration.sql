@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "MaintenanceStatus" AS ENUM ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "ResourceMaintenance" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "itemId" TEXT,
+ADD COLUMN     "recurrenceDays" INTEGER,
+ADD COLUMN     "scheduledFor" TIMESTAMP(3),
+ADD COLUMN     "status" "MaintenanceStatus" NOT NULL DEFAULT 'COMPLETED',
+ALTER COLUMN "performedAt" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "ResourceMaintenance" ADD CONSTRAINT "ResourceMaintenance_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "ResourceItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "SoftwareUpdate" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "previousVersions" JSONB,
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "targetItemIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
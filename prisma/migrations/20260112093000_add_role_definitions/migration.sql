@@ -0,0 +1,428 @@
+-- Roles become data: the Role enum is replaced by the RoleDefinition table, seeded with
+-- the former enum values and the permission matrix that used to be hard-coded in
+-- lib/permissions.ts.
+
+-- CreateEnum
+CREATE TYPE "RoleTier" AS ENUM ('EXECUTIVE', 'DEPARTMENT_HEAD', 'OPERATIONAL_MANAGER', 'STAFF');
+
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'ROLE';
+
+-- CreateTable
+CREATE TABLE "RoleDefinition" (
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "tier" "RoleTier" NOT NULL DEFAULT 'STAFF',
+    "isAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "approvalLimit" DOUBLE PRECISION,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoleDefinition_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "roleKey" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("roleKey","permission")
+);
+
+-- CreateTable
+CREATE TABLE "EmployeePermissionGrant" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "granted" BOOLEAN NOT NULL DEFAULT true,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "grantedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmployeePermissionGrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmployeePermissionGrant_employeeId_permission_key" ON "EmployeePermissionGrant"("employeeId", "permission");
+
+-- Seed built-in roles
+INSERT INTO "RoleDefinition" ("key", "name", "tier", "isAdmin", "approvalLimit", "isSystem", "updatedAt") VALUES
+    ('CEO', 'CEO', 'EXECUTIVE'::"RoleTier", true, NULL, true, CURRENT_TIMESTAMP),
+    ('CTO', 'CTO', 'EXECUTIVE'::"RoleTier", true, 25000, true, CURRENT_TIMESTAMP),
+    ('CFO', 'CFO', 'EXECUTIVE'::"RoleTier", false, 50000, true, CURRENT_TIMESTAMP),
+    ('COO', 'COO', 'EXECUTIVE'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('ENGINEERING_MANAGER', 'Engineering Manager', 'DEPARTMENT_HEAD'::"RoleTier", false, 10000, true, CURRENT_TIMESTAMP),
+    ('PRODUCT_MANAGER', 'Product Manager', 'DEPARTMENT_HEAD'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('SALES_MANAGER', 'Sales Manager', 'DEPARTMENT_HEAD'::"RoleTier", false, 10000, true, CURRENT_TIMESTAMP),
+    ('HR_MANAGER', 'HR Manager', 'DEPARTMENT_HEAD'::"RoleTier", false, 5000, true, CURRENT_TIMESTAMP),
+    ('MARKETING_MANAGER', 'Marketing Manager', 'DEPARTMENT_HEAD'::"RoleTier", false, 10000, true, CURRENT_TIMESTAMP),
+    ('FRONTEND_DEVELOPER', 'Frontend Developer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('BACKEND_DEVELOPER', 'Backend Developer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('FULLSTACK_DEVELOPER', 'Fullstack Developer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('MOBILE_DEVELOPER', 'Mobile Developer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('DEVOPS_ENGINEER', 'Devops Engineer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('QA_ENGINEER', 'QA Engineer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('DATA_SCIENTIST', 'Data Scientist', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('UI_UX_DESIGNER', 'UI UX Designer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('SYSTEM_ADMINISTRATOR', 'System Administrator', 'OPERATIONAL_MANAGER'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('SECURITY_ENGINEER', 'Security Engineer', 'OPERATIONAL_MANAGER'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('SALES_REPRESENTATIVE', 'Sales Representative', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('BUSINESS_ANALYST', 'Business Analyst', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('MARKETING_SPECIALIST', 'Marketing Specialist', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('HR_SPECIALIST', 'HR Specialist', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('ACCOUNTANT', 'Accountant', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('INTERN', 'Intern', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('JUNIOR_DEVELOPER', 'Junior Developer', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('TRAINEE', 'Trainee', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('ADMIN', 'Admin', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP),
+    ('EMPLOYEE', 'Employee', 'STAFF'::"RoleTier", false, 1000, true, CURRENT_TIMESTAMP);
+
+-- Seed the permission matrix
+INSERT INTO "RolePermission" ("roleKey", "permission") VALUES
+    ('CEO', 'canViewOwnProfile'),
+    ('CEO', 'canEditOwnProfile'),
+    ('CEO', 'canViewOwnResources'),
+    ('CEO', 'canRequestAccess'),
+    ('CEO', 'canViewOwnAccessRequests'),
+    ('CEO', 'canViewPolicies'),
+    ('CEO', 'canAddPolicy'),
+    ('CEO', 'canViewDocuments'),
+    ('CEO', 'canViewOwnApprovals'),
+    ('CEO', 'canViewAllEmployees'),
+    ('CEO', 'canAddEmployee'),
+    ('CEO', 'canEditEmployee'),
+    ('CEO', 'canDeleteEmployee'),
+    ('CEO', 'canViewAllResources'),
+    ('CEO', 'canAddResource'),
+    ('CEO', 'canEditResource'),
+    ('CEO', 'canDeleteResource'),
+    ('CEO', 'canApproveAccess'),
+    ('CEO', 'canViewAllAccessRequests'),
+    ('CEO', 'canEditPolicy'),
+    ('CEO', 'canDeletePolicy'),
+    ('CEO', 'canEditDocument'),
+    ('CEO', 'canDeleteDocument'),
+    ('CEO', 'canViewAllApprovals'),
+    ('CEO', 'canApproveWorkflows'),
+    ('CEO', 'canViewAudit'),
+    ('CEO', 'canViewTimeline'),
+    ('CEO', 'canManageRoles'),
+    ('CEO', 'canApproveFinancialRequests'),
+    ('CEO', 'canApproveHRRequests'),
+    ('CEO', 'canManageAccounts'),
+    ('CEO', 'canIssueServiceTokens'),
+    ('CEO', 'canAddDocument'),
+    ('CTO', 'canViewOwnProfile'),
+    ('CTO', 'canEditOwnProfile'),
+    ('CTO', 'canViewOwnResources'),
+    ('CTO', 'canRequestAccess'),
+    ('CTO', 'canViewOwnAccessRequests'),
+    ('CTO', 'canViewPolicies'),
+    ('CTO', 'canAddPolicy'),
+    ('CTO', 'canViewDocuments'),
+    ('CTO', 'canViewOwnApprovals'),
+    ('CTO', 'canViewAllEmployees'),
+    ('CTO', 'canAddEmployee'),
+    ('CTO', 'canEditEmployee'),
+    ('CTO', 'canDeleteEmployee'),
+    ('CTO', 'canViewAllResources'),
+    ('CTO', 'canAddResource'),
+    ('CTO', 'canEditResource'),
+    ('CTO', 'canDeleteResource'),
+    ('CTO', 'canApproveAccess'),
+    ('CTO', 'canViewAllAccessRequests'),
+    ('CTO', 'canEditPolicy'),
+    ('CTO', 'canDeletePolicy'),
+    ('CTO', 'canEditDocument'),
+    ('CTO', 'canDeleteDocument'),
+    ('CTO', 'canViewAllApprovals'),
+    ('CTO', 'canApproveWorkflows'),
+    ('CTO', 'canViewAudit'),
+    ('CTO', 'canViewTimeline'),
+    ('CTO', 'canManageRoles'),
+    ('CTO', 'canApproveITRequests'),
+    ('CTO', 'canApproveSecurityRequests'),
+    ('CTO', 'canManageAccounts'),
+    ('CTO', 'canIssueServiceTokens'),
+    ('CTO', 'canAddDocument'),
+    ('CFO', 'canViewOwnProfile'),
+    ('CFO', 'canEditOwnProfile'),
+    ('CFO', 'canViewOwnResources'),
+    ('CFO', 'canRequestAccess'),
+    ('CFO', 'canViewOwnAccessRequests'),
+    ('CFO', 'canViewPolicies'),
+    ('CFO', 'canAddPolicy'),
+    ('CFO', 'canViewDocuments'),
+    ('CFO', 'canViewOwnApprovals'),
+    ('CFO', 'canApproveFinancialRequests'),
+    ('CFO', 'canAddDocument'),
+    ('COO', 'canViewOwnProfile'),
+    ('COO', 'canEditOwnProfile'),
+    ('COO', 'canViewOwnResources'),
+    ('COO', 'canRequestAccess'),
+    ('COO', 'canViewOwnAccessRequests'),
+    ('COO', 'canViewPolicies'),
+    ('COO', 'canAddPolicy'),
+    ('COO', 'canViewDocuments'),
+    ('COO', 'canViewOwnApprovals'),
+    ('COO', 'canAddDocument'),
+    ('ENGINEERING_MANAGER', 'canViewOwnProfile'),
+    ('ENGINEERING_MANAGER', 'canEditOwnProfile'),
+    ('ENGINEERING_MANAGER', 'canViewOwnResources'),
+    ('ENGINEERING_MANAGER', 'canRequestAccess'),
+    ('ENGINEERING_MANAGER', 'canViewOwnAccessRequests'),
+    ('ENGINEERING_MANAGER', 'canViewPolicies'),
+    ('ENGINEERING_MANAGER', 'canAddPolicy'),
+    ('ENGINEERING_MANAGER', 'canViewDocuments'),
+    ('ENGINEERING_MANAGER', 'canViewOwnApprovals'),
+    ('ENGINEERING_MANAGER', 'canApproveITRequests'),
+    ('ENGINEERING_MANAGER', 'canAddDocument'),
+    ('PRODUCT_MANAGER', 'canViewOwnProfile'),
+    ('PRODUCT_MANAGER', 'canEditOwnProfile'),
+    ('PRODUCT_MANAGER', 'canViewOwnResources'),
+    ('PRODUCT_MANAGER', 'canRequestAccess'),
+    ('PRODUCT_MANAGER', 'canViewOwnAccessRequests'),
+    ('PRODUCT_MANAGER', 'canViewPolicies'),
+    ('PRODUCT_MANAGER', 'canAddPolicy'),
+    ('PRODUCT_MANAGER', 'canViewDocuments'),
+    ('PRODUCT_MANAGER', 'canViewOwnApprovals'),
+    ('PRODUCT_MANAGER', 'canAddDocument'),
+    ('SALES_MANAGER', 'canViewOwnProfile'),
+    ('SALES_MANAGER', 'canEditOwnProfile'),
+    ('SALES_MANAGER', 'canViewOwnResources'),
+    ('SALES_MANAGER', 'canRequestAccess'),
+    ('SALES_MANAGER', 'canViewOwnAccessRequests'),
+    ('SALES_MANAGER', 'canViewPolicies'),
+    ('SALES_MANAGER', 'canAddPolicy'),
+    ('SALES_MANAGER', 'canViewDocuments'),
+    ('SALES_MANAGER', 'canViewOwnApprovals'),
+    ('SALES_MANAGER', 'canAddDocument'),
+    ('HR_MANAGER', 'canViewOwnProfile'),
+    ('HR_MANAGER', 'canEditOwnProfile'),
+    ('HR_MANAGER', 'canViewOwnResources'),
+    ('HR_MANAGER', 'canRequestAccess'),
+    ('HR_MANAGER', 'canViewOwnAccessRequests'),
+    ('HR_MANAGER', 'canViewPolicies'),
+    ('HR_MANAGER', 'canAddPolicy'),
+    ('HR_MANAGER', 'canViewDocuments'),
+    ('HR_MANAGER', 'canViewOwnApprovals'),
+    ('HR_MANAGER', 'canApproveHRRequests'),
+    ('HR_MANAGER', 'canManageAccounts'),
+    ('HR_MANAGER', 'canAddDocument'),
+    ('MARKETING_MANAGER', 'canViewOwnProfile'),
+    ('MARKETING_MANAGER', 'canEditOwnProfile'),
+    ('MARKETING_MANAGER', 'canViewOwnResources'),
+    ('MARKETING_MANAGER', 'canRequestAccess'),
+    ('MARKETING_MANAGER', 'canViewOwnAccessRequests'),
+    ('MARKETING_MANAGER', 'canViewPolicies'),
+    ('MARKETING_MANAGER', 'canAddPolicy'),
+    ('MARKETING_MANAGER', 'canViewDocuments'),
+    ('MARKETING_MANAGER', 'canViewOwnApprovals'),
+    ('MARKETING_MANAGER', 'canAddDocument'),
+    ('FRONTEND_DEVELOPER', 'canViewOwnProfile'),
+    ('FRONTEND_DEVELOPER', 'canEditOwnProfile'),
+    ('FRONTEND_DEVELOPER', 'canViewOwnResources'),
+    ('FRONTEND_DEVELOPER', 'canRequestAccess'),
+    ('FRONTEND_DEVELOPER', 'canViewOwnAccessRequests'),
+    ('FRONTEND_DEVELOPER', 'canViewPolicies'),
+    ('FRONTEND_DEVELOPER', 'canAddPolicy'),
+    ('FRONTEND_DEVELOPER', 'canViewDocuments'),
+    ('FRONTEND_DEVELOPER', 'canViewOwnApprovals'),
+    ('BACKEND_DEVELOPER', 'canViewOwnProfile'),
+    ('BACKEND_DEVELOPER', 'canEditOwnProfile'),
+    ('BACKEND_DEVELOPER', 'canViewOwnResources'),
+    ('BACKEND_DEVELOPER', 'canRequestAccess'),
+    ('BACKEND_DEVELOPER', 'canViewOwnAccessRequests'),
+    ('BACKEND_DEVELOPER', 'canViewPolicies'),
+    ('BACKEND_DEVELOPER', 'canAddPolicy'),
+    ('BACKEND_DEVELOPER', 'canViewDocuments'),
+    ('BACKEND_DEVELOPER', 'canViewOwnApprovals'),
+    ('FULLSTACK_DEVELOPER', 'canViewOwnProfile'),
+    ('FULLSTACK_DEVELOPER', 'canEditOwnProfile'),
+    ('FULLSTACK_DEVELOPER', 'canViewOwnResources'),
+    ('FULLSTACK_DEVELOPER', 'canRequestAccess'),
+    ('FULLSTACK_DEVELOPER', 'canViewOwnAccessRequests'),
+    ('FULLSTACK_DEVELOPER', 'canViewPolicies'),
+    ('FULLSTACK_DEVELOPER', 'canAddPolicy'),
+    ('FULLSTACK_DEVELOPER', 'canViewDocuments'),
+    ('FULLSTACK_DEVELOPER', 'canViewOwnApprovals'),
+    ('MOBILE_DEVELOPER', 'canViewOwnProfile'),
+    ('MOBILE_DEVELOPER', 'canEditOwnProfile'),
+    ('MOBILE_DEVELOPER', 'canViewOwnResources'),
+    ('MOBILE_DEVELOPER', 'canRequestAccess'),
+    ('MOBILE_DEVELOPER', 'canViewOwnAccessRequests'),
+    ('MOBILE_DEVELOPER', 'canViewPolicies'),
+    ('MOBILE_DEVELOPER', 'canAddPolicy'),
+    ('MOBILE_DEVELOPER', 'canViewDocuments'),
+    ('MOBILE_DEVELOPER', 'canViewOwnApprovals'),
+    ('DEVOPS_ENGINEER', 'canViewOwnProfile'),
+    ('DEVOPS_ENGINEER', 'canEditOwnProfile'),
+    ('DEVOPS_ENGINEER', 'canViewOwnResources'),
+    ('DEVOPS_ENGINEER', 'canRequestAccess'),
+    ('DEVOPS_ENGINEER', 'canViewOwnAccessRequests'),
+    ('DEVOPS_ENGINEER', 'canViewPolicies'),
+    ('DEVOPS_ENGINEER', 'canAddPolicy'),
+    ('DEVOPS_ENGINEER', 'canViewDocuments'),
+    ('DEVOPS_ENGINEER', 'canViewOwnApprovals'),
+    ('QA_ENGINEER', 'canViewOwnProfile'),
+    ('QA_ENGINEER', 'canEditOwnProfile'),
+    ('QA_ENGINEER', 'canViewOwnResources'),
+    ('QA_ENGINEER', 'canRequestAccess'),
+    ('QA_ENGINEER', 'canViewOwnAccessRequests'),
+    ('QA_ENGINEER', 'canViewPolicies'),
+    ('QA_ENGINEER', 'canAddPolicy'),
+    ('QA_ENGINEER', 'canViewDocuments'),
+    ('QA_ENGINEER', 'canViewOwnApprovals'),
+    ('DATA_SCIENTIST', 'canViewOwnProfile'),
+    ('DATA_SCIENTIST', 'canEditOwnProfile'),
+    ('DATA_SCIENTIST', 'canViewOwnResources'),
+    ('DATA_SCIENTIST', 'canRequestAccess'),
+    ('DATA_SCIENTIST', 'canViewOwnAccessRequests'),
+    ('DATA_SCIENTIST', 'canViewPolicies'),
+    ('DATA_SCIENTIST', 'canAddPolicy'),
+    ('DATA_SCIENTIST', 'canViewDocuments'),
+    ('DATA_SCIENTIST', 'canViewOwnApprovals'),
+    ('UI_UX_DESIGNER', 'canViewOwnProfile'),
+    ('UI_UX_DESIGNER', 'canEditOwnProfile'),
+    ('UI_UX_DESIGNER', 'canViewOwnResources'),
+    ('UI_UX_DESIGNER', 'canRequestAccess'),
+    ('UI_UX_DESIGNER', 'canViewOwnAccessRequests'),
+    ('UI_UX_DESIGNER', 'canViewPolicies'),
+    ('UI_UX_DESIGNER', 'canAddPolicy'),
+    ('UI_UX_DESIGNER', 'canViewDocuments'),
+    ('UI_UX_DESIGNER', 'canViewOwnApprovals'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewOwnProfile'),
+    ('SYSTEM_ADMINISTRATOR', 'canEditOwnProfile'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewOwnResources'),
+    ('SYSTEM_ADMINISTRATOR', 'canRequestAccess'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewOwnAccessRequests'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewPolicies'),
+    ('SYSTEM_ADMINISTRATOR', 'canAddPolicy'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewDocuments'),
+    ('SYSTEM_ADMINISTRATOR', 'canViewOwnApprovals'),
+    ('SYSTEM_ADMINISTRATOR', 'canApproveITRequests'),
+    ('SECURITY_ENGINEER', 'canViewOwnProfile'),
+    ('SECURITY_ENGINEER', 'canEditOwnProfile'),
+    ('SECURITY_ENGINEER', 'canViewOwnResources'),
+    ('SECURITY_ENGINEER', 'canRequestAccess'),
+    ('SECURITY_ENGINEER', 'canViewOwnAccessRequests'),
+    ('SECURITY_ENGINEER', 'canViewPolicies'),
+    ('SECURITY_ENGINEER', 'canAddPolicy'),
+    ('SECURITY_ENGINEER', 'canViewDocuments'),
+    ('SECURITY_ENGINEER', 'canViewOwnApprovals'),
+    ('SECURITY_ENGINEER', 'canApproveSecurityRequests'),
+    ('SALES_REPRESENTATIVE', 'canViewOwnProfile'),
+    ('SALES_REPRESENTATIVE', 'canEditOwnProfile'),
+    ('SALES_REPRESENTATIVE', 'canViewOwnResources'),
+    ('SALES_REPRESENTATIVE', 'canRequestAccess'),
+    ('SALES_REPRESENTATIVE', 'canViewOwnAccessRequests'),
+    ('SALES_REPRESENTATIVE', 'canViewPolicies'),
+    ('SALES_REPRESENTATIVE', 'canAddPolicy'),
+    ('SALES_REPRESENTATIVE', 'canViewDocuments'),
+    ('SALES_REPRESENTATIVE', 'canViewOwnApprovals'),
+    ('BUSINESS_ANALYST', 'canViewOwnProfile'),
+    ('BUSINESS_ANALYST', 'canEditOwnProfile'),
+    ('BUSINESS_ANALYST', 'canViewOwnResources'),
+    ('BUSINESS_ANALYST', 'canRequestAccess'),
+    ('BUSINESS_ANALYST', 'canViewOwnAccessRequests'),
+    ('BUSINESS_ANALYST', 'canViewPolicies'),
+    ('BUSINESS_ANALYST', 'canAddPolicy'),
+    ('BUSINESS_ANALYST', 'canViewDocuments'),
+    ('BUSINESS_ANALYST', 'canViewOwnApprovals'),
+    ('MARKETING_SPECIALIST', 'canViewOwnProfile'),
+    ('MARKETING_SPECIALIST', 'canEditOwnProfile'),
+    ('MARKETING_SPECIALIST', 'canViewOwnResources'),
+    ('MARKETING_SPECIALIST', 'canRequestAccess'),
+    ('MARKETING_SPECIALIST', 'canViewOwnAccessRequests'),
+    ('MARKETING_SPECIALIST', 'canViewPolicies'),
+    ('MARKETING_SPECIALIST', 'canAddPolicy'),
+    ('MARKETING_SPECIALIST', 'canViewDocuments'),
+    ('MARKETING_SPECIALIST', 'canViewOwnApprovals'),
+    ('HR_SPECIALIST', 'canViewOwnProfile'),
+    ('HR_SPECIALIST', 'canEditOwnProfile'),
+    ('HR_SPECIALIST', 'canViewOwnResources'),
+    ('HR_SPECIALIST', 'canRequestAccess'),
+    ('HR_SPECIALIST', 'canViewOwnAccessRequests'),
+    ('HR_SPECIALIST', 'canViewPolicies'),
+    ('HR_SPECIALIST', 'canAddPolicy'),
+    ('HR_SPECIALIST', 'canViewDocuments'),
+    ('HR_SPECIALIST', 'canViewOwnApprovals'),
+    ('ACCOUNTANT', 'canViewOwnProfile'),
+    ('ACCOUNTANT', 'canEditOwnProfile'),
+    ('ACCOUNTANT', 'canViewOwnResources'),
+    ('ACCOUNTANT', 'canRequestAccess'),
+    ('ACCOUNTANT', 'canViewOwnAccessRequests'),
+    ('ACCOUNTANT', 'canViewPolicies'),
+    ('ACCOUNTANT', 'canAddPolicy'),
+    ('ACCOUNTANT', 'canViewDocuments'),
+    ('ACCOUNTANT', 'canViewOwnApprovals'),
+    ('INTERN', 'canViewOwnProfile'),
+    ('INTERN', 'canEditOwnProfile'),
+    ('INTERN', 'canViewOwnResources'),
+    ('INTERN', 'canRequestAccess'),
+    ('INTERN', 'canViewOwnAccessRequests'),
+    ('INTERN', 'canViewPolicies'),
+    ('INTERN', 'canAddPolicy'),
+    ('INTERN', 'canViewDocuments'),
+    ('INTERN', 'canViewOwnApprovals'),
+    ('JUNIOR_DEVELOPER', 'canViewOwnProfile'),
+    ('JUNIOR_DEVELOPER', 'canEditOwnProfile'),
+    ('JUNIOR_DEVELOPER', 'canViewOwnResources'),
+    ('JUNIOR_DEVELOPER', 'canRequestAccess'),
+    ('JUNIOR_DEVELOPER', 'canViewOwnAccessRequests'),
+    ('JUNIOR_DEVELOPER', 'canViewPolicies'),
+    ('JUNIOR_DEVELOPER', 'canAddPolicy'),
+    ('JUNIOR_DEVELOPER', 'canViewDocuments'),
+    ('JUNIOR_DEVELOPER', 'canViewOwnApprovals'),
+    ('TRAINEE', 'canViewOwnProfile'),
+    ('TRAINEE', 'canEditOwnProfile'),
+    ('TRAINEE', 'canViewOwnResources'),
+    ('TRAINEE', 'canRequestAccess'),
+    ('TRAINEE', 'canViewOwnAccessRequests'),
+    ('TRAINEE', 'canViewPolicies'),
+    ('TRAINEE', 'canAddPolicy'),
+    ('TRAINEE', 'canViewDocuments'),
+    ('TRAINEE', 'canViewOwnApprovals'),
+    ('ADMIN', 'canViewOwnProfile'),
+    ('ADMIN', 'canEditOwnProfile'),
+    ('ADMIN', 'canViewOwnResources'),
+    ('ADMIN', 'canRequestAccess'),
+    ('ADMIN', 'canViewOwnAccessRequests'),
+    ('ADMIN', 'canViewPolicies'),
+    ('ADMIN', 'canAddPolicy'),
+    ('ADMIN', 'canViewDocuments'),
+    ('ADMIN', 'canViewOwnApprovals'),
+    ('ADMIN', 'canManageAccounts'),
+    ('ADMIN', 'canIssueServiceTokens'),
+    ('EMPLOYEE', 'canViewOwnProfile'),
+    ('EMPLOYEE', 'canEditOwnProfile'),
+    ('EMPLOYEE', 'canViewOwnResources'),
+    ('EMPLOYEE', 'canRequestAccess'),
+    ('EMPLOYEE', 'canViewOwnAccessRequests'),
+    ('EMPLOYEE', 'canViewPolicies'),
+    ('EMPLOYEE', 'canAddPolicy'),
+    ('EMPLOYEE', 'canViewDocuments'),
+    ('EMPLOYEE', 'canViewOwnApprovals');
+
+-- Employee.role now references RoleDefinition.key
+ALTER TABLE "Employee" ALTER COLUMN "role" TYPE TEXT USING "role"::TEXT;
+
+-- DropEnum
+DROP TYPE "Role";
+
+-- AddForeignKey
+ALTER TABLE "Employee" ADD CONSTRAINT "Employee_role_fkey" FOREIGN KEY ("role") REFERENCES "RoleDefinition"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_roleKey_fkey" FOREIGN KEY ("roleKey") REFERENCES "RoleDefinition"("key") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmployeePermissionGrant" ADD CONSTRAINT "EmployeePermissionGrant_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmployeePermissionGrant" ADD CONSTRAINT "EmployeePermissionGrant_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
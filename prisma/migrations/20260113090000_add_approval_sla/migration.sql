@@ -0,0 +1,22 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "ActivityType" ADD VALUE 'WORKFLOW_ESCALATED';
+ALTER TYPE "ActivityType" ADD VALUE 'SLA_REMINDER_SENT';
+ALTER TYPE "ActivityType" ADD VALUE 'SLA_BREACHED';
+
+-- AlterTable
+ALTER TABLE "ApprovalWorkflow" ADD COLUMN     "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slaBreachedAt" TIMESTAMP(3),
+ADD COLUMN     "slaDueAt" TIMESTAMP(3),
+ADD COLUMN     "slaRemindAt" TIMESTAMP(3),
+ADD COLUMN     "slaRemindedAt" TIMESTAMP(3),
+ADD COLUMN     "slaStartedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ApprovalWorkflow_status_slaDueAt_idx" ON "ApprovalWorkflow"("status", "slaDueAt");
@@ -0,0 +1,46 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'WORKFLOW_DELEGATED';
+
+-- AlterTable
+ALTER TABLE "ApprovalWorkflow" ADD COLUMN     "delegatedFromId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ApprovalStage" ADD COLUMN     "delegatedFromId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ApprovalDelegation" (
+    "id" TEXT NOT NULL,
+    "delegatorId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "workflowTypes" "WorkflowType"[] DEFAULT ARRAY[]::"WorkflowType"[],
+    "reason" TEXT,
+    "createdById" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_delegatorId_endsAt_idx" ON "ApprovalDelegation"("delegatorId", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_delegateId_idx" ON "ApprovalDelegation"("delegateId");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalWorkflow" ADD CONSTRAINT "ApprovalWorkflow_delegatedFromId_fkey" FOREIGN KEY ("delegatedFromId") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStage" ADD CONSTRAINT "ApprovalStage_delegatedFromId_fkey" FOREIGN KEY ("delegatedFromId") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegatorId_fkey" FOREIGN KEY ("delegatorId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
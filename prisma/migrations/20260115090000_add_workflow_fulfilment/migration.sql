@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "FulfilmentStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'FULFILLED', 'FAILED', 'SKIPPED');
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'FULFILMENT_COMPLETED';
+ALTER TYPE "ActivityType" ADD VALUE 'FULFILMENT_FAILED';
+ALTER TYPE "ActivityType" ADD VALUE 'FULFILMENT_SKIPPED';
+
+-- AlterTable
+ALTER TABLE "ApprovalWorkflow" ADD COLUMN     "fulfilledAt" TIMESTAMP(3),
+ADD COLUMN     "fulfilmentAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "fulfilmentError" TEXT,
+ADD COLUMN     "fulfilmentResult" JSONB,
+ADD COLUMN     "fulfilmentStatus" "FulfilmentStatus";
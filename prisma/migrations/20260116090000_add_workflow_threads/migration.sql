@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "ApprovalStatus" ADD VALUE 'NEEDS_INFO';
+
+-- CreateEnum
+CREATE TYPE "WorkflowMessageKind" AS ENUM ('COMMENT', 'INFO_REQUESTED', 'INFO_PROVIDED');
+
+-- CreateTable
+CREATE TABLE "WorkflowMessage" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "kind" "WorkflowMessageKind" NOT NULL DEFAULT 'COMMENT',
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowAttachment" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowMessage_workflowId_createdAt_idx" ON "WorkflowMessage"("workflowId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WorkflowAttachment_messageId_idx" ON "WorkflowAttachment"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowMessage" ADD CONSTRAINT "WorkflowMessage_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowMessage" ADD CONSTRAINT "WorkflowMessage_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowAttachment" ADD CONSTRAINT "WorkflowAttachment_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "WorkflowMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'WORKFLOW_AMENDED';
+
+-- AlterTable
+ALTER TABLE "ApprovalWorkflow" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "WorkflowRevision" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "reason" TEXT,
+    "approvalRestarted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowRevision_workflowId_version_key" ON "WorkflowRevision"("workflowId", "version");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowRevision" ADD CONSTRAINT "WorkflowRevision_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowRevision" ADD CONSTRAINT "WorkflowRevision_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
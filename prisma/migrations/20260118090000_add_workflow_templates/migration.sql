@@ -0,0 +1,63 @@
+-- Request forms and routing become data: one template per workflow type, seeded with the
+-- forms that used to be hard-coded in OperationalRequestForm plus facility and travel requests.
+
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'WORKFLOW_TEMPLATE';
+
+-- CreateTable
+CREATE TABLE "WorkflowTemplate" (
+    "workflowType" "WorkflowType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "icon" TEXT,
+    "titleTemplate" TEXT,
+    "fields" JSONB NOT NULL DEFAULT '[]',
+    "requiredAttachments" JSONB NOT NULL DEFAULT '[]',
+    "routingRules" JSONB NOT NULL DEFAULT '[]',
+    "defaultPriority" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowTemplate_pkey" PRIMARY KEY ("workflowType")
+);
+
+-- Seed built-in templates
+INSERT INTO "WorkflowTemplate" ("workflowType", "name", "description", "icon", "titleTemplate", "fields", "requiredAttachments", "routingRules", "defaultPriority", "updatedAt") VALUES
+    ('IT_EQUIPMENT_REQUEST'::"WorkflowType", 'IT Equipment', 'Laptops, monitors and other hardware', '💻', 'IT Equipment Request: {name}',
+     '[{"key":"name","label":"Equipment Name","dataType":"STRING","required":true},{"key":"equipmentType","label":"Equipment Type","dataType":"STRING","required":true,"options":["laptop","desktop","monitor","mobile","other"]},{"key":"amount","label":"Estimated Cost","dataType":"NUMBER","required":true,"min":0},{"key":"justification","label":"Business Justification","dataType":"STRING","required":true,"multiline":true}]',
+     '[]',
+     '[{"minAmount":2000,"priority":"HIGH"}]',
+     'MEDIUM', CURRENT_TIMESTAMP),
+    ('SOFTWARE_LICENSE_REQUEST'::"WorkflowType", 'Software License', 'New software or additional seats', '📦', 'Software License Request: {name}',
+     '[{"key":"name","label":"Software Name","dataType":"STRING","required":true},{"key":"licenseType","label":"License Type","dataType":"STRING","required":true,"options":["individual","team","enterprise"]},{"key":"amount","label":"Annual Cost","dataType":"NUMBER","required":true,"min":0},{"key":"justification","label":"Business Justification","dataType":"STRING","required":true,"multiline":true}]',
+     '[]',
+     '[]',
+     'MEDIUM', CURRENT_TIMESTAMP),
+    ('EXPENSE_APPROVAL_REQUEST'::"WorkflowType", 'Expense Approval', 'Reimbursement of business expenses', '💰', 'Expense Approval: {category}',
+     '[{"key":"category","label":"Expense Category","dataType":"STRING","required":true,"optionsSource":"EXPENSE_CATEGORIES"},{"key":"amount","label":"Amount","dataType":"NUMBER","required":true,"min":0},{"key":"description","label":"Description","dataType":"STRING","required":true,"multiline":true},{"key":"justification","label":"Business Justification","dataType":"STRING","required":true,"multiline":true}]',
+     '[{"key":"receipt","label":"Receipt or invoice"}]',
+     '[{"minAmount":1000,"priority":"HIGH"}]',
+     'MEDIUM', CURRENT_TIMESTAMP),
+    ('HIRING_REQUEST'::"WorkflowType", 'New Hire', 'Open a new position', '👤', 'Hiring Request: {position}',
+     '[{"key":"position","label":"Position Title","dataType":"STRING","required":true},{"key":"department","label":"Department","dataType":"STRING","required":true,"optionsSource":"DEPARTMENTS"},{"key":"employmentType","label":"Employment Type","dataType":"STRING","required":true,"options":["full-time","part-time","contract","intern"]},{"key":"justification","label":"Business Justification","dataType":"STRING","required":true,"multiline":true}]',
+     '[]',
+     '[]',
+     'URGENT', CURRENT_TIMESTAMP),
+    ('FACILITY_REQUEST'::"WorkflowType", 'Facility Request', 'Workspace, furniture, maintenance or parking', '🏢', 'Facility Request: {facilityType} ({location})',
+     '[{"key":"facilityType","label":"Request Type","dataType":"STRING","required":true,"options":["workspace","meeting_room","furniture","maintenance","parking","other"]},{"key":"location","label":"Office or Location","dataType":"STRING","required":true},{"key":"neededBy","label":"Needed By","dataType":"DATE"},{"key":"amount","label":"Estimated Cost","dataType":"NUMBER","min":0},{"key":"description","label":"Description","dataType":"STRING","required":true,"multiline":true}]',
+     '[]',
+     '[{"minAmount":5000,"approverRoles":["COO","CFO"],"priority":"HIGH"}]',
+     'LOW', CURRENT_TIMESTAMP),
+    ('TRAVEL_REQUEST'::"WorkflowType", 'Travel Request', 'Business trips and their estimated cost', '✈️', 'Travel to {destination}',
+     '[{"key":"destination","label":"Destination","dataType":"STRING","required":true},{"key":"departureDate","label":"Departure Date","dataType":"DATE","required":true},{"key":"returnDate","label":"Return Date","dataType":"DATE","required":true},{"key":"international","label":"International travel","dataType":"BOOLEAN"},{"key":"amount","label":"Estimated Cost","dataType":"NUMBER","required":true,"min":0},{"key":"justification","label":"Purpose of Travel","dataType":"STRING","required":true,"multiline":true}]',
+     '[{"key":"itinerary","label":"Itinerary or quote"}]',
+     '[{"minAmount":3000,"approverRoles":["CFO","CEO"],"priority":"HIGH"},{"departments":["Engineering","IT","Technology","Data Science"],"approverRoles":["ENGINEERING_MANAGER"]},{"departments":["Sales","Customer Success"],"approverRoles":["SALES_MANAGER"]},{"departments":["Marketing"],"approverRoles":["MARKETING_MANAGER"]}]',
+     'MEDIUM', CURRENT_TIMESTAMP);
+
+-- Grant template management to the built-in administrator roles
+INSERT INTO "RolePermission" ("roleKey", "permission") VALUES
+    ('CEO', 'canManageWorkflowTemplates'),
+    ('CTO', 'canManageWorkflowTemplates'),
+    ('ADMIN', 'canManageWorkflowTemplates')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "ApprovalCompletionRule" AS ENUM ('ALL', 'ANY', 'QUORUM');
+
+-- AlterTable
+ALTER TABLE "ApprovalStage" ADD COLUMN     "completionRule" "ApprovalCompletionRule" NOT NULL DEFAULT 'ALL',
+ADD COLUMN     "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "vetoOnRejection" BOOLEAN NOT NULL DEFAULT true;
+
+-- DropIndex
+DROP INDEX "ApprovalStage_workflowId_stageNumber_key";
+
+-- CreateIndex
+CREATE INDEX "ApprovalStage_workflowId_stageNumber_idx" ON "ApprovalStage"("workflowId", "stageNumber");
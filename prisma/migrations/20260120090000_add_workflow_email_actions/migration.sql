@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "WorkflowEmailAction" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "stageNumber" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "usedAction" "ApprovalStatus",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowEmailAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowEmailAction_workflowId_approverId_idx" ON "WorkflowEmailAction"("workflowId", "approverId");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowEmailAction" ADD CONSTRAINT "WorkflowEmailAction_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowEmailAction" ADD CONSTRAINT "WorkflowEmailAction_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
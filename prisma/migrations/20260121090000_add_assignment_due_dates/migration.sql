@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'ASSIGNMENT_DUE_REMINDER_SENT';
+ALTER TYPE "ActivityType" ADD VALUE 'ASSIGNMENT_OVERDUE';
+
+-- AlterTable
+ALTER TABLE "ResourceAssignment" ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "dueReminderSentAt" TIMESTAMP(3),
+ADD COLUMN     "overdueNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ResourceAssignment_status_dueAt_idx" ON "ResourceAssignment"("status", "dueAt");
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('BOOKED', 'ACTIVE', 'COMPLETED', 'CANCELLED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'RESERVATION_CREATED';
+ALTER TYPE "ActivityType" ADD VALUE 'RESERVATION_CANCELLED';
+ALTER TYPE "ActivityType" ADD VALUE 'RESERVATION_STARTED';
+ALTER TYPE "ActivityType" ADD VALUE 'RESERVATION_ENDED';
+ALTER TYPE "ActivityType" ADD VALUE 'RESERVATION_FAILED';
+
+-- CreateTable
+CREATE TABLE "ResourceReservation" (
+    "id" TEXT NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "reservedById" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3) NOT NULL,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'BOOKED',
+    "assignmentId" TEXT,
+    "notes" TEXT,
+    "failureReason" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ResourceReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceReservation_assignmentId_key" ON "ResourceReservation"("assignmentId");
+
+-- CreateIndex
+CREATE INDEX "ResourceReservation_resourceId_startAt_endAt_idx" ON "ResourceReservation"("resourceId", "startAt", "endAt");
+
+-- CreateIndex
+CREATE INDEX "ResourceReservation_status_startAt_idx" ON "ResourceReservation"("status", "startAt");
+
+-- AddForeignKey
+ALTER TABLE "ResourceReservation" ADD CONSTRAINT "ResourceReservation_resourceId_fkey" FOREIGN KEY ("resourceId") REFERENCES "Resource"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceReservation" ADD CONSTRAINT "ResourceReservation_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceReservation" ADD CONSTRAINT "ResourceReservation_reservedById_fkey" FOREIGN KEY ("reservedById") REFERENCES "Employee"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResourceReservation" ADD CONSTRAINT "ResourceReservation_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "ResourceAssignment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Routes now check the permission matrix instead of hard-coded role lists. Grant the
+-- built-in roles the permissions that reproduce the access those lists gave them.
+INSERT INTO "RolePermission" ("roleKey", "permission") VALUES
+    ('CEO', 'canAssignResources'),
+    ('CTO', 'canAssignResources'),
+    ('ENGINEERING_MANAGER', 'canAssignResources'),
+    ('HR_MANAGER', 'canAssignResources'),
+    ('ADMIN', 'canAssignResources'),
+    ('CEO', 'canResetPasswords'),
+    ('CTO', 'canResetPasswords'),
+    ('HR_MANAGER', 'canEditEmployee'),
+    ('ADMIN', 'canEditEmployee'),
+    ('ADMIN', 'canViewAllResources'),
+    ('ADMIN', 'canAddResource'),
+    ('ADMIN', 'canEditResource')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,8 @@
+-- Grant software update planning to the roles that could already do it
+INSERT INTO "RolePermission" ("roleKey", "permission") VALUES
+    ('CEO', 'canManageSoftwareUpdates'),
+    ('CTO', 'canManageSoftwareUpdates'),
+    ('ADMIN', 'canManageSoftwareUpdates'),
+    ('SYSTEM_ADMINISTRATOR', 'canManageSoftwareUpdates'),
+    ('SECURITY_ENGINEER', 'canManageSoftwareUpdates')
+ON CONFLICT DO NOTHING;
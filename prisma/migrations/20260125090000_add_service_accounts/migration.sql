@@ -0,0 +1,5 @@
+-- Service tokens may only act as accounts marked as service accounts
+ALTER TABLE "Employee" ADD COLUMN "isServiceAccount" BOOLEAN NOT NULL DEFAULT false;
+
+-- Every token now expires; tokens issued without an expiry get the longest lifetime allowed
+UPDATE "ApiToken" SET "expiresAt" = "createdAt" + INTERVAL '365 days' WHERE "expiresAt" IS NULL;
@@ -131,6 +131,7 @@ export enum WorkflowType {
 
 export enum ApprovalStatus {
   PENDING = 'PENDING',
+  NEEDS_INFO = 'NEEDS_INFO',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
   CANCELLED = 'CANCELLED'
@@ -253,11 +254,26 @@ export enum ActivityType {
   ASSET_UNASSIGNED = 'ASSET_UNASSIGNED',
   ASSET_MAINTENANCE = 'ASSET_MAINTENANCE',
   SOFTWARE_UPDATED = 'SOFTWARE_UPDATED',
+  ASSIGNMENT_DUE_REMINDER_SENT = 'ASSIGNMENT_DUE_REMINDER_SENT',
+  ASSIGNMENT_OVERDUE = 'ASSIGNMENT_OVERDUE',
+  RESERVATION_CREATED = 'RESERVATION_CREATED',
+  RESERVATION_CANCELLED = 'RESERVATION_CANCELLED',
+  RESERVATION_STARTED = 'RESERVATION_STARTED',
+  RESERVATION_ENDED = 'RESERVATION_ENDED',
+  RESERVATION_FAILED = 'RESERVATION_FAILED',
   
   // Workflow specific
   WORKFLOW_STARTED = 'WORKFLOW_STARTED',
   WORKFLOW_COMPLETED = 'WORKFLOW_COMPLETED',
   WORKFLOW_CANCELLED = 'WORKFLOW_CANCELLED',
+  WORKFLOW_AMENDED = 'WORKFLOW_AMENDED',
+  WORKFLOW_ESCALATED = 'WORKFLOW_ESCALATED',
+  WORKFLOW_DELEGATED = 'WORKFLOW_DELEGATED',
+  SLA_REMINDER_SENT = 'SLA_REMINDER_SENT',
+  SLA_BREACHED = 'SLA_BREACHED',
+  FULFILMENT_COMPLETED = 'FULFILMENT_COMPLETED',
+  FULFILMENT_FAILED = 'FULFILMENT_FAILED',
+  FULFILMENT_SKIPPED = 'FULFILMENT_SKIPPED',
   
   // Employee specific
   EMPLOYEE_HIRED = 'EMPLOYEE_HIRED',
@@ -220,6 +220,7 @@ export interface ResourceAssignment {
   assignmentType: AssignmentType;
   assignedAt: Date;
   returnedAt?: Date;
+  dueAt?: Date;           // Expected return date, if the assignment is time-bound
   notes?: string;
 }
 
@@ -327,6 +328,30 @@ export interface CreateAssignmentRequest {
   itemId?: string;        // Required for Hardware, optional for Software/Cloud
   assignmentType: AssignmentType;
   notes?: string;
+  dueAt?: Date;           // Expected return date for loans and trials
+}
+
+/**
+ * Condition of the item when it is handed from one employee to the next
+ */
+export type HandoverCondition = 'GOOD' | 'DAMAGED';
+
+/**
+ * Request to transfer an active assignment to another employee
+ */
+export interface TransferAssignmentRequest {
+  toEmployeeId: string;
+  condition?: HandoverCondition;
+  notes?: string;
+  dueAt?: Date;           // Due date for the new holder; the old one is not carried over
+}
+
+/**
+ * Request to transfer what one employee holds to another
+ */
+export interface BulkTransferRequest extends TransferAssignmentRequest {
+  assignmentIds?: string[];                        // Defaults to every active assignment
+  conditions?: Record<string, HandoverCondition>;  // Per-assignment condition, keyed by assignment ID
 }
 
 /**